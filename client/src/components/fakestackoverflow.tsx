@@ -11,10 +11,13 @@ import LoginContext from '../contexts/LoginContext';
 import UserContext from '../contexts/UserContext';
 import QuestionPage from './main/questionPage';
 import TagPage from './main/tagPage';
+import TagDetailPage from './main/tagDetailPage';
 import NewQuestionPage from './main/newQuestion';
 import NewAnswerPage from './main/newAnswer';
 import AnswerPage from './main/answerPage';
 import SettingsPage from './main/settings';
+import ProfilePage from './main/profilePage';
+import ModerationPage from './main/moderationPage';
 import { ThemeProvider } from '../contexts/ThemeContext';
 import { FontProvider } from '../contexts/FontContext';
 import { TTSProvider } from '../contexts/TTSContext';
@@ -69,10 +72,13 @@ const FakeStackOverflow = ({ socket }: { socket: FakeSOSocket | null }) => {
               }>
               <Route path='/home' element={<QuestionPage />} />
               <Route path='tags' element={<TagPage />} />
+              <Route path='/tags/:tagName' element={<TagDetailPage />} />
               <Route path='/question/:qid' element={<AnswerPage />} />
               <Route path='/new/question' element={<NewQuestionPage />} />
               <Route path='/new/answer/:qid' element={<NewAnswerPage />} />
               <Route path='/settings' element={<SettingsPage />} />
+              <Route path='/user/:username' element={<ProfilePage />} />
+              <Route path='/moderation' element={<ModerationPage />} />
             </Route>
           }
         </Routes>
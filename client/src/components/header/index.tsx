@@ -5,15 +5,18 @@ import useHeader from '../../hooks/useHeader';
 import useUserContext from '../../hooks/useUserContext';
 import './index.css';
 import UserMenu from './userMenu';
+import NotificationMenu from './notificationMenu';
 import HoverToPlayTTSWrapper from '../textToSpeech/textToSpeechComponent';
 import ToggleTextToSpeech from '../textToSpeech/toggleTSS';
 import { useTheme } from '../../contexts/ThemeContext';
 import getContrastRatio from '../../utils/color.utils';
+import { getRefreshToken, setAuthTokens } from '../../services/config';
+import { logoutUser } from '../../services/userAuthService';
 
 const Header = () => {
   const { val, handleInputChange, handleKeyDown } = useHeader();
   const navigate = useNavigate();
-  const { user } = useUserContext();
+  const { user, socket } = useUserContext();
   const { theme, buttonColor } = useTheme();
 
   const lightLogoColor = '#FFFFFF';
@@ -39,9 +42,15 @@ const Header = () => {
   }
 
   /**
-   * Function to handle navigation to the login page.
+   * Function to sign out the current session and navigate to the login page.
    */
   const handleLogout = () => {
+    const refreshToken = getRefreshToken();
+    setAuthTokens(null, null);
+    socket.emit('deauthenticate');
+    if (refreshToken) {
+      logoutUser(refreshToken).catch(() => {});
+    }
     navigate('/');
   };
 
@@ -67,7 +76,10 @@ const Header = () => {
           </button>
         </HoverToPlayTTSWrapper>
       ) : (
-        <UserMenu username={user.username} onLogout={handleLogout} />
+        <>
+          <NotificationMenu />
+          <UserMenu username={user.username} role={user.role} onLogout={handleLogout} />
+        </>
       )}
       <ToggleTextToSpeech />
     </div>
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import useNotifications from '../../../hooks/useNotifications';
+import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
+import { getMetaData } from '../../../tool';
+import { Notification } from '../../../types';
+import './index.css';
+
+/**
+ * Function to describe what a notification is about.
+ *
+ * @param notification - The notification to describe.
+ * @returns The description, starting with the user who caused the notification.
+ */
+const describeNotification = (notification: Notification): string => {
+  switch (notification.type) {
+    case 'answer':
+      return `${notification.actor} answered your question`;
+    case 'comment':
+      return `${notification.actor} commented on your ${notification.postType}`;
+    case 'vote':
+      return `${notification.actor} voted on your ${notification.postType}`;
+    case 'acceptedAnswer':
+      return `${notification.actor} accepted your answer`;
+    default:
+      return `${notification.actor} mentioned you in a ${notification.postType}`;
+  }
+};
+
+/**
+ * A NotificationMenu component that displays a bell with the number of unread notifications,
+ * which opens a dropdown listing the user's most recent notifications.
+ */
+const NotificationMenu = () => {
+  const { notifications, unreadCount, openNotification, markAllAsRead } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+
+  /**
+   * Function to open a notification and close the dropdown.
+   *
+   * @param notification - The notification that was clicked.
+   */
+  const handleOpenNotification = (notification: Notification) => {
+    setIsOpen(false);
+    openNotification(notification);
+  };
+
+  return (
+    <div className='dropdown'>
+      <HoverToPlayTTSWrapper text={`${unreadCount} unread notifications`}>
+        <button
+          className='menubtn notification-bell'
+          aria-label='Notifications'
+          onClick={() => setIsOpen(!isOpen)}>
+          <i className='fas fa-bell'></i>
+          {unreadCount > 0 && (
+            <span className='notification-badge'>{unreadCount > 99 ? '99+' : unreadCount}</span>
+          )}
+        </button>
+      </HoverToPlayTTSWrapper>
+      {isOpen && (
+        <div className='dropdown-content notification-list'>
+          <div className='notification-list-header'>
+            <span>Notifications</span>
+            {unreadCount > 0 && <a onClick={markAllAsRead}>Mark all as read</a>}
+          </div>
+          {notifications.length === 0 ? (
+            <div className='notification-empty'>No notifications yet</div>
+          ) : (
+            notifications.map(n => (
+              <a
+                key={n._id}
+                className={`notification-item ${n.read ? '' : 'unread'}`}
+                onClick={() => handleOpenNotification(n)}>
+                <div>{describeNotification(n)}</div>
+                <div className='notification-meta'>
+                  {n.questionTitle} · {getMetaData(new Date(n.createdAt))}
+                </div>
+              </a>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationMenu;
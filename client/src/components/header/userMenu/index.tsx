@@ -1,27 +1,32 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
+import { UserRole } from '../../../types';
 import './index.css';
 
 /**
  * Interface represents the props for the UserMenu.
  *
  * username - The user's username to display
+ * role - The user's role, shown next to the username for moderators and admins
  * onLogout - The function to call when the user logs out
  */
 interface UserMenuProps {
   username: string;
+  role?: UserRole;
   onLogout: () => void;
 }
 
 /**
  * A UserMenu component that displays a dropdown menu for the user,
  * containing options to navigate to the settings page or to log out.
+ * Moderators and admins see their role next to their username.
  *
  * @param username - The user's username to display
+ * @param role - The user's role
  * @param onLogout - The function to call when the user logs out
  */
-const UserMenu = ({ username, onLogout }: UserMenuProps) => {
+const UserMenu = ({ username, role, onLogout }: UserMenuProps) => {
   const navigate = useNavigate();
   const [isOpen, setIsOpen] = useState(false);
 
@@ -45,6 +50,7 @@ const UserMenu = ({ username, onLogout }: UserMenuProps) => {
       <HoverToPlayTTSWrapper text={`Hi, user`}>
         <button className='menubtn' onClick={toggleDropdown}>
           Hi, {username.length > 20 ? `${username.substring(0, 20)}...` : username}
+          {role && role !== 'user' && <span className='role-badge'>{role}</span>}
           <span className={`caret ${isOpen ? 'open' : ''}`}></span>
         </button>
       </HoverToPlayTTSWrapper>
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import './index.css';
+import { AIAnswerFeedback, AIAnswerRating, AIAnswerStatus } from '../../../../types';
+import HoverToPlayTTSWrapper from '../../../textToSpeech/textToSpeechComponent';
+
+/**
+ * Interface representing the props for the AIAnswer component.
+ *
+ * - answer The AI generated answer, if there is one.
+ * - status Whether the answer is still being generated, ready or failed, if known.
+ * - feedback The ratings and flags of the answer, and whether the asker hid it.
+ * - username The username of the current user.
+ * - isAsker Whether the current user asked the question, and may hide or show the answer.
+ * - canGiveFeedback Whether the current user may rate and flag the answer.
+ * - handleRate Callback function to rate the answer as helpful or unhelpful.
+ * - handleFlag Callback function to flag the answer as incorrect.
+ * - handleHide Callback function to hide or show the answer.
+ */
+interface AIAnswerProps {
+  answer?: string;
+  status?: AIAnswerStatus;
+  feedback?: AIAnswerFeedback;
+  username: string;
+  isAsker: boolean;
+  canGiveFeedback: boolean;
+  handleRate: (rating: AIAnswerRating) => void;
+  handleFlag: (reason?: string) => void;
+  handleHide: (hidden: boolean) => void;
+}
+
+/**
+ * AIAnswer component that displays the AI generated answer of a question behind a toggle, with
+ * how helpful users found it. Users can rate the answer and flag it as incorrect, and the asker
+ * can hide it from everyone else.
+ *
+ * @param answer The AI generated answer.
+ * @param status The status of the answer.
+ * @param feedback The feedback on the answer.
+ * @param username The username of the current user.
+ * @param isAsker Whether the current user asked the question.
+ * @param canGiveFeedback Whether the current user may rate and flag the answer.
+ * @param handleRate Function to rate the answer.
+ * @param handleFlag Function to flag the answer as incorrect.
+ * @param handleHide Function to hide or show the answer.
+ */
+const AIAnswer = ({
+  answer,
+  status,
+  feedback,
+  username,
+  isAsker,
+  canGiveFeedback,
+  handleRate,
+  handleFlag,
+  handleHide,
+}: AIAnswerProps) => {
+  const [showAnswer, setShowAnswer] = useState<boolean>(false);
+  const [flagging, setFlagging] = useState<boolean>(false);
+  const [flagReason, setFlagReason] = useState<string>('');
+
+  const helpful = feedback?.helpful ?? [];
+  const unhelpful = feedback?.unhelpful ?? [];
+  const hidden = feedback?.hidden ?? false;
+  const flagged = (feedback?.flags ?? []).some(f => f.username === username);
+
+  let text = 'AI generated answer is not available';
+  if (status === 'pending') {
+    text = 'The AI answer is being generated...';
+  } else if (status === 'failed') {
+    text = 'The AI answer could not be generated.';
+  } else if (answer !== undefined) {
+    text = answer;
+  }
+
+  if (hidden && !isAsker) {
+    return (
+      <div className='comment-section'>
+        <div className='ai_answer_note'>The asker hid the AI generated answer.</div>
+      </div>
+    );
+  }
+
+  const ratings = helpful.length + unhelpful.length;
+  const helpfulness =
+    ratings > 0
+      ? `${helpful.length} of ${ratings} ${ratings === 1 ? 'user' : 'users'} found this answer helpful`
+      : 'No one has rated this answer yet';
+
+  return (
+    <div className='comment-section'>
+      <HoverToPlayTTSWrapper text='Button for showing AI-generated answer'>
+        <button className='toggle-button' onClick={() => setShowAnswer(!showAnswer)}>
+          {showAnswer ? 'Hide AI Answer' : 'Show AI Answer'}
+        </button>
+      </HoverToPlayTTSWrapper>
+      {showAnswer && (
+        <div className='answer right_padding'>
+          <div className='answerText'>
+            {hidden && <div className='ai_answer_note'>Only you can see this answer.</div>}
+            <HoverToPlayTTSWrapper text={text}>
+              <div id='answerText' className=''>
+                <ReactMarkdown>{text}</ReactMarkdown>
+              </div>
+            </HoverToPlayTTSWrapper>
+          </div>
+          {answer !== undefined && (
+            <div className='ai_answer_feedback'>
+              <HoverToPlayTTSWrapper text={helpfulness}>
+                <div className='ai_answer_note'>{helpfulness}</div>
+              </HoverToPlayTTSWrapper>
+              {canGiveFeedback && (
+                <>
+                  <button
+                    className={`ai_answer_button ${helpful.includes(username) ? 'ai_answer_button_active' : ''}`}
+                    onClick={() => handleRate('helpful')}>
+                    Helpful
+                  </button>
+                  <button
+                    className={`ai_answer_button ${unhelpful.includes(username) ? 'ai_answer_button_active' : ''}`}
+                    onClick={() => handleRate('unhelpful')}>
+                    Not helpful
+                  </button>
+                  {flagged && <div className='ai_answer_note'>You flagged this answer.</div>}
+                  {!flagged && !flagging && (
+                    <button className='ai_answer_button' onClick={() => setFlagging(true)}>
+                      Flag as incorrect
+                    </button>
+                  )}
+                  {!flagged && flagging && (
+                    <div className='ai_answer_flag'>
+                      <input
+                        className='ai_answer_flag_input'
+                        placeholder='What is wrong with it? (optional)'
+                        value={flagReason}
+                        onChange={e => setFlagReason(e.target.value)}
+                      />
+                      <button
+                        className='ai_answer_button'
+                        onClick={() => {
+                          handleFlag(flagReason.trim() || undefined);
+                          setFlagging(false);
+                          setFlagReason('');
+                        }}>
+                        Flag
+                      </button>
+                      <button className='ai_answer_button' onClick={() => setFlagging(false)}>
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+              {isAsker && (
+                <button className='ai_answer_button' onClick={() => handleHide(!hidden)}>
+                  {hidden ? 'Show to everyone' : 'Hide from everyone'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIAnswer;
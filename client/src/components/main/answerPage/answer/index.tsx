@@ -1,53 +1,155 @@
-import React from 'react';
-import { handleHyperlink } from '../../../../tool';
+import React, { useState } from 'react';
 import CommentSection from '../../commentSection';
 import './index.css';
-import { Comment } from '../../../../types';
+import { Answer, Comment, Revision } from '../../../../types';
 import HoverToPlayTTSWrapper from '../../../textToSpeech/textToSpeechComponent';
+import OwnerControls from '../../ownerControls';
+import InlineEditor from '../../inlineEditor';
+import RevisionHistory from '../../revisionHistory';
+import VoteComponent from '../../voteComponent';
+import UserLink from '../../userLink';
+import FlagButton from '../../flagButton';
+import Markdown from '../../markdown';
 
 /**
  * Interface representing the props for the AnswerView component.
  *
- * - text The content of the answer.
+ * - answer The answer, used for its ID, votes and whether it is hidden after being flagged.
+ * - text The Markdown content of the answer.
  * - ansBy The username of the user who wrote the answer.
  * - meta Additional metadata related to the answer.
  * - comments An array of comments associated with the answer.
+ * - revisions The edits made to the answer, if any.
+ * - isAuthor Whether the current user wrote the answer, and may edit or delete it.
+ * - isAccepted Whether the answer was accepted by the asker as having solved the question.
+ * - canAccept Whether the current user asked the question, and may accept or unaccept the answer.
+ * - canComment Whether comments may be added to the answer, which they may not when the question is closed or locked.
  * - handleAddComment Callback function to handle adding a new comment.
+ * - handleEdit Callback function to save new text for the answer.
+ * - handleDelete Callback function to delete the answer.
+ * - handleEditComment Callback function to save new text for one of the answer's comments.
+ * - handleDeleteComment Callback function to delete one of the answer's comments.
+ * - handleToggleAccept Callback function to accept the answer, or unaccept it if it is accepted.
  */
 interface AnswerProps {
+  answer: Answer;
   text: string;
   ansBy: string;
   meta: string;
   comments: Comment[];
+  revisions?: Revision[];
+  isAuthor: boolean;
+  isAccepted: boolean;
+  canAccept: boolean;
+  canComment: boolean;
   handleAddComment: (comment: Comment) => void;
+  handleEdit: (text: string) => void;
+  handleDelete: () => void;
+  handleEditComment: (comment: Comment, text: string) => void;
+  handleDeleteComment: (comment: Comment) => void;
+  handleToggleAccept: () => void;
 }
 
 /**
  * AnswerView component that displays the content of an answer with the author's name and metadata.
  * The answer text is processed to handle hyperlinks, and a comment section is included.
+ * The author of the answer can edit its text in place or delete it, and other users can flag it.
+ * The content of an answer hidden until a moderator reviews its flags is not shown.
  *
+ * @param answer The answer being displayed.
  * @param text The content of the answer.
  * @param ansBy The username of the answer's author.
  * @param meta Additional metadata related to the answer.
  * @param comments An array of comments associated with the answer.
+ * @param revisions The edits made to the answer.
+ * @param isAuthor Whether the current user wrote the answer.
+ * @param isAccepted Whether the answer is the accepted answer.
+ * @param canAccept Whether the current user may accept or unaccept the answer.
+ * @param canComment Whether comments may be added to the answer.
  * @param handleAddComment Function to handle adding a new comment.
+ * @param handleEdit Function to save new text for the answer.
+ * @param handleDelete Function to delete the answer.
+ * @param handleEditComment Function to edit one of the answer's comments.
+ * @param handleDeleteComment Function to delete one of the answer's comments.
+ * @param handleToggleAccept Function to accept or unaccept the answer.
  */
-const AnswerView = ({ text, ansBy, meta, comments, handleAddComment }: AnswerProps) => {
+const AnswerView = ({
+  answer,
+  text,
+  ansBy,
+  meta,
+  comments,
+  revisions,
+  isAuthor,
+  isAccepted,
+  canAccept,
+  canComment,
+  handleAddComment,
+  handleEdit,
+  handleDelete,
+  handleEditComment,
+  handleDeleteComment,
+  handleToggleAccept,
+}: AnswerProps) => {
+  const [editing, setEditing] = useState<boolean>(false);
   const answerTTS = `Answer by ${ansBy} on ${meta} saying ${text}`;
+  const answerBody = answer.hiddenAt ? (
+    <div className='hidden_post'>
+      This answer is hidden until a moderator reviews the flags raised on it.
+    </div>
+  ) : (
+    <HoverToPlayTTSWrapper text={answerTTS}>
+      <div id='answerText' className=''>
+        <Markdown text={text} />
+      </div>
+    </HoverToPlayTTSWrapper>
+  );
   return (
-    <div className='answer right_padding'>
+    <div className={`answer right_padding ${isAccepted ? 'answer_accepted' : ''}`}>
       <div className='answerText'>
-        <HoverToPlayTTSWrapper text={answerTTS}>
-          <div id='answerText' className=''>
-            {handleHyperlink(text)}
-          </div>
-        </HoverToPlayTTSWrapper>
+        {editing ? (
+          <InlineEditor
+            initialText={text}
+            handleSave={newText => {
+              handleEdit(newText);
+              setEditing(false);
+            }}
+            handleCancel={() => setEditing(false)}
+          />
+        ) : (
+          answerBody
+        )}
       </div>
       <div className='answerAuthor'>
-        <div className='answer_author'>{ansBy}</div>
+        {isAccepted && (
+          <HoverToPlayTTSWrapper text='Accepted answer'>
+            <div className='accepted_badge'>&#10003; Accepted answer</div>
+          </HoverToPlayTTSWrapper>
+        )}
+        <UserLink username={ansBy} className='answer_author' />
         <div className='answer_question_meta'>{meta}</div>
+        <VoteComponent target={answer} type='answer' />
+        {canAccept && (
+          <HoverToPlayTTSWrapper
+            text={isAccepted ? 'Button to unaccept answer' : 'Button to accept answer'}>
+            <button className='accept_button' onClick={handleToggleAccept}>
+              {isAccepted ? 'Unaccept' : 'Accept'}
+            </button>
+          </HoverToPlayTTSWrapper>
+        )}
+        <RevisionHistory revisions={revisions} />
+        {isAuthor && !editing && (
+          <OwnerControls handleEdit={() => setEditing(true)} handleDelete={handleDelete} />
+        )}
+        <FlagButton id={answer._id} type='answer' author={ansBy} />
       </div>
-      <CommentSection comments={comments} handleAddComment={handleAddComment} />
+      <CommentSection
+        comments={comments}
+        handleAddComment={handleAddComment}
+        handleEditComment={handleEditComment}
+        handleDeleteComment={handleDeleteComment}
+        canAddComment={canComment}
+      />
     </div>
   );
 };
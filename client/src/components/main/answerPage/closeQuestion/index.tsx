@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import './index.css';
+import { CloseReason, CloseVote } from '../../../../types';
+
+// Matches the ID of a question, on its own or in the link to the question
+const questionIdPattern = /[0-9a-f]{24}/i;
+
+// The reasons a question may be voted closed for, as offered to the voter
+const closeReasonLabels: Record<CloseReason, string> = {
+  duplicate: 'Duplicate of another question',
+  offTopic: 'Off-topic',
+  needsDetails: 'Needs details or clarity',
+  opinionBased: 'Opinion-based',
+};
+
+/**
+ * Interface representing the props for the CloseQuestion component.
+ *
+ * - username The username of the current user.
+ * - closed Whether the question is closed.
+ * - closeVotes The votes to close the question so far.
+ * - reopenVotes The usernames of the users who voted to reopen the question so far.
+ * - handleVoteToClose Callback function to vote to close the question.
+ * - handleVoteToReopen Callback function to vote to reopen the question.
+ */
+interface CloseQuestionProps {
+  username: string;
+  closed: boolean;
+  closeVotes: CloseVote[];
+  reopenVotes: string[];
+  handleVoteToClose: (reason: CloseReason, duplicateOf?: string) => void;
+  handleVoteToReopen: () => void;
+}
+
+/**
+ * CloseQuestion component that lets users vote to close an open question, for a reason they
+ * choose, or to reopen a closed one. A vote to close a question as a duplicate takes the link to
+ * the original question or its ID. The number of votes so far is shown on the buttons.
+ *
+ * @param username The username of the current user.
+ * @param closed Whether the question is closed.
+ * @param closeVotes The votes to close the question.
+ * @param reopenVotes The users who voted to reopen the question.
+ * @param handleVoteToClose Function to vote to close the question.
+ * @param handleVoteToReopen Function to vote to reopen the question.
+ */
+const CloseQuestion = ({
+  username,
+  closed,
+  closeVotes,
+  reopenVotes,
+  handleVoteToClose,
+  handleVoteToReopen,
+}: CloseQuestionProps) => {
+  const [voting, setVoting] = useState<boolean>(false);
+  const [reason, setReason] = useState<CloseReason>('duplicate');
+  const [original, setOriginal] = useState<string>('');
+  const [inputErr, setInputErr] = useState<string>('');
+
+  if (closed) {
+    const voted = reopenVotes.includes(username);
+    return (
+      <button className='close_question_button' disabled={voted} onClick={handleVoteToReopen}>
+        {voted ? 'Voted to reopen' : 'Reopen'} ({reopenVotes.length})
+      </button>
+    );
+  }
+
+  if (closeVotes.some(v => v.username === username)) {
+    return (
+      <button className='close_question_button' disabled>
+        Voted to close ({closeVotes.length})
+      </button>
+    );
+  }
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (reason !== 'duplicate') {
+      handleVoteToClose(reason);
+      setVoting(false);
+      return;
+    }
+    const duplicateOf = original.match(questionIdPattern)?.[0];
+    if (!duplicateOf) {
+      setInputErr('Enter the link to the original question');
+      return;
+    }
+    setInputErr('');
+    handleVoteToClose(reason, duplicateOf);
+    setVoting(false);
+  };
+
+  if (!voting) {
+    return (
+      <button className='close_question_button' onClick={() => setVoting(true)}>
+        Close ({closeVotes.length})
+      </button>
+    );
+  }
+
+  return (
+    <form className='close_question_form' onSubmit={handleSubmit}>
+      <label htmlFor='closeQuestionReason'>Why should this question be closed?</label>
+      <select
+        id='closeQuestionReason'
+        value={reason}
+        onChange={e => setReason(e.target.value as CloseReason)}>
+        {(Object.keys(closeReasonLabels) as CloseReason[]).map(r => (
+          <option key={r} value={r}>
+            {closeReasonLabels[r]}
+          </option>
+        ))}
+      </select>
+      {reason === 'duplicate' && (
+        <input
+          id='closeQuestionOriginal'
+          type='text'
+          value={original}
+          aria-label='Link to the original question'
+          placeholder='https://.../question/...'
+          onChange={e => setOriginal(e.target.value)}
+        />
+      )}
+      <button className='close_question_button' type='submit'>
+        Vote to close
+      </button>
+      <button className='close_question_button' type='button' onClick={() => setVoting(false)}>
+        Cancel
+      </button>
+      {inputErr && <div className='input_error'>{inputErr}</div>}
+    </form>
+  );
+};
+
+export default CloseQuestion;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import Form from '../../baseComponents/form';
+import TextArea from '../../baseComponents/textarea';
+import TagInput from '../../baseComponents/tagInput';
+import { validateHyperlink } from '../../../../tool';
+import { validateTagNames } from '../../../../utils/tag.utils';
+import { Question } from '../../../../types';
+import HoverToPlayTTSWrapper from '../../../textToSpeech/textToSpeechComponent';
+import '../../ownerControls/index.css';
+
+/**
+ * Interface representing the props for the EditQuestionForm component.
+ *
+ * - question - The question being edited.
+ * - handleSave - Function called with the new title, text and tag names once they are valid.
+ * - handleCancel - Function called when the edit is abandoned.
+ */
+interface EditQuestionFormProps {
+  question: Question;
+  handleSave: (title: string, text: string, tagNames: string[]) => void;
+  handleCancel: () => void;
+}
+
+/**
+ * EditQuestionForm component lets the author of a question change its title, text and tags.
+ * The fields are validated with the same rules as when the question was asked.
+ *
+ * @param question The question being edited.
+ * @param handleSave Function to save the edit.
+ * @param handleCancel Function to stop editing without saving.
+ */
+const EditQuestionForm = ({ question, handleSave, handleCancel }: EditQuestionFormProps) => {
+  const [title, setTitle] = useState<string>(question.title);
+  const [text, setText] = useState<string>(question.text);
+  const [tagNames, setTagNames] = useState<string[]>(question.tags.map(t => t.name));
+  const [titleErr, setTitleErr] = useState<string>('');
+  const [textErr, setTextErr] = useState<string>('');
+  const [tagErr, setTagErr] = useState<string>('');
+
+  /**
+   * Function to validate the form and save the edit if it is valid.
+   */
+  const handleSaveClick = () => {
+    let isValid = true;
+
+    if (!title) {
+      setTitleErr('Title cannot be empty');
+      isValid = false;
+    } else if (title.length > 100) {
+      setTitleErr('Title cannot be more than 100 characters');
+      isValid = false;
+    } else {
+      setTitleErr('');
+    }
+
+    if (!text) {
+      setTextErr('Question text cannot be empty');
+      isValid = false;
+    } else if (!validateHyperlink(text)) {
+      setTextErr('Invalid hyperlink format.');
+      isValid = false;
+    } else {
+      setTextErr('');
+    }
+
+    const tagNamesErr = validateTagNames(tagNames);
+    setTagErr(tagNamesErr);
+    if (tagNamesErr) {
+      isValid = false;
+    }
+
+    if (isValid) {
+      handleSave(title, text, tagNames);
+    }
+  };
+
+  return (
+    <Form>
+      <TextArea
+        title={'Question Title'}
+        hint={'Limit title to 100 characters or less'}
+        id={'editTitleInput'}
+        val={title}
+        setState={setTitle}
+        err={titleErr}
+      />
+      <TextArea
+        title={'Question Text'}
+        hint={'Add details'}
+        id={'editTextInput'}
+        val={text}
+        setState={setText}
+        err={textErr}
+      />
+      <TagInput
+        title={'Tags'}
+        hint={'Add up to 5 tags separated by spaces, using hyphens within a tag'}
+        id={'editTagInput'}
+        tagNames={tagNames}
+        setTagNames={setTagNames}
+        err={tagErr}
+      />
+      <div className='btn_indicator_container'>
+        <HoverToPlayTTSWrapper text='Button to save the edited question'>
+          <button className='form_postBtn' onClick={handleSaveClick}>
+            Save Edits
+          </button>
+        </HoverToPlayTTSWrapper>
+        <HoverToPlayTTSWrapper text='Button to cancel editing the question'>
+          <button className='owner-controls-button' onClick={handleCancel}>
+            Cancel
+          </button>
+        </HoverToPlayTTSWrapper>
+      </div>
+    </Form>
+  );
+};
+
+export default EditQuestionForm;
@@ -1,31 +1,58 @@
 import React from 'react';
 import './index.css';
+import '../../questionPage/header/orderButton/index.css';
 import AskQuestionButton from '../../askQuestionButton';
+import { AnswerOrderType, answerOrderTypeDisplayName } from '../../../../types';
+import HoverToPlayTTSWrapper from '../../../textToSpeech/textToSpeechComponent';
 
 /**
  * Interface representing the props for the AnswerHeader component.
  *
  * - ansCount - The number of answers to display in the header.
  * - title - The title of the question or discussion thread.
+ * - answerOrder - The order the answers are currently sorted in.
+ * - setAnswerOrder - A function that changes the order the answers are sorted in.
  */
 interface AnswerHeaderProps {
   ansCount: number;
   title: string;
+  answerOrder: AnswerOrderType;
+  setAnswerOrder: (order: AnswerOrderType) => void;
 }
 
 /**
  * AnswerHeader component that displays a header section for the answer page.
- * It includes the number of answers, the title of the question, and a button to ask a new question.
+ * It includes the number of answers, the title of the question, a button to ask a new question,
+ * and buttons to choose the order of the answers.
  *
  * @param ansCount The number of answers to display.
  * @param title The title of the question or discussion thread.
+ * @param answerOrder The order the answers are currently sorted in.
+ * @param setAnswerOrder Function to change the order the answers are sorted in.
  */
-const AnswerHeader = ({ ansCount, title }: AnswerHeaderProps) => (
-  <div id='answersHeader' className='space_between right_padding'>
-    <div className='bold_title'>{ansCount} answers</div>
-    <div className='bold_title answer_question_title'>{title}</div>
-    <AskQuestionButton />
-  </div>
-);
+const AnswerHeader = ({ ansCount, title, answerOrder, setAnswerOrder }: AnswerHeaderProps) => {
+  const orderOptions = Object.values(answerOrderTypeDisplayName).join(', ');
+  return (
+    <div>
+      <div id='answersHeader' className='space_between right_padding'>
+        <div className='bold_title'>{ansCount} answers</div>
+        <div className='bold_title answer_question_title'>{title}</div>
+        <AskQuestionButton />
+      </div>
+      <HoverToPlayTTSWrapper text={`Sort answers by: ${orderOptions}`} isOnRight={false}>
+        <div className='btns answer_order_btns'>
+          {(Object.keys(answerOrderTypeDisplayName) as AnswerOrderType[]).map(order => (
+            <button
+              key={order}
+              className={`button ${answerOrder === order ? 'button_selected' : ''}`}
+              onClick={() => setAnswerOrder(order)}>
+              {answerOrderTypeDisplayName[order]}
+            </button>
+          ))}
+        </div>
+      </HoverToPlayTTSWrapper>
+    </div>
+  );
+};
 
 export default AnswerHeader;
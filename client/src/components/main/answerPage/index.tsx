@@ -1,5 +1,4 @@
 import React, { useState } from 'react';
-import ReactMarkdown from 'react-markdown';
 import { getMetaData } from '../../../tool';
 import AnswerView from './answer';
 import AnswerHeader from './header';
@@ -11,79 +10,163 @@ import CommentSection from '../commentSection';
 import useAnswerPage from '../../../hooks/useAnswerPage';
 import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
 import formatDateToHumanReadable from '../../../utils/date.utils';
+import useUserContext from '../../../hooks/useUserContext';
+import EditQuestionForm from './editQuestionForm';
+import AIAnswer from './aiAnswer';
+import StatusBanner from './statusBanner';
+import CloseQuestion from './closeQuestion';
+import LockQuestion from './lockQuestion';
 
 /**
  * AnswerPage component that displays the full content of a question along with its answers.
- * It also includes the functionality to vote, ask a new question, and post a new answer.
+ * It also includes the functionality to vote, ask a new question, and post a new answer. A closed
+ * question shows why it was closed, linking to the original when it is a duplicate, and closed or
+ * locked questions take no new answers or comments.
  */
 const AnswerPage = () => {
-  const { questionID, question, handleNewComment, handleNewAnswer } = useAnswerPage();
-  const [showAIAnswer, setShowAIAnswer] = useState<boolean>(false);
+  const {
+    questionID,
+    question,
+    answers,
+    answerOrder,
+    setAnswerOrder,
+    handleNewComment,
+    handleNewAnswer,
+    handleEditQuestion,
+    handleDeleteQuestion,
+    handleEditAnswer,
+    handleDeleteAnswer,
+    handleEditComment,
+    handleDeleteComment,
+    handleAcceptAnswer,
+    handleUnacceptAnswer,
+    handleRateAIAnswer,
+    handleFlagAIAnswer,
+    handleHideAIAnswer,
+    handleVoteToClose,
+    handleVoteToReopen,
+    handleLockQuestion,
+    moderationError,
+  } = useAnswerPage();
+  const { user } = useUserContext();
+  const [editingQuestion, setEditingQuestion] = useState<boolean>(false);
 
   if (!question) {
     return null;
   }
 
-  const aiAnswer =
-    question.aiGeneratedAnswer !== undefined
-      ? question.aiGeneratedAnswer
-      : 'AI generated answer is not available';
-
+  const canPost = !question.closure && !question.lock;
   const questionOverview = `${question.askedBy} asked a question about ${question.title} on ${formatDateToHumanReadable(question.askDateTime)}. Question has ${question.views.length} views, ${question.answers.length} answers, ${question.upVotes.length} upvotes, and ${question.downVotes.length} downvotes.`;
 
   return (
     <>
       <HoverToPlayTTSWrapper text={questionOverview}>
-        <VoteComponent question={question} />
+        <VoteComponent target={question} type='question' />
       </HoverToPlayTTSWrapper>
-      <AnswerHeader ansCount={question.answers.length} title={question.title} />
-      <QuestionBody
-        views={question.views.length}
-        text={question.text}
-        askby={question.askedBy}
-        meta={getMetaData(new Date(question.askDateTime))}
+      <AnswerHeader
+        ansCount={question.answers.length}
+        title={question.title}
+        answerOrder={answerOrder}
+        setAnswerOrder={setAnswerOrder}
       />
+      <StatusBanner closure={question.closure} lock={question.lock} />
+      {editingQuestion ? (
+        <EditQuestionForm
+          question={question}
+          handleSave={(title, text, tagNames) => {
+            handleEditQuestion(title, text, tagNames);
+            setEditingQuestion(false);
+          }}
+          handleCancel={() => setEditingQuestion(false)}
+        />
+      ) : (
+        <QuestionBody
+          qid={questionID}
+          views={question.views.length}
+          text={question.text}
+          askby={question.askedBy}
+          meta={getMetaData(new Date(question.askDateTime))}
+          revisions={question.revisions}
+          hidden={!!question.hiddenAt}
+          isAuthor={question.askedBy === user.username}
+          handleEdit={() => setEditingQuestion(true)}
+          handleDelete={handleDeleteQuestion}
+        />
+      )}
+      {user.username !== 'Guest' && (
+        <div className='question_moderation'>
+          <CloseQuestion
+            username={user.username}
+            closed={!!question.closure}
+            closeVotes={question.closeVotes ?? []}
+            reopenVotes={question.reopenVotes ?? []}
+            handleVoteToClose={handleVoteToClose}
+            handleVoteToReopen={handleVoteToReopen}
+          />
+          <LockQuestion locked={!!question.lock} handleLockQuestion={handleLockQuestion} />
+          {moderationError && <div className='input_error'>{moderationError}</div>}
+        </div>
+      )}
       <CommentSection
         comments={question.comments}
         handleAddComment={(comment: Comment) => handleNewComment(comment, 'question', questionID)}
+        handleEditComment={(comment: Comment, text: string) =>
+          handleEditComment(comment._id, text, 'question', questionID)
+        }
+        handleDeleteComment={(comment: Comment) =>
+          handleDeleteComment(comment._id, 'question', questionID)
+        }
+        canAddComment={canPost}
       />
-      {question.answers.map((a, idx) => (
+      {answers.map(a => (
         <AnswerView
-          key={idx}
+          key={a._id}
+          answer={a}
           text={a.text}
           ansBy={a.ansBy}
           meta={getMetaData(new Date(a.ansDateTime))}
           comments={a.comments}
+          revisions={a.revisions}
+          isAuthor={a.ansBy === user.username}
+          isAccepted={a._id === question.acceptedAnswer}
+          canAccept={question.askedBy === user.username}
+          canComment={canPost}
+          handleToggleAccept={() =>
+            a._id === question.acceptedAnswer ? handleUnacceptAnswer() : handleAcceptAnswer(a._id)
+          }
           handleAddComment={(comment: Comment) => handleNewComment(comment, 'answer', a._id)}
+          handleEdit={(text: string) => handleEditAnswer(a._id, text)}
+          handleDelete={() => handleDeleteAnswer(a._id)}
+          handleEditComment={(comment: Comment, text: string) =>
+            handleEditComment(comment._id, text, 'answer', a._id)
+          }
+          handleDeleteComment={(comment: Comment) =>
+            handleDeleteComment(comment._id, 'answer', a._id)
+          }
         />
       ))}
-      <HoverToPlayTTSWrapper text='Button for Answer Question'>
-        <button
-          className='bluebtn ansButton'
-          onClick={() => {
-            handleNewAnswer();
-          }}>
-          Answer Question
-        </button>
-      </HoverToPlayTTSWrapper>
-      <div className='comment-section'>
-        <HoverToPlayTTSWrapper text='Button for showing AI-generated answer'>
-          <button className='toggle-button' onClick={() => setShowAIAnswer(!showAIAnswer)}>
-            {showAIAnswer ? 'Hide AI Answer' : 'Show AI Answer'}
+      {canPost && (
+        <HoverToPlayTTSWrapper text='Button for Answer Question'>
+          <button
+            className='bluebtn ansButton'
+            onClick={() => {
+              handleNewAnswer();
+            }}>
+            Answer Question
           </button>
         </HoverToPlayTTSWrapper>
-        {showAIAnswer && (
-          <div className='answer right_padding'>
-            <div className='answerText'>
-              <HoverToPlayTTSWrapper text={aiAnswer}>
-                <div id='answerText' className=''>
-                  <ReactMarkdown>{aiAnswer}</ReactMarkdown>
-                </div>
-              </HoverToPlayTTSWrapper>
-            </div>
-          </div>
-        )}
-      </div>
+      )}
+      <AIAnswer
+        answer={question.aiGeneratedAnswer}
+        status={question.aiAnswerStatus}
+        feedback={question.aiAnswerFeedback}
+        username={user.username}
+        isAsker={question.askedBy === user.username}
+        canGiveFeedback={user.username !== 'Guest'}
+        handleRate={handleRateAIAnswer}
+        handleFlag={handleFlagAIAnswer}
+        handleHide={handleHideAIAnswer}
+      />
     </>
   );
 };
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import './index.css';
+
+/**
+ * Interface representing the props for the LockQuestion component.
+ *
+ * - locked Whether the question is locked.
+ * - handleLockQuestion Callback function to lock the question, with the reason given, or unlock it.
+ */
+interface LockQuestionProps {
+  locked: boolean;
+  handleLockQuestion: (locked: boolean, reason?: string) => void;
+}
+
+/**
+ * LockQuestion component that lets moderators lock a question against new answers and comments,
+ * optionally saying why, or unlock it.
+ *
+ * @param locked Whether the question is locked.
+ * @param handleLockQuestion Function to lock or unlock the question.
+ */
+const LockQuestion = ({ locked, handleLockQuestion }: LockQuestionProps) => {
+  const [locking, setLocking] = useState<boolean>(false);
+  const [reason, setReason] = useState<string>('');
+
+  if (locked) {
+    return (
+      <button className='lock_question_button' onClick={() => handleLockQuestion(false)}>
+        Unlock
+      </button>
+    );
+  }
+
+  if (!locking) {
+    return (
+      <button className='lock_question_button' onClick={() => setLocking(true)}>
+        Lock
+      </button>
+    );
+  }
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    handleLockQuestion(true, reason.trim() || undefined);
+    setLocking(false);
+    setReason('');
+  };
+
+  return (
+    <form className='lock_question_form' onSubmit={handleSubmit}>
+      <input
+        type='text'
+        value={reason}
+        aria-label='Why the question is locked'
+        placeholder='Why is this question locked? (optional)'
+        onChange={e => setReason(e.target.value)}
+      />
+      <button className='lock_question_button' type='submit'>
+        Lock
+      </button>
+      <button className='lock_question_button' type='button' onClick={() => setLocking(false)}>
+        Cancel
+      </button>
+    </form>
+  );
+};
+
+export default LockQuestion;
@@ -1,44 +1,91 @@
 import React from 'react';
 import './index.css';
-import { handleHyperlink } from '../../../../tool';
+import { Revision } from '../../../../types';
 import HoverToPlayTTSWrapper from '../../../textToSpeech/textToSpeechComponent';
+import OwnerControls from '../../ownerControls';
+import RevisionHistory from '../../revisionHistory';
+import UserLink from '../../userLink';
+import FlagButton from '../../flagButton';
+import Markdown from '../../markdown';
 
 /**
  * Interface representing the props for the QuestionBody component.
  *
+ * - qid - The ID of the question.
  * - views - The number of views the question has received.
- * - text - The content of the question, which may contain hyperlinks.
+ * - text - The Markdown content of the question.
  * - askby - The username of the user who asked the question.
  * - meta - Additional metadata related to the question, such as the date and time it was asked.
+ * - revisions - The edits made to the question, if any.
+ * - hidden - Whether the question is hidden after being flagged, until a moderator reviews it.
+ * - isAuthor - Whether the current user asked the question, and may edit or delete it.
+ * - handleEdit - Function to start editing the question.
+ * - handleDelete - Function to delete the question.
  */
 interface QuestionBodyProps {
+  qid: string;
   views: number;
   text: string;
   askby: string;
   meta: string;
+  revisions?: Revision[];
+  hidden: boolean;
+  isAuthor: boolean;
+  handleEdit: () => void;
+  handleDelete: () => void;
 }
 
 /**
  * QuestionBody component that displays the body of a question.
  * It includes the number of views, the question content (with hyperlink handling),
- * the username of the author, and additional metadata.
+ * the username of the author, and additional metadata. The author is also shown the
+ * controls to edit or delete the question, and other users the button to flag it. The content
+ * of a hidden question is not shown.
  *
+ * @param qid The ID of the question.
  * @param views The number of views the question has received.
  * @param text The content of the question.
  * @param askby The username of the question's author.
  * @param meta Additional metadata related to the question.
+ * @param revisions The edits made to the question.
+ * @param hidden Whether the question is hidden until a moderator reviews it.
+ * @param isAuthor Whether the current user asked the question.
+ * @param handleEdit Function to start editing the question.
+ * @param handleDelete Function to delete the question.
  */
-const QuestionBody = ({ views, text, askby, meta }: QuestionBodyProps) => (
+const QuestionBody = ({
+  qid,
+  views,
+  text,
+  askby,
+  meta,
+  revisions,
+  hidden,
+  isAuthor,
+  handleEdit,
+  handleDelete,
+}: QuestionBodyProps) => (
   <div id='questionBody' className='questionBody right_padding'>
     <div className='bold_title answer_question_view'>{views} views</div>
     <div className='answer_question_text'>
-      <HoverToPlayTTSWrapper text={text}>
-        <div className='answer_question_text'>{handleHyperlink(text)}</div>
-      </HoverToPlayTTSWrapper>
+      {hidden ? (
+        <div className='hidden_post'>
+          This question is hidden until a moderator reviews the flags raised on it.
+        </div>
+      ) : (
+        <HoverToPlayTTSWrapper text={text}>
+          <div className='answer_question_text'>
+            <Markdown text={text} />
+          </div>
+        </HoverToPlayTTSWrapper>
+      )}
     </div>
     <div className='answer_question_right'>
-      <div className='question_author'>{askby}</div>
+      <UserLink username={askby} className='question_author' />
       <div className='answer_question_meta'>asked {meta}</div>
+      <RevisionHistory revisions={revisions} />
+      {isAuthor && <OwnerControls handleEdit={handleEdit} handleDelete={handleDelete} />}
+      <FlagButton id={qid} type='question' author={askby} />
     </div>
   </div>
 );
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import './index.css';
+import { CloseReason, QuestionClosure, QuestionLock } from '../../../../types';
+import { getMetaData } from '../../../../tool';
+import UserLink from '../../userLink';
+
+// What the banner says about a question closed for each reason other than being a duplicate
+const closeReasonMessages: Record<Exclude<CloseReason, 'duplicate'>, string> = {
+  offTopic: 'This question is not about the topics of this site.',
+  needsDetails: 'This question needs more details before it can be answered.',
+  opinionBased: 'This question can only be answered with opinions.',
+};
+
+/**
+ * Interface representing the props for the StatusBanner component.
+ *
+ * - closure Why, when and by whom the question was closed, if it is closed.
+ * - lock Who locked the question, when and why, if it is locked.
+ */
+interface StatusBannerProps {
+  closure?: QuestionClosure;
+  lock?: QuestionLock;
+}
+
+/**
+ * StatusBanner component shown at the top of a closed or locked question, explaining why no
+ * answers or comments may be added. When the question was closed as a duplicate, it sends the
+ * reader to the question it duplicates.
+ *
+ * @param closure The closure of the question, if it is closed.
+ * @param lock The lock of the question, if it is locked.
+ */
+const StatusBanner = ({ closure, lock }: StatusBannerProps) => (
+  <>
+    {closure && (
+      <div className='status_banner'>
+        {closure.reason === 'duplicate' ? (
+          <div>
+            This question has been asked before and already has an answer.
+            {closure.duplicateOf && (
+              <>
+                {' '}
+                See{' '}
+                <Link to={`/question/${closure.duplicateOf._id}`} className='status_banner_link'>
+                  {closure.duplicateOf.title}
+                </Link>
+                .
+              </>
+            )}
+          </div>
+        ) : (
+          <div>
+            <span className='status_banner_title'>Closed. </span>
+            {closeReasonMessages[closure.reason]}
+          </div>
+        )}
+        <div className='status_banner_meta'>
+          Closed by{' '}
+          {closure.closedBy.map((username, index) => (
+            <React.Fragment key={username}>
+              {index > 0 && ', '}
+              <UserLink username={username} className='status_banner_meta' />
+            </React.Fragment>
+          ))}{' '}
+          {getMetaData(new Date(closure.closedAt))}
+        </div>
+      </div>
+    )}
+    {lock && (
+      <div className='status_banner'>
+        <div>
+          <span className='status_banner_title'>Locked. </span>
+          {lock.reason ||
+            'This question is locked by a moderator. No answers or comments may be added.'}
+        </div>
+        <div className='status_banner_meta'>
+          Locked by <UserLink username={lock.lockedBy} className='status_banner_meta' />{' '}
+          {getMetaData(new Date(lock.lockedAt))}
+        </div>
+      </div>
+    )}
+  </>
+);
+
+export default StatusBanner;
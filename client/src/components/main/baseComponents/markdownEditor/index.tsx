@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AxiosError } from 'axios';
+import '../input/index.css';
+import './index.css';
+import HoverToPlayTTSWrapper from '../../../textToSpeech/textToSpeechComponent';
+import Markdown from '../../markdown';
+import applyMarkdownFormat, {
+  insertMarkdown,
+  MarkdownFormat,
+} from '../../../../utils/markdown.utils';
+import { uploadAttachment } from '../../../../services/attachmentService';
+
+/**
+ * Interface representing the props for the MarkdownEditor component.
+ *
+ * - title - The label to display
+ * - mandatory - Indicates whether the field is required, it's optional.
+ * - hint - An optional helper text providing additional information.
+ * - id - The unique identifier for the textarea.
+ * - val - The current Markdown text.
+ * - setState - Callback function to update the state with the text.
+ * - err - An error message displayed if there's an issue with the text.
+ * - attachments - Whether files can be attached, it's optional.
+ */
+interface MarkdownEditorProps {
+  title: string;
+  mandatory?: boolean;
+  hint?: string;
+  id: string;
+  val: string;
+  setState: (value: string) => void;
+  err?: string;
+  attachments?: boolean;
+}
+
+/**
+ * The toolbar buttons, with the key that applies each format together with Ctrl (or Cmd).
+ */
+const TOOLBAR_BUTTONS: { format: MarkdownFormat; label: string; shortcut: string }[] = [
+  { format: 'bold', label: 'Bold', shortcut: 'B' },
+  { format: 'code', label: 'Code', shortcut: 'E' },
+  { format: 'link', label: 'Link', shortcut: 'L' },
+  { format: 'codeBlock', label: 'Code block', shortcut: 'Shift+E' },
+  { format: 'list', label: 'List', shortcut: 'U' },
+];
+
+// The files the server accepts as attachments, offered first by the file picker
+const ATTACHMENT_ACCEPT =
+  'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain,.log';
+
+/**
+ * Finds the format whose keyboard shortcut was pressed, if any.
+ *
+ * @param e - The keyboard event from the textarea.
+ */
+const shortcutFormat = (e: React.KeyboardEvent): MarkdownFormat | undefined => {
+  if (!e.ctrlKey && !e.metaKey) {
+    return undefined;
+  }
+  const shortcut = `${e.shiftKey ? 'Shift+' : ''}${e.key.toUpperCase()}`;
+  return TOOLBAR_BUTTONS.find(button => button.shortcut === shortcut)?.format;
+};
+
+/**
+ * MarkdownEditor component renders a textarea for writing Markdown with a toolbar to format the
+ * selected text, keyboard shortcuts for each format and a live preview beside it, rendered the
+ * same way as the posted question or answer. Files can be uploaded and embedded in the text:
+ * images are shown, other files are linked.
+ *
+ * @param title - The label of the editor.
+ * @param mandatory - Indicates whether the text is mandatory. Default is true.
+ * @param hint - Optional text providing additional instructions.
+ * @param id - The unique identifier of the textarea.
+ * @param val - The current Markdown text.
+ * @param setState - The function to update the text.
+ * @param err - Optional error message displayed when there's an issue with the text.
+ * @param attachments - Whether files can be attached. Default is true.
+ */
+const MarkdownEditor = ({
+  title,
+  mandatory = true,
+  hint,
+  id,
+  val,
+  setState,
+  err,
+  attachments = true,
+}: MarkdownEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // The selection to restore once a formatted text has been rendered
+  const pendingSelection = useRef<[number, number]>();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState<boolean>(false);
+  const [uploadErr, setUploadErr] = useState<string>('');
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea && pendingSelection.current) {
+      textarea.focus();
+      textarea.setSelectionRange(...pendingSelection.current);
+      pendingSelection.current = undefined;
+    }
+  }, [val]);
+
+  /**
+   * Function to apply a format to the selected text and select what the user will likely type
+   * over next.
+   *
+   * @param format - The format to apply.
+   */
+  const handleFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea) {
+      return;
+    }
+    const result = applyMarkdownFormat(
+      { text: val, selectionStart: textarea.selectionStart, selectionEnd: textarea.selectionEnd },
+      format,
+    );
+    pendingSelection.current = [result.selectionStart, result.selectionEnd];
+    setState(result.text);
+  };
+
+  /**
+   * Function to upload a file and embed it at the cursor once it is uploaded.
+   *
+   * @param file - The file picked by the user.
+   */
+  const handleAttach = async (file: File) => {
+    setUploadErr('');
+    setUploading(true);
+    try {
+      const attachment = await uploadAttachment(file);
+      const textarea = textareaRef.current;
+      if (!textarea) {
+        return;
+      }
+      const name = attachment.filename.replace(/[[\]\\]/g, '\\$&');
+      const embed = `${attachment.contentType.startsWith('image/') ? '!' : ''}[${name}](attachment://${attachment._id})`;
+      // The text may have changed during the upload, so the current text and cursor are used
+      const result = insertMarkdown(
+        {
+          text: textarea.value,
+          selectionStart: textarea.selectionStart,
+          selectionEnd: textarea.selectionEnd,
+        },
+        embed,
+      );
+      pendingSelection.current = [result.selectionStart, result.selectionEnd];
+      setState(result.text);
+    } catch (error) {
+      const message = (error as AxiosError<string>).response?.data;
+      setUploadErr(
+        typeof message === 'string' && message ? message : 'Error while uploading the file',
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <>
+      <HoverToPlayTTSWrapper
+        text={`Field ${title}, this is required. ${hint ? `Description is ${hint}` : ''}`}>
+        <div className='input_title'>
+          {title}
+          {mandatory ? '*' : ''}
+        </div>
+      </HoverToPlayTTSWrapper>
+      {hint && <div className='input_hint'>{hint}</div>}
+      <div className='markdown_editor_toolbar'>
+        {TOOLBAR_BUTTONS.map(({ format, label, shortcut }) => (
+          <button
+            key={format}
+            type='button'
+            className='markdown_editor_button'
+            title={`${label} (Ctrl+${shortcut})`}
+            onClick={() => handleFormat(format)}>
+            {label}
+          </button>
+        ))}
+        {attachments && (
+          <>
+            <button
+              type='button'
+              className='markdown_editor_button'
+              title='Attach an image, PDF document or text file'
+              disabled={uploading}
+              onClick={() => fileInputRef.current?.click()}>
+              {uploading ? 'Uploading...' : 'Attach file'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type='file'
+              className='markdown_editor_file'
+              accept={ATTACHMENT_ACCEPT}
+              onChange={e => {
+                const file = e.currentTarget.files?.[0];
+                // Clears the picker, so that the same file can be picked again
+                e.currentTarget.value = '';
+                if (file) {
+                  handleAttach(file);
+                }
+              }}
+            />
+          </>
+        )}
+      </div>
+      {uploadErr && <div className='input_error'>{uploadErr}</div>}
+      <div className='markdown_editor_panes'>
+        <textarea
+          id={id}
+          ref={textareaRef}
+          className='input_input markdown_editor_input'
+          value={val}
+          onChange={e => {
+            setState(e.currentTarget.value);
+          }}
+          onKeyDown={e => {
+            const format = shortcutFormat(e);
+            if (format) {
+              e.preventDefault();
+              handleFormat(format);
+            }
+          }}
+        />
+        <div className='markdown_editor_preview' aria-label={`Preview of ${title}`}>
+          {val.trim() ? (
+            <Markdown text={val} />
+          ) : (
+            <div className='markdown_editor_placeholder'>The preview appears here</div>
+          )}
+        </div>
+      </div>
+      {err && (
+        <HoverToPlayTTSWrapper text={`Error, ${err}`}>
+          <div className='input_error'>{err}</div>{' '}
+        </HoverToPlayTTSWrapper>
+      )}
+    </>
+  );
+};
+
+export default MarkdownEditor;
@@ -0,0 +1,151 @@
+import React from 'react';
+import '../input/index.css';
+import './index.css';
+import useTagInput from '../../../../hooks/useTagInput';
+import normalizeTagName, { QUESTION_TAGS_MAX } from '../../../../utils/tag.utils';
+import { TagSuggestion } from '../../../../types';
+
+/**
+ * Interface representing the props for the TagInput component.
+ *
+ * - title - The label to display
+ * - hint - An optional hint or description displayed below the title.
+ * - id - The unique identifier for the input field.
+ * - mandatory - Indicates whether the field is required. Defaults to true.
+ * - tagNames - The names of the chosen tags.
+ * - setTagNames - Callback function to update the names of the chosen tags.
+ * - err - An optional error message to display if there is an error with the tags.
+ */
+interface TagInputProps {
+  title: string;
+  hint?: string;
+  id: string;
+  mandatory?: boolean;
+  tagNames: string[];
+  setTagNames: (tagNames: string[]) => void;
+  err?: string;
+}
+
+/**
+ * Finds the synonym a suggestion was matched by, when its name does not start with the input.
+ *
+ * @param suggestion - The suggested tag.
+ * @param input - The name being typed.
+ *
+ * @returns The matching synonym, or undefined if the name itself matched.
+ */
+const matchedSynonym = (suggestion: TagSuggestion, input: string): string | undefined => {
+  const prefix = normalizeTagName(input);
+  if (suggestion.name.startsWith(prefix)) {
+    return undefined;
+  }
+  return suggestion.synonyms.find(synonym => synonym.startsWith(prefix));
+};
+
+/**
+ * TagInput component lets users choose the tags of a question as chips. Existing tags are
+ * suggested as the user types, most used first, and typed names are normalized the way the
+ * server stores them.
+ *
+ * @param title The label for the field.
+ * @param hint Optional hint or description for the field.
+ * @param id The unique identifier for the input field.
+ * @param mandatory Indicates if the field is required. Defaults to true.
+ * @param tagNames The names of the chosen tags.
+ * @param setTagNames Callback function to update the names of the chosen tags.
+ * @param err Optional error message to display below the field.
+ */
+const TagInput = ({
+  title,
+  hint,
+  id,
+  mandatory = true,
+  tagNames,
+  setTagNames,
+  err,
+}: TagInputProps) => {
+  const {
+    input,
+    handleChange,
+    suggestions,
+    highlighted,
+    full,
+    addTag,
+    removeTag,
+    handleKeyDown,
+    handleFocus,
+    handleBlur,
+  } = useTagInput(tagNames, setTagNames);
+
+  return (
+    <>
+      <div className='input_title'>
+        {title}
+        {mandatory ? '*' : ''}
+      </div>
+      {hint && <div className='input_hint'>{hint}</div>}
+      <div className='tag_input'>
+        <div className='tag_input_field'>
+          {tagNames.map(name => (
+            <span key={name} className='tag_input_chip'>
+              {name}
+              <button
+                type='button'
+                className='tag_input_chip_remove'
+                title={`Remove the tag ${name}`}
+                onClick={() => removeTag(name)}>
+                &times;
+              </button>
+            </span>
+          ))}
+          <input
+            id={id}
+            className='tag_input_input'
+            type='text'
+            autoComplete='off'
+            placeholder={full ? `At most ${QUESTION_TAGS_MAX} tags` : 'Add a tag'}
+            disabled={full}
+            value={input}
+            onChange={e => handleChange(e.currentTarget.value)}
+            onKeyDown={handleKeyDown}
+            onFocus={handleFocus}
+            onBlur={handleBlur}
+          />
+        </div>
+        {suggestions.length > 0 && (
+          <ul className='tag_input_suggestions'>
+            {suggestions.map((suggestion, index) => {
+              const synonym = matchedSynonym(suggestion, input);
+              return (
+                <li
+                  key={suggestion.name}
+                  className={`tag_input_suggestion${index === highlighted ? ' tag_input_suggestion_highlighted' : ''}`}
+                  // Choosing with the mouse must not blur the input first
+                  onMouseDown={e => {
+                    e.preventDefault();
+                    addTag(suggestion.name);
+                  }}>
+                  <div>
+                    <span className='tag_input_suggestion_name'>{suggestion.name}</span>
+                    {synonym && (
+                      <span className='tag_input_suggestion_synonym'> (synonym: {synonym})</span>
+                    )}
+                    <span className='tag_input_suggestion_count'>
+                      {suggestion.qcnt} {suggestion.qcnt === 1 ? 'question' : 'questions'}
+                    </span>
+                  </div>
+                  {suggestion.description && (
+                    <div className='tag_input_suggestion_description'>{suggestion.description}</div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+      {err && <div className='input_error'>{err}</div>}
+    </>
+  );
+};
+
+export default TagInput;
@@ -5,29 +5,52 @@ import './index.css';
 import useUserContext from '../../../hooks/useUserContext';
 import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
 import formatDateToHumanReadable from '../../../utils/date.utils';
+import OwnerControls from '../ownerControls';
+import InlineEditor from '../inlineEditor';
+import RevisionHistory from '../revisionHistory';
+import VoteComponent from '../voteComponent';
+import UserLink from '../userLink';
+import FlagButton from '../flagButton';
 
 /**
  * Interface representing the props for the Comment Section component.
  *
  * - comments - list of the comment components
  * - handleAddComment - a function that handles adding a new comment, taking a Comment object as an argument
+ * - handleEditComment - a function that saves new text for one of the current user's comments
+ * - handleDeleteComment - a function that deletes one of the current user's comments
+ * - canAddComment - whether new comments may be added, which they may not on closed or locked questions. Defaults to true.
  */
 interface CommentSectionProps {
   comments: Comment[];
   handleAddComment: (comment: Comment) => void;
+  handleEditComment: (comment: Comment, text: string) => void;
+  handleDeleteComment: (comment: Comment) => void;
+  canAddComment?: boolean;
 }
 
 /**
  * CommentSection component shows the users all the comments and allows the users add more comments.
+ * Users can flag the comments of others; the text of a comment hidden after being flagged is not shown.
  *
  * @param comments: an array of Comment objects
  * @param handleAddComment: function to handle the addition of a new comment
+ * @param handleEditComment: function to edit one of the current user's comments
+ * @param handleDeleteComment: function to delete one of the current user's comments
+ * @param canAddComment: whether new comments may be added
  */
-const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) => {
+const CommentSection = ({
+  comments,
+  handleAddComment,
+  handleEditComment,
+  handleDeleteComment,
+  canAddComment = true,
+}: CommentSectionProps) => {
   const { user } = useUserContext();
   const [text, setText] = useState<string>('');
   const [textErr, setTextErr] = useState<string>('');
   const [showComments, setShowComments] = useState<boolean>(false);
+  const [editingId, setEditingId] = useState<string | undefined>(undefined);
 
   /**
    * Function to handle the addition of a new comment.
@@ -66,10 +89,35 @@ const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) =>
                 return (
                   <HoverToPlayTTSWrapper key={index} text={commentTTS}>
                     <li key={index} className='comment-item'>
-                      <p className='comment-text'>{comment.text}</p>
+                      {editingId !== undefined && editingId === comment._id ? (
+                        <InlineEditor
+                          initialText={comment.text}
+                          handleSave={newText => {
+                            handleEditComment(comment, newText);
+                            setEditingId(undefined);
+                          }}
+                          handleCancel={() => setEditingId(undefined)}
+                        />
+                      ) : (
+                        <p className={`comment-text ${comment.hiddenAt ? 'comment-hidden' : ''}`}>
+                          {comment.hiddenAt
+                            ? 'This comment is hidden until a moderator reviews the flags raised on it.'
+                            : comment.text}
+                        </p>
+                      )}
                       <small className='comment-meta'>
-                        {comment.commentBy}, {getMetaData(new Date(comment.commentDateTime))}
+                        <UserLink username={comment.commentBy} className='comment-author' />,{' '}
+                        {getMetaData(new Date(comment.commentDateTime))}
                       </small>
+                      <VoteComponent target={comment} type='comment' />
+                      <RevisionHistory revisions={comment.revisions} />
+                      {comment.commentBy === user.username && editingId !== comment._id && (
+                        <OwnerControls
+                          handleEdit={() => setEditingId(comment._id)}
+                          handleDelete={() => handleDeleteComment(comment)}
+                        />
+                      )}
+                      <FlagButton id={comment._id} type='comment' author={comment.commentBy} />
                     </li>
                   </HoverToPlayTTSWrapper>
                 );
@@ -79,26 +127,28 @@ const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) =>
             )}
           </ul>
 
-          <div className='add-comment'>
-            <div className='input-row'>
-              <textarea
-                placeholder='Comment'
-                value={text}
-                onChange={e => setText(e.target.value)}
-                className='comment-textarea'
-              />
-              <HoverToPlayTTSWrapper text='Button For Add Comment'>
-                <button className='add-comment-button' onClick={handleAddCommentClick}>
-                  Add Comment
-                </button>
-              </HoverToPlayTTSWrapper>
+          {canAddComment && (
+            <div className='add-comment'>
+              <div className='input-row'>
+                <textarea
+                  placeholder='Comment'
+                  value={text}
+                  onChange={e => setText(e.target.value)}
+                  className='comment-textarea'
+                />
+                <HoverToPlayTTSWrapper text='Button For Add Comment'>
+                  <button className='add-comment-button' onClick={handleAddCommentClick}>
+                    Add Comment
+                  </button>
+                </HoverToPlayTTSWrapper>
+              </div>
+              {textErr && (
+                <HoverToPlayTTSWrapper text={`Error, ${textErr}`}>
+                  <small className='error'>{textErr}</small>
+                </HoverToPlayTTSWrapper>
+              )}
             </div>
-            {textErr && (
-              <HoverToPlayTTSWrapper text={`Error, ${textErr}`}>
-                <small className='error'>{textErr}</small>
-              </HoverToPlayTTSWrapper>
-            )}
-          </div>
+          )}
         </div>
       )}
     </div>
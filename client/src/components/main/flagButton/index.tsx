@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { AxiosError } from 'axios';
+import './index.css';
+import { flagPost } from '../../../services/moderationService';
+import useUserContext from '../../../hooks/useUserContext';
+import { FlagReason, VoteTargetType } from '../../../types';
+import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
+
+/**
+ * The reasons a user may give for flagging a post, with how they are shown.
+ */
+export const flagReasonLabels: Record<FlagReason, string> = {
+  spam: 'Spam',
+  offensive: 'Rude or abusive',
+  lowQuality: 'Very low quality',
+  other: 'Something else',
+};
+
+/**
+ * Interface representing the props for the FlagButton component.
+ *
+ * - id - The ID of the post to flag.
+ * - type - The type of the post, either 'question', 'answer' or 'comment'.
+ * - author - The username of the author of the post, who may not flag it.
+ */
+interface FlagButtonProps {
+  id?: string;
+  type: VoteTargetType;
+  author: string;
+}
+
+/**
+ * FlagButton component lets users flag a question, answer or comment for the moderators to
+ * review, choosing why. Guests and the author of the post are not shown the button.
+ *
+ * @param id The ID of the post.
+ * @param type The type of the post.
+ * @param author The username of the author of the post.
+ */
+const FlagButton = ({ id, type, author }: FlagButtonProps) => {
+  const { user } = useUserContext();
+  const [flagging, setFlagging] = useState<boolean>(false);
+  const [reason, setReason] = useState<FlagReason>('spam');
+  const [details, setDetails] = useState<string>('');
+  const [flagged, setFlagged] = useState<boolean>(false);
+  const [flagErr, setFlagErr] = useState<string>('');
+
+  if (!id || user.username === 'Guest' || user.username === author) {
+    return null;
+  }
+
+  if (flagged) {
+    return (
+      <div className='flag-controls'>
+        <span className='flag-controls-done'>Flagged for review</span>
+      </div>
+    );
+  }
+
+  /**
+   * Function to flag the post. If the flag is refused, e.g. because the user already flagged the
+   * post, the reason is shown next to the form.
+   */
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (reason === 'other' && !details.trim()) {
+      setFlagErr('Please say what is wrong with this post');
+      return;
+    }
+
+    try {
+      setFlagErr('');
+      await flagPost(id, type, reason, details.trim() || undefined);
+      setFlagged(true);
+      setFlagging(false);
+    } catch (error) {
+      const errorMessage = (error as AxiosError<string>).response?.data;
+      setFlagErr(typeof errorMessage === 'string' ? errorMessage : 'Error while flagging');
+    }
+  };
+
+  if (!flagging) {
+    return (
+      <div className='flag-controls'>
+        <HoverToPlayTTSWrapper text={`Button to flag ${type}`}>
+          <button className='flag-controls-button' onClick={() => setFlagging(true)}>
+            Flag
+          </button>
+        </HoverToPlayTTSWrapper>
+      </div>
+    );
+  }
+
+  return (
+    <form className='flag-controls' onSubmit={handleSubmit}>
+      <select
+        value={reason}
+        aria-label={`Why the ${type} is flagged`}
+        onChange={e => setReason(e.target.value as FlagReason)}>
+        {(Object.keys(flagReasonLabels) as FlagReason[]).map(r => (
+          <option key={r} value={r}>
+            {flagReasonLabels[r]}
+          </option>
+        ))}
+      </select>
+      <input
+        type='text'
+        value={details}
+        maxLength={500}
+        aria-label='Details of the flag'
+        placeholder={reason === 'other' ? 'What is wrong?' : 'Details (optional)'}
+        onChange={e => setDetails(e.target.value)}
+      />
+      <button className='flag-controls-button' type='submit'>
+        Flag
+      </button>
+      <button
+        className='flag-controls-button'
+        type='button'
+        onClick={() => {
+          setFlagging(false);
+          setFlagErr('');
+        }}>
+        Cancel
+      </button>
+      {flagErr && <span className='flag-controls-error'>{flagErr}</span>}
+    </form>
+  );
+};
+
+export default FlagButton;
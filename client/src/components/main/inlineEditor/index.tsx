@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import './index.css';
+import '../ownerControls/index.css';
+import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
+
+/**
+ * Interface representing the props for the InlineEditor component.
+ *
+ * - initialText - The current text of the answer or comment being edited.
+ * - handleSave - Function called with the new text when the edit is saved.
+ * - handleCancel - Function called when the edit is abandoned.
+ */
+interface InlineEditorProps {
+  initialText: string;
+  handleSave: (text: string) => void;
+  handleCancel: () => void;
+}
+
+/**
+ * InlineEditor component lets the author of an answer or comment change its text in place.
+ *
+ * @param initialText The text to start editing from.
+ * @param handleSave Function to save the new text.
+ * @param handleCancel Function to stop editing without saving.
+ */
+const InlineEditor = ({ initialText, handleSave, handleCancel }: InlineEditorProps) => {
+  const [text, setText] = useState<string>(initialText);
+  const [textErr, setTextErr] = useState<string>('');
+
+  /**
+   * Function to save the edit once the new text has been validated.
+   */
+  const handleSaveClick = () => {
+    if (text.trim() === '') {
+      setTextErr('Text cannot be empty');
+      return;
+    }
+
+    setTextErr('');
+    handleSave(text);
+  };
+
+  return (
+    <div className='inline-editor'>
+      <textarea
+        className='inline-editor-textarea'
+        value={text}
+        onChange={e => setText(e.target.value)}
+      />
+      {textErr && (
+        <HoverToPlayTTSWrapper text={`Error, ${textErr}`}>
+          <small className='error'>{textErr}</small>
+        </HoverToPlayTTSWrapper>
+      )}
+      <div className='inline-editor-buttons'>
+        <HoverToPlayTTSWrapper text='Button to save the edit'>
+          <button className='inline-editor-save' onClick={handleSaveClick}>
+            Save
+          </button>
+        </HoverToPlayTTSWrapper>
+        <HoverToPlayTTSWrapper text='Button to cancel the edit'>
+          <button className='owner-controls-button' onClick={handleCancel}>
+            Cancel
+          </button>
+        </HoverToPlayTTSWrapper>
+      </div>
+    </div>
+  );
+};
+
+export default InlineEditor;
@@ -0,0 +1,88 @@
+import React from 'react';
+import ReactMarkdown, { Components, defaultUrlTransform } from 'react-markdown';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import remarkGfm from 'remark-gfm';
+import { resolveAttachmentUrl } from '../../../services/attachmentService';
+import 'highlight.js/styles/github-dark.css';
+import './index.css';
+
+/**
+ * Interface representing the props for the Markdown component.
+ *
+ * - text The Markdown text to render.
+ */
+interface MarkdownProps {
+  text: string;
+}
+
+/**
+ * The default sanitizer schema, which also lets through the `attachment://<id>` URLs posts embed
+ * uploaded files with.
+ */
+const sanitizeSchema = {
+  ...defaultSchema,
+  protocols: {
+    ...defaultSchema.protocols,
+    href: [...(defaultSchema.protocols?.href ?? []), 'attachment'],
+    src: [...(defaultSchema.protocols?.src ?? []), 'attachment'],
+  },
+};
+
+/**
+ * Keeps the URLs of attachments for the components below to resolve, and makes other URLs safe.
+ *
+ * @param url - The URL of a link or image.
+ */
+const urlTransform = (url: string) => (resolveAttachmentUrl(url) ? url : defaultUrlTransform(url));
+
+/**
+ * Links in posts lead away from the site, so they open in a new tab without access to this one.
+ * Attached images are shown as thumbnails linking to the full image.
+ */
+const components: Components = {
+  a: ({ href, children }) => (
+    <a
+      href={href && (resolveAttachmentUrl(href) ?? href)}
+      target='_blank'
+      rel='noopener noreferrer'>
+      {children}
+    </a>
+  ),
+  img: ({ src, alt }) => {
+    const full = src && resolveAttachmentUrl(src);
+    if (!full) {
+      return <img src={src} alt={alt} />;
+    }
+    return (
+      <a href={full} target='_blank' rel='noopener noreferrer'>
+        <img src={resolveAttachmentUrl(src, true)} alt={alt} className='markdown_attachment' />
+      </a>
+    );
+  },
+};
+
+/**
+ * Markdown component renders the text of a question or answer as CommonMark with the GitHub
+ * extensions: tables, task lists, strikethrough and autolinks. The rendered HTML is sanitized
+ * before fenced code blocks are highlighted, so only the classes added by the highlighter survive.
+ * Files embedded with `attachment://<id>` URLs are served by the server.
+ *
+ * @param text The Markdown text to render.
+ */
+const Markdown = ({ text }: MarkdownProps) => (
+  <div className='markdown'>
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={[
+        [rehypeSanitize, sanitizeSchema],
+        [rehypeHighlight, { detect: true }],
+      ]}
+      urlTransform={urlTransform}
+      components={components}>
+      {text}
+    </ReactMarkdown>
+  </div>
+);
+
+export default Markdown;
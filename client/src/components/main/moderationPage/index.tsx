@@ -0,0 +1,93 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import './index.css';
+import useModerationPage from '../../../hooks/useModerationPage';
+import { getMetaData } from '../../../tool';
+import { ModerationAction } from '../../../types';
+import { flagReasonLabels } from '../flagButton';
+import UserLink from '../userLink';
+import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
+
+/**
+ * How each action of a moderator is described in the audit log.
+ */
+const moderationActionLabels: Record<ModerationAction, string> = {
+  approveFlags: 'approved the flags on',
+  dismissFlags: 'dismissed the flags on',
+  deletePost: 'deleted',
+  lockQuestion: 'locked',
+  unlockQuestion: 'unlocked',
+};
+
+/**
+ * ModerationPage component shows moderators the posts flagged by users, the most flagged first,
+ * with buttons to approve the flags, dismiss them or delete the post, and the audit log of the
+ * actions moderators took.
+ */
+const ModerationPage = () => {
+  const { queue, log, error, handleReview } = useModerationPage();
+
+  return (
+    <div className='moderation right_padding'>
+      <div className='bold_title'>Moderation</div>
+      {error && <div className='moderation-error'>{error}</div>}
+
+      <h3 className='moderation-section-title'>Flagged Posts</h3>
+      {queue.length === 0 && <div className='moderation-empty'>No posts to review</div>}
+      <ul className='moderation-list'>
+        {queue.map(post => (
+          <li key={post.id} className='moderation-post'>
+            <div className='moderation-post-meta'>
+              <Link to={`/question/${post.qid}`}>
+                {post.postType.charAt(0).toUpperCase() + post.postType.slice(1)}
+              </Link>{' '}
+              by <UserLink username={post.author} className='moderation-author' />
+              {post.hidden && ', hidden'}
+            </div>
+            <HoverToPlayTTSWrapper text={`${post.postType} by ${post.author} saying ${post.text}`}>
+              <div className='moderation-post-text'>{post.text}</div>
+            </HoverToPlayTTSWrapper>
+            <ul className='moderation-flags'>
+              {post.flags.map(flag => (
+                <li key={flag.flaggedBy}>
+                  {flagReasonLabels[flag.reason]}
+                  {flag.details && `: ${flag.details}`} &mdash; {flag.flaggedBy},{' '}
+                  {getMetaData(new Date(flag.createdAt))}
+                </li>
+              ))}
+            </ul>
+            <div className='moderation-actions'>
+              <button className='moderation-button' onClick={() => handleReview(post, 'approve')}>
+                Approve
+              </button>
+              <button className='moderation-button' onClick={() => handleReview(post, 'dismiss')}>
+                Dismiss
+              </button>
+              <button
+                className='moderation-button moderation-button-danger'
+                onClick={() => handleReview(post, 'delete')}>
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <h3 className='moderation-section-title'>Audit Log</h3>
+      {log.length === 0 && <div className='moderation-empty'>No actions yet</div>}
+      <ul className='moderation-list'>
+        {log.map(entry => (
+          <li key={entry._id} className='moderation-log-entry'>
+            <UserLink username={entry.moderator} className='moderation-author' />{' '}
+            {moderationActionLabels[entry.action]}{' '}
+            <Link to={`/question/${entry.question}`}>a {entry.postType}</Link>
+            {entry.details && ` (${entry.details})`}
+            <span className='moderation-log-meta'> {getMetaData(new Date(entry.createdAt))}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ModerationPage;
@@ -1,19 +1,20 @@
 import './index.css';
 import React from 'react';
 import Form from '../baseComponents/form';
-import TextArea from '../baseComponents/textarea';
+import MarkdownEditor from '../baseComponents/markdownEditor';
 import useAnswerForm from '../../../hooks/useAnswerForm';
 import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
 
 /**
- * NewAnswerPage component allows users to submit an answer to a specific question.
+ * NewAnswerPage component allows users to submit an answer to a specific question. The answer is
+ * written in a Markdown editor with a live preview, and its draft survives a refresh.
  */
 const NewAnswerPage = () => {
   const { text, textErr, setText, postAnswer } = useAnswerForm();
 
   return (
     <Form>
-      <TextArea
+      <MarkdownEditor
         title={'Answer Text'}
         id={'answerTextInput'}
         val={text}
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import Spinner from 'react-bootstrap/Spinner';
+import './index.css';
+import useChat from '../../../../hooks/useChat';
+import HoverToPlayTTSWrapper from '../../../textToSpeech/textToSpeechComponent';
+
+// Matches an item of a bulleted or numbered list, capturing its text
+const listItemPattern = /^\s*(?:[-*+]|\d+[.)])\s+(.+)$/;
+
+/**
+ * Function to find the questions the chatbot suggested in a reply, which it lists one per line.
+ *
+ * @param content - The text of the reply.
+ * @returns The suggested questions, without their Markdown formatting.
+ */
+const suggestedQuestions = (content: string): string[] =>
+  content
+    .split('\n')
+    .map(line => line.match(listItemPattern)?.[1] ?? '')
+    .map(item => item.replace(/\*\*|__|`/g, '').trim())
+    .filter(item => item.endsWith('?'));
+
+/**
+ * Interface representing the props for the ChatPanel component.
+ *
+ * - handleUseSuggestion Callback function to draft a question from one of the chatbot's suggestions.
+ */
+interface ChatPanelProps {
+  handleUseSuggestion: (suggestion: string) => void;
+}
+
+/**
+ * ChatPanel component that lets the user brainstorm questions with the chatbot. Past
+ * conversations can be reopened, replies are shown as they are generated, and each question the
+ * chatbot suggests can be turned into a draft of the question being asked.
+ *
+ * @param handleUseSuggestion Function to draft a question from a suggestion.
+ */
+const ChatPanel = ({ handleUseSuggestion }: ChatPanelProps) => {
+  const {
+    conversations,
+    conversation,
+    pendingMessage,
+    reply,
+    sending,
+    error,
+    openConversation,
+    startConversation,
+    sendMessage,
+  } = useChat();
+  const [prompt, setPrompt] = useState<string>('');
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    sendMessage(prompt);
+    setPrompt('');
+  };
+
+  return (
+    <div className='form chat_panel'>
+      <div className='chat_conversations'>
+        <button className='form_postBtn' onClick={startConversation} disabled={sending}>
+          New conversation
+        </button>
+        <select
+          className='chat_conversation_select'
+          value={conversation?._id ?? ''}
+          disabled={sending}
+          onChange={e => (e.target.value ? openConversation(e.target.value) : startConversation())}>
+          <option value=''>Past conversations</option>
+          {conversations.map(c => (
+            <option key={c._id} value={c._id}>
+              {c.title}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className='chat_messages'>
+        {!conversation && !pendingMessage && <p>Hello! What topic would you like to explore?</p>}
+        {conversation?.messages?.map((m, i) => (
+          <div key={m._id ?? i} className={`chat_message chat_message_${m.role}`}>
+            <HoverToPlayTTSWrapper text={m.content}>
+              <ReactMarkdown>{m.content}</ReactMarkdown>
+            </HoverToPlayTTSWrapper>
+            {m.role === 'assistant' &&
+              suggestedQuestions(m.content).map(suggestion => (
+                <button
+                  key={suggestion}
+                  className='chat_suggestion'
+                  onClick={() => handleUseSuggestion(suggestion)}>
+                  Use as question: {suggestion}
+                </button>
+              ))}
+          </div>
+        ))}
+        {pendingMessage && (
+          <div className='chat_message chat_message_user'>
+            <ReactMarkdown>{pendingMessage}</ReactMarkdown>
+          </div>
+        )}
+        {sending && (
+          <div className='chat_message chat_message_assistant'>
+            {reply ? (
+              <ReactMarkdown>{reply}</ReactMarkdown>
+            ) : (
+              <div className='spinner-container'>
+                <Spinner animation='grow' variant='light' />
+              </div>
+            )}
+          </div>
+        )}
+        {error && <div className='error'>{error}</div>}
+      </div>
+      <form onSubmit={handleSubmit}>
+        <HoverToPlayTTSWrapper
+          text='Need help forming a question? Brainstorm with our chatbot! Please enter the topic
+            you are interested in:'>
+          <label>
+            Need help forming a question? Brainstorm with our chatbot! Please enter the topic you
+            are interested in:
+          </label>
+        </HoverToPlayTTSWrapper>
+        <input
+          className='input-text'
+          type='text'
+          value={prompt}
+          onChange={e => setPrompt(e.target.value)}
+        />
+        <button className='form_postBtn' type='submit' disabled={sending}>
+          {conversation ? 'Send' : 'Brainstorm!'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -1,16 +1,23 @@
-import React, { useState } from 'react';
-import ReactMarkdown from 'react-markdown';
+import React from 'react';
 import Spinner from 'react-bootstrap/Spinner';
 import useNewQuestion from '../../../hooks/useNewQuestion';
 import Form from '../baseComponents/form';
 import TextArea from '../baseComponents/textarea';
+import MarkdownEditor from '../baseComponents/markdownEditor';
+import TagInput from '../baseComponents/tagInput';
 import './index.css';
 import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
-import sendPrompt from '../../../services/chatbotServic';
+import ChatPanel from './chatPanel';
+import SimilarQuestions from './similarQuestions';
+import useUserContext from '../../../hooks/useUserContext';
 import 'bootstrap/dist/css/bootstrap.min.css';
 /**
  * NewQuestionPage component allows users to submit a new question with a title,
- * description, tags, and username.
+ * description, tags, and username. Tags are chosen as chips, with existing tags suggested as they
+ * are typed. The description is written in a Markdown editor with a live
+ * preview, and its draft survives a refresh. Existing questions similar to the one being asked are listed
+ * as possible duplicates while it is typed. Logged in users can brainstorm the question with the
+ * chatbot and turn its suggestions into a draft.
  */
 const NewQuestionPage = () => {
   const {
@@ -23,26 +30,26 @@ const NewQuestionPage = () => {
     titleErr,
     textErr,
     tagErr,
+    postErr,
     postQuestion,
     posting,
+    similarQuestions,
   } = useNewQuestion();
 
-  const [prompt, setPrompt] = useState('');
-  const [response, setResponse] = useState('Hello! What topic would you like to explore?');
-  const [loading, setLoading] = useState(false);
+  const { user } = useUserContext();
 
-  const handleSubmit = async (event: React.ChangeEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    setLoading(true);
-    setResponse('');
-    const res = await sendPrompt(prompt);
-    setResponse(res);
-    setPrompt('');
-    setLoading(false);
-  };
-
-  const handlePrompt = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setPrompt(event.target.value);
+  /**
+   * Function to draft the question from one of the chatbot's suggestions. The suggestion becomes
+   * the title, and the starting point of the text if none has been written yet.
+   *
+   * @param suggestion - The suggested question.
+   */
+  const handleUseSuggestion = (suggestion: string) => {
+    setTitle(suggestion.slice(0, 100));
+    if (!text.trim()) {
+      setText(suggestion);
+    }
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   return (
@@ -56,7 +63,8 @@ const NewQuestionPage = () => {
           setState={setTitle}
           err={titleErr}
         />
-        <TextArea
+        <SimilarQuestions questions={similarQuestions} />
+        <MarkdownEditor
           title={'Question Text'}
           hint={'Add details'}
           id={'formTextInput'}
@@ -64,14 +72,15 @@ const NewQuestionPage = () => {
           setState={setText}
           err={textErr}
         />
-        <TextArea
+        <TagInput
           title={'Tags'}
-          hint={'Add keywords separated by whitespace'}
+          hint={'Add up to 5 tags separated by spaces, using hyphens within a tag'}
           id={'formTagInput'}
-          val={tagNames}
-          setState={setTagNames}
+          tagNames={tagNames}
+          setTagNames={setTagNames}
           err={tagErr}
         />
+        {postErr && <div className='input_error'>{postErr}</div>}
         <div className='btn_indicator_container'>
           <HoverToPlayTTSWrapper text='Button to Post Question'>
             <button
@@ -86,34 +95,13 @@ const NewQuestionPage = () => {
           <div className='mandatory_indicator'>* indicates mandatory fields</div>
         </div>
       </Form>
-      <div>
-        <form className='form' onSubmit={handleSubmit}>
-          <div>
-            <HoverToPlayTTSWrapper
-              text='Need help forming a question? Brainstorm with our chatbot! Please enter the topic
-                you are interested in:'>
-              <label>
-                Need help forming a question? Brainstorm with our chatbot! Please enter the topic
-                you are interested in:
-              </label>
-            </HoverToPlayTTSWrapper>
-            <input className='input-text' type='text' value={prompt} onChange={handlePrompt} />
-            <button className='form_postBtn' type='submit'>
-              Brainstorm!
-            </button>
-          </div>
-        </form>
-        <HoverToPlayTTSWrapper text={response}>
-          <form className='form'>
-            {loading && (
-              <div className='spinner-container'>
-                <Spinner animation='grow' variant='light' />
-              </div>
-            )}
-            <ReactMarkdown>{response}</ReactMarkdown>
-          </form>
-        </HoverToPlayTTSWrapper>
-      </div>
+      {user.username === 'Guest' ? (
+        <div className='form'>
+          <p>Log in to brainstorm your question with our chatbot.</p>
+        </div>
+      ) : (
+        <ChatPanel handleUseSuggestion={handleUseSuggestion} />
+      )}
     </div>
   );
 };
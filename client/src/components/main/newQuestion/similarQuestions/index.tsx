@@ -0,0 +1,50 @@
+import React from 'react';
+import './index.css';
+import { SimilarQuestion } from '../../../../types';
+import { getMetaData } from '../../../../tool';
+
+/**
+ * Interface representing the props for the SimilarQuestions component.
+ *
+ * - questions The existing questions similar to the one being asked, most similar first.
+ */
+interface SimilarQuestionsProps {
+  questions: SimilarQuestion[];
+}
+
+/**
+ * SimilarQuestions component that warns the asker that their question may already have been
+ * asked, listing the most similar existing questions. The questions open in a new tab so that the
+ * draft is kept.
+ *
+ * @param questions The similar questions.
+ */
+const SimilarQuestions = ({ questions }: SimilarQuestionsProps) => {
+  if (questions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className='similar_questions'>
+      <div className='similar_questions_title'>Possible duplicates</div>
+      <div className='similar_questions_hint'>
+        These questions look similar to yours. Check whether one of them already answers it.
+      </div>
+      <ul>
+        {questions.map(q => (
+          <li key={q.qid}>
+            <a href={`/question/${q.qid}`} target='_blank' rel='noreferrer'>
+              {q.title}
+            </a>
+            <span className='similar_questions_meta'>
+              {q.answerCount} {q.answerCount === 1 ? 'answer' : 'answers'}
+              {q.hasAcceptedAnswer && ', accepted'} · asked {getMetaData(new Date(q.askDateTime))}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SimilarQuestions;
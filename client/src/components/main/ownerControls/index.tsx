@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import './index.css';
+import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
+
+/**
+ * Interface representing the props for the OwnerControls component.
+ *
+ * - handleEdit - Function called when the author chooses to edit the post.
+ * - handleDelete - Function called once the author has confirmed deleting the post.
+ */
+interface OwnerControlsProps {
+  handleEdit: () => void;
+  handleDelete: () => void;
+}
+
+/**
+ * OwnerControls component shows the author of a question, answer or comment the buttons to edit
+ * or delete it. Deleting asks for confirmation first.
+ *
+ * @param handleEdit Function to start editing the post.
+ * @param handleDelete Function to delete the post.
+ */
+const OwnerControls = ({ handleEdit, handleDelete }: OwnerControlsProps) => {
+  const [confirming, setConfirming] = useState<boolean>(false);
+
+  if (confirming) {
+    return (
+      <div className='owner-controls'>
+        <span className='owner-controls-prompt'>Delete this?</span>
+        <HoverToPlayTTSWrapper text='Button to confirm deleting'>
+          <button
+            className='owner-controls-button owner-controls-danger'
+            onClick={() => {
+              setConfirming(false);
+              handleDelete();
+            }}>
+            Yes, delete
+          </button>
+        </HoverToPlayTTSWrapper>
+        <HoverToPlayTTSWrapper text='Button to cancel deleting'>
+          <button className='owner-controls-button' onClick={() => setConfirming(false)}>
+            Cancel
+          </button>
+        </HoverToPlayTTSWrapper>
+      </div>
+    );
+  }
+
+  return (
+    <div className='owner-controls'>
+      <HoverToPlayTTSWrapper text='Button to edit'>
+        <button className='owner-controls-button' onClick={handleEdit}>
+          Edit
+        </button>
+      </HoverToPlayTTSWrapper>
+      <HoverToPlayTTSWrapper text='Button to delete'>
+        <button className='owner-controls-button' onClick={() => setConfirming(true)}>
+          Delete
+        </button>
+      </HoverToPlayTTSWrapper>
+    </div>
+  );
+};
+
+export default OwnerControls;
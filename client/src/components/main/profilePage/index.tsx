@@ -0,0 +1,145 @@
+import React from 'react';
+import './index.css';
+import '../questionPage/question/index.css';
+import useProfilePage from '../../../hooks/useProfilePage';
+import { getMetaData } from '../../../tool';
+import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
+import formatDateToHumanReadable from '../../../utils/date.utils';
+import useUserContext from '../../../hooks/useUserContext';
+import hasRole from '../../../utils/role.utils';
+
+/**
+ * ProfilePage component displays the public profile of a user: when they joined, their
+ * reputation, the votes their posts received, the tags they are most active in, and the
+ * questions, answers and comments they posted. Moderators and admins are marked with their role,
+ * and admins are shown the buttons to promote or demote other users.
+ */
+const ProfilePage = () => {
+  const { user } = useUserContext();
+  const { profile, err, clickQuestion, clickTag, roleErr, handleChangeRole } = useProfilePage();
+
+  if (err) {
+    return <div className='profile-error right_padding'>{err}</div>;
+  }
+
+  if (!profile) {
+    return <div className='right_padding'>Loading profile...</div>;
+  }
+
+  const summaryTTS = `${profile.username} joined on ${formatDateToHumanReadable(profile.creationDateTime)} and has ${profile.reputation} reputation. Their posts received ${profile.votesReceived.upVotes} upvotes and ${profile.votesReceived.downVotes} downvotes.`;
+
+  return (
+    <div className='profile right_padding'>
+      <HoverToPlayTTSWrapper text={summaryTTS}>
+        <div className='profile-header'>
+          <div className='bold_title'>
+            {profile.username}
+            {profile.role !== 'user' && <span className='profile-role'>{profile.role}</span>}
+          </div>
+          <div className='profile-meta'>
+            Joined {getMetaData(new Date(profile.creationDateTime))}
+          </div>
+        </div>
+      </HoverToPlayTTSWrapper>
+      {hasRole(user, 'admin') && user.username !== profile.username && (
+        <div className='profile-role-controls'>
+          {profile.role !== 'admin' && (
+            <button className='profile-role-button' onClick={() => handleChangeRole('promote')}>
+              Promote to {profile.role === 'user' ? 'moderator' : 'admin'}
+            </button>
+          )}
+          {profile.role !== 'user' && (
+            <button className='profile-role-button' onClick={() => handleChangeRole('demote')}>
+              Demote to {profile.role === 'admin' ? 'moderator' : 'user'}
+            </button>
+          )}
+          {roleErr && <span className='profile-error'>{roleErr}</span>}
+        </div>
+      )}
+      <div className='profile-stats'>
+        <div className='profile-stat'>
+          <div className='profile-stat-value'>{profile.reputation}</div>
+          <div>reputation</div>
+        </div>
+        <div className='profile-stat'>
+          <div className='profile-stat-value'>{profile.questions.length}</div>
+          <div>questions</div>
+        </div>
+        <div className='profile-stat'>
+          <div className='profile-stat-value'>{profile.answers.length}</div>
+          <div>answers</div>
+        </div>
+        <div className='profile-stat'>
+          <div className='profile-stat-value'>{profile.comments.length}</div>
+          <div>comments</div>
+        </div>
+        <div className='profile-stat'>
+          <div className='profile-stat-value'>{profile.votesReceived.upVotes}</div>
+          <div>upvotes received</div>
+        </div>
+        <div className='profile-stat'>
+          <div className='profile-stat-value'>{profile.votesReceived.downVotes}</div>
+          <div>downvotes received</div>
+        </div>
+      </div>
+
+      <h3 className='profile-section-title'>Top Tags</h3>
+      {profile.topTags.length === 0 && <div className='profile-empty'>No tags yet</div>}
+      <div className='profile-tags'>
+        {profile.topTags.map(tag => (
+          <button key={tag.name} className='question_tag_button' onClick={() => clickTag(tag.name)}>
+            {tag.name} &times; {tag.count}
+          </button>
+        ))}
+      </div>
+
+      <h3 className='profile-section-title'>Questions</h3>
+      {profile.questions.length === 0 && <div className='profile-empty'>No questions yet</div>}
+      <ul className='profile-list'>
+        {profile.questions.map(q => (
+          <li key={q._id} className='profile-row' onClick={() => clickQuestion(q._id)}>
+            <span className='profile-score'>{q.score}</span>
+            <span className='profile-title'>
+              {q.resolved && <span className='profile-resolved'>&#10003; </span>}
+              {q.title}
+            </span>
+            <span className='profile-meta'>
+              {q.answerCount} answers, asked {getMetaData(new Date(q.askDateTime))}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <h3 className='profile-section-title'>Answers</h3>
+      {profile.answers.length === 0 && <div className='profile-empty'>No answers yet</div>}
+      <ul className='profile-list'>
+        {profile.answers.map(a => (
+          <li key={a._id} className='profile-row' onClick={() => clickQuestion(a.qid)}>
+            <span className='profile-score'>{a.score}</span>
+            <span className='profile-title'>
+              {a.accepted && <span className='profile-resolved'>&#10003; </span>}
+              {a.questionTitle}
+            </span>
+            <span className='profile-meta'>answered {getMetaData(new Date(a.ansDateTime))}</span>
+          </li>
+        ))}
+      </ul>
+
+      <h3 className='profile-section-title'>Comments</h3>
+      {profile.comments.length === 0 && <div className='profile-empty'>No comments yet</div>}
+      <ul className='profile-list'>
+        {profile.comments.map(c => (
+          <li key={c._id} className='profile-row profile-row-static'>
+            <span className='profile-score'>{c.score}</span>
+            <span className='profile-title'>{c.text}</span>
+            <span className='profile-meta'>
+              commented {getMetaData(new Date(c.commentDateTime))}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ProfilePage;
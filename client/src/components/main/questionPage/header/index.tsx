@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React from 'react';
 import './index.css';
 import OrderButton from './orderButton';
 import { OrderType, orderTypeDisplayName } from '../../../../types';
@@ -10,11 +10,13 @@ import HoverToPlayTTSWrapper from '../../../textToSpeech/textToSpeechComponent';
  *
  * titleText - The title text displayed at the top of the header.
  * qcnt - The number of questions to be displayed in the header.
+ * questionOrder - The order the questions are currently sorted in.
  * setQuestionOrder - A function that sets the order of questions based on the selected message.
  */
 interface QuestionHeaderProps {
   titleText: string;
   qcnt: number;
+  questionOrder: OrderType;
   setQuestionOrder: (order: OrderType) => void;
 }
 
@@ -25,16 +27,15 @@ interface QuestionHeaderProps {
  *
  * @param titleText - The title text to display in the header.
  * @param qcnt - The number of questions displayed in the header.
+ * @param questionOrder - The order the questions are currently sorted in.
  * @param setQuestionOrder - Function to set the order of questions based on input message.
  */
-const QuestionHeader = ({ titleText, qcnt, setQuestionOrder }: QuestionHeaderProps) => {
-  const [activeOrderType, setActiveOrderType] = useState<OrderType>('newest');
-
-  const handleSetQuestionOrder = (orderType: OrderType) => {
-    setActiveOrderType(orderType);
-    setQuestionOrder(orderType);
-  };
-
+const QuestionHeader = ({
+  titleText,
+  qcnt,
+  questionOrder,
+  setQuestionOrder,
+}: QuestionHeaderProps) => {
   const orderOptions = Object.values(orderTypeDisplayName).join(', ');
   return (
     <div>
@@ -56,8 +57,8 @@ const QuestionHeader = ({ titleText, qcnt, setQuestionOrder }: QuestionHeaderPro
               <OrderButton
                 key={idx}
                 orderType={order as OrderType}
-                setQuestionOrder={handleSetQuestionOrder}
-                isActive={activeOrderType === (order as OrderType)}
+                setQuestionOrder={setQuestionOrder}
+                isActive={questionOrder === (order as OrderType)}
               />
             ))}
           </div>
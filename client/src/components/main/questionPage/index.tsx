@@ -7,16 +7,19 @@ import useQuestionPage from '../../../hooks/useQuestionPage';
 /**
  * QuestionPage component renders a page displaying a list of questions
  * based on filters such as order and search terms.
- * It includes a header with order buttons and a button to ask a new question.
+ * It includes a header with order buttons and a button to ask a new question. More questions are
+ * loaded as the user scrolls to the end of the list.
  */
 const QuestionPage = () => {
-  const { titleText, qlist, setQuestionOrder } = useQuestionPage();
+  const { titleText, qlist, total, hasMore, loadMoreRef, questionOrder, setQuestionOrder } =
+    useQuestionPage();
 
   return (
     <>
       <QuestionHeader
         titleText={titleText}
-        qcnt={qlist.length}
+        qcnt={total}
+        questionOrder={questionOrder}
         setQuestionOrder={setQuestionOrder}
       />
       <div id='question_list' className='question_list'>
@@ -27,7 +30,12 @@ const QuestionPage = () => {
       {titleText === 'Search Results' && !qlist.length && (
         <div className='bold_title right_padding'>No Questions Found</div>
       )}
-      {qlist.length > 0 && (
+      {hasMore && (
+        <div ref={loadMoreRef} className='end_of_content'>
+          <p>Loading more questions...</p>
+        </div>
+      )}
+      {!hasMore && qlist.length > 0 && (
         <div className='end_of_content'>
           <p>End of Results</p>
         </div>
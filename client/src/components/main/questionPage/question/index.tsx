@@ -2,18 +2,20 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import './index.css';
 import { getMetaData } from '../../../../tool';
-import { Question } from '../../../../types';
+import { ListedQuestion } from '../../../../types';
 import HoverToPlayTTSWrapper from '../../../textToSpeech/textToSpeechComponent';
 import formatDateToHumanReadable from '../../../../utils/date.utils';
+import UserLink from '../../userLink';
 import '@fortawesome/fontawesome-free/css/all.min.css';
 
 /**
  * Interface representing the props for the Question component.
  *
- * q - The question object containing details about the question.
+ * q - The question object containing details about the question, with a search snippet when
+ * listed as a search result.
  */
 interface QuestionProps {
-  q: Question;
+  q: ListedQuestion;
 }
 
 /**
@@ -81,7 +83,15 @@ const QuestionView = ({ q }: QuestionProps) => {
           <HoverToPlayTTSWrapper text={questionTTS}>
             <div className='postTitle'>{q.title}</div>
           </HoverToPlayTTSWrapper>
-          <div className='question_text'>{q.text}</div>
+          {q.snippet ? (
+            <div className='question_text question_snippet'>
+              {q.snippet.map((part, idx) =>
+                part.match ? <mark key={idx}>{part.text}</mark> : part.text,
+              )}
+            </div>
+          ) : (
+            <div className='question_text'>{q.text}</div>
+          )}
         </div>
         <div className='question_additional_info'>
           <div className='question_tags'>
@@ -98,7 +108,7 @@ const QuestionView = ({ q }: QuestionProps) => {
             ))}
           </div>
           <div className='lastActivity'>
-            <div className='question_author'>{q.askedBy}</div>
+            <UserLink username={q.askedBy} className='question_author' />
             <div>&nbsp;</div>
             <div className='question_meta'>asked {getMetaData(new Date(q.askDateTime))}</div>
           </div>
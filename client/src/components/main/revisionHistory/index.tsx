@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import './index.css';
+import { getMetaData } from '../../../tool';
+import { Revision } from '../../../types';
+import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
+
+/**
+ * Interface representing the props for the RevisionHistory component.
+ *
+ * - revisions - The edits made to a question, answer or comment, oldest first.
+ */
+interface RevisionHistoryProps {
+  revisions?: Revision[];
+}
+
+/**
+ * RevisionHistory component shows that a post has been edited, and lets users expand the list of
+ * edits to see who changed what and when. Nothing is shown for posts that were never edited.
+ *
+ * @param revisions The edits made to the post.
+ */
+const RevisionHistory = ({ revisions }: RevisionHistoryProps) => {
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+
+  if (!revisions || revisions.length === 0) {
+    return null;
+  }
+
+  const label = `edited ${revisions.length} ${revisions.length === 1 ? 'time' : 'times'}`;
+
+  return (
+    <div className='revision-history'>
+      <HoverToPlayTTSWrapper text={showHistory ? 'Hide edit history' : label}>
+        <button className='toggle-button' onClick={() => setShowHistory(!showHistory)}>
+          {showHistory ? 'Hide edit history' : label}
+        </button>
+      </HoverToPlayTTSWrapper>
+      {showHistory && (
+        <ol className='revision-list'>
+          {[...revisions].reverse().map((revision, index) => (
+            <li key={index} className='revision-item'>
+              <small className='revision-meta'>
+                {revision.editedBy} edited {getMetaData(new Date(revision.editDateTime))}
+              </small>
+              {revision.changes.map(change => (
+                <div key={change.field} className='revision-change'>
+                  <span className='revision-field'>{change.field}</span>
+                  <del className='revision-before'>{change.before}</del>
+                  <ins className='revision-after'>{change.after}</ins>
+                </div>
+              ))}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
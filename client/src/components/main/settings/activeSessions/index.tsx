@@ -0,0 +1,43 @@
+import './index.css';
+import useActiveSessions from '../../../../hooks/useActiveSessions';
+import HoverToPlayTTSWrapper from '../../../textToSpeech/textToSpeechComponent';
+
+/**
+ * ActiveSessions component that lists the devices the user is signed in on and allows
+ * signing out of any device other than the current one.
+ */
+const ActiveSessions = () => {
+  const { sessions, err, signOutSession } = useActiveSessions();
+
+  return (
+    <div className='sessions-container'>
+      <HoverToPlayTTSWrapper text={'Active sessions'}>
+        <h2 className='sessions-title'>Active Sessions</h2>
+      </HoverToPlayTTSWrapper>
+      {err && <div className='sessions-error'>{err}</div>}
+      <ul className='sessions-list'>
+        {sessions.map(session => (
+          <li key={session._id} className='session-row'>
+            <div className='session-info'>
+              <div className='session-device'>{session.device}</div>
+              <div className='session-meta'>
+                Last active {new Date(session.lastUsedAt).toLocaleString()}
+              </div>
+            </div>
+            {session.current ? (
+              <span className='session-current'>This device</span>
+            ) : (
+              <HoverToPlayTTSWrapper text={'Button to sign out this session.'}>
+                <button className='reset-pwd-button' onClick={() => signOutSession(session._id)}>
+                  Sign out
+                </button>
+              </HoverToPlayTTSWrapper>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,82 @@
+import './index.css';
+import useEmailPreferences from '../../../../hooks/useEmailPreferences';
+import HoverToPlayTTSWrapper from '../../../textToSpeech/textToSpeechComponent';
+import { DigestFrequency } from '../../../../types';
+
+/**
+ * EmailPreferences component that lets the user opt into emails about answers and comments on
+ * their questions, and into a digest of new questions in the tags they watch.
+ */
+const EmailPreferences = () => {
+  const { preferences, tagInput, setTagInput, err, savePreferences, saveWatchedTags } =
+    useEmailPreferences();
+
+  return (
+    <div className='email-prefs-container'>
+      <HoverToPlayTTSWrapper text={'Email notifications'}>
+        <h2 className='email-prefs-title'>Email Notifications</h2>
+      </HoverToPlayTTSWrapper>
+      {err && <div className='email-prefs-error'>{err}</div>}
+      {preferences && (
+        <>
+          <HoverToPlayTTSWrapper text={'Email me when my question is answered'}>
+            <div className='settings-row'>
+              <input
+                id='email-answers'
+                type='checkbox'
+                checked={preferences.answers}
+                onChange={e => savePreferences({ answers: e.target.checked })}
+              />
+              <label htmlFor='email-answers'>Email me when my question is answered</label>
+            </div>
+          </HoverToPlayTTSWrapper>
+          <HoverToPlayTTSWrapper text={'Email me when my question is commented on'}>
+            <div className='settings-row'>
+              <input
+                id='email-comments'
+                type='checkbox'
+                checked={preferences.comments}
+                onChange={e => savePreferences({ comments: e.target.checked })}
+              />
+              <label htmlFor='email-comments'>Email me when my question is commented on</label>
+            </div>
+          </HoverToPlayTTSWrapper>
+          <HoverToPlayTTSWrapper text={'Digest of new questions in watched tags'}>
+            <div className='settings-row'>
+              <label htmlFor='email-digest' style={{ marginRight: '10px' }}>
+                Digest of new questions:
+              </label>
+              <select
+                id='email-digest'
+                value={preferences.digest}
+                onChange={e => savePreferences({ digest: e.target.value as DigestFrequency })}>
+                <option value='off'>Off</option>
+                <option value='daily'>Daily</option>
+                <option value='weekly'>Weekly</option>
+              </select>
+            </div>
+          </HoverToPlayTTSWrapper>
+          <HoverToPlayTTSWrapper text={'Watched tags, separated by spaces'}>
+            <div className='settings-row'>
+              <label htmlFor='email-watched-tags' style={{ marginRight: '10px' }}>
+                Watched tags:
+              </label>
+              <input
+                id='email-watched-tags'
+                className='email-prefs-tags'
+                placeholder='e.g. react node'
+                value={tagInput}
+                onChange={e => setTagInput(e.target.value)}
+              />
+              <button className='reset-pwd-button' onClick={saveWatchedTags}>
+                Save tags
+              </button>
+            </div>
+          </HoverToPlayTTSWrapper>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EmailPreferences;
@@ -23,6 +23,8 @@ import { useTheme } from '../../../contexts/ThemeContext';
 import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
 import { useFont } from '../../../contexts/FontContext';
 import useAccountRecoveryPage from '../../../hooks/useAccountRecoveryPage';
+import ActiveSessions from './activeSessions';
+import EmailPreferences from './emailPreferences';
 
 /**
  * Settings page component that displays the content of the settings page and handles
@@ -264,6 +266,8 @@ const SettingsPage = () => {
             </button>
           </HoverToPlayTTSWrapper>
         )}
+        {user.username !== 'Guest' && <EmailPreferences />}
+        {user.username !== 'Guest' && <ActiveSessions />}
       </div>
     </>
   );
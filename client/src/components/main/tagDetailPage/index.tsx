@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import './index.css';
+import useTagDetailPage from '../../../hooks/useTagDetailPage';
+import useUserContext from '../../../hooks/useUserContext';
+import hasRole from '../../../utils/role.utils';
+import Input from '../baseComponents/input';
+import MarkdownEditor from '../baseComponents/markdownEditor';
+import Markdown from '../markdown';
+import RevisionHistory from '../revisionHistory';
+import HoverToPlayTTSWrapper from '../../textToSpeech/textToSpeechComponent';
+
+/**
+ * TagDetailPage component shows a tag with its description, wiki, synonyms and the history of its
+ * edits. Users can edit the description and wiki, and moderators can add and remove synonyms and
+ * merge the tag into another, which asks for confirmation first.
+ */
+const TagDetailPage = () => {
+  const { user } = useUserContext();
+  const {
+    tag,
+    err,
+    actionErr,
+    editing,
+    description,
+    setDescription,
+    wiki,
+    setWiki,
+    startEditing,
+    cancelEditing,
+    saveEdit,
+    synonym,
+    setSynonym,
+    handleAddSynonym,
+    handleRemoveSynonym,
+    mergeTarget,
+    setMergeTarget,
+    handleMerge,
+    clickQuestions,
+  } = useTagDetailPage();
+  const [confirmingMerge, setConfirmingMerge] = useState<boolean>(false);
+
+  if (err) {
+    return <div className='tag-detail-error right_padding'>{err}</div>;
+  }
+
+  if (!tag) {
+    return <div className='right_padding'>Loading tag...</div>;
+  }
+
+  const isModerator = hasRole(user, 'moderator');
+  const synonyms = tag.synonyms ?? [];
+
+  return (
+    <div className='tag-detail right_padding'>
+      <div className='space_between'>
+        <HoverToPlayTTSWrapper text={`Tag ${tag.name}: ${tag.description}`}>
+          <div>
+            <div className='bold_title'>{tag.name}</div>
+            <div className='tag-detail-description'>{tag.description}</div>
+          </div>
+        </HoverToPlayTTSWrapper>
+        <div className='tag-detail-actions'>
+          <button className='tag-detail-button' onClick={clickQuestions}>
+            View questions
+          </button>
+          {!editing && (
+            <button className='tag-detail-button' onClick={startEditing}>
+              Edit
+            </button>
+          )}
+        </div>
+      </div>
+      {actionErr && <div className='tag-detail-error'>{actionErr}</div>}
+
+      {editing ? (
+        <div className='tag-detail-form'>
+          <Input
+            title='Description'
+            hint='A short summary of what the tag is for'
+            id='tagDescriptionInput'
+            val={description}
+            setState={setDescription}
+          />
+          <MarkdownEditor
+            title='Wiki'
+            mandatory={false}
+            hint='Explain when to use the tag, and link to useful resources'
+            id='tagWikiInput'
+            attachments={false}
+            val={wiki}
+            setState={setWiki}
+          />
+          <div className='tag-detail-actions'>
+            <button className='tag-detail-button' onClick={saveEdit}>
+              Save
+            </button>
+            <button className='tag-detail-button' onClick={cancelEditing}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className='tag-detail-wiki'>
+          {tag.wiki ? (
+            <Markdown text={tag.wiki} />
+          ) : (
+            <div className='tag-detail-empty'>This tag has no wiki yet</div>
+          )}
+        </div>
+      )}
+
+      <h3 className='tag-detail-section-title'>Synonyms</h3>
+      {synonyms.length === 0 && <div className='tag-detail-empty'>No synonyms</div>}
+      <ul className='tag-detail-synonyms'>
+        {synonyms.map(name => (
+          <li key={name} className='tag-detail-synonym'>
+            {name}
+            {isModerator && (
+              <button
+                className='tag-detail-synonym-remove'
+                title={`Remove the synonym ${name}`}
+                onClick={() => handleRemoveSynonym(name)}>
+                &times;
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {isModerator && (
+        <div className='tag-detail-moderation'>
+          <div className='tag-detail-inline-form'>
+            <input
+              className='tag-detail-input'
+              placeholder='New synonym'
+              value={synonym}
+              onChange={e => setSynonym(e.currentTarget.value)}
+            />
+            <button className='tag-detail-button' onClick={handleAddSynonym}>
+              Add synonym
+            </button>
+          </div>
+          <div className='tag-detail-inline-form'>
+            <input
+              className='tag-detail-input'
+              placeholder='Tag to merge into'
+              value={mergeTarget}
+              onChange={e => {
+                setMergeTarget(e.currentTarget.value);
+                setConfirmingMerge(false);
+              }}
+            />
+            {confirmingMerge ? (
+              <>
+                <span>
+                  Move all questions tagged {tag.name} to {mergeTarget.trim()}?
+                </span>
+                <button
+                  className='tag-detail-button tag-detail-button-danger'
+                  onClick={() => {
+                    setConfirmingMerge(false);
+                    handleMerge();
+                  }}>
+                  Merge
+                </button>
+                <button className='tag-detail-button' onClick={() => setConfirmingMerge(false)}>
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <button
+                className='tag-detail-button'
+                disabled={mergeTarget.trim() === ''}
+                onClick={() => setConfirmingMerge(true)}>
+                Merge into...
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <RevisionHistory revisions={tag.revisions} />
+    </div>
+  );
+};
+
+export default TagDetailPage;
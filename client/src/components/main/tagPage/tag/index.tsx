@@ -1,4 +1,5 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import './index.css';
 import { TagData } from '../../../../types';
 import useTagSelected from '../../../../hooks/useTagSelected';
@@ -18,7 +19,8 @@ interface TagProps {
 /**
  * Tag component that displays information about a specific tag.
  * The component displays the tag's name, description, and the number of associated questions.
- * It also triggers a click event to handle tag selection.
+ * It also triggers a click event to handle tag selection, and links to the page of the tag with
+ * its wiki and synonyms.
  *
  * @param t - The tag object .
  * @param clickTag - Function to handle tag clicks.
@@ -38,6 +40,12 @@ const TagView = ({ t, clickTag }: TagProps) => {
       </HoverToPlayTTSWrapper>
       <div className='tagDescription'>{tag.description}</div>
       <div>{t.qcnt} questions</div>
+      <Link
+        className='tagInfoLink'
+        to={`/tags/${encodeURIComponent(t.name)}`}
+        onClick={e => e.stopPropagation()}>
+        About this tag
+      </Link>
     </div>
   );
 };
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import './index.css';
+
+/**
+ * Interface representing the props for the UserLink component.
+ *
+ * - username The username to link to the profile of.
+ * - className The class name used to style the link.
+ */
+interface UserLinkProps {
+  username: string;
+  className: string;
+}
+
+/**
+ * UserLink component renders a username as a link to that user's profile page. Clicks do not
+ * reach enclosing clickable elements, such as a question in the question list.
+ *
+ * @param username The username to link to the profile of.
+ * @param className The class name used to style the link.
+ */
+const UserLink = ({ username, className }: UserLinkProps) => (
+  <Link
+    to={`/user/${encodeURIComponent(username)}`}
+    className={`user_link ${className}`}
+    onClick={e => e.stopPropagation()}>
+    {username}
+  </Link>
+);
+
+export default UserLink;
@@ -1,48 +1,64 @@
+import { useState } from 'react';
+import { AxiosError } from 'axios';
 import { downvoteQuestion, upvoteQuestion } from '../../../services/questionService';
+import { downvoteAnswer, upvoteAnswer } from '../../../services/answerService';
+import { downvoteComment, upvoteComment } from '../../../services/commentService';
 import './index.css';
 import useUserContext from '../../../hooks/useUserContext';
-import { Question } from '../../../types';
+import { Answer, Comment, Question, VoteTargetType } from '../../../types';
 import useVoteStatus from '../../../hooks/useVoteStatus';
 
 /**
  * Interface represents the props for the VoteComponent.
  *
- * question - The question object containing voting information.
+ * target - The question, answer or comment containing voting information.
+ * type - The type of the voted item, either 'question', 'answer' or 'comment'.
  */
 interface VoteComponentProps {
-  question: Question;
+  target: Question | Answer | Comment;
+  type: VoteTargetType;
 }
 
 /**
- * A Vote component that allows users to upvote or downvote a question.
+ * A Vote component that allows users to upvote or downvote a question, an answer or a comment.
  *
- * @param question - The question object containing voting information.
+ * @param target - The item containing voting information.
+ * @param type - The type of the voted item.
  */
-const VoteComponent = ({ question }: VoteComponentProps) => {
+const VoteComponent = ({ target, type }: VoteComponentProps) => {
   const { user } = useUserContext();
-  const { count, voted } = useVoteStatus({ question });
+  const { count, voted } = useVoteStatus({
+    upVotes: target.upVotes,
+    downVotes: target.downVotes,
+  });
+  const [voteErr, setVoteErr] = useState<string>('');
 
   /**
-   * Function to handle upvoting or downvoting a question.
+   * Function to handle upvoting or downvoting the item. If the vote is refused, e.g. because the
+   * user lacks the reputation to downvote, the reason is shown next to the buttons.
    *
-   * @param type - The type of vote, either 'upvote' or 'downvote'.
+   * @param vote - The type of vote, either 'upvote' or 'downvote'.
    */
-  const handleVote = async (type: string) => {
+  const handleVote = async (vote: 'upvote' | 'downvote') => {
     try {
-      if (question._id) {
-        if (type === 'upvote') {
-          await upvoteQuestion(question._id, user.username);
-        } else if (type === 'downvote') {
-          await downvoteQuestion(question._id, user.username);
+      setVoteErr('');
+      if (target._id) {
+        if (type === 'question') {
+          await (vote === 'upvote' ? upvoteQuestion : downvoteQuestion)(target._id, user.username);
+        } else if (type === 'answer') {
+          await (vote === 'upvote' ? upvoteAnswer : downvoteAnswer)(target._id, user.username);
+        } else {
+          await (vote === 'upvote' ? upvoteComment : downvoteComment)(target._id, user.username);
         }
       }
     } catch (error) {
-      // Handle error
+      const errorMessage = (error as AxiosError).response?.data;
+      setVoteErr(typeof errorMessage === 'string' ? errorMessage : 'Error while voting');
     }
   };
 
   return (
-    <div className='vote-container'>
+    <div className={`vote-container vote-container-${type}`}>
       <button
         className={`vote-button ${voted === 1 ? 'vote-button-upvoted' : ''}`}
         onClick={() => handleVote('upvote')}>
@@ -54,6 +70,7 @@ const VoteComponent = ({ question }: VoteComponentProps) => {
         Downvote
       </button>
       <span className='vote-count'>{count}</span>
+      {voteErr && <span className='vote-error'>{voteErr}</span>}
     </div>
   );
 };
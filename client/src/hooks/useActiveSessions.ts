@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { getSessions, revokeSession } from '../services/userAuthService';
+import { Session } from '../types';
+
+/**
+ * Custom hook for managing the list of sessions the user is signed in with.
+ *
+ * @returns sessions - The active sessions of the user, the current one included.
+ * @returns err - Error message to display if loading or signing out a session failed.
+ * @returns signOutSession - Function to sign out one of the other sessions.
+ */
+const useActiveSessions = () => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [err, setErr] = useState<string>('');
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const res = await getSessions();
+        setSessions(res || []);
+      } catch (e) {
+        setErr('Could not load your active sessions');
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  /**
+   * Function to sign out a session and remove it from the list.
+   *
+   * @param sessionId - The ID of the session to sign out.
+   */
+  const signOutSession = async (sessionId: string) => {
+    try {
+      await revokeSession(sessionId);
+      setSessions(prev => prev.filter(session => session._id !== sessionId));
+      setErr('');
+    } catch (e) {
+      setErr('Could not sign out the session');
+    }
+  };
+
+  return { sessions, err, signOutSession };
+};
+
+export default useActiveSessions;
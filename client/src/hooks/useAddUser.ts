@@ -3,6 +3,7 @@ import { AxiosError } from 'axios';
 import { useNavigate } from 'react-router-dom';
 import { addUser } from '../services/userAuthService';
 import useLoginContext from './useLoginContext';
+import { setAuthTokens } from '../services/config';
 
 /**
  * Custom hook to handle new user submission and form validation
@@ -37,6 +38,7 @@ const useAddUser = () => {
     try {
       const res = await addUser(token);
       if (res && res.token && res.user) {
+        setAuthTokens(res.token, res.refreshToken);
         setUser(res.user);
         setSuccessMessage('Account created successfully!');
         setTimeout(() => {
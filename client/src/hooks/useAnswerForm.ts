@@ -1,12 +1,14 @@
 import { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { validateHyperlink } from '../tool';
-import addAnswer from '../services/answerService';
+import { addAnswer } from '../services/answerService';
 import useUserContext from './useUserContext';
+import useDraft from './useDraft';
 import { Answer } from '../types';
 
 /**
- * Custom hook for managing the state and logic of an answer submission form.
+ * Custom hook for managing the state and logic of an answer submission form. The answer text is
+ * kept as a draft until it is posted.
  *
  * @returns text - the current text input for the answer.
  * @returns textErr - the error message related to the text input.
@@ -21,6 +23,7 @@ const useAnswerForm = () => {
   const [text, setText] = useState<string>('');
   const [textErr, setTextErr] = useState<string>('');
   const [questionID, setQuestionID] = useState<string>('');
+  const { clearDraft } = useDraft(`draft:${user.username}:answer:${qid}`, text, setText);
 
   useEffect(() => {
     if (!qid) {
@@ -64,6 +67,7 @@ const useAnswerForm = () => {
     const res = await addAnswer(questionID, answer);
 
     if (res && res._id) {
+      clearDraft();
       // navigate to the question that was answered
       navigate(`/question/${questionID}`);
     }
@@ -1,17 +1,108 @@
 import { useNavigate, useParams } from 'react-router-dom';
-import { useEffect, useState } from 'react';
-import { Comment, Answer, Question, VoteData } from '../types';
+import { useEffect, useMemo, useState } from 'react';
+import { AxiosError } from 'axios';
+import {
+  AIAnswerFeedbackUpdatePayload,
+  AIAnswerRating,
+  AIAnswerUpdatePayload,
+  Comment,
+  Answer,
+  AnswerOrderType,
+  CloseReason,
+  Question,
+  VoteData,
+} from '../types';
 import useUserContext from './useUserContext';
-import addComment from '../services/commentService';
-import { getQuestionById } from '../services/questionService';
+import { addComment, deleteComment, editComment } from '../services/commentService';
+import {
+  acceptAnswer,
+  deleteQuestion,
+  editQuestion,
+  flagAIAnswer,
+  getQuestionById,
+  hideAIAnswer,
+  lockQuestion,
+  rateAIAnswer,
+  unacceptAnswer,
+  voteToClose,
+  voteToReopen,
+} from '../services/questionService';
+import { deleteAnswer, editAnswer } from '../services/answerService';
+
+/**
+ * Function to calculate the score of an answer, its upvotes minus its downvotes.
+ *
+ * @param answer - The answer to score.
+ * @returns The score of the answer.
+ */
+const scoreOf = (answer: Answer): number =>
+  (answer.upVotes || []).length - (answer.downVotes || []).length;
+
+/**
+ * Function to sort the answers to a question. The accepted answer, if any, is always pinned to the
+ * top. Answers with the same score are shown oldest first.
+ *
+ * @param answers - The answers to sort.
+ * @param order - The order to sort the answers in.
+ * @param acceptedAnswer - The ID of the accepted answer, if there is one.
+ * @returns A new array with the answers in the requested order.
+ */
+const sortAnswers = (
+  answers: Answer[],
+  order: AnswerOrderType,
+  acceptedAnswer?: string,
+): Answer[] => {
+  const byDate = (a: Answer, b: Answer) =>
+    new Date(a.ansDateTime).getTime() - new Date(b.ansDateTime).getTime();
+  const byAccepted = (a: Answer, b: Answer) =>
+    Number(b._id === acceptedAnswer) - Number(a._id === acceptedAnswer);
+
+  if (order === 'newest') {
+    return [...answers].sort((a, b) => byAccepted(a, b) || byDate(b, a));
+  }
+  if (order === 'score') {
+    return [...answers].sort((a, b) => byAccepted(a, b) || scoreOf(b) - scoreOf(a) || byDate(a, b));
+  }
+  return [...answers].sort((a, b) => byAccepted(a, b) || byDate(a, b));
+};
+
+/**
+ * Function to apply new votes to the comment with the given ID, if it is in the list.
+ *
+ * @param comments - The comments to search.
+ * @param voteData - The updated vote data for a comment.
+ * @returns The comments with the votes of the matching comment replaced.
+ */
+const applyCommentVotes = (comments: Comment[], voteData: VoteData): Comment[] =>
+  comments.map(c =>
+    c._id === voteData.id ? { ...c, upVotes: voteData.upVotes, downVotes: voteData.downVotes } : c,
+  );
 
 /**
  * Custom hook for managing the answer page's state, navigation, and real-time updates.
  *
  * @returns questionID - The current question ID retrieved from the URL parameters.
  * @returns question - The current question object with its answers, comments, and votes.
+ * @returns answers - The answers to the question, sorted in the selected order with the accepted answer first.
+ * @returns answerOrder - The order the answers are sorted in.
+ * @returns setAnswerOrder - Function to change the order the answers are sorted in.
  * @returns handleNewComment - Function to handle the submission of a new comment to a question or answer.
  * @returns handleNewAnswer - Function to navigate to the "New Answer" page
+ * @returns handleEditQuestion - Function to edit the title, text and tags of the question.
+ * @returns handleDeleteQuestion - Function to delete the question and return to the home page.
+ * @returns handleEditAnswer - Function to edit the text of an answer.
+ * @returns handleDeleteAnswer - Function to delete an answer.
+ * @returns handleEditComment - Function to edit the text of a comment on the question or an answer.
+ * @returns handleDeleteComment - Function to delete a comment from the question or an answer.
+ * @returns handleAcceptAnswer - Function to mark an answer as the one that solved the question.
+ * @returns handleUnacceptAnswer - Function to clear the accepted answer of the question.
+ * @returns handleRateAIAnswer - Function to rate the AI answer as helpful or unhelpful.
+ * @returns handleFlagAIAnswer - Function to flag the AI answer as incorrect.
+ * @returns handleHideAIAnswer - Function for the asker to hide or show the AI answer.
+ * @returns handleVoteToClose - Function to vote to close the question.
+ * @returns handleVoteToReopen - Function to vote to reopen the closed question.
+ * @returns handleLockQuestion - Function for moderators to lock or unlock the question.
+ * @returns moderationError - Why the last vote or lock failed, if it did.
  */
 const useAnswerPage = () => {
   const { qid } = useParams();
@@ -20,6 +111,13 @@ const useAnswerPage = () => {
   const { user, socket } = useUserContext();
   const [questionID, setQuestionID] = useState<string>(qid || '');
   const [question, setQuestion] = useState<Question | null>(null);
+  const [answerOrder, setAnswerOrder] = useState<AnswerOrderType>('oldest');
+  const [moderationError, setModerationError] = useState<string>('');
+
+  const answers = useMemo(
+    () => (question ? sortAnswers(question.answers, answerOrder, question.acceptedAnswer) : []),
+    [question, answerOrder],
+  );
 
   /**
    * Function to handle navigation to the "New Answer" page.
@@ -61,6 +159,245 @@ const useAnswerPage = () => {
     }
   };
 
+  /**
+   * Function to edit the title, text and tags of the question.
+   *
+   * @param title - The new title of the question.
+   * @param text - The new text of the question.
+   * @param tagNames - The names of the new tags of the question.
+   */
+  const handleEditQuestion = async (title: string, text: string, tagNames: string[]) => {
+    try {
+      const tags = tagNames.map(name => ({ name, description: 'user added tag' }));
+      await editQuestion(questionID, { title, text, tags });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error editing question:', error);
+    }
+  };
+
+  /**
+   * Function to delete the question and return to the home page.
+   */
+  const handleDeleteQuestion = async () => {
+    try {
+      await deleteQuestion(questionID);
+      navigate('/home');
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error deleting question:', error);
+    }
+  };
+
+  /**
+   * Function to edit the text of an answer.
+   *
+   * @param aid - The ID of the answer being edited.
+   * @param text - The new text of the answer.
+   */
+  const handleEditAnswer = async (aid: string | undefined, text: string) => {
+    try {
+      if (aid === undefined) {
+        throw new Error('No answer ID provided.');
+      }
+
+      await editAnswer(questionID, aid, text);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error editing answer:', error);
+    }
+  };
+
+  /**
+   * Function to delete an answer.
+   *
+   * @param aid - The ID of the answer being deleted.
+   */
+  const handleDeleteAnswer = async (aid: string | undefined) => {
+    try {
+      if (aid === undefined) {
+        throw new Error('No answer ID provided.');
+      }
+
+      await deleteAnswer(questionID, aid);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error deleting answer:', error);
+    }
+  };
+
+  /**
+   * Function to edit the text of a comment on the question or an answer.
+   *
+   * @param cid - The ID of the comment being edited.
+   * @param text - The new text of the comment.
+   * @param targetType - The type of target the comment is on, either 'question' or 'answer'.
+   * @param targetId - The ID of the target the comment is on.
+   */
+  const handleEditComment = async (
+    cid: string | undefined,
+    text: string,
+    targetType: 'question' | 'answer',
+    targetId: string | undefined,
+  ) => {
+    try {
+      if (cid === undefined || targetId === undefined) {
+        throw new Error('No comment or target ID provided.');
+      }
+
+      await editComment(targetId, targetType, cid, text);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error editing comment:', error);
+    }
+  };
+
+  /**
+   * Function to delete a comment from the question or an answer.
+   *
+   * @param cid - The ID of the comment being deleted.
+   * @param targetType - The type of target the comment is on, either 'question' or 'answer'.
+   * @param targetId - The ID of the target the comment is on.
+   */
+  const handleDeleteComment = async (
+    cid: string | undefined,
+    targetType: 'question' | 'answer',
+    targetId: string | undefined,
+  ) => {
+    try {
+      if (cid === undefined || targetId === undefined) {
+        throw new Error('No comment or target ID provided.');
+      }
+
+      await deleteComment(targetId, targetType, cid);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error deleting comment:', error);
+    }
+  };
+
+  /**
+   * Function to mark an answer as the one that solved the question.
+   *
+   * @param aid - The ID of the answer being accepted.
+   */
+  const handleAcceptAnswer = async (aid: string | undefined) => {
+    try {
+      if (aid === undefined) {
+        throw new Error('No answer ID provided.');
+      }
+
+      await acceptAnswer(questionID, aid);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error accepting answer:', error);
+    }
+  };
+
+  /**
+   * Function to clear the accepted answer of the question.
+   */
+  const handleUnacceptAnswer = async () => {
+    try {
+      await unacceptAnswer(questionID);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error unaccepting answer:', error);
+    }
+  };
+
+  /**
+   * Function to rate the AI answer of the question. Rating it the same way again clears the rating.
+   *
+   * @param rating - Whether the AI answer was helpful.
+   */
+  const handleRateAIAnswer = async (rating: AIAnswerRating) => {
+    try {
+      await rateAIAnswer(questionID, rating);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error rating AI answer:', error);
+    }
+  };
+
+  /**
+   * Function to flag the AI answer of the question as incorrect.
+   *
+   * @param reason - Why the AI answer is incorrect, if given.
+   */
+  const handleFlagAIAnswer = async (reason?: string) => {
+    try {
+      await flagAIAnswer(questionID, reason);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error flagging AI answer:', error);
+    }
+  };
+
+  /**
+   * Function to hide or show the AI answer of the question, for its asker.
+   *
+   * @param hidden - Whether to hide the AI answer.
+   */
+  const handleHideAIAnswer = async (hidden: boolean) => {
+    try {
+      await hideAIAnswer(questionID, hidden);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error hiding AI answer:', error);
+    }
+  };
+
+  /**
+   * Function to run an action that closes, reopens or locks the question. Only users with enough
+   * reputation may do these, so the reason is kept to be shown when it fails. The updated question
+   * arrives through the socket.
+   *
+   * @param action - The request to send.
+   * @param fallback - The error to show if the server gave no reason.
+   */
+  const moderate = async (action: () => Promise<Question>, fallback: string) => {
+    try {
+      setModerationError('');
+      await action();
+    } catch (error) {
+      setModerationError((error as AxiosError<string>).response?.data || fallback);
+    }
+  };
+
+  /**
+   * Function to vote to close the question.
+   *
+   * @param reason - Why the question should be closed.
+   * @param duplicateOf - The ID of the question it duplicates, when the reason is `duplicate`.
+   */
+  const handleVoteToClose = (reason: CloseReason, duplicateOf?: string) =>
+    moderate(
+      () => voteToClose(questionID, reason, duplicateOf),
+      'Your vote to close the question could not be recorded.',
+    );
+
+  /**
+   * Function to vote to reopen the closed question.
+   */
+  const handleVoteToReopen = () =>
+    moderate(
+      () => voteToReopen(questionID),
+      'Your vote to reopen the question could not be recorded.',
+    );
+
+  /**
+   * Function to lock the question against new answers and comments, or unlock it.
+   *
+   * @param locked - Whether to lock the question.
+   * @param reason - Why the question is locked.
+   */
+  const handleLockQuestion = (locked: boolean, reason?: string) =>
+    moderate(
+      () => lockQuestion(questionID, locked, reason),
+      locked ? 'The question could not be locked.' : 'The question could not be unlocked.',
+    );
+
   useEffect(() => {
     /**
      * Function to fetch the question data based on the question ID.
@@ -80,19 +417,53 @@ const useAnswerPage = () => {
   }, [questionID, user.username]);
 
   useEffect(() => {
+    /**
+     * Function to handle updates to the question itself, such as edits or its deletion.
+     *
+     * @param q - The updated question object.
+     */
+    const handleQuestionUpdate = (q: Question) => {
+      if (q._id !== questionID) {
+        return;
+      }
+
+      if (q.deletedAt) {
+        navigate('/home');
+        return;
+      }
+
+      setQuestion(q);
+    };
+
     /**
      * Function to handle updates to the answers of a question.
      *
-     * @param answer - The updated answer object.
+     * @param answer - The new, edited or deleted answer object.
      */
     const handleAnswerUpdate = ({ qid: id, answer }: { qid: string; answer: Answer }) => {
       if (id === questionID) {
-        setQuestion(prevQuestion =>
-          prevQuestion
-            ? // Creates a new Question object with the new answer appended to the end
-              { ...prevQuestion, answers: [...prevQuestion.answers, answer] }
-            : prevQuestion,
-        );
+        setQuestion(prevQuestion => {
+          if (!prevQuestion) {
+            return prevQuestion;
+          }
+
+          if (answer.deletedAt) {
+            return {
+              ...prevQuestion,
+              answers: prevQuestion.answers.filter(a => a._id !== answer._id),
+            };
+          }
+
+          if (prevQuestion.answers.some(a => a._id === answer._id)) {
+            return {
+              ...prevQuestion,
+              answers: prevQuestion.answers.map(a => (a._id === answer._id ? answer : a)),
+            };
+          }
+
+          // Creates a new Question object with the new answer appended to the end
+          return { ...prevQuestion, answers: [...prevQuestion.answers, answer] };
+        });
       }
     };
 
@@ -142,42 +513,126 @@ const useAnswerPage = () => {
     };
 
     /**
-     * Function to handle vote updates for a question.
+     * Function to handle vote updates for the question, one of its answers, or one of the
+     * comments on either.
      *
-     * @param voteData - The updated vote data for a question
+     * @param voteData - The updated vote data for the voted item
      */
     const handleVoteUpdate = (voteData: VoteData) => {
-      if (voteData.qid === questionID) {
+      if (voteData.qid !== questionID) {
+        return;
+      }
+
+      setQuestion(prevQuestion => {
+        if (!prevQuestion) {
+          return prevQuestion;
+        }
+
+        if (voteData.type === 'answer') {
+          return {
+            ...prevQuestion,
+            answers: prevQuestion.answers.map(a =>
+              a._id === voteData.id
+                ? { ...a, upVotes: voteData.upVotes, downVotes: voteData.downVotes }
+                : a,
+            ),
+          };
+        }
+
+        if (voteData.type === 'comment') {
+          return {
+            ...prevQuestion,
+            comments: applyCommentVotes(prevQuestion.comments, voteData),
+            answers: prevQuestion.answers.map(a => ({
+              ...a,
+              comments: applyCommentVotes(a.comments, voteData),
+            })),
+          };
+        }
+
+        return {
+          ...prevQuestion,
+          upVotes: [...voteData.upVotes],
+          downVotes: [...voteData.downVotes],
+        };
+      });
+    };
+
+    /**
+     * Function to handle the AI answer of the question becoming ready, or failing to generate.
+     *
+     * @param update - The new status and answer of the question.
+     */
+    const handleAIAnswerUpdate = ({
+      qid: id,
+      aiAnswerStatus,
+      aiGeneratedAnswer,
+    }: AIAnswerUpdatePayload) => {
+      if (id === questionID) {
         setQuestion(prevQuestion =>
-          prevQuestion
-            ? {
-                ...prevQuestion,
-                upVotes: [...voteData.upVotes],
-                downVotes: [...voteData.downVotes],
-              }
-            : prevQuestion,
+          prevQuestion ? { ...prevQuestion, aiAnswerStatus, aiGeneratedAnswer } : prevQuestion,
+        );
+      }
+    };
+
+    /**
+     * Function to handle changes to the ratings and flags of the AI answer of the question.
+     *
+     * @param update - The updated feedback on the AI answer.
+     */
+    const handleAIAnswerFeedbackUpdate = ({
+      qid: id,
+      aiAnswerFeedback,
+    }: AIAnswerFeedbackUpdatePayload) => {
+      if (id === questionID) {
+        setQuestion(prevQuestion =>
+          prevQuestion ? { ...prevQuestion, aiAnswerFeedback } : prevQuestion,
         );
       }
     };
 
+    socket.on('questionUpdate', handleQuestionUpdate);
     socket.on('answerUpdate', handleAnswerUpdate);
     socket.on('viewsUpdate', handleViewsUpdate);
     socket.on('commentUpdate', handleCommentUpdate);
     socket.on('voteUpdate', handleVoteUpdate);
+    socket.on('aiAnswerUpdate', handleAIAnswerUpdate);
+    socket.on('aiAnswerFeedbackUpdate', handleAIAnswerFeedbackUpdate);
 
     return () => {
+      socket.off('questionUpdate', handleQuestionUpdate);
       socket.off('answerUpdate', handleAnswerUpdate);
       socket.off('viewsUpdate', handleViewsUpdate);
       socket.off('commentUpdate', handleCommentUpdate);
       socket.off('voteUpdate', handleVoteUpdate);
+      socket.off('aiAnswerUpdate', handleAIAnswerUpdate);
+      socket.off('aiAnswerFeedbackUpdate', handleAIAnswerFeedbackUpdate);
     };
-  }, [questionID, socket]);
+  }, [questionID, socket, navigate]);
 
   return {
     questionID,
     question,
+    answers,
+    answerOrder,
+    setAnswerOrder,
     handleNewComment,
     handleNewAnswer,
+    handleEditQuestion,
+    handleDeleteQuestion,
+    handleEditAnswer,
+    handleDeleteAnswer,
+    handleEditComment,
+    handleDeleteComment,
+    handleAcceptAnswer,
+    handleUnacceptAnswer,
+    handleRateAIAnswer,
+    handleFlagAIAnswer,
+    handleHideAIAnswer,
+    handleVoteToClose,
+    handleVoteToReopen,
+    handleLockQuestion,
+    moderationError,
   };
 };
 
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { AxiosError } from 'axios';
+import useUserContext from './useUserContext';
+import { getConversation, getConversations, sendChatMessage } from '../services/chatService';
+import { ChatChunkPayload, Conversation } from '../types';
+
+/**
+ * Custom hook for brainstorming with the chatbot. The user's past conversations are listed and
+ * can be reopened, and replies are shown as they are generated.
+ *
+ * @returns conversations - The user's most recently active conversations, without their messages.
+ * @returns conversation - The open conversation, or null for a new one.
+ * @returns pendingMessage - The message waiting for its reply, shown until the reply is done.
+ * @returns reply - The part of the chatbot's reply generated so far, while it is being generated.
+ * @returns sending - Whether a message is waiting for its reply.
+ * @returns error - The error of the last message, if it failed.
+ * @returns openConversation - Function to open one of the user's conversations.
+ * @returns startConversation - Function to start a new conversation.
+ * @returns sendMessage - Function to send a message in the open conversation.
+ */
+const useChat = () => {
+  const { socket } = useUserContext();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [pendingMessage, setPendingMessage] = useState<string>('');
+  const [reply, setReply] = useState<string>('');
+  const [sending, setSending] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  /**
+   * Function to refresh the list of the user's conversations.
+   */
+  const fetchConversations = async () => {
+    try {
+      setConversations(await getConversations());
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Error fetching conversations:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchConversations();
+  }, []);
+
+  useEffect(() => {
+    /**
+     * Function to add the next part of the reply to the open conversation. A new conversation has
+     * no ID until its first reply is done, so any reply is accepted for it.
+     *
+     * @param chunk - The conversation and the next part of the reply.
+     */
+    const handleChatChunk = ({ cid, delta }: ChatChunkPayload) => {
+      if (sending && (!conversation || conversation._id === cid)) {
+        setReply(prev => prev + delta);
+      }
+    };
+
+    socket.on('chatChunk', handleChatChunk);
+
+    return () => {
+      socket.off('chatChunk', handleChatChunk);
+    };
+  }, [socket, sending, conversation]);
+
+  /**
+   * Function to open one of the user's conversations with its messages.
+   *
+   * @param cid - The ID of the conversation.
+   */
+  const openConversation = async (cid: string) => {
+    try {
+      setConversation(await getConversation(cid));
+      setError('');
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Error fetching conversation:', err);
+    }
+  };
+
+  /**
+   * Function to start a new conversation.
+   */
+  const startConversation = () => {
+    setConversation(null);
+    setError('');
+  };
+
+  /**
+   * Function to send a message in the open conversation, or to start a new one with it. The
+   * message is shown right away, and the reply as it is generated.
+   *
+   * @param text - The text of the message.
+   */
+  const sendMessage = async (text: string) => {
+    if (!text.trim() || sending) {
+      return;
+    }
+
+    setPendingMessage(text.trim());
+    setSending(true);
+    setReply('');
+    setError('');
+
+    try {
+      const updated = await sendChatMessage(text, conversation?._id);
+      setConversation(updated);
+    } catch (err) {
+      const axiosError = err as AxiosError<string>;
+      setError(axiosError.response?.data || 'The chatbot could not reply, please try again.');
+      // The message is kept even without a reply
+      if (conversation) {
+        openConversation(conversation._id);
+      }
+    } finally {
+      setPendingMessage('');
+      setSending(false);
+      setReply('');
+      fetchConversations();
+    }
+  };
+
+  return {
+    conversations,
+    conversation,
+    pendingMessage,
+    reply,
+    sending,
+    error,
+    openConversation,
+    startConversation,
+    sendMessage,
+  };
+};
+
+export default useChat;
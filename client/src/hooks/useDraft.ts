@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// How long to wait after the user stops typing before saving the draft, in ms
+const DRAFT_SAVE_DELAY = 500;
+
+/**
+ * Custom hook to keep a draft of a text field in the browser's local storage, so a refresh does
+ * not lose what was written. The draft saved under the key is restored when the key is first
+ * used, and the text is saved again shortly after each change. Clearing the text removes the
+ * draft.
+ *
+ * @param key - The local storage key of the draft, unique to what is being written.
+ * @param value - The current text.
+ * @param setValue - Function to update the text, used to restore the draft.
+ *
+ * @returns clearDraft - Function to remove the draft, once the text has been posted.
+ */
+const useDraft = (key: string, value: string, setValue: (value: string) => void) => {
+  // The key whose draft was restored; the text is not saved under a key before that
+  const [restoredKey, setRestoredKey] = useState<string>();
+
+  useEffect(() => {
+    const draft = localStorage.getItem(key);
+    if (draft) {
+      setValue(draft);
+    }
+    setRestoredKey(key);
+  }, [key, setValue]);
+
+  useEffect(() => {
+    if (restoredKey !== key) {
+      return undefined;
+    }
+
+    const timer = setTimeout(() => {
+      try {
+        if (value) {
+          localStorage.setItem(key, value);
+        } else {
+          localStorage.removeItem(key);
+        }
+      } catch (error) {
+        // The storage is full or disabled, so the text is just not kept across refreshes
+        // eslint-disable-next-line no-console
+        console.error('Error saving the draft:', error);
+      }
+    }, DRAFT_SAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [key, value, restoredKey]);
+
+  /**
+   * Function to remove the draft and stop the pending save, if any.
+   */
+  const clearDraft = useCallback(() => {
+    setRestoredKey(undefined);
+    localStorage.removeItem(key);
+  }, [key]);
+
+  return { clearDraft };
+};
+
+export default useDraft;
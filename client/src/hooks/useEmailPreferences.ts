@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { getEmailPreferences, updateEmailPreferences } from '../services/userAuthService';
+import { EmailPreferences } from '../types';
+
+/**
+ * Custom hook for managing the emails the user has opted into.
+ *
+ * @returns preferences - The current preferences, or null while they are loading.
+ * @returns tagInput - The watched tags as typed by the user, separated by spaces.
+ * @returns setTagInput - Function to update the typed watched tags.
+ * @returns err - Error message to display if loading or saving the preferences failed.
+ * @returns savePreferences - Function to save a change to the preferences.
+ * @returns saveWatchedTags - Function to save the typed watched tags.
+ */
+const useEmailPreferences = () => {
+  const [preferences, setPreferences] = useState<EmailPreferences | null>(null);
+  const [tagInput, setTagInput] = useState<string>('');
+  const [err, setErr] = useState<string>('');
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const res = await getEmailPreferences();
+        setPreferences(res);
+        setTagInput(res.watchedTags.join(' '));
+      } catch (e) {
+        setErr('Could not load your email preferences');
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  /**
+   * Function to save a change to the preferences.
+   *
+   * @param changes - The preferences to change.
+   */
+  const savePreferences = async (changes: Partial<EmailPreferences>) => {
+    try {
+      const res = await updateEmailPreferences(changes);
+      setPreferences(res);
+      setTagInput(res.watchedTags.join(' '));
+      setErr('');
+    } catch (e) {
+      setErr('Could not save your email preferences');
+    }
+  };
+
+  /**
+   * Function to save the typed watched tags. Tags that do not exist are dropped by the server.
+   */
+  const saveWatchedTags = () =>
+    savePreferences({ watchedTags: tagInput.split(' ').filter(tag => tag.trim() !== '') });
+
+  return { preferences, tagInput, setTagInput, err, savePreferences, saveWatchedTags };
+};
+
+export default useEmailPreferences;
@@ -2,6 +2,7 @@ import { useSearchParams, useNavigate } from 'react-router-dom';
 import { useEffect, useState } from 'react';
 import { authenticateWithGoogle } from '../services/userAuthService';
 import useLoginContext from './useLoginContext';
+import { setAuthTokens } from '../services/config';
 
 /**
  * Custom hook to handle the Google OAuth callback.
@@ -21,6 +22,7 @@ const useGoogleOAuthCallback = () => {
         try {
           const res = await authenticateWithGoogle(code);
           if (res && res.token && res.user) {
+            setAuthTokens(res.token, res.refreshToken);
             setUser(res.user);
             navigate('/home');
           }
@@ -1,5 +1,6 @@
 import { useNavigate } from 'react-router-dom';
 import useLoginContext from './useLoginContext';
+import { setAuthTokens } from '../services/config';
 
 /**
  * Custom hook to handle logging in as a guest.
@@ -17,6 +18,7 @@ const useGuestLogin = () => {
    */
   const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
+    setAuthTokens(null, null);
     setUser({ username: 'Guest' });
     navigate('/home');
   };
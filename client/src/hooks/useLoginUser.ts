@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { AxiosError } from 'axios';
 import { loginUser } from '../services/userAuthService';
 import useLoginContext from './useLoginContext';
+import { setAuthTokens } from '../services/config';
 
 /**
  * Custom hook to handle new user submission and form validation
@@ -61,6 +62,7 @@ const useLoginUser = () => {
     try {
       const res = await loginUser(username, password);
       if (res && res.token && res.user) {
+        setAuthTokens(res.token, res.refreshToken);
         setUser(res.user);
         return true;
       }
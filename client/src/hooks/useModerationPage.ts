@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { AxiosError } from 'axios';
+import { getModerationLog, getModerationQueue, reviewFlags } from '../services/moderationService';
+import { FlaggedPost, FlagReviewAction, ModerationLogEntry } from '../types';
+
+/**
+ * Custom hook for managing the moderation page: the queue of flagged posts and the audit log of
+ * moderators' actions.
+ *
+ * @returns queue - The posts with pending flags, the most flagged first.
+ * @returns log - The most recent actions of moderators, newest first.
+ * @returns error - Why the queue could not be fetched or a review failed, e.g. when the user lacks
+ *          the moderation privilege.
+ * @returns handleReview - Function to approve the flags of a post, dismiss them or delete the post.
+ */
+const useModerationPage = () => {
+  const [queue, setQueue] = useState<FlaggedPost[]>([]);
+  const [log, setLog] = useState<ModerationLogEntry[]>([]);
+  const [error, setError] = useState<string>('');
+
+  /**
+   * Function to read the message the server sent back with a failed request.
+   *
+   * @param err - The error thrown by the request.
+   * @param fallback - The message to show if the server sent none.
+   */
+  const errorMessage = (err: unknown, fallback: string): string => {
+    const message = (err as AxiosError<string>).response?.data;
+    return typeof message === 'string' && message ? message : fallback;
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [posts, entries] = await Promise.all([getModerationQueue(), getModerationLog()]);
+        setQueue(posts);
+        setLog(entries);
+      } catch (err) {
+        setError(errorMessage(err, 'Error while fetching the moderation queue'));
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  /**
+   * Function to review the pending flags of a post. The post leaves the queue and the review is
+   * added to the top of the log.
+   *
+   * @param post - The flagged post.
+   * @param action - Whether to approve the flags, dismiss them or delete the post.
+   */
+  const handleReview = async (post: FlaggedPost, action: FlagReviewAction) => {
+    try {
+      setError('');
+      const entry = await reviewFlags(post.id, post.postType, action);
+      setQueue(prev => prev.filter(p => p.id !== post.id));
+      setLog(prev => [entry, ...prev]);
+    } catch (err) {
+      setError(errorMessage(err, 'Error while reviewing the flags'));
+    }
+  };
+
+  return { queue, log, error, handleReview };
+};
+
+export default useModerationPage;
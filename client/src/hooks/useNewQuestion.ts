@@ -1,19 +1,31 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { AxiosError } from 'axios';
 import { validateHyperlink } from '../tool';
-import { addQuestion } from '../services/questionService';
+import { addQuestion, getSimilarQuestions } from '../services/questionService';
 import useUserContext from './useUserContext';
-import { Question } from '../types';
+import useDraft from './useDraft';
+import { validateTagNames } from '../utils/tag.utils';
+import { Question, SimilarQuestion } from '../types';
+
+// How long to wait after the asker stops typing before looking for similar questions, in ms
+const SIMILAR_QUESTIONS_DELAY = 500;
+
+// The shortest title that is compared with existing questions
+const MIN_SIMILAR_TITLE_LENGTH = 10;
 
 /**
- * Custom hook to handle question submission and form validation
+ * Custom hook to handle question submission and form validation. The question text is kept as a
+ * draft until it is posted.
  *
  * @returns title - The current value of the title input.
  * @returns text - The current value of the text input.
- * @returns tagNames - The current value of the tags input.
+ * @returns tagNames - The names of the chosen tags.
  * @returns titleErr - Error message for the title field, if any.
  * @returns textErr - Error message for the text field, if any.
  * @returns tagErr - Error message for the tag field, if any.
+ * @returns postErr - Error message to display if the server refused the question.
+ * @returns similarQuestions - Existing questions similar to the one being asked, most similar first.
  * @returns postQuestion - Function to validate the form and submit a new question.
  */
 const useNewQuestion = () => {
@@ -21,12 +33,41 @@ const useNewQuestion = () => {
   const { user } = useUserContext();
   const [title, setTitle] = useState<string>('');
   const [text, setText] = useState<string>('');
-  const [tagNames, setTagNames] = useState<string>('');
+  const [tagNames, setTagNames] = useState<string[]>([]);
 
   const [titleErr, setTitleErr] = useState<string>('');
   const [textErr, setTextErr] = useState<string>('');
   const [tagErr, setTagErr] = useState<string>('');
+  const [postErr, setPostErr] = useState<string>('');
   const [posting, setPosting] = useState(false);
+  const [similarQuestions, setSimilarQuestions] = useState<SimilarQuestion[]>([]);
+  const { clearDraft } = useDraft(`draft:${user.username}:question`, text, setText);
+
+  useEffect(() => {
+    if (title.trim().length < MIN_SIMILAR_TITLE_LENGTH) {
+      setSimilarQuestions([]);
+      return undefined;
+    }
+
+    // Only the latest title, text and tags are compared, once the asker stops typing
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await getSimilarQuestions(title, text, tagNames.join(' '));
+        if (!cancelled) {
+          setSimilarQuestions(res);
+        }
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('Error fetching similar questions:', error);
+      }
+    }, SIMILAR_QUESTIONS_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [title, text, tagNames]);
 
   /**
    * Function to validate the form before submitting the question.
@@ -56,39 +97,25 @@ const useNewQuestion = () => {
       setTextErr('');
     }
 
-    const tagnames = tagNames.split(' ').filter(tagName => tagName.trim() !== '');
-    if (tagnames.length === 0) {
-      setTagErr('Should have at least 1 tag');
-      isValid = false;
-    } else if (tagnames.length > 5) {
-      setTagErr('Cannot have more than 5 tags');
+    const tagNamesErr = validateTagNames(tagNames);
+    setTagErr(tagNamesErr);
+    if (tagNamesErr) {
       isValid = false;
-    } else {
-      setTagErr('');
-    }
-
-    for (const tagName of tagnames) {
-      if (tagName.length > 20) {
-        setTagErr('New tag length cannot be more than 20');
-        isValid = false;
-        break;
-      }
     }
 
     return isValid;
   };
 
   /**
-   * Function to post a question to the server.
-   *
-   * @returns title - The current value of the title input.
+   * Function to post a question to the server. If the server refuses it, for instance because it
+   * creates tags the user lacks the reputation to create, the reason is shown.
    */
   const postQuestion = async () => {
-    setPosting(true);
+    setPostErr('');
     if (!validateForm()) return;
+    setPosting(true);
 
-    const tagnames = tagNames.split(' ').filter(tagName => tagName.trim() !== '');
-    const tags = tagnames.map(tagName => ({
+    const tags = tagNames.map(tagName => ({
       name: tagName,
       description: 'user added tag',
     }));
@@ -106,11 +133,17 @@ const useNewQuestion = () => {
       comments: [],
     };
 
-    const res = await addQuestion(question);
-    setPosting(false);
-
-    if (res && res._id) {
-      navigate('/home');
+    try {
+      const res = await addQuestion(question);
+      if (res && res._id) {
+        clearDraft();
+        navigate('/home');
+      }
+    } catch (e) {
+      const message = (e as AxiosError<string>).response?.data;
+      setPostErr(typeof message === 'string' && message ? message : 'Could not post the question');
+    } finally {
+      setPosting(false);
     }
   };
 
@@ -124,9 +157,11 @@ const useNewQuestion = () => {
     titleErr,
     textErr,
     tagErr,
+    postErr,
     postQuestion,
     posting,
     setPosting,
+    similarQuestions,
   };
 };
 
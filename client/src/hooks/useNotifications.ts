@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import useUserContext from './useUserContext';
+import { getAuthToken } from '../services/config';
+import { getNotifications, markNotificationsAsRead } from '../services/notificationService';
+import { Notification } from '../types';
+
+/**
+ * Custom hook for the notifications of the current user. The notifications are loaded once and
+ * new ones are received live over the socket connection.
+ *
+ * @returns notifications - The most recent notifications, most recent first.
+ * @returns unreadCount - The number of unread notifications.
+ * @returns openNotification - Function to mark a notification as read and navigate to its question.
+ * @returns markAllAsRead - Function to mark every notification as read.
+ */
+const useNotifications = () => {
+  const { socket } = useUserContext();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState<number>(0);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const res = await getNotifications();
+        setNotifications(res.notifications);
+        setUnreadCount(res.unreadCount);
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('Error fetching notifications:', error);
+      }
+    };
+
+    /**
+     * Function to identify the user to the server, so that their notifications are pushed to this
+     * connection. Repeated on reconnection, since the server forgets the connection's user.
+     */
+    const authenticate = () => {
+      const token = getAuthToken();
+      if (token) {
+        socket.emit('authenticate', token);
+      }
+    };
+
+    /**
+     * Function to add a notification received from the server.
+     *
+     * @param notification - The new notification.
+     */
+    const handleNotification = (notification: Notification) => {
+      setNotifications(prev => [notification, ...prev]);
+      setUnreadCount(prev => prev + 1);
+    };
+
+    fetchData();
+    authenticate();
+    socket.on('connect', authenticate);
+    socket.on('notification', handleNotification);
+
+    return () => {
+      socket.off('connect', authenticate);
+      socket.off('notification', handleNotification);
+    };
+  }, [socket]);
+
+  /**
+   * Function to mark a notification as read and navigate to the question it is about.
+   *
+   * @param notification - The notification that was opened.
+   */
+  const openNotification = async (notification: Notification) => {
+    if (!notification.read) {
+      setNotifications(prev =>
+        prev.map(n => (n._id === notification._id ? { ...n, read: true } : n)),
+      );
+      try {
+        setUnreadCount(await markNotificationsAsRead([notification._id]));
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('Error marking notification as read:', error);
+      }
+    }
+    navigate(`/question/${notification.question}`);
+  };
+
+  /**
+   * Function to mark every notification as read.
+   */
+  const markAllAsRead = async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    try {
+      setUnreadCount(await markNotificationsAsRead());
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  return { notifications, unreadCount, openNotification, markAllAsRead };
+};
+
+export default useNotifications;
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { AxiosError } from 'axios';
+import { demoteUser, getUserProfile, promoteUser } from '../services/userAuthService';
+import { UserProfile } from '../types';
+
+/**
+ * Custom hook for managing the profile page of the user named in the URL.
+ *
+ * @returns profile - The profile of the user, or null while it is loading.
+ * @returns err - Error message to display if the profile could not be loaded.
+ * @returns clickQuestion - Function to navigate to one of the user's questions or answers.
+ * @returns clickTag - Function to navigate to the home page filtered by one of the user's top tags.
+ * @returns roleErr - Error message to display if the user could not be promoted or demoted.
+ * @returns handleChangeRole - Function for admins to promote or demote the user.
+ */
+const useProfilePage = () => {
+  const { username } = useParams();
+  const navigate = useNavigate();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [err, setErr] = useState<string>('');
+  const [roleErr, setRoleErr] = useState<string>('');
+
+  /**
+   * Function to navigate to the page of a question.
+   *
+   * @param qid - The ID of the question to navigate to.
+   */
+  const clickQuestion = (qid: string) => {
+    navigate(`/question/${qid}`);
+  };
+
+  /**
+   * Function to navigate to the home page with the specified tag as a search parameter.
+   *
+   * @param tagName - The name of the tag to be added to the search parameters.
+   */
+  const clickTag = (tagName: string) => {
+    const searchParams = new URLSearchParams();
+    searchParams.set('tag', tagName);
+
+    navigate(`/home?${searchParams.toString()}`);
+  };
+
+  /**
+   * Function to promote the user to the next more trusted role, or demote them to the next less
+   * trusted one. If the change is refused, the reason is shown on the profile.
+   *
+   * @param change - Whether to promote or demote the user.
+   */
+  const handleChangeRole = async (change: 'promote' | 'demote') => {
+    if (!profile) {
+      return;
+    }
+
+    try {
+      setRoleErr('');
+      const { role } = await (change === 'promote' ? promoteUser : demoteUser)(profile.username);
+      setProfile({ ...profile, role });
+    } catch (e) {
+      const errorMessage = (e as AxiosError<string>).response?.data;
+      setRoleErr(typeof errorMessage === 'string' ? errorMessage : `Could not ${change} the user`);
+    }
+  };
+
+  useEffect(() => {
+    if (!username) {
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        setErr('');
+        setProfile(await getUserProfile(username));
+      } catch (e) {
+        setProfile(null);
+        setErr(`Could not load the profile of ${username}`);
+      }
+    };
+
+    fetchData();
+  }, [username]);
+
+  return { profile, err, clickQuestion, clickTag, roleErr, handleChangeRole };
+};
+
+export default useProfilePage;
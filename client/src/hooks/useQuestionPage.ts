@@ -1,14 +1,21 @@
 import { useSearchParams } from 'react-router-dom';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import useUserContext from './useUserContext';
-import { Answer, OrderType, Question } from '../types';
+import { Answer, ListedQuestion, OrderType, Question } from '../types';
 import { getQuestionsByFilter } from '../services/questionService';
 
 /**
  * Custom hook for managing the question page state, filtering, and real-time updates.
  *
+ * Questions are fetched a page at a time; the next page is loaded once the element attached to
+ * `loadMoreRef` scrolls into view.
+ *
  * @returns titleText - The current title of the question page
- * @returns qlist - The list of questions to display
+ * @returns qlist - The list of questions loaded so far
+ * @returns total - The number of questions matching the current filter
+ * @returns hasMore - Whether there are more questions to load
+ * @returns questionOrder - The order the questions are sorted in
+ * @returns loadMoreRef - Ref for the element that triggers loading the next page when visible
  * @returns setQuestionOrder - Function to set the sorting order of questions (e.g., newest, oldest).
  */
 const useQuestionPage = () => {
@@ -18,7 +25,14 @@ const useQuestionPage = () => {
   const [titleText, setTitleText] = useState<string>('All Questions');
   const [search, setSearch] = useState<string>('');
   const [questionOrder, setQuestionOrder] = useState<OrderType>('newest');
-  const [qlist, setQlist] = useState<Question[]>([]);
+  const [qlist, setQlist] = useState<ListedQuestion[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [loading, setLoading] = useState<boolean>(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // The question list as last rendered, for the socket handlers to tell which questions it holds
+  const qlistRef = useRef<ListedQuestion[]>([]);
+  qlistRef.current = qlist;
 
   useEffect(() => {
     let pageTitle = 'All Questions';
@@ -37,16 +51,24 @@ const useQuestionPage = () => {
 
     setTitleText(pageTitle);
     setSearch(searchString);
+    // Search results are ranked by relevance unless the user picks another order
+    setQuestionOrder(searchQuery ? 'relevance' : 'newest');
   }, [searchParams]);
 
   useEffect(() => {
+    let ignore = false;
+
     /**
-     * Function to fetch questions based on the filter and update the question list.
+     * Function to fetch the first page of questions based on the filter and replace the question list.
      */
     const fetchData = async () => {
       try {
         const res = await getQuestionsByFilter(questionOrder, search);
-        setQlist(res || []);
+        if (!ignore) {
+          setQlist(res.questions);
+          setTotal(res.total);
+          setNextCursor(res.nextCursor);
+        }
       } catch (error) {
         // eslint-disable-next-line no-console
         console.log(error);
@@ -54,32 +76,65 @@ const useQuestionPage = () => {
     };
 
     /**
-     * Function to handle question updates from the socket.
+     * Function to handle updates to existing questions from the socket. Questions that are not in
+     * the list are ignored, and deleted questions are removed from it.
      *
      * @param question - the updated question object.
      */
     const handleQuestionUpdate = (question: Question) => {
-      setQlist(prevQlist => {
-        const questionExists = prevQlist.some(q => q._id === question._id);
+      if (!qlistRef.current.some(q => q._id === question._id)) {
+        return;
+      }
 
-        if (questionExists) {
-          // Update the existing question
-          return prevQlist.map(q => (q._id === question._id ? question : q));
-        }
+      if (question.deletedAt) {
+        setQlist(prevQlist => prevQlist.filter(q => q._id !== question._id));
+        setTotal(prevTotal => prevTotal - 1);
+        return;
+      }
 
-        return [question, ...prevQlist];
-      });
+      // Update the existing question, keeping its search snippet
+      setQlist(prevQlist =>
+        prevQlist.map(q => (q._id === question._id ? { ...question, snippet: q.snippet } : q)),
+      );
     };
 
     /**
-     * Function to handle answer updates from the socket.
+     * Function to handle newly asked questions from the socket, adding them to the top of the list.
+     *
+     * @param question - the new question object.
+     */
+    const handleNewQuestion = (question: Question) => {
+      if (qlistRef.current.some(q => q._id === question._id)) {
+        return;
+      }
+
+      setQlist(prevQlist => [question, ...prevQlist]);
+      setTotal(prevTotal => prevTotal + 1);
+    };
+
+    /**
+     * Function to handle answer updates from the socket. New answers are appended, edited
+     * answers are replaced and deleted answers are removed.
      *
      * @param qid - The question ID.
      * @param answer - The answer object.
      */
     const handleAnswerUpdate = ({ qid, answer }: { qid: string; answer: Answer }) => {
       setQlist(prevQlist =>
-        prevQlist.map(q => (q._id === qid ? { ...q, answers: [...q.answers, answer] } : q)),
+        prevQlist.map(q => {
+          if (q._id !== qid) {
+            return q;
+          }
+
+          const others = q.answers.filter(a => a._id !== answer._id);
+          if (answer.deletedAt) {
+            return { ...q, answers: others };
+          }
+          if (others.length < q.answers.length) {
+            return { ...q, answers: q.answers.map(a => (a._id === answer._id ? answer : a)) };
+          }
+          return { ...q, answers: [...q.answers, answer] };
+        }),
       );
     };
 
@@ -89,23 +144,78 @@ const useQuestionPage = () => {
      * @param question - The updated question object.
      */
     const handleViewsUpdate = (question: Question) => {
-      setQlist(prevQlist => prevQlist.map(q => (q._id === question._id ? question : q)));
+      setQlist(prevQlist =>
+        prevQlist.map(q => (q._id === question._id ? { ...question, snippet: q.snippet } : q)),
+      );
     };
 
     fetchData();
 
     socket.on('questionUpdate', handleQuestionUpdate);
+    socket.on('newQuestion', handleNewQuestion);
     socket.on('answerUpdate', handleAnswerUpdate);
     socket.on('viewsUpdate', handleViewsUpdate);
 
     return () => {
+      ignore = true;
       socket.off('questionUpdate', handleQuestionUpdate);
+      socket.off('newQuestion', handleNewQuestion);
       socket.off('answerUpdate', handleAnswerUpdate);
       socket.off('viewsUpdate', handleViewsUpdate);
     };
   }, [questionOrder, search, socket]);
 
-  return { titleText, qlist, setQuestionOrder };
+  /**
+   * Function to fetch the page of questions after the ones loaded so far and append it to the
+   * question list. Questions already in the list, e.g. ones received from the socket, are skipped.
+   */
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loading) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await getQuestionsByFilter(questionOrder, search, nextCursor);
+      setQlist(prevQlist => [
+        ...prevQlist,
+        ...res.questions.filter(q => !prevQlist.some(p => p._id === q._id)),
+      ]);
+      setTotal(res.total);
+      setNextCursor(res.nextCursor);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.log(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [nextCursor, loading, questionOrder, search]);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) {
+      return undefined;
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMore();
+      }
+    });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
+
+  return {
+    titleText,
+    qlist,
+    total,
+    hasMore: nextCursor !== undefined,
+    loadMoreRef,
+    questionOrder,
+    setQuestionOrder,
+  };
 };
 
 export default useQuestionPage;
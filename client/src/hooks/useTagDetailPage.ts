@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { AxiosError } from 'axios';
+import {
+  addTagSynonym,
+  editTag,
+  getTagByName,
+  mergeTags,
+  removeTagSynonym,
+} from '../services/tagService';
+import { Tag } from '../types';
+
+/**
+ * Custom hook for managing the page of the tag named in the URL: its wiki, synonyms and history.
+ *
+ * @returns tag - The tag, or null while it is loading.
+ * @returns err - Error message to display if the tag could not be loaded.
+ * @returns actionErr - Error message to display if an edit, synonym change or merge failed.
+ * @returns editing - Whether the form to edit the description and wiki is shown.
+ * @returns description - The description in the edit form.
+ * @returns setDescription - Function to update the description in the edit form.
+ * @returns wiki - The wiki in the edit form.
+ * @returns setWiki - Function to update the wiki in the edit form.
+ * @returns startEditing - Function to show the edit form, filled with the current values.
+ * @returns cancelEditing - Function to hide the edit form without saving.
+ * @returns saveEdit - Function to save the description and wiki.
+ * @returns synonym - The synonym to add.
+ * @returns setSynonym - Function to update the synonym to add.
+ * @returns handleAddSynonym - Function for moderators to add the synonym.
+ * @returns handleRemoveSynonym - Function for moderators to remove a synonym.
+ * @returns mergeTarget - The name of the tag to merge this tag into.
+ * @returns setMergeTarget - Function to update the name of the tag to merge into.
+ * @returns handleMerge - Function for moderators to merge this tag into another.
+ * @returns clickQuestions - Function to navigate to the home page filtered by the tag.
+ */
+const useTagDetailPage = () => {
+  const { tagName } = useParams();
+  const navigate = useNavigate();
+  const [tag, setTag] = useState<Tag | null>(null);
+  const [err, setErr] = useState<string>('');
+  const [actionErr, setActionErr] = useState<string>('');
+  const [editing, setEditing] = useState<boolean>(false);
+  const [description, setDescription] = useState<string>('');
+  const [wiki, setWiki] = useState<string>('');
+  const [synonym, setSynonym] = useState<string>('');
+  const [mergeTarget, setMergeTarget] = useState<string>('');
+
+  /**
+   * Function to run a change to the tag, showing the updated tag, or the reason the server gave
+   * for refusing the change.
+   *
+   * @param change - The request that changes the tag.
+   * @param fallback - The message to show if the server gave no reason.
+   * @returns Whether the change succeeded.
+   */
+  const applyChange = async (change: () => Promise<Tag>, fallback: string): Promise<boolean> => {
+    try {
+      setActionErr('');
+      setTag(await change());
+      return true;
+    } catch (e) {
+      const message = (e as AxiosError<string>).response?.data;
+      setActionErr(typeof message === 'string' && message ? message : fallback);
+      return false;
+    }
+  };
+
+  /**
+   * Function to show the edit form, filled with the current description and wiki.
+   */
+  const startEditing = () => {
+    if (!tag) {
+      return;
+    }
+    setDescription(tag.description);
+    setWiki(tag.wiki ?? '');
+    setEditing(true);
+  };
+
+  /**
+   * Function to hide the edit form without saving.
+   */
+  const cancelEditing = () => {
+    setActionErr('');
+    setEditing(false);
+  };
+
+  /**
+   * Function to save the description and wiki, hiding the edit form once they are saved.
+   */
+  const saveEdit = async () => {
+    if (!tag) {
+      return;
+    }
+    if (description.trim() === '') {
+      setActionErr('Description cannot be empty');
+      return;
+    }
+    if (
+      await applyChange(() => editTag(tag.name, { description, wiki }), 'Could not save the tag')
+    ) {
+      setEditing(false);
+    }
+  };
+
+  /**
+   * Function to add the synonym typed by a moderator.
+   */
+  const handleAddSynonym = async () => {
+    const name = synonym.trim();
+    if (!tag || name === '') {
+      return;
+    }
+    if (await applyChange(() => addTagSynonym(tag.name, name), 'Could not add the synonym')) {
+      setSynonym('');
+    }
+  };
+
+  /**
+   * Function to remove a synonym of the tag.
+   *
+   * @param name - The synonym to remove.
+   */
+  const handleRemoveSynonym = async (name: string) => {
+    if (!tag) {
+      return;
+    }
+    await applyChange(() => removeTagSynonym(tag.name, name), 'Could not remove the synonym');
+  };
+
+  /**
+   * Function to merge the tag into the one typed by a moderator, and show the tag merged into.
+   */
+  const handleMerge = async () => {
+    const target = mergeTarget.trim();
+    if (!tag || target === '') {
+      return;
+    }
+    if (await applyChange(() => mergeTags(tag.name, target), 'Could not merge the tags')) {
+      setMergeTarget('');
+      navigate(`/tags/${encodeURIComponent(target)}`, { replace: true });
+    }
+  };
+
+  /**
+   * Function to navigate to the home page with the tag as a search parameter.
+   */
+  const clickQuestions = () => {
+    if (!tag) {
+      return;
+    }
+    const searchParams = new URLSearchParams();
+    searchParams.set('tag', tag.name);
+
+    navigate(`/home?${searchParams.toString()}`);
+  };
+
+  useEffect(() => {
+    if (!tagName) {
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        setErr('');
+        setEditing(false);
+        setTag(await getTagByName(tagName));
+      } catch (e) {
+        setTag(null);
+        setErr(`Could not load the tag ${tagName}`);
+      }
+    };
+
+    fetchData();
+  }, [tagName]);
+
+  return {
+    tag,
+    err,
+    actionErr,
+    editing,
+    description,
+    setDescription,
+    wiki,
+    setWiki,
+    startEditing,
+    cancelEditing,
+    saveEdit,
+    synonym,
+    setSynonym,
+    handleAddSynonym,
+    handleRemoveSynonym,
+    mergeTarget,
+    setMergeTarget,
+    handleMerge,
+    clickQuestions,
+  };
+};
+
+export default useTagDetailPage;
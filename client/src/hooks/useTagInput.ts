@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { getTagSuggestions } from '../services/tagService';
+import normalizeTagName, { QUESTION_TAGS_MAX } from '../utils/tag.utils';
+import { TagSuggestion } from '../types';
+
+// How long to wait after the user stops typing before suggesting tags, in ms
+const SUGGESTIONS_DELAY = 250;
+
+/**
+ * Custom hook for typing the tags of a question as chips, with the existing tags suggested as the
+ * user types. Typed names are normalized before they become chips.
+ *
+ * @param tagNames - The names of the tags chosen so far.
+ * @param setTagNames - Function to update the names of the chosen tags.
+ *
+ * @returns input - The name being typed.
+ * @returns handleChange - Function to update the name being typed, adding the names before any
+ *          space or comma as chips.
+ * @returns suggestions - The existing tags matching the name being typed, most used first.
+ * @returns highlighted - The index of the suggestion chosen with the arrow keys, or -1.
+ * @returns full - Whether the question already has as many tags as it may.
+ * @returns addTag - Function to add a tag as a chip.
+ * @returns removeTag - Function to remove a chip.
+ * @returns handleKeyDown - Function to add, remove and choose tags with the keyboard.
+ * @returns handleFocus - Function to start suggesting tags.
+ * @returns handleBlur - Function to stop suggesting tags, keeping the name being typed as a chip.
+ */
+const useTagInput = (tagNames: string[], setTagNames: (tagNames: string[]) => void) => {
+  const [input, setInput] = useState<string>('');
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+  const [highlighted, setHighlighted] = useState<number>(-1);
+  const [focused, setFocused] = useState<boolean>(false);
+  const full = tagNames.length >= QUESTION_TAGS_MAX;
+
+  useEffect(() => {
+    if (!focused || full) {
+      setSuggestions([]);
+      return undefined;
+    }
+
+    // Only the latest name is looked up, once the user stops typing
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await getTagSuggestions(normalizeTagName(input));
+        if (!cancelled) {
+          setSuggestions(res.filter(suggestion => !tagNames.includes(suggestion.name)));
+          setHighlighted(-1);
+        }
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('Error fetching tag suggestions:', error);
+      }
+    }, SUGGESTIONS_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [input, focused, full, tagNames]);
+
+  /**
+   * Function to add tags as chips, once their names are normalized. Names already chosen, or with
+   * nothing left once normalized, are dropped, and so are those past the most tags allowed.
+   *
+   * @param names - The names of the tags.
+   */
+  const addTags = (names: string[]) => {
+    const added = names
+      .map(normalizeTagName)
+      .filter((name, index, all) => name !== '' && all.indexOf(name) === index)
+      .filter(name => !tagNames.includes(name));
+    if (added.length > 0) {
+      setTagNames([...tagNames, ...added].slice(0, QUESTION_TAGS_MAX));
+    }
+  };
+
+  /**
+   * Function to add a tag as a chip and clear the input.
+   *
+   * @param name - The name of the tag.
+   */
+  const addTag = (name: string) => {
+    setInput('');
+    addTags([name]);
+  };
+
+  /**
+   * Function to update the name being typed. Spaces and commas separate tags, so the names before
+   * them, typed or pasted, become chips.
+   *
+   * @param value - The text in the input.
+   */
+  const handleChange = (value: string) => {
+    const names = value.split(/[\s,]+/);
+    const last = names.pop() ?? '';
+    addTags(names);
+    setInput(last);
+  };
+
+  /**
+   * Function to remove a chip.
+   *
+   * @param name - The name of the tag to remove.
+   */
+  const removeTag = (name: string) => {
+    setTagNames(tagNames.filter(tagName => tagName !== name));
+  };
+
+  /**
+   * Function to handle the keys of the tag input:
+   * - Enter, comma and Tab add the highlighted suggestion, or the name being typed. Spaces are
+   *   handled as the input changes.
+   * - The up and down arrows move through the suggestions, and Escape hides them.
+   * - Backspace in an empty input removes the last chip.
+   *
+   * @param e - The keyboard event.
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(highlighted <= 0 ? suggestions.length - 1 : highlighted - 1);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    } else if (
+      e.key === 'Enter' ||
+      e.key === ',' ||
+      (e.key === 'Tab' && (input.trim() !== '' || highlighted >= 0))
+    ) {
+      e.preventDefault();
+      addTag(highlighted >= 0 ? suggestions[highlighted].name : input);
+    } else if (e.key === 'Backspace' && input === '' && tagNames.length > 0) {
+      removeTag(tagNames[tagNames.length - 1]);
+    }
+  };
+
+  /**
+   * Function to start suggesting tags when the input is focused.
+   */
+  const handleFocus = () => {
+    setFocused(true);
+  };
+
+  /**
+   * Function to stop suggesting tags when the input loses focus. The name being typed becomes a
+   * chip, so it is not lost when the form is submitted.
+   */
+  const handleBlur = () => {
+    setFocused(false);
+    if (input.trim() !== '') {
+      addTag(input);
+    }
+  };
+
+  return {
+    input,
+    handleChange,
+    suggestions,
+    highlighted,
+    full,
+    addTag,
+    removeTag,
+    handleKeyDown,
+    handleFocus,
+    handleBlur,
+  };
+};
+
+export default useTagInput;
@@ -20,4 +20,65 @@ const addAnswer = async (qid: string, ans: Answer): Promise<Answer> => {
   return res.data;
 };
 
-export default addAnswer;
+/**
+ * Edits the text of an answer.
+ *
+ * @param qid - The ID of the question the answer belongs to.
+ * @param aid - The ID of the answer being edited.
+ * @param text - The new text of the answer.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const editAnswer = async (qid: string, aid: string, text: string): Promise<Answer> => {
+  const res = await api.post(`${ANSWER_API_URL}/editAnswer`, { qid, aid, text });
+  if (res.status !== 200) {
+    throw new Error('Error while editing the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Deletes an answer from a question.
+ *
+ * @param qid - The ID of the question the answer belongs to.
+ * @param aid - The ID of the answer being deleted.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const deleteAnswer = async (qid: string, aid: string): Promise<Answer> => {
+  const res = await api.post(`${ANSWER_API_URL}/deleteAnswer`, { qid, aid });
+  if (res.status !== 200) {
+    throw new Error('Error while deleting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Upvotes an answer, or cancels the upvote if the user has already upvoted it.
+ *
+ * @param aid - The ID of the answer to upvote.
+ * @param username - The username of the person upvoting the answer.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const upvoteAnswer = async (aid: string, username: string) => {
+  const res = await api.post(`${ANSWER_API_URL}/upvoteAnswer`, { aid, username });
+  if (res.status !== 200) {
+    throw new Error('Error while upvoting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Downvotes an answer, or cancels the downvote if the user has already downvoted it.
+ *
+ * @param aid - The ID of the answer to downvote.
+ * @param username - The username of the person downvoting the answer.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const downvoteAnswer = async (aid: string, username: string) => {
+  const res = await api.post(`${ANSWER_API_URL}/downvoteAnswer`, { aid, username });
+  if (res.status !== 200) {
+    throw new Error('Error while downvoting the answer');
+  }
+  return res.data;
+};
+
+export { addAnswer, editAnswer, deleteAnswer, upvoteAnswer, downvoteAnswer };
@@ -0,0 +1,41 @@
+import api from './config';
+import { Attachment } from '../types';
+
+const ATTACHMENT_API_URL = `${process.env.REACT_APP_SERVER_URL}/attachment`;
+
+/**
+ * Uploads a file to embed in a question or answer. The file stays unattached until a post
+ * embedding it is saved.
+ *
+ * @param file - The file to upload: an image, a PDF document or a text file.
+ * @returns The uploaded attachment.
+ * @throws Error Throws an error if the request fails or the response status is not 200, e.g. when
+ *         the file is too large or of another type.
+ */
+const uploadAttachment = async (file: File): Promise<Attachment> => {
+  const data = new FormData();
+  data.append('file', file);
+  const res = await api.post(`${ATTACHMENT_API_URL}/upload`, data);
+  if (res.status !== 200) {
+    throw new Error('Error while uploading the file');
+  }
+  return res.data;
+};
+
+/**
+ * Resolves the `attachment://<id>` URL posts embed an attachment with to the URL the server
+ * serves it at.
+ *
+ * @param url - The URL from the text of a post.
+ * @param thumbnail - Whether to get the URL of the thumbnail rather than of the full file.
+ * @returns The URL on the server, or undefined if the URL is not the URL of an attachment.
+ */
+const resolveAttachmentUrl = (url: string, thumbnail = false): string | undefined => {
+  const match = /^attachment:\/\/([0-9a-f]{24})$/.exec(url);
+  if (!match) {
+    return undefined;
+  }
+  return `${ATTACHMENT_API_URL}/${match[1]}${thumbnail ? '/thumbnail' : ''}`;
+};
+
+export { uploadAttachment, resolveAttachmentUrl };
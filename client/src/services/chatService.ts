@@ -0,0 +1,50 @@
+import { Conversation } from '../types';
+import api from './config';
+
+const CHAT_API_URL = `${process.env.REACT_APP_SERVER_URL}/chat`;
+
+/**
+ * Function to get the most recently active conversations of the user with the chatbot, without
+ * their messages.
+ *
+ * @throws Error if there is an issue fetching the conversations.
+ */
+const getConversations = async (): Promise<Conversation[]> => {
+  const res = await api.get(`${CHAT_API_URL}/getConversations`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching conversations');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get a conversation of the user with the chatbot, with its messages.
+ *
+ * @param cid - The ID of the conversation.
+ * @throws Error if there is an issue fetching the conversation.
+ */
+const getConversation = async (cid: string): Promise<Conversation> => {
+  const res = await api.get(`${CHAT_API_URL}/getConversation/${cid}`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching conversation');
+  }
+  return res.data;
+};
+
+/**
+ * Function to send a message to the chatbot. The reply is streamed with `chatChunk` socket events
+ * while it is being generated, and the request resolves with the conversation once it is done.
+ *
+ * @param text - The text of the message.
+ * @param cid - The conversation to continue, or undefined to start a new one.
+ * @throws Error if there is an issue sending the message or generating the reply.
+ */
+const sendChatMessage = async (text: string, cid?: string): Promise<Conversation> => {
+  const res = await api.post(`${CHAT_API_URL}/sendMessage`, { text, cid });
+  if (res.status !== 200) {
+    throw new Error('Error while accessing chatbot');
+  }
+  return res.data;
+};
+
+export { getConversations, getConversation, sendChatMessage };
@@ -40,4 +40,76 @@ const addComment = async (
   return res.data;
 };
 
-export default addComment;
+/**
+ * Edits the text of a comment on a question or an answer.
+ *
+ * @param id - The ID of the question or answer the comment belongs to.
+ * @param type - The type of the comment, either 'question' or 'answer'.
+ * @param cid - The ID of the comment being edited.
+ * @param text - The new text of the comment.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const editComment = async (
+  id: string,
+  type: 'question' | 'answer',
+  cid: string,
+  text: string,
+): Promise<Comment> => {
+  const res = await api.post(`${COMMENT_API_URL}/editComment`, { id, type, cid, text });
+  if (res.status !== 200) {
+    throw new Error('Error while editing the comment');
+  }
+  return res.data;
+};
+
+/**
+ * Deletes a comment from a question or an answer.
+ *
+ * @param id - The ID of the question or answer the comment belongs to.
+ * @param type - The type of the comment, either 'question' or 'answer'.
+ * @param cid - The ID of the comment being deleted.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const deleteComment = async (
+  id: string,
+  type: 'question' | 'answer',
+  cid: string,
+): Promise<Comment> => {
+  const res = await api.post(`${COMMENT_API_URL}/deleteComment`, { id, type, cid });
+  if (res.status !== 200) {
+    throw new Error('Error while deleting the comment');
+  }
+  return res.data;
+};
+
+/**
+ * Upvotes a comment, or cancels the upvote if the user has already upvoted it.
+ *
+ * @param cid - The ID of the comment to upvote.
+ * @param username - The username of the person upvoting the comment.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const upvoteComment = async (cid: string, username: string) => {
+  const res = await api.post(`${COMMENT_API_URL}/upvoteComment`, { cid, username });
+  if (res.status !== 200) {
+    throw new Error('Error while upvoting the comment');
+  }
+  return res.data;
+};
+
+/**
+ * Downvotes a comment, or cancels the downvote if the user has already downvoted it.
+ *
+ * @param cid - The ID of the comment to downvote.
+ * @param username - The username of the person downvoting the comment.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const downvoteComment = async (cid: string, username: string) => {
+  const res = await api.post(`${COMMENT_API_URL}/downvoteComment`, { cid, username });
+  if (res.status !== 200) {
+    throw new Error('Error while downvoting the comment');
+  }
+  return res.data;
+};
+
+export { addComment, editComment, deleteComment, upvoteComment, downvoteComment };
@@ -16,11 +16,87 @@ const handleErr = (err: AxiosError) => {
 
 const api = axios.create({ withCredentials: true });
 
+let authToken: string | null = null;
+let refreshToken: string | null = null;
+let pendingRefresh: Promise<boolean> | null = null;
+
+/**
+ * Function to set the tokens of the current session. The access token is attached to every
+ * request and the refresh token is used to renew it once it expires.
+ *
+ * @param token - The JWT returned on login, or null to stop sending one.
+ * @param refresh - The refresh token returned on login, or null to stop renewing the session.
+ */
+export const setAuthTokens = (token: string | null, refresh: string | null) => {
+  authToken = token;
+  refreshToken = refresh;
+};
+
+/**
+ * Function to get the access token of the current session, if any.
+ */
+export const getAuthToken = () => authToken;
+
+/**
+ * Function to get the refresh token of the current session, if any.
+ */
+export const getRefreshToken = () => refreshToken;
+
+/**
+ * Function to attach the bearer token to a request, if one is set.
+ */
+const handleReq = (config: InternalAxiosRequestConfig) => {
+  if (authToken) {
+    config.headers.set('Authorization', `Bearer ${authToken}`);
+  }
+  return config;
+};
+
+/**
+ * Function to exchange the refresh token for a new pair of tokens. Concurrent callers share a
+ * single request, since each refresh token can only be used once.
+ *
+ * @returns true if the session was renewed, false if the user has to log in again.
+ */
+const refreshSession = (): Promise<boolean> => {
+  if (!pendingRefresh) {
+    pendingRefresh = axios
+      .post(`${process.env.REACT_APP_SERVER_URL}/user/refresh`, { refreshToken })
+      .then(res => {
+        setAuthTokens(res.data.token, res.data.refreshToken);
+        return true;
+      })
+      .catch(() => {
+        setAuthTokens(null, null);
+        return false;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+};
+
+/**
+ * Function to handle errors of a response. A request rejected because the access token expired
+ * is retried once after renewing the session.
+ */
+const handleResErr = async (err: AxiosError) => {
+  const config = err.config as (InternalAxiosRequestConfig & { isRetry?: boolean }) | undefined;
+  if (err.response?.status === 401 && refreshToken && config && !config.isRetry) {
+    config.isRetry = true;
+    if (await refreshSession()) {
+      return api(config);
+    }
+  }
+  return handleErr(err);
+};
+
 /**
  * Add a request interceptor to the Axios instance.
  */
 api.interceptors.request.use(
-  (config: InternalAxiosRequestConfig) => config,
+  (config: InternalAxiosRequestConfig) => handleReq(config),
   (error: AxiosError) => handleErr(error),
 );
 
@@ -29,7 +105,7 @@ api.interceptors.request.use(
  */
 api.interceptors.response.use(
   (response: AxiosResponse) => handleRes(response),
-  (error: AxiosError) => handleErr(error),
+  (error: AxiosError) => handleResErr(error),
 );
 
 export default api;
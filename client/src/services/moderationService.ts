@@ -0,0 +1,86 @@
+import api from './config';
+import {
+  FlaggedPost,
+  FlagReason,
+  FlagReviewAction,
+  ModerationLogEntry,
+  VoteTargetType,
+} from '../types';
+
+const MODERATION_API_URL = `${process.env.REACT_APP_SERVER_URL}/moderation`;
+
+/**
+ * Flags a question, answer or comment for the moderators to review.
+ *
+ * @param id - The ID of the post.
+ * @param type - The type of the post, either 'question', 'answer' or 'comment'.
+ * @param reason - Why the post is flagged.
+ * @param details - What the user adds to explain the flag, required when the reason is 'other'.
+ * @returns Whether the post was hidden because of the flag.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const flagPost = async (
+  id: string,
+  type: VoteTargetType,
+  reason: FlagReason,
+  details?: string,
+): Promise<{ hidden: boolean }> => {
+  const res = await api.post(`${MODERATION_API_URL}/flag`, { id, type, reason, details });
+  if (res.status !== 200) {
+    throw new Error('Error while flagging the post');
+  }
+  return res.data;
+};
+
+/**
+ * Fetches the moderation queue: the posts with pending flags, the most flagged first. Only
+ * available to users with the moderation privilege.
+ *
+ * @param limit - The most posts to fetch.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const getModerationQueue = async (limit?: number): Promise<FlaggedPost[]> => {
+  const res = await api.get(`${MODERATION_API_URL}/getQueue`, { params: { limit } });
+  if (res.status !== 200) {
+    throw new Error('Error while fetching the moderation queue');
+  }
+  return res.data;
+};
+
+/**
+ * Reviews the pending flags of a post. Only available to users with the moderation privilege.
+ *
+ * @param id - The ID of the post.
+ * @param type - The type of the post, either 'question', 'answer' or 'comment'.
+ * @param action - Whether to approve the flags, dismiss them or delete the post.
+ * @returns The entry recorded in the audit log.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const reviewFlags = async (
+  id: string,
+  type: VoteTargetType,
+  action: FlagReviewAction,
+): Promise<ModerationLogEntry> => {
+  const res = await api.post(`${MODERATION_API_URL}/review`, { id, type, action });
+  if (res.status !== 200) {
+    throw new Error('Error while reviewing the flags');
+  }
+  return res.data;
+};
+
+/**
+ * Fetches the most recent entries of the audit log of moderators' actions. Only available to
+ * users with the moderation privilege.
+ *
+ * @param limit - The most entries to fetch.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+const getModerationLog = async (limit?: number): Promise<ModerationLogEntry[]> => {
+  const res = await api.get(`${MODERATION_API_URL}/getLog`, { params: { limit } });
+  if (res.status !== 200) {
+    throw new Error('Error while fetching the moderation log');
+  }
+  return res.data;
+};
+
+export { flagPost, getModerationQueue, reviewFlags, getModerationLog };
@@ -0,0 +1,34 @@
+import { NotificationList } from '../types';
+import api from './config';
+
+const NOTIFICATION_API_URL = `${process.env.REACT_APP_SERVER_URL}/notification`;
+
+/**
+ * Function to get the most recent notifications of the current user.
+ *
+ * @throws Error if there is an issue fetching the notifications.
+ */
+const getNotifications = async (): Promise<NotificationList> => {
+  const res = await api.get(`${NOTIFICATION_API_URL}/getNotifications`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching notifications');
+  }
+  return res.data;
+};
+
+/**
+ * Function to mark notifications of the current user as read.
+ *
+ * @param nids - The IDs of the notifications to mark, or undefined to mark all of them.
+ * @returns The number of notifications left unread.
+ * @throws Error if there is an issue marking the notifications.
+ */
+const markNotificationsAsRead = async (nids?: string[]): Promise<number> => {
+  const res = await api.post(`${NOTIFICATION_API_URL}/markAsRead`, { nids });
+  if (res.status !== 200) {
+    throw new Error('Error when marking notifications as read');
+  }
+  return res.data.unreadCount;
+};
+
+export { getNotifications, markNotificationsAsRead };
@@ -1,20 +1,33 @@
-import { Question } from '../types';
+import {
+  AIAnswerFeedbackUpdatePayload,
+  AIAnswerRating,
+  AIAnswerReportEntry,
+  CloseReason,
+  Question,
+  QuestionPage,
+  SimilarQuestion,
+  Tag,
+} from '../types';
 import api from './config';
 
 const QUESTION_API_URL = `${process.env.REACT_APP_SERVER_URL}/question`;
 
 /**
- * Function to get questions by filter.
+ * Function to get a page of questions by filter.
  *
  * @param order - The order in which to fetch questions. Default is 'newest'.
  * @param search - The search term to filter questions. Default is an empty string.
+ * @param cursor - The cursor returned with the previous page, to fetch the page after it.
  * @throws Error if there is an issue fetching or filtering questions.
  */
 const getQuestionsByFilter = async (
   order: string = 'newest',
   search: string = '',
-): Promise<Question[]> => {
-  const res = await api.get(`${QUESTION_API_URL}/getQuestion?order=${order}&search=${search}`);
+  cursor?: string,
+): Promise<QuestionPage> => {
+  const res = await api.get(`${QUESTION_API_URL}/getQuestion`, {
+    params: { order, search, cursor },
+  });
   if (res.status !== 200) {
     throw new Error('Error when fetching or filtering questions');
   }
@@ -84,4 +97,230 @@ const downvoteQuestion = async (qid: string, username: string) => {
   return res.data;
 };
 
-export { getQuestionsByFilter, getQuestionById, addQuestion, upvoteQuestion, downvoteQuestion };
+/**
+ * Function to edit a question. Only the fields that are provided are changed.
+ *
+ * @param qid - The ID of the question to edit.
+ * @param edits - The new title, text and/or tags of the question.
+ * @throws Error if there is an issue editing the question.
+ */
+const editQuestion = async (
+  qid: string,
+  edits: { title?: string; text?: string; tags?: Tag[] },
+): Promise<Question> => {
+  const res = await api.post(`${QUESTION_API_URL}/editQuestion`, { qid, ...edits });
+  if (res.status !== 200) {
+    throw new Error('Error while editing the question');
+  }
+  return res.data;
+};
+
+/**
+ * Function to delete a question.
+ *
+ * @param qid - The ID of the question to delete.
+ * @throws Error if there is an issue deleting the question.
+ */
+const deleteQuestion = async (qid: string): Promise<Question> => {
+  const res = await api.post(`${QUESTION_API_URL}/deleteQuestion`, { qid });
+  if (res.status !== 200) {
+    throw new Error('Error while deleting the question');
+  }
+  return res.data;
+};
+
+/**
+ * Function to mark an answer as the one that solved a question.
+ *
+ * @param qid - The ID of the question.
+ * @param aid - The ID of the answer to accept.
+ * @throws Error if there is an issue accepting the answer.
+ */
+const acceptAnswer = async (qid: string, aid: string): Promise<Question> => {
+  const res = await api.post(`${QUESTION_API_URL}/acceptAnswer`, { qid, aid });
+  if (res.status !== 200) {
+    throw new Error('Error while accepting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Function to clear the accepted answer of a question.
+ *
+ * @param qid - The ID of the question.
+ * @throws Error if there is an issue unaccepting the answer.
+ */
+const unacceptAnswer = async (qid: string): Promise<Question> => {
+  const res = await api.post(`${QUESTION_API_URL}/unacceptAnswer`, { qid });
+  if (res.status !== 200) {
+    throw new Error('Error while unaccepting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Function to rate the AI generated answer of a question. Rating it the same way again clears the
+ * rating.
+ *
+ * @param qid - The ID of the question.
+ * @param rating - Whether the answer was helpful.
+ * @throws Error if there is an issue rating the answer.
+ */
+const rateAIAnswer = async (
+  qid: string,
+  rating: AIAnswerRating,
+): Promise<AIAnswerFeedbackUpdatePayload> => {
+  const res = await api.post(`${QUESTION_API_URL}/rateAIAnswer`, { qid, rating });
+  if (res.status !== 200) {
+    throw new Error('Error while rating the AI answer');
+  }
+  return res.data;
+};
+
+/**
+ * Function to flag the AI generated answer of a question as incorrect.
+ *
+ * @param qid - The ID of the question.
+ * @param reason - Why the answer is incorrect, if given.
+ * @throws Error if there is an issue flagging the answer.
+ */
+const flagAIAnswer = async (
+  qid: string,
+  reason?: string,
+): Promise<AIAnswerFeedbackUpdatePayload> => {
+  const res = await api.post(`${QUESTION_API_URL}/flagAIAnswer`, { qid, reason });
+  if (res.status !== 200) {
+    throw new Error('Error while flagging the AI answer');
+  }
+  return res.data;
+};
+
+/**
+ * Function to hide or show the AI generated answer of the user's own question.
+ *
+ * @param qid - The ID of the question.
+ * @param hidden - Whether to hide the answer.
+ * @throws Error if there is an issue hiding the answer.
+ */
+const hideAIAnswer = async (
+  qid: string,
+  hidden: boolean,
+): Promise<AIAnswerFeedbackUpdatePayload> => {
+  const res = await api.post(`${QUESTION_API_URL}/hideAIAnswer`, { qid, hidden });
+  if (res.status !== 200) {
+    throw new Error('Error while hiding the AI answer');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the report of the worst-rated AI generated answers. Only available to users
+ * with the moderation privilege.
+ *
+ * @param limit - The most answers to include, if not the default.
+ * @throws Error if there is an issue fetching the report.
+ */
+const getAIAnswerReport = async (limit?: number): Promise<AIAnswerReportEntry[]> => {
+  const res = await api.get(`${QUESTION_API_URL}/aiAnswerReport`, { params: { limit } });
+  if (res.status !== 200) {
+    throw new Error('Error while fetching the AI answer report');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the existing questions most similar to a question being asked, which may be
+ * duplicates of it.
+ *
+ * @param title - The title of the question being asked.
+ * @param text - The text of the question being asked.
+ * @param tagNames - The names of the tags of the question being asked, separated by whitespace.
+ * @throws Error if there is an issue fetching the similar questions.
+ */
+const getSimilarQuestions = async (
+  title: string,
+  text: string,
+  tagNames: string,
+): Promise<SimilarQuestion[]> => {
+  // Only the start of the text is compared, which keeps the URL short
+  const res = await api.get(`${QUESTION_API_URL}/similar`, {
+    params: { title, text: text.slice(0, 1000), tags: tagNames },
+  });
+  if (res.status !== 200) {
+    throw new Error('Error while fetching similar questions');
+  }
+  return res.data;
+};
+
+/**
+ * Function to vote to close a question. The question is closed once enough users voted; the vote
+ * of a moderator closes it at once. Only available to users with the privilege to vote to close.
+ *
+ * @param qid - The ID of the question to close.
+ * @param reason - Why the question should be closed.
+ * @param duplicateOf - The ID of the question it duplicates, when the reason is `duplicate`.
+ * @throws Error if there is an issue voting to close the question.
+ */
+const voteToClose = async (
+  qid: string,
+  reason: CloseReason,
+  duplicateOf?: string,
+): Promise<Question> => {
+  const res = await api.post(`${QUESTION_API_URL}/voteToClose`, { qid, reason, duplicateOf });
+  if (res.status !== 200) {
+    throw new Error('Error while voting to close the question');
+  }
+  return res.data;
+};
+
+/**
+ * Function to vote to reopen a closed question. The question is reopened once enough users voted;
+ * the vote of a moderator reopens it at once.
+ *
+ * @param qid - The ID of the question to reopen.
+ * @throws Error if there is an issue voting to reopen the question.
+ */
+const voteToReopen = async (qid: string): Promise<Question> => {
+  const res = await api.post(`${QUESTION_API_URL}/voteToReopen`, { qid });
+  if (res.status !== 200) {
+    throw new Error('Error while voting to reopen the question');
+  }
+  return res.data;
+};
+
+/**
+ * Function to lock a question against new answers and comments, or unlock it. Only available to
+ * users with the moderation privilege.
+ *
+ * @param qid - The ID of the question.
+ * @param locked - Whether to lock the question.
+ * @param reason - Why the question is locked.
+ * @throws Error if there is an issue locking the question.
+ */
+const lockQuestion = async (qid: string, locked: boolean, reason?: string): Promise<Question> => {
+  const res = await api.post(`${QUESTION_API_URL}/lockQuestion`, { qid, locked, reason });
+  if (res.status !== 200) {
+    throw new Error('Error while locking the question');
+  }
+  return res.data;
+};
+
+export {
+  getQuestionsByFilter,
+  getQuestionById,
+  addQuestion,
+  upvoteQuestion,
+  downvoteQuestion,
+  editQuestion,
+  deleteQuestion,
+  acceptAnswer,
+  unacceptAnswer,
+  rateAIAnswer,
+  flagAIAnswer,
+  hideAIAnswer,
+  getAIAnswerReport,
+  getSimilarQuestions,
+  voteToClose,
+  voteToReopen,
+  lockQuestion,
+};
@@ -1,4 +1,4 @@
-import { Tag, TagData } from '../types';
+import { Tag, TagData, TagSuggestion } from '../types';
 import api from './config';
 
 const TAG_API_URL = `${process.env.REACT_APP_SERVER_URL}/tag`;
@@ -17,17 +17,105 @@ const getTagsWithQuestionNumber = async (): Promise<TagData[]> => {
 };
 
 /**
- * Function to get a tag by its name.
+ * Function to get a tag by its name. A synonym gets the tag it stands for.
  *
  * @param name - The name of the tag to retrieve.
  * @throws Error if there is an issue fetching the tag by name.
  */
 const getTagByName = async (name: string): Promise<Tag> => {
-  const res = await api.get(`${TAG_API_URL}/getTagByName/${name}`);
+  const res = await api.get(`${TAG_API_URL}/getTagByName/${encodeURIComponent(name)}`);
   if (res.status !== 200) {
     throw new Error(`Error when fetching tag: ${name}`);
   }
   return res.data;
 };
 
-export { getTagsWithQuestionNumber, getTagByName };
+/**
+ * Function to get the tags whose name, or one of whose synonyms, starts with a prefix, the most
+ * used first.
+ *
+ * @param prefix - The start of the tag name. An empty prefix gets the most used tags.
+ * @param limit - The most tags to get. Defaults to the server's limit.
+ * @throws Error if there is an issue fetching the suggestions.
+ */
+const getTagSuggestions = async (prefix: string, limit?: number): Promise<TagSuggestion[]> => {
+  const res = await api.get(`${TAG_API_URL}/suggest`, { params: { prefix, limit } });
+  if (res.status !== 200) {
+    throw new Error('Error when fetching tag suggestions');
+  }
+  return res.data;
+};
+
+/**
+ * Function to edit the description and/or wiki of a tag.
+ *
+ * @param name - The name of the tag to edit.
+ * @param edits - The new description and/or wiki. Fields left out are not changed.
+ * @throws Error if the user lacks the reputation to edit tag wikis or the edit fails.
+ */
+const editTag = async (
+  name: string,
+  edits: { description?: string; wiki?: string },
+): Promise<Tag> => {
+  const res = await api.post(`${TAG_API_URL}/editTag`, { name, ...edits });
+  if (res.status !== 200) {
+    throw new Error(`Error when editing tag: ${name}`);
+  }
+  return res.data;
+};
+
+/**
+ * Function to add a synonym to a tag. Only available to moderators.
+ *
+ * @param name - The name of the tag.
+ * @param synonym - The other name that should resolve to the tag.
+ * @throws Error if the synonym is already a tag or a synonym, or the request fails.
+ */
+const addTagSynonym = async (name: string, synonym: string): Promise<Tag> => {
+  const res = await api.post(`${TAG_API_URL}/addSynonym`, { name, synonym });
+  if (res.status !== 200) {
+    throw new Error(`Error when adding synonym: ${synonym}`);
+  }
+  return res.data;
+};
+
+/**
+ * Function to remove a synonym from a tag. Only available to moderators.
+ *
+ * @param name - The name of the tag.
+ * @param synonym - The synonym to remove.
+ * @throws Error if the tag has no such synonym or the request fails.
+ */
+const removeTagSynonym = async (name: string, synonym: string): Promise<Tag> => {
+  const res = await api.post(`${TAG_API_URL}/removeSynonym`, { name, synonym });
+  if (res.status !== 200) {
+    throw new Error(`Error when removing synonym: ${synonym}`);
+  }
+  return res.data;
+};
+
+/**
+ * Function to merge a tag into another: its questions move to the target, and its name becomes a
+ * synonym of the target. Only available to moderators.
+ *
+ * @param source - The name of the tag to merge away.
+ * @param target - The name of the tag to merge into.
+ * @throws Error if either tag does not exist or the merge fails.
+ */
+const mergeTags = async (source: string, target: string): Promise<Tag> => {
+  const res = await api.post(`${TAG_API_URL}/mergeTags`, { source, target });
+  if (res.status !== 200) {
+    throw new Error(`Error when merging tag ${source} into ${target}`);
+  }
+  return res.data;
+};
+
+export {
+  getTagsWithQuestionNumber,
+  getTagByName,
+  getTagSuggestions,
+  editTag,
+  addTagSynonym,
+  removeTagSynonym,
+  mergeTags,
+};
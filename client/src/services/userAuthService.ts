@@ -1,4 +1,14 @@
-import { FontType, LineSpacingType, TextBoldnessType, TextSizeType, User } from '../types';
+import {
+  EmailPreferences,
+  FontType,
+  LineSpacingType,
+  Session,
+  TextBoldnessType,
+  TextSizeType,
+  User,
+  UserProfile,
+  UserRole,
+} from '../types';
 import api from './config';
 
 const USER_API_URL = `${process.env.REACT_APP_SERVER_URL}/user`;
@@ -29,7 +39,9 @@ const sendEmailVerification = async (
  * @param token - The token used to determine which user to create.
  * @throws Error if there is an issue creating the new user.
  */
-const addUser = async (token: string): Promise<{ message: string; token: string; user: User }> => {
+const addUser = async (
+  token: string,
+): Promise<{ message: string; token: string; refreshToken: string; user: User }> => {
   const res = await api.post(`${USER_API_URL}/addUser`, { token });
 
   if (res.status !== 200) {
@@ -50,7 +62,7 @@ const addUser = async (token: string): Promise<{ message: string; token: string;
 const loginUser = async (
   username: string,
   password: string,
-): Promise<{ message: string; token: string; user: User }> => {
+): Promise<{ message: string; token: string; refreshToken: string; user: User }> => {
   const res = await api.post(`${USER_API_URL}/loginUser`, { username, password });
 
   if (res.status !== 200) {
@@ -243,6 +255,134 @@ const authenticateWithGoogle = async (code: string) => {
   return res.data;
 };
 
+/**
+ * Function to log out a user, signing out the session of the given refresh token.
+ *
+ * @param refreshToken - The refresh token of the session to sign out.
+ * @throws Error if there is an issue logging out the user.
+ */
+const logoutUser = async (refreshToken: string): Promise<{ message: string }> => {
+  const res = await api.post(`${USER_API_URL}/logout`, { refreshToken });
+
+  if (res.status !== 200) {
+    throw new Error('Error when logging out user');
+  }
+
+  return res.data;
+};
+
+/**
+ * Function to get the active sessions of the logged in user.
+ *
+ * @throws Error if there is an issue fetching the sessions.
+ */
+const getSessions = async (): Promise<Session[]> => {
+  const res = await api.get(`${USER_API_URL}/sessions`);
+
+  if (res.status !== 200) {
+    throw new Error('Error when fetching sessions');
+  }
+
+  return res.data;
+};
+
+/**
+ * Function to sign out one of the logged in user's sessions, e.g. on another device.
+ *
+ * @param sessionId - The ID of the session to sign out.
+ * @throws Error if there is an issue signing out the session.
+ */
+const revokeSession = async (sessionId: string): Promise<{ message: string }> => {
+  const res = await api.post(`${USER_API_URL}/revokeSession`, { sessionId });
+
+  if (res.status !== 200) {
+    throw new Error('Error when signing out session');
+  }
+
+  return res.data;
+};
+
+/**
+ * Function to get the public profile and activity of a user.
+ *
+ * @param username - The username of the user.
+ * @throws Error if there is an issue fetching the profile.
+ */
+const getUserProfile = async (username: string): Promise<UserProfile> => {
+  const res = await api.get(`${USER_API_URL}/profile/${encodeURIComponent(username)}`);
+
+  if (res.status !== 200) {
+    throw new Error('Error when fetching the user profile');
+  }
+
+  return res.data;
+};
+
+/**
+ * Function to get the email preferences of the logged in user.
+ *
+ * @throws Error if there is an issue fetching the preferences.
+ */
+const getEmailPreferences = async (): Promise<EmailPreferences> => {
+  const res = await api.get(`${USER_API_URL}/emailPreferences`);
+
+  if (res.status !== 200) {
+    throw new Error('Error when fetching email preferences');
+  }
+
+  return res.data;
+};
+
+/**
+ * Function to change the email preferences of the logged in user.
+ *
+ * @param changes - The preferences to change; the ones left out are kept.
+ * @throws Error if there is an issue updating the preferences.
+ */
+const updateEmailPreferences = async (
+  changes: Partial<EmailPreferences>,
+): Promise<EmailPreferences> => {
+  const res = await api.post(`${USER_API_URL}/updateEmailPreferences`, changes);
+
+  if (res.status !== 200) {
+    throw new Error('Error when updating email preferences');
+  }
+
+  return res.data;
+};
+
+/**
+ * Function to promote a user to the next more trusted role. Only available to admins.
+ *
+ * @param username - The username of the user to promote.
+ * @throws Error if there is an issue promoting the user.
+ */
+const promoteUser = async (username: string): Promise<{ username: string; role: UserRole }> => {
+  const res = await api.post(`${USER_API_URL}/promote`, { username });
+
+  if (res.status !== 200) {
+    throw new Error('Error when promoting the user');
+  }
+
+  return res.data;
+};
+
+/**
+ * Function to demote a user to the next less trusted role. Only available to admins.
+ *
+ * @param username - The username of the user to demote.
+ * @throws Error if there is an issue demoting the user.
+ */
+const demoteUser = async (username: string): Promise<{ username: string; role: UserRole }> => {
+  const res = await api.post(`${USER_API_URL}/demote`, { username });
+
+  if (res.status !== 200) {
+    throw new Error('Error when demoting the user');
+  }
+
+  return res.data;
+};
+
 export {
   sendEmailVerification,
   addUser,
@@ -258,4 +398,12 @@ export {
   changeTextColor,
   changeButtonColor,
   authenticateWithGoogle,
+  logoutUser,
+  getSessions,
+  revokeSession,
+  getUserProfile,
+  getEmailPreferences,
+  updateEmailPreferences,
+  promoteUser,
+  demoteUser,
 };
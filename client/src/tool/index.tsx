@@ -1,5 +1,3 @@
-import React from 'react';
-
 /**
  * Function to get a human-readable metadata string representing the time difference
  * between now and the given date.
@@ -34,72 +32,39 @@ const getMetaData = (date: Date): string => {
 };
 
 /**
- * Validates the hyperlinks present in the given text. It checks that:
- * - Each hyperlink has non-empty text and URL components.
- * - The URL starts with "https://".
- * - The URL contains at least one character after the scheme.
+ * Validates the hyperlinks present in the given Markdown text, ignoring any inside fenced code
+ * blocks or inline code. It checks that:
+ * - Each link has non-empty text.
+ * - Each link, image, link definition and autolink points to a URL that starts with "https://"
+ *   and contains at least one character after the scheme.
+ *
+ * The server validates the text the same way when it is saved.
  *
  * @param text - The input text containing potential hyperlinks.
  * @returns {boolean} - Returns `true` if all hyperlinks are valid,
  *                      otherwise returns `false`.
  */
 const validateHyperlink = (text: string): boolean => {
-  const hyperlinkPattern = /\[([^\]]*)\]\(([^)]*)\)/g;
+  const codePattern = /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[ \t]*$|`[^`\n]+`/gm;
+  const linkPattern = /(!?)\[([^\]]*)\]\(\s*<?([^\s)>]*)>?(?:\s+("[^"]*"|'[^']*'))?\s*\)/g;
+  const definitionPattern = /^ {0,3}\[[^\]]+\]:\s*<?([^\s>]+)>?/gm;
+  const autolinkPattern = /<([a-z][a-z0-9+.-]*:[^\s<>]*)>/gi;
+  const isHttpsUrl = (url: string) => url.startsWith('https://') && url.slice(8).length > 0;
 
-  // Find all matches for hyperlinks in the text
-  const matches = [...text.matchAll(hyperlinkPattern)];
-
-  // If there are no matches, it's valid
-  if (matches.length === 0) {
-    return true;
-  }
+  // Links inside code are shown as written, so only the rest of the text is checked
+  const prose = text.replace(codePattern, '\n');
 
-  // Check each match to see if the URL starts with https://
-  for (const match of matches) {
-    if (
-      !match[1].length ||
-      !match[2].length ||
-      !match[2].startsWith('https://') ||
-      !match[2].slice(8).length
-    ) {
+  for (const [, image, linkText, url] of prose.matchAll(linkPattern)) {
+    if ((!image && !linkText.trim()) || !isHttpsUrl(url)) {
       return false;
     }
   }
 
-  return true;
-};
-
-/**
- * Function to validate hyperlinks within a given text.
- *
- * @param text - The text containing hyperlinks in the markdown format `[text](url)`.
- */
-const handleHyperlink = (text: string) => {
-  const pattern = /\[([^\]]*)\]\(([^)]*)\)/g;
-
-  // Split the text into parts based on the pattern
-  const parts = text.split(pattern);
-
-  // Map through the parts to render the links and text
-  const content = parts.map((part, index) => {
-    // If the index is even, it's plain text
-    if (index % 2 === 0) {
-      return <span key={index}>{part}</span>;
-    }
-    // If the index is odd and it's the text for the link
-    if (index % 2 === 1) {
-      const href = parts[index + 1];
-      return (
-        <a key={index} href={href} target='_blank' rel='noopener noreferrer'>
-          {part}
-        </a>
-      );
-    }
-    // If it's the href part, skip it (already handled)
-    return null;
-  });
-
-  return <div>{content}</div>;
+  const urls = [
+    ...[...prose.matchAll(definitionPattern)].map(match => match[1]),
+    ...[...prose.matchAll(autolinkPattern)].map(match => match[1]),
+  ];
+  return urls.every(isHttpsUrl);
 };
 
-export { getMetaData, handleHyperlink, validateHyperlink };
+export { getMetaData, validateHyperlink };
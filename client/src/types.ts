@@ -1,6 +1,6 @@
 import { Socket } from 'socket.io-client';
 
-export type FakeSOSocket = Socket<ServerToClientEvents>;
+export type FakeSOSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 /**
  * Represents the settingsInfo in the application.
@@ -24,6 +24,101 @@ export interface SettingsInfo {
   buttonColor: string;
 }
 
+/**
+ * Represents a session the user is signed in with.
+ *
+ * @property _id - The unique identifier of the session.
+ * @property device - A description of the device the session was opened on.
+ * @property createdAt - The date and time when the session was opened.
+ * @property lastUsedAt - The date and time when the session was last renewed.
+ * @property current - Whether this is the session of the current browser.
+ */
+export interface Session {
+  _id: string;
+  device: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  current: boolean;
+}
+
+/**
+ * Represents a question listed on a user's profile.
+ *
+ * @property _id - The unique identifier of the question.
+ * @property title - The title of the question.
+ * @property askDateTime - The date and time when the question was asked.
+ * @property score - The number of upvotes minus the number of downvotes.
+ * @property answerCount - The number of answers to the question.
+ * @property resolved - Whether the question has an accepted answer.
+ */
+export interface ProfileQuestion {
+  _id: string;
+  title: string;
+  askDateTime: Date;
+  score: number;
+  answerCount: number;
+  resolved: boolean;
+}
+
+/**
+ * Represents an answer listed on a user's profile.
+ *
+ * @property _id - The unique identifier of the answer.
+ * @property qid - The unique identifier of the question that was answered.
+ * @property questionTitle - The title of the question that was answered.
+ * @property ansDateTime - The date and time when the answer was given.
+ * @property score - The number of upvotes minus the number of downvotes.
+ * @property accepted - Whether the answer was accepted by the asker.
+ */
+export interface ProfileAnswer {
+  _id: string;
+  qid: string;
+  questionTitle: string;
+  ansDateTime: Date;
+  score: number;
+  accepted: boolean;
+}
+
+/**
+ * Represents a comment listed on a user's profile.
+ *
+ * @property _id - The unique identifier of the comment.
+ * @property text - The content of the comment.
+ * @property commentDateTime - The date and time when the comment was posted.
+ * @property score - The number of upvotes minus the number of downvotes.
+ */
+export interface ProfileComment {
+  _id: string;
+  text: string;
+  commentDateTime: Date;
+  score: number;
+}
+
+/**
+ * Represents the public profile and activity of a user.
+ *
+ * @property username - The username of the user.
+ * @property creationDateTime - The date and time when the user joined.
+ * @property reputation - The reputation of the user.
+ * @property role - Whether the user is a regular user, a moderator or an admin.
+ * @property questions - The questions asked by the user, most recent first.
+ * @property answers - The answers given by the user, most recent first.
+ * @property comments - The comments posted by the user, most recent first.
+ * @property votesReceived - The total upvotes and downvotes on the user's posts.
+ * @property topTags - The tags the user is most active in, with the number of questions for each.
+ */
+export interface UserProfile {
+  username: string;
+  creationDateTime: Date;
+  reputation: number;
+  role: UserRole;
+  questions: ProfileQuestion[];
+  answers: ProfileAnswer[];
+  comments: ProfileComment[];
+  votesReceived: { upVotes: number; downVotes: number };
+  topTags: { name: string; count: number }[];
+}
+
 /**
  * Represents a user in the application.
  *
@@ -32,6 +127,8 @@ export interface SettingsInfo {
  * @property password - The password of a logged in user. Optional field.
  * @property creationDateTime - The date and time when a logged in user was created. Optional field.
  * @property settings - the theme and text settings for the current user. Optional field.
+ * @property reputation - The reputation a logged in user has earned. Optional field.
+ * @property role - Whether a logged in user is a regular user, a moderator or an admin. Optional field.
  */
 export interface User {
   username: string;
@@ -39,8 +136,16 @@ export interface User {
   password?: string;
   creationDateTime?: Date;
   settings?: SettingsInfo;
+  reputation?: number;
+  role?: UserRole;
 }
 
+/**
+ * Type representing the roles of users, from the least to the most trusted. Moderators have every
+ * privilege whatever their reputation, and admins may also promote and demote other users.
+ */
+export type UserRole = 'user' | 'moderator' | 'admin';
+
 export type ThemeType = 'LightMode' | 'DarkMode' | 'Pastel' | 'Autumn' | 'Custom';
 export type FontType = 'Arial' | 'Times New Roman' | 'Courier New';
 export type TextSizeType = 'small' | 'medium' | 'large' | 'x-large';
@@ -54,8 +159,10 @@ export type LineSpacingType = '1' | '2' | '3' | '4';
 export const orderTypeDisplayName = {
   newest: 'Newest',
   unanswered: 'Unanswered',
+  unresolved: 'Unresolved',
   active: 'Active',
   mostViewed: 'Most Viewed',
+  relevance: 'Relevance',
 } as const;
 
 /**
@@ -64,17 +171,74 @@ export const orderTypeDisplayName = {
  */
 export type OrderType = keyof typeof orderTypeDisplayName;
 
+/**
+ * Enum representing the possible ordering options for the answers to a question,
+ * and their display names.
+ */
+export const answerOrderTypeDisplayName = {
+  oldest: 'Oldest',
+  newest: 'Newest',
+  score: 'Highest Score',
+} as const;
+
+/**
+ * Type representing the keys of the answerOrderTypeDisplayName object.
+ */
+export type AnswerOrderType = keyof typeof answerOrderTypeDisplayName;
+
+/**
+ * Type representing the kinds of items that can be voted on.
+ */
+export type VoteTargetType = 'question' | 'answer' | 'comment';
+
+/**
+ * Interface representing a single field changed by an edit, which contains:
+ * - field - The field that was changed: 'title', 'text' or 'tags' for posts, and 'description',
+ *   'wiki' or 'synonyms' for tags.
+ * - before - The value of the field before the edit. Tags and synonyms are listed by name.
+ * - after - The value of the field after the edit.
+ */
+export interface RevisionChange {
+  field: 'title' | 'text' | 'tags' | 'description' | 'wiki' | 'synonyms';
+  before: string;
+  after: string;
+}
+
+/**
+ * Interface representing an edit made to a question, answer, comment or tag, which contains:
+ * - editedBy - Username of the user who made the edit.
+ * - editDateTime - Time at which the edit was made.
+ * - changes - The fields changed by the edit.
+ */
+export interface Revision {
+  editedBy: string;
+  editDateTime: Date;
+  changes: RevisionChange[];
+}
+
 /**
  * Interface represents a comment.
  *
+ * _id - The unique identifier of the comment. Optional field.
  * text - The text of the comment.
  * commentBy - Username of the author of the comment.
  * commentDateTime - Time at which the comment was created.
+ * upVotes - Usernames of the users who upvoted the comment. Optional field.
+ * downVotes - Usernames of the users who downvoted the comment. Optional field.
+ * revisions - The edits made to the comment, oldest first. Optional field.
+ * deletedAt - Time at which the comment was deleted. Optional field.
+ * hiddenAt - Time at which the comment was hidden after being flagged. Optional field.
  */
 export interface Comment {
+  _id?: string;
   text: string;
   commentBy: string;
   commentDateTime: Date;
+  upVotes?: string[];
+  downVotes?: string[];
+  revisions?: Revision[];
+  deletedAt?: Date;
+  hiddenAt?: Date;
 }
 
 /**
@@ -82,11 +246,17 @@ export interface Comment {
  *
  * @property name - The name of the tag.
  * @property description - A description of the tag.
+ * @property wiki - A longer explanation of the tag, in Markdown. Optional field.
+ * @property synonyms - Other names that resolve to the tag when questions are tagged. Optional field.
+ * @property revisions - The edits made to the tag, oldest first. Optional field.
  */
 export interface Tag {
   _id?: string;
   name: string;
   description: string;
+  wiki?: string;
+  synonyms?: string[];
+  revisions?: Revision[];
 }
 
 /**
@@ -101,13 +271,28 @@ export interface TagData {
 }
 
 /**
- * Interface representing the voting data for a question, which contains:
- * - qid - The ID of the question being voted on
- * - upVotes - An array of user IDs who upvoted the question
- * - downVotes - An array of user IDs who downvoted the question
+ * Interface representing a tag suggested while tags are typed.
+ *
+ * description - A description of the tag.
+ * synonyms - Other names that resolve to the tag.
+ */
+export interface TagSuggestion extends TagData {
+  description: string;
+  synonyms: string[];
+}
+
+/**
+ * Interface representing the voting data for a question, answer or comment, which contains:
+ * - qid - The ID of the question the voted item is shown on
+ * - id - The ID of the item being voted on. The same as qid for question votes
+ * - type - The type of the item being voted on, either 'question', 'answer' or 'comment'
+ * - upVotes - An array of user IDs who upvoted the item
+ * - downVotes - An array of user IDs who downvoted the item
  */
 export interface VoteData {
   qid: string;
+  id: string;
+  type: VoteTargetType;
   upVotes: string[];
   downVotes: string[];
 }
@@ -119,6 +304,11 @@ export interface VoteData {
  * - ansBy - The username of the user who wrote the answer
  * - ansDateTime - The date and time when the answer was created
  * - comments - Comments associated with the answer.
+ * - upVotes - An array of usernames who upvoted the answer. Optional field
+ * - downVotes - An array of usernames who downvoted the answer. Optional field
+ * - revisions - The edits made to the answer, oldest first. Optional field
+ * - deletedAt - The date and time when the answer was deleted. Optional field
+ * - hiddenAt - The date and time when the answer was hidden after being flagged. Optional field
  */
 export interface Answer {
   _id?: string;
@@ -126,6 +316,72 @@ export interface Answer {
   ansBy: string;
   ansDateTime: Date;
   comments: Comment[];
+  upVotes?: string[];
+  downVotes?: string[];
+  revisions?: Revision[];
+  deletedAt?: Date;
+  hiddenAt?: Date;
+}
+
+/**
+ * Type representing the status of the AI answer of a question.
+ */
+export type AIAnswerStatus = 'pending' | 'ready' | 'failed';
+
+/**
+ * Type representing how a user rated an AI generated answer.
+ */
+export type AIAnswerRating = 'helpful' | 'unhelpful';
+
+/**
+ * Interface representing a flag of an AI generated answer as incorrect.
+ *
+ * - username - The username of the user who flagged the answer.
+ * - reason - Why the user thinks the answer is incorrect. Optional field.
+ * - createdAt - The date and time when the answer was flagged.
+ */
+export interface AIAnswerFlag {
+  username: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+/**
+ * Interface representing the feedback on the AI generated answer of a question.
+ *
+ * - helpful - The usernames of the users who rated the answer helpful.
+ * - unhelpful - The usernames of the users who rated the answer unhelpful.
+ * - flags - The flags of the answer as incorrect.
+ * - hidden - Whether the asker hid the answer.
+ */
+export interface AIAnswerFeedback {
+  helpful: string[];
+  unhelpful: string[];
+  flags: AIAnswerFlag[];
+  hidden: boolean;
+}
+
+/**
+ * Interface representing an AI generated answer in the report of the worst-rated ones.
+ *
+ * - qid - The ID of the question.
+ * - title - The title of the question.
+ * - text - The text of the question, which the answer was generated from.
+ * - aiGeneratedAnswer - The generated answer.
+ * - helpful - The number of users who rated the answer helpful.
+ * - unhelpful - The number of users who rated the answer unhelpful.
+ * - flags - The flags of the answer as incorrect.
+ * - score - How badly the answer was rated.
+ */
+export interface AIAnswerReportEntry {
+  qid: string;
+  title: string;
+  text: string;
+  aiGeneratedAnswer: string;
+  helpful: number;
+  unhelpful: number;
+  flags: AIAnswerFlag[];
+  score: number;
 }
 
 /**
@@ -142,11 +398,24 @@ export interface Answer {
  * - upVotes - An array of usernames who upvoted the question.
  * - downVotes - An array of usernames who downvoted the question.
  * - comments - Comments associated with the question.
+ * - acceptedAnswer - The ID of the answer the asker marked as having solved the question. Optional field.
+ * - revisions - The edits made to the question, oldest first. Optional field.
+ * - deletedAt - The date and time when the question was deleted. Optional field.
+ * - hiddenAt - The date and time when the question was hidden after being flagged. Optional field.
+ * - aiGeneratedAnswer - The answer generated by AI, once it is ready. Optional field.
+ * - aiAnswerStatus - Whether the AI answer is still being generated, ready or failed. Optional field.
+ * - aiAnswerFeedback - The ratings and flags of the AI answer, and whether the asker hid it. Optional field.
+ * - closure - Why, when and by whom the question was closed. Optional field, only set on closed questions.
+ * - closeVotes - The votes to close the question, until enough users voted. Optional field.
+ * - reopenVotes - The usernames of the users who voted to reopen the closed question. Optional field.
+ * - lock - Who locked the question against new answers and comments, and why. Optional field.
  */
 export interface Question {
   _id?: string;
   tags: Tag[];
   aiGeneratedAnswer?: string;
+  aiAnswerStatus?: AIAnswerStatus;
+  aiAnswerFeedback?: AIAnswerFeedback;
   answers: Answer[];
   title: string;
   views: string[];
@@ -156,6 +425,121 @@ export interface Question {
   upVotes: string[];
   downVotes: string[];
   comments: Comment[];
+  acceptedAnswer?: string;
+  revisions?: Revision[];
+  deletedAt?: Date;
+  hiddenAt?: Date;
+  closure?: QuestionClosure;
+  closeVotes?: CloseVote[];
+  reopenVotes?: string[];
+  lock?: QuestionLock;
+}
+
+/**
+ * Type representing why a question was closed.
+ * - `duplicate`: The question was already asked and answered in another question.
+ * - `offTopic`: The question is not about the topics of the site.
+ * - `needsDetails`: The question lacks the details needed to answer it.
+ * - `opinionBased`: The question can only be answered with opinions.
+ */
+export type CloseReason = 'duplicate' | 'offTopic' | 'needsDetails' | 'opinionBased';
+
+/**
+ * Interface representing a vote to close a question.
+ *
+ * - username - The username of the user who voted.
+ * - reason - Why the user thinks the question should be closed.
+ * - duplicateOf - The ID of the question the user thinks this one duplicates, when voting to close it as a duplicate. Optional field.
+ * - createdAt - The date and time when the user voted.
+ */
+export interface CloseVote {
+  username: string;
+  reason: CloseReason;
+  duplicateOf?: string;
+  createdAt: Date;
+}
+
+/**
+ * Interface representing the closure of a question.
+ *
+ * - reason - Why the question was closed.
+ * - duplicateOf - The ID and title of the question this one duplicates, when closed as a duplicate. Optional field.
+ * - closedBy - The usernames of the users whose votes closed the question.
+ * - closedAt - The date and time when the question was closed.
+ */
+export interface QuestionClosure {
+  reason: CloseReason;
+  duplicateOf?: { _id: string; title: string };
+  closedBy: string[];
+  closedAt: Date;
+}
+
+/**
+ * Interface representing the lock of a question, which prevents new answers and comments.
+ *
+ * - lockedBy - The username of the moderator who locked the question.
+ * - lockedAt - The date and time when the question was locked.
+ * - reason - Why the question was locked. Optional field.
+ */
+export interface QuestionLock {
+  lockedBy: string;
+  lockedAt: Date;
+  reason?: string;
+}
+
+/**
+ * Interface representing an existing question that may be a duplicate of the one being asked.
+ *
+ * - qid - The unique identifier of the question.
+ * - title - The title of the question.
+ * - tags - The names of the tags of the question.
+ * - answerCount - The number of answers to the question.
+ * - hasAcceptedAnswer - Whether the asker accepted one of the answers.
+ * - askDateTime - The date and time when the question was asked.
+ * - score - How similar the question is to the one being asked, from 0 to 1.
+ */
+export interface SimilarQuestion {
+  qid: string;
+  title: string;
+  tags: string[];
+  answerCount: number;
+  hasAcceptedAnswer: boolean;
+  askDateTime: Date;
+  score: number;
+}
+
+/**
+ * Interface representing a piece of a search result snippet.
+ *
+ * - text - The text of the piece.
+ * - match - Whether the piece matches the search and should be highlighted.
+ */
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Interface representing a question in a listing.
+ *
+ * - snippet - An excerpt of the question, or of a matching answer, highlighting the search terms.
+ *   Only present when searching for words or phrases.
+ */
+export interface ListedQuestion extends Question {
+  snippet?: SnippetPart[];
+}
+
+/**
+ * Interface representing one page of a question listing.
+ *
+ * - questions - The questions on the page, in order.
+ * - total - The number of questions matching the listing across all pages.
+ * - nextCursor - The cursor for fetching the next page. Absent on the last page.
+ */
+export interface QuestionPage {
+  questions: ListedQuestion[];
+  total: number;
+  nextCursor?: string;
 }
 
 /**
@@ -163,6 +547,8 @@ export interface Question {
  */
 export interface VoteUpdatePayload {
   qid: string;
+  id: string;
+  type: VoteTargetType;
   upVotes: string[];
   downVotes: string[];
 }
@@ -172,6 +558,23 @@ export interface AnswerUpdatePayload {
   answer: Answer;
 }
 
+/**
+ * Interface representing the payload for an AI answer update socket event.
+ */
+export interface AIAnswerUpdatePayload {
+  qid: string;
+  aiAnswerStatus: AIAnswerStatus;
+  aiGeneratedAnswer?: string;
+}
+
+/**
+ * Interface representing the payload for an AI answer feedback update socket event.
+ */
+export interface AIAnswerFeedbackUpdatePayload {
+  qid: string;
+  aiAnswerFeedback: AIAnswerFeedback;
+}
+
 export interface CommentUpdatePayload {
   result: Question | Answer;
   type: 'question' | 'answer';
@@ -182,8 +585,231 @@ export interface CommentUpdatePayload {
  */
 export interface ServerToClientEvents {
   questionUpdate: (question: Question) => void;
+  newQuestion: (question: Question) => void;
   answerUpdate: (update: AnswerUpdatePayload) => void;
   viewsUpdate: (question: Question) => void;
   voteUpdate: (vote: VoteUpdatePayload) => void;
   commentUpdate: (update: CommentUpdatePayload) => void;
+  notification: (notification: Notification) => void;
+  aiAnswerUpdate: (update: AIAnswerUpdatePayload) => void;
+  aiAnswerFeedbackUpdate: (update: AIAnswerFeedbackUpdatePayload) => void;
+  chatChunk: (chunk: ChatChunkPayload) => void;
+}
+
+/**
+ * Interface representing the possible events that the client can emit to the server.
+ *
+ * - authenticate - Identifies the user of the connection, so that it receives their notifications.
+ * - deauthenticate - Stops the connection from receiving the user's notifications.
+ */
+export interface ClientToServerEvents {
+  authenticate: (token: string) => void;
+  deauthenticate: () => void;
+}
+
+/**
+ * Type representing what a notification is about.
+ */
+export type NotificationType = 'answer' | 'comment' | 'vote' | 'acceptedAnswer' | 'mention';
+
+/**
+ * Represents a notification of something another user did.
+ *
+ * @property _id - The unique identifier of the notification.
+ * @property type - What the notification is about.
+ * @property actor - The username of the user who caused the notification.
+ * @property post - The ID of the question, answer or comment acted on.
+ * @property postType - The type of the post acted on.
+ * @property question - The ID of the question the post is shown on.
+ * @property questionTitle - The title of that question.
+ * @property read - Whether the user has read the notification.
+ * @property createdAt - The date and time when the notification was created.
+ */
+export interface Notification {
+  _id: string;
+  type: NotificationType;
+  actor: string;
+  post: string;
+  postType: 'question' | 'answer' | 'comment';
+  question: string;
+  questionTitle: string;
+  read: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Represents the notifications of a user.
+ *
+ * @property notifications - The most recent notifications, most recent first.
+ * @property unreadCount - The number of unread notifications.
+ */
+export interface NotificationList {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+/**
+ * Type representing how often a user receives a digest of new questions in their watched tags.
+ */
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+/**
+ * Represents the emails a user has opted into.
+ *
+ * @property answers - Whether to email the user when their question is answered.
+ * @property comments - Whether to email the user when their question is commented on.
+ * @property digest - How often to email the user a digest of new questions in their watched tags.
+ * @property watchedTags - The names of the tags whose new questions are included in the digest.
+ */
+export interface EmailPreferences {
+  answers: boolean;
+  comments: boolean;
+  digest: DigestFrequency;
+  watchedTags: string[];
+}
+
+/**
+ * Interface representing a message of a conversation with the brainstorming chatbot.
+ *
+ * - _id - The unique identifier of the message. Optional field.
+ * - role - Who wrote the message, either the user or the chatbot ('assistant').
+ * - content - The text of the message.
+ * - createdAt - The date and time when the message was written.
+ */
+export interface ConversationMessage {
+  _id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: Date;
+}
+
+/**
+ * Interface representing a conversation of the user with the brainstorming chatbot.
+ *
+ * - _id - The unique identifier of the conversation.
+ * - title - The beginning of the first message, to tell the conversations apart.
+ * - messages - The messages of the conversation, oldest first. Left out when conversations are listed.
+ * - createdAt - The date and time when the conversation was started.
+ * - updatedAt - The date and time of the latest message.
+ */
+export interface Conversation {
+  _id: string;
+  title: string;
+  messages?: ConversationMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface representing the payload for a chat chunk socket event, which carries the next part of
+ * the chatbot's reply while it is being generated.
+ */
+export interface ChatChunkPayload {
+  cid: string;
+  delta: string;
+}
+
+/**
+ * Type representing why a user flagged a post for the moderators.
+ * - `spam`: The post advertises something or is unrelated to the site.
+ * - `offensive`: The post is rude or abusive.
+ * - `lowQuality`: The post is too unclear or incomplete to be useful.
+ * - `other`: Any other reason, which the user explains.
+ */
+export type FlagReason = 'spam' | 'offensive' | 'lowQuality' | 'other';
+
+/**
+ * Type representing what a moderator does with the flags of a post: approving them hides the
+ * post, dismissing them shows it again, and deleting removes the post.
+ */
+export type FlagReviewAction = 'approve' | 'dismiss' | 'delete';
+
+/**
+ * Interface representing a flag raised on a post, as listed in the moderation queue.
+ *
+ * - flaggedBy - The username of the user who flagged the post.
+ * - reason - Why the user flagged the post.
+ * - details - What the user added to explain the flag. Optional field.
+ * - createdAt - The date and time when the post was flagged.
+ */
+export interface PostFlag {
+  flaggedBy: string;
+  reason: FlagReason;
+  details?: string;
+  createdAt: Date;
+}
+
+/**
+ * Interface representing a post in the moderation queue.
+ *
+ * - postType - Whether the post is a question, an answer or a comment.
+ * - id - The ID of the post.
+ * - qid - The ID of the question the post is shown on.
+ * - author - The username of the author of the post.
+ * - text - The content of the post.
+ * - hidden - Whether the post is hidden until a moderator reviews it.
+ * - flags - The pending flags of the post, oldest first.
+ */
+export interface FlaggedPost {
+  postType: VoteTargetType;
+  id: string;
+  qid: string;
+  author: string;
+  text: string;
+  hidden: boolean;
+  flags: PostFlag[];
+}
+
+/**
+ * Type representing the actions of moderators recorded in the audit log.
+ */
+export type ModerationAction =
+  | 'approveFlags'
+  | 'dismissFlags'
+  | 'deletePost'
+  | 'lockQuestion'
+  | 'unlockQuestion';
+
+/**
+ * Interface representing an entry of the audit log of moderators' actions.
+ *
+ * - _id - The unique identifier of the entry.
+ * - moderator - The username of the moderator who took the action.
+ * - action - What the moderator did.
+ * - postType - Whether the action concerned a question, an answer or a comment.
+ * - post - The ID of the post.
+ * - question - The ID of the question the post is shown on.
+ * - details - The reasons of the reviewed flags, or why the question was locked. Optional field.
+ * - createdAt - The date and time when the action was taken.
+ */
+export interface ModerationLogEntry {
+  _id: string;
+  moderator: string;
+  action: ModerationAction;
+  postType: VoteTargetType;
+  post: string;
+  question: string;
+  details?: string;
+  createdAt: Date;
+}
+
+/**
+ * Interface representing a file uploaded to embed in a question or answer.
+ *
+ * - _id - The unique identifier of the attachment, used in its `attachment://<id>` URL.
+ * - filename - The name of the uploaded file.
+ * - contentType - The MIME type of the file, as detected by the server from its content.
+ * - size - The size of the file, in bytes.
+ * - thumbnail - Whether the server made a thumbnail of the file, for images.
+ * - uploadedBy - The username of the user who uploaded the file.
+ * - uploadedAt - The date and time when the file was uploaded.
+ */
+export interface Attachment {
+  _id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  thumbnail: boolean;
+  uploadedBy: string;
+  uploadedAt: Date;
 }
@@ -0,0 +1,119 @@
+/**
+ * The formats the Markdown editor can apply to the selected text.
+ */
+export type MarkdownFormat = 'bold' | 'code' | 'link' | 'codeBlock' | 'list';
+
+/**
+ * The text of the editor and the selection in it, as offsets into the text.
+ */
+export interface MarkdownSelection {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/**
+ * What is inserted in place of an empty selection, so the user can type over it.
+ */
+const placeholders: Record<MarkdownFormat, string> = {
+  bold: 'bold text',
+  code: 'code',
+  link: 'link text',
+  codeBlock: 'code',
+  list: '',
+};
+
+/**
+ * Wraps the selected text, or a placeholder if nothing is selected, in a prefix and a suffix.
+ *
+ * @param editor - The text and selection.
+ * @param prefix - The Markdown inserted before the selected text.
+ * @param suffix - The Markdown inserted after the selected text.
+ * @param placeholder - The text wrapped if nothing is selected.
+ *
+ * @returns The new text with the wrapped text selected.
+ */
+const wrap = (
+  { text, selectionStart, selectionEnd }: MarkdownSelection,
+  prefix: string,
+  suffix: string,
+  placeholder: string,
+): MarkdownSelection => {
+  const selected = text.slice(selectionStart, selectionEnd) || placeholder;
+  const start = selectionStart + prefix.length;
+  return {
+    text: text.slice(0, selectionStart) + prefix + selected + suffix + text.slice(selectionEnd),
+    selectionStart: start,
+    selectionEnd: start + selected.length,
+  };
+};
+
+/**
+ * Inserts Markdown at the selection, replacing the selected text, and moves the cursor after it.
+ *
+ * @param editor - The text and selection.
+ * @param markdown - The Markdown to insert.
+ *
+ * @returns The new text with the cursor after the inserted Markdown.
+ */
+export const insertMarkdown = (
+  { text, selectionStart, selectionEnd }: MarkdownSelection,
+  markdown: string,
+): MarkdownSelection => {
+  const end = selectionStart + markdown.length;
+  return {
+    text: text.slice(0, selectionStart) + markdown + text.slice(selectionEnd),
+    selectionStart: end,
+    selectionEnd: end,
+  };
+};
+
+/**
+ * Applies a Markdown format to the selected text of the editor. Bold text and code are wrapped in
+ * place, links get an https:// URL to complete, code blocks start on a line of their own and each
+ * selected line becomes an item of a bulleted list.
+ *
+ * @param editor - The text and selection.
+ * @param format - The format to apply.
+ *
+ * @returns The new text and the part of it to select, which is what the user will likely type
+ *          over next.
+ */
+export default function applyMarkdownFormat(
+  editor: MarkdownSelection,
+  format: MarkdownFormat,
+): MarkdownSelection {
+  const { text, selectionStart, selectionEnd } = editor;
+  const placeholder = placeholders[format];
+
+  switch (format) {
+    case 'bold':
+      return wrap(editor, '**', '**', placeholder);
+    case 'code':
+      return wrap(editor, '`', '`', placeholder);
+    case 'link': {
+      const linked = wrap(editor, '[', '](https://)', placeholder);
+      const urlEnd = linked.selectionEnd + '](https://'.length;
+      return { ...linked, selectionStart: urlEnd, selectionEnd: urlEnd };
+    }
+    case 'codeBlock': {
+      const atLineStart = selectionStart === 0 || text[selectionStart - 1] === '\n';
+      return wrap(editor, `${atLineStart ? '' : '\n'}\`\`\`\n`, '\n```\n', placeholder);
+    }
+    case 'list': {
+      const lineStart = selectionStart && text.lastIndexOf('\n', selectionStart - 1) + 1;
+      const items = text
+        .slice(lineStart, selectionEnd)
+        .split('\n')
+        .map(line => `- ${line}`)
+        .join('\n');
+      return {
+        text: text.slice(0, lineStart) + items + text.slice(selectionEnd),
+        selectionStart: lineStart + items.length,
+        selectionEnd: lineStart + items.length,
+      };
+    }
+    default:
+      return editor;
+  }
+}
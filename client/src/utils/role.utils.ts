@@ -0,0 +1,19 @@
+import { User, UserRole } from '../types';
+
+/**
+ * The roles of users, from the least to the most trusted.
+ */
+const USER_ROLES: UserRole[] = ['user', 'moderator', 'admin'];
+
+/**
+ * Checks whether a user has a role, or a more trusted one. Users without a role, such as guests,
+ * are regular users.
+ *
+ * @param user - The user to check.
+ * @param role - The least trusted role allowed.
+ *
+ * @returns `true` if the user's role is at least as trusted, otherwise `false`.
+ */
+export default function hasRole(user: User, role: UserRole): boolean {
+  return USER_ROLES.indexOf(user.role ?? 'user') >= USER_ROLES.indexOf(role);
+}
@@ -0,0 +1,48 @@
+/**
+ * The longest a tag name may be, once normalized.
+ */
+export const TAG_NAME_MAX_LENGTH = 20;
+
+/**
+ * The most tags a question may have.
+ */
+export const QUESTION_TAGS_MAX = 5;
+
+/**
+ * Checks the tags of a question with the same rules as the server.
+ *
+ * @param tagNames - The normalized names of the tags.
+ *
+ * @returns The reason the tags are invalid, or an empty string if they are valid.
+ */
+export const validateTagNames = (tagNames: string[]): string => {
+  if (tagNames.length === 0) {
+    return 'Should have at least 1 tag';
+  }
+  if (tagNames.length > QUESTION_TAGS_MAX) {
+    return `Cannot have more than ${QUESTION_TAGS_MAX} tags`;
+  }
+  if (tagNames.some(name => name.length > TAG_NAME_MAX_LENGTH)) {
+    return `New tag length cannot be more than ${TAG_NAME_MAX_LENGTH}`;
+  }
+  return '';
+};
+
+/**
+ * Normalizes the name of a tag the way the server does: it is lowercased, runs of spaces and
+ * underscores become single hyphens, and characters other than letters, digits and `.`, `#`, `+`
+ * and `-` are removed.
+ *
+ * @param name - The name as typed.
+ *
+ * @returns The normalized name, empty if nothing is left of it.
+ */
+export default function normalizeTagName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9.#+-]/g, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '');
+}
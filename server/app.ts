@@ -16,8 +16,15 @@ import tagController from './controller/tag';
 import commentController from './controller/comment';
 import userController from './controller/user';
 import googleAuthController from './controller/google';
+import notificationController from './controller/notification';
+import chatController from './controller/chat';
+import moderationController from './controller/moderation';
+import attachmentController from './controller/attachment';
+import { joinUserRoom, leaveUserRooms } from './utils/notifications';
+import startDigestScheduler from './utils/digestScheduler';
+import startAttachmentCleanup from './utils/attachmentCleanup';
+import { resumePendingAIAnswers } from './utils/aiAnswerQueue';
 import { FakeSOSocket } from './types';
-import OpenAI from 'openai';
 
 dotenv.config();
 
@@ -27,8 +34,6 @@ if (!JWT_SECRET) {
   process.exit(1);
 }
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
 const MONGO_URL = `${process.env.MONGODB_URI || 'mongodb://127.0.0.1:27017'}/fake_so`;
 const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:3000';
 const port = parseInt(process.env.PORT || '8000');
@@ -43,27 +48,32 @@ const socket: FakeSOSocket = new Server(server, {
   cors: { origin: '*' },
 });
 
-const openai = new OpenAI({
-  organization: 'org-ILR5PGHDz2TMN7TbELizo9ld',
-  project: 'proj_HRv67erRpJfTx2bUo3Qt7htF',
-  apiKey: OPENAI_API_KEY,
-});
+let digestScheduler: NodeJS.Timeout | undefined;
+let attachmentCleanup: NodeJS.Timeout | undefined;
 
 function startServer() {
   server.listen(port, () => {
     console.log(`Server is running on port ${port}`);
   });
+  digestScheduler = startDigestScheduler();
+  attachmentCleanup = startAttachmentCleanup();
+  resumePendingAIAnswers(socket);
 }
 
 socket.on('connection', socket => {
   console.log('A user connected ->', socket.id);
 
+  socket.on('authenticate', token => joinUserRoom(socket, token, JWT_SECRET));
+  socket.on('deauthenticate', () => leaveUserRooms(socket));
+
   socket.on('disconnect', () => {
     console.log('User disconnected');
   });
 });
 
 process.on('SIGINT', () => {
+  clearInterval(digestScheduler);
+  clearInterval(attachmentCleanup);
   server.close(() => {
     mongoose.disconnect();
     console.log('Server closed.');
@@ -81,36 +91,21 @@ app.use(
 
 app.use(express.json());
 
-app.post("/chat", async (req, res) => {
-  const { prompt } = req.body;
-
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: [
-          {
-            role: 'system',
-            content: 'You are helping a user brainstorm questions. Based on the topic they provide, please list several questions that they can ask about the topic.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-  });
-  res.send(completion.choices[0].message.content);
-});
-
 app.get('/', (req: Request, res: Response) => {
   res.send('hello world');
   res.end();
 });
 
-app.use('/question', questionController(socket));
-app.use('/tag', tagController());
-app.use('/answer', answerController(socket));
-app.use('/comment', commentController(socket));
+app.use('/question', questionController(socket, JWT_SECRET));
+app.use('/tag', tagController(JWT_SECRET));
+app.use('/answer', answerController(socket, JWT_SECRET));
+app.use('/comment', commentController(socket, JWT_SECRET));
 app.use('/user', userController(socket, JWT_SECRET));
+app.use('/notification', notificationController(JWT_SECRET));
+app.use('/chat', chatController(socket, JWT_SECRET));
+app.use('/moderation', moderationController(socket, JWT_SECRET));
+app.use('/attachment', attachmentController(JWT_SECRET));
 app.use('/api', googleAuthController(JWT_SECRET));
 
 // Export the app instance
-export { app, server, startServer, OPENAI_API_KEY };
+export { app, server, startServer };
@@ -1,8 +1,32 @@
 import express, { Response } from 'express';
-import { Answer, AnswerRequest, AnswerResponse, FakeSOSocket } from '../types';
-import { addAnswerToQuestion, populateDocument, saveAnswer } from '../models/application';
+import { ObjectId } from 'mongodb';
+import {
+  Answer,
+  AnswerRequest,
+  AnswerResponse,
+  AnswerVoteRequest,
+  DeleteAnswerRequest,
+  EditAnswerRequest,
+  FakeSOSocket,
+} from '../types';
+import {
+  addAnswerToQuestion,
+  addVoteToAnswer,
+  deleteAnswer,
+  editAnswer,
+  populateDocument,
+  saveAnswer,
+} from '../models/application';
+import verifyToken, { isActingUser } from '../middleware/verifyToken';
+import { hasPrivilege, privilegeError } from '../utils/privileges';
+import { sanitizeContent, validateContent } from '../utils/content';
+import { attachToPost } from '../models/attachmentOperations';
+import { mentionNotifications, notifyUsers } from '../utils/notifications';
+import { findPostingRestriction } from '../models/closeOperations';
+import { findQuestionOf } from '../models/moderationOperations';
+import { redactHiddenPosts } from '../utils/hiddenPosts';
 
-const answerController = (socket: FakeSOSocket) => {
+const answerController = (socket: FakeSOSocket, JWT_SECRET: string) => {
   const router = express.Router();
 
   /**
@@ -24,13 +48,15 @@ const answerController = (socket: FakeSOSocket) => {
    * @returns `true` if the answer is valid, otherwise `false`.
    */
   function isAnswerValid(ans: Answer): boolean {
-    return !!ans.text && !!ans.ansBy && !!ans.ansDateTime;
+    return typeof ans.text === 'string' && !!ans.text && !!ans.ansBy && !!ans.ansDateTime;
   }
 
   /**
    * Adds a new answer to a question in the database. The answer request and answer are
-   * validated and then saved. If successful, the answer is associated with the corresponding
-   * question. If there is an error, the HTTP response's status is updated.
+   * validated, with the Markdown text of the answer sanitized, and then saved. If successful, the
+   * answer is associated with the corresponding question. The answer is always attributed to the
+   * authenticated user; a request naming a different `ansBy` is rejected, as is an answer to a
+   * closed or locked question. If there is an error, the HTTP response's status is updated.
    *
    * @param req The AnswerRequest object containing the question ID and answer data.
    * @param res The HTTP response object used to send back the result of the operation.
@@ -42,20 +68,45 @@ const answerController = (socket: FakeSOSocket) => {
       res.status(400).send('Invalid request');
       return;
     }
-    if (!isAnswerValid(req.body.ans)) {
-      res.status(400).send('Invalid answer');
+    if (!isActingUser(req, req.body.ans.ansBy)) {
+      res.status(403).send('Cannot post an answer as another user');
       return;
     }
 
     const { qid } = req.body;
-    const ansInfo: Answer = req.body.ans;
+    const ansInfo: Answer = { ...req.body.ans, ansBy: req.user?.username as string };
+
+    if (!isAnswerValid(ansInfo)) {
+      res.status(400).send('Invalid answer');
+      return;
+    }
 
     try {
+      ansInfo.text = sanitizeContent(ansInfo.text);
+      const contentError = validateContent(ansInfo.text);
+      if (contentError) {
+        res.status(400).send(contentError);
+        return;
+      }
+
+      const restriction = await findPostingRestriction(qid, 'question');
+      if (restriction) {
+        res.status(403).send(restriction);
+        return;
+      }
+
       const ansFromDb = await saveAnswer(ansInfo);
 
       if ('error' in ansFromDb) {
         throw new Error(ansFromDb.error as string);
       }
+      // Files embedded in the text are tied to the answer, to be removed along with it
+      await attachToPost(
+        ansFromDb.text,
+        ansInfo.ansBy,
+        'answer',
+        ansFromDb._id?.toString() as string,
+      );
 
       const status = await addAnswerToQuestion(qid, ansFromDb);
 
@@ -74,14 +125,226 @@ const answerController = (socket: FakeSOSocket) => {
         qid,
         answer: populatedAns as AnswerResponse,
       });
+      await notifyUsers(socket, [
+        { type: 'answer', actor: ansInfo.ansBy, post: qid, postType: 'question' },
+        ...mentionNotifications(ansInfo.text, {
+          actor: ansInfo.ansBy,
+          post: ansFromDb._id?.toString() as string,
+          postType: 'answer',
+          question: qid,
+        }),
+      ]);
       res.json(ansFromDb);
     } catch (err) {
       res.status(500).send(`Error when adding answer: ${(err as Error).message}`);
     }
   };
 
+  /**
+   * Edits the text of an answer. Only the author of the answer, or a user with the reputation to
+   * edit others' posts, may edit it, and each edit is recorded as a revision. The edited answer is
+   * emitted to all clients along with the question it belongs to. If the request or the new text
+   * is invalid, or the edit fails, the HTTP response status is updated.
+   *
+   * @param req The EditAnswerRequest object containing the question ID, answer ID and new text.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const editAnswerRoute = async (req: EditAnswerRequest, res: Response): Promise<void> => {
+    const { aid } = req.body;
+    if (
+      !req.body.qid ||
+      !aid ||
+      !ObjectId.isValid(aid) ||
+      typeof req.body.text !== 'string' ||
+      !req.body.text
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const text = sanitizeContent(req.body.text);
+      const contentError = validateContent(text);
+      if (contentError) {
+        res.status(400).send(contentError);
+        return;
+      }
+
+      const result = await editAnswer(
+        aid,
+        req.user?.username as string,
+        text,
+        hasPrivilege(req.user, 'editOthers'),
+      );
+      if ('error' in result) {
+        if (result.error === 'Answer not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        if (result.error === 'Only the author can edit this answer') {
+          res.status(403).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      await attachToPost(text, req.user?.username as string, 'answer', aid);
+
+      const populatedAns = await populateDocument(aid, 'answer');
+      if (populatedAns && 'error' in populatedAns) {
+        throw new Error(populatedAns.error as string);
+      }
+
+      // The question is looked up rather than taken from the request, which could name any
+      const qid = await findQuestionOf('answer', aid);
+      if (qid) {
+        socket.emit('answerUpdate', {
+          qid,
+          answer: redactHiddenPosts(populatedAns as Answer) as AnswerResponse,
+        });
+      }
+      res.json(redactHiddenPosts(populatedAns as Answer, req.user));
+    } catch (err) {
+      res.status(500).send(`Error when editing answer: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Soft-deletes an answer and removes it from its question. Only the author of the answer may
+   * delete it. The deleted answer, with `deletedAt` set, is emitted to all clients so they can
+   * remove it. If the request is invalid or the deletion fails, the HTTP response status is
+   * updated.
+   *
+   * @param req The DeleteAnswerRequest object containing the question ID and answer ID.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const deleteAnswerRoute = async (req: DeleteAnswerRequest, res: Response): Promise<void> => {
+    const { qid, aid } = req.body;
+    if (!qid || !ObjectId.isValid(qid) || !aid || !ObjectId.isValid(aid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const result = await deleteAnswer(qid, aid, req.user?.username as string);
+      if ('error' in result) {
+        if (result.error === 'Answer not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        if (result.error === 'Only the author can delete this answer') {
+          res.status(403).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+
+      socket.emit('answerUpdate', { qid, answer: redactHiddenPosts(result) });
+      res.json(redactHiddenPosts(result, req.user));
+    } catch (err) {
+      res.status(500).send(`Error when deleting answer: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Handles toggling a vote on an answer. Downvoting requires the reputation to downvote. The
+   * updated votes are emitted to all clients along with the question the answer belongs to, found
+   * on the server. If the request is invalid or the vote fails, the HTTP response status is
+   * updated.
+   *
+   * @param req The AnswerVoteRequest object containing the answer ID and username.
+   * @param res The HTTP response object used to send back the result of the operation.
+   * @param type The type of the vote, either 'upvote' or 'downvote'.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const voteAnswer = async (
+    req: AnswerVoteRequest,
+    res: Response,
+    type: 'upvote' | 'downvote',
+  ): Promise<void> => {
+    const { aid } = req.body;
+    if (!aid || !ObjectId.isValid(aid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!isActingUser(req, req.body.username)) {
+      res.status(403).send('Cannot vote as another user');
+      return;
+    }
+
+    if (type === 'downvote' && !hasPrivilege(req.user, 'downvote')) {
+      res.status(403).send(privilegeError('downvote'));
+      return;
+    }
+
+    try {
+      const username = req.user?.username as string;
+      const status = await addVoteToAnswer(aid, username, type);
+      if ('error' in status) {
+        if (status.error === 'Answer not found') {
+          res.status(404).send(status.error);
+          return;
+        }
+        throw new Error(status.error);
+      }
+
+      // The question is looked up rather than taken from the request, which could name any
+      const qid = await findQuestionOf('answer', aid);
+      if (qid) {
+        socket.emit('voteUpdate', {
+          qid,
+          id: aid,
+          type: 'answer',
+          upVotes: status.upVotes,
+          downVotes: status.downVotes,
+        });
+        if (status.upVotes.includes(username) || status.downVotes.includes(username)) {
+          await notifyUsers(socket, [
+            { type: 'vote', actor: username, post: aid, postType: 'answer', question: qid },
+          ]);
+        }
+      }
+      res.json(status);
+    } catch (err) {
+      res.status(500).send(`Error when ${type}ing: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Handles upvoting an answer. The request must contain the answer ID (aid) and a bearer token.
+   *
+   * @param req The AnswerVoteRequest object containing the answer ID and username.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const upvoteAnswer = async (req: AnswerVoteRequest, res: Response): Promise<void> => {
+    await voteAnswer(req, res, 'upvote');
+  };
+
+  /**
+   * Handles downvoting an answer. The request must contain the answer ID (aid) and a bearer token.
+   *
+   * @param req The AnswerVoteRequest object containing the answer ID and username.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const downvoteAnswer = async (req: AnswerVoteRequest, res: Response): Promise<void> => {
+    await voteAnswer(req, res, 'downvote');
+  };
+
   // add appropriate HTTP verbs and their endpoints to the router.
-  router.post('/addAnswer', addAnswer);
+  router.post('/addAnswer', verifyToken(JWT_SECRET), addAnswer);
+  router.post('/editAnswer', verifyToken(JWT_SECRET), editAnswerRoute);
+  router.post('/deleteAnswer', verifyToken(JWT_SECRET), deleteAnswerRoute);
+  router.post('/upvoteAnswer', verifyToken(JWT_SECRET), upvoteAnswer);
+  router.post('/downvoteAnswer', verifyToken(JWT_SECRET), downvoteAnswer);
 
   return router;
 };
@@ -0,0 +1,159 @@
+import express, { NextFunction, Response, Router } from 'express';
+import { ObjectId } from 'mongodb';
+import multer from 'multer';
+import path from 'path';
+import { AttachmentRequest, AuthenticatedRequest } from '../types';
+import {
+  getAttachment,
+  readAttachmentContent,
+  saveAttachment,
+} from '../models/attachmentOperations';
+import verifyToken from '../middleware/verifyToken';
+import { THUMBNAIL_CONTENT_TYPE, detectContentType, isImage } from '../utils/attachments';
+
+// The largest file that may be attached by default, in bytes
+const DEFAULT_ATTACHMENT_MAX_BYTES = 5 * 1024 * 1024;
+
+// The longest file name kept for an attachment
+const FILENAME_MAX_LENGTH = 255;
+
+const attachmentController = (JWT_SECRET: string) => {
+  const router: Router = express.Router();
+
+  const maxBytes = Number(process.env.ATTACHMENT_MAX_BYTES) || DEFAULT_ATTACHMENT_MAX_BYTES;
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1 },
+  }).single('file');
+
+  /**
+   * Parses the single file of a multipart upload, in a field named `file`, into memory. Files
+   * larger than the limit are rejected before they are read in full.
+   *
+   * @param req The incoming request with the upload.
+   * @param res The HTTP response object, used to reject uploads that are too large or malformed.
+   * @param next The function to call once the file has been parsed.
+   */
+  const parseUpload = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    upload(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+        res.status(413).send(`Files cannot be larger than ${maxBytes} bytes`);
+        return;
+      }
+      if (err) {
+        res.status(400).send('Invalid request');
+        return;
+      }
+      next();
+    });
+  };
+
+  /**
+   * Uploads a file to attach to a question or answer. The type of the file is detected from its
+   * content, and only images, PDF documents and text files are accepted. The file stays unattached
+   * until a post embedding it is saved. If the file is missing, too large or of another type, or
+   * saving it fails, the HTTP response status is updated.
+   *
+   * @param req The AuthenticatedRequest object with the file, parsed by `parseUpload`.
+   * @param res The HTTP response object used to send back the saved attachment.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const uploadAttachmentRoute = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { file } = req;
+    if (!file) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const contentType = detectContentType(file.buffer);
+    if (!contentType) {
+      res.status(415).send('Only images, PDF documents and text files can be attached');
+      return;
+    }
+
+    try {
+      const result = await saveAttachment({
+        filename: path.basename(file.originalname).slice(0, FILENAME_MAX_LENGTH) || 'file',
+        contentType,
+        data: file.buffer,
+        uploadedBy: req.user?.username as string,
+      });
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when uploading attachment: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Sends the content of an attachment, or of its thumbnail. Images are shown inline, while other
+   * files are downloaded under their original names. If the attachment does not exist or cannot
+   * be read, the HTTP response status is updated.
+   *
+   * @param req The AttachmentRequest object containing the ID of the attachment.
+   * @param res The HTTP response object used to send back the content.
+   * @param thumbnail Whether to send the thumbnail rather than the full content.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const sendAttachment = async (
+    req: AttachmentRequest,
+    res: Response,
+    thumbnail: boolean,
+  ): Promise<void> => {
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const attachment = await getAttachment(id);
+      if ('error' in attachment) {
+        if (attachment.error === 'Attachment not found') {
+          res.status(404).send(attachment.error);
+          return;
+        }
+        throw new Error(attachment.error);
+      }
+
+      const data = await readAttachmentContent(attachment, thumbnail);
+      if ('error' in data) {
+        if (data.error === 'Attachment not found') {
+          res.status(404).send(data.error);
+          return;
+        }
+        throw new Error(data.error);
+      }
+
+      if (isImage(attachment.contentType)) {
+        res.set('Content-Disposition', 'inline');
+      } else {
+        res.attachment(attachment.filename);
+      }
+      res.set({
+        'Content-Type':
+          thumbnail && attachment.thumbnail ? THUMBNAIL_CONTENT_TYPE : attachment.contentType,
+        'X-Content-Type-Options': 'nosniff',
+        // The content of an attachment never changes
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      });
+      res.send(data);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when fetching attachment: ${(err as Error).message}`);
+    }
+  };
+
+  router.post('/upload', verifyToken(JWT_SECRET), parseUpload, uploadAttachmentRoute);
+  router.get('/:id', (req: AttachmentRequest, res: Response) => sendAttachment(req, res, false));
+  router.get('/:id/thumbnail', (req: AttachmentRequest, res: Response) =>
+    sendAttachment(req, res, true),
+  );
+
+  return router;
+};
+
+export default attachmentController;
@@ -0,0 +1,185 @@
+import express, { Response, Router } from 'express';
+import { ObjectId } from 'mongodb';
+import {
+  AuthenticatedRequest,
+  ConversationMessage,
+  FakeSOSocket,
+  GetConversationRequest,
+  SendChatMessageRequest,
+} from '../types';
+import {
+  addConversationMessage,
+  createConversation,
+  getConversation,
+  getConversations,
+} from '../models/chatOperations';
+import verifyToken from '../middleware/verifyToken';
+import rateLimit from '../middleware/rateLimit';
+import getAIProvider from '../utils/aiConfig';
+import { userRoom } from '../utils/notifications';
+
+const CHAT_INSTRUCTIONS =
+  'You are helping a user brainstorm questions to ask on a programming question and answer platform. Based on the topic they provide, list several questions that they can ask about the topic, one per line as a bulleted list, and help them refine the questions as the conversation goes on.';
+
+// The longest message a user may send to the chatbot
+const CHAT_MESSAGE_MAX_LENGTH = 2000;
+
+// The number of most recent messages of a conversation sent to the AI provider with each message
+const CHAT_HISTORY_LIMIT = 20;
+
+// How many messages each user may send to the chatbot per window, and the length of the window
+const DEFAULT_CHAT_RATE_LIMIT = 30;
+const DEFAULT_CHAT_RATE_WINDOW = 10 * 60 * 1000;
+
+const chatController = (socket: FakeSOSocket, JWT_SECRET: string) => {
+  const router: Router = express.Router();
+
+  /**
+   * Retrieves the most recently active conversations of the authenticated user with the chatbot,
+   * without their messages. If there is an error, the HTTP response's status is updated.
+   *
+   * @param req The AuthenticatedRequest object; the user is taken from the bearer token.
+   * @param res The HTTP response object used to send back the conversations.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getConversationsRoute = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const result = await getConversations(req.user?.username as string);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when fetching conversations: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when fetching conversations`);
+      }
+    }
+  };
+
+  /**
+   * Retrieves a conversation of the authenticated user with the chatbot, with its messages. If
+   * there is an error, the HTTP response's status is updated.
+   *
+   * @param req The GetConversationRequest object containing the conversation ID as a parameter.
+   * @param res The HTTP response object used to send back the conversation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getConversationRoute = async (
+    req: GetConversationRequest,
+    res: Response,
+  ): Promise<void> => {
+    const { cid } = req.params;
+    if (!ObjectId.isValid(cid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const result = await getConversation(cid, req.user?.username as string);
+      if ('error' in result) {
+        if (result.error === 'Conversation not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when fetching conversation: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when fetching conversation`);
+      }
+    }
+  };
+
+  /**
+   * Sends a message of the authenticated user to the chatbot, continuing one of their
+   * conversations or starting a new one, and replies with the conversation once the chatbot has
+   * answered. While the reply is being generated, its parts are pushed to the user's connections
+   * with `chatChunk` events. The message is kept even if no reply could be generated.
+   *
+   * @param req The SendChatMessageRequest object containing the text of the message and,
+   *            optionally, the ID of the conversation to continue.
+   * @param res The HTTP response object used to send back the conversation with the reply.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const sendMessageRoute = async (req: SendChatMessageRequest, res: Response): Promise<void> => {
+    const { cid, text } = req.body;
+    if (
+      typeof text !== 'string' ||
+      text.trim() === '' ||
+      text.length > CHAT_MESSAGE_MAX_LENGTH ||
+      (cid !== undefined && !ObjectId.isValid(cid))
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const username = req.user?.username as string;
+    const message: ConversationMessage = {
+      role: 'user',
+      content: text.trim(),
+      createdAt: new Date(),
+    };
+
+    try {
+      const conversation = cid
+        ? await addConversationMessage(cid, username, message)
+        : await createConversation(username, message);
+      if ('error' in conversation) {
+        if (conversation.error === 'Conversation not found') {
+          res.status(404).send(conversation.error);
+          return;
+        }
+        throw new Error(conversation.error);
+      }
+
+      const id = conversation._id?.toString() as string;
+      const reply = await getAIProvider().stream(
+        [
+          { role: 'system', content: CHAT_INSTRUCTIONS },
+          ...conversation.messages
+            .slice(-CHAT_HISTORY_LIMIT)
+            .map(m => ({ role: m.role, content: m.content })),
+        ],
+        delta => socket.to(userRoom(username)).emit('chatChunk', { cid: id, delta }),
+      );
+
+      const result = await addConversationMessage(id, username, {
+        role: 'assistant',
+        content: reply,
+        createdAt: new Date(),
+      });
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when generating reply: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when generating reply`);
+      }
+    }
+  };
+
+  const chatRateLimit = rateLimit({
+    limit: Number(process.env.CHAT_RATE_LIMIT) || DEFAULT_CHAT_RATE_LIMIT,
+    windowMs: Number(process.env.CHAT_RATE_WINDOW_MS) || DEFAULT_CHAT_RATE_WINDOW,
+    message: 'Too many messages to the chatbot, please try again later',
+  });
+
+  router.get('/getConversations', verifyToken(JWT_SECRET), getConversationsRoute);
+  router.get('/getConversation/:cid', verifyToken(JWT_SECRET), getConversationRoute);
+  router.post('/sendMessage', verifyToken(JWT_SECRET), chatRateLimit, sendMessageRoute);
+
+  return router;
+};
+
+export default chatController;
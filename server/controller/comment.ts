@@ -1,9 +1,33 @@
 import express, { Response } from 'express';
 import { ObjectId } from 'mongodb';
-import { Comment, AddCommentRequest, FakeSOSocket } from '../types';
-import { addComment, populateDocument, saveComment } from '../models/application';
+import {
+  Answer,
+  Comment,
+  AddCommentRequest,
+  CommentVoteRequest,
+  FakeSOSocket,
+  EditCommentRequest,
+  DeleteCommentRequest,
+  Question,
+} from '../types';
+import {
+  addComment,
+  addVoteToComment,
+  deleteComment,
+  editComment,
+  isPostOwnerOrAsker,
+  populateDocument,
+  saveComment,
+} from '../models/application';
+import verifyToken, { isActingUser } from '../middleware/verifyToken';
+import { hasPrivilege, privilegeError } from '../utils/privileges';
+import { sanitizeContent, validateContent } from '../utils/content';
+import { mentionNotifications, notifyUsers } from '../utils/notifications';
+import { findPostingRestriction } from '../models/closeOperations';
+import { findQuestionOf } from '../models/moderationOperations';
+import { redactHiddenPosts } from '../utils/hiddenPosts';
 
-const commentController = (socket: FakeSOSocket) => {
+const commentController = (socket: FakeSOSocket, JWT_SECRET: string) => {
   const router = express.Router();
 
   /**
@@ -19,7 +43,6 @@ const commentController = (socket: FakeSOSocket) => {
     (req.body.type === 'question' || req.body.type === 'answer') &&
     !!req.body.comment &&
     req.body.comment.text !== undefined &&
-    req.body.comment.commentBy !== undefined &&
     req.body.comment.commentDateTime !== undefined;
 
   /**
@@ -30,7 +53,7 @@ const commentController = (socket: FakeSOSocket) => {
    * @returns `true` if the coment is valid, otherwise `false`.
    */
   const isCommentValid = (comment: Comment): boolean =>
-    comment.text !== undefined &&
+    typeof comment.text === 'string' &&
     comment.text !== '' &&
     comment.commentBy !== undefined &&
     comment.commentBy !== '' &&
@@ -38,8 +61,12 @@ const commentController = (socket: FakeSOSocket) => {
     comment.commentDateTime !== null;
 
   /**
-   * Handles adding a new comment to the specified question or answer. The comment is first validated and then saved.
-   * If the comment is invalid or saving fails, the HTTP response status is updated.
+   * Handles adding a new comment to the specified question or answer. The comment is first
+   * validated, with its Markdown text sanitized, and then saved. The comment is always attributed
+   * to the authenticated user; a request naming a different `commentBy` is rejected, as is a
+   * comment on a closed or locked question. Users without the reputation to comment may only
+   * comment on their own posts and on the answers to their questions. If the comment is invalid
+   * or saving fails, the HTTP response status is updated.
    *
    * @param req The AddCommentRequest object containing the comment data.
    * @param res The HTTP response object used to send back the result of the operation.
@@ -60,7 +87,13 @@ const commentController = (socket: FakeSOSocket) => {
       return;
     }
 
-    const { comment, type } = req.body;
+    if (!isActingUser(req, req.body.comment.commentBy)) {
+      res.status(403).send('Cannot post a comment as another user');
+      return;
+    }
+
+    const { type } = req.body;
+    const comment: Comment = { ...req.body.comment, commentBy: req.user?.username as string };
 
     if (!isCommentValid(comment)) {
       res.status(400).send('Invalid comment body');
@@ -68,6 +101,28 @@ const commentController = (socket: FakeSOSocket) => {
     }
 
     try {
+      // Users may always comment on their own posts and on the answers to their questions
+      if (
+        !hasPrivilege(req.user, 'comment') &&
+        !(await isPostOwnerOrAsker(id, type, comment.commentBy))
+      ) {
+        res.status(403).send(privilegeError('comment'));
+        return;
+      }
+
+      comment.text = sanitizeContent(comment.text);
+      const contentError = validateContent(comment.text);
+      if (contentError) {
+        res.status(400).send(contentError);
+        return;
+      }
+
+      const restriction = await findPostingRestriction(id, type);
+      if (restriction) {
+        res.status(403).send(restriction);
+        return;
+      }
+
       const comFromDb = await saveComment(comment);
 
       if ('error' in comFromDb) {
@@ -89,16 +144,244 @@ const commentController = (socket: FakeSOSocket) => {
       }
 
       socket.emit('commentUpdate', {
-        result: populatedDoc,
+        result: redactHiddenPosts(populatedDoc as Question | Answer),
         type,
       });
+      await notifyUsers(socket, [
+        { type: 'comment', actor: comment.commentBy, post: id, postType: type },
+        ...mentionNotifications(comment.text, {
+          actor: comment.commentBy,
+          post: comFromDb._id?.toString() as string,
+          postType: 'comment',
+          [type]: id,
+        }),
+      ]);
       res.json(comFromDb);
     } catch (err: unknown) {
       res.status(500).send(`Error when adding comment: ${(err as Error).message}`);
     }
   };
 
-  router.post('/addComment', addCommentRoute);
+  /**
+   * Checks if the provided request identifies a comment and the question or answer it belongs to.
+   *
+   * @param req The request object containing the comment and parent IDs.
+   *
+   * @returns `true` if the request is valid, otherwise `false`.
+   */
+  const isTargetValid = (req: EditCommentRequest | DeleteCommentRequest): boolean =>
+    !!req.body.id &&
+    ObjectId.isValid(req.body.id) &&
+    (req.body.type === 'question' || req.body.type === 'answer') &&
+    !!req.body.cid &&
+    ObjectId.isValid(req.body.cid);
+
+  /**
+   * Emits the question or answer a comment belongs to after one of its comments has changed.
+   *
+   * @param id The ID of the question or answer.
+   * @param type The type of the parent, either 'question' or 'answer'.
+   */
+  const emitParentUpdate = async (id: string, type: 'question' | 'answer'): Promise<void> => {
+    const populatedDoc = await populateDocument(id, type);
+
+    if (populatedDoc && 'error' in populatedDoc) {
+      throw new Error(populatedDoc.error);
+    }
+
+    socket.emit('commentUpdate', {
+      result: redactHiddenPosts(populatedDoc as Question | Answer),
+      type,
+    });
+  };
+
+  /**
+   * Handles editing the text of a comment. Only the author of the comment, or a user with the
+   * reputation to edit others' posts, may edit it, and each edit is recorded as a revision. The
+   * question or answer the comment belongs to is emitted to all clients. If the request or the new
+   * text is invalid, or the edit fails, the HTTP response status is updated.
+   *
+   * @param req The EditCommentRequest object containing the comment, its parent and the new text.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const editCommentRoute = async (req: EditCommentRequest, res: Response): Promise<void> => {
+    if (!isTargetValid(req) || typeof req.body.text !== 'string' || !req.body.text) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { id, type, cid } = req.body;
+
+    try {
+      const text = sanitizeContent(req.body.text);
+      const contentError = validateContent(text);
+      if (contentError) {
+        res.status(400).send(contentError);
+        return;
+      }
+
+      const result = await editComment(
+        cid,
+        req.user?.username as string,
+        text,
+        hasPrivilege(req.user, 'editOthers'),
+      );
+      if ('error' in result) {
+        if (result.error === 'Comment not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        if (result.error === 'Only the author can edit this comment') {
+          res.status(403).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+
+      await emitParentUpdate(id, type);
+      res.json(result);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when editing comment: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Handles soft-deleting a comment and removing it from the question or answer it was posted on.
+   * Only the author of the comment may delete it. The parent is emitted to all clients.
+   * If the request is invalid or the deletion fails, the HTTP response status is updated.
+   *
+   * @param req The DeleteCommentRequest object containing the comment and its parent.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const deleteCommentRoute = async (req: DeleteCommentRequest, res: Response): Promise<void> => {
+    if (!isTargetValid(req)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { id, type, cid } = req.body;
+
+    try {
+      const result = await deleteComment(id, type, cid, req.user?.username as string);
+      if ('error' in result) {
+        if (result.error === 'Comment not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        if (result.error === 'Only the author can delete this comment') {
+          res.status(403).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+
+      await emitParentUpdate(id, type);
+      res.json(result);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when deleting comment: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Handles toggling a vote on a comment. Downvoting requires the reputation to downvote. The
+   * updated votes are emitted to all clients along with the question the comment is shown on,
+   * found on the server. If the request is invalid or the vote fails, the HTTP response status is
+   * updated.
+   *
+   * @param req The CommentVoteRequest object containing the comment ID and username.
+   * @param res The HTTP response object used to send back the result of the operation.
+   * @param type The type of the vote, either 'upvote' or 'downvote'.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const voteComment = async (
+    req: CommentVoteRequest,
+    res: Response,
+    type: 'upvote' | 'downvote',
+  ): Promise<void> => {
+    const { cid } = req.body;
+    if (!cid || !ObjectId.isValid(cid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!isActingUser(req, req.body.username)) {
+      res.status(403).send('Cannot vote as another user');
+      return;
+    }
+
+    if (type === 'downvote' && !hasPrivilege(req.user, 'downvote')) {
+      res.status(403).send(privilegeError('downvote'));
+      return;
+    }
+
+    try {
+      const username = req.user?.username as string;
+      const status = await addVoteToComment(cid, username, type);
+      if ('error' in status) {
+        if (status.error === 'Comment not found') {
+          res.status(404).send(status.error);
+          return;
+        }
+        throw new Error(status.error);
+      }
+
+      // The question is looked up rather than taken from the request, which could name any
+      const qid = await findQuestionOf('comment', cid);
+      if (qid) {
+        socket.emit('voteUpdate', {
+          qid,
+          id: cid,
+          type: 'comment',
+          upVotes: status.upVotes,
+          downVotes: status.downVotes,
+        });
+        if (status.upVotes.includes(username) || status.downVotes.includes(username)) {
+          await notifyUsers(socket, [
+            { type: 'vote', actor: username, post: cid, postType: 'comment', question: qid },
+          ]);
+        }
+      }
+      res.json(status);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when ${type}ing: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Handles upvoting a comment. The request must contain the comment ID (cid) and a bearer token.
+   *
+   * @param req The CommentVoteRequest object containing the comment ID and username.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const upvoteComment = async (req: CommentVoteRequest, res: Response): Promise<void> => {
+    await voteComment(req, res, 'upvote');
+  };
+
+  /**
+   * Handles downvoting a comment. The request must contain the comment ID (cid) and a bearer
+   * token.
+   *
+   * @param req The CommentVoteRequest object containing the comment ID and username.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const downvoteComment = async (req: CommentVoteRequest, res: Response): Promise<void> => {
+    await voteComment(req, res, 'downvote');
+  };
+
+  router.post('/addComment', verifyToken(JWT_SECRET), addCommentRoute);
+  router.post('/editComment', verifyToken(JWT_SECRET), editCommentRoute);
+  router.post('/deleteComment', verifyToken(JWT_SECRET), deleteCommentRoute);
+  router.post('/upvoteComment', verifyToken(JWT_SECRET), upvoteComment);
+  router.post('/downvoteComment', verifyToken(JWT_SECRET), downvoteComment);
 
   return router;
 };
@@ -1,8 +1,10 @@
 import express, { Response } from 'express';
 import { google } from 'googleapis';
 import jwt from 'jsonwebtoken';
+import { ObjectId } from 'mongodb';
 import { GoogleOAuthCallbackRequest } from '../types';
 import { findOrSaveGoogleUser } from '../models/userOperations';
+import { createSession } from '../models/sessionOperations';
 
 const googleAuthController = (JWT_SECRET: string) => {
   const router = express.Router();
@@ -41,8 +43,28 @@ const googleAuthController = (JWT_SECRET: string) => {
       if ('error' in googleUserFromDb) {
         throw new Error(googleUserFromDb.error);
       }
-      const token = jwt.sign({ userId: googleUserFromDb._id }, JWT_SECRET, { expiresIn: '1h' });
-      res.json({ message: 'Authentication with Google successful', token, user: googleUserFromDb });
+      const session = await createSession(
+        googleUserFromDb._id as ObjectId,
+        req.get('user-agent') || 'Unknown device',
+      );
+      if ('error' in session) {
+        throw new Error(session.error);
+      }
+      const token = jwt.sign(
+        {
+          userId: googleUserFromDb._id,
+          role: googleUserFromDb.role ?? 'user',
+          sessionId: session.session._id,
+        },
+        JWT_SECRET,
+        { expiresIn: '1h' },
+      );
+      res.json({
+        message: 'Authentication with Google successful',
+        token,
+        refreshToken: session.refreshToken,
+        user: googleUserFromDb,
+      });
     } catch (err) {
       res.status(500).send('Internal Server Error');
     }
@@ -0,0 +1,266 @@
+import express, { Response, Router } from 'express';
+import { ObjectId } from 'mongodb';
+import {
+  FakeSOSocket,
+  FlagPostRequest,
+  FlagReason,
+  FlagReviewAction,
+  ModerationListRequest,
+  Question,
+  ReviewFlagsRequest,
+  VoteTargetType,
+} from '../types';
+import {
+  flagPost,
+  getModerationLog,
+  getModerationQueue,
+  reviewFlags,
+} from '../models/moderationOperations';
+import { populateDocument } from '../models/application';
+import verifyToken from '../middleware/verifyToken';
+import { hasPrivilege, privilegeError } from '../utils/privileges';
+import { redactHiddenPosts } from '../utils/hiddenPosts';
+
+const POST_TYPES = ['question', 'answer', 'comment'];
+const FLAG_REASONS = ['spam', 'offensive', 'lowQuality', 'other'];
+const REVIEW_ACTIONS = ['approve', 'dismiss', 'delete'];
+
+// The longest explanation a user may give with a flag
+const FLAG_DETAILS_MAX_LENGTH = 500;
+
+// How many users must flag a post for it to be hidden until a moderator reviews it
+const DEFAULT_FLAG_HIDE_THRESHOLD = 3;
+
+const moderationController = (socket: FakeSOSocket, JWT_SECRET: string) => {
+  const router: Router = express.Router();
+
+  const flagHideThreshold = Number(process.env.FLAG_HIDE_THRESHOLD) || DEFAULT_FLAG_HIDE_THRESHOLD;
+
+  /**
+   * Emits the question a flagged post is shown on to all clients, so that they hide, show or
+   * remove the post.
+   *
+   * @param qid The ID of the question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const emitQuestion = async (qid: string): Promise<void> => {
+    const question = await populateDocument(qid, 'question');
+    if ('error' in question) {
+      throw new Error(question.error);
+    }
+    socket.emit('questionUpdate', redactHiddenPosts(question as Question));
+  };
+
+  /**
+   * Parses the most entries to list from the query of a request.
+   *
+   * @param req The ModerationListRequest object, with an optional limit.
+   *
+   * @returns The limit, undefined if none was given, or NaN if it is not a positive integer.
+   */
+  const parseLimit = (req: ModerationListRequest): number | undefined => {
+    if (req.query.limit === undefined) {
+      return undefined;
+    }
+    const limit = Number(req.query.limit);
+    return Number.isInteger(limit) && limit > 0 ? limit : NaN;
+  };
+
+  /**
+   * Flags a question, answer or comment for the moderators to review. Once enough users flagged
+   * the post, it is hidden and the question it is shown on is emitted to all clients. If the
+   * request is invalid or the flag cannot be recorded, the HTTP response status is updated.
+   *
+   * @param req The FlagPostRequest object containing the post, its type, the reason for the flag
+   *            and, optionally, its details.
+   * @param res The HTTP response object used to send back the flag.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const flagPostRoute = async (req: FlagPostRequest, res: Response): Promise<void> => {
+    const { id, type, reason, details } = req.body;
+    if (
+      !id ||
+      !ObjectId.isValid(id) ||
+      !POST_TYPES.includes(type) ||
+      !FLAG_REASONS.includes(reason) ||
+      (details !== undefined &&
+        (typeof details !== 'string' || details.length > FLAG_DETAILS_MAX_LENGTH)) ||
+      (reason === 'other' && !details?.trim())
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const result = await flagPost(
+        type as VoteTargetType,
+        id,
+        req.user?.username as string,
+        reason as FlagReason,
+        details?.trim() || undefined,
+        flagHideThreshold,
+      );
+      if ('error' in result) {
+        if (result.error === 'Post not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        if (
+          result.error === 'You cannot flag your own post' ||
+          result.error === 'Already flagged this post'
+        ) {
+          res.status(400).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+
+      if (result.hidden) {
+        await emitQuestion(result.flag.question.toString());
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when flagging post: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when flagging post`);
+      }
+    }
+  };
+
+  /**
+   * Retrieves the moderation queue: the posts with pending flags, the most flagged first. Only
+   * users with the moderation privilege may see it.
+   *
+   * @param req The ModerationListRequest object containing, optionally, the most posts to list.
+   * @param res The HTTP response object used to send back the queue.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getQueueRoute = async (req: ModerationListRequest, res: Response): Promise<void> => {
+    const limit = parseLimit(req);
+    if (Number.isNaN(limit)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasPrivilege(req.user, 'moderate')) {
+      res.status(403).send(privilegeError('moderate'));
+      return;
+    }
+
+    try {
+      const result = await getModerationQueue(limit);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when fetching moderation queue: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when fetching moderation queue`);
+      }
+    }
+  };
+
+  /**
+   * Reviews the pending flags of a post: approves them, hiding the post, dismisses them, showing
+   * it again, or deletes the post. Only users with the moderation privilege may do this. The
+   * question the post is shown on is emitted to all clients.
+   *
+   * @param req The ReviewFlagsRequest object containing the post, its type and what to do.
+   * @param res The HTTP response object used to send back the entry recorded in the audit log.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const reviewFlagsRoute = async (req: ReviewFlagsRequest, res: Response): Promise<void> => {
+    const { id, type, action } = req.body;
+    if (
+      !id ||
+      !ObjectId.isValid(id) ||
+      !POST_TYPES.includes(type) ||
+      !REVIEW_ACTIONS.includes(action)
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasPrivilege(req.user, 'moderate')) {
+      res.status(403).send(privilegeError('moderate'));
+      return;
+    }
+
+    try {
+      const result = await reviewFlags(
+        type as VoteTargetType,
+        id,
+        req.user?.username as string,
+        action as FlagReviewAction,
+      );
+      if ('error' in result) {
+        if (result.error === 'No pending flags for this post') {
+          res.status(404).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+
+      await emitQuestion(result.question.toString());
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when reviewing flags: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when reviewing flags`);
+      }
+    }
+  };
+
+  /**
+   * Retrieves the most recent entries of the audit log of moderators' actions. Only users with
+   * the moderation privilege may see it.
+   *
+   * @param req The ModerationListRequest object containing, optionally, the most entries to list.
+   * @param res The HTTP response object used to send back the entries.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getLogRoute = async (req: ModerationListRequest, res: Response): Promise<void> => {
+    const limit = parseLimit(req);
+    if (Number.isNaN(limit)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasPrivilege(req.user, 'moderate')) {
+      res.status(403).send(privilegeError('moderate'));
+      return;
+    }
+
+    try {
+      const result = await getModerationLog(limit);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when fetching moderation log: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when fetching moderation log`);
+      }
+    }
+  };
+
+  router.post('/flag', verifyToken(JWT_SECRET), flagPostRoute);
+  router.get('/getQueue', verifyToken(JWT_SECRET), getQueueRoute);
+  router.post('/review', verifyToken(JWT_SECRET), reviewFlagsRoute);
+  router.get('/getLog', verifyToken(JWT_SECRET), getLogRoute);
+
+  return router;
+};
+
+export default moderationController;
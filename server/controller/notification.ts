@@ -0,0 +1,86 @@
+import express, { Response, Router } from 'express';
+import { ObjectId } from 'mongodb';
+import { AuthenticatedRequest, MarkNotificationsReadRequest } from '../types';
+import { getNotifications, markNotificationsRead } from '../models/notificationOperations';
+import verifyToken from '../middleware/verifyToken';
+
+const notificationController = (JWT_SECRET: string) => {
+  const router: Router = express.Router();
+
+  /**
+   * Retrieves the most recent notifications of the authenticated user along with the number of
+   * unread ones. If there is an error, the HTTP response's status is updated.
+   *
+   * @param req The AuthenticatedRequest object; the user is taken from the bearer token.
+   * @param res The HTTP response object used to send back the notifications.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getNotificationsRoute = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const result = await getNotifications(req.user?.username as string);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when fetching notifications: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when fetching notifications`);
+      }
+    }
+  };
+
+  /**
+   * Checks if the provided request lists valid notification IDs, if it lists any.
+   *
+   * @param req The incoming request containing the notification IDs.
+   *
+   * @returns `true` if the request is valid, otherwise `false`.
+   */
+  const isMarkReadRequestValid = (req: MarkNotificationsReadRequest): boolean =>
+    req.body.nids === undefined ||
+    (Array.isArray(req.body.nids) && req.body.nids.every(nid => ObjectId.isValid(nid)));
+
+  /**
+   * Marks notifications of the authenticated user as read: the ones listed in the request, or all
+   * of them if none are listed. If the request is invalid or there is an error, the HTTP
+   * response's status is updated.
+   *
+   * @param req The MarkNotificationsReadRequest object containing the notification IDs.
+   * @param res The HTTP response object used to send back the number of unread notifications.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const markAsReadRoute = async (
+    req: MarkNotificationsReadRequest,
+    res: Response,
+  ): Promise<void> => {
+    if (!isMarkReadRequestValid(req)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const result = await markNotificationsRead(req.user?.username as string, req.body.nids);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when marking notifications as read: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when marking notifications as read`);
+      }
+    }
+  };
+
+  router.get('/getNotifications', verifyToken(JWT_SECRET), getNotificationsRoute);
+  router.post('/markAsRead', verifyToken(JWT_SECRET), markAsReadRoute);
+
+  return router;
+};
+
+export default notificationController;
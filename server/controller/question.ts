@@ -1,6 +1,5 @@
 import express, { Response } from 'express';
 import { ObjectId } from 'mongodb';
-import OpenAI from 'openai';
 import {
   Question,
   FindQuestionRequest,
@@ -8,43 +7,98 @@ import {
   AddQuestionRequest,
   VoteRequest,
   FakeSOSocket,
+  EditQuestionRequest,
+  DeleteQuestionRequest,
+  AcceptAnswerRequest,
+  UnacceptAnswerRequest,
+  AIAnswerFeedbackResponse,
+  RateAIAnswerRequest,
+  FlagAIAnswerRequest,
+  HideAIAnswerRequest,
+  AIAnswerReportRequest,
+  SimilarQuestionsRequest,
+  QuestionResponse,
+  CloseReason,
+  VoteToCloseRequest,
+  VoteToReopenRequest,
+  LockQuestionRequest,
+  Tag,
+  User,
 } from '../types';
 import {
   addVoteToQuestion,
+  deleteQuestion,
+  editQuestion,
   fetchAndIncrementQuestionViewsById,
-  filterQuestionsByAskedBy,
-  filterQuestionsBySearch,
-  getQuestionsByOrder,
+  getQuestionPage,
   processTags,
   populateDocument,
   saveQuestion,
+  setAcceptedAnswer,
 } from '../models/application';
+import verifyToken, { identifyUser, isActingUser } from '../middleware/verifyToken';
+import { hasPrivilege, privilegeError } from '../utils/privileges';
+import { sanitizeContent, validateContent } from '../utils/content';
+import { attachToPost } from '../models/attachmentOperations';
+import { mentionNotifications, notifyUsers } from '../utils/notifications';
+import { enqueueAIAnswer } from '../utils/aiAnswerQueue';
+import {
+  flagAIAnswer,
+  getAIAnswerReport,
+  rateAIAnswer,
+  setAIAnswerHidden,
+} from '../models/aiAnswerOperations';
+import { findSimilarQuestions } from '../models/duplicateOperations';
+import { setQuestionLock, voteToClose, voteToReopen } from '../models/closeOperations';
+import { logModeratorAction } from '../models/moderationOperations';
+import { findNewTagNames } from '../models/tagOperations';
+import { normalizeTags } from '../utils/tags';
+import { redactHiddenPosts } from '../utils/hiddenPosts';
+
+const CLOSE_REASONS: CloseReason[] = ['duplicate', 'offTopic', 'needsDetails', 'opinionBased'];
+
+// The number of votes needed to close or reopen a question, unless a moderator votes
+const DEFAULT_CLOSE_VOTES_NEEDED = 3;
+const DEFAULT_REOPEN_VOTES_NEEDED = 3;
 
-const questionController = (socket: FakeSOSocket) => {
+const questionController = (socket: FakeSOSocket, JWT_SECRET: string) => {
   const router = express.Router();
+  const closeVotesNeeded = Number(process.env.CLOSE_VOTES_NEEDED) || DEFAULT_CLOSE_VOTES_NEEDED;
+  const reopenVotesNeeded = Number(process.env.REOPEN_VOTES_NEEDED) || DEFAULT_REOPEN_VOTES_NEEDED;
 
   /**
-   * Retrieves a list of questions filtered by a search term and ordered by a specified criterion.
-   * If there is an error, the HTTP response's status is updated.
+   * Retrieves a page of questions filtered by a search term and ordered by a specified criterion.
+   * The response holds the questions, the total number of matching questions and, unless this is
+   * the last page, a cursor to pass back for the next one. If there is an error, the HTTP
+   * response's status is updated.
    *
-   * @param req The FindQuestionRequest object containing the query parameters `order` and `search`.
-   * @param res The HTTP response object used to send back the filtered list of questions.
+   * @param req The FindQuestionRequest object containing the query parameters `order`, `search`,
+   *            `askedBy`, `limit` and `cursor`.
+   * @param res The HTTP response object used to send back the page of questions.
    *
    * @returns A Promise that resolves to void.
    */
   const getQuestionsByFilter = async (req: FindQuestionRequest, res: Response): Promise<void> => {
-    const { order } = req.query;
-    const { search } = req.query;
-    const { askedBy } = req.query;
+    const { order, search, askedBy, cursor } = req.query;
+    const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
     try {
-      let qlist: Question[] = await getQuestionsByOrder(order);
-      // Filter by askedBy if provided
-      if (askedBy) {
-        qlist = filterQuestionsByAskedBy(qlist, askedBy);
-      }
-      // Filter by search keyword and tags
-      const resqlist: Question[] = await filterQuestionsBySearch(qlist, search);
-      res.json(resqlist);
+      const result = await getQuestionPage(order, { search, askedBy, limit, cursor });
+
+      if ('error' in result) {
+        if (result.error === 'Invalid cursor') {
+          res.status(400).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+
+      res.json(result);
     } catch (err: unknown) {
       if (err instanceof Error) {
         res.status(500).send(`Error when fetching questions by filter: ${err.message}`);
@@ -81,8 +135,8 @@ const questionController = (socket: FakeSOSocket) => {
       const q = await fetchAndIncrementQuestionViewsById(qid, username);
 
       if (q && !('error' in q)) {
-        socket.emit('viewsUpdate', q);
-        res.json(q);
+        socket.emit('viewsUpdate', redactHiddenPosts(q));
+        res.json(redactHiddenPosts(q, req.user));
         return;
       }
 
@@ -106,7 +160,7 @@ const questionController = (socket: FakeSOSocket) => {
   const isQuestionBodyValid = (question: Question): boolean =>
     question.title !== undefined &&
     question.title !== '' &&
-    question.text !== undefined &&
+    typeof question.text === 'string' &&
     question.text !== '' &&
     question.tags !== undefined &&
     question.tags.length > 0 &&
@@ -114,46 +168,51 @@ const questionController = (socket: FakeSOSocket) => {
     question.askedBy !== '' &&
     question.askDateTime !== undefined &&
     question.askDateTime !== null;
+
   /**
-   * Function to call openAI API to get an ai generated answer. Gets called automatically when creating a question.
-   * @param text is the string that will be passed to the API to generate an answer for
-   * @returns a promise that resolves to a string
+   * Normalizes the tags of a question being asked or edited, and checks that the user may create
+   * the ones that do not exist yet.
+   *
+   * @param user The user asking or editing the question.
+   * @param tags The tags sent by the client.
+   *
+   * @returns The tags with normalized names, or the HTTP status and message to send back.
    */
-  const generateAIAnswer = async (text: string): Promise<string> => {
-    const openai = new OpenAI({
-      organization: 'org-ILR5PGHDz2TMN7TbELizo9ld',
-      project: 'proj_HRv67erRpJfTx2bUo3Qt7htF',
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-    try {
-      const aiAnswer = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are answering a question on a question and answer platform. Please provide brief answers in markdown.',
-          },
-          {
-            role: 'user',
-            content: text,
-          },
-        ],
-      });
-      if (!aiAnswer || !aiAnswer.choices || !aiAnswer.choices[0] || !aiAnswer.choices[0].message) {
-        throw new Error('Invalid response structure from OpenAI API');
-      }
-      return aiAnswer.choices[0].message.content as unknown as string;
-    } catch (error) {
-      if (error instanceof Error) {
-        return 'Error: Failed to generate AI answer. Please try again later.';
-      }
-      return 'Error: An unexpected issue occurred while generating the answer.';
+  const prepareTags = async (
+    user: User | undefined,
+    tags: Tag[],
+  ): Promise<Tag[] | { status: number; error: string }> => {
+    const normalized = normalizeTags(tags);
+    if ('error' in normalized) {
+      return { status: 400, error: normalized.error };
+    }
+    if (hasPrivilege(user, 'createTag')) {
+      return normalized;
+    }
+
+    const newNames = await findNewTagNames(normalized.map(t => t.name));
+    if ('error' in newNames) {
+      throw new Error(newNames.error);
+    }
+    if (newNames.length > 0) {
+      return {
+        status: 403,
+        error: `${privilegeError('createTag')}. New tags: ${newNames.join(', ')}`,
+      };
     }
+    return normalized;
   };
+
   /**
-   * Adds a new question to the database. The question is first validated and then saved.
-   * If the tags are invalid or saving the question fails, the HTTP response status is updated.
+   * Adds a new question to the database. The question is first validated, with its Markdown text
+   * sanitized and its tags normalized, and then saved. Creating tags that do not exist yet needs
+   * the reputation to create tags.
+   * The question is always attributed to the authenticated user; a request naming a different
+   * `askedBy` is rejected. If the tags are invalid or saving the question fails, the HTTP
+   * response status is updated. The saved question is pushed to clients with a `newQuestion`
+   * event, so that they can add it to their lists; updates to existing questions use
+   * `questionUpdate` instead. The question is saved with a pending AI answer, which is generated
+   * in the background and pushed to clients with an `aiAnswerUpdate` event.
    *
    * @param req The AddQuestionRequest object containing the question data.
    * @param res The HTTP response object used to send back the result of the operation.
@@ -161,28 +220,43 @@ const questionController = (socket: FakeSOSocket) => {
    * @returns A Promise that resolves to void.
    */
   const addQuestion = async (req: AddQuestionRequest, res: Response): Promise<void> => {
-    if (!isQuestionBodyValid(req.body)) {
+    if (!isActingUser(req, req.body.askedBy)) {
+      res.status(403).send('Cannot post a question as another user');
+      return;
+    }
+    const question: Question = { ...req.body, askedBy: req.user?.username as string };
+    if (!isQuestionBodyValid(question)) {
       res.status(400).send('Invalid question body');
       return;
     }
-    const question: Question = req.body;
     try {
+      question.text = sanitizeContent(question.text);
+      const contentError = validateContent(question.text);
+      if (contentError) {
+        res.status(400).send(contentError);
+        return;
+      }
+      const tags = await prepareTags(req.user, question.tags);
+      if ('status' in tags) {
+        res.status(tags.status).send(tags.error);
+        return;
+      }
       const questionswithtags: Question = {
         ...question,
-        tags: await processTags(question.tags),
+        tags: await processTags(tags),
       };
       if (questionswithtags.tags.length === 0) {
         throw new Error('Invalid tags');
       }
-      const chatAnswer = await generateAIAnswer(question.text);
-      if (chatAnswer.startsWith('Error:')) {
-        throw new Error(chatAnswer);
-      }
-      questionswithtags.aiGeneratedAnswer = chatAnswer;
+      // The AI answer is generated in the background and pushed to clients once it is ready
+      questionswithtags.aiGeneratedAnswer = undefined;
+      questionswithtags.aiAnswerStatus = 'pending';
       const result = await saveQuestion(questionswithtags);
       if ('error' in result) {
         throw new Error(result.error);
       }
+      // Files embedded in the text are tied to the question, to be removed along with it
+      await attachToPost(result.text, result.askedBy, 'question', result._id?.toString() as string);
 
       // Populates the fields of the question that was added, and emits the new object
       const populatedQuestion = await populateDocument(result._id?.toString(), 'question');
@@ -191,8 +265,17 @@ const questionController = (socket: FakeSOSocket) => {
         throw new Error(populatedQuestion.error);
       }
 
-      socket.emit('questionUpdate', populatedQuestion as Question);
+      socket.emit('newQuestion', populatedQuestion as Question);
+      await notifyUsers(
+        socket,
+        mentionNotifications(result.text, {
+          actor: result.askedBy,
+          post: result._id?.toString() as string,
+          postType: 'question',
+        }),
+      );
       res.json(result);
+      enqueueAIAnswer(socket, result._id?.toString() as string, result.text);
     } catch (err: unknown) {
       if (err instanceof Error) {
         res.status(500).send(`Error when saving question: ${err.message}`);
@@ -203,7 +286,9 @@ const questionController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Helper function to handle upvoting or downvoting a question.
+   * Helper function to handle upvoting or downvoting a question. The vote is cast by the
+   * authenticated user; a request naming a different `username` is rejected, as is a downvote
+   * from a user without the reputation to downvote.
    *
    * @param req The VoteRequest object containing the question ID and the username.
    * @param res The HTTP response object used to send back the result of the operation.
@@ -216,12 +301,23 @@ const questionController = (socket: FakeSOSocket) => {
     res: Response,
     type: 'upvote' | 'downvote',
   ): Promise<void> => {
-    if (!req.body.qid || !req.body.username) {
+    if (!req.body.qid) {
       res.status(400).send('Invalid request');
       return;
     }
 
-    const { qid, username } = req.body;
+    if (!isActingUser(req, req.body.username)) {
+      res.status(403).send('Cannot vote as another user');
+      return;
+    }
+
+    if (type === 'downvote' && !hasPrivilege(req.user, 'downvote')) {
+      res.status(403).send(privilegeError('downvote'));
+      return;
+    }
+
+    const { qid } = req.body;
+    const username = req.user?.username as string;
 
     try {
       let status;
@@ -236,16 +332,32 @@ const questionController = (socket: FakeSOSocket) => {
       }
 
       // Emit the updated vote counts to all connected clients
-      socket.emit('voteUpdate', { qid, upVotes: status.upVotes, downVotes: status.downVotes });
+      socket.emit('voteUpdate', {
+        qid,
+        id: qid,
+        type: 'question',
+        upVotes: status.upVotes,
+        downVotes: status.downVotes,
+      });
+      if (status.upVotes.includes(username) || status.downVotes.includes(username)) {
+        await notifyUsers(socket, [
+          { type: 'vote', actor: username, post: qid, postType: 'question' },
+        ]);
+      }
       res.json({ msg: status.msg, upVotes: status.upVotes, downVotes: status.downVotes });
-    } catch (err) {
-      res.status(500).send(`Error when ${type}ing: ${(err as Error).message}`);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when ${type}ing: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when ${type}ing`);
+      }
     }
   };
 
   /**
-   * Handles upvoting a question. The request must contain the question ID (qid) and the username.
-   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   * Handles upvoting a question. The request must contain the question ID (qid) and a bearer token.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message
+   * are returned.
    *
    * @param req The VoteRequest object containing the question ID and the username.
    * @param res The HTTP response object used to send back the result of the operation.
@@ -257,8 +369,9 @@ const questionController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Handles downvoting a question. The request must contain the question ID (qid) and the username.
-   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   * Handles downvoting a question. The request must contain the question ID (qid) and a bearer
+   * token. If the request is invalid or an error occurs, the appropriate HTTP response status and
+   * message are returned.
    *
    * @param req The VoteRequest object containing the question ID and the username.
    * @param res The HTTP response object used to send back the result of the operation.
@@ -269,12 +382,618 @@ const questionController = (socket: FakeSOSocket) => {
     voteQuestion(req, res, 'downvote');
   };
 
+  /**
+   * Checks if the provided edit request contains a valid question ID and at least one field to
+   * edit, none of which are empty.
+   *
+   * @param req The EditQuestionRequest object to validate.
+   *
+   * @returns `true` if the request is valid, otherwise `false`.
+   */
+  const isEditRequestValid = (req: EditQuestionRequest): boolean => {
+    const { qid, title, text, tags } = req.body;
+    return (
+      !!qid &&
+      ObjectId.isValid(qid) &&
+      (title !== undefined || text !== undefined || tags !== undefined) &&
+      title !== '' &&
+      (text === undefined || (typeof text === 'string' && text !== '')) &&
+      (tags === undefined || (Array.isArray(tags) && tags.length > 0))
+    );
+  };
+
+  /**
+   * Edits the title, text and/or tags of a question. Only the author of the question, or a user
+   * with the reputation to edit others' posts, may edit it, and each edit is recorded as a
+   * revision. The edited question is emitted to all clients. Tags are normalized, and creating tags
+   * that do not exist yet needs the reputation to create tags. If the request or the new text is
+   * invalid, or the edit fails, the HTTP response status is updated.
+   *
+   * @param req The EditQuestionRequest object containing the question ID and the fields to edit.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const editQuestionRoute = async (req: EditQuestionRequest, res: Response): Promise<void> => {
+    if (!isEditRequestValid(req)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { qid, title } = req.body;
+
+    try {
+      const text = req.body.text === undefined ? undefined : sanitizeContent(req.body.text);
+      const contentError = text === undefined ? undefined : validateContent(text);
+      if (contentError) {
+        res.status(400).send(contentError);
+        return;
+      }
+
+      let tags;
+      if (req.body.tags) {
+        const prepared = await prepareTags(req.user, req.body.tags);
+        if ('status' in prepared) {
+          res.status(prepared.status).send(prepared.error);
+          return;
+        }
+        tags = await processTags(prepared);
+        if (tags.length === 0) {
+          throw new Error('Invalid tags');
+        }
+      }
+
+      const result = await editQuestion(
+        qid,
+        req.user?.username as string,
+        { title, text, tags },
+        hasPrivilege(req.user, 'editOthers'),
+      );
+      if ('error' in result) {
+        if (result.error === 'Question not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        if (result.error === 'Only the author can edit this question') {
+          res.status(403).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      if (text !== undefined) {
+        await attachToPost(text, req.user?.username as string, 'question', qid);
+      }
+
+      const populatedQuestion = await populateDocument(qid, 'question');
+      if (populatedQuestion && 'error' in populatedQuestion) {
+        throw new Error(populatedQuestion.error);
+      }
+
+      socket.emit('questionUpdate', redactHiddenPosts(populatedQuestion as Question));
+      res.json(redactHiddenPosts(populatedQuestion as Question, req.user));
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when editing question: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when editing question`);
+      }
+    }
+  };
+
+  /**
+   * Soft-deletes a question. Only the author of the question may delete it. The deleted
+   * question, with `deletedAt` set, is emitted to all clients so they can remove it.
+   * If the request is invalid or the deletion fails, the HTTP response status is updated.
+   *
+   * @param req The DeleteQuestionRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const deleteQuestionRoute = async (req: DeleteQuestionRequest, res: Response): Promise<void> => {
+    if (!req.body.qid || !ObjectId.isValid(req.body.qid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const result = await deleteQuestion(req.body.qid, req.user?.username as string);
+      if ('error' in result) {
+        if (result.error === 'Question not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        if (result.error === 'Only the author can delete this question') {
+          res.status(403).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+
+      socket.emit('questionUpdate', redactHiddenPosts(result));
+      res.json(redactHiddenPosts(result, req.user));
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when deleting question: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when deleting question`);
+      }
+    }
+  };
+
+  /**
+   * Sets or clears the accepted answer of a question and emits the updated question to all clients.
+   * Only the user who asked the question may do this.
+   *
+   * @param qid The ID of the question.
+   * @param aid The ID of the answer to accept, or `null` to clear the accepted answer.
+   * @param req The request, used to identify the authenticated user.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const updateAcceptedAnswer = async (
+    qid: string,
+    aid: string | null,
+    req: AcceptAnswerRequest | UnacceptAnswerRequest,
+    res: Response,
+  ): Promise<void> => {
+    try {
+      const result = await setAcceptedAnswer(qid, aid, req.user?.username as string);
+      if ('error' in result) {
+        if (result.error === 'Question not found' || result.error === 'Answer not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        if (result.error === 'Only the asker can accept an answer') {
+          res.status(403).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+
+      const populatedQuestion = await populateDocument(qid, 'question');
+      if (populatedQuestion && 'error' in populatedQuestion) {
+        throw new Error(populatedQuestion.error);
+      }
+
+      socket.emit('questionUpdate', redactHiddenPosts(populatedQuestion as Question));
+      if (aid) {
+        await notifyUsers(socket, [
+          {
+            type: 'acceptedAnswer',
+            actor: req.user?.username as string,
+            post: aid,
+            postType: 'answer',
+            question: qid,
+          },
+        ]);
+      }
+      res.json(redactHiddenPosts(populatedQuestion as Question, req.user));
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when accepting answer: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when accepting answer`);
+      }
+    }
+  };
+
+  /**
+   * Marks an answer as the one that solved the question, replacing any previously accepted answer.
+   * Only the asker of the question may accept an answer.
+   *
+   * @param req The AcceptAnswerRequest object containing the question ID and answer ID.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const acceptAnswerRoute = async (req: AcceptAnswerRequest, res: Response): Promise<void> => {
+    const { qid, aid } = req.body;
+    if (!qid || !ObjectId.isValid(qid) || !aid || !ObjectId.isValid(aid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    await updateAcceptedAnswer(qid, aid, req, res);
+  };
+
+  /**
+   * Clears the accepted answer of a question. Only the asker of the question may do this.
+   *
+   * @param req The UnacceptAnswerRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const unacceptAnswerRoute = async (req: UnacceptAnswerRequest, res: Response): Promise<void> => {
+    const { qid } = req.body;
+    if (!qid || !ObjectId.isValid(qid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    await updateAcceptedAnswer(qid, null, req, res);
+  };
+
+  /**
+   * Sends back the feedback on an AI answer once it has changed, and pushes it to the clients
+   * showing the question. Errors from the model are mapped to the matching HTTP status.
+   *
+   * @param result The updated feedback, or the error from changing it.
+   * @param res The HTTP response object used to send back the result of the operation.
+   * @param action What was being done, for the message of unexpected errors.
+   */
+  const sendAIAnswerFeedback = (
+    result: AIAnswerFeedbackResponse,
+    res: Response,
+    action: string,
+  ): void => {
+    if ('error' in result) {
+      if (result.error === 'Question not found' || result.error === 'AI answer not available') {
+        res.status(404).send(result.error);
+      } else if (result.error === 'Only the asker can hide the AI answer') {
+        res.status(403).send(result.error);
+      } else if (result.error === 'AI answer already flagged') {
+        res.status(400).send(result.error);
+      } else {
+        res.status(500).send(`Error when ${action}: ${result.error}`);
+      }
+      return;
+    }
+
+    socket.emit('aiAnswerFeedbackUpdate', result);
+    res.json(result);
+  };
+
+  /**
+   * Rates the AI generated answer of a question as helpful or unhelpful, as the authenticated
+   * user. Rating the answer the same way again clears the rating.
+   *
+   * @param req The RateAIAnswerRequest object containing the question ID and the rating.
+   * @param res The HTTP response object used to send back the updated feedback.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const rateAIAnswerRoute = async (req: RateAIAnswerRequest, res: Response): Promise<void> => {
+    const { qid, rating } = req.body;
+    if (!qid || !ObjectId.isValid(qid) || (rating !== 'helpful' && rating !== 'unhelpful')) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const result = await rateAIAnswer(qid, req.user?.username as string, rating);
+    sendAIAnswerFeedback(result, res, 'rating AI answer');
+  };
+
+  /**
+   * Flags the AI generated answer of a question as incorrect, as the authenticated user. Each user
+   * can flag an answer once.
+   *
+   * @param req The FlagAIAnswerRequest object containing the question ID and, optionally, why the
+   *            answer is incorrect.
+   * @param res The HTTP response object used to send back the updated feedback.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const flagAIAnswerRoute = async (req: FlagAIAnswerRequest, res: Response): Promise<void> => {
+    const { qid, reason } = req.body;
+    if (!qid || !ObjectId.isValid(qid) || (reason !== undefined && typeof reason !== 'string')) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const result = await flagAIAnswer(
+      qid,
+      req.user?.username as string,
+      reason?.trim() || undefined,
+    );
+    sendAIAnswerFeedback(result, res, 'flagging AI answer');
+  };
+
+  /**
+   * Hides or shows the AI generated answer of a question. Only the asker of the question may do
+   * this.
+   *
+   * @param req The HideAIAnswerRequest object containing the question ID and whether to hide the
+   *            answer.
+   * @param res The HTTP response object used to send back the updated feedback.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const hideAIAnswerRoute = async (req: HideAIAnswerRequest, res: Response): Promise<void> => {
+    const { qid, hidden } = req.body;
+    if (!qid || !ObjectId.isValid(qid) || typeof hidden !== 'boolean') {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const result = await setAIAnswerHidden(qid, req.user?.username as string, hidden);
+    sendAIAnswerFeedback(result, res, 'hiding AI answer');
+  };
+
+  /**
+   * Retrieves the report of the worst-rated AI generated answers, used to tune the instructions
+   * given to the AI. Only users with the moderation privilege may see it.
+   *
+   * @param req The AIAnswerReportRequest object containing, optionally, the most answers to
+   *            include.
+   * @param res The HTTP response object used to send back the report.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const aiAnswerReportRoute = async (req: AIAnswerReportRequest, res: Response): Promise<void> => {
+    const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasPrivilege(req.user, 'moderate')) {
+      res.status(403).send(privilegeError('moderate'));
+      return;
+    }
+
+    try {
+      const result = await getAIAnswerReport(limit);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when fetching AI answer report: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when fetching AI answer report`);
+      }
+    }
+  };
+
+  /**
+   * Checks if the provided request to find similar questions has a title or text to compare, and
+   * that every given parameter is valid.
+   *
+   * @param req The SimilarQuestionsRequest object to validate.
+   *
+   * @returns `true` if the request is valid, otherwise `false`.
+   */
+  const isSimilarRequestValid = (req: SimilarQuestionsRequest): boolean => {
+    const { title, text, tags, exclude, limit } = req.query;
+    const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+    return (
+      [title, text, tags, exclude, limit].every(isOptionalString) &&
+      !!(title?.trim() || text?.trim()) &&
+      (exclude === undefined || ObjectId.isValid(exclude)) &&
+      (limit === undefined || (Number.isInteger(Number(limit)) && Number(limit) >= 1))
+    );
+  };
+
+  /**
+   * Retrieves the existing questions most similar to a question being asked, by their title, text
+   * and tags, so that the asker can check whether it was asked before.
+   *
+   * @param req The SimilarQuestionsRequest object containing the title, text and tags of the
+   *            question being asked and, optionally, a question to leave out and the most
+   *            questions to return.
+   * @param res The HTTP response object used to send back the similar questions.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const similarQuestionsRoute = async (
+    req: SimilarQuestionsRequest,
+    res: Response,
+  ): Promise<void> => {
+    if (!isSimilarRequestValid(req)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { title, text, tags, exclude, limit } = req.query;
+    try {
+      const result = await findSimilarQuestions(
+        { title: title ?? '', text, tags: tags?.split(/\s+/).filter(t => t !== '') },
+        exclude,
+        limit === undefined ? undefined : Number(limit),
+      );
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when finding similar questions: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when finding similar questions`);
+      }
+    }
+  };
+
+  /**
+   * Sends back the outcome of a vote to close or reopen a question, or of locking it. The updated
+   * question is emitted to all clients.
+   *
+   * @param result The updated question, or an error message.
+   * @param qid The ID of the question.
+   * @param res The HTTP response object used to send back the updated question.
+   * @param action What was being done, used in the error message.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const sendQuestionStatus = async (
+    result: QuestionResponse,
+    qid: string,
+    res: Response,
+    action: string,
+  ): Promise<void> => {
+    try {
+      if ('error' in result) {
+        if (
+          result.error === 'Question not found' ||
+          result.error === 'Original question not found'
+        ) {
+          res.status(404).send(result.error);
+          return;
+        }
+        if (
+          [
+            'Question is already closed',
+            'Question is not closed',
+            'Already voted to close this question',
+            'Already voted to reopen this question',
+            'A question cannot be a duplicate of itself',
+          ].includes(result.error)
+        ) {
+          res.status(400).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+
+      const populatedQuestion = await populateDocument(qid, 'question');
+      if (populatedQuestion && 'error' in populatedQuestion) {
+        throw new Error(populatedQuestion.error);
+      }
+
+      const question = redactHiddenPosts(populatedQuestion as Question);
+      socket.emit('questionUpdate', question);
+      res.json(question);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when ${action}: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when ${action}`);
+      }
+    }
+  };
+
+  /**
+   * Votes to close a question, for one of the close reasons. The question is closed once enough
+   * users voted, or right away when a moderator votes. Voting requires the privilege to vote to
+   * close questions.
+   *
+   * @param req The VoteToCloseRequest object containing the question ID, the reason and, when the
+   *            reason is `duplicate`, the ID of the question it duplicates.
+   * @param res The HTTP response object used to send back the updated question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const voteToCloseRoute = async (req: VoteToCloseRequest, res: Response): Promise<void> => {
+    const { qid, reason, duplicateOf } = req.body;
+    if (
+      !qid ||
+      !ObjectId.isValid(qid) ||
+      !CLOSE_REASONS.includes(reason) ||
+      (reason === 'duplicate' && (!duplicateOf || !ObjectId.isValid(duplicateOf)))
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasPrivilege(req.user, 'voteToClose')) {
+      res.status(403).send(privilegeError('voteToClose'));
+      return;
+    }
+
+    const result = await voteToClose(
+      qid,
+      req.user?.username as string,
+      reason,
+      reason === 'duplicate' ? duplicateOf : undefined,
+      hasPrivilege(req.user, 'moderate') ? 1 : closeVotesNeeded,
+    );
+    await sendQuestionStatus(result, qid, res, 'voting to close question');
+  };
+
+  /**
+   * Votes to reopen a closed question. The question is reopened once enough users voted, or right
+   * away when a moderator votes. Voting requires the privilege to vote to close questions.
+   *
+   * @param req The VoteToReopenRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the updated question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const voteToReopenRoute = async (req: VoteToReopenRequest, res: Response): Promise<void> => {
+    const { qid } = req.body;
+    if (!qid || !ObjectId.isValid(qid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasPrivilege(req.user, 'voteToClose')) {
+      res.status(403).send(privilegeError('voteToClose'));
+      return;
+    }
+
+    const result = await voteToReopen(
+      qid,
+      req.user?.username as string,
+      hasPrivilege(req.user, 'moderate') ? 1 : reopenVotesNeeded,
+    );
+    await sendQuestionStatus(result, qid, res, 'voting to reopen question');
+  };
+
+  /**
+   * Locks a question, so that no answers or comments can be added to it, or unlocks it. Only users
+   * with the moderation privilege may do this, and it is recorded in the moderation log.
+   *
+   * @param req The LockQuestionRequest object containing the question ID, whether to lock it and,
+   *            optionally, why.
+   * @param res The HTTP response object used to send back the updated question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const lockQuestionRoute = async (req: LockQuestionRequest, res: Response): Promise<void> => {
+    const { qid, locked, reason } = req.body;
+    if (
+      !qid ||
+      !ObjectId.isValid(qid) ||
+      typeof locked !== 'boolean' ||
+      (reason !== undefined && typeof reason !== 'string')
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasPrivilege(req.user, 'moderate')) {
+      res.status(403).send(privilegeError('moderate'));
+      return;
+    }
+
+    const moderator = req.user?.username as string;
+    const lockReason = reason?.trim() || undefined;
+    const result = await setQuestionLock(qid, moderator, locked, lockReason);
+    if (!('error' in result)) {
+      await logModeratorAction({
+        moderator,
+        action: locked ? 'lockQuestion' : 'unlockQuestion',
+        postType: 'question',
+        post: new ObjectId(qid),
+        question: new ObjectId(qid),
+        details: lockReason,
+      });
+    }
+    await sendQuestionStatus(result, qid, res, 'locking question');
+  };
+
   // add appropriate HTTP verbs and their endpoints to the router
   router.get('/getQuestion', getQuestionsByFilter);
-  router.get('/getQuestionById/:qid', getQuestionById);
-  router.post('/addQuestion', addQuestion);
-  router.post('/upvoteQuestion', upvoteQuestion);
-  router.post('/downvoteQuestion', downvoteQuestion);
+  router.get('/getQuestionById/:qid', identifyUser(JWT_SECRET), getQuestionById);
+  router.post('/addQuestion', verifyToken(JWT_SECRET), addQuestion);
+  router.post('/upvoteQuestion', verifyToken(JWT_SECRET), upvoteQuestion);
+  router.post('/downvoteQuestion', verifyToken(JWT_SECRET), downvoteQuestion);
+  router.post('/editQuestion', verifyToken(JWT_SECRET), editQuestionRoute);
+  router.post('/deleteQuestion', verifyToken(JWT_SECRET), deleteQuestionRoute);
+  router.post('/acceptAnswer', verifyToken(JWT_SECRET), acceptAnswerRoute);
+  router.post('/unacceptAnswer', verifyToken(JWT_SECRET), unacceptAnswerRoute);
+  router.post('/rateAIAnswer', verifyToken(JWT_SECRET), rateAIAnswerRoute);
+  router.post('/flagAIAnswer', verifyToken(JWT_SECRET), flagAIAnswerRoute);
+  router.post('/hideAIAnswer', verifyToken(JWT_SECRET), hideAIAnswerRoute);
+  router.get('/aiAnswerReport', verifyToken(JWT_SECRET), aiAnswerReportRoute);
+  router.get('/similar', similarQuestionsRoute);
+  router.post('/voteToClose', verifyToken(JWT_SECRET), voteToCloseRoute);
+  router.post('/voteToReopen', verifyToken(JWT_SECRET), voteToReopenRoute);
+  router.post('/lockQuestion', verifyToken(JWT_SECRET), lockQuestionRoute);
 
   return router;
 };
@@ -1,10 +1,42 @@
 import express, { Request, Response, Router } from 'express';
 import { getTagCountMap } from '../models/application';
+import {
+  addTagSynonym,
+  editTag,
+  mergeTags,
+  removeTagSynonym,
+  suggestTags,
+  tagNamed,
+} from '../models/tagOperations';
 import TagModel from '../models/tags';
+import verifyToken from '../middleware/verifyToken';
+import { attachmentIdsOf } from '../utils/attachments';
+import { sanitizeContent, validateContent } from '../utils/content';
+import { hasPrivilege, privilegeError } from '../utils/privileges';
+import { normalizeTagName, TAG_NAME_MAX_LENGTH } from '../utils/tags';
+import { EditTagRequest, MergeTagsRequest, TagSuggestRequest, TagSynonymRequest } from '../types';
 
-const tagController = () => {
+// The longest description a tag may have; the wiki holds the longer explanation
+const TAG_DESCRIPTION_MAX_LENGTH = 500;
+
+// How many tags are suggested when the request does not say
+const DEFAULT_SUGGEST_LIMIT = 8;
+const SUGGEST_LIMIT_MAX = 20;
+
+const tagController = (JWT_SECRET: string) => {
   const router: Router = express.Router();
 
+  /**
+   * Checks whether a tag name, or a synonym, is a single word no longer than the names of the
+   * tags of a question may be.
+   *
+   * @param name The name to check.
+   *
+   * @returns `true` if the name is valid, otherwise `false`.
+   */
+  const isTagNameValid = (name: unknown): name is string =>
+    typeof name === 'string' && /^\S+$/.test(name) && name.length <= TAG_NAME_MAX_LENGTH;
+
   /**
    * Retrieves a list of tags along with the number of questions associated with each tag.
    * If there is an error, the HTTP response's status is updated.
@@ -33,7 +65,8 @@ const tagController = () => {
   };
 
   /**
-   * Retrieves a tag from the database by its name, provided in the request parameters.
+   * Retrieves a tag from the database by its name, provided in the request parameters. A synonym
+   * retrieves the tag it stands for, along with its wiki, synonyms and edit history.
    * If the tag is not found or an error occurs, the appropriate HTTP response status and message are returned.
    *
    * @param req The Request object containing the tag name in the URL parameters.
@@ -44,7 +77,7 @@ const tagController = () => {
   const getTagByName = async (req: Request, res: Response): Promise<void> => {
     try {
       const { name } = req.params; // Get the tag name from the request parameters
-      const tag = await TagModel.findOne({ name }); // Use the model's method to find the tag
+      const tag = await TagModel.findOne(tagNamed(name)); // Use the model's method to find the tag
 
       if (!tag) {
         res.status(404).send(`Tag with name "${name}" not found`);
@@ -56,9 +89,204 @@ const tagController = () => {
     }
   };
 
+  /**
+   * Suggests the tags whose name, or one of whose synonyms, starts with the prefix in the query,
+   * the most used first. The prefix is normalized like the tags of a question, and an empty
+   * prefix suggests the most used tags. If the request is invalid or an error occurs, the HTTP
+   * response status is updated.
+   *
+   * @param req The TagSuggestRequest object containing the prefix and, optionally, a limit.
+   * @param res The HTTP response object used to send back the suggested tags.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const suggestTagsRoute = async (req: TagSuggestRequest, res: Response): Promise<void> => {
+    const { prefix, limit } = req.query;
+    const count = limit === undefined ? DEFAULT_SUGGEST_LIMIT : Number(limit);
+    if (
+      (prefix !== undefined && typeof prefix !== 'string') ||
+      !Number.isInteger(count) ||
+      count < 1 ||
+      count > SUGGEST_LIMIT_MAX
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const result = await suggestTags(normalizeTagName(prefix ?? ''), count);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when suggesting tags: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Edits the description and/or wiki of a tag. Only users with the reputation to edit tag wikis
+   * may do this, and each edit is recorded as a revision. The wiki is Markdown, sanitized and
+   * checked like the text of a post, but cannot embed attachments. If the request is invalid or
+   * the edit fails, the HTTP response status is updated.
+   *
+   * @param req The EditTagRequest object containing the tag name and the fields to edit.
+   * @param res The HTTP response object used to send back the edited tag.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const editTagRoute = async (req: EditTagRequest, res: Response): Promise<void> => {
+    const { name, description } = req.body;
+    if (
+      !isTagNameValid(name) ||
+      (description === undefined && req.body.wiki === undefined) ||
+      (description !== undefined &&
+        (typeof description !== 'string' ||
+          description.trim() === '' ||
+          description.length > TAG_DESCRIPTION_MAX_LENGTH)) ||
+      (req.body.wiki !== undefined && typeof req.body.wiki !== 'string')
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const wiki = req.body.wiki ? sanitizeContent(req.body.wiki) : req.body.wiki;
+    const contentError = wiki ? validateContent(wiki) : undefined;
+    if (contentError) {
+      res.status(400).send(contentError);
+      return;
+    }
+    // Files are only kept along with the question or answer they are attached to
+    if (wiki && attachmentIdsOf(wiki).length > 0) {
+      res.status(400).send('Files cannot be attached to tag wikis');
+      return;
+    }
+
+    if (!hasPrivilege(req.user, 'editTagWiki')) {
+      res.status(403).send(privilegeError('editTagWiki'));
+      return;
+    }
+
+    try {
+      const result = await editTag(name, req.user?.username as string, {
+        description: description?.trim(),
+        wiki,
+      });
+      if ('error' in result) {
+        if (result.error === 'Tag not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when editing tag: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Adds a synonym to a tag, or removes one. Only users with the moderation privilege may do
+   * this. Added synonyms are normalized like the tags of a question. If the request is invalid or
+   * the change fails, the HTTP response status is updated.
+   *
+   * @param action Whether to add or remove the synonym.
+   *
+   * @returns The route handler, which sends back the updated tag.
+   */
+  const changeSynonymRoute =
+    (action: 'add' | 'remove') =>
+    async (req: TagSynonymRequest, res: Response): Promise<void> => {
+      const { name } = req.body;
+      const synonym =
+        action === 'add' && typeof req.body.synonym === 'string'
+          ? normalizeTagName(req.body.synonym)
+          : req.body.synonym;
+      if (!isTagNameValid(name) || !isTagNameValid(synonym)) {
+        res.status(400).send('Invalid request');
+        return;
+      }
+
+      if (!hasPrivilege(req.user, 'moderate')) {
+        res.status(403).send(privilegeError('moderate'));
+        return;
+      }
+
+      try {
+        const username = req.user?.username as string;
+        const result =
+          action === 'add'
+            ? await addTagSynonym(name, synonym, username)
+            : await removeTagSynonym(name, synonym, username);
+        if ('error' in result) {
+          if (result.error === 'Tag not found' || result.error === 'Synonym not found') {
+            res.status(404).send(result.error);
+            return;
+          }
+          if (
+            result.error === 'A tag with this name exists, merge it instead' ||
+            result.error === 'This name is already a synonym'
+          ) {
+            res.status(400).send(result.error);
+            return;
+          }
+          throw new Error(result.error);
+        }
+        res.json(result);
+      } catch (err: unknown) {
+        res.status(500).send(`Error when changing tag synonyms: ${(err as Error).message}`);
+      }
+    };
+
+  /**
+   * Merges a tag into another: its questions are moved to the target, and its name becomes a
+   * synonym of the target. Only users with the moderation privilege may do this. If the request
+   * is invalid or the merge fails, the HTTP response status is updated.
+   *
+   * @param req The MergeTagsRequest object containing the names of the source and target tags.
+   * @param res The HTTP response object used to send back the updated target.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const mergeTagsRoute = async (req: MergeTagsRequest, res: Response): Promise<void> => {
+    const { source, target } = req.body;
+    if (!isTagNameValid(source) || !isTagNameValid(target)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasPrivilege(req.user, 'moderate')) {
+      res.status(403).send(privilegeError('moderate'));
+      return;
+    }
+
+    try {
+      const result = await mergeTags(source, target, req.user?.username as string);
+      if ('error' in result) {
+        if (result.error === 'Tag not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        if (result.error === 'Cannot merge a tag into itself') {
+          res.status(400).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when merging tags: ${(err as Error).message}`);
+    }
+  };
+
   // Add appropriate HTTP verbs and their endpoints to the router.
   router.get('/getTagsWithQuestionNumber', getTagsWithQuestionNumber);
   router.get('/getTagByName/:name', getTagByName); // New endpoint to get tag by name
+  router.get('/suggest', suggestTagsRoute);
+  router.post('/editTag', verifyToken(JWT_SECRET), editTagRoute);
+  router.post('/addSynonym', verifyToken(JWT_SECRET), changeSynonymRoute('add'));
+  router.post('/removeSynonym', verifyToken(JWT_SECRET), changeSynonymRoute('remove'));
+  router.post('/mergeTags', verifyToken(JWT_SECRET), mergeTagsRoute);
 
   return router;
 };
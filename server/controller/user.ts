@@ -1,4 +1,5 @@
-import express, { Response } from 'express';
+import express, { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
 import jwt from 'jsonwebtoken';
 import {
   User,
@@ -16,6 +17,14 @@ import {
   UpdateBackgroundRequest,
   UpdateTextColorRequest,
   UpdateButtonRequest,
+  AuthenticatedRequest,
+  RefreshSessionRequest,
+  RevokeSessionRequest,
+  Session,
+  UserRequest,
+  UpdateEmailPreferencesRequest,
+  UnsubscribeRequest,
+  ChangeRoleRequest,
 } from '../types';
 import {
   sendEmailVerification,
@@ -31,8 +40,26 @@ import {
   changeBackgroundColor,
   changeTextColor,
   changeButtonColor,
+  changeUserRole,
 } from '../models/userOperations';
+import {
+  createSession,
+  rotateSession,
+  revokeSessionByRefreshToken,
+  revokeSession,
+  getActiveSessions,
+} from '../models/sessionOperations';
+import { getReputation } from '../models/reputationOperations';
+import {
+  getEmailPreferences,
+  updateEmailPreferences,
+  unsubscribe,
+} from '../models/emailOperations';
+import { getUserProfile } from '../models/application';
 import UserModel from '../models/users';
+import verifyToken, { isActingUser } from '../middleware/verifyToken';
+import requireRole from '../middleware/requireRole';
+import { unsubscribeConfirmationPage, unsubscribedPage } from '../utils/emailTemplates';
 
 const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
   const router = express.Router();
@@ -58,6 +85,30 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
     );
   };
 
+  /**
+   * Describes the device a request was sent from, used to label the sessions a user has open.
+   *
+   * @param req The incoming request.
+   *
+   * @returns The user agent of the request, or a placeholder if it was not sent.
+   */
+  const deviceOf = (req: Request): string => req.get('user-agent') || 'Unknown device';
+
+  /**
+   * Signs a short-lived access token for a user, bound to the session it was issued for. The
+   * token carries the role of the user, for clients to tailor what they show; the server checks
+   * the role stored with the user instead.
+   *
+   * @param user The authenticated user.
+   * @param session The session the token belongs to.
+   *
+   * @returns The signed JWT.
+   */
+  const signAccessToken = (user: User, session: Session): string =>
+    jwt.sign({ userId: user._id, role: user.role ?? 'user', sessionId: session._id }, JWT_SECRET, {
+      expiresIn: '1h',
+    });
+
   /**
    * Handles sending a new user an email verification.
    * If the user is invalid or sending the email verification fails, the HTTP response status is updated.
@@ -128,8 +179,17 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
         }
         throw new Error(userFromDb.error);
       }
-      const jwtToken = jwt.sign({ userId: userFromDb._id }, JWT_SECRET, { expiresIn: '1h' });
-      res.json({ message: 'User created successfully', token: jwtToken, user: userFromDb });
+      const session = await createSession(userFromDb._id as ObjectId, deviceOf(req));
+      if ('error' in session) {
+        throw new Error(session.error);
+      }
+      const jwtToken = signAccessToken(userFromDb, session.session);
+      res.json({
+        message: 'User created successfully',
+        token: jwtToken,
+        refreshToken: session.refreshToken,
+        user: userFromDb,
+      });
     } catch (err: unknown) {
       if (err instanceof Error) {
         res.status(500).send(`Error when saving user: ${err.message}`);
@@ -167,8 +227,17 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
         }
         throw new Error(userFromDb.error);
       }
-      const token = jwt.sign({ userId: userFromDb._id }, JWT_SECRET, { expiresIn: '1h' });
-      res.json({ message: 'Login successful', token, user: userFromDb });
+      const session = await createSession(userFromDb._id as ObjectId, deviceOf(req));
+      if ('error' in session) {
+        throw new Error(session.error);
+      }
+      const token = signAccessToken(userFromDb, session.session);
+      res.json({
+        message: 'Login successful',
+        token,
+        refreshToken: session.refreshToken,
+        user: userFromDb,
+      });
     } catch (err: unknown) {
       if (err instanceof Error) {
         res.status(500).send(`Error when logging in: ${err.message}`);
@@ -178,6 +247,147 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
     }
   };
 
+  /**
+   * Handles refreshing a session. The refresh token is rotated and a new access token is issued,
+   * carrying the current role of the user. If the refresh token is invalid, expired or has already
+   * been used, the HTTP response's status is updated.
+   *
+   * @param req The RefreshSessionRequest object containing the body parameter `refreshToken`.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const refreshRoute = async (req: RefreshSessionRequest, res: Response): Promise<void> => {
+    if (!req.body.refreshToken) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const result = await rotateSession(req.body.refreshToken);
+      if ('error' in result) {
+        if (result.error === 'Refresh token is invalid or has expired') {
+          res.status(401).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      const user = await UserModel.findOne({ _id: result.session.user });
+      if (!user) {
+        res.status(404).send('User not found');
+        return;
+      }
+      const token = signAccessToken(user, result.session);
+      res.json({ message: 'Session refreshed', token, refreshToken: result.refreshToken });
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when refreshing session: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when refreshing session`);
+      }
+    }
+  };
+
+  /**
+   * Handles logging out a user by signing out the session the refresh token was issued for.
+   * Access tokens issued for the session stop being accepted as well.
+   *
+   * @param req The RefreshSessionRequest object containing the body parameter `refreshToken`.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const logoutRoute = async (req: RefreshSessionRequest, res: Response): Promise<void> => {
+    if (!req.body.refreshToken) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const result = await revokeSessionByRefreshToken(req.body.refreshToken);
+      if ('error' in result) {
+        if (result.error === 'Refresh token is invalid or has expired') {
+          res.status(401).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      res.json({ message: 'Logout successful' });
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when logging out: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when logging out`);
+      }
+    }
+  };
+
+  /**
+   * Retrieves the active sessions of the authenticated user, flagging the one the request was
+   * made from.
+   *
+   * @param req The AuthenticatedRequest object; the user is taken from the bearer token.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getSessionsRoute = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const sessions = await getActiveSessions(req.user?._id as ObjectId);
+      if ('error' in sessions) {
+        throw new Error(sessions.error);
+      }
+      res.json(
+        sessions.map(session => ({
+          _id: session._id,
+          device: session.device,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          current: session._id?.toString() === req.sessionId,
+        })),
+      );
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when fetching sessions: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when fetching sessions`);
+      }
+    }
+  };
+
+  /**
+   * Handles signing out one of the authenticated user's sessions, e.g. on another device.
+   *
+   * @param req The RevokeSessionRequest object containing the body parameter `sessionId`; the user is taken from the bearer token.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const revokeSessionRoute = async (req: RevokeSessionRequest, res: Response): Promise<void> => {
+    if (!req.body.sessionId) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const result = await revokeSession(req.user?._id as ObjectId, req.body.sessionId);
+      if ('error' in result) {
+        if (result.error === 'Session not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      res.json({ message: 'Session signed out' });
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when signing out session: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when signing out session`);
+      }
+    }
+  };
+
   /**
    * Handles sending a password reset request for a user.
    * If there is an error, the HTTP response's status is updated.
@@ -258,17 +468,22 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
    * Handles changing the saved theme of the currently logged in user. If successful, the most
    * recently saved theme will be accessed when logged back in.
    *
-   * @param req The UpdateThemeRequest object containing the query parameters `username` and `theme`.
+   * @param req The UpdateThemeRequest object containing the body parameter `theme`; the user is taken from the bearer token.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns A Promise that resolves to void.
    */
   const changeThemeRoute = async (req: UpdateThemeRequest, res: Response): Promise<void> => {
-    if (!req.body.username || !req.body.theme) {
+    if (!req.body.theme) {
       res.status(400).send('Invalid request');
       return;
     }
-    const { username, theme } = req.body;
+    if (!isActingUser(req, req.body.username)) {
+      res.status(403).send('Cannot change the settings of another user');
+      return;
+    }
+    const username = req.user?.username as string;
+    const { theme } = req.body;
 
     try {
       const userFromDb = await changeTheme(username, theme);
@@ -289,7 +504,7 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
    * Handles changing the background color on the custom theme of the logged in user. If successful, the
    * most recently saved background color will be accessed when logged back in and custom theme is selected.
    *
-   * @param req The UpdateBackgroundRequest object containing the query parameters `username` and `backgroundColor`.
+   * @param req The UpdateBackgroundRequest object containing the body parameter `backgroundColor`; the user is taken from the bearer token.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns a Promise that resolves to void.
@@ -298,11 +513,16 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
     req: UpdateBackgroundRequest,
     res: Response,
   ): Promise<void> => {
-    if (!req.body.username || !req.body.backgroundColor) {
+    if (!req.body.backgroundColor) {
       res.status(400).send('Invalid request');
       return;
     }
-    const { username, backgroundColor } = req.body;
+    if (!isActingUser(req, req.body.username)) {
+      res.status(403).send('Cannot change the settings of another user');
+      return;
+    }
+    const username = req.user?.username as string;
+    const { backgroundColor } = req.body;
 
     try {
       const userFromDb = await changeBackgroundColor(username, backgroundColor);
@@ -323,7 +543,7 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
    * Handles changing the text color on the custom theme of the logged in user. If successful, the
    * most recently saved text color will be accessed when logged back in and custom theme is selected.
    *
-   * @param req The UpdateTextColorRequest object containing the query parameters `username` and `textColor`.
+   * @param req The UpdateTextColorRequest object containing the body parameter `textColor`; the user is taken from the bearer token.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns A Promise that resolves to void.
@@ -332,11 +552,16 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
     req: UpdateTextColorRequest,
     res: Response,
   ): Promise<void> => {
-    if (!req.body.username || !req.body.textColor) {
+    if (!req.body.textColor) {
       res.status(400).send('Invalid request');
       return;
     }
-    const { username, textColor } = req.body;
+    if (!isActingUser(req, req.body.username)) {
+      res.status(403).send('Cannot change the settings of another user');
+      return;
+    }
+    const username = req.user?.username as string;
+    const { textColor } = req.body;
 
     try {
       const userFromDb = await changeTextColor(username, textColor);
@@ -357,17 +582,22 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
    * Handles changing the button color on the custom theme of the logged in user. If successful, the
    * most recently saved button color will be accessed when logged back in and custom theme is selected.
    *
-   * @param req The UpdateButtonRequest object containing the query parameters `username` and `buttonColor`.
+   * @param req The UpdateButtonRequest object containing the body parameter `buttonColor`; the user is taken from the bearer token.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns A Promise that resolves to void.
    */
   const changeButtonColorRoute = async (req: UpdateButtonRequest, res: Response): Promise<void> => {
-    if (!req.body.username || !req.body.buttonColor) {
+    if (!req.body.buttonColor) {
       res.status(400).send('Invalid request');
       return;
     }
-    const { username, buttonColor } = req.body;
+    if (!isActingUser(req, req.body.username)) {
+      res.status(403).send('Cannot change the settings of another user');
+      return;
+    }
+    const username = req.user?.username as string;
+    const { buttonColor } = req.body;
 
     try {
       const userFromDb = await changeButtonColor(username, buttonColor);
@@ -388,17 +618,22 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
    * Handles changing the font style of the currently logged in user. If successful, the most
    * recently saved font style will be accessed when logged back in.
    *
-   * @param req The UpdateFontRequest object containing the query parameters `username` and `font`.
+   * @param req The UpdateFontRequest object containing the body parameter `font`; the user is taken from the bearer token.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns A Promise that resolves to void.
    */
   const changeFontRoute = async (req: UpdateFontRequest, res: Response): Promise<void> => {
-    if (!req.body.username || !req.body.font) {
+    if (!req.body.font) {
       res.status(400).send('Invalid request');
       return;
     }
-    const { username, font } = req.body;
+    if (!isActingUser(req, req.body.username)) {
+      res.status(403).send('Cannot change the settings of another user');
+      return;
+    }
+    const username = req.user?.username as string;
+    const { font } = req.body;
 
     try {
       const userFromDb = await changeFont(username, font);
@@ -419,17 +654,22 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
    * Handles changing the text size of the currently logged in user. If successful, the most
    * recently saved text size will be accessed when logged back in.
    *
-   * @param req The UpdateTextSizeRequest object containing the query parameters `username` and `textSize`.
+   * @param req The UpdateTextSizeRequest object containing the body parameter `textSize`; the user is taken from the bearer token.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns A Promise that resolves to void.
    */
   const changeTextSizeRoute = async (req: UpdateTextSizeRequest, res: Response): Promise<void> => {
-    if (!req.body.username || !req.body.textSize) {
+    if (!req.body.textSize) {
       res.status(400).send('Invalid request');
       return;
     }
-    const { username, textSize } = req.body;
+    if (!isActingUser(req, req.body.username)) {
+      res.status(403).send('Cannot change the settings of another user');
+      return;
+    }
+    const username = req.user?.username as string;
+    const { textSize } = req.body;
 
     try {
       const userFromDb = await changeTextSize(username, textSize);
@@ -450,7 +690,7 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
    * Handles changing the text boldness of the currently logged in user. If successful, the most
    * recently saved text boldness will be accessed when logged back in.
    *
-   * @param req The UpdateTextBoldnessRequest object containing the query parameters `username` and `textBoldness`.
+   * @param req The UpdateTextBoldnessRequest object containing the body parameter `textBoldness`; the user is taken from the bearer token.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns A Promise that resolves to void.
@@ -459,11 +699,16 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
     req: UpdateTextBoldnessRequest,
     res: Response,
   ): Promise<void> => {
-    if (!req.body.username || !req.body.textBoldness) {
+    if (!req.body.textBoldness) {
       res.status(400).send('Invalid request');
       return;
     }
-    const { username, textBoldness } = req.body;
+    if (!isActingUser(req, req.body.username)) {
+      res.status(403).send('Cannot change the settings of another user');
+      return;
+    }
+    const username = req.user?.username as string;
+    const { textBoldness } = req.body;
 
     try {
       const userFromDb = await changeTextBoldness(username, textBoldness);
@@ -484,7 +729,7 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
    * Handles changing the line spacing of the currently logged in user. If successful, the most
    * recently saved line spacing will be accessed when logged back in.
    *
-   * @param req The UpdateLineSpacingRequest object containing the query parameters `username` and `lineSpacing`.
+   * @param req The UpdateLineSpacingRequest object containing the body parameter `lineSpacing`; the user is taken from the bearer token.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns A Promise that resolves to void.
@@ -493,11 +738,16 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
     req: UpdateLineSpacingRequest,
     res: Response,
   ): Promise<void> => {
-    if (!req.body.username || !req.body.lineSpacing) {
+    if (!req.body.lineSpacing) {
       res.status(400).send('Invalid request');
       return;
     }
-    const { username, lineSpacing } = req.body;
+    if (!isActingUser(req, req.body.username)) {
+      res.status(403).send('Cannot change the settings of another user');
+      return;
+    }
+    const username = req.user?.username as string;
+    const { lineSpacing } = req.body;
 
     try {
       const userFromDb = await changeLineSpacing(username, lineSpacing);
@@ -544,21 +794,337 @@ const userController = (socket: FakeSOSocket, JWT_SECRET: string) => {
     }
   };
 
+  /**
+   * Handles retrieving the reputation of a user along with the ledger of events that make it up.
+   * If the user doesn't exist or there is an error, the HTTP response's status is updated.
+   *
+   * @param req The request object containing the `username` in the URL parameters.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getReputationRoute = async (req: UserRequest, res: Response): Promise<void> => {
+    const { username } = req.params;
+
+    if (!username) {
+      res.status(400).send('Username is required');
+      return;
+    }
+
+    try {
+      const result = await getReputation(username);
+      if ('error' in result) {
+        if (result.error === 'User not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when fetching reputation: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when fetching reputation`);
+      }
+    }
+  };
+
+  /**
+   * Handles retrieving the public profile of a user, including their questions, answers,
+   * comments, the votes those received and the tags they are most active in.
+   * If the user doesn't exist or there is an error, the HTTP response's status is updated.
+   *
+   * @param req The request object containing the `username` in the URL parameters.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getProfileRoute = async (req: UserRequest, res: Response): Promise<void> => {
+    const { username } = req.params;
+
+    if (!username) {
+      res.status(400).send('Username is required');
+      return;
+    }
+
+    try {
+      const result = await getUserProfile(username);
+      if ('error' in result) {
+        if (result.error === 'User not found') {
+          res.status(404).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when fetching profile: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when fetching profile`);
+      }
+    }
+  };
+
+  /**
+   * Handles retrieving the email preferences of the currently logged in user.
+   * If there is an error, the HTTP response's status is updated.
+   *
+   * @param req The AuthenticatedRequest object; the user is taken from the bearer token.
+   * @param res The HTTP response object used to send back the preferences.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getEmailPreferencesRoute = async (
+    req: AuthenticatedRequest,
+    res: Response,
+  ): Promise<void> => {
+    try {
+      const result = await getEmailPreferences(req.user?.username as string);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when fetching email preferences: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when fetching email preferences`);
+      }
+    }
+  };
+
+  /**
+   * Checks if the provided email preferences are valid; every preference may be left out.
+   *
+   * @param req The incoming request containing the preferences to change.
+   *
+   * @returns `true` if the request is valid, otherwise `false`.
+   */
+  const isEmailPreferencesRequestValid = (req: UpdateEmailPreferencesRequest): boolean => {
+    const { answers, comments, digest, watchedTags } = req.body;
+    return (
+      (answers === undefined || typeof answers === 'boolean') &&
+      (comments === undefined || typeof comments === 'boolean') &&
+      (digest === undefined || ['off', 'daily', 'weekly'].includes(digest)) &&
+      (watchedTags === undefined ||
+        (Array.isArray(watchedTags) && watchedTags.every(t => typeof t === 'string')))
+    );
+  };
+
+  /**
+   * Handles changing the email preferences of the currently logged in user: which emails about
+   * their questions they receive and how often they receive a digest of their watched tags.
+   * If the request is invalid or there is an error, the HTTP response's status is updated.
+   *
+   * @param req The UpdateEmailPreferencesRequest object containing the preferences to change; the user is taken from the bearer token.
+   * @param res The HTTP response object used to send back the updated preferences.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const updateEmailPreferencesRoute = async (
+    req: UpdateEmailPreferencesRequest,
+    res: Response,
+  ): Promise<void> => {
+    if (!isEmailPreferencesRequestValid(req)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { answers, comments, digest, watchedTags } = req.body;
+    try {
+      const result = await updateEmailPreferences(req.user?.username as string, {
+        answers,
+        comments,
+        digest,
+        watchedTags,
+      });
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      res.json(result);
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when updating email preferences: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when updating email preferences`);
+      }
+    }
+  };
+
+  /**
+   * Promotes or demotes a user by one role, on behalf of an admin, who may not change their own
+   * role. If the request is invalid or there is an error, the HTTP response's status is updated.
+   *
+   * @param req The ChangeRoleRequest object containing the username of the user whose role changes.
+   * @param res The HTTP response object used to send back the username and new role of the user.
+   * @param change Whether to promote or demote the user.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const changeRole = async (
+    req: ChangeRoleRequest,
+    res: Response,
+    change: 'promote' | 'demote',
+  ): Promise<void> => {
+    const { username } = req.body;
+    if (!username || typeof username !== 'string') {
+      res.status(400).send('Invalid request');
+      return;
+    }
+    if (username === req.user?.username) {
+      res.status(400).send('You cannot change your own role');
+      return;
+    }
+
+    try {
+      const result = await changeUserRole(username, change);
+      if ('error' in result) {
+        if (result.error === 'Username does not exist') {
+          res.status(404).send(result.error);
+          return;
+        }
+        if (
+          result.error === 'User already has the highest role' ||
+          result.error === 'User already has the lowest role'
+        ) {
+          res.status(400).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      res.json({ username: result.username, role: result.role });
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when changing user role: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when changing user role`);
+      }
+    }
+  };
+
+  /**
+   * Handles promoting a user to the next more trusted role. Only admins may promote users.
+   *
+   * @param req The ChangeRoleRequest object containing the username of the user to promote.
+   * @param res The HTTP response object used to send back the username and new role of the user.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const promoteUserRoute = (req: ChangeRoleRequest, res: Response): Promise<void> =>
+    changeRole(req, res, 'promote');
+
+  /**
+   * Handles demoting a user to the next less trusted role. Only admins may demote users.
+   *
+   * @param req The ChangeRoleRequest object containing the username of the user to demote.
+   * @param res The HTTP response object used to send back the username and new role of the user.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const demoteUserRoute = (req: ChangeRoleRequest, res: Response): Promise<void> =>
+    changeRole(req, res, 'demote');
+
+  /**
+   * Checks that the query of an unsubscribe link has a token and a known list of emails. The token
+   * must be a single string, as a repeated or nested parameter would be parsed into an array or
+   * object that the database would treat as a query operator.
+   *
+   * @param req The UnsubscribeRequest object containing the query parameters `token` and `list`.
+   *
+   * @returns `true` if the link is well formed, otherwise `false`.
+   */
+  const isUnsubscribeLinkValid = (req: UnsubscribeRequest): boolean =>
+    typeof req.query.token === 'string' &&
+    req.query.token !== '' &&
+    ['answers', 'comments', 'digest', 'all'].includes(req.query.list);
+
+  /**
+   * Handles opening the unsubscribe link of an email. Nothing changes yet: the response is a page
+   * asking the user to confirm, whose form posts back to the same link. If the link is invalid,
+   * the HTTP response's status is updated.
+   *
+   * @param req The UnsubscribeRequest object containing the query parameters `token` and `list`.
+   * @param res The HTTP response object used to send back the confirmation page.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const unsubscribeConfirmationRoute = async (
+    req: UnsubscribeRequest,
+    res: Response,
+  ): Promise<void> => {
+    if (!isUnsubscribeLinkValid(req)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+    res.send(unsubscribeConfirmationPage(req.query.token, req.query.list));
+  };
+
+  /**
+   * Handles posting to the unsubscribe link of an email, from the confirmation page or straight
+   * from a mail client's one-click unsubscribe button (RFC 8058). It stops some emails of the user
+   * identified by the token in the link without them having to sign in. If the link is invalid or
+   * there is an error, the HTTP response's status is updated.
+   *
+   * @param req The UnsubscribeRequest object containing the query parameters `token` and `list`.
+   * @param res The HTTP response object used to send back a page telling the user it is done.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const unsubscribeRoute = async (req: UnsubscribeRequest, res: Response): Promise<void> => {
+    const { token, list } = req.query;
+    if (!isUnsubscribeLinkValid(req)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const result = await unsubscribe(token, list);
+      if ('error' in result) {
+        if (result.error === 'Invalid unsubscribe link') {
+          res.status(404).send(result.error);
+          return;
+        }
+        throw new Error(result.error);
+      }
+      res.send(unsubscribedPage(list));
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        res.status(500).send(`Error when unsubscribing: ${err.message}`);
+      } else {
+        res.status(500).send(`Error when unsubscribing`);
+      }
+    }
+  };
+
   router.post('/emailVerification', emailVerificationRoute);
   router.post('/addUser', addUserRoute);
   router.post('/loginUser', loginUserRoute);
+  router.post('/refresh', refreshRoute);
+  router.post('/logout', logoutRoute);
+  router.get('/sessions', verifyToken(JWT_SECRET), getSessionsRoute);
+  router.post('/revokeSession', verifyToken(JWT_SECRET), revokeSessionRoute);
   router.post('/sendPasswordReset', sendPasswordResetRoute);
   router.post('/resetPassword', resetPasswordRoute);
-  router.post('/changeTheme', changeThemeRoute);
-  router.post('/changeFont', changeFontRoute);
-  router.post('/changeTextSize', changeTextSizeRoute);
-  router.post('/changeTextBoldness', changeTextBoldnessRoute);
-  router.post('/changeLineSpacing', changeLineSpacingRoute);
-  router.post('/changeBackgroundColor', changeBackgroundColorRoute);
-  router.post('/changeTextColor', changeTextColorRoute);
-  router.post('/changeButtonColor', changeButtonColorRoute);
+  router.post('/changeTheme', verifyToken(JWT_SECRET), changeThemeRoute);
+  router.post('/changeFont', verifyToken(JWT_SECRET), changeFontRoute);
+  router.post('/changeTextSize', verifyToken(JWT_SECRET), changeTextSizeRoute);
+  router.post('/changeTextBoldness', verifyToken(JWT_SECRET), changeTextBoldnessRoute);
+  router.post('/changeLineSpacing', verifyToken(JWT_SECRET), changeLineSpacingRoute);
+  router.post('/changeBackgroundColor', verifyToken(JWT_SECRET), changeBackgroundColorRoute);
+  router.post('/changeTextColor', verifyToken(JWT_SECRET), changeTextColorRoute);
+  router.post('/changeButtonColor', verifyToken(JWT_SECRET), changeButtonColorRoute);
 
   router.post('/getUserSettings/:username', getUserSettings);
+  router.get('/getReputation/:username', getReputationRoute);
+  router.get('/profile/:username', getProfileRoute);
+  router.get('/emailPreferences', verifyToken(JWT_SECRET), getEmailPreferencesRoute);
+  router.post('/updateEmailPreferences', verifyToken(JWT_SECRET), updateEmailPreferencesRoute);
+  router.get('/unsubscribe', unsubscribeConfirmationRoute);
+  router.post('/unsubscribe', unsubscribeRoute);
+  router.post('/promote', verifyToken(JWT_SECRET), requireRole('admin'), promoteUserRoute);
+  router.post('/demote', verifyToken(JWT_SECRET), requireRole('admin'), demoteUserRoute);
 
   return router;
 };
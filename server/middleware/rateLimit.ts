@@ -0,0 +1,47 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../types';
+
+/**
+ * Creates a middleware that limits how many requests each user may make in a sliding window of
+ * time. Users are told apart by the username set by `verifyToken`, which must run first, falling
+ * back to the IP address. Requests over the limit are rejected with a 429 status and a
+ * `Retry-After` header giving the seconds until the next request is allowed. Users whose requests
+ * have all left the window are forgotten, checked at most once per window, so that only the users
+ * active recently are kept in memory.
+ *
+ * @param options - The most requests allowed per window, the length of the window in
+ *        milliseconds, and the message sent back when the limit is reached.
+ *
+ * @returns The middleware.
+ */
+const rateLimit = (options: { limit: number; windowMs: number; message: string }) => {
+  // The times of the recent requests of each user, oldest first
+  const requests = new Map<string, number[]>();
+  let lastSweep = Date.now();
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const key = req.user?.username ?? req.ip ?? '';
+    const now = Date.now();
+
+    if (now - lastSweep >= options.windowMs) {
+      requests.forEach((times, user) => {
+        if (now - times[times.length - 1] >= options.windowMs) {
+          requests.delete(user);
+        }
+      });
+      lastSweep = now;
+    }
+    const recent = (requests.get(key) ?? []).filter(time => now - time < options.windowMs);
+
+    if (recent.length >= options.limit) {
+      requests.set(key, recent);
+      res.setHeader('Retry-After', Math.ceil((recent[0] + options.windowMs - now) / 1000));
+      return res.status(429).send(options.message);
+    }
+
+    requests.set(key, [...recent, now]);
+    return next();
+  };
+};
+
+export default rateLimit;
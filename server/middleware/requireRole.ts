@@ -0,0 +1,22 @@
+import { Response, NextFunction } from 'express';
+import { hasRole } from '../utils/privileges';
+import { AuthenticatedRequest, UserRole } from '../types';
+
+/**
+ * Creates a middleware that only lets through users with a role, or a more trusted one. The user
+ * is the one set by `verifyToken`, which must run first, so a role taken away applies at once
+ * rather than when the user's access token expires. Other users are rejected with a 403 status.
+ *
+ * @param role - The least trusted role allowed.
+ *
+ * @returns The middleware.
+ */
+const requireRole =
+  (role: UserRole) => (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!hasRole(req.user, role)) {
+      return res.status(403).send(`This requires the ${role} role`);
+    }
+    return next();
+  };
+
+export default requireRole;
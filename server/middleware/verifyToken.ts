@@ -1,6 +1,7 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import UserModel from '../models/users';
+import { isSessionActive } from '../models/sessionOperations';
 import { AuthenticatedRequest, DecodedToken } from '../types';
 
 const verifyToken =
@@ -13,15 +14,59 @@ const verifyToken =
 
     try {
       const decodedToken = jwt.verify(token, JWT_SECRET) as DecodedToken;
+      if (decodedToken.sessionId && !(await isSessionActive(decodedToken.sessionId))) {
+        return res.status(401).json({ message: 'Session has been signed out' });
+      }
       const user = await UserModel.findOne({ _id: decodedToken.userId });
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
       req.user = user;
+      req.sessionId = decodedToken.sessionId;
       return next();
     } catch (error) {
       return res.status(401).json({ message: 'Invalid token' });
     }
   };
 
+/**
+ * Identifies the user of a route that does not require authentication. A valid token of an active
+ * session sets `req.user` as `verifyToken` does; a missing or invalid one lets the request through
+ * anonymously instead of rejecting it.
+ *
+ * @param JWT_SECRET The secret the tokens are signed with.
+ */
+export const identifyUser =
+  (JWT_SECRET: string) => async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const token = req.headers.authorization?.split(' ')[1];
+
+    if (token) {
+      try {
+        const decodedToken = jwt.verify(token, JWT_SECRET) as DecodedToken;
+        if (!decodedToken.sessionId || (await isSessionActive(decodedToken.sessionId))) {
+          const user = await UserModel.findOne({ _id: decodedToken.userId });
+          if (user) {
+            req.user = user;
+            req.sessionId = decodedToken.sessionId;
+          }
+        }
+      } catch (error) {
+        // The request goes on as anonymous
+      }
+    }
+    return next();
+  };
+
+/**
+ * Checks that a username supplied by the client refers to the authenticated user. The acting
+ * identity is always taken from the token, so an omitted username is accepted.
+ *
+ * @param req The request populated by `verifyToken`.
+ * @param username The username supplied in the request body, if any.
+ *
+ * @returns `true` if the request may act as the supplied username, otherwise `false`.
+ */
+export const isActingUser = (req: AuthenticatedRequest, username?: string): boolean =>
+  req.user !== undefined && (!username || username === req.user.username);
+
 export default verifyToken;
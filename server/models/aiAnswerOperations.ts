@@ -0,0 +1,286 @@
+import { QueryOptions } from 'mongoose';
+import QuestionModel from './questions';
+import {
+  AIAnswerFeedback,
+  AIAnswerFeedbackResponse,
+  AIAnswerRating,
+  AIAnswerReportResponse,
+  AIAnswerStatus,
+  AIAnswerUpdatePayload,
+  Question,
+} from '../types';
+
+// The number of answers in the report of the worst-rated AI answers, unless asked otherwise
+const DEFAULT_REPORT_SIZE = 20;
+
+// The most answers the report of the worst-rated AI answers may include
+const MAX_REPORT_SIZE = 100;
+
+/**
+ * Fills in the feedback an AI answer has never received with empty defaults.
+ *
+ * @param {Partial<AIAnswerFeedback>} [feedback] - The feedback stored on the question.
+ *
+ * @returns {AIAnswerFeedback} - The complete feedback.
+ */
+const withDefaults = (feedback?: Partial<AIAnswerFeedback>): AIAnswerFeedback => ({
+  helpful: feedback?.helpful ?? [],
+  unhelpful: feedback?.unhelpful ?? [],
+  flags: feedback?.flags ?? [],
+  hidden: feedback?.hidden ?? false,
+});
+
+/**
+ * Explains why feedback could not be given on the AI answer of a question.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {string} otherwise - The error message when the question has an AI answer.
+ *
+ * @returns {Promise<string>} - The error message: the question does not exist, it has no AI
+ *          answer to give feedback on, or the given message.
+ */
+const feedbackError = async (qid: string, otherwise: string): Promise<string> => {
+  const question = await QuestionModel.findOne({ _id: qid, deletedAt: { $exists: false } });
+  if (!question) {
+    return 'Question not found';
+  }
+  return question.aiGeneratedAnswer === undefined ? 'AI answer not available' : otherwise;
+};
+
+/**
+ * Builds the update that toggles a user's rating of an AI answer. Rating it the same way again
+ * clears the rating, and rating it the other way replaces it.
+ *
+ * @param {string} username - The user rating the answer.
+ * @param {AIAnswerRating} rating - How the user rated the answer.
+ *
+ * @returns {QueryOptions} - The update pipeline.
+ */
+const buildRatingOperation = (username: string, rating: AIAnswerRating): QueryOptions => {
+  const [ratings, opposing] =
+    rating === 'helpful' ? ['helpful', 'unhelpful'] : ['unhelpful', 'helpful'];
+  const current = { $ifNull: [`$aiAnswerFeedback.${ratings}`, []] };
+  const other = { $ifNull: [`$aiAnswerFeedback.${opposing}`, []] };
+
+  return [
+    {
+      $set: {
+        [`aiAnswerFeedback.${ratings}`]: {
+          $cond: [
+            { $in: [username, current] },
+            { $filter: { input: current, as: 'r', cond: { $ne: ['$$r', username] } } },
+            { $concatArrays: [current, [username]] },
+          ],
+        },
+        [`aiAnswerFeedback.${opposing}`]: {
+          $filter: { input: other, as: 'o', cond: { $ne: ['$$o', username] } },
+        },
+      },
+    },
+  ];
+};
+
+/**
+ * Records the outcome of generating the AI answer of a question.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {AIAnswerStatus} status - The new status of the AI answer.
+ * @param {string} [answer] - The generated answer, when the status is `ready`.
+ *
+ * @returns {Promise<AIAnswerUpdatePayload | { error: string }>} - The new status and answer of the
+ *          question, or an error message if the question does not exist or the operation failed.
+ */
+export const saveAIAnswer = async (
+  qid: string,
+  status: AIAnswerStatus,
+  answer?: string,
+): Promise<AIAnswerUpdatePayload | { error: string }> => {
+  try {
+    const update =
+      answer !== undefined
+        ? { $set: { aiAnswerStatus: status, aiGeneratedAnswer: answer } }
+        : { $set: { aiAnswerStatus: status }, $unset: { aiGeneratedAnswer: '' } };
+    const question = await QuestionModel.findOneAndUpdate({ _id: qid }, update, { new: true });
+    if (!question) {
+      return { error: 'Question not found' };
+    }
+    return { qid, aiAnswerStatus: status, aiGeneratedAnswer: question.aiGeneratedAnswer };
+  } catch (error) {
+    return { error: 'Error when saving AI answer' };
+  }
+};
+
+/**
+ * Retrieves the questions whose AI answer was still being generated, for example when the server
+ * stopped before it was done.
+ *
+ * @returns {Promise<{ qid: string; text: string }[] | { error: string }>} - The ID and text of
+ *          each question, or an error message if the operation failed.
+ */
+export const getPendingAIAnswers = async (): Promise<
+  { qid: string; text: string }[] | { error: string }
+> => {
+  try {
+    const questions = await QuestionModel.find({
+      aiAnswerStatus: 'pending',
+      deletedAt: { $exists: false },
+    }).select('text');
+    return questions.map(q => ({ qid: q._id.toString(), text: q.text }));
+  } catch (error) {
+    return { error: 'Error when fetching pending AI answers' };
+  }
+};
+
+/**
+ * Rates the AI answer of a question as helpful or unhelpful, or clears the rating if the user
+ * already rated it the same way.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {string} username - The user rating the answer.
+ * @param {AIAnswerRating} rating - How the user rated the answer.
+ *
+ * @returns {Promise<AIAnswerFeedbackResponse>} - The updated feedback, or an error message if the
+ *          question does not exist, has no AI answer, or the operation failed.
+ */
+export const rateAIAnswer = async (
+  qid: string,
+  username: string,
+  rating: AIAnswerRating,
+): Promise<AIAnswerFeedbackResponse> => {
+  try {
+    const question = await QuestionModel.findOneAndUpdate(
+      { _id: qid, aiGeneratedAnswer: { $exists: true }, deletedAt: { $exists: false } },
+      buildRatingOperation(username, rating),
+      { new: true },
+    ).lean<Question>();
+    if (!question) {
+      return { error: await feedbackError(qid, 'Question not found') };
+    }
+    return { qid, aiAnswerFeedback: withDefaults(question.aiAnswerFeedback) };
+  } catch (error) {
+    return { error: 'Error when rating AI answer' };
+  }
+};
+
+/**
+ * Flags the AI answer of a question as incorrect. Each user can flag an answer once.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {string} username - The user flagging the answer.
+ * @param {string} [reason] - Why the answer is incorrect.
+ *
+ * @returns {Promise<AIAnswerFeedbackResponse>} - The updated feedback, or an error message if the
+ *          question does not exist, has no AI answer, the user already flagged it, or the
+ *          operation failed.
+ */
+export const flagAIAnswer = async (
+  qid: string,
+  username: string,
+  reason?: string,
+): Promise<AIAnswerFeedbackResponse> => {
+  try {
+    const question = await QuestionModel.findOneAndUpdate(
+      {
+        '_id': qid,
+        'aiGeneratedAnswer': { $exists: true },
+        'deletedAt': { $exists: false },
+        'aiAnswerFeedback.flags.username': { $ne: username },
+      },
+      { $push: { 'aiAnswerFeedback.flags': { username, reason, createdAt: new Date() } } },
+      { new: true },
+    ).lean<Question>();
+    if (!question) {
+      return { error: await feedbackError(qid, 'AI answer already flagged') };
+    }
+    return { qid, aiAnswerFeedback: withDefaults(question.aiAnswerFeedback) };
+  } catch (error) {
+    return { error: 'Error when flagging AI answer' };
+  }
+};
+
+/**
+ * Hides or shows the AI answer of a question. Only the asker of the question may do this.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {string} username - The user hiding or showing the answer.
+ * @param {boolean} hidden - Whether to hide the answer.
+ *
+ * @returns {Promise<AIAnswerFeedbackResponse>} - The updated feedback, or an error message if the
+ *          question does not exist, has no AI answer, the user is not the asker, or the operation
+ *          failed.
+ */
+export const setAIAnswerHidden = async (
+  qid: string,
+  username: string,
+  hidden: boolean,
+): Promise<AIAnswerFeedbackResponse> => {
+  try {
+    const question = await QuestionModel.findOne({ _id: qid, deletedAt: { $exists: false } });
+    if (!question || question.aiGeneratedAnswer === undefined) {
+      return { error: question ? 'AI answer not available' : 'Question not found' };
+    }
+    if (question.askedBy !== username) {
+      return { error: 'Only the asker can hide the AI answer' };
+    }
+
+    const updated = await QuestionModel.findOneAndUpdate(
+      { _id: qid },
+      { $set: { 'aiAnswerFeedback.hidden': hidden } },
+      { new: true },
+    ).lean<Question>();
+    if (!updated) {
+      return { error: 'Question not found' };
+    }
+    return { qid, aiAnswerFeedback: withDefaults(updated.aiAnswerFeedback) };
+  } catch (error) {
+    return { error: 'Error when hiding AI answer' };
+  }
+};
+
+/**
+ * Builds the report of the worst-rated AI answers, to find the kinds of questions the AI answers
+ * badly. Only answers rated unhelpful or flagged at least once are included, worst first: by their
+ * unhelpful ratings and flags minus their helpful ratings, then newest first.
+ *
+ * @param {number} [limit] - The most answers to include.
+ *
+ * @returns {Promise<AIAnswerReportResponse>} - The answers in the report, or an error message if
+ *          the operation failed.
+ */
+export const getAIAnswerReport = async (limit?: number): Promise<AIAnswerReportResponse> => {
+  try {
+    const entries = await QuestionModel.aggregate([
+      { $match: { aiGeneratedAnswer: { $exists: true }, deletedAt: { $exists: false } } },
+      {
+        $project: {
+          title: 1,
+          text: 1,
+          aiGeneratedAnswer: 1,
+          askDateTime: 1,
+          helpful: { $size: { $ifNull: ['$aiAnswerFeedback.helpful', []] } },
+          unhelpful: { $size: { $ifNull: ['$aiAnswerFeedback.unhelpful', []] } },
+          flags: { $ifNull: ['$aiAnswerFeedback.flags', []] },
+        },
+      },
+      { $match: { $or: [{ unhelpful: { $gt: 0 } }, { 'flags.0': { $exists: true } }] } },
+      {
+        $set: { score: { $subtract: [{ $add: ['$unhelpful', { $size: '$flags' }] }, '$helpful'] } },
+      },
+      { $sort: { score: -1, askDateTime: -1 } },
+      { $limit: Math.min(limit ?? DEFAULT_REPORT_SIZE, MAX_REPORT_SIZE) },
+    ]);
+
+    return entries.map(e => ({
+      qid: e._id.toString(),
+      title: e.title,
+      text: e.text,
+      aiGeneratedAnswer: e.aiGeneratedAnswer,
+      helpful: e.helpful,
+      unhelpful: e.unhelpful,
+      flags: e.flags,
+      score: e.score,
+    }));
+  } catch (error) {
+    return { error: 'Error when fetching AI answer report' };
+  }
+};
@@ -1,170 +1,209 @@
 import { ObjectId } from 'mongodb';
-import { QueryOptions } from 'mongoose';
+import { FilterQuery, PipelineStage, QueryOptions } from 'mongoose';
 import {
   Answer,
   AnswerResponse,
   Comment,
   CommentResponse,
+  ListedQuestion,
   OrderType,
+  ProfileAnswer,
   Question,
+  QuestionPageResponse,
   QuestionResponse,
+  RevisionChange,
   Tag,
+  UserProfileResponse,
+  VoteResponse,
 } from '../types';
 import AnswerModel from './answers';
 import QuestionModel from './questions';
 import TagModel from './tags';
 import CommentModel from './comments';
+import UserModel from './users';
+import { recordAcceptReputation, recordVoteReputation } from './reputationOperations';
+import { removePostAttachments } from './attachmentOperations';
+import { tagNamed } from './tagOperations';
+import { buildSearchFilter, findTextMatches } from './searchOperations';
+import { buildSnippet, parseSearchQuery } from '../utils/searchQuery';
+
+// Query filter excluding documents that have been soft-deleted
+const notDeleted = { deletedAt: { $exists: false } };
+
+// Query filter excluding posts hidden after being flagged, until a moderator reviews them
+const notHidden = { hiddenAt: { $exists: false } };
 
 /**
- * Parses tags from a search string.
- *
- * @param {string} search - Search string containing tags in square brackets (e.g., "[tag1][tag2]")
- *
- * @returns {string[]} - An array of tags found in the search string
+ * A field questions are sorted on when listing them, along with how its values are represented
+ * in a cursor.
  */
-const parseTags = (search: string): string[] =>
-  (search.match(/\[([^\]]+)\]/g) || []).map(word => word.slice(1, -1));
+type SortKey = { field: string; kind: 'date' | 'number' | 'id' };
+
+// The number of questions on a page when the request does not ask for a size, and the most allowed
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
 
 /**
- * Parses keywords from a search string by removing tags and extracting individual words.
- *
- * @param {string} search - The search string containing keywords and possibly tags
- *
- * @returns {string[]} - An array of keywords found in the search string
+ * The fields each listing is sorted on, all in descending order. Every listing ends with the
+ * asking date and the ID so that the order is total, which cursors rely on.
  */
-const parseKeyword = (search: string): string[] =>
-  search.replace(/\[([^\]]+)\]/g, ' ').match(/\b\w+\b/g) || [];
+const questionSortKeys: Record<OrderType, SortKey[]> = {
+  newest: [
+    { field: 'askDateTime', kind: 'date' },
+    { field: '_id', kind: 'id' },
+  ],
+  unanswered: [
+    { field: 'askDateTime', kind: 'date' },
+    { field: '_id', kind: 'id' },
+  ],
+  unresolved: [
+    { field: 'askDateTime', kind: 'date' },
+    { field: '_id', kind: 'id' },
+  ],
+  active: [
+    { field: 'lastActivity', kind: 'date' },
+    { field: 'askDateTime', kind: 'date' },
+    { field: '_id', kind: 'id' },
+  ],
+  mostViewed: [
+    { field: 'viewCount', kind: 'number' },
+    { field: 'askDateTime', kind: 'date' },
+    { field: '_id', kind: 'id' },
+  ],
+  relevance: [
+    { field: 'relevance', kind: 'number' },
+    { field: 'askDateTime', kind: 'date' },
+    { field: '_id', kind: 'id' },
+  ],
+};
 
 /**
- * Checks if given question contains any tags from the given list.
- *
- * @param {Question} q - The question to check
- * @param {string[]} taglist - The list of tags to check for
- *
- * @returns {boolean} - `true` if any tag is present in the question, `false` otherwise
+ * The conditions a question must meet to be part of each listing.
  */
-const checkTagInQuestion = (q: Question, taglist: string[]): boolean => {
-  for (const tagname of taglist) {
-    for (const tag of q.tags) {
-      if (tagname === tag.name) {
-        return true;
-      }
-    }
-  }
-
-  return false;
+const questionOrderFilters: Record<OrderType, FilterQuery<Question>> = {
+  newest: {},
+  unanswered: { answers: { $size: 0 } },
+  unresolved: { acceptedAnswer: null },
+  active: {},
+  mostViewed: {},
+  relevance: {},
 };
 
 /**
- * Checks if any keywords in the provided list exist in a given question's title or text.
+ * Builds the aggregation stages computing the sort fields that are not stored on questions. For
+ * `active`, questions without answers get the earliest possible date so that they come last. For
+ * `relevance`, questions are given a higher value the earlier they are in the ranking of a search.
  *
- * @param {Question} q - The question to check
- * @param {string[]} keywordlist - The list of keywords to check for
+ * @param {OrderType} order - The order of the listing
+ * @param {ObjectId[]} ranked - The IDs of the questions matching a search, most relevant first
  *
- * @returns {boolean} - `true` if any keyword is present, `false` otherwise.
+ * @returns {PipelineStage[]} - The stages adding the computed fields
  */
-const checkKeywordInQuestion = (q: Question, keywordlist: string[]): boolean => {
-  for (const w of keywordlist) {
-    if (q.title.includes(w) || q.text.includes(w)) {
-      return true;
-    }
+const computedSortStages = (order: OrderType, ranked: ObjectId[] = []): PipelineStage[] => {
+  if (order === 'active') {
+    return [
+      {
+        $lookup: { from: 'Answer', localField: 'answers', foreignField: '_id', as: 'answerDocs' },
+      },
+      {
+        $addFields: {
+          lastActivity: { $ifNull: [{ $max: '$answerDocs.ansDateTime' }, new Date(0)] },
+        },
+      },
+      { $project: { answerDocs: 0 } },
+    ];
   }
-
-  return false;
+  if (order === 'mostViewed') {
+    return [{ $addFields: { viewCount: { $size: { $ifNull: ['$views', []] } } } }];
+  }
+  if (order === 'relevance') {
+    return [{ $addFields: { relevance: { $subtract: [0, { $indexOfArray: [ranked, '$_id'] }] } } }];
+  }
+  return [];
 };
 
 /**
- * Gets the newest questions from a list, sorted by the asking date in descending order.
+ * Encodes the position of a question in a listing as an opaque cursor.
  *
- * @param {Question[]} qlist - The list of questions to sort
+ * @param {Record<string, unknown>} question - The last question of a page, with its sort fields
+ * @param {SortKey[]} keys - The fields the listing is sorted on
  *
- * @returns {Question[]} - The sorted list of questions
+ * @returns {string} - The cursor
  */
-const sortQuestionsByNewest = (qlist: Question[]): Question[] =>
-  qlist.sort((a, b) => {
-    if (a.askDateTime > b.askDateTime) {
-      return -1;
-    }
-
-    if (a.askDateTime < b.askDateTime) {
-      return 1;
-    }
-
-    return 0;
-  });
+const encodeCursor = (question: Record<string, unknown>, keys: SortKey[]): string =>
+  Buffer.from(JSON.stringify(keys.map(k => question[k.field]))).toString('base64url');
 
 /**
- * Gets unanswered questions from a list, sorted by the asking date in descending order.
+ * Decodes a cursor into the values of the sort fields of the question it points at.
  *
- * @param {Question[]} qlist - The list of questions to filter and sort
+ * @param {string} cursor - The cursor returned with a previous page
+ * @param {SortKey[]} keys - The fields the listing is sorted on
  *
- * @returns {Question[]} - The filtered and sorted list of unanswered questions
- */
-const sortQuestionsByUnanswered = (qlist: Question[]): Question[] =>
-  sortQuestionsByNewest(qlist).filter(q => q.answers.length === 0);
-
-/**
- * Records the most recent answer time for a question.
+ * @returns {unknown[]} - The values of the sort fields
  *
- * @param {Question} question - The question to check
- * @param {Map<string, Date>} mp - A map of the most recent answer time for each question
+ * @throws {Error} - If the cursor is malformed or belongs to a listing with a different order
  */
-const getMostRecentAnswerTime = (question: Question, mp: Map<string, Date>): void => {
-  // This is a private function and we can assume that the answers field is not undefined or an array of ObjectId
-  const answers = question.answers as Answer[];
-  answers.forEach((answer: Answer) => {
-    if (question._id !== undefined) {
-      const currentMostRecent = mp.get(question?._id.toString());
-      if (!currentMostRecent || currentMostRecent < answer.ansDateTime) {
-        mp.set(question._id.toString(), answer.ansDateTime);
-      }
+const decodeCursor = (cursor: string, keys: SortKey[]): unknown[] => {
+  const values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  if (!Array.isArray(values) || values.length !== keys.length) {
+    throw new Error('Invalid cursor');
+  }
+
+  return keys.map((key, i) => {
+    const value = values[i];
+    if (key.kind === 'id' && typeof value === 'string' && ObjectId.isValid(value)) {
+      return new ObjectId(value);
+    }
+    if (key.kind === 'date' && typeof value === 'string' && !Number.isNaN(Date.parse(value))) {
+      return new Date(value);
+    }
+    if (key.kind === 'number' && typeof value === 'number') {
+      return value;
     }
+    throw new Error('Invalid cursor');
   });
 };
 
 /**
- * Gets active questions from a list, sorted by the most recent answer date in descending order.
+ * Builds the query filter matching the questions that come after a cursor in a listing sorted in
+ * descending order on the given fields.
  *
- * @param {Question[]} qlist - The list of questions to filter and sort
+ * @param {SortKey[]} keys - The fields the listing is sorted on
+ * @param {unknown[]} values - The values of those fields for the question the cursor points at
  *
- * @returns {Question[]} - The filtered and sorted list of active questions
+ * @returns {FilterQuery<Question>} - The filter
  */
-const sortQuestionsByActive = (qlist: Question[]): Question[] => {
-  const mp = new Map();
-  qlist.forEach(q => {
-    getMostRecentAnswerTime(q, mp);
-  });
+const afterCursor = (keys: SortKey[], values: unknown[]): FilterQuery<Question> => ({
+  $or: keys.map((key, i) => ({
+    ...Object.fromEntries(keys.slice(0, i).map((k, j) => [k.field, values[j]])),
+    [key.field]: { $lt: values[i] },
+  })),
+});
 
-  return sortQuestionsByNewest(qlist).sort((a, b) => {
-    const adate = mp.get(a._id?.toString());
-    const bdate = mp.get(b._id?.toString());
-    if (!adate) {
-      return 1;
-    }
-    if (!bdate) {
-      return -1;
-    }
-    if (adate > bdate) {
-      return -1;
-    }
-    if (adate < bdate) {
-      return 1;
-    }
-    return 0;
-  });
-};
+/**
+ * Describes a list of tags for a revision, as space separated tag names.
+ *
+ * @param {Tag[]} tags - The tags to describe
+ *
+ * @returns {string} - The names of the tags separated by spaces
+ */
+const describeTags = (tags: Tag[]): string => tags.map(t => t.name).join(' ');
 
 /**
- * Sorts a list of questions by the number of views in descending order. First, the questions are
- * sorted by creation date (newest first), then by number of views, from highest to lowest.
- * If questions have the same number of views, the newer question will be before the older question.
+ * Computes the fields changed by an edit. Fields left out of the edit are not compared.
  *
- * @param qlist The array of Question objects to be sorted.
+ * @param before - The current values of the editable fields
+ * @param after - The values set by the edit
  *
- * @returns A new array of Question objects sorted by the number of views.
+ * @returns {RevisionChange[]} - The fields whose value differs, with their old and new values
  */
-const sortQuestionsByMostViews = (qlist: Question[]): Question[] =>
-  sortQuestionsByNewest(qlist).sort((a, b) => b.views.length - a.views.length);
+const diffFields = (
+  before: Partial<Record<RevisionChange['field'], string>>,
+  after: Partial<Record<RevisionChange['field'], string>>,
+): RevisionChange[] =>
+  (Object.keys(after) as RevisionChange['field'][])
+    .filter(field => after[field] !== undefined && after[field] !== before[field])
+    .map(field => ({ field, before: before[field] ?? '', after: after[field] as string }));
 
 /**
  * Adds a tag to the database if it does not already exist.
@@ -193,76 +232,85 @@ export const addTag = async (tag: Tag): Promise<Tag | null> => {
 };
 
 /**
- * Retrieves questions from the database, ordered by the specified criteria.
+ * Retrieves one page of a question listing. The listing is filtered and sorted by the database,
+ * and continues after the question a cursor points at, if one is given. The search string is
+ * parsed by `parseSearchQuery`; its words and phrases are matched with the text indexes against
+ * questions and their answers, and each listed question then gets a snippet highlighting them.
+ * Listing by `relevance` without words or phrases to rank by lists the newest questions. Deleted
+ * questions, and questions hidden after being flagged, are never listed.
  *
- * @param {OrderType} order - The order type to filter the questions
+ * @param {OrderType} order - The order type to filter and sort the questions
+ * @param options - The search string, the user who asked the questions, the page size, and the
+ *                  cursor returned with the previous page
  *
- * @returns {Promise<Question[]>} - Promise that resolves to a list of ordered questions
+ * @returns {Promise<QuestionPageResponse>} - The page of questions with the total number of
+ *          matching questions, or an error message if the operation failed
  */
-export const getQuestionsByOrder = async (order: OrderType): Promise<Question[]> => {
+export const getQuestionPage = async (
+  order: OrderType,
+  options: { search?: string; askedBy?: string; limit?: number; cursor?: string } = {},
+): Promise<QuestionPageResponse> => {
+  const query = parseSearchQuery(options.search ?? '');
+  const words = [...query.terms, ...query.phrases];
+
+  // Unknown orders list the newest questions
+  let listing: OrderType = order in questionSortKeys ? order : 'newest';
+  if (listing === 'relevance' && words.length === 0) {
+    listing = 'newest';
+  }
+  const keys = questionSortKeys[listing];
+  const limit = Math.min(options.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+  let cursorValues: unknown[] | undefined;
   try {
-    let qlist = [];
-    if (order === 'active') {
-      qlist = await QuestionModel.find().populate([
-        { path: 'tags', model: TagModel },
-        { path: 'answers', model: AnswerModel },
-      ]);
-      return sortQuestionsByActive(qlist);
-    }
-    qlist = await QuestionModel.find().populate([{ path: 'tags', model: TagModel }]);
-    if (order === 'unanswered') {
-      return sortQuestionsByUnanswered(qlist);
-    }
-    if (order === 'newest') {
-      return sortQuestionsByNewest(qlist);
-    }
-    return sortQuestionsByMostViews(qlist);
+    cursorValues = options.cursor ? decodeCursor(options.cursor, keys) : undefined;
   } catch (error) {
-    return [];
+    return { error: 'Invalid cursor' };
   }
-};
-
-/**
- * Filters a list of questions by the user who asked them.
- *
- * @param qlist The array of Question objects to be filtered.
- * @param askedBy The username of the user who asked the questions.
- *
- * @returns Filtered Question objects.
- */
-export const filterQuestionsByAskedBy = (qlist: Question[], askedBy: string): Question[] =>
-  qlist.filter(q => q.askedBy === askedBy);
 
-/**
- * Filters questions based on a search string containing tags and/or keywords.
- *
- * @param {Question[]} qlist - The list of questions to filter
- * @param {string} search - The search string containing tags and/or keywords
- *
- * @returns {Question[]} - The filtered list of questions matching the search criteria
- */
-export const filterQuestionsBySearch = (qlist: Question[], search: string): Question[] => {
-  const searchTags = parseTags(search);
-  const searchKeyword = parseKeyword(search);
-
-  if (!qlist || qlist.length === 0) {
-    return [];
-  }
-  return qlist.filter((q: Question) => {
-    if (searchKeyword.length === 0 && searchTags.length === 0) {
-      return true;
-    }
+  try {
+    const [matches, searchFilter] = await Promise.all([
+      findTextMatches(query),
+      buildSearchFilter(query),
+    ]);
+    const filter: FilterQuery<Question> = {
+      ...notDeleted,
+      ...notHidden,
+      ...questionOrderFilters[listing],
+      ...(options.askedBy ? { askedBy: options.askedBy } : {}),
+      ...(matches ? { _id: { $in: matches.ranked } } : {}),
+      ...searchFilter,
+    };
 
-    if (searchKeyword.length === 0) {
-      return checkTagInQuestion(q, searchTags);
-    }
+    const [total, questions] = await Promise.all([
+      QuestionModel.countDocuments(filter),
+      QuestionModel.aggregate([
+        { $match: filter },
+        ...computedSortStages(listing, matches?.ranked),
+        ...(cursorValues ? [{ $match: afterCursor(keys, cursorValues) }] : []),
+        { $sort: Object.fromEntries(keys.map(k => [k.field, -1])) },
+        { $limit: limit + 1 },
+        { $lookup: { from: 'Tag', localField: 'tags', foreignField: '_id', as: 'tags' } },
+      ]),
+    ]);
 
-    if (searchTags.length === 0) {
-      return checkKeywordInQuestion(q, searchKeyword);
+    const page: ListedQuestion[] = questions.slice(0, limit);
+    if (matches) {
+      page.forEach(q => {
+        q.snippet =
+          buildSnippet(q.text, words) ??
+          buildSnippet(matches.answerText.get(q._id?.toString() ?? '') ?? '', words);
+      });
     }
 
-    return checkKeywordInQuestion(q, searchKeyword) || checkTagInQuestion(q, searchTags);
-  });
+    return {
+      questions: page,
+      total,
+      nextCursor: questions.length > limit ? encodeCursor(questions[limit - 1], keys) : undefined,
+    };
+  } catch (error) {
+    return { error: 'Error when fetching questions' };
+  }
 };
 
 /**
@@ -297,6 +345,7 @@ export const populateDocument = async (
           populate: { path: 'comments', model: CommentModel },
         },
         { path: 'comments', model: CommentModel },
+        { path: 'closure.duplicateOf', model: QuestionModel, select: 'title' },
       ]);
     } else if (type === 'answer') {
       result = await AnswerModel.findOne({ _id: id }).populate([
@@ -327,7 +376,7 @@ export const fetchAndIncrementQuestionViewsById = async (
 ): Promise<QuestionResponse | null> => {
   try {
     const q = await QuestionModel.findOneAndUpdate(
-      { _id: new ObjectId(qid) },
+      { _id: new ObjectId(qid), ...notDeleted },
       { $addToSet: { views: username } },
       { new: true },
     ).populate([
@@ -341,6 +390,7 @@ export const fetchAndIncrementQuestionViewsById = async (
         populate: { path: 'comments', model: CommentModel },
       },
       { path: 'comments', model: CommentModel },
+      { path: 'closure.duplicateOf', model: QuestionModel, select: 'title' },
     ]);
     return q;
   } catch (error) {
@@ -396,9 +446,35 @@ export const saveComment = async (comment: Comment): Promise<CommentResponse> =>
   }
 };
 
+/**
+ * Checks whether a user may comment on a post without the reputation to comment: the author of
+ * a question or answer may comment on it, and so may the asker on the answers to their question.
+ *
+ * @param {string} id - The ID of the question or answer.
+ * @param {'question' | 'answer'} type - The type of the post.
+ * @param {string} username - The username of the user commenting.
+ *
+ * @returns {Promise<boolean>} - `true` if the user wrote the post or asked its question.
+ */
+export const isPostOwnerOrAsker = async (
+  id: string,
+  type: 'question' | 'answer',
+  username: string,
+): Promise<boolean> => {
+  if (type === 'question') {
+    return !!(await QuestionModel.findOne({ _id: id, askedBy: username }).select('_id'));
+  }
+  const [answer, question] = await Promise.all([
+    AnswerModel.findOne({ _id: id, ansBy: username }).select('_id'),
+    QuestionModel.findOne({ answers: new ObjectId(id), askedBy: username }).select('_id'),
+  ]);
+  return !!answer || !!question;
+};
+
 /**
  * Processes a list of tags by removing duplicates, checking for existing tags in the database,
- * and adding non-existing tags. Returns an array of the existing or newly added tags.
+ * and adding non-existing tags. Returns an array of the existing or newly added tags. Synonyms
+ * resolve to the tag they stand for, so a tag given along with its synonym is only returned once.
  * If an error occurs during the process, it is logged, and an empty array is returned.
  *
  * @param tags The array of Tag objects to be processed.
@@ -418,7 +494,7 @@ export const processTags = async (tags: Tag[]): Promise<Tag[]> => {
     // Use Promise.all to asynchronously process each unique tag.
     const processedTags = await Promise.all(
       uniqueTags.map(async tag => {
-        const existingTag = await TagModel.findOne({ name: tag.name });
+        const existingTag = await TagModel.findOne(tagNamed(tag.name));
 
         if (existingTag) {
           return existingTag; // If tag exists, return it as part of the processed tags
@@ -434,7 +510,11 @@ export const processTags = async (tags: Tag[]): Promise<Tag[]> => {
       }),
     );
 
-    return processedTags;
+    // Keep the first of the tags that resolved to the same tag
+    return processedTags.filter(
+      (tag, index) =>
+        processedTags.findIndex(other => String(other._id) === String(tag._id)) === index,
+    );
   } catch (error: unknown) {
     // Log the error for debugging purposes
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -445,98 +525,186 @@ export const processTags = async (tags: Tag[]): Promise<Tag[]> => {
 };
 
 /**
- * Adds a vote to a question.
+ * Builds the update that toggles a user's vote on a question, answer or comment. Voting the same
+ * way twice cancels the vote, and voting the other way replaces it. Missing vote arrays are
+ * treated as empty, since answers and comments created before voting on them was possible
+ * do not have them.
  *
- * @param qid The ID of the question to add a vote to.
  * @param username The username of the user who voted.
  * @param type The type of vote to add, either 'upvote' or 'downvote'.
  *
- * @returns A Promise that resolves to an object containing either a success message or an error message,
- *          along with the updated upVotes and downVotes arrays.
+ * @returns The aggregation pipeline update to apply to the voted document.
  */
-export const addVoteToQuestion = async (
-  qid: string,
+const buildVoteOperation = (username: string, type: 'upvote' | 'downvote'): QueryOptions => {
+  const [votes, opposing] = type === 'upvote' ? ['upVotes', 'downVotes'] : ['downVotes', 'upVotes'];
+  const current = { $ifNull: [`$${votes}`, []] };
+  const other = { $ifNull: [`$${opposing}`, []] };
+
+  return [
+    {
+      $set: {
+        [votes]: {
+          $cond: [
+            { $in: [username, current] },
+            { $filter: { input: current, as: 'v', cond: { $ne: ['$$v', username] } } },
+            { $concatArrays: [current, [username]] },
+          ],
+        },
+        [opposing]: {
+          $cond: [
+            { $in: [username, current] },
+            other,
+            { $filter: { input: other, as: 'o', cond: { $ne: ['$$o', username] } } },
+          ],
+        },
+      },
+    },
+  ];
+};
+
+/**
+ * Describes the outcome of a vote once it has been applied.
+ *
+ * @param label The capitalised name of the voted item, e.g. 'Question'.
+ * @param result The votes of the item after the update.
+ * @param username The username of the user who voted.
+ * @param type The type of vote that was added, either 'upvote' or 'downvote'.
+ *
+ * @returns The updated votes along with a message saying whether the vote was added or cancelled.
+ */
+const voteResult = (
+  label: string,
+  result: { upVotes?: string[]; downVotes?: string[] },
   username: string,
   type: 'upvote' | 'downvote',
-): Promise<{ msg: string; upVotes: string[]; downVotes: string[] } | { error: string }> => {
-  let updateOperation: QueryOptions;
+): VoteResponse => {
+  const upVotes = result.upVotes || [];
+  const downVotes = result.downVotes || [];
+  let msg = '';
 
   if (type === 'upvote') {
-    updateOperation = [
-      {
-        $set: {
-          upVotes: {
-            $cond: [
-              { $in: [username, '$upVotes'] },
-              { $filter: { input: '$upVotes', as: 'u', cond: { $ne: ['$$u', username] } } },
-              { $concatArrays: ['$upVotes', [username]] },
-            ],
-          },
-          downVotes: {
-            $cond: [
-              { $in: [username, '$upVotes'] },
-              '$downVotes',
-              { $filter: { input: '$downVotes', as: 'd', cond: { $ne: ['$$d', username] } } },
-            ],
-          },
-        },
-      },
-    ];
+    msg = upVotes.includes(username)
+      ? `${label} upvoted successfully`
+      : 'Upvote cancelled successfully';
   } else {
-    updateOperation = [
-      {
-        $set: {
-          downVotes: {
-            $cond: [
-              { $in: [username, '$downVotes'] },
-              { $filter: { input: '$downVotes', as: 'd', cond: { $ne: ['$$d', username] } } },
-              { $concatArrays: ['$downVotes', [username]] },
-            ],
-          },
-          upVotes: {
-            $cond: [
-              { $in: [username, '$downVotes'] },
-              '$upVotes',
-              { $filter: { input: '$upVotes', as: 'u', cond: { $ne: ['$$u', username] } } },
-            ],
-          },
-        },
-      },
-    ];
+    msg = downVotes.includes(username)
+      ? `${label} downvoted successfully`
+      : 'Downvote cancelled successfully';
   }
 
+  return { msg, upVotes, downVotes };
+};
+
+/**
+ * Adds a vote to a question, updating the reputation of its asker. Deleted questions cannot be
+ * voted on.
+ *
+ * @param qid The ID of the question to add a vote to.
+ * @param username The username of the user who voted.
+ * @param type The type of vote to add, either 'upvote' or 'downvote'.
+ *
+ * @returns A Promise that resolves to an object containing either a success message or an error message,
+ *          along with the updated upVotes and downVotes arrays.
+ */
+export const addVoteToQuestion = async (
+  qid: string,
+  username: string,
+  type: 'upvote' | 'downvote',
+): Promise<VoteResponse> => {
   try {
-    const result = await QuestionModel.findOneAndUpdate({ _id: qid }, updateOperation, {
-      new: true,
-    });
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: qid, ...notDeleted },
+      buildVoteOperation(username, type),
+      { new: true },
+    );
 
     if (!result) {
       return { error: 'Question not found!' };
     }
 
-    let msg = '';
+    await recordVoteReputation('question', qid, result.askedBy, username, result);
+    return voteResult('Question', result, username, type);
+  } catch (err) {
+    return {
+      error:
+        type === 'upvote'
+          ? 'Error when adding upvote to question'
+          : 'Error when adding downvote to question',
+    };
+  }
+};
 
-    if (type === 'upvote') {
-      msg = result.upVotes.includes(username)
-        ? 'Question upvoted successfully'
-        : 'Upvote cancelled successfully';
-    } else {
-      msg = result.downVotes.includes(username)
-        ? 'Question downvoted successfully'
-        : 'Downvote cancelled successfully';
+/**
+ * Adds a vote to an answer, updating the reputation of its author and, for downvotes, the voter.
+ *
+ * @param aid The ID of the answer to add a vote to.
+ * @param username The username of the user who voted.
+ * @param type The type of vote to add, either 'upvote' or 'downvote'.
+ *
+ * @returns A Promise that resolves to an object containing either a success message or an error message,
+ *          along with the updated upVotes and downVotes arrays.
+ */
+export const addVoteToAnswer = async (
+  aid: string,
+  username: string,
+  type: 'upvote' | 'downvote',
+): Promise<VoteResponse> => {
+  try {
+    const result = await AnswerModel.findOneAndUpdate(
+      { _id: aid, ...notDeleted },
+      buildVoteOperation(username, type),
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Answer not found' };
     }
 
+    await recordVoteReputation('answer', aid, result.ansBy, username, result);
+    return voteResult('Answer', result, username, type);
+  } catch (err) {
     return {
-      msg,
-      upVotes: result.upVotes || [],
-      downVotes: result.downVotes || [],
+      error:
+        type === 'upvote'
+          ? 'Error when adding upvote to answer'
+          : 'Error when adding downvote to answer',
     };
+  }
+};
+
+/**
+ * Adds a vote to a comment.
+ *
+ * @param cid The ID of the comment to add a vote to.
+ * @param username The username of the user who voted.
+ * @param type The type of vote to add, either 'upvote' or 'downvote'.
+ *
+ * @returns A Promise that resolves to an object containing either a success message or an error message,
+ *          along with the updated upVotes and downVotes arrays.
+ */
+export const addVoteToComment = async (
+  cid: string,
+  username: string,
+  type: 'upvote' | 'downvote',
+): Promise<VoteResponse> => {
+  try {
+    const result = await CommentModel.findOneAndUpdate(
+      { _id: cid, ...notDeleted },
+      buildVoteOperation(username, type),
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Comment not found' };
+    }
+
+    return voteResult('Comment', result, username, type);
   } catch (err) {
     return {
       error:
         type === 'upvote'
-          ? 'Error when adding upvote to question'
-          : 'Error when adding downvote to question',
+          ? 'Error when adding upvote to comment'
+          : 'Error when adding downvote to comment',
     };
   }
 };
@@ -555,7 +723,7 @@ export const addAnswerToQuestion = async (qid: string, ans: Answer): Promise<Que
       throw new Error('Invalid answer');
     }
     const result = await QuestionModel.findOneAndUpdate(
-      { _id: qid },
+      { _id: qid, ...notDeleted },
       { $push: { answers: { $each: [ans._id], $position: 0 } } },
       { new: true },
     );
@@ -589,13 +757,13 @@ export const addComment = async (
     let result: QuestionResponse | AnswerResponse | null;
     if (type === 'question') {
       result = await QuestionModel.findOneAndUpdate(
-        { _id: id },
+        { _id: id, ...notDeleted },
         { $push: { comments: { $each: [comment._id] } } },
         { new: true },
       );
     } else {
       result = await AnswerModel.findOneAndUpdate(
-        { _id: id },
+        { _id: id, ...notDeleted },
         { $push: { comments: { $each: [comment._id] } } },
         { new: true },
       );
@@ -618,7 +786,7 @@ export const addComment = async (
 export const getTagCountMap = async (): Promise<Map<string, number> | null | { error: string }> => {
   try {
     const tlist = await TagModel.find();
-    const qlist = await QuestionModel.find().populate({
+    const qlist = await QuestionModel.find(notDeleted).populate({
       path: 'tags',
       model: TagModel,
     });
@@ -642,3 +810,496 @@ export const getTagCountMap = async (): Promise<Map<string, number> | null | { e
     return { error: 'Error when construction tag map' };
   }
 };
+
+/**
+ * Edits the title, text and/or tags of a question. Only the user who asked the question, or a
+ * user with the reputation to edit others' posts, may edit it; the changed fields are recorded
+ * as a new revision.
+ *
+ * @param {string} qid - The ID of the question to edit
+ * @param {string} username - The username of the user making the edit
+ * @param edits - The new values of the fields being edited; the tags must already be saved
+ * @param {boolean} canEditOthers - Whether the user may edit questions asked by other users
+ *
+ * @returns {Promise<QuestionResponse>} - The edited question, or an error message
+ */
+export const editQuestion = async (
+  qid: string,
+  username: string,
+  edits: { title?: string; text?: string; tags?: Tag[] },
+  canEditOthers = false,
+): Promise<QuestionResponse> => {
+  try {
+    const question = await QuestionModel.findOne({ _id: qid, ...notDeleted }).populate({
+      path: 'tags',
+      model: TagModel,
+    });
+    if (!question) {
+      return { error: 'Question not found' };
+    }
+    if (question.askedBy !== username && !canEditOthers) {
+      return { error: 'Only the author can edit this question' };
+    }
+
+    const changes = diffFields(
+      { title: question.title, text: question.text, tags: describeTags(question.tags) },
+      { title: edits.title, text: edits.text, tags: edits.tags && describeTags(edits.tags) },
+    );
+    if (changes.length === 0) {
+      return question;
+    }
+
+    const update: Record<string, unknown> = {};
+    changes.forEach(({ field }) => {
+      update[field] =
+        field === 'tags' ? edits.tags?.map(t => t._id) : edits[field as 'title' | 'text'];
+    });
+
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: qid, ...notDeleted },
+      {
+        $set: update,
+        $push: { revisions: { editedBy: username, editDateTime: new Date(), changes } },
+      },
+      { new: true },
+    );
+    if (!result) {
+      return { error: 'Question not found' };
+    }
+    return result;
+  } catch (error) {
+    return { error: 'Error when editing a question' };
+  }
+};
+
+/**
+ * Soft-deletes a question. Only the user who asked the question may delete it; the question is
+ * kept in the database along with its revisions but no longer listed or served. The files
+ * attached to the question and its answers are removed.
+ *
+ * @param {string} qid - The ID of the question to delete
+ * @param {string} username - The username of the user deleting the question
+ *
+ * @returns {Promise<QuestionResponse>} - The deleted question, or an error message
+ */
+export const deleteQuestion = async (qid: string, username: string): Promise<QuestionResponse> => {
+  try {
+    const question = await QuestionModel.findOne({ _id: qid, ...notDeleted });
+    if (!question) {
+      return { error: 'Question not found' };
+    }
+    if (question.askedBy !== username) {
+      return { error: 'Only the author can delete this question' };
+    }
+
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: qid },
+      { $set: { deletedAt: new Date() } },
+      { new: true },
+    );
+    if (!result) {
+      return { error: 'Question not found' };
+    }
+    await removePostAttachments([qid, ...question.answers.map(aid => aid.toString())]);
+    return result;
+  } catch (error) {
+    return { error: 'Error when deleting a question' };
+  }
+};
+
+/**
+ * Edits the text of an answer. Only the user who wrote the answer, or a user with the reputation
+ * to edit others' posts, may edit it; the change is recorded as a new revision.
+ *
+ * @param {string} aid - The ID of the answer to edit
+ * @param {string} username - The username of the user making the edit
+ * @param {string} text - The new content of the answer
+ * @param {boolean} canEditOthers - Whether the user may edit answers written by other users
+ *
+ * @returns {Promise<AnswerResponse>} - The edited answer, or an error message
+ */
+export const editAnswer = async (
+  aid: string,
+  username: string,
+  text: string,
+  canEditOthers = false,
+): Promise<AnswerResponse> => {
+  try {
+    const answer = await AnswerModel.findOne({ _id: aid, ...notDeleted });
+    if (!answer) {
+      return { error: 'Answer not found' };
+    }
+    if (answer.ansBy !== username && !canEditOthers) {
+      return { error: 'Only the author can edit this answer' };
+    }
+
+    const changes = diffFields({ text: answer.text }, { text });
+    if (changes.length === 0) {
+      return answer;
+    }
+
+    const result = await AnswerModel.findOneAndUpdate(
+      { _id: aid, ...notDeleted },
+      {
+        $set: { text },
+        $push: { revisions: { editedBy: username, editDateTime: new Date(), changes } },
+      },
+      { new: true },
+    );
+    if (!result) {
+      return { error: 'Answer not found' };
+    }
+    return result;
+  } catch (error) {
+    return { error: 'Error when editing an answer' };
+  }
+};
+
+/**
+ * Soft-deletes an answer. Only the user who wrote the answer may delete it; the answer is
+ * removed from its question but kept in the database along with its revisions. The files
+ * attached to the answer are removed, and if it was accepted, the reputation earned for it is
+ * taken back.
+ *
+ * @param {string} qid - The ID of the question the answer belongs to
+ * @param {string} aid - The ID of the answer to delete
+ * @param {string} username - The username of the user deleting the answer
+ *
+ * @returns {Promise<AnswerResponse>} - The deleted answer, or an error message
+ */
+export const deleteAnswer = async (
+  qid: string,
+  aid: string,
+  username: string,
+): Promise<AnswerResponse> => {
+  try {
+    const answer = await AnswerModel.findOne({ _id: aid, ...notDeleted });
+    if (!answer) {
+      return { error: 'Answer not found' };
+    }
+    if (answer.ansBy !== username) {
+      return { error: 'Only the author can delete this answer' };
+    }
+
+    const question = await QuestionModel.findOneAndUpdate(
+      { _id: qid, answers: aid },
+      { $pull: { answers: aid } },
+      { new: true },
+    );
+    if (!question) {
+      return { error: 'Answer not found' };
+    }
+    if (question.acceptedAnswer?.toString() === aid) {
+      await QuestionModel.findOneAndUpdate({ _id: qid }, { $unset: { acceptedAnswer: '' } });
+      await recordAcceptReputation(aid, undefined, question.askedBy, false);
+    }
+
+    const result = await AnswerModel.findOneAndUpdate(
+      { _id: aid },
+      { $set: { deletedAt: new Date() } },
+      { new: true },
+    );
+    if (!result) {
+      return { error: 'Answer not found' };
+    }
+    await removePostAttachments([aid]);
+    return result;
+  } catch (error) {
+    return { error: 'Error when deleting an answer' };
+  }
+};
+
+/**
+ * Marks an answer as the one that solved a question, replacing any previously accepted answer,
+ * or clears the accepted answer. Only the user who asked the question may do this. The reputation
+ * earned for the accepted answer moves with it.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {string | null} aid - The ID of the answer to accept, or `null` to unaccept
+ * @param {string} username - The username of the user accepting the answer
+ *
+ * @returns {Promise<QuestionResponse>} - The updated question, or an error message
+ */
+export const setAcceptedAnswer = async (
+  qid: string,
+  aid: string | null,
+  username: string,
+): Promise<QuestionResponse> => {
+  try {
+    const question = await QuestionModel.findOne({ _id: qid, ...notDeleted });
+    if (!question) {
+      return { error: 'Question not found' };
+    }
+    if (question.askedBy !== username) {
+      return { error: 'Only the asker can accept an answer' };
+    }
+    if (aid && !question.answers.some(a => a.toString() === aid)) {
+      return { error: 'Answer not found' };
+    }
+
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: qid },
+      aid ? { $set: { acceptedAnswer: aid } } : { $unset: { acceptedAnswer: '' } },
+      { new: true },
+    );
+    if (!result) {
+      return { error: 'Question not found' };
+    }
+
+    const previous = question.acceptedAnswer?.toString();
+    if (previous && previous !== aid) {
+      await recordAcceptReputation(previous, undefined, username, false);
+    }
+    if (aid && aid !== previous) {
+      const answer = await AnswerModel.findOne({ _id: aid });
+      await recordAcceptReputation(aid, answer?.ansBy, username, true);
+    }
+    return result;
+  } catch (error) {
+    return { error: 'Error when accepting an answer' };
+  }
+};
+
+/**
+ * Edits the text of a comment. Only the user who wrote the comment, or a user with the reputation
+ * to edit others' posts, may edit it; the change is recorded as a new revision.
+ *
+ * @param {string} cid - The ID of the comment to edit
+ * @param {string} username - The username of the user making the edit
+ * @param {string} text - The new content of the comment
+ * @param {boolean} canEditOthers - Whether the user may edit comments written by other users
+ *
+ * @returns {Promise<CommentResponse>} - The edited comment, or an error message
+ */
+export const editComment = async (
+  cid: string,
+  username: string,
+  text: string,
+  canEditOthers = false,
+): Promise<CommentResponse> => {
+  try {
+    const comment = await CommentModel.findOne({ _id: cid, ...notDeleted });
+    if (!comment) {
+      return { error: 'Comment not found' };
+    }
+    if (comment.commentBy !== username && !canEditOthers) {
+      return { error: 'Only the author can edit this comment' };
+    }
+
+    const changes = diffFields({ text: comment.text }, { text });
+    if (changes.length === 0) {
+      return comment;
+    }
+
+    const result = await CommentModel.findOneAndUpdate(
+      { _id: cid, ...notDeleted },
+      {
+        $set: { text },
+        $push: { revisions: { editedBy: username, editDateTime: new Date(), changes } },
+      },
+      { new: true },
+    );
+    if (!result) {
+      return { error: 'Comment not found' };
+    }
+    return result;
+  } catch (error) {
+    return { error: 'Error when editing a comment' };
+  }
+};
+
+/**
+ * Soft-deletes a comment. Only the user who wrote the comment may delete it; the comment is
+ * removed from the question or answer it was posted on but kept in the database.
+ *
+ * @param {string} id - The ID of the question or answer the comment belongs to
+ * @param {'question' | 'answer'} type - The type of the parent of the comment
+ * @param {string} cid - The ID of the comment to delete
+ * @param {string} username - The username of the user deleting the comment
+ *
+ * @returns {Promise<CommentResponse>} - The deleted comment, or an error message
+ */
+export const deleteComment = async (
+  id: string,
+  type: 'question' | 'answer',
+  cid: string,
+  username: string,
+): Promise<CommentResponse> => {
+  try {
+    const comment = await CommentModel.findOne({ _id: cid, ...notDeleted });
+    if (!comment) {
+      return { error: 'Comment not found' };
+    }
+    if (comment.commentBy !== username) {
+      return { error: 'Only the author can delete this comment' };
+    }
+
+    let parent: QuestionResponse | AnswerResponse | null;
+    if (type === 'question') {
+      parent = await QuestionModel.findOneAndUpdate(
+        { _id: id, comments: cid },
+        { $pull: { comments: cid } },
+        { new: true },
+      );
+    } else {
+      parent = await AnswerModel.findOneAndUpdate(
+        { _id: id, comments: cid },
+        { $pull: { comments: cid } },
+        { new: true },
+      );
+    }
+    if (!parent) {
+      return { error: 'Comment not found' };
+    }
+
+    const result = await CommentModel.findOneAndUpdate(
+      { _id: cid },
+      { $set: { deletedAt: new Date() } },
+      { new: true },
+    );
+    if (!result) {
+      return { error: 'Comment not found' };
+    }
+    return result;
+  } catch (error) {
+    return { error: 'Error when deleting a comment' };
+  }
+};
+
+/**
+ * Computes the score of a voted question, answer or comment.
+ *
+ * @param post The post with its votes.
+ *
+ * @returns The number of upvotes minus the number of downvotes.
+ */
+const scoreOf = (post: { upVotes?: string[]; downVotes?: string[] }): number =>
+  (post.upVotes?.length || 0) - (post.downVotes?.length || 0);
+
+/**
+ * Retrieves the public profile of a user: when they joined, their reputation, the questions,
+ * answers and comments they posted, the votes those received, and the tags they are most active
+ * in. Deleted and hidden posts, and answers to deleted or hidden questions, are left out.
+ *
+ * @param {string} username - The username of the user
+ *
+ * @returns {Promise<UserProfileResponse>} - The profile of the user, or an error message
+ */
+export const getUserProfile = async (username: string): Promise<UserProfileResponse> => {
+  try {
+    const user = await UserModel.findOne({ username });
+    if (!user) {
+      return { error: 'User not found' };
+    }
+
+    const questions = await QuestionModel.find({ askedBy: username, ...notDeleted, ...notHidden })
+      .populate({ path: 'tags', model: TagModel })
+      .sort({ askDateTime: -1 });
+    const answers = await AnswerModel.find({ ansBy: username, ...notDeleted, ...notHidden }).sort({
+      ansDateTime: -1,
+    });
+    const answered = await QuestionModel.find({
+      answers: { $in: answers.map(a => a._id) },
+      ...notDeleted,
+      ...notHidden,
+    }).populate({ path: 'tags', model: TagModel });
+    const comments = await CommentModel.find({
+      commentBy: username,
+      ...notDeleted,
+      ...notHidden,
+    }).sort({
+      commentDateTime: -1,
+    });
+
+    // Comments are only listed while the question or answer they are on is still shown
+    const commentIds = comments.map(c => c._id);
+    const commentedQuestions = await QuestionModel.find({
+      comments: { $in: commentIds },
+      ...notDeleted,
+      ...notHidden,
+    }).select('comments');
+    const commentedAnswers = await AnswerModel.find({
+      comments: { $in: commentIds },
+      ...notDeleted,
+      ...notHidden,
+    }).select('comments');
+    const questionsOfCommentedAnswers = await QuestionModel.find({
+      answers: { $in: commentedAnswers.map(a => a._id) },
+      ...notDeleted,
+      ...notHidden,
+    }).select('answers');
+    const shownAnswers = new Set(
+      questionsOfCommentedAnswers.flatMap(q =>
+        (q.answers as ObjectId[]).map(aid => aid.toString()),
+      ),
+    );
+    const shownComments = new Set(
+      [
+        ...commentedQuestions,
+        ...commentedAnswers.filter(a => shownAnswers.has(a._id.toString())),
+      ].flatMap(p => (p.comments as ObjectId[]).map(cid => cid.toString())),
+    );
+    const profileComments = comments.filter(c => shownComments.has(c._id.toString()));
+
+    const questionOfAnswer = new Map<string, Question>();
+    answered.forEach(q => {
+      (q.answers as ObjectId[]).forEach(aid => questionOfAnswer.set(aid.toString(), q));
+    });
+
+    const profileAnswers: ProfileAnswer[] = [];
+    answers.forEach(a => {
+      const q = questionOfAnswer.get(a._id.toString());
+      if (q) {
+        profileAnswers.push({
+          _id: a._id,
+          qid: q._id as ObjectId,
+          questionTitle: q.title,
+          ansDateTime: a.ansDateTime,
+          score: scoreOf(a),
+          accepted: q.acceptedAnswer?.toString() === a._id.toString(),
+        });
+      }
+    });
+
+    const tagCounts = new Map<string, number>();
+    [...questions, ...answered].forEach(q => {
+      q.tags.forEach(t => tagCounts.set(t.name, (tagCounts.get(t.name) || 0) + 1));
+    });
+    const topTags = [...tagCounts]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+      .slice(0, 5);
+
+    const posts = [...questions, ...answers, ...profileComments];
+    const votesReceived = {
+      upVotes: posts.reduce((total, p) => total + (p.upVotes?.length || 0), 0),
+      downVotes: posts.reduce((total, p) => total + (p.downVotes?.length || 0), 0),
+    };
+
+    return {
+      username: user.username,
+      creationDateTime: user.creationDateTime,
+      reputation: user.reputation ?? 1,
+      role: user.role ?? 'user',
+      questions: questions.map(q => ({
+        _id: q._id,
+        title: q.title,
+        askDateTime: q.askDateTime,
+        score: scoreOf(q),
+        answerCount: q.answers.length,
+        resolved: !!q.acceptedAnswer,
+      })),
+      answers: profileAnswers,
+      comments: profileComments.map(c => ({
+        _id: c._id,
+        text: c.text,
+        commentDateTime: c.commentDateTime,
+        score: scoreOf(c),
+      })),
+      votesReceived,
+      topTags,
+    };
+  } catch (error) {
+    return { error: 'Error when fetching the user profile' };
+  }
+};
@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import { FilterQuery } from 'mongoose';
+import AttachmentModel from './attachments';
+import getAttachmentStorage from '../utils/attachmentConfig';
+import { attachmentIdsOf, createThumbnail, isImage } from '../utils/attachments';
+import {
+  Attachment,
+  AttachmentContentResponse,
+  AttachmentPostType,
+  AttachmentResponse,
+  AttachmentUpload,
+} from '../types';
+
+/**
+ * Gets the key the thumbnail of an image is stored under.
+ *
+ * @param {string} hash - The hash of the content of the image.
+ *
+ * @returns {string} - The key of the thumbnail.
+ */
+const thumbnailKey = (hash: string): string => `${hash}.thumbnail`;
+
+/**
+ * Saves a file uploaded by a user. The content is stored under its hash, along with a thumbnail
+ * for images, unless the same content was uploaded before, in which case the stored content is
+ * shared. Uploading the same content again before it is attached to a post returns the earlier
+ * upload.
+ *
+ * @param {AttachmentUpload} upload - The file, its detected type and who is uploading it.
+ *
+ * @returns {Promise<AttachmentResponse>} - The saved attachment, or an error message if the
+ *          operation failed.
+ */
+export const saveAttachment = async (upload: AttachmentUpload): Promise<AttachmentResponse> => {
+  try {
+    const { filename, contentType, data, uploadedBy } = upload;
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+
+    const pending = await AttachmentModel.findOne({
+      hash,
+      uploadedBy,
+      post: { $exists: false },
+    });
+    if (pending) {
+      return pending;
+    }
+
+    const existing = await AttachmentModel.findOne({ hash });
+    let thumbnail = existing?.thumbnail ?? false;
+    if (!existing) {
+      const storage = getAttachmentStorage();
+      await storage.save(hash, data);
+      if (isImage(contentType)) {
+        // An image that cannot be decoded is still attached, but without a thumbnail
+        thumbnail = await createThumbnail(data)
+          .then(thumb => storage.save(thumbnailKey(hash), thumb))
+          .then(
+            () => true,
+            () => false,
+          );
+      }
+    }
+
+    return await AttachmentModel.create({
+      hash,
+      filename,
+      contentType,
+      size: data.length,
+      thumbnail,
+      uploadedBy,
+      uploadedAt: new Date(),
+    });
+  } catch (error) {
+    return { error: 'Error when saving an attachment' };
+  }
+};
+
+/**
+ * Retrieves an attachment by its ID.
+ *
+ * @param {string} id - The ID of the attachment.
+ *
+ * @returns {Promise<AttachmentResponse>} - The attachment, or an error message if it does not
+ *          exist or the operation failed.
+ */
+export const getAttachment = async (id: string): Promise<AttachmentResponse> => {
+  try {
+    const attachment = await AttachmentModel.findOne({ _id: id });
+    if (!attachment) {
+      return { error: 'Attachment not found' };
+    }
+    return attachment;
+  } catch (error) {
+    return { error: 'Error when fetching an attachment' };
+  }
+};
+
+/**
+ * Reads the content of an attachment, or of its thumbnail. Attachments without a thumbnail, such
+ * as log files, are read in full either way.
+ *
+ * @param {Attachment} attachment - The attachment.
+ * @param {boolean} thumbnail - Whether to read the thumbnail rather than the full content.
+ *
+ * @returns {Promise<AttachmentContentResponse>} - The content, or an error message if it is
+ *          missing from the storage or the operation failed.
+ */
+export const readAttachmentContent = async (
+  attachment: Attachment,
+  thumbnail: boolean,
+): Promise<AttachmentContentResponse> => {
+  try {
+    const key = thumbnail && attachment.thumbnail ? thumbnailKey(attachment.hash) : attachment.hash;
+    const data = await getAttachmentStorage().read(key);
+    if (!data) {
+      return { error: 'Attachment not found' };
+    }
+    return data;
+  } catch (error) {
+    return { error: 'Error when reading an attachment' };
+  }
+};
+
+/**
+ * Ties the attachments embedded in the text of a post to the post, so that they are removed
+ * along with it. Only the attachments the user uploaded themselves and that are not attached to
+ * another post yet are tied.
+ *
+ * @param {string} text - The Markdown text of the post.
+ * @param {string} username - The user who wrote or edited the post.
+ * @param {AttachmentPostType} postType - The type of the post.
+ * @param {string} postId - The ID of the post.
+ *
+ * @returns {Promise<number | { error: string }>} - The number of attachments tied to the post,
+ *          or an error message if the operation failed.
+ */
+export const attachToPost = async (
+  text: string,
+  username: string,
+  postType: AttachmentPostType,
+  postId: string,
+): Promise<number | { error: string }> => {
+  try {
+    const ids = attachmentIdsOf(text);
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const result = await AttachmentModel.updateMany(
+      { _id: { $in: ids }, uploadedBy: username, post: { $exists: false } },
+      { $set: { postType, post: postId } },
+    );
+    return result.modifiedCount;
+  } catch (error) {
+    return { error: 'Error when attaching files to a post' };
+  }
+};
+
+/**
+ * Removes the attachments matching a filter, and their content from the storage once no other
+ * attachment shares it.
+ *
+ * @param {FilterQuery<Attachment>} filter - Which attachments to remove.
+ *
+ * @returns {Promise<number>} - The number of attachments removed.
+ */
+const removeAttachments = async (filter: FilterQuery<Attachment>): Promise<number> => {
+  const attachments = await AttachmentModel.find(filter);
+  if (attachments.length === 0) {
+    return 0;
+  }
+
+  await AttachmentModel.deleteMany({ _id: { $in: attachments.map(a => a._id) } });
+
+  const storage = getAttachmentStorage();
+  const hashes = [...new Set(attachments.map(a => a.hash))];
+  await Promise.all(
+    hashes.map(async hash => {
+      if ((await AttachmentModel.countDocuments({ hash })) === 0) {
+        await storage.remove(hash);
+        await storage.remove(thumbnailKey(hash));
+      }
+    }),
+  );
+  return attachments.length;
+};
+
+/**
+ * Removes the attachments of deleted posts, along with their content once no other attachment
+ * shares it.
+ *
+ * @param {string[]} postIds - The IDs of the deleted questions and answers.
+ *
+ * @returns {Promise<number | { error: string }>} - The number of attachments removed, or an
+ *          error message if the operation failed.
+ */
+export const removePostAttachments = async (
+  postIds: string[],
+): Promise<number | { error: string }> => {
+  try {
+    return await removeAttachments({ post: { $in: postIds } });
+  } catch (error) {
+    return { error: 'Error when removing the attachments of a post' };
+  }
+};
+
+/**
+ * Removes the files that were uploaded but never attached to a post, such as those of a question
+ * that was never posted.
+ *
+ * @param {Date} uploadedBefore - Only remove the files uploaded before this date, leaving time for
+ *        the posts being written to be saved.
+ *
+ * @returns {Promise<number | { error: string }>} - The number of attachments removed, or an
+ *          error message if the operation failed.
+ */
+export const removeUnattachedAttachments = async (
+  uploadedBefore: Date,
+): Promise<number | { error: string }> => {
+  try {
+    return await removeAttachments({
+      post: { $exists: false },
+      uploadedAt: { $lt: uploadedBefore },
+    });
+  } catch (error) {
+    return { error: 'Error when removing unattached files' };
+  }
+};
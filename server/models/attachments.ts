@@ -0,0 +1,19 @@
+import mongoose, { Model } from 'mongoose';
+import attachmentSchema from './schema/attachment';
+import { Attachment } from '../types';
+
+/**
+ * Mongoose model for the `Attachment` collection.
+ *
+ * This model is created using the `Attachment` interface and the `attachmentSchema`, representing
+ * the `Attachment` collection in the MongoDB database, and provides an interface for interacting
+ * with the stored attachments.
+ *
+ * @type {Model<Attachment>}
+ */
+const AttachmentModel: Model<Attachment> = mongoose.model<Attachment>(
+  'Attachment',
+  attachmentSchema,
+);
+
+export default AttachmentModel;
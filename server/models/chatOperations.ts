@@ -0,0 +1,119 @@
+import ConversationModel from './conversations';
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationResponse,
+  ConversationsResponse,
+} from '../types';
+
+// The number of most recently active conversations returned when listing a user's conversations
+const CONVERSATION_LIST_LIMIT = 50;
+
+// The longest title of a conversation, taken from the beginning of its first message
+const CONVERSATION_TITLE_LENGTH = 60;
+
+/**
+ * Starts a new conversation of a user with the brainstorming chatbot.
+ *
+ * @param {string} owner - The username of the user.
+ * @param {ConversationMessage} message - The first message, written by the user.
+ *
+ * @returns {Promise<ConversationResponse>} - The new conversation, or an error message if the
+ *          operation failed.
+ */
+export const createConversation = async (
+  owner: string,
+  message: ConversationMessage,
+): Promise<ConversationResponse> => {
+  try {
+    const text = message.content.replace(/\s+/g, ' ').trim();
+    const title =
+      text.length > CONVERSATION_TITLE_LENGTH
+        ? `${text.slice(0, CONVERSATION_TITLE_LENGTH)}…`
+        : text;
+    const conversation = await ConversationModel.create({
+      owner,
+      title,
+      messages: [message],
+      createdAt: message.createdAt,
+      updatedAt: message.createdAt,
+    });
+    return conversation.toObject();
+  } catch (error) {
+    return { error: 'Error when starting conversation' };
+  }
+};
+
+/**
+ * Adds a message to a conversation of a user.
+ *
+ * @param {string} cid - The ID of the conversation.
+ * @param {string} owner - The username of the user the conversation must belong to.
+ * @param {ConversationMessage} message - The message, written by the user or the chatbot.
+ *
+ * @returns {Promise<ConversationResponse>} - The updated conversation, or an error message if the
+ *          user has no such conversation or the operation failed.
+ */
+export const addConversationMessage = async (
+  cid: string,
+  owner: string,
+  message: ConversationMessage,
+): Promise<ConversationResponse> => {
+  try {
+    const conversation = await ConversationModel.findOneAndUpdate(
+      { _id: cid, owner },
+      { $push: { messages: message }, $set: { updatedAt: message.createdAt } },
+      { new: true },
+    ).lean<Conversation>();
+    if (!conversation) {
+      return { error: 'Conversation not found' };
+    }
+    return conversation;
+  } catch (error) {
+    return { error: 'Error when adding message to conversation' };
+  }
+};
+
+/**
+ * Retrieves a conversation of a user with its messages.
+ *
+ * @param {string} cid - The ID of the conversation.
+ * @param {string} owner - The username of the user the conversation must belong to.
+ *
+ * @returns {Promise<ConversationResponse>} - The conversation, or an error message if the user has
+ *          no such conversation or the operation failed.
+ */
+export const getConversation = async (
+  cid: string,
+  owner: string,
+): Promise<ConversationResponse> => {
+  try {
+    const conversation = await ConversationModel.findOne({ _id: cid, owner }).lean<Conversation>();
+    if (!conversation) {
+      return { error: 'Conversation not found' };
+    }
+    return conversation;
+  } catch (error) {
+    return { error: 'Error when fetching conversation' };
+  }
+};
+
+/**
+ * Retrieves the most recently active conversations of a user, without their messages.
+ *
+ * @param {string} owner - The username of the user.
+ *
+ * @returns {Promise<ConversationsResponse>} - The conversations, most recently active first, or an
+ *          error message if the operation failed.
+ */
+export const getConversations = async (owner: string): Promise<ConversationsResponse> => {
+  try {
+    return await ConversationModel.find({ owner })
+      .select('-messages')
+      .sort({ updatedAt: -1 })
+      .limit(CONVERSATION_LIST_LIMIT)
+      .lean<Omit<Conversation, 'messages'>[]>();
+  } catch (error) {
+    return { error: 'Error when fetching conversations' };
+  }
+};
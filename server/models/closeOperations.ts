@@ -0,0 +1,266 @@
+import { ObjectId } from 'mongodb';
+import QuestionModel from './questions';
+import { CloseReason, CloseVote, Question, QuestionResponse } from '../types';
+import { findOriginal } from './duplicateOperations';
+
+/**
+ * Finds the value given most often, or the one given first among those given equally often.
+ *
+ * @param {string[]} values - The values, in the order they were given.
+ *
+ * @returns {string} - The most common value.
+ */
+const mostCommon = (values: string[]): string => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts].reduce((top, entry) => (entry[1] > top[1] ? entry : top))[0];
+};
+
+/**
+ * Explains why a vote to close or reopen a question was not counted.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {string} username - The user who voted.
+ * @param {'close' | 'reopen'} kind - What the user voted to do.
+ *
+ * @returns {Promise<string>} - The error message: the question does not exist, is already in the
+ *          state voted for, or the user already voted.
+ */
+const voteError = async (
+  qid: string,
+  username: string,
+  kind: 'close' | 'reopen',
+): Promise<string> => {
+  const question = await QuestionModel.findOne({ _id: qid, deletedAt: { $exists: false } });
+  if (!question) {
+    return 'Question not found';
+  }
+  if (kind === 'close') {
+    return question.closure ? 'Question is already closed' : 'Already voted to close this question';
+  }
+  return question.closure ? 'Already voted to reopen this question' : 'Question is not closed';
+};
+
+/**
+ * Closes a question with the votes cast to close it. The question is closed for the reason most
+ * voted for and, when it is closed as a duplicate, as a duplicate of the question most voted for.
+ * A binding vote decides both alone, whatever the earlier votes were.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {CloseVote[]} votes - The votes to close the question.
+ * @param {CloseVote | undefined} bindingVote - The vote that closes the question by itself, if any.
+ *
+ * @returns {Promise<Question | null>} - The closed question, or null if it was closed meanwhile.
+ */
+const closeWithVotes = async (
+  qid: string,
+  votes: CloseVote[],
+  bindingVote: CloseVote | undefined,
+): Promise<Question | null> => {
+  const deciding = bindingVote ? [bindingVote] : votes;
+  const reason = mostCommon(deciding.map(v => v.reason)) as CloseReason;
+  const duplicateOf =
+    reason === 'duplicate'
+      ? mostCommon(
+          deciding
+            .filter(v => v.reason === 'duplicate')
+            .map(v => (v.duplicateOf as ObjectId).toString()),
+        )
+      : undefined;
+
+  return QuestionModel.findOneAndUpdate(
+    { _id: qid, closure: { $exists: false } },
+    {
+      $set: {
+        closure: {
+          reason,
+          duplicateOf: duplicateOf && new ObjectId(duplicateOf),
+          closedBy: votes.map(v => v.username),
+          closedAt: new Date(),
+        },
+        closeVotes: [],
+        reopenVotes: [],
+      },
+    },
+    { new: true },
+  );
+};
+
+/**
+ * Votes to close a question. Once enough users voted, the question is closed and the votes are
+ * kept with the closure. A binding vote closes the question for its own reason and original, even
+ * when other users voted differently before. A vote to close a question as a duplicate of a
+ * question that was itself closed as a duplicate counts for its original instead.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {string} username - The user voting.
+ * @param {CloseReason} reason - Why the question should be closed.
+ * @param {string | undefined} duplicateOf - The ID of the question it duplicates, when the reason
+ *        is `duplicate`.
+ * @param {number} votesNeeded - The number of votes needed to close the question; 1 when the vote
+ *        of the user is binding.
+ *
+ * @returns {Promise<QuestionResponse>} - The question, closed if enough users voted, or an error
+ *          message if either question does not exist, the question is already closed, the user
+ *          already voted, the question would duplicate itself, or the operation failed.
+ */
+export const voteToClose = async (
+  qid: string,
+  username: string,
+  reason: CloseReason,
+  duplicateOf: string | undefined,
+  votesNeeded: number,
+): Promise<QuestionResponse> => {
+  try {
+    let original: string | null = null;
+    if (reason === 'duplicate') {
+      original = await findOriginal(duplicateOf as string);
+      if (!original) {
+        return { error: 'Original question not found' };
+      }
+      if (original === qid) {
+        return { error: 'A question cannot be a duplicate of itself' };
+      }
+    }
+
+    const question = await QuestionModel.findOneAndUpdate(
+      {
+        '_id': qid,
+        'deletedAt': { $exists: false },
+        'closure': { $exists: false },
+        'closeVotes.username': { $ne: username },
+      },
+      {
+        $push: {
+          closeVotes: {
+            username,
+            reason,
+            duplicateOf: original ? new ObjectId(original) : undefined,
+            createdAt: new Date(),
+          },
+        },
+      },
+      { new: true },
+    );
+    if (!question) {
+      return { error: await voteError(qid, username, 'close') };
+    }
+
+    const votes = question.closeVotes ?? [];
+    if (votes.length < votesNeeded) {
+      return question;
+    }
+    const bindingVote = votesNeeded === 1 ? votes.find(v => v.username === username) : undefined;
+    const closed = await closeWithVotes(qid, votes, bindingVote);
+    return closed ?? { error: 'Question is already closed' };
+  } catch (error) {
+    return { error: 'Error when voting to close a question' };
+  }
+};
+
+/**
+ * Votes to reopen a closed question. Once enough users voted, the question is opened again, and
+ * can be voted to close anew.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {string} username - The user voting.
+ * @param {number} votesNeeded - The number of votes needed to reopen the question; 1 when the vote
+ *        of the user is binding.
+ *
+ * @returns {Promise<QuestionResponse>} - The question, reopened if enough users voted, or an error
+ *          message if the question does not exist, is not closed, the user already voted, or the
+ *          operation failed.
+ */
+export const voteToReopen = async (
+  qid: string,
+  username: string,
+  votesNeeded: number,
+): Promise<QuestionResponse> => {
+  try {
+    const question = await QuestionModel.findOneAndUpdate(
+      {
+        _id: qid,
+        deletedAt: { $exists: false },
+        closure: { $exists: true },
+        reopenVotes: { $ne: username },
+      },
+      { $push: { reopenVotes: username } },
+      { new: true },
+    );
+    if (!question) {
+      return { error: await voteError(qid, username, 'reopen') };
+    }
+    if ((question.reopenVotes ?? []).length < votesNeeded) {
+      return question;
+    }
+
+    const reopened = await QuestionModel.findOneAndUpdate(
+      { _id: qid, closure: { $exists: true } },
+      { $unset: { closure: '' }, $set: { closeVotes: [], reopenVotes: [] } },
+      { new: true },
+    );
+    return reopened ?? { error: 'Question is not closed' };
+  } catch (error) {
+    return { error: 'Error when voting to reopen a question' };
+  }
+};
+
+/**
+ * Locks a question, which prevents new answers and comments on it, or unlocks it.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {string} username - The moderator locking or unlocking the question.
+ * @param {boolean} locked - Whether to lock the question.
+ * @param {string} [reason] - Why the question is locked.
+ *
+ * @returns {Promise<QuestionResponse>} - The updated question, or an error message if the
+ *          question does not exist or the operation failed.
+ */
+export const setQuestionLock = async (
+  qid: string,
+  username: string,
+  locked: boolean,
+  reason?: string,
+): Promise<QuestionResponse> => {
+  try {
+    const update = locked
+      ? { $set: { lock: { lockedBy: username, lockedAt: new Date(), reason } } }
+      : { $unset: { lock: '' } };
+    const question = await QuestionModel.findOneAndUpdate(
+      { _id: qid, deletedAt: { $exists: false } },
+      update,
+      { new: true },
+    );
+    if (!question) {
+      return { error: 'Question not found' };
+    }
+    return question;
+  } catch (error) {
+    return { error: 'Error when locking a question' };
+  }
+};
+
+/**
+ * Checks whether answers and comments may be added to a question, or to an answer to it.
+ *
+ * @param {string} id - The ID of the question, or of the answer.
+ * @param {'question' | 'answer'} type - Whether the ID is of a question or of an answer.
+ *
+ * @returns {Promise<string | undefined>} - Why nothing may be added, because the question is
+ *          locked or closed, or undefined if posting is allowed.
+ */
+export const findPostingRestriction = async (
+  id: string,
+  type: 'question' | 'answer',
+): Promise<string | undefined> => {
+  const question = await QuestionModel.findOne(
+    type === 'question' ? { _id: id } : { answers: new ObjectId(id) },
+  ).select('closure lock');
+  if (question?.lock) {
+    return 'Question is locked';
+  }
+  if (question?.closure) {
+    return 'Question is closed';
+  }
+  return undefined;
+};
@@ -0,0 +1,131 @@
+import { ObjectId } from 'mongodb';
+import { FilterQuery } from 'mongoose';
+import QuestionModel from './questions';
+import TagModel from './tags';
+import { Question, SimilarQuestionsResponse, Tag } from '../types';
+import { ComparedQuestion, keywords, scoreSimilarity } from '../utils/similarity';
+
+// The most questions found by their words, and by their tags, that are compared to the question
+// being asked
+const SIMILAR_CANDIDATE_LIMIT = 50;
+
+// The most keywords of the text of the question being asked that are searched for, on top of the
+// keywords of its title
+const SIMILAR_TEXT_KEYWORDS = 30;
+
+// How similar a question must be to the one being asked to be suggested as a duplicate
+const MIN_SIMILARITY = 0.3;
+
+// The number of similar questions returned, unless asked otherwise, and the most that may be
+const DEFAULT_SIMILAR_LIMIT = 5;
+const MAX_SIMILAR_LIMIT = 20;
+
+// The most duplicates followed to find the original question, as a safeguard
+const MAX_DUPLICATE_HOPS = 10;
+
+/**
+ * A question compared to the one being asked, with its tags populated.
+ */
+type Candidate = Omit<Question, 'tags'> & { _id: ObjectId; tags: Pick<Tag, 'name'>[] };
+
+/**
+ * Finds the questions similar to one being asked, to warn the asker that it may have been asked
+ * before. Questions that share keywords with the title or text, or share tags, are scored by how
+ * similar they are, and the most similar are returned first. Deleted and hidden questions, and
+ * questions closed as duplicates, are left out; the originals of duplicates are found instead.
+ *
+ * @param {ComparedQuestion} asked - The title, text and tag names of the question being asked.
+ * @param {string} [exclude] - The ID of a question to leave out, e.g. the one being edited.
+ * @param {number} [limit] - The most questions to return.
+ *
+ * @returns {Promise<SimilarQuestionsResponse>} - The similar questions, most similar first, or an
+ *          error message if the operation failed.
+ */
+export const findSimilarQuestions = async (
+  asked: ComparedQuestion,
+  exclude?: string,
+  limit?: number,
+): Promise<SimilarQuestionsResponse> => {
+  try {
+    const filter: FilterQuery<Question> = {
+      'deletedAt': { $exists: false },
+      'hiddenAt': { $exists: false },
+      'closure.reason': { $ne: 'duplicate' },
+      ...(exclude ? { _id: { $ne: new ObjectId(exclude) } } : {}),
+    };
+    const words = [
+      ...new Set([
+        ...keywords(asked.title),
+        ...[...keywords(asked.text ?? '')].slice(0, SIMILAR_TEXT_KEYWORDS),
+      ]),
+    ];
+    const tags =
+      asked.tags && asked.tags.length > 0
+        ? await TagModel.find({ name: { $in: asked.tags } }).select('_id')
+        : [];
+
+    const fields = 'title text tags answers acceptedAnswer askDateTime';
+    const textScore = { score: { $meta: 'textScore' } };
+    const [byWords, byTags] = await Promise.all([
+      words.length > 0
+        ? QuestionModel.find({ ...filter, $text: { $search: words.join(' ') } }, textScore)
+            .select(fields)
+            .sort(textScore)
+            .limit(SIMILAR_CANDIDATE_LIMIT)
+            .populate({ path: 'tags', model: TagModel, select: 'name' })
+            .lean<Candidate[]>()
+        : [],
+      tags.length > 0
+        ? QuestionModel.find({ ...filter, tags: { $in: tags.map(t => t._id) } })
+            .select(fields)
+            .sort({ askDateTime: -1 })
+            .limit(SIMILAR_CANDIDATE_LIMIT)
+            .populate({ path: 'tags', model: TagModel, select: 'name' })
+            .lean<Candidate[]>()
+        : [],
+    ]);
+
+    const candidates = new Map<string, Candidate>();
+    [...byWords, ...byTags].forEach(q => candidates.set(q._id.toString(), q));
+
+    return [...candidates.values()]
+      .map(q => ({
+        qid: q._id.toString(),
+        title: q.title,
+        tags: q.tags.map(t => t.name),
+        answerCount: q.answers.length,
+        hasAcceptedAnswer: !!q.acceptedAnswer,
+        askDateTime: q.askDateTime,
+        score: scoreSimilarity(asked, { ...q, tags: q.tags.map(t => t.name) }),
+      }))
+      .filter(q => q.score >= MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, Math.min(limit ?? DEFAULT_SIMILAR_LIMIT, MAX_SIMILAR_LIMIT));
+  } catch (error) {
+    return { error: 'Error when finding similar questions' };
+  }
+};
+
+/**
+ * Finds the original of a question: the question itself, or, if it was closed as a duplicate,
+ * the original of the question it duplicates.
+ *
+ * @param {string} qid - The ID of the question.
+ * @param {number} [hops] - The number of duplicates already followed.
+ *
+ * @returns {Promise<string | null>} - The ID of the original question, or null if the question
+ *          does not exist or was deleted.
+ */
+export const findOriginal = async (qid: string, hops = 0): Promise<string | null> => {
+  const question = await QuestionModel.findOne({ _id: qid, deletedAt: { $exists: false } }).select(
+    'closure',
+  );
+  if (!question) {
+    return null;
+  }
+  const duplicateOf = question.closure?.duplicateOf;
+  if (question.closure?.reason === 'duplicate' && duplicateOf && hops < MAX_DUPLICATE_HOPS) {
+    return findOriginal(duplicateOf.toString(), hops + 1);
+  }
+  return question._id.toString();
+};
@@ -0,0 +1,264 @@
+import crypto from 'crypto';
+import { ObjectId } from 'mongodb';
+import UserModel from './users';
+import TagModel from './tags';
+import QuestionModel from './questions';
+import {
+  DigestFrequency,
+  EmailPreferences,
+  EmailPreferencesResponse,
+  Notification,
+  UnsubscribeList,
+  User,
+} from '../types';
+import sendMail from '../utils/emailConfig';
+import { DigestQuestion, digestEmail, notificationEmail } from '../utils/emailTemplates';
+
+// How long after a digest the next one is due, in milliseconds
+const digestPeriods: Record<Exclude<DigestFrequency, 'off'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// The most questions listed in one digest
+const DIGEST_QUESTION_LIMIT = 25;
+
+/**
+ * Fills in the preferences a user has never set with their defaults, which opt out of every email.
+ *
+ * @param {Partial<EmailPreferences>} [preferences] - The preferences stored on the user.
+ *
+ * @returns {EmailPreferences} - The complete preferences.
+ */
+const withDefaults = (preferences?: Partial<EmailPreferences>): EmailPreferences => ({
+  answers: false,
+  comments: false,
+  digest: 'off',
+  watchedTags: [],
+  ...preferences,
+});
+
+/**
+ * Retrieves the email preferences of a user.
+ *
+ * @param {string} username - The username of the user.
+ *
+ * @returns {Promise<EmailPreferencesResponse>} - The preferences, or an error message if the user
+ *          does not exist or the operation failed.
+ */
+export const getEmailPreferences = async (username: string): Promise<EmailPreferencesResponse> => {
+  try {
+    const user = await UserModel.findOne({ username }).select('emailPreferences').lean<User>();
+    if (!user) {
+      return { error: 'User not found' };
+    }
+    return withDefaults(user.emailPreferences);
+  } catch (error) {
+    return { error: 'Error when fetching email preferences' };
+  }
+};
+
+/**
+ * Changes the email preferences of a user. Watched tags that do not exist are dropped. The user
+ * is given an unsubscribe token the first time, so that every email sent to them can include a
+ * link to stop it.
+ *
+ * @param {string} username - The username of the user.
+ * @param changes - The preferences to change; the ones left out are kept.
+ *
+ * @returns {Promise<EmailPreferencesResponse>} - The updated preferences, or an error message if
+ *          the user does not exist or the operation failed.
+ */
+export const updateEmailPreferences = async (
+  username: string,
+  changes: Partial<Omit<EmailPreferences, 'digestSentAt'>>,
+): Promise<EmailPreferencesResponse> => {
+  try {
+    const user = await UserModel.findOne({ username }).select('unsubscribeToken').lean<User>();
+    if (!user) {
+      return { error: 'User not found' };
+    }
+
+    const update: Record<string, unknown> = {
+      unsubscribeToken: user.unsubscribeToken ?? crypto.randomBytes(20).toString('hex'),
+    };
+    Object.entries(changes)
+      .filter(([, value]) => value !== undefined)
+      .forEach(([key, value]) => {
+        update[`emailPreferences.${key}`] = value;
+      });
+    if (changes.watchedTags) {
+      const tags = await TagModel.find({ name: { $in: changes.watchedTags } }).select('name');
+      update['emailPreferences.watchedTags'] = tags.map(t => t.name);
+    }
+
+    const updated = await UserModel.findOneAndUpdate(
+      { username },
+      { $set: update },
+      { new: true },
+    ).lean<User>();
+    if (!updated) {
+      return { error: 'User not found' };
+    }
+    return withDefaults(updated.emailPreferences);
+  } catch (error) {
+    return { error: 'Error when updating email preferences' };
+  }
+};
+
+/**
+ * Stops some of the emails of the user identified by an unsubscribe token.
+ *
+ * @param {string} token - The unsubscribe token from the link in an email.
+ * @param {UnsubscribeList} list - The emails to stop.
+ *
+ * @returns {Promise<{ username: string } | { error: string }>} - The user who was unsubscribed, or
+ *          an error message if the token is unknown or the operation failed.
+ */
+export const unsubscribe = async (
+  token: string,
+  list: UnsubscribeList,
+): Promise<{ username: string } | { error: string }> => {
+  try {
+    const stopped: Partial<EmailPreferences> = {
+      ...(list === 'answers' || list === 'all' ? { answers: false } : {}),
+      ...(list === 'comments' || list === 'all' ? { comments: false } : {}),
+      ...(list === 'digest' || list === 'all' ? { digest: 'off' } : {}),
+    };
+    const user = await UserModel.findOneAndUpdate(
+      { unsubscribeToken: token },
+      {
+        $set: Object.fromEntries(
+          Object.entries(stopped).map(([key, value]) => [`emailPreferences.${key}`, value]),
+        ),
+      },
+    );
+    if (!user) {
+      return { error: 'Invalid unsubscribe link' };
+    }
+    return { username: user.username };
+  } catch (error) {
+    return { error: 'Error when unsubscribing' };
+  }
+};
+
+/**
+ * Emails the recipients of notifications about answers and comments on their questions, if they
+ * opted into those emails. Failing to email must not fail the action that caused the
+ * notifications, so errors are ignored.
+ *
+ * @param {Notification[]} notifications - The notifications that were just saved.
+ *
+ * @returns {Promise<void>} - Resolves once the emails have been sent.
+ */
+export const sendNotificationEmails = async (notifications: Notification[]): Promise<void> => {
+  const emailable = notifications.filter(
+    n => n.type === 'answer' || (n.type === 'comment' && n.postType === 'question'),
+  );
+  if (emailable.length === 0) {
+    return;
+  }
+
+  try {
+    const users = await UserModel.find({ username: { $in: emailable.map(n => n.recipient) } })
+      .select('username email emailPreferences unsubscribeToken')
+      .lean<User[]>();
+
+    await Promise.all(
+      emailable.map(async n => {
+        const user = users.find(u => u.username === n.recipient);
+        const preference = n.type === 'answer' ? 'answers' : 'comments';
+        if (!user?.email || !user.unsubscribeToken || !user.emailPreferences?.[preference]) {
+          return;
+        }
+        const email = notificationEmail(n, user.unsubscribeToken);
+        await sendMail(user.email, email.subject, email.text, email.html, email.headers).catch(
+          () => undefined,
+        );
+      }),
+    );
+  } catch (error) {
+    // The notifications were delivered in the app regardless
+  }
+};
+
+/**
+ * Builds and sends the digest of one user, listing the questions asked in their watched tags since
+ * their last digest. Deleted and hidden questions are not listed.
+ *
+ * @param {User} user - The user, with their email preferences.
+ * @param {Date} now - The time the digest is sent at.
+ *
+ * @returns {Promise<boolean>} - `true` if a digest was sent, `false` if there was nothing new.
+ */
+const sendDigest = async (user: User, now: Date): Promise<boolean> => {
+  const preferences = withDefaults(user.emailPreferences);
+  const frequency = preferences.digest as Exclude<DigestFrequency, 'off'>;
+  const since = preferences.digestSentAt ?? new Date(now.getTime() - digestPeriods[frequency]);
+
+  const tags = await TagModel.find({ name: { $in: preferences.watchedTags } }).select('name');
+  const tagNames = new Map(tags.map(t => [t._id.toString(), t.name]));
+  const questions = await QuestionModel.find({
+    tags: { $in: tags.map(t => t._id) },
+    askDateTime: { $gt: since, $lte: now },
+    deletedAt: { $exists: false },
+    hiddenAt: { $exists: false },
+  })
+    .select('title askedBy tags')
+    .sort({ askDateTime: -1 })
+    .limit(DIGEST_QUESTION_LIMIT)
+    .lean<{ _id: ObjectId; title: string; askedBy: string; tags: ObjectId[] }[]>();
+
+  let sent = false;
+  if (questions.length > 0 && user.email && user.unsubscribeToken) {
+    const listed: DigestQuestion[] = questions.map(q => ({
+      qid: q._id.toString(),
+      title: q.title,
+      askedBy: q.askedBy,
+      tags: q.tags.map(t => tagNames.get(t.toString())).filter((t): t is string => !!t),
+    }));
+    const email = digestEmail(frequency, listed, user.unsubscribeToken);
+    await sendMail(user.email, email.subject, email.text, email.html, email.headers);
+    sent = true;
+  }
+
+  await UserModel.updateOne(
+    { username: user.username },
+    { $set: { 'emailPreferences.digestSentAt': now } },
+  );
+  return sent;
+};
+
+/**
+ * Sends the digests that are due: to every user with a daily or weekly digest and watched tags
+ * whose last digest is at least a day or a week old. A digest is only emailed if new questions
+ * were asked in the watched tags, and a failure for one user does not stop the others.
+ *
+ * @param {Date} [now] - The current time.
+ *
+ * @returns {Promise<number | { error: string }>} - The number of digests emailed, or an error
+ *          message if the users could not be fetched.
+ */
+export const sendDueDigests = async (
+  now: Date = new Date(),
+): Promise<number | { error: string }> => {
+  try {
+    const users = await UserModel.find({
+      'emailPreferences.digest': { $in: Object.keys(digestPeriods) },
+      'emailPreferences.watchedTags.0': { $exists: true },
+    })
+      .select('username email emailPreferences unsubscribeToken')
+      .lean<User[]>();
+
+    const due = users.filter(u => {
+      const { digest, digestSentAt } = withDefaults(u.emailPreferences);
+      const period = digestPeriods[digest as Exclude<DigestFrequency, 'off'>];
+      return !digestSentAt || now.getTime() - new Date(digestSentAt).getTime() >= period;
+    });
+
+    const results = await Promise.all(due.map(u => sendDigest(u, now).catch(() => false)));
+    return results.filter(sent => sent).length;
+  } catch (error) {
+    return { error: 'Error when sending digests' };
+  }
+};
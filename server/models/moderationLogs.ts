@@ -0,0 +1,19 @@
+import mongoose, { Model } from 'mongoose';
+import moderationLogSchema from './schema/moderationLog';
+import { ModerationLogEntry } from '../types';
+
+/**
+ * Mongoose model for the `ModerationLog` collection.
+ *
+ * This model is created using the `ModerationLogEntry` interface and the `moderationLogSchema`,
+ * representing the `ModerationLog` collection in the MongoDB database, and provides an interface
+ * for interacting with the stored audit log of moderators' actions.
+ *
+ * @type {Model<ModerationLogEntry>}
+ */
+const ModerationLogModel: Model<ModerationLogEntry> = mongoose.model<ModerationLogEntry>(
+  'ModerationLog',
+  moderationLogSchema,
+);
+
+export default ModerationLogModel;
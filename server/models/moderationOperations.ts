@@ -0,0 +1,360 @@
+import { ObjectId } from 'mongodb';
+import { FilterQuery, UpdateQuery } from 'mongoose';
+import AnswerModel from './answers';
+import CommentModel from './comments';
+import FlagModel from './flags';
+import ModerationLogModel from './moderationLogs';
+import QuestionModel from './questions';
+import { removePostAttachments } from './attachmentOperations';
+import { recordAcceptReputation } from './reputationOperations';
+import {
+  FlagReason,
+  FlagResponse,
+  FlagReviewAction,
+  FlaggedPost,
+  ModerationAction,
+  ModerationLogEntry,
+  ModerationLogEntryResponse,
+  ModerationLogResponse,
+  ModerationQueueResponse,
+  VoteTargetType,
+} from '../types';
+
+// Query filter excluding documents that have been soft-deleted
+const notDeleted = { deletedAt: { $exists: false } };
+
+// The number of entries in the moderation queue and the audit log, unless asked otherwise, and
+// the most either may include
+const DEFAULT_LIST_SIZE = 50;
+const MAX_LIST_SIZE = 200;
+
+// The action recorded in the audit log for each way of reviewing the flags of a post
+const reviewLogActions: Record<FlagReviewAction, ModerationAction> = {
+  approve: 'approveFlags',
+  dismiss: 'dismissFlags',
+  delete: 'deletePost',
+};
+
+/**
+ * The parts of a flagged post shown to the moderators and checked when flagging it.
+ */
+type PostSummary = { author: string; text: string; hidden: boolean };
+
+/**
+ * Finds a question, answer or comment that has not been deleted.
+ *
+ * @param {VoteTargetType} type - The type of the post.
+ * @param {string} id - The ID of the post.
+ *
+ * @returns {Promise<PostSummary | null>} - The author, text and visibility of the post, or null
+ *          if it does not exist or was deleted.
+ */
+const findPost = async (type: VoteTargetType, id: string): Promise<PostSummary | null> => {
+  if (type === 'question') {
+    const question = await QuestionModel.findOne({ _id: id, ...notDeleted });
+    return (
+      question && {
+        author: question.askedBy,
+        text: `${question.title}\n\n${question.text}`,
+        hidden: !!question.hiddenAt,
+      }
+    );
+  }
+  if (type === 'answer') {
+    const answer = await AnswerModel.findOne({ _id: id, ...notDeleted });
+    return answer && { author: answer.ansBy, text: answer.text, hidden: !!answer.hiddenAt };
+  }
+  const comment = await CommentModel.findOne({ _id: id, ...notDeleted });
+  return comment && { author: comment.commentBy, text: comment.text, hidden: !!comment.hiddenAt };
+};
+
+/**
+ * Finds the question a question, answer or comment is shown on.
+ *
+ * @param {VoteTargetType} type - The type of the post.
+ * @param {string} id - The ID of the post.
+ *
+ * @returns {Promise<string | null>} - The ID of the question, or null if the post is not shown
+ *          on any question.
+ */
+export const findQuestionOf = async (type: VoteTargetType, id: string): Promise<string | null> => {
+  if (type === 'question') {
+    return id;
+  }
+  if (type === 'answer') {
+    const question = await QuestionModel.findOne({ answers: new ObjectId(id) }).select('_id');
+    return question ? question._id.toString() : null;
+  }
+
+  const question = await QuestionModel.findOne({ comments: new ObjectId(id) }).select('_id');
+  if (question) {
+    return question._id.toString();
+  }
+  const answer = await AnswerModel.findOne({ comments: new ObjectId(id) }).select('_id');
+  return answer ? findQuestionOf('answer', answer._id.toString()) : null;
+};
+
+/**
+ * Updates a question, answer or comment.
+ *
+ * @param {VoteTargetType} type - The type of the post.
+ * @param {string} id - The ID of the post.
+ * @param {UpdateQuery<unknown>} update - The update to apply.
+ *
+ * @returns {Promise<boolean>} - Whether the post was found and updated.
+ */
+const updatePost = async (
+  type: VoteTargetType,
+  id: string,
+  update: UpdateQuery<unknown>,
+): Promise<boolean> => {
+  const filter: FilterQuery<unknown> = { _id: id };
+  if (type === 'question') {
+    return !!(await QuestionModel.findOneAndUpdate(filter, update, { new: true }));
+  }
+  if (type === 'answer') {
+    return !!(await AnswerModel.findOneAndUpdate(filter, update, { new: true }));
+  }
+  return !!(await CommentModel.findOneAndUpdate(filter, update, { new: true }));
+};
+
+/**
+ * Soft-deletes a question, answer or comment on behalf of a moderator. Answers and comments are
+ * removed from the posts they belong to, the reputation given for accepting a deleted answer is
+ * taken back, and files attached to questions and answers are removed, like when their authors
+ * delete them.
+ *
+ * @param {VoteTargetType} type - The type of the post.
+ * @param {string} id - The ID of the post.
+ *
+ * @returns {Promise<void>} - Resolves once the post has been deleted.
+ */
+const deletePost = async (type: VoteTargetType, id: string): Promise<void> => {
+  if (type === 'answer') {
+    const accepting = await QuestionModel.findOneAndUpdate(
+      { acceptedAnswer: id },
+      { $unset: { acceptedAnswer: '' } },
+    );
+    if (accepting) {
+      await recordAcceptReputation(id, undefined, accepting.askedBy, false);
+    }
+    await QuestionModel.updateOne({ answers: id }, { $pull: { answers: id } });
+  } else if (type === 'comment') {
+    await QuestionModel.updateOne({ comments: id }, { $pull: { comments: id } });
+    await AnswerModel.updateOne({ comments: id }, { $pull: { comments: id } });
+  }
+  await updatePost(type, id, { $set: { deletedAt: new Date() } });
+
+  if (type === 'question') {
+    const question = await QuestionModel.findOne({ _id: id });
+    await removePostAttachments([id, ...(question?.answers ?? []).map(aid => aid.toString())]);
+  } else if (type === 'answer') {
+    await removePostAttachments([id]);
+  }
+};
+
+/**
+ * Records an action of a moderator in the audit log.
+ *
+ * @param {Omit<ModerationLogEntry, '_id' | 'createdAt'>} entry - Who did what to which post.
+ *
+ * @returns {Promise<ModerationLogEntryResponse>} - The recorded entry, or an error message if the
+ *          operation failed.
+ */
+export const logModeratorAction = async (
+  entry: Omit<ModerationLogEntry, '_id' | 'createdAt'>,
+): Promise<ModerationLogEntryResponse> => {
+  try {
+    return await ModerationLogModel.create({ ...entry, createdAt: new Date() });
+  } catch (error) {
+    return { error: 'Error when recording a moderator action' };
+  }
+};
+
+/**
+ * Flags a question, answer or comment for the moderators to review. A user may flag a post once
+ * until it is reviewed, and may not flag their own posts. Once enough users flagged a post, it is
+ * hidden until a moderator reviews it.
+ *
+ * @param {VoteTargetType} type - The type of the post.
+ * @param {string} id - The ID of the post.
+ * @param {string} username - The user flagging the post.
+ * @param {FlagReason} reason - Why the post is flagged.
+ * @param {string | undefined} details - What the user adds to explain the flag.
+ * @param {number} hideThreshold - The number of pending flags that hides the post.
+ *
+ * @returns {Promise<FlagResponse>} - The flag, and whether the post was hidden because of it, or
+ *          an error message if the post does not exist, is the user's own, was already flagged by
+ *          the user, or the operation failed.
+ */
+export const flagPost = async (
+  type: VoteTargetType,
+  id: string,
+  username: string,
+  reason: FlagReason,
+  details: string | undefined,
+  hideThreshold: number,
+): Promise<FlagResponse> => {
+  try {
+    const post = await findPost(type, id);
+    const qid = post && (await findQuestionOf(type, id));
+    if (!post || !qid) {
+      return { error: 'Post not found' };
+    }
+    if (post.author === username) {
+      return { error: 'You cannot flag your own post' };
+    }
+
+    const pending = { postType: type, post: id, status: 'pending' };
+    if (await FlagModel.findOne({ ...pending, flaggedBy: username })) {
+      return { error: 'Already flagged this post' };
+    }
+
+    const flag = await FlagModel.create({
+      postType: type,
+      post: new ObjectId(id),
+      question: new ObjectId(qid),
+      flaggedBy: username,
+      reason,
+      details,
+      status: 'pending',
+      createdAt: new Date(),
+    });
+
+    let hidden = false;
+    if (!post.hidden && (await FlagModel.countDocuments(pending)) >= hideThreshold) {
+      hidden = await updatePost(type, id, { $set: { hiddenAt: new Date() } });
+    }
+    return { flag, hidden };
+  } catch (error) {
+    return { error: 'Error when flagging a post' };
+  }
+};
+
+/**
+ * Fetches the moderation queue: the posts with pending flags, the most flagged first, and those
+ * flagged earliest first among equally flagged posts. Posts deleted since they were flagged are
+ * left out.
+ *
+ * @param {number} [limit] - The most posts to include.
+ *
+ * @returns {Promise<ModerationQueueResponse>} - The flagged posts with their pending flags, or an
+ *          error message if the operation failed.
+ */
+export const getModerationQueue = async (limit?: number): Promise<ModerationQueueResponse> => {
+  try {
+    const groups = await FlagModel.aggregate([
+      { $match: { status: 'pending' } },
+      { $sort: { createdAt: 1 } },
+      {
+        $group: {
+          _id: { postType: '$postType', post: '$post' },
+          question: { $first: '$question' },
+          firstFlaggedAt: { $first: '$createdAt' },
+          count: { $sum: 1 },
+          flags: {
+            $push: {
+              flaggedBy: '$flaggedBy',
+              reason: '$reason',
+              details: '$details',
+              createdAt: '$createdAt',
+            },
+          },
+        },
+      },
+      { $sort: { count: -1, firstFlaggedAt: 1 } },
+      { $limit: Math.min(limit ?? DEFAULT_LIST_SIZE, MAX_LIST_SIZE) },
+    ]);
+
+    const entries = await Promise.all(
+      groups.map(async (g): Promise<FlaggedPost | null> => {
+        const id = g._id.post.toString();
+        const post = await findPost(g._id.postType, id);
+        return (
+          post && {
+            postType: g._id.postType,
+            id,
+            qid: g.question.toString(),
+            ...post,
+            flags: g.flags,
+          }
+        );
+      }),
+    );
+    return entries.filter((e): e is FlaggedPost => e !== null);
+  } catch (error) {
+    return { error: 'Error when fetching the moderation queue' };
+  }
+};
+
+/**
+ * Reviews the pending flags of a post: approving them hides the post, dismissing them shows it
+ * again, and deleting the post approves them too. The review is recorded in the audit log.
+ *
+ * @param {VoteTargetType} type - The type of the post.
+ * @param {string} id - The ID of the post.
+ * @param {string} moderator - The moderator reviewing the flags.
+ * @param {FlagReviewAction} action - What to do with the flags and the post.
+ *
+ * @returns {Promise<ModerationLogEntryResponse>} - The entry recorded in the audit log, or an
+ *          error message if the post has no pending flags or the operation failed.
+ */
+export const reviewFlags = async (
+  type: VoteTargetType,
+  id: string,
+  moderator: string,
+  action: FlagReviewAction,
+): Promise<ModerationLogEntryResponse> => {
+  try {
+    const pending = { postType: type, post: id, status: 'pending' };
+    const flags = await FlagModel.find(pending);
+    if (flags.length === 0) {
+      return { error: 'No pending flags for this post' };
+    }
+
+    if (action === 'approve') {
+      await updatePost(type, id, { $set: { hiddenAt: new Date() } });
+    } else if (action === 'dismiss') {
+      await updatePost(type, id, { $unset: { hiddenAt: '' } });
+    } else {
+      await deletePost(type, id);
+    }
+
+    await FlagModel.updateMany(pending, {
+      $set: {
+        status: action === 'dismiss' ? 'dismissed' : 'approved',
+        reviewedBy: moderator,
+        reviewedAt: new Date(),
+      },
+    });
+
+    return await logModeratorAction({
+      moderator,
+      action: reviewLogActions[action],
+      postType: type,
+      post: new ObjectId(id),
+      question: flags[0].question,
+      details: [...new Set(flags.map(f => f.reason))].join(', '),
+    });
+  } catch (error) {
+    return { error: 'Error when reviewing flags' };
+  }
+};
+
+/**
+ * Fetches the most recent entries of the audit log of moderators' actions, newest first.
+ *
+ * @param {number} [limit] - The most entries to include.
+ *
+ * @returns {Promise<ModerationLogResponse>} - The entries, or an error message if the operation
+ *          failed.
+ */
+export const getModerationLog = async (limit?: number): Promise<ModerationLogResponse> => {
+  try {
+    return await ModerationLogModel.find()
+      .sort({ createdAt: -1 })
+      .limit(Math.min(limit ?? DEFAULT_LIST_SIZE, MAX_LIST_SIZE));
+  } catch (error) {
+    return { error: 'Error when fetching the moderation log' };
+  }
+};
@@ -0,0 +1,161 @@
+import NotificationModel from './notifications';
+import QuestionModel from './questions';
+import AnswerModel from './answers';
+import CommentModel from './comments';
+import UserModel from './users';
+import {
+  Notification,
+  NotificationDraft,
+  NotificationsResponse,
+  UnreadCountResponse,
+} from '../types';
+
+// The number of most recent notifications returned when listing a user's notifications
+const NOTIFICATION_LIST_LIMIT = 50;
+
+/**
+ * Looks up the authors of the posts of notifications that do not name a recipient.
+ *
+ * @param {NotificationDraft[]} drafts - The notifications to save.
+ *
+ * @returns {Promise<Map<string, string>>} - The username of the author of each post, by post ID.
+ */
+const findPostAuthors = async (drafts: NotificationDraft[]): Promise<Map<string, string>> => {
+  const postsOf = (postType: NotificationDraft['postType']) =>
+    drafts.filter(d => !d.recipient && d.postType === postType).map(d => d.post);
+
+  const [questions, answers, comments] = await Promise.all([
+    QuestionModel.find({ _id: { $in: postsOf('question') } }).select('askedBy'),
+    AnswerModel.find({ _id: { $in: postsOf('answer') } }).select('ansBy'),
+    CommentModel.find({ _id: { $in: postsOf('comment') } }).select('commentBy'),
+  ]);
+
+  return new Map([
+    ...questions.map(q => [q._id.toString(), q.askedBy] as [string, string]),
+    ...answers.map(a => [a._id.toString(), a.ansBy] as [string, string]),
+    ...comments.map(c => [c._id.toString(), c.commentBy] as [string, string]),
+  ]);
+};
+
+/**
+ * Saves notifications for users. Each notification is addressed to its recipient or, if none is
+ * given, to the author of its post, and linked to the question the post is shown on. Users are
+ * not notified of their own actions, of users that do not exist, or more than once per batch.
+ *
+ * @param {NotificationDraft[]} drafts - The notifications to save, the most important first.
+ *
+ * @returns {Promise<Notification[] | { error: string }>} - The saved notifications, or an error
+ *          message if the operation failed.
+ */
+export const saveNotifications = async (
+  drafts: NotificationDraft[],
+): Promise<Notification[] | { error: string }> => {
+  try {
+    const authors = await findPostAuthors(drafts);
+    const addressed = drafts
+      .map(d => ({ ...d, recipient: d.recipient ?? authors.get(d.post) }))
+      .filter(d => d.recipient && d.recipient !== d.actor)
+      .filter((d, i, all) => all.findIndex(o => o.recipient === d.recipient) === i);
+    if (addressed.length === 0) {
+      return [];
+    }
+
+    const answerIds = addressed
+      .filter(d => !d.question && (d.answer || d.postType === 'answer'))
+      .map(d => d.answer ?? d.post);
+    const questionIds = addressed
+      .map(d => d.question ?? (d.postType === 'question' ? d.post : undefined))
+      .filter(qid => qid !== undefined);
+    const [users, questions] = await Promise.all([
+      UserModel.find({ username: { $in: addressed.map(d => d.recipient) } }).select('username'),
+      QuestionModel.find({
+        $or: [{ _id: { $in: questionIds } }, { answers: { $in: answerIds } }],
+      }).select('title answers'),
+    ]);
+
+    const usernames = new Set(users.map(u => u.username));
+    const findQuestion = (d: NotificationDraft) => {
+      const qid = d.question ?? (d.postType === 'question' ? d.post : undefined);
+      const aid = d.answer ?? (d.postType === 'answer' ? d.post : undefined);
+      return questions.find(q =>
+        qid ? q._id.toString() === qid : (q.answers as unknown[]).some(a => String(a) === aid),
+      );
+    };
+
+    const createdAt = new Date();
+    const notifications = addressed
+      .filter(d => usernames.has(d.recipient as string))
+      .map(d => ({ d, question: findQuestion(d) }))
+      .filter(({ question }) => question !== undefined)
+      .map(({ d, question }) => ({
+        recipient: d.recipient as string,
+        type: d.type,
+        actor: d.actor,
+        post: d.post,
+        postType: d.postType,
+        question: question?._id,
+        questionTitle: question?.title,
+        read: false,
+        createdAt,
+      }));
+    if (notifications.length === 0) {
+      return [];
+    }
+
+    const saved = await NotificationModel.insertMany(notifications);
+    return saved.map(n => n.toObject() as Notification);
+  } catch (error) {
+    return { error: 'Error when saving notifications' };
+  }
+};
+
+/**
+ * Retrieves the most recent notifications of a user along with the number of unread ones.
+ *
+ * @param {string} username - The username of the user.
+ *
+ * @returns {Promise<NotificationsResponse>} - The notifications, most recent first, and the
+ *          unread count, or an error message if the operation failed.
+ */
+export const getNotifications = async (username: string): Promise<NotificationsResponse> => {
+  try {
+    const [notifications, unreadCount] = await Promise.all([
+      NotificationModel.find({ recipient: username })
+        .sort({ createdAt: -1 })
+        .limit(NOTIFICATION_LIST_LIMIT),
+      NotificationModel.countDocuments({ recipient: username, read: false }),
+    ]);
+    return { notifications, unreadCount };
+  } catch (error) {
+    return { error: 'Error when fetching notifications' };
+  }
+};
+
+/**
+ * Marks notifications of a user as read.
+ *
+ * @param {string} username - The username of the user.
+ * @param {string[]} [nids] - The IDs of the notifications to mark. All of the user's
+ *        notifications are marked when omitted.
+ *
+ * @returns {Promise<UnreadCountResponse>} - The number of notifications left unread, or an error
+ *          message if the operation failed.
+ */
+export const markNotificationsRead = async (
+  username: string,
+  nids?: string[],
+): Promise<UnreadCountResponse> => {
+  try {
+    await NotificationModel.updateMany(
+      { recipient: username, read: false, ...(nids ? { _id: { $in: nids } } : {}) },
+      { $set: { read: true } },
+    );
+    const unreadCount = await NotificationModel.countDocuments({
+      recipient: username,
+      read: false,
+    });
+    return { unreadCount };
+  } catch (error) {
+    return { error: 'Error when marking notifications as read' };
+  }
+};
@@ -0,0 +1,152 @@
+import ReputationEventModel from './reputationEvents';
+import UserModel from './users';
+import { ReputationReason, ReputationResponse } from '../types';
+
+const UPVOTE_REPUTATION = 10;
+const DOWNVOTE_REPUTATION = -2;
+const DOWNVOTE_CAST_REPUTATION = -1;
+const ANSWER_ACCEPTED_REPUTATION = 15;
+const ACCEPTED_ANSWER_REPUTATION = 2;
+
+/**
+ * A change to one user's reputation caused by a single action.
+ */
+type ReputationChange = { user: string; reason: ReputationReason; amount: number };
+
+/**
+ * Brings the ledger in line with the current effect of one user's action on a post, e.g. their
+ * vote on an answer. The events already recorded for the action are summed, and an event is
+ * appended for every difference from the desired changes, so that undoing an action is recorded
+ * rather than erased. The reputation stored on each affected user is updated to match.
+ *
+ * @param {string} post - The ID of the question or answer the action was taken on.
+ * @param {'question' | 'answer'} postType - The type of the post.
+ * @param {string} actor - The username of the user who took the action.
+ * @param {ReputationReason[]} reasons - The reasons the action can change reputation for.
+ * @param {ReputationChange[]} desired - The changes the action should currently amount to.
+ *
+ * @returns {Promise<void>} - Resolves once the ledger and users have been updated.
+ */
+const reconcileReputation = async (
+  post: string,
+  postType: 'question' | 'answer',
+  actor: string,
+  reasons: ReputationReason[],
+  desired: ReputationChange[],
+): Promise<void> => {
+  const recorded = await ReputationEventModel.find({ post, actor, reason: { $in: reasons } });
+
+  const deltas = new Map<string, ReputationChange>();
+  const addDelta = ({ user, reason, amount }: ReputationChange) => {
+    const key = `${user}:${reason}`;
+    const current = deltas.get(key);
+    deltas.set(key, { user, reason, amount: (current?.amount || 0) + amount });
+  };
+  desired.forEach(addDelta);
+  recorded.forEach(e => addDelta({ user: e.user, reason: e.reason, amount: -e.amount }));
+
+  const changes = [...deltas.values()].filter(c => c.amount !== 0);
+  if (changes.length === 0) {
+    return;
+  }
+
+  const createdAt = new Date();
+  await ReputationEventModel.insertMany(
+    changes.map(c => ({ ...c, post, postType, actor, createdAt })),
+  );
+
+  const totals = new Map<string, number>();
+  changes.forEach(c => totals.set(c.user, (totals.get(c.user) || 0) + c.amount));
+  await Promise.all(
+    [...totals].map(([username, amount]) =>
+      UserModel.updateOne({ username }, { $inc: { reputation: amount } }),
+    ),
+  );
+};
+
+/**
+ * Updates the reputation of a post's author, and of the voter, after a user's vote on the post has
+ * changed. Upvotes earn the author reputation and downvotes cost it; downvoting an answer also
+ * costs the voter a little reputation. Votes on one's own posts do not count.
+ *
+ * @param {'question' | 'answer'} postType - The type of the voted post.
+ * @param {string} post - The ID of the voted post.
+ * @param {string | undefined} author - The username of the post's author.
+ * @param {string} voter - The username of the user who voted.
+ * @param votes - The votes on the post after the change.
+ *
+ * @returns {Promise<void>} - Resolves once the reputation has been updated.
+ */
+export const recordVoteReputation = async (
+  postType: 'question' | 'answer',
+  post: string,
+  author: string | undefined,
+  voter: string,
+  votes: { upVotes?: string[]; downVotes?: string[] },
+): Promise<void> => {
+  if (!author) {
+    return;
+  }
+
+  const desired: ReputationChange[] = [];
+  if (author !== voter && votes.upVotes?.includes(voter)) {
+    desired.push({ user: author, reason: 'upvote', amount: UPVOTE_REPUTATION });
+  } else if (author !== voter && votes.downVotes?.includes(voter)) {
+    desired.push({ user: author, reason: 'downvote', amount: DOWNVOTE_REPUTATION });
+    if (postType === 'answer') {
+      desired.push({ user: voter, reason: 'downvoteCast', amount: DOWNVOTE_CAST_REPUTATION });
+    }
+  }
+
+  await reconcileReputation(post, postType, voter, ['upvote', 'downvote', 'downvoteCast'], desired);
+};
+
+/**
+ * Updates the reputation of an answer's author, and of the asker, after the answer was accepted
+ * or unaccepted. Accepting one's own answer does not earn reputation.
+ *
+ * @param {string} answer - The ID of the answer.
+ * @param {string | undefined} author - The username of the answer's author.
+ * @param {string} asker - The username of the user who asked the question.
+ * @param {boolean} accepted - Whether the answer is now accepted.
+ *
+ * @returns {Promise<void>} - Resolves once the reputation has been updated.
+ */
+export const recordAcceptReputation = async (
+  answer: string,
+  author: string | undefined,
+  asker: string,
+  accepted: boolean,
+): Promise<void> => {
+  const desired: ReputationChange[] =
+    accepted && author && author !== asker
+      ? [
+          { user: author, reason: 'answerAccepted', amount: ANSWER_ACCEPTED_REPUTATION },
+          { user: asker, reason: 'acceptedAnswer', amount: ACCEPTED_ANSWER_REPUTATION },
+        ]
+      : [];
+
+  await reconcileReputation(answer, 'answer', asker, ['answerAccepted', 'acceptedAnswer'], desired);
+};
+
+/**
+ * Retrieves the reputation of a user along with the ledger of events that make it up, most
+ * recent first.
+ *
+ * @param {string} username - The username of the user.
+ *
+ * @returns {Promise<ReputationResponse>} - The reputation and its events, or an error message if the operation failed.
+ */
+export const getReputation = async (username: string): Promise<ReputationResponse> => {
+  try {
+    const user = await UserModel.findOne({ username });
+    if (!user) {
+      return { error: 'User not found' };
+    }
+
+    const events = await ReputationEventModel.find({ user: username }).sort({ createdAt: -1 });
+    return { reputation: user.reputation ?? 1, events };
+  } catch (error) {
+    return { error: 'Error when fetching reputation' };
+  }
+};
@@ -0,0 +1,40 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for AIAnswerFeedback.
+ *
+ * This schema defines the structure for storing what users think of the AI generated answer of a
+ * question in the database as a part of the 'Question' collection.
+ * Each set of feedback includes the following fields:
+ * - `helpful`: The usernames of the users who rated the answer helpful.
+ * - `unhelpful`: The usernames of the users who rated the answer unhelpful.
+ * - `flags`: The users who flagged the answer as incorrect, with their reasons.
+ * - `hidden`: Whether the asker hid the answer.
+ */
+const aiAnswerFeedbackSchema: Schema = new Schema(
+  {
+    helpful: {
+      type: [String],
+      default: [],
+    },
+    unhelpful: {
+      type: [String],
+      default: [],
+    },
+    flags: [
+      {
+        _id: false,
+        username: { type: String },
+        reason: { type: String },
+        createdAt: { type: Date },
+      },
+    ],
+    hidden: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false },
+);
+
+export default aiAnswerFeedbackSchema;
@@ -1,4 +1,5 @@
 import { Schema } from 'mongoose';
+import revisionSchema from './revision';
 /**
  * Mongoose schema for the Answer collection.
  *
@@ -8,6 +9,11 @@ import { Schema } from 'mongoose';
  * - `ansBy`: The username of the user who provided the answer.
  * - `ansDateTime`: The date and time when the answer was given.
  * - `comments`: Comments that have been added to the answer by users.
+ * - `upVotes`: An array of usernames that have upvoted the answer.
+ * - `downVotes`: An array of usernames that have downvoted the answer.
+ * - `revisions`: The edits made to the answer, oldest first.
+ * - `deletedAt`: The date and time when the answer was deleted, if it has been.
+ * - `hiddenAt`: The date and time when the answer was hidden after being flagged, if it is hidden.
  */
 const answerSchema: Schema = new Schema(
   {
@@ -21,8 +27,20 @@ const answerSchema: Schema = new Schema(
       type: Date,
     },
     comments: [{ type: Schema.Types.ObjectId, ref: 'Comment' }],
+    upVotes: [{ type: String }],
+    downVotes: [{ type: String }],
+    revisions: [revisionSchema],
+    deletedAt: {
+      type: Date,
+    },
+    hiddenAt: {
+      type: Date,
+    },
   },
   { collection: 'Answer' },
 );
 
+// Index backing search, which also matches words in answers
+answerSchema.index({ text: 'text' });
+
 export default answerSchema;
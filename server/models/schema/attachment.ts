@@ -0,0 +1,60 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the Attachment collection.
+ *
+ * This schema defines the structure for storing the files users upload to embed in questions and
+ * answers. The content itself is kept in the attachment storage under its hash, so uploads of the
+ * same content share it. Each attachment includes the following fields:
+ * - `hash`: The SHA-256 hash of the content, under which the content is stored. This field is required.
+ * - `filename`: The name of the uploaded file.
+ * - `contentType`: The MIME type of the content, as detected from the content itself.
+ * - `size`: The size of the content, in bytes.
+ * - `thumbnail`: Whether a thumbnail was stored along with the content, for images.
+ * - `uploadedBy`: The username of the user who uploaded the file. This field is required.
+ * - `uploadedAt`: The date and time when the file was uploaded.
+ * - `postType`: The type of the post the file is attached to, either 'question' or 'answer'.
+ * - `post`: A reference to the post the file is attached to, unset until the post is saved.
+ */
+const attachmentSchema: Schema = new Schema(
+  {
+    hash: {
+      type: String,
+      required: true,
+    },
+    filename: {
+      type: String,
+    },
+    contentType: {
+      type: String,
+    },
+    size: {
+      type: Number,
+    },
+    thumbnail: {
+      type: Boolean,
+      default: false,
+    },
+    uploadedBy: {
+      type: String,
+      required: true,
+    },
+    uploadedAt: {
+      type: Date,
+    },
+    postType: {
+      type: String,
+      enum: ['question', 'answer'],
+    },
+    post: {
+      type: Schema.Types.ObjectId,
+    },
+  },
+  { collection: 'Attachment' },
+);
+
+// Indexes backing the lookup of shared content and the cleanup of the attachments of a post
+attachmentSchema.index({ hash: 1 });
+attachmentSchema.index({ post: 1 });
+
+export default attachmentSchema;
@@ -0,0 +1,31 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for CloseVote.
+ *
+ * This schema defines the structure for storing a vote to close a question in the database as a
+ * part of the 'Question' collection.
+ * Each vote includes the following fields:
+ * - `username`: The username of the user who voted.
+ * - `reason`: Why the user thinks the question should be closed.
+ * - `duplicateOf`: A reference to the `Question` the user thinks this one duplicates.
+ * - `createdAt`: The date and time when the user voted.
+ */
+const closeVoteSchema: Schema = new Schema(
+  {
+    username: {
+      type: String,
+    },
+    reason: {
+      type: String,
+      enum: ['duplicate', 'offTopic', 'needsDetails', 'opinionBased'],
+    },
+    duplicateOf: { type: Schema.Types.ObjectId, ref: 'Question' },
+    createdAt: {
+      type: Date,
+    },
+  },
+  { _id: false },
+);
+
+export default closeVoteSchema;
@@ -0,0 +1,29 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for Closure.
+ *
+ * This schema defines the structure for storing why a question was closed in the database as a
+ * part of the 'Question' collection.
+ * Each closure includes the following fields:
+ * - `reason`: Why the question was closed.
+ * - `duplicateOf`: A reference to the `Question` this one duplicates, when closed as a duplicate.
+ * - `closedBy`: The usernames of the users whose votes closed the question.
+ * - `closedAt`: The date and time when the question was closed.
+ */
+const closureSchema: Schema = new Schema(
+  {
+    reason: {
+      type: String,
+      enum: ['duplicate', 'offTopic', 'needsDetails', 'opinionBased'],
+    },
+    duplicateOf: { type: Schema.Types.ObjectId, ref: 'Question' },
+    closedBy: [{ type: String }],
+    closedAt: {
+      type: Date,
+    },
+  },
+  { _id: false },
+);
+
+export default closureSchema;
@@ -1,4 +1,5 @@
 import { Schema } from 'mongoose';
+import revisionSchema from './revision';
 
 /**
  * Mongoose schema for the Comment collection.
@@ -8,6 +9,11 @@ import { Schema } from 'mongoose';
  * - `text`: The content of the comment.
  * - `commentBy`: The username of the user who commented.
  * - `commentDateTime`: The date and time when the comment was posted.
+ * - `upVotes`: An array of usernames that have upvoted the comment.
+ * - `downVotes`: An array of usernames that have downvoted the comment.
+ * - `revisions`: The edits made to the comment, oldest first.
+ * - `deletedAt`: The date and time when the comment was deleted, if it has been.
+ * - `hiddenAt`: The date and time when the comment was hidden after being flagged, if it is hidden.
  */
 const commentSchema: Schema = new Schema(
   {
@@ -20,6 +26,15 @@ const commentSchema: Schema = new Schema(
     commentDateTime: {
       type: Date,
     },
+    upVotes: [{ type: String }],
+    downVotes: [{ type: String }],
+    revisions: [revisionSchema],
+    deletedAt: {
+      type: Date,
+    },
+    hiddenAt: {
+      type: Date,
+    },
   },
   { collection: 'Comment' },
 );
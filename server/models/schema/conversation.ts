@@ -0,0 +1,52 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the Conversation collection.
+ *
+ * This schema defines the structure for storing the conversations of users with the brainstorming
+ * chatbot in the database.
+ * Each conversation includes the following fields:
+ * - `owner`: The username of the user having the conversation. This field is required.
+ * - `title`: The beginning of the first message, to tell the conversations apart.
+ * - `messages`: The messages of the conversation, oldest first, each written by the user or the
+ *    chatbot ('assistant').
+ * - `createdAt`: The date and time when the conversation was started.
+ * - `updatedAt`: The date and time of the latest message.
+ */
+const conversationSchema: Schema = new Schema(
+  {
+    owner: {
+      type: String,
+      required: true,
+    },
+    title: {
+      type: String,
+    },
+    messages: [
+      {
+        role: {
+          type: String,
+          enum: ['user', 'assistant'],
+        },
+        content: {
+          type: String,
+        },
+        createdAt: {
+          type: Date,
+        },
+      },
+    ],
+    createdAt: {
+      type: Date,
+    },
+    updatedAt: {
+      type: Date,
+    },
+  },
+  { collection: 'Conversation' },
+);
+
+// Index backing the listing of a user's conversations, most recently active first
+conversationSchema.index({ owner: 1, updatedAt: -1 });
+
+export default conversationSchema;
@@ -0,0 +1,41 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for EmailPreferences.
+ *
+ * This schema defines the structure for storing the emails a user has opted into in the database
+ * as a part of the 'User' collection. Every email is opt-in, so all of them are off by default.
+ * Each set of preferences includes the following fields:
+ * - `answers`: Whether to email the user when their question is answered.
+ * - `comments`: Whether to email the user when their question is commented on.
+ * - `digest`: How often to email a digest of new questions, either 'off', 'daily' or 'weekly'.
+ * - `watchedTags`: The names of the tags whose new questions are included in the digest.
+ * - `digestSentAt`: When the user was last sent a digest.
+ */
+const emailPreferencesSchema: Schema = new Schema(
+  {
+    answers: {
+      type: Boolean,
+      default: false,
+    },
+    comments: {
+      type: Boolean,
+      default: false,
+    },
+    digest: {
+      type: String,
+      enum: ['off', 'daily', 'weekly'],
+      default: 'off',
+    },
+    watchedTags: {
+      type: [String],
+      default: [],
+    },
+    digestSentAt: {
+      type: Date,
+    },
+  },
+  { _id: false },
+);
+
+export default emailPreferencesSchema;
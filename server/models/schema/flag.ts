@@ -0,0 +1,65 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the Flag collection.
+ *
+ * This schema defines the structure for storing the reports of questions, answers and comments to
+ * the moderators in the database. A user may flag a post once until a moderator reviews it.
+ * Each flag includes the following fields:
+ * - `postType`: The type of the flagged post, either 'question', 'answer' or 'comment'.
+ * - `post`: A reference to the flagged post. This field is required.
+ * - `question`: A reference to the question the post is shown on.
+ * - `flaggedBy`: The username of the user who flagged the post. This field is required.
+ * - `reason`: Why the user flagged the post, e.g. 'spam' or 'offensive'.
+ * - `details`: What the user added to explain the flag.
+ * - `status`: Whether the flag is 'pending', or was 'approved' or 'dismissed' by a moderator.
+ * - `createdAt`: The date and time when the post was flagged.
+ * - `reviewedBy`: The username of the moderator who reviewed the flag.
+ * - `reviewedAt`: The date and time when the flag was reviewed.
+ */
+const flagSchema: Schema = new Schema(
+  {
+    postType: {
+      type: String,
+      enum: ['question', 'answer', 'comment'],
+    },
+    post: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    question: {
+      type: Schema.Types.ObjectId,
+    },
+    flaggedBy: {
+      type: String,
+      required: true,
+    },
+    reason: {
+      type: String,
+      enum: ['spam', 'offensive', 'lowQuality', 'other'],
+    },
+    details: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'dismissed'],
+      default: 'pending',
+    },
+    createdAt: {
+      type: Date,
+    },
+    reviewedBy: {
+      type: String,
+    },
+    reviewedAt: {
+      type: Date,
+    },
+  },
+  { collection: 'Flag' },
+);
+
+// Index backing the moderation queue and the count of the pending flags of a post
+flagSchema.index({ status: 1, post: 1 });
+
+export default flagSchema;
@@ -0,0 +1,28 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for Lock.
+ *
+ * This schema defines the structure for storing the lock of a question, which prevents new
+ * answers and comments, in the database as a part of the 'Question' collection.
+ * Each lock includes the following fields:
+ * - `lockedBy`: The username of the moderator who locked the question.
+ * - `lockedAt`: The date and time when the question was locked.
+ * - `reason`: Why the question was locked.
+ */
+const lockSchema: Schema = new Schema(
+  {
+    lockedBy: {
+      type: String,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    reason: {
+      type: String,
+    },
+  },
+  { _id: false },
+);
+
+export default lockSchema;
@@ -0,0 +1,48 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the ModerationLog collection.
+ *
+ * This schema defines the structure for storing the audit log of the actions of moderators in the
+ * database. Entries are never modified.
+ * Each entry includes the following fields:
+ * - `moderator`: The username of the moderator who took the action. This field is required.
+ * - `action`: What the moderator did, e.g. 'deletePost' or 'lockQuestion'.
+ * - `postType`: The type of the post acted on, either 'question', 'answer' or 'comment'.
+ * - `post`: A reference to the post acted on.
+ * - `question`: A reference to the question the post is shown on.
+ * - `details`: More about the action, such as the reason a question was locked.
+ * - `createdAt`: The date and time when the action was taken.
+ */
+const moderationLogSchema: Schema = new Schema(
+  {
+    moderator: {
+      type: String,
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ['approveFlags', 'dismissFlags', 'deletePost', 'lockQuestion', 'unlockQuestion'],
+    },
+    postType: {
+      type: String,
+      enum: ['question', 'answer', 'comment'],
+    },
+    post: {
+      type: Schema.Types.ObjectId,
+    },
+    question: {
+      type: Schema.Types.ObjectId,
+    },
+    details: {
+      type: String,
+    },
+    createdAt: {
+      type: Date,
+      index: true,
+    },
+  },
+  { collection: 'ModerationLog' },
+);
+
+export default moderationLogSchema;
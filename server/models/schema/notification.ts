@@ -0,0 +1,60 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the Notification collection.
+ *
+ * This schema defines the structure for storing the notifications sent to users in the database.
+ * Each notification includes the following fields:
+ * - `recipient`: The username of the user being notified. This field is required.
+ * - `type`: What happened, e.g. 'answer' or 'mention'.
+ * - `actor`: The username of the user whose action caused the notification.
+ * - `post`: A reference to the post acted on, or that contains the mention.
+ * - `postType`: The type of the post, either 'question', 'answer' or 'comment'.
+ * - `question`: A reference to the question the post is shown on.
+ * - `questionTitle`: The title of that question when the notification was created.
+ * - `read`: Whether the recipient has read the notification.
+ * - `createdAt`: The date and time when the notification was created.
+ */
+const notificationSchema: Schema = new Schema(
+  {
+    recipient: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['answer', 'comment', 'vote', 'acceptedAnswer', 'mention'],
+    },
+    actor: {
+      type: String,
+    },
+    post: {
+      type: Schema.Types.ObjectId,
+    },
+    postType: {
+      type: String,
+      enum: ['question', 'answer', 'comment'],
+    },
+    question: {
+      type: Schema.Types.ObjectId,
+      ref: 'Question',
+    },
+    questionTitle: {
+      type: String,
+    },
+    read: {
+      type: Boolean,
+      default: false,
+    },
+    createdAt: {
+      type: Date,
+    },
+  },
+  { collection: 'Notification' },
+);
+
+// Indexes backing the listing of a user's notifications, most recent first, and their unread count
+notificationSchema.index({ recipient: 1, createdAt: -1 });
+notificationSchema.index({ recipient: 1, read: 1 });
+
+export default notificationSchema;
@@ -1,4 +1,9 @@
 import { Schema } from 'mongoose';
+import revisionSchema from './revision';
+import aiAnswerFeedbackSchema from './aiAnswerFeedback';
+import closureSchema from './closure';
+import closeVoteSchema from './closeVote';
+import lockSchema from './lock';
 /**
  * Mongoose schema for the Question collection.
  *
@@ -14,6 +19,17 @@ import { Schema } from 'mongoose';
  * - `upVotes`: An array of usernames that have upvoted the question.
  * - `downVotes`: An array of usernames that have downvoted the question.
  * - `comments`: Comments that have been added to the question by users.
+ * - `acceptedAnswer`: A reference to the `Answer` the asker marked as having solved the question.
+ * - `revisions`: The edits made to the question, oldest first.
+ * - `deletedAt`: The date and time when the question was deleted, if it has been.
+ * - `hiddenAt`: The date and time when the question was hidden after being flagged, if it is hidden.
+ * - `aiGeneratedAnswer`: The answer generated by the AI provider, once it is ready.
+ * - `aiAnswerStatus`: Whether the AI answer is still being generated, ready or failed.
+ * - `aiAnswerFeedback`: The ratings and flags of the AI answer, and whether the asker hid it.
+ * - `closeVotes`: The votes to close the question cast since it was last opened.
+ * - `reopenVotes`: The usernames of the users who voted to reopen the question since it was closed.
+ * - `closure`: Why, when and by whom the question was closed, if it has been.
+ * - `lock`: When and by whom the question was locked, if it has been.
  */
 const questionSchema: Schema = new Schema(
   {
@@ -27,6 +43,13 @@ const questionSchema: Schema = new Schema(
     aiGeneratedAnswer: {
       type: String,
     },
+    aiAnswerStatus: {
+      type: String,
+      enum: ['pending', 'ready', 'failed'],
+    },
+    aiAnswerFeedback: {
+      type: aiAnswerFeedbackSchema,
+    },
     answers: [{ type: Schema.Types.ObjectId, ref: 'Answer' }],
     askedBy: {
       type: String,
@@ -38,8 +61,35 @@ const questionSchema: Schema = new Schema(
     upVotes: [{ type: String }],
     downVotes: [{ type: String }],
     comments: [{ type: Schema.Types.ObjectId, ref: 'Comment' }],
+    acceptedAnswer: { type: Schema.Types.ObjectId, ref: 'Answer' },
+    revisions: [revisionSchema],
+    deletedAt: {
+      type: Date,
+    },
+    hiddenAt: {
+      type: Date,
+    },
+    closeVotes: [closeVoteSchema],
+    reopenVotes: [{ type: String }],
+    closure: {
+      type: closureSchema,
+    },
+    lock: {
+      type: lockSchema,
+    },
   },
   { collection: 'Question' },
 );
 
+// Indexes backing the question listings, which are sorted newest first and paged with cursors on
+// the asking date and ID, optionally limited to one user's questions or to some tags
+questionSchema.index({ askDateTime: -1, _id: -1 });
+questionSchema.index({ askedBy: 1, askDateTime: -1, _id: -1 });
+questionSchema.index({ tags: 1, askDateTime: -1, _id: -1 });
+
+// Indexes backing search, which matches words in the title and text, weighting the title higher,
+// and finds the questions that matching answers belong to
+questionSchema.index({ title: 'text', text: 'text' }, { weights: { title: 3, text: 1 } });
+questionSchema.index({ answers: 1 });
+
 export default questionSchema;
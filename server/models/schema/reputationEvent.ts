@@ -0,0 +1,51 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the ReputationEvent collection.
+ *
+ * This schema defines the structure for storing the ledger of reputation changes in the database.
+ * Events are never modified; undoing an action, such as cancelling a vote, records an event with
+ * the opposite amount.
+ * Each event includes the following fields:
+ * - `user`: The username of the user whose reputation changed. This field is required.
+ * - `amount`: The change in reputation. This field is required.
+ * - `reason`: Why the reputation changed, e.g. 'upvote' or 'answerAccepted'.
+ * - `post`: A reference to the question or answer that caused the change.
+ * - `postType`: The type of the post, either 'question' or 'answer'.
+ * - `actor`: The username of the user whose action caused the change.
+ * - `createdAt`: The date and time when the change happened.
+ */
+const reputationEventSchema: Schema = new Schema(
+  {
+    user: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+    reason: {
+      type: String,
+      enum: ['upvote', 'downvote', 'downvoteCast', 'answerAccepted', 'acceptedAnswer'],
+    },
+    post: {
+      type: Schema.Types.ObjectId,
+      index: true,
+    },
+    postType: {
+      type: String,
+      enum: ['question', 'answer'],
+    },
+    actor: {
+      type: String,
+    },
+    createdAt: {
+      type: Date,
+    },
+  },
+  { collection: 'ReputationEvent' },
+);
+
+export default reputationEventSchema;
@@ -0,0 +1,37 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for a Revision.
+ *
+ * This schema defines the structure for storing the edits made to a question, answer, comment or
+ * tag as a part of the edited document.
+ * Each revision includes the following fields:
+ * - `editedBy`: The username of the user who made the edit.
+ * - `editDateTime`: The date and time when the edit was made.
+ * - `changes`: The fields changed by the edit, each with its value before and after the edit.
+ */
+const revisionSchema: Schema = new Schema({
+  editedBy: {
+    type: String,
+  },
+  editDateTime: {
+    type: Date,
+  },
+  changes: [
+    {
+      _id: false,
+      field: {
+        type: String,
+        enum: ['title', 'text', 'tags', 'description', 'wiki', 'synonyms'],
+      },
+      before: {
+        type: String,
+      },
+      after: {
+        type: String,
+      },
+    },
+  ],
+});
+
+export default revisionSchema;
@@ -0,0 +1,48 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the Session collection.
+ *
+ * This schema defines the structure for storing sign-in sessions in the database.
+ * Each session includes the following fields:
+ * - `user`: A reference to the user the session belongs to. This field is required.
+ * - `refreshTokenHash`: The SHA-256 hash of the current refresh token. This field is required.
+ * - `device`: A description of the device the session was opened on.
+ * - `createdAt`: The date and time when the session was opened.
+ * - `lastUsedAt`: The date and time when the session was last refreshed.
+ * - `expiresAt`: The date and time after which the refresh token can no longer be used.
+ * Sessions optionally include the following fields:
+ * - `revokedAt`: The date and time when the session was signed out.
+ */
+const sessionSchema: Schema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+    },
+    device: {
+      type: String,
+    },
+    createdAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  { collection: 'Session' },
+);
+
+export default sessionSchema;
@@ -1,4 +1,5 @@
 import { Schema } from 'mongoose';
+import revisionSchema from './revision';
 
 /**
  * Mongoose schema for the Tag collection.
@@ -7,6 +8,9 @@ import { Schema } from 'mongoose';
  * Each tag includes the following fields:
  * - `name`: The name of the tag. This field is required.
  * - `description`: A brief description of the tag. This field is required.
+ * - `wiki`: A longer explanation of the tag, in Markdown.
+ * - `synonyms`: Other names that resolve to this tag when questions are tagged.
+ * - `revisions`: The edits made to the tag, oldest first.
  */
 const tagSchema: Schema = new Schema(
   {
@@ -18,6 +22,14 @@ const tagSchema: Schema = new Schema(
       type: String,
       required: true,
     },
+    wiki: {
+      type: String,
+    },
+    synonyms: {
+      type: [String],
+      index: true,
+    },
+    revisions: [revisionSchema],
   },
   { collection: 'Tag' },
 );
@@ -1,5 +1,6 @@
 import { Schema } from 'mongoose';
 import settingsSchema from './settings';
+import emailPreferencesSchema from './emailPreferences';
 
 /**
  * Mongoose schema for the User collection.
@@ -15,6 +16,10 @@ import settingsSchema from './settings';
  * - `resetPasswordToken`: A token used to reset the user's password.
  * - `resetPasswordExpires`: The expiration date for the reset password token.
  * - `googleId`: The Google ID of the user if it was created using Google OAuth.
+ * - `reputation`: The reputation the user has earned, kept in sync with the ReputationEvent ledger.
+ * - `emailPreferences`: The emails the user has opted into.
+ * - `unsubscribeToken`: The token identifying the user in the unsubscribe links of emails.
+ * - `role`: Whether the user is a regular user, a moderator or an admin. Defaults to a regular user.
  */
 const userSchema: Schema = new Schema(
   {
@@ -43,6 +48,23 @@ const userSchema: Schema = new Schema(
     googleId: {
       type: String,
     },
+    reputation: {
+      type: Number,
+      default: 1,
+    },
+    emailPreferences: {
+      type: emailPreferencesSchema,
+    },
+    unsubscribeToken: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+    role: {
+      type: String,
+      enum: ['user', 'moderator', 'admin'],
+      default: 'user',
+    },
   },
   { collection: 'User' },
 );
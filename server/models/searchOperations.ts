@@ -0,0 +1,152 @@
+import { ObjectId } from 'mongodb';
+import { FilterQuery } from 'mongoose';
+import AnswerModel from './answers';
+import QuestionModel from './questions';
+import TagModel from './tags';
+import { Question, SearchQuery } from '../types';
+import { escapeRegExp } from '../utils/searchQuery';
+
+// The most questions, and answers, considered when ranking the results of a text search
+const SEARCH_CANDIDATE_LIMIT = 1000;
+
+// How much a matching answer counts towards the relevance of its question, compared to the
+// question matching itself
+const ANSWER_RELEVANCE_WEIGHT = 0.5;
+
+/**
+ * The questions matching the words and phrases of a search, which contains:
+ * - ranked - The IDs of the matching questions, most relevant first
+ * - answerText - The text of the most relevant matching answer of each question, by question ID
+ */
+export type TextMatches = { ranked: ObjectId[]; answerText: Map<string, string> };
+
+/**
+ * Builds the `$search` string of a MongoDB text query from the parts of a search.
+ *
+ * @param {SearchQuery} query - The parsed search.
+ *
+ * @returns {string} - The text query, with phrases quoted and exclusions prefixed with `-`.
+ */
+const toTextSearch = (query: SearchQuery): string =>
+  [
+    ...query.terms,
+    ...query.phrases.map(p => `"${p.replace(/"/g, '')}"`),
+    ...query.excluded.map(e => (e.includes(' ') ? `-"${e}"` : `-${e}`)),
+  ].join(' ');
+
+/**
+ * Finds the questions whose title or text, or one of whose answers, matches the words and phrases
+ * of a search, using the text indexes of both collections. A question is ranked by how well it
+ * matches, plus a share of how well its best answer matches. Deleted posts, and posts hidden after
+ * being flagged, are left out, so that their text never shows in the snippets of results.
+ *
+ * @param {SearchQuery} query - The parsed search.
+ *
+ * @returns {Promise<TextMatches | undefined>} - The matching questions, or `undefined` if the search
+ *          has no words or phrases to match.
+ */
+export const findTextMatches = async (query: SearchQuery): Promise<TextMatches | undefined> => {
+  if (query.terms.length === 0 && query.phrases.length === 0) {
+    return undefined;
+  }
+
+  const $text = { $search: toTextSearch(query) };
+  const textScore = { score: { $meta: 'textScore' } };
+  const [questions, answers] = await Promise.all([
+    QuestionModel.find(
+      { $text, deletedAt: { $exists: false }, hiddenAt: { $exists: false } },
+      textScore,
+    )
+      .select('_id')
+      .sort(textScore)
+      .limit(SEARCH_CANDIDATE_LIMIT)
+      .lean<{ _id: ObjectId; score: number }[]>(),
+    AnswerModel.find(
+      { $text, deletedAt: { $exists: false }, hiddenAt: { $exists: false } },
+      textScore,
+    )
+      .select('_id text')
+      .sort(textScore)
+      .limit(SEARCH_CANDIDATE_LIMIT)
+      .lean<{ _id: ObjectId; text: string; score: number }[]>(),
+  ]);
+
+  const scores = new Map<string, number>();
+  questions.forEach(q => scores.set(q._id.toString(), q.score));
+
+  const answerText = new Map<string, string>();
+  if (answers.length > 0) {
+    const answerById = new Map(answers.map(a => [a._id.toString(), a]));
+    const parents = await QuestionModel.find({ answers: { $in: answers.map(a => a._id) } })
+      .select('_id answers')
+      .lean<{ _id: ObjectId; answers: ObjectId[] }[]>();
+
+    parents.forEach(q => {
+      const qid = q._id.toString();
+      const best = q.answers
+        .map(aid => answerById.get(aid.toString()))
+        .reduce<(typeof answers)[number] | undefined>(
+          (top, a) => (a && (!top || a.score > top.score) ? a : top),
+          undefined,
+        );
+      if (best) {
+        scores.set(qid, (scores.get(qid) || 0) + ANSWER_RELEVANCE_WEIGHT * best.score);
+        answerText.set(qid, best.text);
+      }
+    });
+  }
+
+  const ranked = [...scores].sort(([, a], [, b]) => b - a).map(([qid]) => new ObjectId(qid));
+  return { ranked, answerText };
+};
+
+/**
+ * Builds the query filter for the parts of a search other than its words and phrases: tags, which
+ * must all be on the question, exclusions, and the `user:`, `is:` and `score:` operators.
+ *
+ * @param {SearchQuery} query - The parsed search.
+ *
+ * @returns {Promise<FilterQuery<Question>>} - The filter, which matches everything if the search has
+ *          none of these parts.
+ */
+export const buildSearchFilter = async (query: SearchQuery): Promise<FilterQuery<Question>> => {
+  const conditions: FilterQuery<Question>[] = [];
+
+  if (query.tags.length > 0) {
+    const tags = await TagModel.find({ name: { $in: query.tags } });
+    // A tag that does not exist matches no question
+    conditions.push(
+      tags.length === new Set(query.tags).size
+        ? { tags: { $all: tags.map(t => t._id) } }
+        : { _id: { $in: [] } },
+    );
+  }
+  query.excluded.forEach(e => {
+    const pattern = new RegExp(`\\b${escapeRegExp(e)}\\b`, 'i');
+    conditions.push({ title: { $not: pattern } }, { text: { $not: pattern } });
+  });
+  if (query.user) {
+    conditions.push({ askedBy: query.user });
+  }
+  if (query.is.includes('answered')) {
+    conditions.push({ 'answers.0': { $exists: true } });
+  }
+  if (query.is.includes('unanswered')) {
+    conditions.push({ answers: { $size: 0 } });
+  }
+  if (query.is.includes('accepted')) {
+    conditions.push({ acceptedAnswer: { $ne: null } });
+  }
+  if (query.score) {
+    const operators = { '>': '$gt', '>=': '$gte', '<': '$lt', '<=': '$lte', '=': '$eq' };
+    const score = {
+      $subtract: [
+        { $size: { $ifNull: ['$upVotes', []] } },
+        { $size: { $ifNull: ['$downVotes', []] } },
+      ],
+    };
+    conditions.push({ $expr: { [operators[query.score.op]]: [score, query.score.value] } });
+  }
+
+  return conditions.length > 0 ? { $and: conditions } : {};
+};
@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import { isValidObjectId } from 'mongoose';
+import { ObjectId } from 'mongodb';
+import SessionModel from './sessions';
+import { Session, SessionResponse, SessionTokenResponse } from '../types';
+
+const SESSION_LIFETIME_MS = 30 * 86400000; // refresh tokens expire after 30 days of inactivity
+
+const INVALID_REFRESH_TOKEN = 'Refresh token is invalid or has expired';
+
+/**
+ * Hashes the secret part of a refresh token so it is never stored in plain text.
+ *
+ * @param {string} secret - The secret to hash.
+ *
+ * @returns {string} The hex-encoded SHA-256 hash of the secret.
+ */
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * Generates a new refresh token secret.
+ *
+ * @returns {string} A random hex-encoded secret.
+ */
+function generateSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Splits a refresh token of the form `<sessionId>.<secret>` into its parts.
+ *
+ * @param {string} refreshToken - The refresh token to parse.
+ *
+ * @returns The session id and secret, or `null` if the token is malformed.
+ */
+function parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } | null {
+  const [sessionId, secret, ...rest] = refreshToken.split('.');
+  if (!sessionId || !secret || rest.length > 0 || !isValidObjectId(sessionId)) {
+    return null;
+  }
+  return { sessionId, secret };
+}
+
+/**
+ * Opens a new session for a user, issuing the first refresh token for it.
+ *
+ * @param {ObjectId} userId - The id of the user signing in.
+ * @param {string} device - A description of the device the user is signing in on.
+ *
+ * @returns {Promise<SessionTokenResponse>} - The new session and its refresh token, or an error message if the operation failed.
+ */
+export const createSession = async (
+  userId: ObjectId,
+  device: string,
+): Promise<SessionTokenResponse> => {
+  try {
+    const secret = generateSecret();
+    const now = new Date();
+    const session = await SessionModel.create({
+      user: userId,
+      refreshTokenHash: hashSecret(secret),
+      device,
+      createdAt: now,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + SESSION_LIFETIME_MS),
+    });
+    return { session, refreshToken: `${session._id}.${secret}` };
+  } catch (error) {
+    return { error: 'Error when creating a session' };
+  }
+};
+
+/**
+ * Exchanges a refresh token for a new one. Every refresh token can be used only once: presenting
+ * a token that has already been rotated signs the session out, since it means the token leaked.
+ *
+ * @param {string} refreshToken - The refresh token to exchange.
+ *
+ * @returns {Promise<SessionTokenResponse>} - The refreshed session and its new refresh token, or an error message if the token is not valid.
+ */
+export const rotateSession = async (refreshToken: string): Promise<SessionTokenResponse> => {
+  try {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) {
+      return { error: INVALID_REFRESH_TOKEN };
+    }
+
+    const session = await SessionModel.findOne({ _id: parsed.sessionId });
+    if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+      return { error: INVALID_REFRESH_TOKEN };
+    }
+
+    const presentedHash = hashSecret(parsed.secret);
+    if (presentedHash !== session.refreshTokenHash) {
+      await SessionModel.findOneAndUpdate(
+        { _id: parsed.sessionId },
+        { $set: { revokedAt: new Date() } },
+      );
+      return { error: INVALID_REFRESH_TOKEN };
+    }
+
+    const secret = generateSecret();
+    const now = new Date();
+    // Matching on the presented hash ensures two concurrent refreshes cannot both succeed
+    const rotated = await SessionModel.findOneAndUpdate(
+      { _id: parsed.sessionId, refreshTokenHash: presentedHash },
+      {
+        $set: {
+          refreshTokenHash: hashSecret(secret),
+          lastUsedAt: now,
+          expiresAt: new Date(now.getTime() + SESSION_LIFETIME_MS),
+        },
+      },
+      { new: true },
+    );
+    if (!rotated) {
+      return { error: INVALID_REFRESH_TOKEN };
+    }
+
+    return { session: rotated, refreshToken: `${rotated._id}.${secret}` };
+  } catch (error) {
+    return { error: 'Error when refreshing a session' };
+  }
+};
+
+/**
+ * Signs out the session that a refresh token was issued for.
+ *
+ * @param {string} refreshToken - The refresh token of the session to sign out.
+ *
+ * @returns {Promise<SessionResponse>} - The signed out session, or an error message if the token is not valid.
+ */
+export const revokeSessionByRefreshToken = async (
+  refreshToken: string,
+): Promise<SessionResponse> => {
+  try {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) {
+      return { error: INVALID_REFRESH_TOKEN };
+    }
+
+    const session = await SessionModel.findOneAndUpdate(
+      {
+        _id: parsed.sessionId,
+        refreshTokenHash: hashSecret(parsed.secret),
+        revokedAt: { $exists: false },
+      },
+      { $set: { revokedAt: new Date() } },
+      { new: true },
+    );
+    if (!session) {
+      return { error: INVALID_REFRESH_TOKEN };
+    }
+
+    return session;
+  } catch (error) {
+    return { error: 'Error when signing out a session' };
+  }
+};
+
+/**
+ * Signs out one of a user's sessions.
+ *
+ * @param {ObjectId} userId - The id of the user the session belongs to.
+ * @param {string} sessionId - The id of the session to sign out.
+ *
+ * @returns {Promise<SessionResponse>} - The signed out session, or an error message if the operation failed.
+ */
+export const revokeSession = async (
+  userId: ObjectId,
+  sessionId: string,
+): Promise<SessionResponse> => {
+  try {
+    if (!isValidObjectId(sessionId)) {
+      return { error: 'Session not found' };
+    }
+
+    const session = await SessionModel.findOneAndUpdate(
+      { _id: sessionId, user: userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+      { new: true },
+    );
+    if (!session) {
+      return { error: 'Session not found' };
+    }
+
+    return session;
+  } catch (error) {
+    return { error: 'Error when signing out a session' };
+  }
+};
+
+/**
+ * Retrieves the sessions of a user that have not been signed out or expired, most recently used
+ * first. The refresh token hashes are left out.
+ *
+ * @param {ObjectId} userId - The id of the user.
+ *
+ * @returns {Promise<Session[] | { error: string }>} - The active sessions, or an error message if the operation failed.
+ */
+export const getActiveSessions = async (
+  userId: ObjectId,
+): Promise<Session[] | { error: string }> => {
+  try {
+    const sessions = await SessionModel.find({
+      user: userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    })
+      .select('-refreshTokenHash')
+      .sort({ lastUsedAt: -1 });
+    return sessions;
+  } catch (error) {
+    return { error: 'Error when fetching sessions' };
+  }
+};
+
+/**
+ * Checks whether a session is still active, so that access tokens issued for a signed out
+ * session stop being accepted.
+ *
+ * @param {string} sessionId - The id of the session to check.
+ *
+ * @returns {Promise<boolean>} - `true` if the session exists and has not been signed out or expired.
+ */
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+  if (!isValidObjectId(sessionId)) {
+    return false;
+  }
+  const session = await SessionModel.findOne({
+    _id: sessionId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+  return !!session;
+};
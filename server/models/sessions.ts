@@ -0,0 +1,16 @@
+import mongoose, { Model } from 'mongoose';
+import sessionSchema from './schema/session';
+import { Session } from '../types';
+
+/**
+ * Mongoose model for the `Session` collection.
+ *
+ * This model is created using the `Session` interface and the `sessionSchema`, representing the
+ * `Session` collection in the MongoDB database, and provides an interface for interacting with
+ * the stored sessions.
+ *
+ * @type {Model<Session>}
+ */
+const SessionModel: Model<Session> = mongoose.model<Session>('Session', sessionSchema);
+
+export default SessionModel;
@@ -0,0 +1,303 @@
+import { FilterQuery } from 'mongoose';
+import QuestionModel from './questions';
+import TagModel from './tags';
+import UserModel from './users';
+import { RevisionChange, Tag, TagResponse, TagSuggestionResponse } from '../types';
+import { escapeRegExp } from '../utils/searchQuery';
+
+/**
+ * Builds the query filter matching the tag with a name, or the tag the name is a synonym of.
+ *
+ * @param {string} name - The name of the tag, or one of its synonyms.
+ *
+ * @returns {FilterQuery<Tag>} - The query filter.
+ */
+export const tagNamed = (name: string): FilterQuery<Tag> => ({
+  $or: [{ name }, { synonyms: name }],
+});
+
+/**
+ * Finds which of a list of tag names are neither the name nor a synonym of an existing tag, so
+ * that asking a question with them would create new tags.
+ *
+ * @param {string[]} names - The tag names.
+ *
+ * @returns {Promise<string[] | { error: string }>} - The names of the tags that do not exist yet,
+ *          or an error message.
+ */
+export const findNewTagNames = async (names: string[]): Promise<string[] | { error: string }> => {
+  try {
+    const tags = await TagModel.find({
+      $or: [{ name: { $in: names } }, { synonyms: { $in: names } }],
+    });
+    const known = new Set(tags.flatMap(t => [t.name, ...(t.synonyms ?? [])]));
+    return names.filter(name => !known.has(name));
+  } catch (error) {
+    return { error: 'Error when finding new tags' };
+  }
+};
+
+/**
+ * Suggests the tags whose name, or one of whose synonyms, starts with a prefix, the ones with the
+ * most questions first. Deleted questions are not counted.
+ *
+ * @param {string} prefix - The start of the name, already normalized. An empty prefix suggests
+ *        the most used tags.
+ * @param {number} limit - The most tags to suggest.
+ *
+ * @returns {Promise<TagSuggestionResponse>} - The suggested tags, or an error message.
+ */
+export const suggestTags = async (
+  prefix: string,
+  limit: number,
+): Promise<TagSuggestionResponse> => {
+  try {
+    const pattern = new RegExp(`^${escapeRegExp(prefix)}`);
+    return await TagModel.aggregate([
+      { $match: { $or: [{ name: pattern }, { synonyms: pattern }] } },
+      {
+        $lookup: {
+          from: 'Question',
+          let: { tag: '$_id' },
+          pipeline: [
+            { $match: { $expr: { $in: ['$$tag', '$tags'] }, deletedAt: { $exists: false } } },
+            { $count: 'count' },
+          ],
+          as: 'usage',
+        },
+      },
+      { $set: { qcnt: { $ifNull: [{ $first: '$usage.count' }, 0] } } },
+      { $sort: { qcnt: -1, name: 1 } },
+      { $limit: limit },
+      {
+        $project: {
+          _id: 0,
+          name: 1,
+          description: 1,
+          synonyms: { $ifNull: ['$synonyms', []] },
+          qcnt: 1,
+        },
+      },
+    ]);
+  } catch (error) {
+    return { error: 'Error when suggesting tags' };
+  }
+};
+
+/**
+ * Describes the synonyms of a tag for a revision, as space separated names.
+ *
+ * @param {string[] | undefined} synonyms - The synonyms to describe.
+ *
+ * @returns {string} - The synonyms separated by spaces.
+ */
+const describeSynonyms = (synonyms: string[] | undefined): string => (synonyms ?? []).join(' ');
+
+/**
+ * Edits the description and/or wiki of a tag, recording the changed fields as a revision.
+ *
+ * @param {string} name - The name of the tag.
+ * @param {string} username - The username of the user editing the tag.
+ * @param edits - The new description and/or wiki. Fields left out are not changed.
+ *
+ * @returns {Promise<TagResponse>} - The edited tag, or an error message.
+ */
+export const editTag = async (
+  name: string,
+  username: string,
+  edits: { description?: string; wiki?: string },
+): Promise<TagResponse> => {
+  try {
+    const tag = await TagModel.findOne({ name });
+    if (!tag) {
+      return { error: 'Tag not found' };
+    }
+
+    const changes: RevisionChange[] = (['description', 'wiki'] as const)
+      .filter(field => edits[field] !== undefined && edits[field] !== (tag[field] ?? ''))
+      .map(field => ({ field, before: tag[field] ?? '', after: edits[field] as string }));
+    if (changes.length === 0) {
+      return tag;
+    }
+
+    const update: Record<string, unknown> = {};
+    changes.forEach(({ field, after }) => {
+      update[field] = after;
+    });
+
+    const result = await TagModel.findOneAndUpdate(
+      { name },
+      {
+        $set: update,
+        $push: { revisions: { editedBy: username, editDateTime: new Date(), changes } },
+      },
+      { new: true },
+    );
+    if (!result) {
+      return { error: 'Tag not found' };
+    }
+    return result;
+  } catch (error) {
+    return { error: 'Error when editing a tag' };
+  }
+};
+
+/**
+ * Sets the synonyms of a tag, recording the change as a revision.
+ *
+ * @param {Tag} tag - The tag, as it is before the change.
+ * @param {string[]} synonyms - The new synonyms.
+ * @param {string} username - The username of the user changing the synonyms.
+ *
+ * @returns {Promise<Tag | null>} - The updated tag, or `null` if it no longer exists.
+ */
+const setSynonyms = async (tag: Tag, synonyms: string[], username: string): Promise<Tag | null> => {
+  const change: RevisionChange = {
+    field: 'synonyms',
+    before: describeSynonyms(tag.synonyms),
+    after: describeSynonyms(synonyms),
+  };
+  return TagModel.findOneAndUpdate(
+    { _id: tag._id },
+    {
+      $set: { synonyms },
+      $push: { revisions: { editedBy: username, editDateTime: new Date(), changes: [change] } },
+    },
+    { new: true },
+  );
+};
+
+/**
+ * Adds a synonym to a tag, so that questions tagged with the synonym get the tag instead. A name
+ * that is already a tag cannot become a synonym; that tag has to be merged instead.
+ *
+ * @param {string} name - The name of the tag.
+ * @param {string} synonym - The synonym to add.
+ * @param {string} username - The username of the user adding the synonym.
+ *
+ * @returns {Promise<TagResponse>} - The updated tag, or an error message.
+ */
+export const addTagSynonym = async (
+  name: string,
+  synonym: string,
+  username: string,
+): Promise<TagResponse> => {
+  try {
+    const tag = await TagModel.findOne({ name });
+    if (!tag) {
+      return { error: 'Tag not found' };
+    }
+
+    const existing = await TagModel.findOne(tagNamed(synonym));
+    if (existing) {
+      return {
+        error:
+          existing.name === synonym
+            ? 'A tag with this name exists, merge it instead'
+            : 'This name is already a synonym',
+      };
+    }
+
+    const result = await setSynonyms(tag, [...(tag.synonyms ?? []), synonym], username);
+    if (!result) {
+      return { error: 'Tag not found' };
+    }
+    return result;
+  } catch (error) {
+    return { error: 'Error when adding a tag synonym' };
+  }
+};
+
+/**
+ * Removes a synonym from a tag. Questions already tagged keep the tag.
+ *
+ * @param {string} name - The name of the tag.
+ * @param {string} synonym - The synonym to remove.
+ * @param {string} username - The username of the user removing the synonym.
+ *
+ * @returns {Promise<TagResponse>} - The updated tag, or an error message.
+ */
+export const removeTagSynonym = async (
+  name: string,
+  synonym: string,
+  username: string,
+): Promise<TagResponse> => {
+  try {
+    const tag = await TagModel.findOne({ name });
+    if (!tag) {
+      return { error: 'Tag not found' };
+    }
+    if (!tag.synonyms?.includes(synonym)) {
+      return { error: 'Synonym not found' };
+    }
+
+    const result = await setSynonyms(
+      tag,
+      tag.synonyms.filter(s => s !== synonym),
+      username,
+    );
+    if (!result) {
+      return { error: 'Tag not found' };
+    }
+    return result;
+  } catch (error) {
+    return { error: 'Error when removing a tag synonym' };
+  }
+};
+
+/**
+ * Merges a tag into another. The questions tagged with the source are tagged with the target
+ * instead, users watching the source watch the target, and the source, along with its synonyms,
+ * becomes a synonym of the target before it is deleted.
+ *
+ * @param {string} source - The name of the tag merged away.
+ * @param {string} target - The name of the tag to merge into.
+ * @param {string} username - The username of the user merging the tags.
+ *
+ * @returns {Promise<TagResponse>} - The updated target, or an error message.
+ */
+export const mergeTags = async (
+  source: string,
+  target: string,
+  username: string,
+): Promise<TagResponse> => {
+  if (source === target) {
+    return { error: 'Cannot merge a tag into itself' };
+  }
+
+  try {
+    const [sourceTag, targetTag] = await Promise.all([
+      TagModel.findOne({ name: source }),
+      TagModel.findOne({ name: target }),
+    ]);
+    if (!sourceTag || !targetTag) {
+      return { error: 'Tag not found' };
+    }
+
+    // The target is added before the source is removed, so questions never lose all their tags
+    await QuestionModel.updateMany({ tags: sourceTag._id }, { $addToSet: { tags: targetTag._id } });
+    await QuestionModel.updateMany({ tags: sourceTag._id }, { $pull: { tags: sourceTag._id } });
+
+    await UserModel.updateMany(
+      { 'emailPreferences.watchedTags': source },
+      { $addToSet: { 'emailPreferences.watchedTags': target } },
+    );
+    await UserModel.updateMany(
+      { 'emailPreferences.watchedTags': source },
+      { $pull: { 'emailPreferences.watchedTags': source } },
+    );
+
+    const synonyms = [
+      ...new Set([...(targetTag.synonyms ?? []), source, ...(sourceTag.synonyms ?? [])]),
+    ];
+    const result = await setSynonyms(targetTag, synonyms, username);
+    if (!result) {
+      return { error: 'Tag not found' };
+    }
+
+    await TagModel.deleteOne({ _id: sourceTag._id });
+    return result;
+  } catch (error) {
+    return { error: 'Error when merging tags' };
+  }
+};
@@ -5,6 +5,7 @@ import UserModel from './users';
 import UnverifiedUserModel from './unverifiedUsers';
 import { User, UserResponse, EmailResponse, UnverifiedUser } from '../types';
 import sendMail from '../utils/emailConfig';
+import { USER_ROLES } from '../utils/privileges';
 
 /**
  * Hashes a password using bcrypt.
@@ -416,6 +417,47 @@ export const changeLineSpacing = async (
   }
 };
 
+/**
+ * Promotes a user to the next more trusted role, or demotes them to the next less trusted one.
+ *
+ * @param {string} username - The username of the user whose role changes.
+ * @param {'promote' | 'demote'} change - Whether to promote or demote the user.
+ *
+ * @returns {Promise<UserResponse>} - The changed user, or an error message if the user does not
+ *          exist, already has the most or least trusted role, or the operation failed.
+ */
+export const changeUserRole = async (
+  username: string,
+  change: 'promote' | 'demote',
+): Promise<UserResponse> => {
+  try {
+    const user = await UserModel.findOne({ username });
+    if (!user) {
+      return { error: 'Username does not exist' };
+    }
+
+    const current = user.role ?? 'user';
+    const role = USER_ROLES[USER_ROLES.indexOf(current) + (change === 'promote' ? 1 : -1)];
+    if (!role) {
+      return {
+        error: `User already has the ${change === 'promote' ? 'highest' : 'lowest'} role`,
+      };
+    }
+
+    const updatedUser = await UserModel.findOneAndUpdate(
+      { username },
+      { $set: { role } },
+      { new: true },
+    );
+    if (!updatedUser) {
+      return { error: 'Username does not exist' };
+    }
+    return updatedUser;
+  } catch (error) {
+    return { error: 'Error changing user role' };
+  }
+};
+
 /**
  * Finds an existing or creates a new Google user in the database.
  *
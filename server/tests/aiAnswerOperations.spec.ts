@@ -0,0 +1,226 @@
+import {
+  flagAIAnswer,
+  getAIAnswerReport,
+  getPendingAIAnswers,
+  rateAIAnswer,
+  saveAIAnswer,
+  setAIAnswerHidden,
+} from '../models/aiAnswerOperations';
+import QuestionModel from '../models/questions';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const QID = '65e9b58910afe6e94fc6e6dc';
+
+describe('AI answer model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+    jest.clearAllMocks();
+  });
+
+  describe('saveAIAnswer', () => {
+    test('saveAIAnswer should store a ready answer', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID, aiAnswerStatus: 'ready', aiGeneratedAnswer: 'Use git merge.' },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      const result = await saveAIAnswer(QID, 'ready', 'Use git merge.');
+
+      expect(result).toEqual({
+        qid: QID,
+        aiAnswerStatus: 'ready',
+        aiGeneratedAnswer: 'Use git merge.',
+      });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: QID },
+        { $set: { aiAnswerStatus: 'ready', aiGeneratedAnswer: 'Use git merge.' } },
+        { new: true },
+      );
+    });
+
+    test('saveAIAnswer should clear the answer when generating it failed', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID, aiAnswerStatus: 'failed' },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      const result = await saveAIAnswer(QID, 'failed');
+
+      expect(result).toEqual({ qid: QID, aiAnswerStatus: 'failed', aiGeneratedAnswer: undefined });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: QID },
+        { $set: { aiAnswerStatus: 'failed' }, $unset: { aiGeneratedAnswer: '' } },
+        { new: true },
+      );
+    });
+
+    test('saveAIAnswer should return an error if the question does not exist', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await saveAIAnswer(QID, 'ready', 'Use git merge.');
+      expect(result).toEqual({ error: 'Question not found' });
+    });
+  });
+
+  describe('getPendingAIAnswers', () => {
+    test('getPendingAIAnswers should return the questions with a pending answer', async () => {
+      mockingoose(QuestionModel).toReturn([{ _id: QID, text: 'How do I merge?' }], 'find');
+
+      const result = await getPendingAIAnswers();
+      expect(result).toEqual([{ qid: QID, text: 'How do I merge?' }]);
+    });
+
+    test('getPendingAIAnswers should return an error if the questions could not be fetched', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await getPendingAIAnswers();
+      expect(result).toEqual({ error: 'Error when fetching pending AI answers' });
+    });
+  });
+
+  describe('rateAIAnswer', () => {
+    test('rateAIAnswer should return the updated feedback', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID, aiGeneratedAnswer: 'Use git merge.', aiAnswerFeedback: { helpful: ['user1'] } },
+        'findOneAndUpdate',
+      );
+
+      const result = await rateAIAnswer(QID, 'user1', 'helpful');
+      expect(result).toEqual({
+        qid: QID,
+        aiAnswerFeedback: { helpful: ['user1'], unhelpful: [], flags: [], hidden: false },
+      });
+    });
+
+    test('rateAIAnswer should return an error if the question has no AI answer', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn({ _id: QID, aiAnswerStatus: 'pending' }, 'findOne');
+
+      const result = await rateAIAnswer(QID, 'user1', 'unhelpful');
+      expect(result).toEqual({ error: 'AI answer not available' });
+    });
+  });
+
+  describe('flagAIAnswer', () => {
+    test('flagAIAnswer should add a flag with the reason', async () => {
+      mockingoose(QuestionModel).toReturn(
+        {
+          _id: QID,
+          aiGeneratedAnswer: 'Use git merge.',
+          aiAnswerFeedback: {
+            flags: [{ username: 'user1', reason: 'Wrong', createdAt: new Date('2024-06-03') }],
+          },
+        },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      const result = await flagAIAnswer(QID, 'user1', 'Wrong');
+
+      expect(result).toEqual({
+        qid: QID,
+        aiAnswerFeedback: expect.objectContaining({
+          flags: [{ username: 'user1', reason: 'Wrong', createdAt: new Date('2024-06-03') }],
+        }),
+      });
+      expect(updateSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ 'aiAnswerFeedback.flags.username': { $ne: 'user1' } }),
+        {
+          $push: {
+            'aiAnswerFeedback.flags': {
+              username: 'user1',
+              reason: 'Wrong',
+              createdAt: expect.any(Date),
+            },
+          },
+        },
+        { new: true },
+      );
+    });
+
+    test('flagAIAnswer should return an error if the user already flagged the answer', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID, aiGeneratedAnswer: 'Use git merge.' },
+        'findOne',
+      );
+
+      const result = await flagAIAnswer(QID, 'user1');
+      expect(result).toEqual({ error: 'AI answer already flagged' });
+    });
+  });
+
+  describe('setAIAnswerHidden', () => {
+    test('setAIAnswerHidden should hide the answer for the asker', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID, askedBy: 'asker', aiGeneratedAnswer: 'Use git merge.' },
+        'findOne',
+      );
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID, aiAnswerFeedback: { hidden: true } },
+        'findOneAndUpdate',
+      );
+
+      const result = await setAIAnswerHidden(QID, 'asker', true);
+      expect(result).toEqual({
+        qid: QID,
+        aiAnswerFeedback: { helpful: [], unhelpful: [], flags: [], hidden: true },
+      });
+    });
+
+    test('setAIAnswerHidden should return an error if the user is not the asker', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID, askedBy: 'asker', aiGeneratedAnswer: 'Use git merge.' },
+        'findOne',
+      );
+
+      const result = await setAIAnswerHidden(QID, 'someone', true);
+      expect(result).toEqual({ error: 'Only the asker can hide the AI answer' });
+    });
+  });
+
+  describe('getAIAnswerReport', () => {
+    test('getAIAnswerReport should return the rated answers', async () => {
+      mockingoose(QuestionModel).toReturn(
+        [
+          {
+            _id: QID,
+            title: 'How do I merge?',
+            text: 'Merging branches',
+            aiGeneratedAnswer: 'Use git push.',
+            helpful: 1,
+            unhelpful: 3,
+            flags: [],
+            score: 2,
+          },
+        ],
+        'aggregate',
+      );
+
+      const result = await getAIAnswerReport();
+      expect(result).toEqual([
+        {
+          qid: QID,
+          title: 'How do I merge?',
+          text: 'Merging branches',
+          aiGeneratedAnswer: 'Use git push.',
+          helpful: 1,
+          unhelpful: 3,
+          flags: [],
+          score: 2,
+        },
+      ]);
+    });
+
+    test('getAIAnswerReport should return an error if the report could not be built', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'aggregate');
+
+      const result = await getAIAnswerReport();
+      expect(result).toEqual({ error: 'Error when fetching AI answer report' });
+    });
+  });
+});
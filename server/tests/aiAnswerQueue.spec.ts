@@ -0,0 +1,100 @@
+import { enqueueAIAnswer, resumePendingAIAnswers } from '../utils/aiAnswerQueue';
+import { getPendingAIAnswers, saveAIAnswer } from '../models/aiAnswerOperations';
+import * as aiConfig from '../utils/aiConfig';
+import { FakeSOSocket } from '../types';
+
+jest.mock('../models/aiAnswerOperations');
+
+const saveAIAnswerMock = saveAIAnswer as jest.Mock;
+const getPendingAIAnswersMock = getPendingAIAnswers as jest.Mock;
+const completeMock = jest.fn();
+jest.spyOn(aiConfig, 'default').mockReturnValue({ complete: completeMock, stream: jest.fn() });
+
+const socket = { emit: jest.fn() } as unknown as FakeSOSocket;
+
+const QID = '65e9b58910afe6e94fc6e6dc';
+
+describe('AI answer queue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    saveAIAnswerMock.mockImplementation(async (qid, status, answer) => ({
+      qid,
+      aiAnswerStatus: status,
+      aiGeneratedAnswer: answer,
+    }));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('enqueueAIAnswer should save the answer and push it to clients', async () => {
+    completeMock.mockResolvedValueOnce('Use git merge.');
+
+    const status = await enqueueAIAnswer(socket, QID, 'How do I merge branches?');
+
+    expect(status).toBe('ready');
+    expect(completeMock).toHaveBeenCalledWith([
+      expect.objectContaining({ role: 'system' }),
+      { role: 'user', content: 'How do I merge branches?' },
+    ]);
+    expect(saveAIAnswerMock).toHaveBeenCalledWith(QID, 'ready', 'Use git merge.');
+    expect(socket.emit).toHaveBeenCalledWith('aiAnswerUpdate', {
+      qid: QID,
+      aiAnswerStatus: 'ready',
+      aiGeneratedAnswer: 'Use git merge.',
+    });
+  });
+
+  test('enqueueAIAnswer should retry after a failure', async () => {
+    completeMock
+      .mockRejectedValueOnce(new Error('Request timed out'))
+      .mockResolvedValueOnce('Use git merge.');
+
+    const job = enqueueAIAnswer(socket, QID, 'How do I merge branches?');
+    await jest.runAllTimersAsync();
+
+    expect(await job).toBe('ready');
+    expect(completeMock).toHaveBeenCalledTimes(2);
+    expect(saveAIAnswerMock).toHaveBeenCalledWith(QID, 'ready', 'Use git merge.');
+  });
+
+  test('enqueueAIAnswer should mark the answer as failed once every attempt failed', async () => {
+    completeMock.mockRejectedValue(new Error('Request timed out'));
+
+    const job = enqueueAIAnswer(socket, QID, 'How do I merge branches?');
+    await jest.runAllTimersAsync();
+
+    expect(await job).toBe('failed');
+    expect(completeMock).toHaveBeenCalledTimes(3);
+    expect(saveAIAnswerMock).toHaveBeenCalledWith(QID, 'failed', undefined);
+    expect(socket.emit).toHaveBeenCalledWith('aiAnswerUpdate', {
+      qid: QID,
+      aiAnswerStatus: 'failed',
+      aiGeneratedAnswer: undefined,
+    });
+    completeMock.mockReset();
+  });
+
+  test('enqueueAIAnswer should not push an answer that could not be saved', async () => {
+    completeMock.mockResolvedValueOnce('Use git merge.');
+    saveAIAnswerMock.mockResolvedValueOnce({ error: 'Question not found' });
+    jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+
+    await enqueueAIAnswer(socket, QID, 'How do I merge branches?');
+
+    expect(socket.emit).not.toHaveBeenCalled();
+  });
+
+  test('resumePendingAIAnswers should queue the answers still pending', async () => {
+    getPendingAIAnswersMock.mockResolvedValueOnce([{ qid: QID, text: 'How do I merge?' }]);
+    completeMock.mockResolvedValueOnce('Use git merge.');
+
+    const count = await resumePendingAIAnswers(socket);
+    await jest.runAllTimersAsync();
+
+    expect(count).toBe(1);
+    expect(saveAIAnswerMock).toHaveBeenCalledWith(QID, 'ready', 'Use git merge.');
+  });
+});
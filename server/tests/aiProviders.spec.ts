@@ -0,0 +1,115 @@
+import OpenAI from 'openai';
+import { createOpenAIProvider, createStubProvider } from '../utils/aiProviders';
+
+jest.mock('openai');
+
+const MOCK_MESSAGES = [
+  { role: 'system' as const, content: 'You are answering a question.' },
+  { role: 'user' as const, content: 'How do I reverse a list in Python?' },
+];
+
+describe('AI providers', () => {
+  afterEach(() => {
+    delete process.env.AI_PROVIDER;
+    delete process.env.AI_BASE_URL;
+    delete process.env.AI_MODEL;
+  });
+
+  test('the stub provider should reply the same way every time', async () => {
+    const provider = createStubProvider();
+
+    const first = await provider.complete(MOCK_MESSAGES);
+    const second = await provider.complete(MOCK_MESSAGES);
+
+    expect(first).toBe(second);
+    expect(first).toContain('How do I reverse a list in Python?');
+  });
+
+  test('the OpenAI provider should return the content of the first choice', async () => {
+    const createMock = jest.fn().mockResolvedValueOnce({
+      choices: [{ message: { content: 'Use reversed() or list.reverse().' } }],
+    });
+    (OpenAI as unknown as jest.Mock).mockImplementationOnce(() => ({
+      chat: { completions: { create: createMock } },
+    }));
+
+    const provider = createOpenAIProvider({
+      model: 'local-model',
+      baseURL: 'http://localhost:11434/v1',
+      timeout: 1000,
+    });
+    const reply = await provider.complete(MOCK_MESSAGES);
+
+    expect(reply).toBe('Use reversed() or list.reverse().');
+    expect(OpenAI).toHaveBeenCalledWith(
+      expect.objectContaining({ apiKey: 'not-needed', baseURL: 'http://localhost:11434/v1' }),
+    );
+    expect(createMock).toHaveBeenCalledWith({ model: 'local-model', messages: MOCK_MESSAGES });
+  });
+
+  test('the OpenAI provider should reject a reply without content', async () => {
+    (OpenAI as unknown as jest.Mock).mockImplementationOnce(() => ({
+      chat: { completions: { create: jest.fn().mockResolvedValueOnce({ choices: [] }) } },
+    }));
+
+    const provider = createOpenAIProvider({ model: 'gpt-4o-mini', apiKey: 'key', timeout: 1000 });
+
+    await expect(provider.complete(MOCK_MESSAGES)).rejects.toThrow(
+      'Invalid response structure from the AI provider',
+    );
+  });
+
+  test('the stub provider should stream the same reply it completes with', async () => {
+    const provider = createStubProvider();
+    const deltas: string[] = [];
+
+    const reply = await provider.stream(MOCK_MESSAGES, delta => deltas.push(delta));
+
+    expect(reply).toBe(await provider.complete(MOCK_MESSAGES));
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe(reply);
+  });
+
+  test('the OpenAI provider should pass on each part of a streamed reply', async () => {
+    const finalContent = jest.fn().mockResolvedValueOnce('Use reversed().');
+    const on = jest.fn((event: string, listener: (delta: string) => void) => {
+      listener('Use ');
+      listener('reversed().');
+      return { finalContent };
+    });
+    (OpenAI as unknown as jest.Mock).mockImplementationOnce(() => ({
+      beta: { chat: { completions: { stream: jest.fn().mockReturnValueOnce({ on }) } } },
+    }));
+    const onDelta = jest.fn();
+
+    const provider = createOpenAIProvider({ model: 'gpt-4o-mini', apiKey: 'key', timeout: 1000 });
+    const reply = await provider.stream(MOCK_MESSAGES, onDelta);
+
+    expect(reply).toBe('Use reversed().');
+    expect(on).toHaveBeenCalledWith('content', expect.any(Function));
+    expect(onDelta.mock.calls).toEqual([['Use '], ['reversed().']]);
+  });
+
+  test('getAIProvider should use the provider selected by AI_PROVIDER', async () => {
+    process.env.AI_PROVIDER = 'stub';
+
+    await jest.isolateModulesAsync(async () => {
+      const { default: getAIProvider } = await import('../utils/aiConfig');
+
+      const reply = await getAIProvider().complete(MOCK_MESSAGES);
+      expect(reply).toBe(await createStubProvider().complete(MOCK_MESSAGES));
+    });
+  });
+
+  test('getAIProvider should require the URL and model of a local provider', async () => {
+    process.env.AI_PROVIDER = 'local';
+
+    await jest.isolateModulesAsync(async () => {
+      const { default: getAIProvider } = await import('../utils/aiConfig');
+
+      expect(() => getAIProvider()).toThrow(
+        'Missing required environment variable(s) for the local AI provider',
+      );
+    });
+  });
+});
@@ -3,9 +3,7 @@ import Tags from '../models/tags';
 import QuestionModel from '../models/questions';
 import {
   addTag,
-  getQuestionsByOrder,
-  filterQuestionsByAskedBy,
-  filterQuestionsBySearch,
+  getQuestionPage,
   fetchAndIncrementQuestionViewsById,
   saveQuestion,
   processTags,
@@ -15,10 +13,25 @@ import {
   saveComment,
   addComment,
   addVoteToQuestion,
+  addVoteToAnswer,
+  addVoteToComment,
+  editQuestion,
+  deleteQuestion,
+  setAcceptedAnswer,
+  editAnswer,
+  deleteAnswer,
+  editComment,
+  deleteComment,
+  getUserProfile,
+  isPostOwnerOrAsker,
 } from '../models/application';
-import { Answer, Question, Tag, Comment } from '../types';
+import { Answer, Question, Tag, Comment, UserProfile } from '../types';
 import { T1_DESC, T2_DESC, T3_DESC } from '../data/posts_strings';
 import AnswerModel from '../models/answers';
+import CommentModel from '../models/comments';
+import UserModel from '../models/users';
+import ReputationEventModel from '../models/reputationEvents';
+import * as reputation from '../models/reputationOperations';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const mockingoose = require('mockingoose');
@@ -144,188 +157,192 @@ describe('application module', () => {
       mockingoose.resetAll();
     });
 
-    describe('filterQuestionsBySearch', () => {
-      test('filter questions with empty search string should return all questions', () => {
-        const result = filterQuestionsBySearch(QUESTIONS, '');
-
-        expect(result.length).toEqual(QUESTIONS.length);
+    describe('getQuestionPage', () => {
+      afterEach(() => {
+        jest.restoreAllMocks();
       });
 
-      test('filter questions with empty list of questions should return empty list', () => {
-        const result = filterQuestionsBySearch([], 'react');
-
-        expect(result.length).toEqual(0);
-      });
+      test('getQuestionPage should return the questions with the total and no cursor on the last page', async () => {
+        mockingoose(QuestionModel).toReturn(QUESTIONS, 'aggregate');
+        mockingoose(QuestionModel).toReturn(QUESTIONS.length, 'countDocuments');
 
-      test('filter questions with empty questions and empty string should return empty list', () => {
-        const result = filterQuestionsBySearch([], '');
+        const result = await getQuestionPage('newest');
 
-        expect(result.length).toEqual(0);
+        if ('error' in result) {
+          throw new Error('Expected a page of questions');
+        }
+        expect(result.questions).toHaveLength(QUESTIONS.length);
+        expect(result.total).toEqual(QUESTIONS.length);
+        expect(result.nextCursor).toBeUndefined();
       });
 
-      test('filter question by one tag', () => {
-        const result = filterQuestionsBySearch(QUESTIONS, '[android]');
+      test('getQuestionPage should return a cursor when there are more questions than the limit', async () => {
+        mockingoose(QuestionModel).toReturn(QUESTIONS.slice(0, 3), 'aggregate');
+        mockingoose(QuestionModel).toReturn(10, 'countDocuments');
 
-        expect(result.length).toEqual(1);
-        expect(result[0]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-      });
-
-      test('filter question by multiple tags', () => {
-        const result = filterQuestionsBySearch(QUESTIONS, '[android] [react]');
+        const result = await getQuestionPage('newest', { limit: 2 });
 
-        expect(result.length).toEqual(2);
-        expect(result[0]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-        expect(result[1]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
+        if ('error' in result) {
+          throw new Error('Expected a page of questions');
+        }
+        expect(result.questions).toHaveLength(2);
+        expect(result.total).toEqual(10);
+        expect(result.nextCursor).toBeDefined();
       });
 
-      test('filter question by one user', () => {
-        const result = filterQuestionsByAskedBy(QUESTIONS, 'q_by4');
+      test('getQuestionPage should sort newest questions in the database', async () => {
+        mockingoose(QuestionModel).toReturn([], 'aggregate');
+        const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-        expect(result.length).toEqual(1);
-        expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de09');
+        await getQuestionPage('newest', { limit: 5 });
+
+        const pipeline = aggregateSpy.mock.calls[0][0];
+        expect(pipeline).toContainEqual({
+          $match: { deletedAt: { $exists: false }, hiddenAt: { $exists: false } },
+        });
+        expect(pipeline).toContainEqual({ $sort: { askDateTime: -1, _id: -1 } });
+        expect(pipeline).toContainEqual({ $limit: 6 });
       });
 
-      test('filter question by tag and then by user', () => {
-        let result = filterQuestionsBySearch(QUESTIONS, '[javascript]');
-        result = filterQuestionsByAskedBy(result, 'q_by2');
+      test('getQuestionPage should only list questions without answers for unanswered', async () => {
+        mockingoose(QuestionModel).toReturn([], 'aggregate');
+        const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-        expect(result.length).toEqual(1);
-        expect(result[0]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
+        await getQuestionPage('unanswered');
+
+        expect(aggregateSpy.mock.calls[0][0][0]).toEqual({
+          $match: {
+            deletedAt: { $exists: false },
+            hiddenAt: { $exists: false },
+            answers: { $size: 0 },
+          },
+        });
       });
 
-      test('filter question by one keyword', () => {
-        const result = filterQuestionsBySearch(QUESTIONS, 'website');
+      test('getQuestionPage should only list questions without an accepted answer for unresolved', async () => {
+        mockingoose(QuestionModel).toReturn([], 'aggregate');
+        const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-        expect(result.length).toEqual(1);
-        expect(result[0]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
+        await getQuestionPage('unresolved');
+
+        expect(aggregateSpy.mock.calls[0][0][0]).toEqual({
+          $match: {
+            deletedAt: { $exists: false },
+            hiddenAt: { $exists: false },
+            acceptedAnswer: null,
+          },
+        });
       });
 
-      test('filter question by tag and keyword', () => {
-        const result = filterQuestionsBySearch(QUESTIONS, 'website [android]');
+      test('getQuestionPage should sort active questions by their most recent answer', async () => {
+        mockingoose(QuestionModel).toReturn([], 'aggregate');
+        const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-        expect(result.length).toEqual(2);
-        expect(result[0]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-        expect(result[1]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
+        await getQuestionPage('active');
+
+        const pipeline = aggregateSpy.mock.calls[0][0];
+        expect(pipeline).toContainEqual(
+          expect.objectContaining({ $lookup: expect.objectContaining({ from: 'Answer' }) }),
+        );
+        expect(pipeline).toContainEqual({ $sort: { lastActivity: -1, askDateTime: -1, _id: -1 } });
       });
-    });
 
-    describe('getQuestionsByOrder', () => {
-      test('get active questions, newest questions sorted by most recently answered 1', async () => {
-        mockingoose(QuestionModel).toReturn(QUESTIONS.slice(0, 3), 'find');
-        QuestionModel.schema.path('answers', Object);
-        QuestionModel.schema.path('tags', Object);
+      test('getQuestionPage should sort most viewed questions by their number of views', async () => {
+        mockingoose(QuestionModel).toReturn([], 'aggregate');
+        const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-        const result = await getQuestionsByOrder('active');
+        await getQuestionPage('mostViewed');
 
-        expect(result.length).toEqual(3);
-        expect(result[0]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
-        expect(result[1]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-        expect(result[2]._id?.toString()).toEqual('65e9b9b44c052f0a08ecade0');
+        expect(aggregateSpy.mock.calls[0][0]).toContainEqual({
+          $sort: { viewCount: -1, askDateTime: -1, _id: -1 },
+        });
       });
 
-      test('get active questions, newest questions sorted by most recently answered 2', async () => {
-        const questions = [
-          {
-            _id: '65e9b716ff0e892116b2de01',
-            answers: [ans1, ans3], // 18, 19 => 19
-            askDateTime: new Date('2023-11-20T09:24:00'),
-          },
-          {
-            _id: '65e9b716ff0e892116b2de02',
-            answers: [ans1, ans2, ans3, ans4], // 18, 20, 19, 19 => 20
-            askDateTime: new Date('2023-11-20T09:24:00'),
-          },
-          {
-            _id: '65e9b716ff0e892116b2de03',
-            answers: [ans1], // 18 => 18
-            askDateTime: new Date('2023-11-19T09:24:00'),
-          },
-          {
-            _id: '65e9b716ff0e892116b2de04',
-            answers: [ans4], // 19 => 19
-            askDateTime: new Date('2023-11-21T09:24:00'),
-          },
-          {
-            _id: '65e9b716ff0e892116b2de05',
-            answers: [],
-            askDateTime: new Date('2023-11-19T10:24:00'),
-          },
-        ];
-        mockingoose(QuestionModel).toReturn(questions, 'find');
-        QuestionModel.schema.path('answers', Object);
-        QuestionModel.schema.path('tags', Object);
+      test('getQuestionPage should filter by the user who asked the questions', async () => {
+        mockingoose(QuestionModel).toReturn([], 'aggregate');
+        const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-        const result = await getQuestionsByOrder('active');
+        await getQuestionPage('newest', { askedBy: 'q_by4' });
 
-        expect(result.length).toEqual(5);
-        expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de02');
-        expect(result[1]._id?.toString()).toEqual('65e9b716ff0e892116b2de04');
-        expect(result[2]._id?.toString()).toEqual('65e9b716ff0e892116b2de01');
-        expect(result[3]._id?.toString()).toEqual('65e9b716ff0e892116b2de03');
-        expect(result[4]._id?.toString()).toEqual('65e9b716ff0e892116b2de05');
+        expect(aggregateSpy.mock.calls[0][0][0]).toEqual({
+          $match: { deletedAt: { $exists: false }, hiddenAt: { $exists: false }, askedBy: 'q_by4' },
+        });
       });
 
-      test('get newest unanswered questions', async () => {
-        mockingoose(QuestionModel).toReturn(QUESTIONS, 'find');
+      test('getQuestionPage should rank matching questions by relevance and add snippets', async () => {
+        mockingoose(QuestionModel).toReturn([{ _id: QUESTIONS[0]._id, score: 1 }], 'find');
+        mockingoose(AnswerModel).toReturn([], 'find');
+        mockingoose(QuestionModel).toReturn([QUESTIONS[0]], 'aggregate');
+        const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-        const result = await getQuestionsByOrder('unanswered');
+        const result = await getQuestionPage('relevance', { search: 'storing' });
 
-        expect(result.length).toEqual(2);
-        expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de09');
-        expect(result[1]._id?.toString()).toEqual('65e9b9b44c052f0a08ecade0');
+        const pipeline = aggregateSpy.mock.calls[0][0];
+        expect(pipeline[0]).toEqual({
+          $match: {
+            deletedAt: { $exists: false },
+            hiddenAt: { $exists: false },
+            _id: { $in: [QUESTIONS[0]._id] },
+          },
+        });
+        expect(pipeline).toContainEqual({ $sort: { relevance: -1, askDateTime: -1, _id: -1 } });
+        if ('error' in result) {
+          throw new Error('Expected a page of questions');
+        }
+        expect(result.questions[0].snippet).toContainEqual({ text: 'storing', match: true });
       });
 
-      test('get newest questions', async () => {
-        const questions = [
-          {
-            _id: '65e9b716ff0e892116b2de01',
-            askDateTime: new Date('2023-11-20T09:24:00'),
-          },
-          {
-            _id: '65e9b716ff0e892116b2de04',
-            askDateTime: new Date('2023-11-21T09:24:00'),
-          },
-          {
-            _id: '65e9b716ff0e892116b2de05',
-            askDateTime: new Date('2023-11-19T10:24:00'),
-          },
-        ];
-        mockingoose(QuestionModel).toReturn(questions, 'find');
+      test('getQuestionPage should list the newest questions by relevance without words to rank by', async () => {
+        mockingoose(Tags).toReturn([tag3], 'find');
+        mockingoose(QuestionModel).toReturn([], 'aggregate');
+        const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
 
-        const result = await getQuestionsByOrder('newest');
+        await getQuestionPage('relevance', { search: '[android]' });
 
-        expect(result.length).toEqual(3);
-        expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de04');
-        expect(result[1]._id?.toString()).toEqual('65e9b716ff0e892116b2de01');
-        expect(result[2]._id?.toString()).toEqual('65e9b716ff0e892116b2de05');
+        const pipeline = aggregateSpy.mock.calls[0][0];
+        expect(pipeline[0]).toEqual({
+          $match: {
+            deletedAt: { $exists: false },
+            hiddenAt: { $exists: false },
+            $and: [{ tags: { $all: [tag3._id] } }],
+          },
+        });
+        expect(pipeline).toContainEqual({ $sort: { askDateTime: -1, _id: -1 } });
       });
 
-      test('get newest most viewed questions', async () => {
-        mockingoose(QuestionModel).toReturn(QUESTIONS, 'find');
+      test('getQuestionPage should continue after the question the cursor points at', async () => {
+        mockingoose(QuestionModel).toReturn(QUESTIONS.slice(0, 2), 'aggregate');
+        const first = await getQuestionPage('newest', { limit: 1 });
+        if ('error' in first) {
+          throw new Error('Expected a page of questions');
+        }
 
-        const result = await getQuestionsByOrder('mostViewed');
+        const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+        await getQuestionPage('newest', { limit: 1, cursor: first.nextCursor });
 
-        expect(result.length).toEqual(4);
-        expect(result[0]._id?.toString()).toEqual('65e9b9b44c052f0a08ecade0');
-        expect(result[1]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-        expect(result[2]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
-        expect(result[3]._id?.toString()).toEqual('65e9b716ff0e892116b2de09');
+        const last = QUESTIONS[0];
+        expect(aggregateSpy.mock.calls[0][0]).toContainEqual({
+          $match: {
+            $or: [
+              { askDateTime: { $lt: last.askDateTime } },
+              { askDateTime: last.askDateTime, _id: { $lt: last._id } },
+            ],
+          },
+        });
       });
 
-      test('getQuestionsByOrder should return empty list if find throws an error', async () => {
-        mockingoose(QuestionModel).toReturn(new Error('error'), 'find');
-
-        const result = await getQuestionsByOrder('newest');
+      test('getQuestionPage should return an error for a malformed cursor', async () => {
+        const result = await getQuestionPage('newest', { cursor: 'not-a-cursor' });
 
-        expect(result.length).toEqual(0);
+        expect(result).toEqual({ error: 'Invalid cursor' });
       });
 
-      test('getQuestionsByOrder should return empty list if find returns null', async () => {
-        mockingoose(QuestionModel).toReturn(null, 'find');
+      test('getQuestionPage should return an error if aggregate throws an error', async () => {
+        mockingoose(QuestionModel).toReturn(new Error('error'), 'aggregate');
 
-        const result = await getQuestionsByOrder('newest');
+        const result = await getQuestionPage('newest');
 
-        expect(result.length).toEqual(0);
+        expect(result).toEqual({ error: 'Error when fetching questions' });
       });
     });
 
@@ -501,6 +518,21 @@ describe('application module', () => {
         expect(result).toEqual({ error: 'Question not found!' });
       });
 
+      test('addVoteToQuestion should not vote on a deleted question', async () => {
+        mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+        const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+        const result = await addVoteToQuestion('someQuestionId', 'testUser', 'upvote');
+
+        expect(result).toEqual({ error: 'Question not found!' });
+        expect(updateSpy).toHaveBeenCalledWith(
+          { _id: 'someQuestionId', deletedAt: { $exists: false } },
+          expect.anything(),
+          { new: true },
+        );
+        updateSpy.mockRestore();
+      });
+
       test('addVoteToQuestion should return an error when there is an issue with adding an upvote', async () => {
         mockingoose(QuestionModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
 
@@ -588,6 +620,257 @@ describe('application module', () => {
         expect(result).toEqual({ error: 'Error when adding downvote to question' });
       });
     });
+
+    describe('editQuestion', () => {
+      test('editQuestion should record the changed fields as a revision', async () => {
+        const question = { ...QUESTIONS[2], tags: [] };
+        mockingoose(QuestionModel).toReturn(question, 'findOne');
+        mockingoose(QuestionModel).toReturn(
+          { ...question, title: 'New title' },
+          'findOneAndUpdate',
+        );
+        const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+        const result = (await editQuestion('65e9b9b44c052f0a08ecade0', 'q_by3', {
+          title: 'New title',
+          text: question.text,
+        })) as Question;
+
+        expect(result.title).toEqual('New title');
+        expect(updateSpy).toHaveBeenLastCalledWith(
+          expect.anything(),
+          {
+            $set: { title: 'New title' },
+            $push: {
+              revisions: {
+                editedBy: 'q_by3',
+                editDateTime: expect.any(Date),
+                changes: [{ field: 'title', before: question.title, after: 'New title' }],
+              },
+            },
+          },
+          { new: true },
+        );
+        updateSpy.mockRestore();
+      });
+
+      test('editQuestion should record changed tags by name', async () => {
+        const question = { ...QUESTIONS[2], tags: [] };
+        mockingoose(QuestionModel).toReturn(question, 'findOne');
+        mockingoose(QuestionModel).toReturn(question, 'findOneAndUpdate');
+        const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+        await editQuestion('65e9b9b44c052f0a08ecade0', 'q_by3', { tags: [tag1, tag2] });
+
+        expect(updateSpy).toHaveBeenLastCalledWith(
+          expect.anything(),
+          expect.objectContaining({
+            $set: { tags: [tag1._id, tag2._id] },
+            $push: {
+              revisions: expect.objectContaining({
+                changes: [{ field: 'tags', before: '', after: 'react javascript' }],
+              }),
+            },
+          }),
+          { new: true },
+        );
+        updateSpy.mockRestore();
+      });
+
+      test('editQuestion should not record a revision if nothing changed', async () => {
+        const question = { ...QUESTIONS[2], tags: [] };
+        mockingoose(QuestionModel).toReturn(question, 'findOne');
+        const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+        const result = (await editQuestion('65e9b9b44c052f0a08ecade0', 'q_by3', {
+          text: question.text,
+        })) as Question;
+
+        expect(result.text).toEqual(question.text);
+        expect(updateSpy).not.toHaveBeenCalled();
+        updateSpy.mockRestore();
+      });
+
+      test('editQuestion should return an error if the user did not ask the question', async () => {
+        mockingoose(QuestionModel).toReturn({ ...QUESTIONS[2], tags: [] }, 'findOne');
+
+        const result = await editQuestion('65e9b9b44c052f0a08ecade0', 'q_by1', {
+          title: 'New title',
+        });
+
+        expect(result).toEqual({ error: 'Only the author can edit this question' });
+      });
+
+      test('editQuestion should return an error if the question does not exist', async () => {
+        mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+        const result = await editQuestion('65e9b9b44c052f0a08ecade0', 'q_by3', {
+          title: 'New title',
+        });
+
+        expect(result).toEqual({ error: 'Question not found' });
+      });
+
+      test('editQuestion should return an object with error if findOne throws an error', async () => {
+        mockingoose(QuestionModel).toReturn(new Error('error'), 'findOne');
+
+        const result = await editQuestion('65e9b9b44c052f0a08ecade0', 'q_by3', {
+          title: 'New title',
+        });
+
+        expect(result).toEqual({ error: 'Error when editing a question' });
+      });
+    });
+
+    describe('setAcceptedAnswer', () => {
+      const question = { ...QUESTIONS[0], answers: [ans1._id, ans2._id] } as Question;
+
+      beforeEach(() => {
+        mockingoose(ReputationEventModel).toReturn([], 'find');
+      });
+
+      test('setAcceptedAnswer should mark an answer to the question as accepted', async () => {
+        mockingoose(QuestionModel).toReturn(question, 'findOne');
+        mockingoose(QuestionModel).toReturn(
+          { ...question, acceptedAnswer: ans2._id },
+          'findOneAndUpdate',
+        );
+        const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+        const result = (await setAcceptedAnswer(
+          '65e9b58910afe6e94fc6e6dc',
+          '65e9b58910afe6e94fc6e6dd',
+          'q_by1',
+        )) as Question;
+
+        expect(result.acceptedAnswer?.toString()).toEqual('65e9b58910afe6e94fc6e6dd');
+        expect(updateSpy).toHaveBeenLastCalledWith(
+          { _id: '65e9b58910afe6e94fc6e6dc' },
+          { $set: { acceptedAnswer: '65e9b58910afe6e94fc6e6dd' } },
+          { new: true },
+        );
+        updateSpy.mockRestore();
+      });
+
+      test('setAcceptedAnswer should clear the accepted answer when no answer is given', async () => {
+        mockingoose(QuestionModel).toReturn({ ...question, acceptedAnswer: ans2._id }, 'findOne');
+        mockingoose(QuestionModel).toReturn(question, 'findOneAndUpdate');
+        const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+        const result = (await setAcceptedAnswer(
+          '65e9b58910afe6e94fc6e6dc',
+          null,
+          'q_by1',
+        )) as Question;
+
+        expect(result.acceptedAnswer).toBeUndefined();
+        expect(updateSpy).toHaveBeenLastCalledWith(
+          { _id: '65e9b58910afe6e94fc6e6dc' },
+          { $unset: { acceptedAnswer: '' } },
+          { new: true },
+        );
+        updateSpy.mockRestore();
+      });
+
+      test('setAcceptedAnswer should move the reputation for the accepted answer', async () => {
+        mockingoose(QuestionModel).toReturn({ ...question, acceptedAnswer: ans1._id }, 'findOne');
+        mockingoose(QuestionModel).toReturn(
+          { ...question, acceptedAnswer: ans2._id },
+          'findOneAndUpdate',
+        );
+        mockingoose(AnswerModel).toReturn(ans2, 'findOne');
+        const reputationSpy = jest
+          .spyOn(reputation, 'recordAcceptReputation')
+          .mockResolvedValue(undefined);
+
+        await setAcceptedAnswer('65e9b58910afe6e94fc6e6dc', '65e9b58910afe6e94fc6e6dd', 'q_by1');
+
+        expect(reputationSpy).toHaveBeenCalledWith(
+          '65e9b58910afe6e94fc6e6dc',
+          undefined,
+          'q_by1',
+          false,
+        );
+        expect(reputationSpy).toHaveBeenCalledWith(
+          '65e9b58910afe6e94fc6e6dd',
+          'ansBy2',
+          'q_by1',
+          true,
+        );
+        reputationSpy.mockRestore();
+      });
+
+      test('setAcceptedAnswer should return an error if the user did not ask the question', async () => {
+        mockingoose(QuestionModel).toReturn(question, 'findOne');
+
+        const result = await setAcceptedAnswer(
+          '65e9b58910afe6e94fc6e6dc',
+          '65e9b58910afe6e94fc6e6dd',
+          'ansBy1',
+        );
+
+        expect(result).toEqual({ error: 'Only the asker can accept an answer' });
+      });
+
+      test('setAcceptedAnswer should return an error if the answer is not on the question', async () => {
+        mockingoose(QuestionModel).toReturn(question, 'findOne');
+
+        const result = await setAcceptedAnswer(
+          '65e9b58910afe6e94fc6e6dc',
+          '65e9b58910afe6e94fc6e6df',
+          'q_by1',
+        );
+
+        expect(result).toEqual({ error: 'Answer not found' });
+      });
+
+      test('setAcceptedAnswer should return an error if the question does not exist', async () => {
+        mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+        const result = await setAcceptedAnswer('65e9b58910afe6e94fc6e6dc', null, 'q_by1');
+
+        expect(result).toEqual({ error: 'Question not found' });
+      });
+
+      test('setAcceptedAnswer should return an object with error if findOne throws an error', async () => {
+        mockingoose(QuestionModel).toReturn(new Error('error'), 'findOne');
+
+        const result = await setAcceptedAnswer('65e9b58910afe6e94fc6e6dc', null, 'q_by1');
+
+        expect(result).toEqual({ error: 'Error when accepting an answer' });
+      });
+    });
+
+    describe('deleteQuestion', () => {
+      test('deleteQuestion should mark the question as deleted', async () => {
+        const question = { ...QUESTIONS[2], tags: [] };
+        mockingoose(QuestionModel).toReturn(question, 'findOne');
+        mockingoose(QuestionModel).toReturn(
+          { ...question, deletedAt: new Date('2024-06-06') },
+          'findOneAndUpdate',
+        );
+
+        const result = (await deleteQuestion('65e9b9b44c052f0a08ecade0', 'q_by3')) as Question;
+
+        expect(result.deletedAt).toEqual(new Date('2024-06-06'));
+      });
+
+      test('deleteQuestion should return an error if the user did not ask the question', async () => {
+        mockingoose(QuestionModel).toReturn({ ...QUESTIONS[2], tags: [] }, 'findOne');
+
+        const result = await deleteQuestion('65e9b9b44c052f0a08ecade0', 'q_by1');
+
+        expect(result).toEqual({ error: 'Only the author can delete this question' });
+      });
+
+      test('deleteQuestion should return an error if the question does not exist', async () => {
+        mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+        const result = await deleteQuestion('65e9b9b44c052f0a08ecade0', 'q_by3');
+
+        expect(result).toEqual({ error: 'Question not found' });
+      });
+    });
   });
 
   describe('Answer model', () => {
@@ -663,6 +946,246 @@ describe('application module', () => {
         }
       });
     });
+
+    describe('editAnswer', () => {
+      test('editAnswer should update the text and record a revision', async () => {
+        mockingoose(AnswerModel).toReturn(ans1, 'findOne');
+        mockingoose(AnswerModel).toReturn({ ...ans1, text: 'edited' }, 'findOneAndUpdate');
+        const updateSpy = jest.spyOn(AnswerModel, 'findOneAndUpdate');
+
+        const result = (await editAnswer('65e9b58910afe6e94fc6e6dc', 'ansBy1', 'edited')) as Answer;
+
+        expect(result.text).toEqual('edited');
+        expect(updateSpy).toHaveBeenLastCalledWith(
+          expect.anything(),
+          {
+            $set: { text: 'edited' },
+            $push: {
+              revisions: {
+                editedBy: 'ansBy1',
+                editDateTime: expect.any(Date),
+                changes: [{ field: 'text', before: 'ans1', after: 'edited' }],
+              },
+            },
+          },
+          { new: true },
+        );
+        updateSpy.mockRestore();
+      });
+
+      test('editAnswer should return an error if the user did not write the answer', async () => {
+        mockingoose(AnswerModel).toReturn(ans1, 'findOne');
+
+        const result = await editAnswer('65e9b58910afe6e94fc6e6dc', 'ansBy2', 'edited');
+
+        expect(result).toEqual({ error: 'Only the author can edit this answer' });
+      });
+
+      test('editAnswer should return an error if the answer does not exist', async () => {
+        mockingoose(AnswerModel).toReturn(null, 'findOne');
+
+        const result = await editAnswer('65e9b58910afe6e94fc6e6dc', 'ansBy1', 'edited');
+
+        expect(result).toEqual({ error: 'Answer not found' });
+      });
+    });
+
+    describe('deleteAnswer', () => {
+      test('deleteAnswer should remove the answer from the question and mark it as deleted', async () => {
+        mockingoose(AnswerModel).toReturn(ans1, 'findOne');
+        mockingoose(QuestionModel).toReturn(QUESTIONS[0], 'findOneAndUpdate');
+        mockingoose(AnswerModel).toReturn(
+          { ...ans1, deletedAt: new Date('2024-06-06') },
+          'findOneAndUpdate',
+        );
+        const pullSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+        const result = (await deleteAnswer(
+          '65e9b58910afe6e94fc6e6dc',
+          '65e9b58910afe6e94fc6e6dc',
+          'ansBy1',
+        )) as Answer;
+
+        expect(result.deletedAt).toEqual(new Date('2024-06-06'));
+        expect(pullSpy).toHaveBeenLastCalledWith(
+          { _id: '65e9b58910afe6e94fc6e6dc', answers: '65e9b58910afe6e94fc6e6dc' },
+          { $pull: { answers: '65e9b58910afe6e94fc6e6dc' } },
+          { new: true },
+        );
+        pullSpy.mockRestore();
+      });
+
+      test('deleteAnswer should clear the accepted answer and its reputation if it was accepted', async () => {
+        mockingoose(AnswerModel).toReturn(ans1, 'findOne');
+        mockingoose(QuestionModel).toReturn(
+          { ...QUESTIONS[0], acceptedAnswer: ans1._id },
+          'findOneAndUpdate',
+        );
+        mockingoose(AnswerModel).toReturn(
+          { ...ans1, deletedAt: new Date('2024-06-06') },
+          'findOneAndUpdate',
+        );
+        const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+        const reputationSpy = jest
+          .spyOn(reputation, 'recordAcceptReputation')
+          .mockResolvedValue(undefined);
+
+        await deleteAnswer('65e9b58910afe6e94fc6e6dc', '65e9b58910afe6e94fc6e6dc', 'ansBy1');
+
+        expect(updateSpy).toHaveBeenLastCalledWith(
+          { _id: '65e9b58910afe6e94fc6e6dc' },
+          { $unset: { acceptedAnswer: '' } },
+        );
+        expect(reputationSpy).toHaveBeenCalledWith(
+          '65e9b58910afe6e94fc6e6dc',
+          undefined,
+          QUESTIONS[0].askedBy,
+          false,
+        );
+        updateSpy.mockRestore();
+        reputationSpy.mockRestore();
+      });
+
+      test('deleteAnswer should return an error if the answer is not on the question', async () => {
+        mockingoose(AnswerModel).toReturn(ans1, 'findOne');
+        mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+
+        const result = await deleteAnswer(
+          '65e9b58910afe6e94fc6e6dc',
+          '65e9b58910afe6e94fc6e6dc',
+          'ansBy1',
+        );
+
+        expect(result).toEqual({ error: 'Answer not found' });
+      });
+
+      test('deleteAnswer should return an error if the user did not write the answer', async () => {
+        mockingoose(AnswerModel).toReturn(ans1, 'findOne');
+
+        const result = await deleteAnswer(
+          '65e9b58910afe6e94fc6e6dc',
+          '65e9b58910afe6e94fc6e6dc',
+          'ansBy2',
+        );
+
+        expect(result).toEqual({ error: 'Only the author can delete this answer' });
+      });
+    });
+
+    describe('addVoteToAnswer', () => {
+      beforeEach(() => {
+        mockingoose(ReputationEventModel).toReturn([], 'find');
+      });
+
+      test('addVoteToAnswer should upvote an answer', async () => {
+        mockingoose(AnswerModel).toReturn(
+          { ...ans1, upVotes: ['testUser'], downVotes: [] },
+          'findOneAndUpdate',
+        );
+
+        const result = await addVoteToAnswer('65e9b58910afe6e94fc6e6dc', 'testUser', 'upvote');
+
+        expect(result).toEqual({
+          msg: 'Answer upvoted successfully',
+          upVotes: ['testUser'],
+          downVotes: [],
+        });
+      });
+
+      test('addVoteToAnswer should update the reputation of the answer author', async () => {
+        mockingoose(AnswerModel).toReturn(
+          { ...ans1, upVotes: ['testUser'], downVotes: [] },
+          'findOneAndUpdate',
+        );
+        const reputationSpy = jest
+          .spyOn(reputation, 'recordVoteReputation')
+          .mockResolvedValue(undefined);
+
+        await addVoteToAnswer('65e9b58910afe6e94fc6e6dc', 'testUser', 'upvote');
+
+        expect(reputationSpy).toHaveBeenCalledTimes(1);
+        expect(reputationSpy.mock.calls[0].slice(0, 4)).toEqual([
+          'answer',
+          '65e9b58910afe6e94fc6e6dc',
+          'ansBy1',
+          'testUser',
+        ]);
+        reputationSpy.mockRestore();
+      });
+
+      test('addVoteToAnswer should downvote an answer', async () => {
+        mockingoose(AnswerModel).toReturn(
+          { ...ans1, upVotes: [], downVotes: ['testUser'] },
+          'findOneAndUpdate',
+        );
+
+        const result = await addVoteToAnswer('65e9b58910afe6e94fc6e6dc', 'testUser', 'downvote');
+
+        expect(result).toEqual({
+          msg: 'Answer downvoted successfully',
+          upVotes: [],
+          downVotes: ['testUser'],
+        });
+      });
+
+      test('should cancel the downvote if already downvoted', async () => {
+        mockingoose(AnswerModel).toReturn(
+          { ...ans1, upVotes: [], downVotes: [] },
+          'findOneAndUpdate',
+        );
+
+        const result = await addVoteToAnswer('65e9b58910afe6e94fc6e6dc', 'testUser', 'downvote');
+
+        expect(result).toEqual({
+          msg: 'Downvote cancelled successfully',
+          upVotes: [],
+          downVotes: [],
+        });
+      });
+
+      test('addVoteToAnswer should treat missing vote arrays as empty', async () => {
+        mockingoose(AnswerModel).toReturn(ans1, 'findOneAndUpdate');
+        const updateSpy = jest.spyOn(AnswerModel, 'findOneAndUpdate');
+
+        await addVoteToAnswer('65e9b58910afe6e94fc6e6dc', 'testUser', 'upvote');
+
+        expect(updateSpy).toHaveBeenLastCalledWith(
+          { _id: '65e9b58910afe6e94fc6e6dc', deletedAt: { $exists: false } },
+          [
+            {
+              $set: {
+                upVotes: expect.objectContaining({
+                  $cond: [
+                    { $in: ['testUser', { $ifNull: ['$upVotes', []] }] },
+                    expect.anything(),
+                    { $concatArrays: [{ $ifNull: ['$upVotes', []] }, ['testUser']] },
+                  ],
+                }),
+                downVotes: expect.anything(),
+              },
+            },
+          ],
+          { new: true },
+        );
+        updateSpy.mockRestore();
+      });
+
+      test('addVoteToAnswer should return an error if the answer is not found', async () => {
+        mockingoose(AnswerModel).toReturn(null, 'findOneAndUpdate');
+
+        const result = await addVoteToAnswer('65e9b58910afe6e94fc6e6dc', 'testUser', 'upvote');
+
+        expect(result).toEqual({ error: 'Answer not found' });
+      });
+
+      test('addVoteToAnswer should return an error when there is an issue with adding a downvote', async () => {
+        mockingoose(AnswerModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+        const result = await addVoteToAnswer('65e9b58910afe6e94fc6e6dc', 'testUser', 'downvote');
+
+        expect(result).toEqual({ error: 'Error when adding downvote to answer' });
+      });
+    });
   });
 
   describe('Tag model', () => {
@@ -703,13 +1226,29 @@ describe('application module', () => {
 
     describe('processTags', () => {
       test('processTags should return the tags of tag names in the collection', async () => {
-        mockingoose(Tags).toReturn(tag1, 'findOne');
+        mockingoose(Tags).toReturn(
+          (query: { getQuery: () => { $or: { name: string }[] } }) =>
+            [tag1, tag2].find(t => t.name === query.getQuery().$or[0].name),
+          'findOne',
+        );
 
         const result = await processTags([tag1, tag2]);
 
         expect(result.length).toEqual(2);
         expect(result[0]._id).toEqual(tag1._id);
-        expect(result[1]._id).toEqual(tag1._id);
+        expect(result[1]._id).toEqual(tag2._id);
+      });
+
+      test('processTags should resolve synonyms and return each tag once', async () => {
+        mockingoose(Tags).toReturn({ ...tag2, synonyms: ['js'] }, 'findOne');
+
+        const result = await processTags([
+          { name: 'js', description: 'user added tag' },
+          { name: 'javascript', description: 'user added tag' },
+        ]);
+
+        expect(result.length).toEqual(1);
+        expect(result[0].name).toEqual('javascript');
       });
 
       test('processTags should return a list of new tags ids if they do not exist in the collection', async () => {
@@ -818,6 +1357,42 @@ describe('application module', () => {
       });
     });
 
+    describe('isPostOwnerOrAsker', () => {
+      test('isPostOwnerOrAsker should be true for the asker of a question', async () => {
+        mockingoose(QuestionModel).toReturn(QUESTIONS[0], 'findOne');
+
+        const result = await isPostOwnerOrAsker(
+          QUESTIONS[0]._id?.toString() as string,
+          'question',
+          QUESTIONS[0].askedBy,
+        );
+
+        expect(result).toBe(true);
+      });
+
+      test('isPostOwnerOrAsker should be true for the asker of the question of an answer', async () => {
+        mockingoose(AnswerModel).toReturn(null, 'findOne');
+        mockingoose(QuestionModel).toReturn(QUESTIONS[0], 'findOne');
+
+        const result = await isPostOwnerOrAsker(
+          new ObjectId().toString(),
+          'answer',
+          QUESTIONS[0].askedBy,
+        );
+
+        expect(result).toBe(true);
+      });
+
+      test('isPostOwnerOrAsker should be false for other users', async () => {
+        mockingoose(AnswerModel).toReturn(null, 'findOne');
+        mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+        const result = await isPostOwnerOrAsker(new ObjectId().toString(), 'answer', 'stranger');
+
+        expect(result).toBe(false);
+      });
+    });
+
     describe('addComment', () => {
       test('addComment should return the updated question when given `question`', async () => {
         // copy the question to avoid modifying the original
@@ -883,5 +1458,229 @@ describe('application module', () => {
         }
       });
     });
+
+    describe('editComment', () => {
+      test('editComment should update the text and record a revision', async () => {
+        mockingoose(CommentModel).toReturn(com1, 'findOne');
+        mockingoose(CommentModel).toReturn({ ...com1, text: 'edited' }, 'findOneAndUpdate');
+
+        const result = (await editComment(
+          '65e9b58910afe6e94fc6e6de',
+          'com_by1',
+          'edited',
+        )) as Comment;
+
+        expect(result.text).toEqual('edited');
+      });
+
+      test('editComment should return an error if the user did not write the comment', async () => {
+        mockingoose(CommentModel).toReturn(com1, 'findOne');
+
+        const result = await editComment('65e9b58910afe6e94fc6e6de', 'com_by2', 'edited');
+
+        expect(result).toEqual({ error: 'Only the author can edit this comment' });
+      });
+
+      test('editComment should return an object with error if findOne throws an error', async () => {
+        mockingoose(CommentModel).toReturn(new Error('error'), 'findOne');
+
+        const result = await editComment('65e9b58910afe6e94fc6e6de', 'com_by1', 'edited');
+
+        expect(result).toEqual({ error: 'Error when editing a comment' });
+      });
+    });
+
+    describe('deleteComment', () => {
+      test('deleteComment should remove the comment from an answer and mark it as deleted', async () => {
+        mockingoose(CommentModel).toReturn(com1, 'findOne');
+        mockingoose(AnswerModel).toReturn(ans1, 'findOneAndUpdate');
+        mockingoose(CommentModel).toReturn(
+          { ...com1, deletedAt: new Date('2024-06-06') },
+          'findOneAndUpdate',
+        );
+
+        const result = (await deleteComment(
+          '65e9b58910afe6e94fc6e6dc',
+          'answer',
+          '65e9b58910afe6e94fc6e6de',
+          'com_by1',
+        )) as Comment;
+
+        expect(result.deletedAt).toEqual(new Date('2024-06-06'));
+      });
+
+      test('deleteComment should return an error if the comment is not on the question', async () => {
+        mockingoose(CommentModel).toReturn(com1, 'findOne');
+        mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+
+        const result = await deleteComment(
+          '65e9b58910afe6e94fc6e6dc',
+          'question',
+          '65e9b58910afe6e94fc6e6de',
+          'com_by1',
+        );
+
+        expect(result).toEqual({ error: 'Comment not found' });
+      });
+
+      test('deleteComment should return an error if the user did not write the comment', async () => {
+        mockingoose(CommentModel).toReturn(com1, 'findOne');
+
+        const result = await deleteComment(
+          '65e9b58910afe6e94fc6e6dc',
+          'question',
+          '65e9b58910afe6e94fc6e6de',
+          'com_by2',
+        );
+
+        expect(result).toEqual({ error: 'Only the author can delete this comment' });
+      });
+    });
+
+    describe('addVoteToComment', () => {
+      test('addVoteToComment should upvote a comment', async () => {
+        mockingoose(CommentModel).toReturn(
+          { ...com1, upVotes: ['testUser'], downVotes: [] },
+          'findOneAndUpdate',
+        );
+
+        const result = await addVoteToComment('65e9b58910afe6e94fc6e6de', 'testUser', 'upvote');
+
+        expect(result).toEqual({
+          msg: 'Comment upvoted successfully',
+          upVotes: ['testUser'],
+          downVotes: [],
+        });
+      });
+
+      test('addVoteToComment should return an error if the comment is not found', async () => {
+        mockingoose(CommentModel).toReturn(null, 'findOneAndUpdate');
+
+        const result = await addVoteToComment('65e9b58910afe6e94fc6e6de', 'testUser', 'upvote');
+
+        expect(result).toEqual({ error: 'Comment not found' });
+      });
+
+      test('addVoteToComment should return an error when there is an issue with adding an upvote', async () => {
+        mockingoose(CommentModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+        const result = await addVoteToComment('65e9b58910afe6e94fc6e6de', 'testUser', 'upvote');
+
+        expect(result).toEqual({ error: 'Error when adding upvote to comment' });
+      });
+    });
+  });
+
+  describe('User profile', () => {
+    describe('getUserProfile', () => {
+      test('getUserProfile should return the activity of the user', async () => {
+        QuestionModel.schema.path('answers', Object);
+        QuestionModel.schema.path('tags', Object);
+        const question = {
+          ...QUESTIONS[0],
+          answers: [ans1._id],
+          comments: [com1._id],
+          acceptedAnswer: ans1._id,
+          upVotes: ['voter1'],
+        };
+        mockingoose(UserModel).toReturn(
+          { username: 'ansBy1', creationDateTime: new Date('2023-11-01'), reputation: 26 },
+          'findOne',
+        );
+        mockingoose(QuestionModel).toReturn([question], 'find');
+        mockingoose(AnswerModel).toReturn(
+          [{ ...ans1, upVotes: ['voter1', 'voter2'], downVotes: ['voter3'] }],
+          'find',
+        );
+        mockingoose(CommentModel).toReturn([{ ...com1, upVotes: ['voter1'] }], 'find');
+
+        const result = (await getUserProfile('ansBy1')) as UserProfile;
+
+        expect(result.username).toEqual('ansBy1');
+        expect(result.reputation).toEqual(26);
+        expect(result.role).toEqual('user');
+        expect(result.questions).toHaveLength(1);
+        expect(result.questions[0]).toMatchObject({
+          title: question.title,
+          score: 1,
+          answerCount: 1,
+          resolved: true,
+        });
+        expect(result.answers).toHaveLength(1);
+        expect(result.answers[0]).toMatchObject({
+          questionTitle: question.title,
+          score: 1,
+          accepted: true,
+        });
+        expect(result.comments[0]).toMatchObject({ text: 'com1', score: 1 });
+        expect(result.votesReceived).toEqual({ upVotes: 4, downVotes: 1 });
+        // The mocked question is both asked and answered by the user, so its tags count twice
+        expect(result.topTags).toEqual([
+          { name: 'android', count: 2 },
+          { name: 'javascript', count: 2 },
+        ]);
+      });
+
+      test('getUserProfile should leave out answers to deleted questions', async () => {
+        mockingoose(UserModel).toReturn({ username: 'ansBy1' }, 'findOne');
+        mockingoose(QuestionModel).toReturn([], 'find');
+        mockingoose(AnswerModel).toReturn([ans1], 'find');
+        mockingoose(CommentModel).toReturn([], 'find');
+
+        const result = (await getUserProfile('ansBy1')) as UserProfile;
+
+        expect(result.answers).toEqual([]);
+        expect(result.topTags).toEqual([]);
+      });
+
+      test('getUserProfile should leave out comments on deleted questions and answers', async () => {
+        mockingoose(UserModel).toReturn({ username: 'com_by1' }, 'findOne');
+        mockingoose(QuestionModel).toReturn([], 'find');
+        mockingoose(AnswerModel).toReturn([{ ...ans1, comments: [com1._id] }], 'find');
+        mockingoose(CommentModel).toReturn([{ ...com1, upVotes: ['voter1'] }], 'find');
+
+        const result = (await getUserProfile('com_by1')) as UserProfile;
+
+        expect(result.comments).toEqual([]);
+        expect(result.votesReceived).toEqual({ upVotes: 0, downVotes: 0 });
+      });
+
+      test('getUserProfile should only find posts that are not hidden', async () => {
+        mockingoose(UserModel).toReturn({ username: 'com_by1' }, 'findOne');
+        mockingoose(QuestionModel).toReturn([], 'find');
+        mockingoose(AnswerModel).toReturn([], 'find');
+        mockingoose(CommentModel).toReturn([], 'find');
+        const questionFindSpy = jest.spyOn(QuestionModel, 'find');
+        const commentFindSpy = jest.spyOn(CommentModel, 'find');
+
+        await getUserProfile('com_by1');
+
+        expect(questionFindSpy).toHaveBeenCalledWith(
+          expect.objectContaining({ askedBy: 'com_by1', hiddenAt: { $exists: false } }),
+        );
+        expect(commentFindSpy).toHaveBeenCalledWith(
+          expect.objectContaining({ commentBy: 'com_by1', hiddenAt: { $exists: false } }),
+        );
+        questionFindSpy.mockRestore();
+        commentFindSpy.mockRestore();
+      });
+
+      test('getUserProfile should return an error if the user does not exist', async () => {
+        mockingoose(UserModel).toReturn(null, 'findOne');
+
+        const result = await getUserProfile('nobody');
+
+        expect(result).toEqual({ error: 'User not found' });
+      });
+
+      test('getUserProfile should return an object with error if find throws an error', async () => {
+        mockingoose(UserModel).toReturn({ username: 'ansBy1' }, 'findOne');
+        mockingoose(QuestionModel).toReturn(new Error('error'), 'find');
+
+        const result = await getUserProfile('ansBy1');
+
+        expect(result).toEqual({ error: 'Error when fetching the user profile' });
+      });
+    });
   });
 });
@@ -0,0 +1,186 @@
+import mongoose from 'mongoose';
+import supertest from 'supertest';
+import jwt from 'jsonwebtoken';
+import { app } from '../app';
+import * as attachmentOperations from '../models/attachmentOperations';
+import UserModel from '../models/users';
+import { Attachment } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const saveAttachmentSpy = jest.spyOn(attachmentOperations, 'saveAttachment');
+const getAttachmentSpy = jest.spyOn(attachmentOperations, 'getAttachment');
+const readContentSpy = jest.spyOn(attachmentOperations, 'readAttachmentContent');
+
+const authUser = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6aa'),
+  username: 'user1',
+  email: 'user1@email.com',
+  password: 'dummypassword',
+  creationDateTime: new Date('2024-06-01'),
+};
+const AUTH_TOKEN = jwt.sign({ userId: authUser._id }, process.env.JWT_SECRET as string);
+const ATTACHMENT_ID = '65e9b58910afe6e94fc6e6df';
+
+const pngHeader = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+
+const mockImage: Attachment = {
+  _id: new mongoose.Types.ObjectId(ATTACHMENT_ID),
+  hash: 'a'.repeat(64),
+  filename: 'screenshot.png',
+  contentType: 'image/png',
+  size: pngHeader.length,
+  thumbnail: true,
+  uploadedBy: 'user1',
+  uploadedAt: new Date('2024-06-03'),
+};
+
+describe('Attachment controller', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+    saveAttachmentSpy.mockClear();
+    getAttachmentSpy.mockClear();
+    readContentSpy.mockClear();
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  describe('POST /upload', () => {
+    it('should save the uploaded file with the type detected from its content', async () => {
+      saveAttachmentSpy.mockResolvedValueOnce(mockImage);
+
+      const response = await supertest(app)
+        .post('/attachment/upload')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .attach('file', pngHeader, { filename: 'screenshot.png', contentType: 'text/html' });
+
+      expect(response.status).toBe(200);
+      expect(response.body._id).toBe(ATTACHMENT_ID);
+      expect(saveAttachmentSpy).toHaveBeenCalledWith({
+        filename: 'screenshot.png',
+        contentType: 'image/png',
+        data: pngHeader,
+        uploadedBy: 'user1',
+      });
+    });
+
+    it('should return 415 if the file is not an image, PDF document or text file', async () => {
+      const response = await supertest(app)
+        .post('/attachment/upload')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .attach('file', Buffer.from([0x4d, 0x5a, 0x90, 0x00]), 'setup.exe');
+
+      expect(response.status).toBe(415);
+      expect(response.text).toBe('Only images, PDF documents and text files can be attached');
+      expect(saveAttachmentSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 413 if the file is too large', async () => {
+      const response = await supertest(app)
+        .post('/attachment/upload')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .attach('file', Buffer.alloc(5 * 1024 * 1024 + 1, 'a'), 'huge.log');
+
+      expect(response.status).toBe(413);
+      expect(saveAttachmentSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if no file is uploaded', async () => {
+      const response = await supertest(app)
+        .post('/attachment/upload')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .field('note', 'no file');
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should return 401 if the bearer token is missing', async () => {
+      const response = await supertest(app)
+        .post('/attachment/upload')
+        .attach('file', pngHeader, 'screenshot.png');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 500 if saving the file fails', async () => {
+      saveAttachmentSpy.mockResolvedValueOnce({ error: 'Error when saving an attachment' });
+
+      const response = await supertest(app)
+        .post('/attachment/upload')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .attach('file', Buffer.from('a log line\n'), 'server.log');
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when uploading attachment: Error when saving an attachment',
+      );
+    });
+  });
+
+  describe('GET /:id', () => {
+    it('should send an image inline with its detected type', async () => {
+      getAttachmentSpy.mockResolvedValueOnce(mockImage);
+      readContentSpy.mockResolvedValueOnce(pngHeader);
+
+      const response = await supertest(app).get(`/attachment/${ATTACHMENT_ID}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('image/png');
+      expect(response.headers['content-disposition']).toBe('inline');
+      expect(response.headers['x-content-type-options']).toBe('nosniff');
+      expect(readContentSpy).toHaveBeenCalledWith(mockImage, false);
+    });
+
+    it('should send other files as downloads under their names', async () => {
+      getAttachmentSpy.mockResolvedValueOnce({
+        ...mockImage,
+        filename: 'server.log',
+        contentType: 'text/plain',
+        thumbnail: false,
+      });
+      readContentSpy.mockResolvedValueOnce(Buffer.from('a log line\n'));
+
+      const response = await supertest(app).get(`/attachment/${ATTACHMENT_ID}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('text/plain; charset=utf-8');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="server.log"');
+      expect(response.text).toBe('a log line\n');
+    });
+
+    it('should send the thumbnail of an image', async () => {
+      getAttachmentSpy.mockResolvedValueOnce(mockImage);
+      readContentSpy.mockResolvedValueOnce(Buffer.from('thumbnail'));
+
+      const response = await supertest(app).get(`/attachment/${ATTACHMENT_ID}/thumbnail`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('image/webp');
+      expect(readContentSpy).toHaveBeenCalledWith(mockImage, true);
+    });
+
+    it('should return 404 if the attachment does not exist', async () => {
+      getAttachmentSpy.mockResolvedValueOnce({ error: 'Attachment not found' });
+
+      const response = await supertest(app).get(`/attachment/${ATTACHMENT_ID}`);
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Attachment not found');
+    });
+
+    it('should return 400 if the ID is invalid', async () => {
+      const response = await supertest(app).get('/attachment/not-an-id');
+
+      expect(response.status).toBe(400);
+      expect(getAttachmentSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import {
+  attachToPost,
+  readAttachmentContent,
+  removePostAttachments,
+  removeUnattachedAttachments,
+  saveAttachment,
+} from '../models/attachmentOperations';
+import AttachmentModel from '../models/attachments';
+import getAttachmentStorage from '../utils/attachmentConfig';
+import * as attachments from '../utils/attachments';
+import { Attachment } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+// The storage is created on first use, so the tests keep attachments in memory
+process.env.ATTACHMENT_STORAGE = 'memory';
+
+const QID = '65e9b58910afe6e94fc6e6dc';
+const ATTACHMENT_ID = '65e9b58910afe6e94fc6e6df';
+
+const logFile = Buffer.from('ERROR Connection refused\n');
+const LOG_HASH = crypto.createHash('sha256').update(logFile).digest('hex');
+
+const logAttachment: Attachment = {
+  _id: new mongoose.Types.ObjectId(ATTACHMENT_ID),
+  hash: LOG_HASH,
+  filename: 'server.log',
+  contentType: 'text/plain',
+  size: logFile.length,
+  thumbnail: false,
+  uploadedBy: 'user1',
+  uploadedAt: new Date('2024-06-03'),
+};
+
+describe('Attachment model', () => {
+  beforeEach(async () => {
+    mockingoose.resetAll();
+    jest.restoreAllMocks();
+    await getAttachmentStorage().remove(LOG_HASH);
+  });
+
+  describe('saveAttachment', () => {
+    test('saveAttachment should store new content under its hash', async () => {
+      mockingoose(AttachmentModel).toReturn(null, 'findOne');
+
+      const result = await saveAttachment({
+        filename: 'server.log',
+        contentType: 'text/plain',
+        data: logFile,
+        uploadedBy: 'user1',
+      });
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      expect(result.hash).toBe(LOG_HASH);
+      expect(result.size).toBe(logFile.length);
+      expect(result.thumbnail).toBe(false);
+      expect(result.post).toBeUndefined();
+      expect((await getAttachmentStorage().read(LOG_HASH))?.toString()).toBe(logFile.toString());
+    });
+
+    test('saveAttachment should store a thumbnail along with images', async () => {
+      mockingoose(AttachmentModel).toReturn(null, 'findOne');
+      const thumbnailSpy = jest
+        .spyOn(attachments, 'createThumbnail')
+        .mockResolvedValueOnce(Buffer.from('thumbnail'));
+      const image = Buffer.from('\x89PNG\r\n\x1a\nimage');
+      const hash = crypto.createHash('sha256').update(image).digest('hex');
+
+      const result = await saveAttachment({
+        filename: 'screenshot.png',
+        contentType: 'image/png',
+        data: image,
+        uploadedBy: 'user1',
+      });
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      expect(thumbnailSpy).toHaveBeenCalledWith(image);
+      expect(result.thumbnail).toBe(true);
+      expect((await getAttachmentStorage().read(`${hash}.thumbnail`))?.toString()).toBe(
+        'thumbnail',
+      );
+    });
+
+    test('saveAttachment should keep images that cannot be decoded without a thumbnail', async () => {
+      mockingoose(AttachmentModel).toReturn(null, 'findOne');
+      jest.spyOn(attachments, 'createThumbnail').mockRejectedValueOnce(new Error('corrupt'));
+
+      const result = await saveAttachment({
+        filename: 'broken.png',
+        contentType: 'image/png',
+        data: Buffer.from('\x89PNG\r\n\x1a\nbroken'),
+        uploadedBy: 'user1',
+      });
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      expect(result.thumbnail).toBe(false);
+    });
+
+    test('saveAttachment should return the pending upload of the same content by the same user', async () => {
+      mockingoose(AttachmentModel).toReturn(logAttachment, 'findOne');
+
+      const result = await saveAttachment({
+        filename: 'copy.log',
+        contentType: 'text/plain',
+        data: logFile,
+        uploadedBy: 'user1',
+      });
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      expect(result._id?.toString()).toBe(ATTACHMENT_ID);
+      expect(result.filename).toBe('server.log');
+      // The content is shared rather than stored again
+      expect(await getAttachmentStorage().read(LOG_HASH)).toBeNull();
+    });
+
+    test('saveAttachment should return an error if the database fails', async () => {
+      mockingoose(AttachmentModel).toReturn(new Error('Database error'), 'findOne');
+
+      const result = await saveAttachment({
+        filename: 'server.log',
+        contentType: 'text/plain',
+        data: logFile,
+        uploadedBy: 'user1',
+      });
+
+      expect(result).toEqual({ error: 'Error when saving an attachment' });
+    });
+  });
+
+  describe('readAttachmentContent', () => {
+    test('readAttachmentContent should read the full content of files without a thumbnail', async () => {
+      await getAttachmentStorage().save(LOG_HASH, logFile);
+
+      const result = await readAttachmentContent(logAttachment, true);
+
+      expect(result).toEqual(logFile);
+    });
+
+    test('readAttachmentContent should return an error if the content is missing', async () => {
+      const result = await readAttachmentContent(logAttachment, false);
+
+      expect(result).toEqual({ error: 'Attachment not found' });
+    });
+  });
+
+  describe('attachToPost', () => {
+    test('attachToPost should tie the unattached uploads of the user embedded in the text', async () => {
+      mockingoose(AttachmentModel).toReturn({ modifiedCount: 1 }, 'updateMany');
+      const updateSpy = jest.spyOn(AttachmentModel, 'updateMany');
+
+      const result = await attachToPost(
+        `See [the log](attachment://${ATTACHMENT_ID})`,
+        'user1',
+        'question',
+        QID,
+      );
+
+      expect(result).toBe(1);
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: { $in: [ATTACHMENT_ID] }, uploadedBy: 'user1', post: { $exists: false } },
+        { $set: { postType: 'question', post: QID } },
+      );
+    });
+
+    test('attachToPost should do nothing if the text embeds no attachment', async () => {
+      const updateSpy = jest.spyOn(AttachmentModel, 'updateMany');
+
+      const result = await attachToPost('No files here', 'user1', 'answer', QID);
+
+      expect(result).toBe(0);
+      expect(updateSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removePostAttachments', () => {
+    test('removePostAttachments should remove the content no other attachment shares', async () => {
+      await getAttachmentStorage().save(LOG_HASH, logFile);
+      mockingoose(AttachmentModel).toReturn([logAttachment], 'find');
+      mockingoose(AttachmentModel).toReturn({ deletedCount: 1 }, 'deleteMany');
+      mockingoose(AttachmentModel).toReturn(0, 'countDocuments');
+
+      const result = await removePostAttachments([QID]);
+
+      expect(result).toBe(1);
+      expect(await getAttachmentStorage().read(LOG_HASH)).toBeNull();
+    });
+
+    test('removePostAttachments should keep the content other attachments share', async () => {
+      await getAttachmentStorage().save(LOG_HASH, logFile);
+      mockingoose(AttachmentModel).toReturn([logAttachment], 'find');
+      mockingoose(AttachmentModel).toReturn({ deletedCount: 1 }, 'deleteMany');
+      mockingoose(AttachmentModel).toReturn(1, 'countDocuments');
+
+      const result = await removePostAttachments([QID]);
+
+      expect(result).toBe(1);
+      expect(await getAttachmentStorage().read(LOG_HASH)).toEqual(logFile);
+    });
+
+    test('removePostAttachments should return an error if the database fails', async () => {
+      mockingoose(AttachmentModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await removePostAttachments([QID]);
+
+      expect(result).toEqual({ error: 'Error when removing the attachments of a post' });
+    });
+  });
+
+  describe('removeUnattachedAttachments', () => {
+    test('removeUnattachedAttachments should only remove old uploads without a post', async () => {
+      const findSpy = jest.spyOn(AttachmentModel, 'find');
+      mockingoose(AttachmentModel).toReturn([], 'find');
+      const before = new Date('2024-06-02');
+
+      const result = await removeUnattachedAttachments(before);
+
+      expect(result).toBe(0);
+      expect(findSpy).toHaveBeenCalledWith({
+        post: { $exists: false },
+        uploadedAt: { $lt: before },
+      });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import {
+  attachmentIdsOf,
+  createThumbnail,
+  detectContentType,
+  isAttachmentUrl,
+} from '../utils/attachments';
+import { createDiskStorage, createMemoryStorage } from '../utils/attachmentStorage';
+
+const AID = '65e9b58910afe6e94fc6e6dc';
+
+/**
+ * Creates a plain PNG image of the given size.
+ */
+const pngImage = (width: number, height: number): Promise<Buffer> =>
+  sharp({ create: { width, height, channels: 3, background: '#336699' } })
+    .png()
+    .toBuffer();
+
+describe('Attachments', () => {
+  describe('detectContentType', () => {
+    test('detectContentType should detect images from their content', async () => {
+      expect(detectContentType(await pngImage(2, 2))).toBe('image/png');
+      expect(detectContentType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0]))).toBe('image/jpeg');
+      expect(detectContentType(Buffer.from('GIF89a\x01\x00'))).toBe('image/gif');
+      expect(detectContentType(Buffer.from('RIFF\x00\x00\x00\x00WEBPVP8 '))).toBe('image/webp');
+    });
+
+    test('detectContentType should detect PDF documents and text files', () => {
+      expect(detectContentType(Buffer.from('%PDF-1.7\n'))).toBe('application/pdf');
+      expect(detectContentType(Buffer.from('2024-06-03 ERROR Connection refused ✗\n'))).toBe(
+        'text/plain',
+      );
+    });
+
+    test('detectContentType should reject other binary files and empty files', () => {
+      expect(detectContentType(Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03]))).toBeUndefined();
+      expect(detectContentType(Buffer.from([0xc3, 0x28]))).toBeUndefined();
+      expect(detectContentType(Buffer.alloc(0))).toBeUndefined();
+    });
+  });
+
+  describe('createThumbnail', () => {
+    test('createThumbnail should scale large images down to fit the thumbnail size', async () => {
+      const thumbnail = await createThumbnail(await pngImage(1280, 640));
+
+      const { width, height, format } = await sharp(thumbnail).metadata();
+      expect({ width, height, format }).toEqual({ width: 320, height: 160, format: 'webp' });
+    });
+
+    test('createThumbnail should keep the size of small images', async () => {
+      const thumbnail = await createThumbnail(await pngImage(40, 30));
+
+      const { width, height } = await sharp(thumbnail).metadata();
+      expect({ width, height }).toEqual({ width: 40, height: 30 });
+    });
+
+    test('createThumbnail should reject corrupt images', async () => {
+      await expect(createThumbnail(Buffer.from('\x89PNG\r\n\x1a\nnot an image'))).rejects.toThrow();
+    });
+  });
+
+  describe('attachment URLs', () => {
+    test('isAttachmentUrl should only accept attachment URLs with an ID', () => {
+      expect(isAttachmentUrl(`attachment://${AID}`)).toBe(true);
+      expect(isAttachmentUrl('attachment://../etc/passwd')).toBe(false);
+      expect(isAttachmentUrl(`https://attachment://${AID}`)).toBe(false);
+    });
+
+    test('attachmentIdsOf should list the attachments a text embeds once each', () => {
+      const text = `![screenshot](attachment://${AID}) and [log](attachment://${AID}), see also [x](https://a.io)`;
+
+      expect(attachmentIdsOf(text)).toEqual([AID]);
+    });
+  });
+
+  describe('storage', () => {
+    test('the memory storage should save, read and remove content', async () => {
+      const storage = createMemoryStorage();
+
+      await storage.save('abc', Buffer.from('content'));
+      expect((await storage.read('abc'))?.toString()).toBe('content');
+
+      await storage.remove('abc');
+      expect(await storage.read('abc')).toBeNull();
+    });
+
+    test('the disk storage should keep content in files of its directory', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+      const storage = createDiskStorage(path.join(dir, 'uploads'));
+
+      try {
+        await storage.save('abc', Buffer.from('content'));
+        expect(await fs.readFile(path.join(dir, 'uploads', 'abc'), 'utf8')).toBe('content');
+        expect((await storage.read('abc'))?.toString()).toBe('content');
+
+        await storage.remove('abc');
+        expect(await storage.read('abc')).toBeNull();
+        await expect(storage.remove('abc')).resolves.toBeUndefined();
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    test('the disk storage should refuse keys that point outside its directory', async () => {
+      const storage = createDiskStorage(os.tmpdir());
+
+      await expect(storage.read('../passwd')).rejects.toThrow('Invalid attachment key');
+    });
+  });
+});
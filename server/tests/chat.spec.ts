@@ -0,0 +1,202 @@
+import mongoose from 'mongoose';
+import supertest from 'supertest';
+import jwt from 'jsonwebtoken';
+import { app } from '../app';
+import * as util from '../models/chatOperations';
+import * as aiConfig from '../utils/aiConfig';
+import { createStubProvider } from '../utils/aiProviders';
+import UserModel from '../models/users';
+import { Conversation } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const getAIProviderSpy = jest.spyOn(aiConfig, 'default').mockReturnValue(createStubProvider());
+
+const authUser = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6aa'),
+  username: 'asker',
+  email: 'asker@email.com',
+  password: 'dummypassword',
+  creationDateTime: new Date('2024-06-01'),
+};
+const AUTH_TOKEN = jwt.sign({ userId: authUser._id }, process.env.JWT_SECRET as string);
+const CID = '65e9b58910afe6e94fc6e6ab';
+
+const mockConversation: Conversation = {
+  _id: new mongoose.Types.ObjectId(CID),
+  owner: 'asker',
+  title: 'React hooks',
+  messages: [{ role: 'user', content: 'React hooks', createdAt: new Date('2024-06-03') }],
+  createdAt: new Date('2024-06-03'),
+  updatedAt: new Date('2024-06-03'),
+};
+
+describe('Chat controller', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  describe('GET /getConversations', () => {
+    it('should return the conversations of the authenticated user', async () => {
+      const getConversationsSpy = jest.spyOn(util, 'getConversations').mockResolvedValueOnce([
+        {
+          _id: mockConversation._id,
+          owner: 'asker',
+          title: 'React hooks',
+          createdAt: mockConversation.createdAt,
+          updatedAt: mockConversation.updatedAt,
+        },
+      ]);
+
+      const response = await supertest(app)
+        .get('/chat/getConversations')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].title).toBe('React hooks');
+      expect(getConversationsSpy).toHaveBeenCalledWith('asker');
+    });
+
+    it('should return unauthorized if the bearer token is missing', async () => {
+      const response = await supertest(app).get('/chat/getConversations');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /getConversation/:cid', () => {
+    it('should return 404 if the user has no such conversation', async () => {
+      jest
+        .spyOn(util, 'getConversation')
+        .mockResolvedValueOnce({ error: 'Conversation not found' });
+
+      const response = await supertest(app)
+        .get(`/chat/getConversation/${CID}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return bad request if the conversation ID is invalid', async () => {
+      const response = await supertest(app)
+        .get('/chat/getConversation/invalid')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /sendMessage', () => {
+    it('should start a conversation and reply to it', async () => {
+      const createConversationSpy = jest
+        .spyOn(util, 'createConversation')
+        .mockResolvedValueOnce(mockConversation);
+      const addConversationMessageSpy = jest
+        .spyOn(util, 'addConversationMessage')
+        .mockImplementationOnce(async (cid, owner, message) => ({
+          ...mockConversation,
+          messages: [...mockConversation.messages, message],
+        }));
+
+      const response = await supertest(app)
+        .post('/chat/sendMessage')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ text: ' React hooks ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.messages).toHaveLength(2);
+      expect(createConversationSpy).toHaveBeenCalledWith(
+        'asker',
+        expect.objectContaining({ role: 'user', content: 'React hooks' }),
+      );
+      expect(addConversationMessageSpy).toHaveBeenCalledWith(
+        CID,
+        'asker',
+        expect.objectContaining({
+          role: 'assistant',
+          content: expect.stringContaining('React hooks'),
+        }),
+      );
+    });
+
+    it('should continue a conversation with its history', async () => {
+      const streamMock = jest.fn().mockResolvedValueOnce('Try asking about useEffect.');
+      getAIProviderSpy.mockReturnValueOnce({ complete: jest.fn(), stream: streamMock });
+      jest
+        .spyOn(util, 'addConversationMessage')
+        .mockResolvedValueOnce({
+          ...mockConversation,
+          messages: [
+            ...mockConversation.messages,
+            { role: 'assistant', content: 'How do hooks work?', createdAt: new Date() },
+            { role: 'user', content: 'More about effects', createdAt: new Date() },
+          ],
+        })
+        .mockResolvedValueOnce(mockConversation);
+
+      const response = await supertest(app)
+        .post('/chat/sendMessage')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ cid: CID, text: 'More about effects' });
+
+      expect(response.status).toBe(200);
+      expect(streamMock).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ role: 'system' }),
+          { role: 'user', content: 'React hooks' },
+          { role: 'assistant', content: 'How do hooks work?' },
+          { role: 'user', content: 'More about effects' },
+        ],
+        expect.any(Function),
+      );
+    });
+
+    it('should return 404 if the user has no such conversation', async () => {
+      jest
+        .spyOn(util, 'addConversationMessage')
+        .mockResolvedValueOnce({ error: 'Conversation not found' });
+
+      const response = await supertest(app)
+        .post('/chat/sendMessage')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ cid: CID, text: 'More about effects' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 500 if no reply could be generated', async () => {
+      getAIProviderSpy.mockReturnValueOnce({
+        complete: jest.fn(),
+        stream: jest.fn().mockRejectedValueOnce(new Error('Request timed out')),
+      });
+      jest.spyOn(util, 'createConversation').mockResolvedValueOnce(mockConversation);
+
+      const response = await supertest(app)
+        .post('/chat/sendMessage')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ text: 'React hooks' });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when generating reply: Request timed out');
+    });
+
+    it('should return bad request if the message is empty', async () => {
+      const response = await supertest(app)
+        .post('/chat/sendMessage')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ text: '   ' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
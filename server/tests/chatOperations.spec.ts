@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+import {
+  addConversationMessage,
+  createConversation,
+  getConversation,
+  getConversations,
+} from '../models/chatOperations';
+import ConversationModel from '../models/conversations';
+import { ConversationMessage } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const CID = '65e9b58910afe6e94fc6e6ab';
+
+const mockMessage: ConversationMessage = {
+  role: 'user',
+  content: 'How do React hooks work, and when should I write my own custom hooks instead?',
+  createdAt: new Date('2024-06-03'),
+};
+
+describe('Chat model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+    jest.clearAllMocks();
+  });
+
+  describe('createConversation', () => {
+    test('createConversation should title the conversation after its first message', async () => {
+      mockingoose(ConversationModel).toReturn({ _id: CID }, 'save');
+
+      const result = await createConversation('asker', mockMessage);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          owner: 'asker',
+          title: 'How do React hooks work, and when should I write my own cust…',
+          createdAt: mockMessage.createdAt,
+          updatedAt: mockMessage.createdAt,
+        }),
+      );
+    });
+  });
+
+  describe('addConversationMessage', () => {
+    test('addConversationMessage should append the message', async () => {
+      mockingoose(ConversationModel).toReturn(
+        { _id: CID, owner: 'asker', messages: [mockMessage] },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(ConversationModel, 'findOneAndUpdate');
+
+      const result = await addConversationMessage(CID, 'asker', mockMessage);
+
+      expect(result).toEqual(expect.objectContaining({ owner: 'asker' }));
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: CID, owner: 'asker' },
+        { $push: { messages: mockMessage }, $set: { updatedAt: mockMessage.createdAt } },
+        { new: true },
+      );
+    });
+
+    test('addConversationMessage should return an error for the conversation of another user', async () => {
+      mockingoose(ConversationModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await addConversationMessage(CID, 'someone', mockMessage);
+      expect(result).toEqual({ error: 'Conversation not found' });
+    });
+  });
+
+  describe('getConversation', () => {
+    test('getConversation should return an error if the conversation does not exist', async () => {
+      mockingoose(ConversationModel).toReturn(null, 'findOne');
+
+      const result = await getConversation(CID, 'asker');
+      expect(result).toEqual({ error: 'Conversation not found' });
+    });
+  });
+
+  describe('getConversations', () => {
+    test('getConversations should return the conversations of the user', async () => {
+      mockingoose(ConversationModel).toReturn(
+        [{ _id: new mongoose.Types.ObjectId(CID), owner: 'asker', title: 'React hooks' }],
+        'find',
+      );
+
+      const result = await getConversations('asker');
+      expect(result).toEqual([expect.objectContaining({ owner: 'asker', title: 'React hooks' })]);
+    });
+
+    test('getConversations should return an error if the operation fails', async () => {
+      mockingoose(ConversationModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await getConversations('asker');
+      expect(result).toEqual({ error: 'Error when fetching conversations' });
+    });
+  });
+});
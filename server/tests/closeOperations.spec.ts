@@ -0,0 +1,324 @@
+import mongoose from 'mongoose';
+import {
+  findPostingRestriction,
+  setQuestionLock,
+  voteToClose,
+  voteToReopen,
+} from '../models/closeOperations';
+import QuestionModel from '../models/questions';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const QID1 = '65e9b58910afe6e94fc6e6dc';
+const QID2 = '65e9b5a995b6c7045a30d823';
+const QID3 = '65e9b716ff0e892116b2de01';
+const AID = '65e9b58910afe6e94fc6e6dd';
+
+const closeVote = (username: string, reason: string, duplicateOf?: string) => ({
+  username,
+  reason,
+  duplicateOf,
+  createdAt: new Date('2024-06-10'),
+});
+
+describe('Close model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+    jest.restoreAllMocks();
+  });
+
+  describe('voteToClose', () => {
+    test('voteToClose should record the vote while too few users voted', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID1, closeVotes: [closeVote('user1', 'offTopic')] },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      const result = await voteToClose(QID1, 'user1', 'offTopic', undefined, 3);
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      expect(result.closure).toBeUndefined();
+      expect(updateSpy).toHaveBeenCalledTimes(1);
+      expect(updateSpy).toHaveBeenCalledWith(
+        {
+          '_id': QID1,
+          'deletedAt': { $exists: false },
+          'closure': { $exists: false },
+          'closeVotes.username': { $ne: 'user1' },
+        },
+        {
+          $push: {
+            closeVotes: {
+              username: 'user1',
+              reason: 'offTopic',
+              duplicateOf: undefined,
+              createdAt: expect.any(Date),
+            },
+          },
+        },
+        { new: true },
+      );
+    });
+
+    test('voteToClose should close the question for the most voted reason once enough users voted', async () => {
+      const votes = [
+        closeVote('user1', 'needsDetails'),
+        closeVote('user2', 'opinionBased'),
+        closeVote('user3', 'opinionBased'),
+      ];
+      mockingoose(QuestionModel).toReturn({ _id: QID1, closeVotes: votes }, 'findOneAndUpdate');
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      await voteToClose(QID1, 'user3', 'opinionBased', undefined, 3);
+
+      expect(updateSpy).toHaveBeenLastCalledWith(
+        { _id: QID1, closure: { $exists: false } },
+        {
+          $set: {
+            closure: {
+              reason: 'opinionBased',
+              duplicateOf: undefined,
+              closedBy: ['user1', 'user2', 'user3'],
+              closedAt: expect.any(Date),
+            },
+            closeVotes: [],
+            reopenVotes: [],
+          },
+        },
+        { new: true },
+      );
+    });
+
+    test('voteToClose should close a duplicate of the original of the question voted for', async () => {
+      mockingoose(QuestionModel).toReturn(
+        (query: mongoose.Query<unknown, unknown>) =>
+          query.getQuery()._id === QID2
+            ? { _id: QID2, closure: { reason: 'duplicate', duplicateOf: QID3 } }
+            : { _id: query.getQuery()._id },
+        'findOne',
+      );
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID1, closeVotes: [closeVote('mod', 'duplicate', QID3)] },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      await voteToClose(QID1, 'mod', 'duplicate', QID2, 1);
+
+      expect(updateSpy.mock.calls[0][1]).toMatchObject({
+        $push: { closeVotes: { duplicateOf: new mongoose.Types.ObjectId(QID3) } },
+      });
+      expect(updateSpy.mock.calls[1][1]).toMatchObject({
+        $set: {
+          closure: { reason: 'duplicate', duplicateOf: new mongoose.Types.ObjectId(QID3) },
+        },
+      });
+    });
+
+    test('voteToClose should close the question for the reason of a binding vote', async () => {
+      const votes = [
+        closeVote('user1', 'duplicate', QID2),
+        closeVote('user2', 'duplicate', QID2),
+        closeVote('mod', 'offTopic'),
+      ];
+      mockingoose(QuestionModel).toReturn({ _id: QID1, closeVotes: votes }, 'findOneAndUpdate');
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      await voteToClose(QID1, 'mod', 'offTopic', undefined, 1);
+
+      expect(updateSpy.mock.calls[1][1]).toMatchObject({
+        $set: {
+          closure: {
+            reason: 'offTopic',
+            duplicateOf: undefined,
+            closedBy: ['user1', 'user2', 'mod'],
+          },
+        },
+      });
+    });
+
+    test('voteToClose should close a duplicate of the question a binding vote chose', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: QID3 }, 'findOne');
+      const votes = [
+        closeVote('user1', 'duplicate', QID2),
+        closeVote('user2', 'duplicate', QID2),
+        closeVote('mod', 'duplicate', QID3),
+      ];
+      mockingoose(QuestionModel).toReturn({ _id: QID1, closeVotes: votes }, 'findOneAndUpdate');
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      await voteToClose(QID1, 'mod', 'duplicate', QID3, 1);
+
+      expect(updateSpy.mock.calls[1][1]).toMatchObject({
+        $set: {
+          closure: { reason: 'duplicate', duplicateOf: new mongoose.Types.ObjectId(QID3) },
+        },
+      });
+    });
+
+    test('voteToClose should not close a question as a duplicate of itself', async () => {
+      mockingoose(QuestionModel).toReturn(
+        (query: mongoose.Query<unknown, unknown>) =>
+          query.getQuery()._id === QID2
+            ? { _id: QID2, closure: { reason: 'duplicate', duplicateOf: QID1 } }
+            : { _id: query.getQuery()._id },
+        'findOne',
+      );
+
+      const result = await voteToClose(QID1, 'mod', 'duplicate', QID2, 1);
+
+      expect(result).toEqual({ error: 'A question cannot be a duplicate of itself' });
+    });
+
+    test('voteToClose should return an error if the original question does not exist', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await voteToClose(QID1, 'mod', 'duplicate', QID2, 1);
+
+      expect(result).toEqual({ error: 'Original question not found' });
+    });
+
+    test('voteToClose should return an error if the user already voted', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID1, closeVotes: [closeVote('user1', 'offTopic')] },
+        'findOne',
+      );
+
+      const result = await voteToClose(QID1, 'user1', 'offTopic', undefined, 3);
+
+      expect(result).toEqual({ error: 'Already voted to close this question' });
+    });
+
+    test('voteToClose should return an error if the question is already closed', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID1, closure: { reason: 'offTopic', closedBy: ['mod'] } },
+        'findOne',
+      );
+
+      const result = await voteToClose(QID1, 'user1', 'offTopic', undefined, 3);
+
+      expect(result).toEqual({ error: 'Question is already closed' });
+    });
+  });
+
+  describe('voteToReopen', () => {
+    test('voteToReopen should record the vote while too few users voted', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID1, closure: { reason: 'offTopic' }, reopenVotes: ['user1'] },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      const result = await voteToReopen(QID1, 'user1', 3);
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      expect(result.reopenVotes).toEqual(['user1']);
+      expect(updateSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('voteToReopen should reopen the question once enough users voted', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID1, closure: { reason: 'offTopic' }, reopenVotes: ['mod'] },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      await voteToReopen(QID1, 'mod', 1);
+
+      expect(updateSpy).toHaveBeenLastCalledWith(
+        { _id: QID1, closure: { $exists: true } },
+        { $unset: { closure: '' }, $set: { closeVotes: [], reopenVotes: [] } },
+        { new: true },
+      );
+    });
+
+    test('voteToReopen should return an error if the question is not closed', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn({ _id: QID1 }, 'findOne');
+
+      const result = await voteToReopen(QID1, 'user1', 3);
+
+      expect(result).toEqual({ error: 'Question is not closed' });
+    });
+
+    test('voteToReopen should return an error if the question does not exist', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await voteToReopen(QID1, 'user1', 3);
+
+      expect(result).toEqual({ error: 'Question not found' });
+    });
+  });
+
+  describe('setQuestionLock', () => {
+    test('setQuestionLock should lock the question with the reason', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID1, lock: { lockedBy: 'mod', reason: 'Edit war' } },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      const result = await setQuestionLock(QID1, 'mod', true, 'Edit war');
+
+      expect('error' in result).toBe(false);
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: QID1, deletedAt: { $exists: false } },
+        { $set: { lock: { lockedBy: 'mod', lockedAt: expect.any(Date), reason: 'Edit war' } } },
+        { new: true },
+      );
+    });
+
+    test('setQuestionLock should unlock the question', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: QID1 }, 'findOneAndUpdate');
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+
+      await setQuestionLock(QID1, 'mod', false);
+
+      expect(updateSpy.mock.calls[0][1]).toEqual({ $unset: { lock: '' } });
+    });
+
+    test('setQuestionLock should return an error if the question does not exist', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await setQuestionLock(QID1, 'mod', true);
+
+      expect(result).toEqual({ error: 'Question not found' });
+    });
+  });
+
+  describe('findPostingRestriction', () => {
+    test('findPostingRestriction should allow posting on an open question', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: QID1 }, 'findOne');
+
+      expect(await findPostingRestriction(QID1, 'question')).toBeUndefined();
+    });
+
+    test('findPostingRestriction should not allow posting on a closed question', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID1, closure: { reason: 'offTopic' } },
+        'findOne',
+      );
+
+      expect(await findPostingRestriction(QID1, 'question')).toBe('Question is closed');
+    });
+
+    test('findPostingRestriction should find the question of an answer', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: QID1, lock: { lockedBy: 'mod' } }, 'findOne');
+      const findOneSpy = jest.spyOn(QuestionModel, 'findOne');
+
+      const result = await findPostingRestriction(AID, 'answer');
+
+      expect(result).toBe('Question is locked');
+      expect(findOneSpy).toHaveBeenCalledWith({ answers: new mongoose.Types.ObjectId(AID) });
+    });
+  });
+});
@@ -1,14 +1,37 @@
 import mongoose from 'mongoose';
 import supertest from 'supertest';
+import jwt from 'jsonwebtoken';
 import { app } from '../app';
 import * as util from '../models/application';
+import * as notifications from '../utils/notifications';
+import * as moderationOperations from '../models/moderationOperations';
+import UserModel from '../models/users';
+import QuestionModel from '../models/questions';
 import { Question } from '../types';
 
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
 const saveCommentSpy = jest.spyOn(util, 'saveComment');
 const addCommentSpy = jest.spyOn(util, 'addComment');
 const popDocSpy = jest.spyOn(util, 'populateDocument');
+const notifyUsersSpy = jest.spyOn(notifications, 'notifyUsers').mockResolvedValue();
+
+const authUser = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6aa'),
+  username: 'dummyUserId',
+  email: 'dummy@email.com',
+  password: 'dummypassword',
+  creationDateTime: new Date('2024-06-01'),
+  reputation: 200,
+};
+const AUTH_TOKEN = jwt.sign({ userId: authUser._id }, process.env.JWT_SECRET as string);
 
 describe('POST /addComment', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
   afterEach(async () => {
     await mongoose.connection.close(); // Ensure the connection is properly closed
   });
@@ -67,7 +90,10 @@ describe('POST /addComment', () => {
       comments: [mockComment],
     });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual({
@@ -76,6 +102,9 @@ describe('POST /addComment', () => {
       commentBy: 'dummyUserId',
       commentDateTime: mockComment.commentDateTime.toISOString(),
     });
+    expect(notifyUsersSpy).toHaveBeenCalledWith(expect.anything(), [
+      { type: 'comment', actor: 'dummyUserId', post: validQid.toString(), postType: 'question' },
+    ]);
   });
 
   it('should add a new comment to the answer', async () => {
@@ -116,7 +145,10 @@ describe('POST /addComment', () => {
       comments: [mockComment],
     });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual({
@@ -136,7 +168,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -152,7 +187,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -170,7 +208,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -187,7 +228,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -205,7 +249,24 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid comment body');
+  });
+
+  it('should return bad request error if text property of comment is not a string', async () => {
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        id: new mongoose.Types.ObjectId().toString(),
+        type: 'answer',
+        comment: { text: 1, commentBy: 'dummyUserId', commentDateTime: new Date('2024-06-03') },
+      });
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid comment body');
@@ -221,12 +282,130 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
   });
 
+  it('should return forbidden error if commentBy does not match the authenticated user', async () => {
+    const mockReqBody = {
+      id: new mongoose.Types.ObjectId().toString(),
+      type: 'question',
+      comment: {
+        text: 'This is a test comment',
+        commentBy: 'someoneElse',
+        commentDateTime: new Date('2024-06-03'),
+      },
+    };
+
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Cannot post a comment as another user');
+  });
+
+  it('should return forbidden error if the user lacks the reputation to comment', async () => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 1 }, 'findOne');
+    jest.spyOn(util, 'isPostOwnerOrAsker').mockResolvedValueOnce(false);
+    saveCommentSpy.mockClear();
+    const mockReqBody = {
+      id: new mongoose.Types.ObjectId().toString(),
+      type: 'question',
+      comment: {
+        text: 'This is a test comment',
+        commentBy: 'dummyUserId',
+        commentDateTime: new Date('2024-06-03'),
+      },
+    };
+
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Commenting requires at least 50 reputation');
+    expect(saveCommentSpy).not.toHaveBeenCalled();
+  });
+
+  it('should let a new user comment on their own question', async () => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 1 }, 'findOne');
+    const validQid = new mongoose.Types.ObjectId();
+    const ownerSpy = jest.spyOn(util, 'isPostOwnerOrAsker').mockResolvedValueOnce(true);
+    const mockComment = {
+      _id: new mongoose.Types.ObjectId(),
+      text: 'This is a test comment',
+      commentBy: 'dummyUserId',
+      commentDateTime: new Date('2024-06-03'),
+    };
+    saveCommentSpy.mockResolvedValueOnce(mockComment);
+    addCommentSpy.mockResolvedValueOnce({
+      _id: validQid,
+      title: 'This is a test question',
+      text: 'This is a test question',
+      tags: [],
+      askedBy: 'dummyUserId',
+      askDateTime: new Date('2024-06-03'),
+      views: [],
+      upVotes: [],
+      downVotes: [],
+      answers: [],
+      comments: [mockComment._id],
+    } as Question);
+    popDocSpy.mockResolvedValueOnce({
+      _id: validQid,
+      title: 'This is a test question',
+      text: 'This is a test question',
+      tags: [],
+      askedBy: 'dummyUserId',
+      askDateTime: new Date('2024-06-03'),
+      views: [],
+      upVotes: [],
+      downVotes: [],
+      answers: [],
+      comments: [mockComment],
+    });
+
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        id: validQid.toString(),
+        type: 'question',
+        comment: {
+          text: 'This is a test comment',
+          commentBy: 'dummyUserId',
+          commentDateTime: new Date('2024-06-03'),
+        },
+      });
+
+    expect(response.status).toBe(200);
+    expect(ownerSpy).toHaveBeenCalledWith(validQid.toString(), 'question', 'dummyUserId');
+  });
+
+  it('should return unauthorized error if the bearer token is missing', async () => {
+    const mockReqBody = {
+      id: new mongoose.Types.ObjectId().toString(),
+      type: 'question',
+      comment: {
+        text: 'This is a test comment',
+        commentBy: 'dummyUserId',
+        commentDateTime: new Date('2024-06-03'),
+      },
+    };
+
+    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+
+    expect(response.status).toBe(401);
+  });
+
   it('should return bad request error if commentDateTime property missing', async () => {
     const mockReqBody = {
       id: 'dummyQuestionId',
@@ -237,14 +416,19 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
   });
 
   it('should return bad request error if request body is missing', async () => {
-    const response = await supertest(app).post('/comment/addComment');
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -261,7 +445,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid ID format');
@@ -281,7 +468,10 @@ describe('POST /addComment', () => {
 
     saveCommentSpy.mockResolvedValueOnce({ error: 'Error when saving a comment' });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when adding comment: Error when saving a comment');
@@ -312,7 +502,10 @@ describe('POST /addComment', () => {
       error: 'Error when adding comment',
     });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when adding comment: Error when adding comment');
@@ -356,9 +549,341 @@ describe('POST /addComment', () => {
     addCommentSpy.mockResolvedValueOnce(mockQuestion);
     popDocSpy.mockResolvedValueOnce({ error: 'Error when populating document' });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when adding comment: Error when populating document');
   });
+
+  it('should return forbidden if the question is locked', async () => {
+    mockingoose(QuestionModel).toReturn(
+      { _id: new mongoose.Types.ObjectId(), lock: { lockedBy: 'mod', lockedAt: new Date() } },
+      'findOne',
+    );
+    saveCommentSpy.mockClear();
+
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        id: new mongoose.Types.ObjectId().toString(),
+        type: 'answer',
+        comment: {
+          text: 'This is a test comment',
+          commentBy: 'dummyUserId',
+          commentDateTime: new Date(),
+        },
+      });
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Question is locked');
+    expect(saveCommentSpy).not.toHaveBeenCalled();
+    mockingoose(QuestionModel).reset('findOne');
+  });
+});
+
+describe('POST /editComment', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should edit a comment and emit its question', async () => {
+    const validQid = new mongoose.Types.ObjectId();
+    const validCid = new mongoose.Types.ObjectId();
+    const mockComment = {
+      _id: validCid,
+      text: 'Edited comment',
+      commentBy: 'dummyUserId',
+      commentDateTime: new Date('2024-06-03'),
+    };
+
+    const editCommentSpy = jest.spyOn(util, 'editComment').mockResolvedValueOnce(mockComment);
+    popDocSpy.mockResolvedValueOnce({
+      _id: validQid,
+      title: 'This is a test question',
+      text: 'This is a test question',
+      tags: [],
+      askedBy: 'dummyUserId',
+      askDateTime: new Date('2024-06-03'),
+      views: [],
+      upVotes: [],
+      downVotes: [],
+      answers: [],
+      comments: [mockComment],
+    });
+
+    const response = await supertest(app)
+      .post('/comment/editComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        id: validQid.toString(),
+        type: 'question',
+        cid: validCid.toString(),
+        text: 'Edited comment',
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.text).toBe('Edited comment');
+    expect(editCommentSpy).toHaveBeenCalledWith(
+      validCid.toString(),
+      'dummyUserId',
+      'Edited comment',
+      false,
+    );
+    expect(popDocSpy).toHaveBeenLastCalledWith(validQid.toString(), 'question');
+  });
+
+  it('should return bad request if the new text has a link without text', async () => {
+    const response = await supertest(app)
+      .post('/comment/editComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        id: new mongoose.Types.ObjectId().toString(),
+        type: 'question',
+        cid: new mongoose.Types.ObjectId().toString(),
+        text: 'See [](https://example.com)',
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Links must have text');
+  });
+
+  it('should return bad request if the new text is not a string', async () => {
+    const response = await supertest(app)
+      .post('/comment/editComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        id: new mongoose.Types.ObjectId().toString(),
+        type: 'question',
+        cid: new mongoose.Types.ObjectId().toString(),
+        text: 1,
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return bad request if the type is not valid', async () => {
+    const response = await supertest(app)
+      .post('/comment/editComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        id: new mongoose.Types.ObjectId().toString(),
+        type: 'invalidType',
+        cid: new mongoose.Types.ObjectId().toString(),
+        text: 'Edited comment',
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return forbidden if the user did not write the comment', async () => {
+    jest
+      .spyOn(util, 'editComment')
+      .mockResolvedValueOnce({ error: 'Only the author can edit this comment' });
+
+    const response = await supertest(app)
+      .post('/comment/editComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        id: new mongoose.Types.ObjectId().toString(),
+        type: 'answer',
+        cid: new mongoose.Types.ObjectId().toString(),
+        text: 'Edited comment',
+      });
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('POST /deleteComment', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should delete a comment and emit its answer', async () => {
+    const validAid = new mongoose.Types.ObjectId();
+    const validCid = new mongoose.Types.ObjectId();
+
+    jest.spyOn(util, 'deleteComment').mockResolvedValueOnce({
+      _id: validCid,
+      text: 'This is a test comment',
+      commentBy: 'dummyUserId',
+      commentDateTime: new Date('2024-06-03'),
+      deletedAt: new Date('2024-06-06'),
+    });
+    popDocSpy.mockResolvedValueOnce({
+      _id: validAid,
+      text: 'This is a test answer',
+      ansBy: 'dummyUserId',
+      ansDateTime: new Date('2024-06-03'),
+      comments: [],
+    });
+
+    const response = await supertest(app)
+      .post('/comment/deleteComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ id: validAid.toString(), type: 'answer', cid: validCid.toString() });
+
+    expect(response.status).toBe(200);
+    expect(response.body.deletedAt).toBe(new Date('2024-06-06').toISOString());
+    expect(popDocSpy).toHaveBeenLastCalledWith(validAid.toString(), 'answer');
+  });
+
+  it('should return not found if the comment is not on the answer', async () => {
+    jest.spyOn(util, 'deleteComment').mockResolvedValueOnce({ error: 'Comment not found' });
+
+    const response = await supertest(app)
+      .post('/comment/deleteComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        id: new mongoose.Types.ObjectId().toString(),
+        type: 'answer',
+        cid: new mongoose.Types.ObjectId().toString(),
+      });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('POST /upvoteComment', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should upvote a comment successfully', async () => {
+    const validCid = new mongoose.Types.ObjectId();
+    const mockResponse = {
+      msg: 'Comment upvoted successfully',
+      upVotes: ['dummyUserId'],
+      downVotes: [],
+    };
+
+    const addVoteSpy = jest.spyOn(util, 'addVoteToComment').mockResolvedValueOnce(mockResponse);
+
+    const response = await supertest(app)
+      .post('/comment/upvoteComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ cid: validCid.toString() });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(mockResponse);
+    expect(addVoteSpy).toHaveBeenCalledWith(validCid.toString(), 'dummyUserId', 'upvote');
+  });
+
+  it('should notify with the question the comment is shown on, not the one in the request', async () => {
+    const realQid = new mongoose.Types.ObjectId().toString();
+    const validCid = new mongoose.Types.ObjectId().toString();
+    jest.spyOn(util, 'addVoteToComment').mockResolvedValueOnce({
+      msg: 'Comment upvoted successfully',
+      upVotes: ['dummyUserId'],
+      downVotes: [],
+    });
+    const findQuestionSpy = jest
+      .spyOn(moderationOperations, 'findQuestionOf')
+      .mockResolvedValueOnce(realQid);
+    notifyUsersSpy.mockClear();
+
+    const response = await supertest(app)
+      .post('/comment/upvoteComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: new mongoose.Types.ObjectId().toString(), cid: validCid });
+
+    expect(response.status).toBe(200);
+    expect(findQuestionSpy).toHaveBeenCalledWith('comment', validCid);
+    expect(notifyUsersSpy).toHaveBeenCalledWith(expect.anything(), [
+      {
+        type: 'vote',
+        actor: 'dummyUserId',
+        post: validCid,
+        postType: 'comment',
+        question: realQid,
+      },
+    ]);
+  });
+
+  it('should return bad request if the comment id is not valid', async () => {
+    const response = await supertest(app)
+      .post('/comment/upvoteComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: new mongoose.Types.ObjectId().toString(), cid: 'invalid' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+});
+
+describe('POST /downvoteComment', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should downvote a comment successfully', async () => {
+    const validCid = new mongoose.Types.ObjectId();
+    const mockResponse = {
+      msg: 'Comment downvoted successfully',
+      upVotes: [],
+      downVotes: ['dummyUserId'],
+    };
+
+    jest.spyOn(util, 'addVoteToComment').mockResolvedValueOnce(mockResponse);
+
+    const response = await supertest(app)
+      .post('/comment/downvoteComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: new mongoose.Types.ObjectId().toString(), cid: validCid.toString() });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(mockResponse);
+  });
+
+  it('should return not found if the comment does not exist', async () => {
+    jest.spyOn(util, 'addVoteToComment').mockResolvedValueOnce({ error: 'Comment not found' });
+
+    const response = await supertest(app)
+      .post('/comment/downvoteComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        cid: new mongoose.Types.ObjectId().toString(),
+      });
+
+    expect(response.status).toBe(404);
+  });
 });
@@ -0,0 +1,99 @@
+import { CONTENT_MAX_LENGTH, sanitizeContent, validateContent } from '../utils/content';
+
+describe('Content', () => {
+  describe('sanitizeContent', () => {
+    test('sanitizeContent should escape raw HTML', () => {
+      expect(
+        sanitizeContent('Hi <script>alert(1)</script><img src="https://a.io/x.png" onerror="x()">'),
+      ).toBe('Hi &lt;script>alert(1)&lt;/script>&lt;img src="https://a.io/x.png" onerror="x()">');
+      expect(sanitizeContent('<a href="javascript:alert(1)">link</a>')).toBe(
+        '&lt;a href="javascript:alert(1)">link&lt;/a>',
+      );
+    });
+
+    test('sanitizeContent should escape tags split by other tags', () => {
+      expect(sanitizeContent('<scr<script></script>ipt>alert(1)</script>')).toBe(
+        '&lt;scr&lt;script>&lt;/script>ipt>alert(1)&lt;/script>',
+      );
+    });
+
+    test('sanitizeContent should escape event handlers without spaces before them', () => {
+      expect(sanitizeContent('<img/src=x/onerror=alert(1)>')).toBe(
+        '&lt;img/src=x/onerror=alert(1)>',
+      );
+    });
+
+    test('sanitizeContent should escape script URLs written with character references', () => {
+      expect(sanitizeContent('<a href="java&#115;cript:alert(1)">link</a>')).toBe(
+        '&lt;a href="java&#115;cript:alert(1)">link&lt;/a>',
+      );
+    });
+
+    test('sanitizeContent should escape form actions', () => {
+      expect(
+        sanitizeContent('<form><button formaction=javascript:alert(1)>Go</button></form>'),
+      ).toBe('&lt;form>&lt;button formaction=javascript:alert(1)>Go&lt;/button>&lt;/form>');
+    });
+
+    test('sanitizeContent should keep autolinks and comparisons readable', () => {
+      expect(sanitizeContent('See <https://a.io> when a < b')).toBe(
+        'See <https://a.io> when a &lt; b',
+      );
+    });
+
+    test('sanitizeContent should keep code as written', () => {
+      const text = 'Use `<script>` like this:\n\n```html\n<script src="app.js"></script>\n```\n';
+
+      expect(sanitizeContent(text)).toBe(text);
+    });
+
+    test('sanitizeContent should normalize line endings and remove control characters', () => {
+      expect(sanitizeContent('one\r\ntwo\rthree\u0000')).toBe('one\ntwo\nthree');
+    });
+  });
+
+  describe('validateContent', () => {
+    test('validateContent should accept Markdown with https links and images', () => {
+      expect(
+        validateContent(
+          '# Title\n\nSee [the docs](https://react.dev "React") and ![logo](https://a.io/l.png).\n\n[ref]: https://a.io\n<https://a.io>',
+        ),
+      ).toBeUndefined();
+    });
+
+    test('validateContent should reject links that do not use https', () => {
+      expect(validateContent('[click](javascript:alert(1))')).toBe(
+        'Links and images must use https:// URLs',
+      );
+      expect(validateContent('![img](http://a.io/x.png)')).toBe(
+        'Links and images must use https:// URLs',
+      );
+      expect(validateContent('[ref]: http://a.io')).toBe('Links and images must use https:// URLs');
+      expect(validateContent('<ftp://a.io>')).toBe('Links and images must use https:// URLs');
+    });
+
+    test('validateContent should accept attachments', () => {
+      expect(
+        validateContent('![screenshot](attachment://65e9b58910afe6e94fc6e6dc)'),
+      ).toBeUndefined();
+      expect(validateContent('[log](attachment://not-an-id)')).toBe(
+        'Links and images must use https:// URLs',
+      );
+    });
+
+    test('validateContent should reject links without text', () => {
+      expect(validateContent('[](https://a.io)')).toBe('Links must have text');
+    });
+
+    test('validateContent should ignore links in code', () => {
+      expect(validateContent('Call `f[0](x)` or\n\n```\n[a](b)\n```')).toBeUndefined();
+    });
+
+    test('validateContent should reject blank and overly long text', () => {
+      expect(validateContent('  \n ')).toBe('Content cannot be empty');
+      expect(validateContent('a'.repeat(CONTENT_MAX_LENGTH + 1))).toBe(
+        `Content cannot be longer than ${CONTENT_MAX_LENGTH} characters`,
+      );
+    });
+  });
+});
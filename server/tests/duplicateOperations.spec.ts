@@ -0,0 +1,129 @@
+import mongoose from 'mongoose';
+import { findOriginal, findSimilarQuestions } from '../models/duplicateOperations';
+import QuestionModel from '../models/questions';
+import TagModel from '../models/tags';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const QID1 = '65e9b58910afe6e94fc6e6dc';
+const QID2 = '65e9b5a995b6c7045a30d823';
+const QID3 = '65e9b716ff0e892116b2de01';
+const TID = '507f191e810c19729de860ea';
+
+// The candidates are populated and lean, so the queries are stubbed rather than mocked
+const stubQuery = (result: unknown[]): never =>
+  ({
+    select: () => stubQuery(result),
+    sort: () => stubQuery(result),
+    limit: () => stubQuery(result),
+    populate: () => stubQuery(result),
+    lean: () => Promise.resolve(result),
+  }) as never;
+
+const candidate = (id: string, title: string, tags: string[]) => ({
+  _id: new mongoose.Types.ObjectId(id),
+  title,
+  text: '',
+  tags: tags.map(name => ({ name })),
+  answers: [],
+  askDateTime: new Date('2024-06-04'),
+});
+
+describe('Duplicate model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+    jest.restoreAllMocks();
+  });
+
+  describe('findSimilarQuestions', () => {
+    test('findSimilarQuestions should return the questions similar enough, most similar first', async () => {
+      mockingoose(TagModel).toReturn([{ _id: TID, name: 'react' }], 'find');
+      const findSpy = jest
+        .spyOn(QuestionModel, 'find')
+        .mockReturnValueOnce(
+          stubQuery([
+            candidate(QID1, 'Storing state in React', ['react']),
+            candidate(QID2, 'Storing files on Android', ['android']),
+          ]),
+        )
+        .mockReturnValueOnce(
+          stubQuery([
+            candidate(QID1, 'Storing state in React', ['react']),
+            candidate(QID3, 'Where should React state live?', ['react']),
+          ]),
+        );
+
+      const result = await findSimilarQuestions(
+        { title: 'How to store state in React', tags: ['react'] },
+        undefined,
+        2,
+      );
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      expect(result.map(q => q.qid)).toEqual([QID1, QID3]);
+      expect(result[0]).toMatchObject({ title: 'Storing state in React', tags: ['react'] });
+      expect(findSpy).toHaveBeenCalledWith(
+        {
+          'deletedAt': { $exists: false },
+          'hiddenAt': { $exists: false },
+          'closure.reason': { $ne: 'duplicate' },
+          '$text': { $search: 'store state react' },
+        },
+        { score: { $meta: 'textScore' } },
+      );
+    });
+
+    test('findSimilarQuestions should leave out the excluded question', async () => {
+      const findSpy = jest.spyOn(QuestionModel, 'find').mockReturnValueOnce(stubQuery([]));
+
+      await findSimilarQuestions({ title: 'React state' }, QID1);
+
+      expect(findSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: { $ne: new mongoose.Types.ObjectId(QID1) } }),
+        expect.anything(),
+      );
+    });
+
+    test('findSimilarQuestions should return an error if the search fails', async () => {
+      jest.spyOn(QuestionModel, 'find').mockImplementationOnce(() => {
+        throw new Error('Database error');
+      });
+
+      const result = await findSimilarQuestions({ title: 'React state' });
+
+      expect(result).toEqual({ error: 'Error when finding similar questions' });
+    });
+  });
+
+  describe('findOriginal', () => {
+    test('findOriginal should follow the questions closed as duplicates to the original', async () => {
+      mockingoose(QuestionModel).toReturn(
+        (query: mongoose.Query<unknown, unknown>) =>
+          query.getQuery()._id === QID1
+            ? { _id: QID1, closure: { reason: 'duplicate', duplicateOf: QID2 } }
+            : { _id: query.getQuery()._id },
+        'findOne',
+      );
+
+      expect(await findOriginal(QID1)).toBe(QID2);
+    });
+
+    test('findOriginal should return the question itself when it was not closed as a duplicate', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID1, closure: { reason: 'offTopic' } },
+        'findOne',
+      );
+
+      expect(await findOriginal(QID1)).toBe(QID1);
+    });
+
+    test('findOriginal should return null if the question does not exist', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      expect(await findOriginal(QID1)).toBeNull();
+    });
+  });
+});
@@ -18,8 +18,32 @@ jest.mock('googleapis', () => {
   };
 });
 
+const MAIL_ENV = [
+  'MAIL_TRANSPORT',
+  'NODE_ENV',
+  'GMAIL_USER',
+  'GMAIL_CLIENT_ID',
+  'GMAIL_CLIENT_SECRET',
+  'GMAIL_REFRESH_TOKEN',
+];
+
 describe('Email Config', () => {
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    MAIL_ENV.forEach(name => delete process.env[name]);
+  });
+
+  afterAll(() => {
+    process.env = savedEnv;
+  });
+
   test('sendMail should return the sent email info on success', async () => {
+    process.env.MAIL_TRANSPORT = 'gmail';
+    process.env.GMAIL_USER = 'fakesender@email.com';
+    process.env.GMAIL_CLIENT_ID = 'fakeClientId';
+    process.env.GMAIL_CLIENT_SECRET = 'fakeClientSecret';
+    process.env.GMAIL_REFRESH_TOKEN = 'fakeRefreshToken';
     const sendMailMock = jest.fn().mockResolvedValueOnce('Email sent');
     (nodemailer.createTransport as jest.Mock).mockReturnValueOnce({ sendMail: sendMailMock });
     (nodemailer.createTransport as jest.Mock).mockImplementationOnce(() => ({
@@ -29,4 +53,69 @@ describe('Email Config', () => {
     const result = await sendMail('fakerecipient@email.com', 'Fake Subject', 'Fake Text');
     expect(result).toBe('Email sent');
   });
+
+  test('sendMail should use the transport selected by MAIL_TRANSPORT', async () => {
+    process.env.MAIL_TRANSPORT = 'memory';
+
+    await jest.isolateModulesAsync(async () => {
+      const { default: isolatedSendMail } = await import('../utils/emailConfig');
+      const { getSentMails } = await import('../utils/mailTransports');
+
+      await isolatedSendMail('fakerecipient@email.com', 'Fake Subject', 'Fake Text');
+
+      expect(getSentMails('fakerecipient@email.com')).toEqual([
+        expect.objectContaining({ subject: 'Fake Subject', text: 'Fake Text' }),
+      ]);
+    });
+  });
+
+  test('sendMail should print emails to the console in development without a mail setup', async () => {
+    process.env.NODE_ENV = 'development';
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await jest.isolateModulesAsync(async () => {
+      const { default: isolatedSendMail } = await import('../utils/emailConfig');
+
+      await isolatedSendMail('fakerecipient@email.com', 'Fake Subject', 'Fake Text');
+    });
+
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Email to fakerecipient@email.com'),
+    );
+    logSpy.mockRestore();
+  });
+
+  test('sendMail should fail in production without a mail setup', async () => {
+    process.env.NODE_ENV = 'production';
+
+    await jest.isolateModulesAsync(async () => {
+      const { default: isolatedSendMail } = await import('../utils/emailConfig');
+
+      await expect(
+        isolatedSendMail('fakerecipient@email.com', 'Fake Subject', 'Fake Text'),
+      ).rejects.toThrow('Error sending email: No mail transport is configured');
+    });
+  });
+
+  test('sendMail should fail without a mail setup when no environment is named', async () => {
+    await jest.isolateModulesAsync(async () => {
+      const { default: isolatedSendMail } = await import('../utils/emailConfig');
+
+      await expect(
+        isolatedSendMail('fakerecipient@email.com', 'Fake Subject', 'Fake Text'),
+      ).rejects.toThrow('Error sending email: No mail transport is configured');
+    });
+  });
+
+  test('sendMail should reject an unknown transport', async () => {
+    process.env.MAIL_TRANSPORT = 'carrier-pigeon';
+
+    await jest.isolateModulesAsync(async () => {
+      const { default: isolatedSendMail } = await import('../utils/emailConfig');
+
+      await expect(
+        isolatedSendMail('fakerecipient@email.com', 'Fake Subject', 'Fake Text'),
+      ).rejects.toThrow('Error sending email: Unknown mail transport: carrier-pigeon');
+    });
+  });
 });
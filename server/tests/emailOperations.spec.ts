@@ -0,0 +1,253 @@
+import mongoose from 'mongoose';
+import {
+  getEmailPreferences,
+  updateEmailPreferences,
+  unsubscribe,
+  sendNotificationEmails,
+  sendDueDigests,
+} from '../models/emailOperations';
+import UserModel from '../models/users';
+import TagModel from '../models/tags';
+import QuestionModel from '../models/questions';
+import sendMail from '../utils/emailConfig';
+import { Notification } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+jest.mock('../utils/emailConfig');
+
+const sendMailMock = sendMail as jest.Mock;
+
+const now = new Date('2024-06-10T12:00:00Z');
+
+const mockNotification: Notification = {
+  recipient: 'asker',
+  type: 'answer',
+  actor: 'answerer',
+  post: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc'),
+  postType: 'question',
+  question: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc'),
+  questionTitle: 'How do I merge branches?',
+  read: false,
+  createdAt: new Date('2024-06-03'),
+};
+
+const subscribedUser = {
+  username: 'asker',
+  email: 'asker@email.com',
+  unsubscribeToken: 'token123',
+  emailPreferences: { answers: true, comments: false, digest: 'daily', watchedTags: ['react'] },
+};
+
+const reactTag = { _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6aa'), name: 'react' };
+
+describe('Email model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+    jest.clearAllMocks();
+    sendMailMock.mockResolvedValue('Email sent');
+  });
+
+  describe('getEmailPreferences', () => {
+    test('getEmailPreferences should opt out of every email by default', async () => {
+      mockingoose(UserModel).toReturn({ username: 'asker' }, 'findOne');
+
+      const result = await getEmailPreferences('asker');
+      expect(result).toEqual({ answers: false, comments: false, digest: 'off', watchedTags: [] });
+    });
+
+    test('getEmailPreferences should return an error if the user does not exist', async () => {
+      mockingoose(UserModel).toReturn(null, 'findOne');
+
+      const result = await getEmailPreferences('nobody');
+      expect(result).toEqual({ error: 'User not found' });
+    });
+  });
+
+  describe('updateEmailPreferences', () => {
+    test('updateEmailPreferences should keep only watched tags that exist', async () => {
+      mockingoose(UserModel).toReturn({ username: 'asker' }, 'findOne');
+      mockingoose(TagModel).toReturn([reactTag], 'find');
+      mockingoose(UserModel).toReturn(subscribedUser, 'findOneAndUpdate');
+      const updateSpy = jest.spyOn(UserModel, 'findOneAndUpdate');
+
+      const result = await updateEmailPreferences('asker', {
+        answers: true,
+        digest: 'daily',
+        watchedTags: ['react', 'unknown'],
+      });
+
+      expect(result).toEqual(expect.objectContaining({ answers: true, digest: 'daily' }));
+      expect(updateSpy).toHaveBeenCalledWith(
+        { username: 'asker' },
+        {
+          $set: expect.objectContaining({
+            'emailPreferences.answers': true,
+            'emailPreferences.digest': 'daily',
+            'emailPreferences.watchedTags': ['react'],
+            'unsubscribeToken': expect.any(String),
+          }),
+        },
+        { new: true },
+      );
+    });
+
+    test('updateEmailPreferences should return an error if the user does not exist', async () => {
+      mockingoose(UserModel).toReturn(null, 'findOne');
+
+      const result = await updateEmailPreferences('nobody', { answers: true });
+      expect(result).toEqual({ error: 'User not found' });
+    });
+  });
+
+  describe('unsubscribe', () => {
+    test('unsubscribe should stop every email for the list all', async () => {
+      mockingoose(UserModel).toReturn(subscribedUser, 'findOneAndUpdate');
+      const updateSpy = jest.spyOn(UserModel, 'findOneAndUpdate');
+
+      const result = await unsubscribe('token123', 'all');
+
+      expect(result).toEqual({ username: 'asker' });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { unsubscribeToken: 'token123' },
+        {
+          $set: {
+            'emailPreferences.answers': false,
+            'emailPreferences.comments': false,
+            'emailPreferences.digest': 'off',
+          },
+        },
+      );
+    });
+
+    test('unsubscribe should return an error if the token is unknown', async () => {
+      mockingoose(UserModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await unsubscribe('unknown', 'digest');
+      expect(result).toEqual({ error: 'Invalid unsubscribe link' });
+    });
+  });
+
+  describe('sendNotificationEmails', () => {
+    test('sendNotificationEmails should email users who opted into emails about answers', async () => {
+      mockingoose(UserModel).toReturn([subscribedUser], 'find');
+
+      await sendNotificationEmails([mockNotification]);
+
+      expect(sendMailMock).toHaveBeenCalledWith(
+        'asker@email.com',
+        'answerer answered your question: How do I merge branches?',
+        expect.stringContaining('/user/unsubscribe?token=token123&list=answers'),
+        expect.stringContaining('How do I merge branches?'),
+        expect.objectContaining({ 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }),
+      );
+    });
+
+    test('sendNotificationEmails should not email users who did not opt in', async () => {
+      mockingoose(UserModel).toReturn([subscribedUser], 'find');
+
+      await sendNotificationEmails([{ ...mockNotification, type: 'comment' }]);
+
+      expect(sendMailMock).not.toHaveBeenCalled();
+    });
+
+    test('sendNotificationEmails should ignore notifications that are never emailed', async () => {
+      const findSpy = jest.spyOn(UserModel, 'find');
+
+      await sendNotificationEmails([{ ...mockNotification, type: 'vote' }]);
+
+      expect(findSpy).not.toHaveBeenCalled();
+      expect(sendMailMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendDueDigests', () => {
+    test('sendDueDigests should email the new questions in the watched tags', async () => {
+      mockingoose(UserModel).toReturn([subscribedUser], 'find');
+      mockingoose(TagModel).toReturn([reactTag], 'find');
+      mockingoose(QuestionModel).toReturn(
+        [
+          {
+            _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dd'),
+            title: 'Why does my effect run twice?',
+            askedBy: 'someone',
+            tags: [reactTag._id],
+          },
+        ],
+        'find',
+      );
+      const updateSpy = jest.spyOn(UserModel, 'updateOne');
+
+      const result = await sendDueDigests(now);
+
+      expect(result).toBe(1);
+      expect(sendMailMock).toHaveBeenCalledWith(
+        'asker@email.com',
+        'Your daily CodeFlow digest: 1 new question in the tags you watch',
+        expect.stringContaining('Why does my effect run twice? (asked by someone) [react]'),
+        expect.any(String),
+        expect.objectContaining({ 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }),
+      );
+      expect(updateSpy).toHaveBeenCalledWith(
+        { username: 'asker' },
+        { $set: { 'emailPreferences.digestSentAt': now } },
+      );
+    });
+
+    test('sendDueDigests should skip users whose digest is not due yet', async () => {
+      mockingoose(UserModel).toReturn(
+        [
+          {
+            ...subscribedUser,
+            emailPreferences: {
+              ...subscribedUser.emailPreferences,
+              digestSentAt: new Date('2024-06-10T06:00:00Z'),
+            },
+          },
+        ],
+        'find',
+      );
+
+      const result = await sendDueDigests(now);
+
+      expect(result).toBe(0);
+      expect(sendMailMock).not.toHaveBeenCalled();
+    });
+
+    test('sendDueDigests should not email a digest without new questions', async () => {
+      mockingoose(UserModel).toReturn([subscribedUser], 'find');
+      mockingoose(TagModel).toReturn([reactTag], 'find');
+      mockingoose(QuestionModel).toReturn([], 'find');
+
+      const result = await sendDueDigests(now);
+
+      expect(result).toBe(0);
+      expect(sendMailMock).not.toHaveBeenCalled();
+    });
+
+    test('sendDueDigests should leave deleted and hidden questions out of the digest', async () => {
+      mockingoose(UserModel).toReturn([subscribedUser], 'find');
+      mockingoose(TagModel).toReturn([reactTag], 'find');
+      mockingoose(QuestionModel).toReturn([], 'find');
+      const findSpy = jest.spyOn(QuestionModel, 'find');
+
+      await sendDueDigests(now);
+
+      expect(findSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          deletedAt: { $exists: false },
+          hiddenAt: { $exists: false },
+        }),
+      );
+      findSpy.mockRestore();
+    });
+
+    test('sendDueDigests should return an error if the users could not be fetched', async () => {
+      mockingoose(UserModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await sendDueDigests(now);
+      expect(result).toEqual({ error: 'Error when sending digests' });
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import mongoose from 'mongoose';
+import {
+  digestEmail,
+  notificationEmail,
+  unsubscribeConfirmationPage,
+  unsubscribeUrl,
+} from '../utils/emailTemplates';
+import { Notification } from '../types';
+
+const mockNotification: Notification = {
+  recipient: 'asker',
+  type: 'comment',
+  actor: 'commenter',
+  post: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc'),
+  postType: 'question',
+  question: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc'),
+  questionTitle: 'Is <div> inside <p> valid?',
+  read: false,
+  createdAt: new Date('2024-06-03'),
+};
+
+describe('Email templates', () => {
+  test('unsubscribeUrl should encode the token in the link', () => {
+    expect(unsubscribeUrl('a b', 'digest')).toMatch(
+      /\/user\/unsubscribe\?token=a%20b&list=digest$/,
+    );
+  });
+
+  test('notificationEmail should link to the question and escape its title in the HTML body', () => {
+    const email = notificationEmail(mockNotification, 'token123');
+
+    expect(email.subject).toBe('commenter commented on your question: Is <div> inside <p> valid?');
+    expect(email.text).toContain(`/question/${mockNotification.question.toString()}`);
+    expect(email.text).toContain('list=comments');
+    expect(email.html).toContain('Is &lt;div&gt; inside &lt;p&gt; valid?');
+    expect(email.html).not.toContain('<div>');
+  });
+
+  test('digestEmail should list every question with its tags', () => {
+    const email = digestEmail(
+      'weekly',
+      [
+        { qid: '1', title: 'First', askedBy: 'alice', tags: ['react'] },
+        { qid: '2', title: 'Second', askedBy: 'bob', tags: ['node', 'express'] },
+      ],
+      'token123',
+    );
+
+    expect(email.subject).toBe(
+      'Your weekly CodeFlow digest: 2 new questions in the tags you watch',
+    );
+    expect(email.text).toContain('- Second (asked by bob) [node] [express]');
+    expect(email.html.match(/<li>/g)).toHaveLength(2);
+    expect(email.html).toContain('list=digest');
+  });
+
+  test('notificationEmail should let mail clients unsubscribe with one click', () => {
+    const email = notificationEmail(mockNotification, 'token123');
+
+    expect(email.headers).toEqual({
+      'List-Unsubscribe': `<${unsubscribeUrl('token123', 'comments')}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+  });
+
+  test('unsubscribeConfirmationPage should post to the unsubscribe link', () => {
+    const page = unsubscribeConfirmationPage('a"b', 'answers');
+
+    expect(page).toContain('Stop receiving emails about answers to your questions from CodeFlow?');
+    expect(page).toContain('method="post"');
+    expect(page).toContain('token=a%22b&amp;list=answers');
+  });
+});
@@ -3,10 +3,12 @@ import supertest from 'supertest';
 import jwt from 'jsonwebtoken';
 import { app } from '../app';
 import * as util from '../models/userOperations';
-import { User } from '../types';
+import * as sessionUtil from '../models/sessionOperations';
+import { Session, User } from '../types';
 
 const findOrSaveGoogleUserSpy = jest.spyOn(util, 'findOrSaveGoogleUser');
 const jwtSignSpy = jest.spyOn(jwt, 'sign');
+const createSessionSpy = jest.spyOn(sessionUtil, 'createSession');
 
 const mockSettingsInfo = {
   theme: 'LightMode',
@@ -27,6 +29,16 @@ const mockGoogleUser: User = {
   settings: mockSettingsInfo,
 };
 
+const mockSession: Session = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6ab'),
+  user: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6aa'),
+  refreshTokenHash: 'fakeRefreshTokenHash',
+  device: 'fakeDevice',
+  createdAt: new Date('2024-06-03'),
+  lastUsedAt: new Date('2024-06-03'),
+  expiresAt: new Date('2024-07-03'),
+};
+
 jest.mock('googleapis', () => ({
   google: {
     auth: {
@@ -56,6 +68,10 @@ describe('GET /auth/google/callback', () => {
 
   it('should authenticate user with Google', async () => {
     findOrSaveGoogleUserSpy.mockResolvedValueOnce(mockGoogleUser);
+    createSessionSpy.mockResolvedValueOnce({
+      session: mockSession,
+      refreshToken: 'fakeRefreshToken',
+    });
     (jwtSignSpy as jest.Mock).mockReturnValue('fakeJwtToken');
 
     const response = await supertest(app)
@@ -65,6 +81,7 @@ describe('GET /auth/google/callback', () => {
     expect(response.status).toBe(200);
     expect(response.body.message).toBe('Authentication with Google successful');
     expect(response.body.token).toBe('fakeJwtToken');
+    expect(response.body.refreshToken).toBe('fakeRefreshToken');
     expect(response.body.user).toEqual({
       ...mockGoogleUser,
       creationDateTime: mockGoogleUser.creationDateTime.toISOString(),
@@ -85,6 +102,10 @@ describe('GET /auth/google/callback', () => {
 
   it('should return error in response if jwt.sign method throws an error', async () => {
     findOrSaveGoogleUserSpy.mockResolvedValueOnce(mockGoogleUser);
+    createSessionSpy.mockResolvedValueOnce({
+      session: mockSession,
+      refreshToken: 'fakeRefreshToken',
+    });
     (jwtSignSpy as jest.Mock).mockImplementationOnce(() => {
       throw new Error('Error signing token');
     });
@@ -96,6 +117,17 @@ describe('GET /auth/google/callback', () => {
     expect(response.text).toBe('Internal Server Error');
   });
 
+  it('should return error in response if createSession method returns an error', async () => {
+    findOrSaveGoogleUserSpy.mockResolvedValueOnce(mockGoogleUser);
+    createSessionSpy.mockResolvedValueOnce({ error: 'Error when creating a session' });
+
+    const response = await supertest(app)
+      .get('/api/auth/google/callback')
+      .query({ code: 'fake-code' });
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Internal Server Error');
+  });
+
   it('should return error in response if saveUser method throws an error', async () => {
     findOrSaveGoogleUserSpy.mockResolvedValueOnce({
       error: 'Error when retrieving or creating a Google user',
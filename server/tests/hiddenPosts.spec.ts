@@ -0,0 +1,110 @@
+import mongoose from 'mongoose';
+import { HIDDEN_QUESTION_TITLE, redactHiddenPosts } from '../utils/hiddenPosts';
+import QuestionModel from '../models/questions';
+import { Answer, Comment, Question, User } from '../types';
+
+const hiddenAt = new Date('2024-06-12');
+
+const comment: Comment = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6e1'),
+  text: 'Abusive comment',
+  commentBy: 'commenter',
+  commentDateTime: new Date('2024-06-10'),
+  hiddenAt,
+};
+
+const answer: Answer = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc'),
+  text: 'Spam answer',
+  ansBy: 'answerer',
+  ansDateTime: new Date('2024-06-09'),
+  comments: [comment],
+  hiddenAt,
+  revisions: [
+    {
+      editedBy: 'answerer',
+      editDateTime: hiddenAt,
+      changes: [{ field: 'text', before: 'Earlier spam answer', after: 'Spam answer' }],
+    },
+  ],
+};
+
+const question: Question = {
+  _id: new mongoose.Types.ObjectId('65e9b5a995b6c7045a30d823'),
+  title: 'Spam title',
+  text: 'Spam text',
+  tags: [],
+  askedBy: 'asker',
+  askDateTime: new Date('2024-06-08'),
+  answers: [answer, new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dd')] as Answer[],
+  views: [],
+  upVotes: [],
+  downVotes: [],
+  comments: [],
+  hiddenAt,
+};
+
+const user = (username: string, fields: Partial<User> = {}): User => ({
+  username,
+  email: `${username}@email.com`,
+  password: 'fakepassword',
+  creationDateTime: new Date('2024-06-01'),
+  ...fields,
+});
+
+describe('redactHiddenPosts', () => {
+  test('redactHiddenPosts should redact hidden questions, answers and comments for everyone', () => {
+    const redacted = redactHiddenPosts(question);
+    const redactedAnswer = redacted.answers[0] as Answer;
+
+    expect(redacted).toMatchObject({
+      title: HIDDEN_QUESTION_TITLE,
+      text: '',
+      revisions: [],
+      hiddenAt,
+    });
+    expect(redactedAnswer).toMatchObject({ text: '', revisions: [], hiddenAt });
+    expect(redactedAnswer.comments[0]).toMatchObject({ text: '', hiddenAt });
+    expect(redacted.answers[1]).toEqual(question.answers[1]);
+  });
+
+  test('redactHiddenPosts should not change the post it is given', () => {
+    redactHiddenPosts(question);
+
+    expect(question.text).toBe('Spam text');
+    expect(answer.text).toBe('Spam answer');
+    expect(comment.text).toBe('Abusive comment');
+  });
+
+  test('redactHiddenPosts should leave posts that are not hidden as they are', () => {
+    const visible = { ...answer, hiddenAt: undefined, comments: [] };
+
+    expect(redactHiddenPosts(visible)).toEqual(visible);
+  });
+
+  test('redactHiddenPosts should show the author their own hidden posts only', () => {
+    const redacted = redactHiddenPosts(question, user('answerer'));
+    const redactedAnswer = redacted.answers[0] as Answer;
+
+    expect(redacted).toMatchObject({ title: HIDDEN_QUESTION_TITLE, text: '' });
+    expect(redactedAnswer.text).toBe('Spam answer');
+    expect(redactedAnswer.comments[0]).toMatchObject({ text: '' });
+  });
+
+  test('redactHiddenPosts should show moderators every hidden post', () => {
+    const redacted = redactHiddenPosts(question, user('mod', { role: 'moderator' }));
+
+    expect(redacted).toMatchObject({ title: 'Spam title', text: 'Spam text' });
+    expect((redacted.answers[0] as Answer).text).toBe('Spam answer');
+    expect(((redacted.answers[0] as Answer).comments[0] as Comment).text).toBe('Abusive comment');
+  });
+
+  test('redactHiddenPosts should return a plain copy of a document', () => {
+    const doc = new QuestionModel({ ...question, answers: [], tags: [] });
+
+    const redacted = redactHiddenPosts(doc as unknown as Question);
+
+    expect(redacted).not.toBeInstanceOf(mongoose.Document);
+    expect(redacted).toMatchObject({ title: HIDDEN_QUESTION_TITLE, text: '' });
+  });
+});
@@ -0,0 +1,86 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import {
+  clearSentMails,
+  createConsoleTransport,
+  createFileTransport,
+  createMemoryTransport,
+  createSmtpTransport,
+  getSentMails,
+} from '../utils/mailTransports';
+
+const mockMessage = {
+  from: 'CodeFlow <no-reply@codeflow.local>',
+  to: 'fakerecipient@email.com',
+  subject: 'Fake Subject',
+  text: 'Fake Text',
+};
+
+describe('Mail transports', () => {
+  beforeEach(() => {
+    clearSentMails();
+    jest.restoreAllMocks();
+  });
+
+  test('the memory transport should keep the emails it is given', async () => {
+    const transport = createMemoryTransport();
+
+    await transport.sendMail(mockMessage);
+    await transport.sendMail({ ...mockMessage, to: 'other@email.com' });
+
+    expect(getSentMails()).toHaveLength(2);
+    expect(getSentMails('fakerecipient@email.com')).toEqual([
+      expect.objectContaining({ subject: 'Fake Subject', text: 'Fake Text' }),
+    ]);
+
+    clearSentMails();
+    expect(getSentMails()).toEqual([]);
+  });
+
+  test('the file transport should write each email to an .eml file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'codeflow-mail-'));
+    const transport = createFileTransport(dir);
+
+    const info = await transport.sendMail(mockMessage);
+
+    const files = await fs.readdir(dir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/\.eml$/);
+    expect(info.file).toBe(path.join(dir, files[0]));
+    const contents = await fs.readFile(info.file, 'utf8');
+    expect(contents).toContain('Subject: Fake Subject');
+    expect(contents).toContain('Fake Text');
+    await fs.rm(dir, { recursive: true });
+  });
+
+  test('the console transport should print the email', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await createConsoleTransport().sendMail(mockMessage);
+
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Email to fakerecipient@email.com'),
+    );
+  });
+
+  test('the SMTP transport should connect to the configured server', () => {
+    const createSpy = jest.spyOn(nodemailer, 'createTransport');
+
+    createSmtpTransport({ host: 'smtp.local', port: 2525, secure: false, user: 'u', pass: 'p' });
+
+    expect(createSpy).toHaveBeenCalledWith({
+      host: 'smtp.local',
+      port: 2525,
+      secure: false,
+      auth: { user: 'u', pass: 'p' },
+    });
+  });
+
+  test('the SMTP transport should require a host', () => {
+    expect(() => createSmtpTransport({ port: 587, secure: false })).toThrow(
+      'Missing required environment variable(s) for email configuration',
+    );
+  });
+});
@@ -0,0 +1,308 @@
+import mongoose from 'mongoose';
+import supertest from 'supertest';
+import jwt from 'jsonwebtoken';
+import { app } from '../app';
+import * as moderationOperations from '../models/moderationOperations';
+import * as util from '../models/application';
+import UserModel from '../models/users';
+import { Flag, FlaggedPost, ModerationLogEntry, Question } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const popDocSpy = jest.spyOn(util, 'populateDocument');
+const reviewFlagsSpy = jest.spyOn(moderationOperations, 'reviewFlags');
+
+const authUser = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6aa'),
+  username: 'flagger',
+  email: 'flagger@email.com',
+  password: 'dummypassword',
+  creationDateTime: new Date('2024-06-01'),
+  reputation: 10000,
+};
+const AUTH_TOKEN = jwt.sign({ userId: authUser._id }, process.env.JWT_SECRET as string);
+const QID = '65e9b58910afe6e94fc6e6dc';
+const AID = '65e9b58910afe6e94fc6e6dd';
+
+const mockFlag: Flag = {
+  _id: new mongoose.Types.ObjectId(),
+  postType: 'answer',
+  post: new mongoose.Types.ObjectId(AID),
+  question: new mongoose.Types.ObjectId(QID),
+  flaggedBy: 'flagger',
+  reason: 'spam',
+  status: 'pending',
+  createdAt: new Date('2024-06-10'),
+};
+
+const mockQuestion = {
+  _id: new mongoose.Types.ObjectId(QID),
+  title: 'How do I use hooks?',
+  text: 'I am new to React.',
+  tags: [],
+  askedBy: 'asker',
+  askDateTime: new Date('2024-06-03'),
+  answers: [],
+  views: [],
+  upVotes: [],
+  downVotes: [],
+  comments: [],
+} as Question;
+
+describe('Moderation controller', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  describe('POST /flag', () => {
+    it('should flag the post without emitting the question while it is not hidden', async () => {
+      const flagPostSpy = jest
+        .spyOn(moderationOperations, 'flagPost')
+        .mockResolvedValueOnce({ flag: mockFlag, hidden: false });
+      popDocSpy.mockClear();
+
+      const response = await supertest(app)
+        .post('/moderation/flag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: AID, type: 'answer', reason: 'spam' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.hidden).toBe(false);
+      expect(flagPostSpy).toHaveBeenCalledWith('answer', AID, 'flagger', 'spam', undefined, 3);
+      expect(popDocSpy).not.toHaveBeenCalled();
+    });
+
+    it('should emit the question once the post is hidden', async () => {
+      jest
+        .spyOn(moderationOperations, 'flagPost')
+        .mockResolvedValueOnce({ flag: mockFlag, hidden: true });
+      popDocSpy.mockResolvedValueOnce(mockQuestion);
+
+      const response = await supertest(app)
+        .post('/moderation/flag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: AID, type: 'answer', reason: 'offensive', details: ' Insults the asker ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.hidden).toBe(true);
+      expect(popDocSpy).toHaveBeenCalledWith(QID, 'question');
+    });
+
+    it('should return bad request if the reason is other without details', async () => {
+      const response = await supertest(app)
+        .post('/moderation/flag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: AID, type: 'answer', reason: 'other' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should return bad request if the type of the post is unknown', async () => {
+      const response = await supertest(app)
+        .post('/moderation/flag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: AID, type: 'tag', reason: 'spam' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return not found if the post does not exist', async () => {
+      jest
+        .spyOn(moderationOperations, 'flagPost')
+        .mockResolvedValueOnce({ error: 'Post not found' });
+
+      const response = await supertest(app)
+        .post('/moderation/flag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: AID, type: 'answer', reason: 'spam' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return bad request if the user already flagged the post', async () => {
+      jest
+        .spyOn(moderationOperations, 'flagPost')
+        .mockResolvedValueOnce({ error: 'Already flagged this post' });
+
+      const response = await supertest(app)
+        .post('/moderation/flag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: AID, type: 'answer', reason: 'spam' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Already flagged this post');
+    });
+
+    it('should return unauthorized without a token', async () => {
+      const response = await supertest(app)
+        .post('/moderation/flag')
+        .send({ id: AID, type: 'answer', reason: 'spam' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /getQueue', () => {
+    const flaggedPost: FlaggedPost = {
+      postType: 'answer',
+      id: AID,
+      qid: QID,
+      author: 'spammer',
+      text: 'Buy now',
+      hidden: true,
+      flags: [{ flaggedBy: 'flagger', reason: 'spam', createdAt: new Date('2024-06-10') }],
+    };
+
+    it('should return the moderation queue to moderators', async () => {
+      const getQueueSpy = jest
+        .spyOn(moderationOperations, 'getModerationQueue')
+        .mockResolvedValueOnce([flaggedPost]);
+
+      const response = await supertest(app)
+        .get('/moderation/getQueue?limit=10')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          ...flaggedPost,
+          flags: [{ ...flaggedPost.flags[0], createdAt: '2024-06-10T00:00:00.000Z' }],
+        },
+      ]);
+      expect(getQueueSpy).toHaveBeenCalledWith(10);
+    });
+
+    it('should return forbidden to users without the moderation privilege', async () => {
+      mockingoose(UserModel).toReturn({ ...authUser, reputation: 1 }, 'findOne');
+
+      const response = await supertest(app)
+        .get('/moderation/getQueue')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('Using the moderation tools requires at least 10000 reputation');
+    });
+
+    it('should return the moderation queue to moderators whatever their reputation', async () => {
+      mockingoose(UserModel).toReturn({ ...authUser, reputation: 1, role: 'moderator' }, 'findOne');
+      jest.spyOn(moderationOperations, 'getModerationQueue').mockResolvedValueOnce([]);
+
+      const response = await supertest(app)
+        .get('/moderation/getQueue')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return bad request if the limit is invalid', async () => {
+      const response = await supertest(app)
+        .get('/moderation/getQueue?limit=0')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /review', () => {
+    const entry: ModerationLogEntry = {
+      _id: new mongoose.Types.ObjectId(),
+      moderator: 'flagger',
+      action: 'deletePost',
+      postType: 'answer',
+      post: new mongoose.Types.ObjectId(AID),
+      question: new mongoose.Types.ObjectId(QID),
+      details: 'spam',
+      createdAt: new Date('2024-06-11'),
+    };
+
+    it('should review the flags and emit the question', async () => {
+      reviewFlagsSpy.mockResolvedValueOnce(entry);
+      popDocSpy.mockResolvedValueOnce(mockQuestion);
+
+      const response = await supertest(app)
+        .post('/moderation/review')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: AID, type: 'answer', action: 'delete' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.action).toBe('deletePost');
+      expect(reviewFlagsSpy).toHaveBeenCalledWith('answer', AID, 'flagger', 'delete');
+      expect(popDocSpy).toHaveBeenCalledWith(QID, 'question');
+    });
+
+    it('should return bad request if the action is unknown', async () => {
+      const response = await supertest(app)
+        .post('/moderation/review')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: AID, type: 'answer', action: 'ban' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return not found if the post has no pending flags', async () => {
+      reviewFlagsSpy.mockResolvedValueOnce({ error: 'No pending flags for this post' });
+
+      const response = await supertest(app)
+        .post('/moderation/review')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: AID, type: 'answer', action: 'dismiss' });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('No pending flags for this post');
+    });
+
+    it('should return forbidden to users without the moderation privilege', async () => {
+      mockingoose(UserModel).toReturn({ ...authUser, reputation: 1 }, 'findOne');
+      reviewFlagsSpy.mockClear();
+
+      const response = await supertest(app)
+        .post('/moderation/review')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: AID, type: 'answer', action: 'approve' });
+
+      expect(response.status).toBe(403);
+      expect(reviewFlagsSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /getLog', () => {
+    it('should return the audit log to moderators', async () => {
+      const getLogSpy = jest
+        .spyOn(moderationOperations, 'getModerationLog')
+        .mockResolvedValueOnce([]);
+
+      const response = await supertest(app)
+        .get('/moderation/getLog')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([]);
+      expect(getLogSpy).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should return an error if the log cannot be fetched', async () => {
+      jest
+        .spyOn(moderationOperations, 'getModerationLog')
+        .mockResolvedValueOnce({ error: 'Error when fetching the moderation log' });
+
+      const response = await supertest(app)
+        .get('/moderation/getLog')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when fetching moderation log: Error when fetching the moderation log',
+      );
+    });
+  });
+});
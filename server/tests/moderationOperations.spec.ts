@@ -0,0 +1,297 @@
+import mongoose from 'mongoose';
+import {
+  flagPost,
+  getModerationLog,
+  getModerationQueue,
+  logModeratorAction,
+  reviewFlags,
+} from '../models/moderationOperations';
+import AnswerModel from '../models/answers';
+import CommentModel from '../models/comments';
+import FlagModel from '../models/flags';
+import ModerationLogModel from '../models/moderationLogs';
+import QuestionModel from '../models/questions';
+import * as reputationUtil from '../models/reputationOperations';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const QID = '65e9b58910afe6e94fc6e6dc';
+const AID = '65e9b58910afe6e94fc6e6dd';
+const CID = '65e9b58910afe6e94fc6e6de';
+
+const answer = { _id: AID, text: 'Buy now', ansBy: 'spammer', ansDateTime: new Date() };
+
+describe('Moderation model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+    jest.restoreAllMocks();
+  });
+
+  describe('flagPost', () => {
+    test('flagPost should record a pending flag on the question the post is shown on', async () => {
+      mockingoose(AnswerModel).toReturn(answer, 'findOne');
+      mockingoose(QuestionModel).toReturn({ _id: QID }, 'findOne');
+      mockingoose(FlagModel).toReturn(null, 'findOne');
+      mockingoose(FlagModel).toReturn(1, 'countDocuments');
+
+      const result = await flagPost('answer', AID, 'flagger', 'spam', undefined, 3);
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+      expect(result.hidden).toBe(false);
+      expect(result.flag).toMatchObject({
+        postType: 'answer',
+        post: new mongoose.Types.ObjectId(AID),
+        question: new mongoose.Types.ObjectId(QID),
+        flaggedBy: 'flagger',
+        reason: 'spam',
+        status: 'pending',
+      });
+    });
+
+    test('flagPost should hide the post once enough users flagged it', async () => {
+      mockingoose(AnswerModel).toReturn(answer, 'findOne');
+      mockingoose(AnswerModel).toReturn({ ...answer, hiddenAt: new Date() }, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn({ _id: QID }, 'findOne');
+      mockingoose(FlagModel).toReturn(null, 'findOne');
+      mockingoose(FlagModel).toReturn(3, 'countDocuments');
+      const updateSpy = jest.spyOn(AnswerModel, 'findOneAndUpdate');
+
+      const result = await flagPost('answer', AID, 'flagger', 'spam', undefined, 3);
+
+      expect(result).toMatchObject({ hidden: true });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: AID },
+        { $set: { hiddenAt: expect.any(Date) } },
+        { new: true },
+      );
+    });
+
+    test('flagPost should find the question of a comment on an answer', async () => {
+      mockingoose(CommentModel).toReturn(
+        { _id: CID, text: 'Rude', commentBy: 'troll', commentDateTime: new Date() },
+        'findOne',
+      );
+      mockingoose(QuestionModel).toReturn(
+        (query: mongoose.Query<unknown, unknown>) =>
+          query.getQuery().answers ? { _id: QID } : null,
+        'findOne',
+      );
+      mockingoose(AnswerModel).toReturn({ _id: AID }, 'findOne');
+      mockingoose(FlagModel).toReturn(null, 'findOne');
+      mockingoose(FlagModel).toReturn(1, 'countDocuments');
+
+      const result = await flagPost('comment', CID, 'flagger', 'offensive', 'Insults', 3);
+
+      expect(result).toMatchObject({
+        flag: { question: new mongoose.Types.ObjectId(QID), details: 'Insults' },
+      });
+    });
+
+    test('flagPost should not let users flag their own posts', async () => {
+      mockingoose(AnswerModel).toReturn(answer, 'findOne');
+      mockingoose(QuestionModel).toReturn({ _id: QID }, 'findOne');
+
+      const result = await flagPost('answer', AID, 'spammer', 'spam', undefined, 3);
+
+      expect(result).toEqual({ error: 'You cannot flag your own post' });
+    });
+
+    test('flagPost should not let a user flag a post twice', async () => {
+      mockingoose(AnswerModel).toReturn(answer, 'findOne');
+      mockingoose(QuestionModel).toReturn({ _id: QID }, 'findOne');
+      mockingoose(FlagModel).toReturn({ flaggedBy: 'flagger', status: 'pending' }, 'findOne');
+
+      const result = await flagPost('answer', AID, 'flagger', 'spam', undefined, 3);
+
+      expect(result).toEqual({ error: 'Already flagged this post' });
+    });
+
+    test('flagPost should return an error if the post does not exist', async () => {
+      mockingoose(AnswerModel).toReturn(null, 'findOne');
+
+      const result = await flagPost('answer', AID, 'flagger', 'spam', undefined, 3);
+
+      expect(result).toEqual({ error: 'Post not found' });
+    });
+  });
+
+  describe('getModerationQueue', () => {
+    test('getModerationQueue should list the flagged posts with their flags', async () => {
+      const flags = [{ flaggedBy: 'flagger', reason: 'spam', createdAt: new Date('2024-06-10') }];
+      mockingoose(FlagModel).toReturn(
+        [
+          {
+            _id: { postType: 'answer', post: new mongoose.Types.ObjectId(AID) },
+            question: new mongoose.Types.ObjectId(QID),
+            count: 1,
+            flags,
+          },
+        ],
+        'aggregate',
+      );
+      mockingoose(AnswerModel).toReturn({ ...answer, hiddenAt: new Date() }, 'findOne');
+
+      const result = await getModerationQueue();
+
+      expect(result).toEqual([
+        {
+          postType: 'answer',
+          id: AID,
+          qid: QID,
+          author: 'spammer',
+          text: 'Buy now',
+          hidden: true,
+          flags,
+        },
+      ]);
+    });
+
+    test('getModerationQueue should leave out posts deleted since they were flagged', async () => {
+      mockingoose(FlagModel).toReturn(
+        [
+          {
+            _id: { postType: 'answer', post: new mongoose.Types.ObjectId(AID) },
+            question: new mongoose.Types.ObjectId(QID),
+            count: 1,
+            flags: [],
+          },
+        ],
+        'aggregate',
+      );
+      mockingoose(AnswerModel).toReturn(null, 'findOne');
+
+      expect(await getModerationQueue()).toEqual([]);
+    });
+  });
+
+  describe('reviewFlags', () => {
+    const pendingFlags = [
+      { postType: 'answer', post: AID, question: QID, flaggedBy: 'a', reason: 'spam' },
+      { postType: 'answer', post: AID, question: QID, flaggedBy: 'b', reason: 'offensive' },
+      { postType: 'answer', post: AID, question: QID, flaggedBy: 'c', reason: 'spam' },
+    ];
+
+    test('reviewFlags should show a dismissed post again and record the review', async () => {
+      mockingoose(FlagModel).toReturn(pendingFlags, 'find');
+      mockingoose(AnswerModel).toReturn(answer, 'findOneAndUpdate');
+      const updateSpy = jest.spyOn(AnswerModel, 'findOneAndUpdate');
+      const updateFlagsSpy = jest.spyOn(FlagModel, 'updateMany');
+
+      const result = await reviewFlags('answer', AID, 'mod', 'dismiss');
+
+      expect(result).toMatchObject({
+        moderator: 'mod',
+        action: 'dismissFlags',
+        postType: 'answer',
+        post: new mongoose.Types.ObjectId(AID),
+        question: new mongoose.Types.ObjectId(QID),
+        details: 'spam, offensive',
+      });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: AID },
+        { $unset: { hiddenAt: '' } },
+        { new: true },
+      );
+      expect(updateFlagsSpy).toHaveBeenCalledWith(
+        { postType: 'answer', post: AID, status: 'pending' },
+        { $set: { status: 'dismissed', reviewedBy: 'mod', reviewedAt: expect.any(Date) } },
+      );
+    });
+
+    test('reviewFlags should remove a deleted answer from its question', async () => {
+      mockingoose(FlagModel).toReturn(pendingFlags, 'find');
+      const questionUpdateSpy = jest.spyOn(QuestionModel, 'updateOne');
+      const answerUpdateSpy = jest.spyOn(AnswerModel, 'findOneAndUpdate');
+
+      const result = await reviewFlags('answer', AID, 'mod', 'delete');
+
+      expect(result).toMatchObject({ action: 'deletePost' });
+      expect(questionUpdateSpy).toHaveBeenCalledWith({ answers: AID }, { $pull: { answers: AID } });
+      expect(answerUpdateSpy).toHaveBeenCalledWith(
+        { _id: AID },
+        { $set: { deletedAt: expect.any(Date) } },
+        { new: true },
+      );
+    });
+
+    test('reviewFlags should take back the reputation of a deleted accepted answer', async () => {
+      mockingoose(FlagModel).toReturn(pendingFlags, 'find');
+      mockingoose(QuestionModel).toReturn(
+        { _id: QID, askedBy: 'asker', acceptedAnswer: AID },
+        'findOneAndUpdate',
+      );
+      const reputationSpy = jest
+        .spyOn(reputationUtil, 'recordAcceptReputation')
+        .mockResolvedValueOnce();
+
+      const result = await reviewFlags('answer', AID, 'mod', 'delete');
+
+      expect(result).toMatchObject({ action: 'deletePost' });
+      expect(reputationSpy).toHaveBeenCalledWith(AID, undefined, 'asker', false);
+    });
+
+    test('reviewFlags should keep reputation for an unaccepted answer', async () => {
+      mockingoose(FlagModel).toReturn(pendingFlags, 'find');
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      const reputationSpy = jest.spyOn(reputationUtil, 'recordAcceptReputation');
+
+      await reviewFlags('answer', AID, 'mod', 'delete');
+
+      expect(reputationSpy).not.toHaveBeenCalled();
+    });
+
+    test('reviewFlags should return an error if the post has no pending flags', async () => {
+      mockingoose(FlagModel).toReturn([], 'find');
+
+      const result = await reviewFlags('answer', AID, 'mod', 'approve');
+
+      expect(result).toEqual({ error: 'No pending flags for this post' });
+    });
+  });
+
+  describe('logModeratorAction', () => {
+    test('logModeratorAction should record the action with the time it was taken', async () => {
+      const result = await logModeratorAction({
+        moderator: 'mod',
+        action: 'lockQuestion',
+        postType: 'question',
+        post: new mongoose.Types.ObjectId(QID),
+        question: new mongoose.Types.ObjectId(QID),
+        details: 'Edit war',
+      });
+
+      expect(result).toMatchObject({
+        moderator: 'mod',
+        action: 'lockQuestion',
+        details: 'Edit war',
+        createdAt: expect.any(Date),
+      });
+    });
+  });
+
+  describe('getModerationLog', () => {
+    test('getModerationLog should list the newest entries first', async () => {
+      mockingoose(ModerationLogModel).toReturn(
+        [{ moderator: 'mod', action: 'deletePost' }],
+        'find',
+      );
+      const findSpy = jest.spyOn(ModerationLogModel, 'find');
+
+      const result = await getModerationLog(5);
+
+      expect(result).toHaveLength(1);
+      expect(findSpy).toHaveBeenCalled();
+    });
+
+    test('getModerationLog should return an error if the operation fails', async () => {
+      mockingoose(ModerationLogModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await getModerationLog();
+
+      expect(result).toEqual({ error: 'Error when fetching the moderation log' });
+    });
+  });
+});
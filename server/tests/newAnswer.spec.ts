@@ -1,14 +1,39 @@
 import mongoose from 'mongoose';
 import supertest from 'supertest';
+import jwt from 'jsonwebtoken';
 import { ObjectId } from 'mongodb';
 import { app } from '../app';
 import * as util from '../models/application';
+import * as notifications from '../utils/notifications';
+import * as attachmentOperations from '../models/attachmentOperations';
+import * as moderationOperations from '../models/moderationOperations';
+import UserModel from '../models/users';
+import QuestionModel from '../models/questions';
 
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const notifyUsersSpy = jest.spyOn(notifications, 'notifyUsers').mockResolvedValue();
 const saveAnswerSpy = jest.spyOn(util, 'saveAnswer');
 const addAnswerToQuestionSpy = jest.spyOn(util, 'addAnswerToQuestion');
 const popDocSpy = jest.spyOn(util, 'populateDocument');
+const attachToPostSpy = jest.spyOn(attachmentOperations, 'attachToPost');
+
+const authUser = {
+  _id: new ObjectId('65e9b58910afe6e94fc6e6aa'),
+  username: 'dummyUserId',
+  email: 'dummy@email.com',
+  password: 'dummypassword',
+  creationDateTime: new Date('2024-06-01'),
+  reputation: 200,
+};
+const AUTH_TOKEN = jwt.sign({ userId: authUser._id }, process.env.JWT_SECRET as string);
 
 describe('POST /addAnswer', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
   afterEach(async () => {
     await mongoose.connection.close(); // Ensure the connection is properly closed
   });
@@ -66,7 +91,10 @@ describe('POST /addAnswer', () => {
       comments: [],
     });
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual({
@@ -76,6 +104,9 @@ describe('POST /addAnswer', () => {
       ansDateTime: mockAnswer.ansDateTime.toISOString(),
       comments: [],
     });
+    expect(notifyUsersSpy).toHaveBeenCalledWith(expect.anything(), [
+      { type: 'answer', actor: 'dummyUserId', post: validQid.toString(), postType: 'question' },
+    ]);
   });
 
   it('should return bad request error if answer text property is missing', async () => {
@@ -87,7 +118,23 @@ describe('POST /addAnswer', () => {
       },
     };
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid answer');
+  });
+
+  it('should return bad request error if the answer text is not a string', async () => {
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        ans: { text: 1, ansBy: 'dummyUserId', ansDateTime: new Date('2024-06-03') },
+      });
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid answer');
@@ -101,23 +148,76 @@ describe('POST /addAnswer', () => {
       },
     };
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
   });
 
-  it('should return bad request error if answer object has ansBy property missing', async () => {
+  it('should attribute the answer to the authenticated user if ansBy is missing', async () => {
+    const validQid = new mongoose.Types.ObjectId().toString();
+    const mockReqBody = {
+      qid: validQid,
+      ans: {
+        text: 'This is a test answer',
+        ansDateTime: new Date('2024-06-03'),
+      },
+    };
+
+    saveAnswerSpy.mockResolvedValueOnce({ error: 'Error when saving an answer' });
+
+    await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(saveAnswerSpy).toHaveBeenLastCalledWith(
+      expect.objectContaining({ ansBy: 'dummyUserId' }),
+    );
+  });
+
+  it('should return forbidden error if ansBy does not match the authenticated user', async () => {
     const mockReqBody = {
       qid: 'dummyQuestionId',
       ans: {
         text: 'This is a test answer',
+        ansBy: 'someoneElse',
+        ansDateTime: new Date('2024-06-03'),
+      },
+    };
+
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return unauthorized error if the bearer token is missing', async () => {
+    const mockReqBody = {
+      qid: 'dummyQuestionId',
+      ans: {
+        text: 'This is a test answer',
+        ansBy: 'dummyUserId',
         ansDateTime: new Date('2024-06-03'),
       },
     };
 
     const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
 
-    expect(response.status).toBe(400);
+    expect(response.status).toBe(401);
+  });
+
+  it('should return unauthorized error if the bearer token is invalid', async () => {
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', 'Bearer not-a-token')
+      .send({});
+
+    expect(response.status).toBe(401);
   });
 
   it('should return bad request error if answer object has ansDateTime property missing', async () => {
@@ -129,13 +229,18 @@ describe('POST /addAnswer', () => {
       },
     };
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
   });
 
   it('should return bad request error if request body is missing', async () => {
-    const response = await supertest(app).post('/answer/addAnswer');
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
     expect(response.status).toBe(400);
   });
@@ -153,7 +258,10 @@ describe('POST /addAnswer', () => {
 
     saveAnswerSpy.mockResolvedValueOnce({ error: 'Error when saving an answer' });
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
   });
@@ -180,7 +288,10 @@ describe('POST /addAnswer', () => {
     saveAnswerSpy.mockResolvedValueOnce(mockAnswer);
     addAnswerToQuestionSpy.mockResolvedValueOnce({ error: 'Error when adding answer to question' });
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
   });
@@ -222,8 +333,418 @@ describe('POST /addAnswer', () => {
     addAnswerToQuestionSpy.mockResolvedValueOnce(mockQuestion);
     popDocSpy.mockResolvedValueOnce({ error: 'Error when populating document' });
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(500);
+  });
+
+  it('should return forbidden if the question is closed', async () => {
+    mockingoose(QuestionModel).toReturn(
+      { _id: new mongoose.Types.ObjectId(), closure: { reason: 'offTopic', closedBy: ['mod'] } },
+      'findOne',
+    );
+    saveAnswerSpy.mockClear();
+
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId(),
+        ans: { text: 'This is a test answer', ansBy: 'dummyUserId', ansDateTime: new Date() },
+      });
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Question is closed');
+    expect(saveAnswerSpy).not.toHaveBeenCalled();
+    mockingoose(QuestionModel).reset('findOne');
+  });
+});
+
+describe('POST /editAnswer', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should edit an answer and return the populated answer', async () => {
+    const validQid = new mongoose.Types.ObjectId();
+    const validAid = new mongoose.Types.ObjectId();
+    const mockAnswer = {
+      _id: validAid,
+      text: 'Edited answer',
+      ansBy: 'dummyUserId',
+      ansDateTime: new Date('2024-06-03'),
+      comments: [],
+    };
+
+    const editAnswerSpy = jest.spyOn(util, 'editAnswer').mockResolvedValueOnce(mockAnswer);
+    popDocSpy.mockResolvedValueOnce(mockAnswer);
+
+    const response = await supertest(app)
+      .post('/answer/editAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: validQid.toString(), aid: validAid.toString(), text: 'Edited answer' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.text).toBe('Edited answer');
+    expect(editAnswerSpy).toHaveBeenCalledWith(
+      validAid.toString(),
+      'dummyUserId',
+      'Edited answer',
+      false,
+    );
+    expect(attachToPostSpy).toHaveBeenCalledWith(
+      'Edited answer',
+      'dummyUserId',
+      'answer',
+      validAid.toString(),
+    );
+  });
+
+  it('should look up the question of the edited answer instead of trusting the request', async () => {
+    const validAid = new mongoose.Types.ObjectId();
+    const mockAnswer = {
+      _id: validAid,
+      text: 'Edited answer',
+      ansBy: 'dummyUserId',
+      ansDateTime: new Date('2024-06-03'),
+      comments: [],
+    };
+    jest.spyOn(util, 'editAnswer').mockResolvedValueOnce(mockAnswer);
+    popDocSpy.mockResolvedValueOnce(mockAnswer);
+    const findQuestionSpy = jest
+      .spyOn(moderationOperations, 'findQuestionOf')
+      .mockResolvedValueOnce(new mongoose.Types.ObjectId().toString());
+
+    const response = await supertest(app)
+      .post('/answer/editAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        aid: validAid.toString(),
+        text: 'Edited answer',
+      });
+
+    expect(response.status).toBe(200);
+    expect(findQuestionSpy).toHaveBeenCalledWith('answer', validAid.toString());
+  });
+
+  it('should return bad request if the new text is not a string', async () => {
+    const response = await supertest(app)
+      .post('/answer/editAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        aid: new mongoose.Types.ObjectId().toString(),
+        text: { $ne: '' },
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return bad request if the new text links to a non-https URL', async () => {
+    const response = await supertest(app)
+      .post('/answer/editAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        aid: new mongoose.Types.ObjectId().toString(),
+        text: 'See <http://example.com>',
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Links and images must use https:// URLs');
+  });
+
+  it('should return bad request if the text is missing', async () => {
+    const response = await supertest(app)
+      .post('/answer/editAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        aid: new mongoose.Types.ObjectId().toString(),
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return forbidden if the user did not write the answer', async () => {
+    jest
+      .spyOn(util, 'editAnswer')
+      .mockResolvedValueOnce({ error: 'Only the author can edit this answer' });
+
+    const response = await supertest(app)
+      .post('/answer/editAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        aid: new mongoose.Types.ObjectId().toString(),
+        text: 'Edited answer',
+      });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return not found if the answer does not exist', async () => {
+    jest.spyOn(util, 'editAnswer').mockResolvedValueOnce({ error: 'Answer not found' });
+
+    const response = await supertest(app)
+      .post('/answer/editAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        aid: new mongoose.Types.ObjectId().toString(),
+        text: 'Edited answer',
+      });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('POST /deleteAnswer', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should delete an answer and return it with its deletion time', async () => {
+    const validQid = new mongoose.Types.ObjectId();
+    const validAid = new mongoose.Types.ObjectId();
+
+    jest.spyOn(util, 'deleteAnswer').mockResolvedValueOnce({
+      _id: validAid,
+      text: 'This is a test answer',
+      ansBy: 'dummyUserId',
+      ansDateTime: new Date('2024-06-03'),
+      comments: [],
+      deletedAt: new Date('2024-06-06'),
+    });
+
+    const response = await supertest(app)
+      .post('/answer/deleteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: validQid.toString(), aid: validAid.toString() });
+
+    expect(response.status).toBe(200);
+    expect(response.body.deletedAt).toBe(new Date('2024-06-06').toISOString());
+  });
+
+  it('should return bad request if the answer id is not valid', async () => {
+    const response = await supertest(app)
+      .post('/answer/deleteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: new mongoose.Types.ObjectId().toString(), aid: 'invalid' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return forbidden if the user did not write the answer', async () => {
+    jest
+      .spyOn(util, 'deleteAnswer')
+      .mockResolvedValueOnce({ error: 'Only the author can delete this answer' });
+
+    const response = await supertest(app)
+      .post('/answer/deleteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        aid: new mongoose.Types.ObjectId().toString(),
+      });
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('POST /upvoteAnswer', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should upvote an answer successfully', async () => {
+    const validAid = new mongoose.Types.ObjectId();
+    const mockResponse = {
+      msg: 'Answer upvoted successfully',
+      upVotes: ['dummyUserId'],
+      downVotes: [],
+    };
+
+    const addVoteSpy = jest.spyOn(util, 'addVoteToAnswer').mockResolvedValueOnce(mockResponse);
+
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ aid: validAid.toString() });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(mockResponse);
+    expect(addVoteSpy).toHaveBeenCalledWith(validAid.toString(), 'dummyUserId', 'upvote');
+  });
+
+  it('should notify with the question the answer belongs to, not the one in the request', async () => {
+    const realQid = new mongoose.Types.ObjectId().toString();
+    const validAid = new mongoose.Types.ObjectId().toString();
+    jest.spyOn(util, 'addVoteToAnswer').mockResolvedValueOnce({
+      msg: 'Answer upvoted successfully',
+      upVotes: ['dummyUserId'],
+      downVotes: [],
+    });
+    const findQuestionSpy = jest
+      .spyOn(moderationOperations, 'findQuestionOf')
+      .mockResolvedValueOnce(realQid);
+    notifyUsersSpy.mockClear();
+
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: new mongoose.Types.ObjectId().toString(), aid: validAid });
+
+    expect(response.status).toBe(200);
+    expect(findQuestionSpy).toHaveBeenCalledWith('answer', validAid);
+    expect(notifyUsersSpy).toHaveBeenCalledWith(expect.anything(), [
+      { type: 'vote', actor: 'dummyUserId', post: validAid, postType: 'answer', question: realQid },
+    ]);
+  });
+
+  it('should return bad request if the answer id is missing', async () => {
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({});
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return forbidden if voting as another user', async () => {
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        aid: new mongoose.Types.ObjectId().toString(),
+        username: 'someone_else',
+      });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return not found if the answer does not exist', async () => {
+    jest.spyOn(util, 'addVoteToAnswer').mockResolvedValueOnce({ error: 'Answer not found' });
+
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        aid: new mongoose.Types.ObjectId().toString(),
+      });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return unauthorized if the bearer token is missing', async () => {
+    const response = await supertest(app).post('/answer/upvoteAnswer').send({
+      qid: new mongoose.Types.ObjectId().toString(),
+      aid: new mongoose.Types.ObjectId().toString(),
+    });
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('POST /downvoteAnswer', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should downvote an answer successfully', async () => {
+    const validAid = new mongoose.Types.ObjectId();
+    const mockResponse = {
+      msg: 'Answer downvoted successfully',
+      upVotes: [],
+      downVotes: ['dummyUserId'],
+    };
+
+    const addVoteSpy = jest.spyOn(util, 'addVoteToAnswer').mockResolvedValueOnce(mockResponse);
+
+    const response = await supertest(app)
+      .post('/answer/downvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: new mongoose.Types.ObjectId().toString(), aid: validAid.toString() });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(mockResponse);
+    expect(addVoteSpy).toHaveBeenCalledWith(validAid.toString(), 'dummyUserId', 'downvote');
+  });
+
+  it('should return forbidden if the user lacks the reputation to downvote', async () => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 1 }, 'findOne');
+    const addVoteSpy = jest.spyOn(util, 'addVoteToAnswer');
+    addVoteSpy.mockClear();
+
+    const response = await supertest(app)
+      .post('/answer/downvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        aid: new mongoose.Types.ObjectId().toString(),
+      });
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Downvoting requires at least 125 reputation');
+    expect(addVoteSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 if the vote fails', async () => {
+    jest
+      .spyOn(util, 'addVoteToAnswer')
+      .mockResolvedValueOnce({ error: 'Error when adding downvote to answer' });
+
+    const response = await supertest(app)
+      .post('/answer/downvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        aid: new mongoose.Types.ObjectId().toString(),
+      });
 
     expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when downvoteing: Error when adding downvote to answer');
   });
 });
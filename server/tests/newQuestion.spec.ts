@@ -1,9 +1,21 @@
 import mongoose from 'mongoose';
 import supertest from 'supertest';
+import jwt from 'jsonwebtoken';
 import { app } from '../app';
 import * as util from '../models/application';
+import * as notifications from '../utils/notifications';
+import * as aiAnswerQueue from '../utils/aiAnswerQueue';
+import * as tagOperations from '../models/tagOperations';
+import UserModel from '../models/users';
 import { Answer, Question, Tag } from '../types';
 
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+jest.spyOn(notifications, 'notifyUsers').mockResolvedValue();
+const enqueueAIAnswerSpy = jest.spyOn(aiAnswerQueue, 'enqueueAIAnswer').mockResolvedValue('ready');
+const findNewTagNamesSpy = jest.spyOn(tagOperations, 'findNewTagNames').mockResolvedValue([]);
+
 const tag1: Tag = {
   _id: new mongoose.Types.ObjectId('507f191e810c19729de860ea'),
   name: 'tag1',
@@ -41,7 +53,20 @@ const simplifyQuestion = (question: Question) => ({
   askDateTime: question.askDateTime.toISOString(),
 });
 
+const authUser = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6aa'),
+  username: 'question3_user',
+  email: 'question3_user@email.com',
+  password: 'fakepassword',
+  creationDateTime: new Date('2024-06-01'),
+};
+const AUTH_TOKEN = jwt.sign({ userId: authUser._id }, process.env.JWT_SECRET as string);
+
 describe('POST /addQuestion', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
   afterEach(async () => {
     await mongoose.connection.close(); // Ensure the connection is properly closed
   });
@@ -56,13 +81,39 @@ describe('POST /addQuestion', () => {
     jest.spyOn(util, 'populateDocument').mockResolvedValueOnce(mockQuestion as Question);
 
     // Making the request
-    const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+    const response = await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockQuestion);
 
     // Asserting the response
     expect(response.status).toBe(200);
     expect(response.body).toEqual(simplifyQuestion(mockQuestion));
   });
 
+  it('should save the question with a pending AI answer and queue its generation', async () => {
+    jest.spyOn(util, 'processTags').mockResolvedValue([tag1, tag2] as Tag[]);
+    const saveQuestionSpy = jest
+      .spyOn(util, 'saveQuestion')
+      .mockResolvedValueOnce(mockQuestion as Question);
+    jest.spyOn(util, 'populateDocument').mockResolvedValueOnce(mockQuestion as Question);
+
+    const response = await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ ...mockQuestion, aiGeneratedAnswer: 'Made up answer' });
+
+    expect(response.status).toBe(200);
+    expect(saveQuestionSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ aiGeneratedAnswer: undefined, aiAnswerStatus: 'pending' }),
+    );
+    expect(enqueueAIAnswerSpy).toHaveBeenCalledWith(
+      expect.anything(),
+      mockQuestion._id?.toString(),
+      mockQuestion.text,
+    );
+  });
+
   it('should return 500 if error occurs in `saveQuestion` while adding a new question', async () => {
     jest.spyOn(util, 'processTags').mockResolvedValue([tag1, tag2] as Tag[]);
     jest
@@ -70,7 +121,10 @@ describe('POST /addQuestion', () => {
       .mockResolvedValueOnce({ error: 'Error while saving question' });
 
     // Making the request
-    const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+    const response = await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockQuestion);
 
     // Asserting the response
     expect(response.status).toBe(500);
@@ -82,7 +136,10 @@ describe('POST /addQuestion', () => {
     jest.spyOn(util, 'populateDocument').mockResolvedValueOnce({ error: 'Error while populating' });
 
     // Making the request
-    const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+    const response = await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockQuestion);
 
     // Asserting the response
     expect(response.status).toBe(500);
@@ -92,16 +149,63 @@ describe('POST /addQuestion', () => {
     jest.spyOn(util, 'processTags').mockResolvedValue([]);
 
     // Making the request
-    const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+    const response = await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockQuestion);
 
     // Asserting the response
     expect(response.status).toBe(500);
   });
 
+  it('should let a user with enough reputation create new tags', async () => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 300 }, 'findOne');
+    findNewTagNamesSpy.mockClear();
+    jest.spyOn(util, 'processTags').mockResolvedValue([tag1, tag2] as Tag[]);
+    jest.spyOn(util, 'saveQuestion').mockResolvedValueOnce(mockQuestion as Question);
+    jest.spyOn(util, 'populateDocument').mockResolvedValueOnce(mockQuestion as Question);
+
+    const response = await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockQuestion);
+
+    expect(response.status).toBe(200);
+    expect(findNewTagNamesSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return forbidden if a user without the reputation creates new tags', async () => {
+    findNewTagNamesSpy.mockResolvedValueOnce(['tag2']);
+    const saveQuestionSpy = jest.spyOn(util, 'saveQuestion');
+    saveQuestionSpy.mockClear();
+
+    const response = await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockQuestion);
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe(
+      'Creating new tags requires at least 300 reputation. New tags: tag2',
+    );
+    expect(saveQuestionSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return bad request if a tag name is too long', async () => {
+    const response = await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ ...mockQuestion, tags: [{ name: 'a-very-long-tag-name-indeed' }] });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Tags cannot be longer than 20 characters');
+  });
+
   it('should return bad request if question title is empty string', async () => {
     // Making the request
     const response = await supertest(app)
       .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
       .send({ ...mockQuestion, title: '' });
 
     // Asserting the response
@@ -113,6 +217,7 @@ describe('POST /addQuestion', () => {
     // Making the request
     const response = await supertest(app)
       .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
       .send({ ...mockQuestion, text: '' });
 
     // Asserting the response
@@ -120,28 +225,81 @@ describe('POST /addQuestion', () => {
     expect(response.text).toBe('Invalid question body');
   });
 
-  it('should return bad request if tags are empty', async () => {
+  it('should return bad request if question text is not a string', async () => {
     // Making the request
     const response = await supertest(app)
       .post('/question/addQuestion')
-      .send({ ...mockQuestion, tags: [] });
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ ...mockQuestion, text: 1 });
 
     // Asserting the response
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid question body');
   });
 
-  it('should return bad request if askedBy is empty string', async () => {
+  it('should return bad request if the question text links to a non-https URL', async () => {
     // Making the request
     const response = await supertest(app)
       .post('/question/addQuestion')
-      .send({ ...mockQuestion, askedBy: '' });
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ ...mockQuestion, text: 'See [this](javascript:alert(1))' });
+
+    // Asserting the response
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Links and images must use https:// URLs');
+  });
+
+  it('should sanitize the question text before saving it', async () => {
+    jest.spyOn(util, 'processTags').mockResolvedValue([tag1, tag2] as Tag[]);
+    const saveQuestionSpy = jest
+      .spyOn(util, 'saveQuestion')
+      .mockResolvedValueOnce(mockQuestion as Question);
+    jest.spyOn(util, 'populateDocument').mockResolvedValueOnce(mockQuestion as Question);
+
+    // Making the request
+    await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ ...mockQuestion, text: 'Why does this fail?<script>alert(1)</script>' });
+
+    // Asserting the saved question
+    expect(saveQuestionSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'Why does this fail?&lt;script>alert(1)&lt;/script>' }),
+    );
+  });
+
+  it('should return bad request if tags are empty', async () => {
+    // Making the request
+    const response = await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ ...mockQuestion, tags: [] });
 
     // Asserting the response
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid question body');
   });
 
+  it('should return forbidden if askedBy is not the authenticated user', async () => {
+    // Making the request
+    const response = await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ ...mockQuestion, askedBy: 'someone_else' });
+
+    // Asserting the response
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Cannot post a question as another user');
+  });
+
+  it('should return unauthorized if the bearer token is missing', async () => {
+    // Making the request
+    const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+
+    // Asserting the response
+    expect(response.status).toBe(401);
+  });
+
   it('should ensure only unique tags are added', async () => {
     // Mock request body with duplicate tags
     const mockQuestionDuplicates: Question = {
@@ -182,7 +340,10 @@ describe('POST /addQuestion', () => {
     jest.spyOn(util, 'populateDocument').mockResolvedValueOnce(result);
 
     // Making the request
-    const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+    const response = await supertest(app)
+      .post('/question/addQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockQuestion);
 
     // Asserting the response
     expect(response.status).toBe(200);
@@ -0,0 +1,150 @@
+import mongoose from 'mongoose';
+import supertest from 'supertest';
+import jwt from 'jsonwebtoken';
+import { app } from '../app';
+import * as util from '../models/notificationOperations';
+import UserModel from '../models/users';
+import { Notification } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const getNotificationsSpy = jest.spyOn(util, 'getNotifications');
+const markNotificationsReadSpy = jest.spyOn(util, 'markNotificationsRead');
+
+const authUser = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6aa'),
+  username: 'asker',
+  email: 'asker@email.com',
+  password: 'dummypassword',
+  creationDateTime: new Date('2024-06-01'),
+};
+const AUTH_TOKEN = jwt.sign({ userId: authUser._id }, process.env.JWT_SECRET as string);
+const NID = '65e9b58910afe6e94fc6e6ab';
+
+const mockNotification: Notification = {
+  _id: new mongoose.Types.ObjectId(NID),
+  recipient: 'asker',
+  type: 'answer',
+  actor: 'answerer',
+  post: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc'),
+  postType: 'question',
+  question: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc'),
+  questionTitle: 'How do I merge branches?',
+  read: false,
+  createdAt: new Date('2024-06-03'),
+};
+
+describe('GET /getNotifications', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should return the notifications of the authenticated user', async () => {
+    getNotificationsSpy.mockResolvedValueOnce({
+      notifications: [mockNotification],
+      unreadCount: 1,
+    });
+
+    const response = await supertest(app)
+      .get('/notification/getNotifications')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.unreadCount).toBe(1);
+    expect(response.body.notifications[0]._id).toBe(NID);
+    expect(getNotificationsSpy).toHaveBeenCalledWith('asker');
+  });
+
+  it('should return unauthorized without an access token', async () => {
+    const response = await supertest(app).get('/notification/getNotifications');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return error in response if getNotifications returns an error', async () => {
+    getNotificationsSpy.mockResolvedValueOnce({ error: 'Error when fetching notifications' });
+
+    const response = await supertest(app)
+      .get('/notification/getNotifications')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe(
+      'Error when fetching notifications: Error when fetching notifications',
+    );
+  });
+});
+
+describe('POST /markAsRead', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should mark the listed notifications as read', async () => {
+    markNotificationsReadSpy.mockResolvedValueOnce({ unreadCount: 0 });
+
+    const response = await supertest(app)
+      .post('/notification/markAsRead')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ nids: [NID] });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ unreadCount: 0 });
+    expect(markNotificationsReadSpy).toHaveBeenCalledWith('asker', [NID]);
+  });
+
+  it('should mark every notification as read when none are listed', async () => {
+    markNotificationsReadSpy.mockResolvedValueOnce({ unreadCount: 0 });
+
+    const response = await supertest(app)
+      .post('/notification/markAsRead')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({});
+
+    expect(response.status).toBe(200);
+    expect(markNotificationsReadSpy).toHaveBeenCalledWith('asker', undefined);
+  });
+
+  it('should return bad request if a notification id is invalid', async () => {
+    const response = await supertest(app)
+      .post('/notification/markAsRead')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ nids: ['not-an-id'] });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return error in response if markNotificationsRead returns an error', async () => {
+    markNotificationsReadSpy.mockResolvedValueOnce({
+      error: 'Error when marking notifications as read',
+    });
+
+    const response = await supertest(app)
+      .post('/notification/markAsRead')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ nids: [NID] });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe(
+      'Error when marking notifications as read: Error when marking notifications as read',
+    );
+  });
+});
@@ -0,0 +1,207 @@
+import mongoose from 'mongoose';
+import {
+  saveNotifications,
+  getNotifications,
+  markNotificationsRead,
+} from '../models/notificationOperations';
+import NotificationModel from '../models/notifications';
+import QuestionModel from '../models/questions';
+import AnswerModel from '../models/answers';
+import CommentModel from '../models/comments';
+import UserModel from '../models/users';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const QID = '65e9b58910afe6e94fc6e6dc';
+const AID = '65e9b58910afe6e94fc6e6dd';
+
+const mockQuestion = {
+  _id: new mongoose.Types.ObjectId(QID),
+  title: 'How do I merge branches?',
+  askedBy: 'asker',
+  answers: [new mongoose.Types.ObjectId(AID)],
+};
+
+const mockNotification = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6ab'),
+  recipient: 'asker',
+  type: 'answer',
+  actor: 'answerer',
+  post: new mongoose.Types.ObjectId(QID),
+  postType: 'question',
+  question: new mongoose.Types.ObjectId(QID),
+  questionTitle: 'How do I merge branches?',
+  read: false,
+  createdAt: new Date('2024-06-03'),
+};
+
+/**
+ * Makes `insertMany` resolve to the documents it was given, as saved documents.
+ */
+const mockInsertMany = () =>
+  jest
+    .spyOn(NotificationModel, 'insertMany')
+    .mockImplementationOnce(
+      (docs: unknown) =>
+        Promise.resolve((docs as object[]).map(d => ({ toObject: () => d }))) as never,
+    );
+
+describe('Notification model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('saveNotifications', () => {
+    beforeEach(() => {
+      mockingoose(AnswerModel).toReturn([], 'find');
+      mockingoose(CommentModel).toReturn([], 'find');
+    });
+
+    test('saveNotifications should address a notification to the author of the post', async () => {
+      mockingoose(QuestionModel).toReturn([mockQuestion], 'find');
+      mockingoose(UserModel).toReturn([{ username: 'asker' }], 'find');
+      const insertSpy = mockInsertMany();
+
+      const result = await saveNotifications([
+        { type: 'answer', actor: 'answerer', post: QID, postType: 'question' },
+      ]);
+
+      expect(insertSpy).toHaveBeenCalledWith([
+        expect.objectContaining({
+          recipient: 'asker',
+          type: 'answer',
+          actor: 'answerer',
+          post: QID,
+          postType: 'question',
+          questionTitle: 'How do I merge branches?',
+          read: false,
+        }),
+      ]);
+      expect(result).toHaveLength(1);
+    });
+
+    test('saveNotifications should link a notification about an answer to its question', async () => {
+      mockingoose(QuestionModel).toReturn([mockQuestion], 'find');
+      mockingoose(UserModel).toReturn([{ username: 'mentioned' }], 'find');
+      const insertSpy = mockInsertMany();
+
+      await saveNotifications([
+        {
+          recipient: 'mentioned',
+          type: 'mention',
+          actor: 'answerer',
+          post: AID,
+          postType: 'answer',
+        },
+      ]);
+
+      expect(insertSpy).toHaveBeenCalledWith([
+        expect.objectContaining({ recipient: 'mentioned', post: AID, question: mockQuestion._id }),
+      ]);
+    });
+
+    test('saveNotifications should not notify users of their own actions', async () => {
+      mockingoose(QuestionModel).toReturn([mockQuestion], 'find');
+      const insertSpy = jest.spyOn(NotificationModel, 'insertMany');
+
+      const result = await saveNotifications([
+        { type: 'vote', actor: 'asker', post: QID, postType: 'question' },
+      ]);
+
+      expect(result).toEqual([]);
+      expect(insertSpy).not.toHaveBeenCalled();
+    });
+
+    test('saveNotifications should notify each user once and skip users that do not exist', async () => {
+      mockingoose(QuestionModel).toReturn([mockQuestion], 'find');
+      mockingoose(UserModel).toReturn([{ username: 'asker' }], 'find');
+      const insertSpy = mockInsertMany();
+
+      await saveNotifications([
+        { type: 'answer', actor: 'answerer', post: QID, postType: 'question' },
+        { recipient: 'asker', type: 'mention', actor: 'answerer', post: QID, postType: 'question' },
+        {
+          recipient: 'nobody',
+          type: 'mention',
+          actor: 'answerer',
+          post: QID,
+          postType: 'question',
+        },
+      ]);
+
+      expect(insertSpy).toHaveBeenCalledWith([
+        expect.objectContaining({ recipient: 'asker', type: 'answer' }),
+      ]);
+    });
+
+    test('saveNotifications should return an object with error if saving fails', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await saveNotifications([
+        { type: 'answer', actor: 'answerer', post: QID, postType: 'question' },
+      ]);
+      expect(result).toEqual({ error: 'Error when saving notifications' });
+    });
+  });
+
+  describe('getNotifications', () => {
+    test('getNotifications should return the notifications and the unread count', async () => {
+      mockingoose(NotificationModel).toReturn([mockNotification], 'find');
+      mockingoose(NotificationModel).toReturn(1, 'countDocuments');
+
+      const result = await getNotifications('asker');
+
+      if ('error' in result) {
+        throw new Error('Expected the notifications to be returned');
+      }
+      expect(result.unreadCount).toEqual(1);
+      expect(result.notifications).toHaveLength(1);
+      expect(result.notifications[0].type).toEqual('answer');
+    });
+
+    test('getNotifications should return an object with error if find throws an error', async () => {
+      mockingoose(NotificationModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await getNotifications('asker');
+      expect(result).toEqual({ error: 'Error when fetching notifications' });
+    });
+  });
+
+  describe('markNotificationsRead', () => {
+    test('markNotificationsRead should mark the listed notifications of the user as read', async () => {
+      const updateSpy = jest.spyOn(NotificationModel, 'updateMany');
+      mockingoose(NotificationModel).toReturn(2, 'countDocuments');
+
+      const result = await markNotificationsRead('asker', [mockNotification._id.toString()]);
+
+      expect(result).toEqual({ unreadCount: 2 });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { recipient: 'asker', read: false, _id: { $in: [mockNotification._id.toString()] } },
+        { $set: { read: true } },
+      );
+    });
+
+    test('markNotificationsRead should mark every notification of the user when none are listed', async () => {
+      const updateSpy = jest.spyOn(NotificationModel, 'updateMany');
+      mockingoose(NotificationModel).toReturn(0, 'countDocuments');
+
+      const result = await markNotificationsRead('asker');
+
+      expect(result).toEqual({ unreadCount: 0 });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { recipient: 'asker', read: false },
+        { $set: { read: true } },
+      );
+    });
+
+    test('markNotificationsRead should return an object with error if the update fails', async () => {
+      mockingoose(NotificationModel).toReturn(new Error('Database error'), 'updateMany');
+
+      const result = await markNotificationsRead('asker');
+      expect(result).toEqual({ error: 'Error when marking notifications as read' });
+    });
+  });
+});
@@ -1,10 +1,23 @@
 import supertest from 'supertest';
 import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
 import { app } from '../app';
 import * as util from '../models/application';
-import { Question } from '../types';
+import * as notifications from '../utils/notifications';
+import * as aiAnswerOperations from '../models/aiAnswerOperations';
+import * as duplicateOperations from '../models/duplicateOperations';
+import * as closeOperations from '../models/closeOperations';
+import * as moderationOperations from '../models/moderationOperations';
+import * as tagOperations from '../models/tagOperations';
+import UserModel from '../models/users';
+import { Question, Tag } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
 
 const addVoteToQuestionSpy = jest.spyOn(util, 'addVoteToQuestion');
+const notifyUsersSpy = jest.spyOn(notifications, 'notifyUsers').mockResolvedValue();
+const findNewTagNamesSpy = jest.spyOn(tagOperations, 'findNewTagNames').mockResolvedValue([]);
 
 interface MockResponse {
   msg: string;
@@ -53,6 +66,16 @@ const ans4 = {
   comments: [],
 };
 
+const authUser = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6aa'),
+  username: 'new-user',
+  email: 'new-user@email.com',
+  password: 'fakepassword',
+  creationDateTime: new Date('2024-06-01'),
+  reputation: 200,
+};
+const AUTH_TOKEN = jwt.sign({ userId: authUser._id }, process.env.JWT_SECRET as string);
+
 const MOCK_QUESTIONS = [
   {
     _id: '65e9b58910afe6e94fc6e6dc',
@@ -96,6 +119,10 @@ const MOCK_QUESTIONS = [
 ];
 
 describe('POST /upvoteQuestion', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
   afterEach(async () => {
     await mongoose.connection.close(); // Ensure the connection is properly closed
   });
@@ -118,16 +145,22 @@ describe('POST /upvoteQuestion', () => {
 
     addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-    const response = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/question/upvoteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual(mockResponse);
+    expect(notifyUsersSpy).toHaveBeenCalledWith(expect.anything(), [
+      { type: 'vote', actor: 'new-user', post: mockReqBody.qid, postType: 'question' },
+    ]);
   });
 
   it('should cancel the upvote successfully', async () => {
     const mockReqBody = {
       qid: '65e9b5a995b6c7045a30d823',
-      username: 'some-user',
+      username: 'new-user',
     };
 
     const mockSecondResponse = {
@@ -136,11 +169,17 @@ describe('POST /upvoteQuestion', () => {
       downVotes: [],
     };
 
-    await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+    await supertest(app)
+      .post('/question/upvoteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     addVoteToQuestionSpy.mockResolvedValueOnce(mockSecondResponse);
 
-    const response = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/question/upvoteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual(mockSecondResponse);
@@ -161,7 +200,10 @@ describe('POST /upvoteQuestion', () => {
 
     addVoteToQuestionSpy.mockResolvedValueOnce(mockResponseWithBothVotes);
 
-    let response = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+    let response = await supertest(app)
+      .post('/question/upvoteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual(mockResponseWithBothVotes);
@@ -175,7 +217,10 @@ describe('POST /upvoteQuestion', () => {
 
     addVoteToQuestionSpy.mockResolvedValueOnce(mockResponseWithBothVotes);
 
-    response = await supertest(app).post('/question/downvoteQuestion').send(mockReqBody);
+    response = await supertest(app)
+      .post('/question/downvoteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual(mockResponseWithBothVotes);
@@ -183,26 +228,68 @@ describe('POST /upvoteQuestion', () => {
 
   it('should return bad request error if the request had qid missing', async () => {
     const mockReqBody = {
-      username: 'some-user',
+      username: 'new-user',
     };
 
-    const response = await supertest(app).post(`/question/upvoteQuestion`).send(mockReqBody);
+    const response = await supertest(app)
+      .post(`/question/upvoteQuestion`)
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
   });
 
-  it('should return bad request error if the request had username missing', async () => {
+  it('should upvote as the authenticated user if the request had username missing', async () => {
     const mockReqBody = {
       qid: '65e9b5a995b6c7045a30d823',
     };
 
+    addVoteToQuestionSpy.mockResolvedValueOnce({ msg: '', upVotes: [], downVotes: [] });
+
+    const response = await supertest(app)
+      .post(`/question/upvoteQuestion`)
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(200);
+    expect(addVoteToQuestionSpy).toHaveBeenLastCalledWith(
+      '65e9b5a995b6c7045a30d823',
+      'new-user',
+      'upvote',
+    );
+  });
+
+  it('should return forbidden error if the username is not the authenticated user', async () => {
+    const mockReqBody = {
+      qid: '65e9b5a995b6c7045a30d823',
+      username: 'some-user',
+    };
+
+    const response = await supertest(app)
+      .post(`/question/upvoteQuestion`)
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return unauthorized error if the bearer token is missing', async () => {
+    const mockReqBody = {
+      qid: '65e9b5a995b6c7045a30d823',
+      username: 'new-user',
+    };
+
     const response = await supertest(app).post(`/question/upvoteQuestion`).send(mockReqBody);
 
-    expect(response.status).toBe(400);
+    expect(response.status).toBe(401);
   });
 });
 
 describe('POST /downvoteQuestion', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
   afterEach(async () => {
     await mongoose.connection.close(); // Ensure the connection is properly closed
   });
@@ -225,16 +312,33 @@ describe('POST /downvoteQuestion', () => {
 
     addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-    const response = await supertest(app).post('/question/downvoteQuestion').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/question/downvoteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual(mockResponse);
   });
 
+  it('should return forbidden if the user lacks the reputation to downvote', async () => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 1 }, 'findOne');
+    addVoteToQuestionSpy.mockClear();
+
+    const response = await supertest(app)
+      .post('/question/downvoteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Downvoting requires at least 125 reputation');
+    expect(addVoteToQuestionSpy).not.toHaveBeenCalled();
+  });
+
   it('should cancel the downvote successfully', async () => {
     const mockReqBody = {
       qid: '65e9b5a995b6c7045a30d823',
-      username: 'some-user',
+      username: 'new-user',
     };
 
     const mockSecondResponse = {
@@ -243,11 +347,17 @@ describe('POST /downvoteQuestion', () => {
       upVotes: [],
     };
 
-    await supertest(app).post('/question/downvoteQuestion').send(mockReqBody);
+    await supertest(app)
+      .post('/question/downvoteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     addVoteToQuestionSpy.mockResolvedValueOnce(mockSecondResponse);
 
-    const response = await supertest(app).post('/question/downvoteQuestion').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/question/downvoteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual(mockSecondResponse);
@@ -268,7 +378,10 @@ describe('POST /downvoteQuestion', () => {
 
     addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-    let response = await supertest(app).post('/question/downvoteQuestion').send(mockReqBody);
+    let response = await supertest(app)
+      .post('/question/downvoteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual(mockResponse);
@@ -282,7 +395,10 @@ describe('POST /downvoteQuestion', () => {
 
     addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-    response = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+    response = await supertest(app)
+      .post('/question/upvoteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual(mockResponse);
@@ -290,22 +406,60 @@ describe('POST /downvoteQuestion', () => {
 
   it('should return bad request error if the request had qid missing', async () => {
     const mockReqBody = {
-      username: 'some-user',
+      username: 'new-user',
     };
 
-    const response = await supertest(app).post(`/question/downvoteQuestion`).send(mockReqBody);
+    const response = await supertest(app)
+      .post(`/question/downvoteQuestion`)
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
   });
 
-  it('should return bad request error if the request had username missing', async () => {
+  it('should downvote as the authenticated user if the request had username missing', async () => {
+    const mockReqBody = {
+      qid: '65e9b5a995b6c7045a30d823',
+    };
+
+    addVoteToQuestionSpy.mockResolvedValueOnce({ msg: '', upVotes: [], downVotes: [] });
+
+    const response = await supertest(app)
+      .post(`/question/downvoteQuestion`)
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(200);
+    expect(addVoteToQuestionSpy).toHaveBeenLastCalledWith(
+      '65e9b5a995b6c7045a30d823',
+      'new-user',
+      'downvote',
+    );
+  });
+
+  it('should return forbidden error if the username is not the authenticated user', async () => {
     const mockReqBody = {
       qid: '65e9b5a995b6c7045a30d823',
+      username: 'some-user',
+    };
+
+    const response = await supertest(app)
+      .post(`/question/downvoteQuestion`)
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return unauthorized error if the bearer token is missing', async () => {
+    const mockReqBody = {
+      qid: '65e9b5a995b6c7045a30d823',
+      username: 'new-user',
     };
 
     const response = await supertest(app).post(`/question/downvoteQuestion`).send(mockReqBody);
 
-    expect(response.status).toBe(400);
+    expect(response.status).toBe(401);
   });
 });
 
@@ -397,6 +551,70 @@ describe('GET /getQuestionById/:qid', () => {
     expect(response.body).toEqual(expectedResponse);
   });
 
+  it('should redact a hidden question and its hidden answers for anonymous users', async () => {
+    const hiddenQuestion = {
+      _id: new mongoose.Types.ObjectId('65e9b5a995b6c7045a30d823'),
+      title: 'Spam title',
+      text: 'Spam text',
+      tags: [],
+      answers: [{ ...ans1, hiddenAt: '2024-06-12' }, ans2],
+      comments: [],
+      askedBy: 'new-user',
+      askDateTime: new Date('2024-06-08'),
+      views: [],
+      upVotes: [],
+      downVotes: [],
+      hiddenAt: new Date('2024-06-12'),
+      revisions: [
+        {
+          editedBy: 'new-user',
+          editDateTime: new Date('2024-06-11'),
+          changes: [{ field: 'title', before: 'Earlier spam title', after: 'Spam title' }],
+        },
+      ],
+    };
+    jest
+      .spyOn(util, 'fetchAndIncrementQuestionViewsById')
+      .mockResolvedValueOnce(hiddenQuestion as unknown as Question);
+
+    const response = await supertest(app).get(
+      `/question/getQuestionById/${hiddenQuestion._id.toString()}?username=question2_user`,
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ title: 'Hidden question', text: '', revisions: [] });
+    expect(response.body.answers[0]).toMatchObject({ _id: ans1._id, text: '' });
+    expect(response.body.answers[1]).toMatchObject({ _id: ans2._id, text: ans2.text });
+  });
+
+  it('should show a hidden question to its author', async () => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+    const hiddenQuestion = {
+      _id: new mongoose.Types.ObjectId('65e9b5a995b6c7045a30d823'),
+      title: 'Own title',
+      text: 'Own text',
+      tags: [],
+      answers: [],
+      comments: [],
+      askedBy: 'new-user',
+      askDateTime: new Date('2024-06-08'),
+      views: [],
+      upVotes: [],
+      downVotes: [],
+      hiddenAt: new Date('2024-06-12'),
+    };
+    jest
+      .spyOn(util, 'fetchAndIncrementQuestionViewsById')
+      .mockResolvedValueOnce(hiddenQuestion as unknown as Question);
+
+    const response = await supertest(app)
+      .get(`/question/getQuestionById/${hiddenQuestion._id.toString()}?username=new-user`)
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ title: 'Own title', text: 'Own text' });
+  });
+
   it('should return bad request error if the question id is not in the correct format', async () => {
     // Mock request parameters
     const mockReqParams = {
@@ -476,3 +694,970 @@ describe('GET /getQuestionById/:qid', () => {
     expect(response.status).toBe(500);
   });
 });
+
+describe('POST /editQuestion', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should edit a question and return the populated question', async () => {
+    const mockReqBody = {
+      qid: '65e9b5a995b6c7045a30d823',
+      title: 'Edited Title',
+      tags: [tag2],
+    };
+    const editedQuestion = { ...MOCK_QUESTIONS[1], title: 'Edited Title' };
+
+    const processTagsSpy = jest
+      .spyOn(util, 'processTags')
+      .mockResolvedValueOnce([tag2] as unknown as Tag[]);
+    const editQuestionSpy = jest
+      .spyOn(util, 'editQuestion')
+      .mockResolvedValueOnce(editedQuestion as unknown as Question);
+    jest
+      .spyOn(util, 'populateDocument')
+      .mockResolvedValueOnce(editedQuestion as unknown as Question);
+
+    const response = await supertest(app)
+      .post('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(200);
+    expect(response.body.title).toBe('Edited Title');
+    expect(processTagsSpy).toHaveBeenCalledWith([tag2]);
+    expect(editQuestionSpy).toHaveBeenCalledWith(
+      '65e9b5a995b6c7045a30d823',
+      'new-user',
+      { title: 'Edited Title', text: undefined, tags: [tag2] },
+      false,
+    );
+  });
+
+  it("should let a user with enough reputation edit other users' questions", async () => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 2000 }, 'findOne');
+    const editedQuestion = { ...MOCK_QUESTIONS[1], text: 'Edited Text' };
+
+    const editQuestionSpy = jest
+      .spyOn(util, 'editQuestion')
+      .mockResolvedValueOnce(editedQuestion as unknown as Question);
+    jest
+      .spyOn(util, 'populateDocument')
+      .mockResolvedValueOnce(editedQuestion as unknown as Question);
+
+    const response = await supertest(app)
+      .post('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', text: 'Edited Text' });
+
+    expect(response.status).toBe(200);
+    expect(editQuestionSpy).toHaveBeenCalledWith(
+      '65e9b5a995b6c7045a30d823',
+      'new-user',
+      { title: undefined, text: 'Edited Text', tags: undefined },
+      true,
+    );
+  });
+
+  it('should normalize the tag names before saving them', async () => {
+    const editedQuestion = { ...MOCK_QUESTIONS[1] };
+    const processTagsSpy = jest
+      .spyOn(util, 'processTags')
+      .mockResolvedValueOnce([tag2] as unknown as Tag[]);
+    jest.spyOn(util, 'editQuestion').mockResolvedValueOnce(editedQuestion as unknown as Question);
+    jest
+      .spyOn(util, 'populateDocument')
+      .mockResolvedValueOnce(editedQuestion as unknown as Question);
+
+    const response = await supertest(app)
+      .post('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', tags: [{ name: ' Node JS' }, { name: 'node_js' }] });
+
+    expect(response.status).toBe(200);
+    expect(processTagsSpy).toHaveBeenCalledWith([{ name: 'node-js' }]);
+    expect(findNewTagNamesSpy).toHaveBeenCalledWith(['node-js']);
+  });
+
+  it('should return forbidden if a user without the reputation adds a new tag', async () => {
+    findNewTagNamesSpy.mockResolvedValueOnce(['brand-new']);
+    const editQuestionSpy = jest.spyOn(util, 'editQuestion');
+    editQuestionSpy.mockClear();
+
+    const response = await supertest(app)
+      .post('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', tags: [tag2, { name: 'brand-new' }] });
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe(
+      'Creating new tags requires at least 300 reputation. New tags: brand-new',
+    );
+    expect(editQuestionSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return bad request if the question would have too many tags', async () => {
+    const tags = ['a', 'b', 'c', 'd', 'e', 'f'].map(name => ({ name }));
+
+    const response = await supertest(app)
+      .post('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', tags });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Questions cannot have more than 5 tags');
+  });
+
+  it('should return bad request if no field is being edited', async () => {
+    const response = await supertest(app)
+      .post('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return bad request if the text is not a string', async () => {
+    const response = await supertest(app)
+      .post('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', text: ['Edited Text'] });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return bad request if the title is empty', async () => {
+    const response = await supertest(app)
+      .post('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', title: '' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return forbidden if the user did not ask the question', async () => {
+    jest
+      .spyOn(util, 'editQuestion')
+      .mockResolvedValueOnce({ error: 'Only the author can edit this question' });
+
+    const response = await supertest(app)
+      .post('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', text: 'Edited Text' });
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Only the author can edit this question');
+  });
+
+  it('should return not found if the question does not exist', async () => {
+    jest.spyOn(util, 'editQuestion').mockResolvedValueOnce({ error: 'Question not found' });
+
+    const response = await supertest(app)
+      .post('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', text: 'Edited Text' });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return unauthorized if the bearer token is missing', async () => {
+    const response = await supertest(app)
+      .post('/question/editQuestion')
+      .send({ qid: '65e9b5a995b6c7045a30d823', text: 'Edited Text' });
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('POST /deleteQuestion', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should delete a question and return it with its deletion time', async () => {
+    const deletedQuestion = { ...MOCK_QUESTIONS[1], deletedAt: new Date('2024-06-06') };
+
+    jest
+      .spyOn(util, 'deleteQuestion')
+      .mockResolvedValueOnce(deletedQuestion as unknown as Question);
+
+    const response = await supertest(app)
+      .post('/question/deleteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.deletedAt).toBe(new Date('2024-06-06').toISOString());
+  });
+
+  it('should return bad request if the question id is not valid', async () => {
+    const response = await supertest(app)
+      .post('/question/deleteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: 'invalid' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return forbidden if the user did not ask the question', async () => {
+    jest
+      .spyOn(util, 'deleteQuestion')
+      .mockResolvedValueOnce({ error: 'Only the author can delete this question' });
+
+    const response = await supertest(app)
+      .post('/question/deleteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return 500 if the deletion fails', async () => {
+    jest
+      .spyOn(util, 'deleteQuestion')
+      .mockResolvedValueOnce({ error: 'Error when deleting a question' });
+
+    const response = await supertest(app)
+      .post('/question/deleteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('POST /acceptAnswer', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should accept an answer and return the populated question', async () => {
+    const acceptedQuestion = { ...MOCK_QUESTIONS[1], acceptedAnswer: ans2._id };
+
+    const setAcceptedAnswerSpy = jest
+      .spyOn(util, 'setAcceptedAnswer')
+      .mockResolvedValueOnce(acceptedQuestion as unknown as Question);
+    jest
+      .spyOn(util, 'populateDocument')
+      .mockResolvedValueOnce(acceptedQuestion as unknown as Question);
+
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', aid: ans2._id });
+
+    expect(response.status).toBe(200);
+    expect(response.body.acceptedAnswer).toBe(ans2._id);
+    expect(setAcceptedAnswerSpy).toHaveBeenCalledWith(
+      '65e9b5a995b6c7045a30d823',
+      ans2._id,
+      'new-user',
+    );
+    expect(notifyUsersSpy).toHaveBeenCalledWith(expect.anything(), [
+      {
+        type: 'acceptedAnswer',
+        actor: 'new-user',
+        post: ans2._id,
+        postType: 'answer',
+        question: '65e9b5a995b6c7045a30d823',
+      },
+    ]);
+  });
+
+  it('should redact the hidden answers of the returned question', async () => {
+    const acceptedQuestion = {
+      ...MOCK_QUESTIONS[1],
+      answers: [{ ...ans1, hiddenAt: '2024-06-12' }, ans2],
+      acceptedAnswer: ans2._id,
+    };
+    jest
+      .spyOn(util, 'setAcceptedAnswer')
+      .mockResolvedValueOnce(acceptedQuestion as unknown as Question);
+    jest
+      .spyOn(util, 'populateDocument')
+      .mockResolvedValueOnce(acceptedQuestion as unknown as Question);
+
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', aid: ans2._id });
+
+    expect(response.status).toBe(200);
+    expect(response.body.answers[0]).toMatchObject({ _id: ans1._id, text: '' });
+    expect(response.body.answers[1]).toMatchObject({ _id: ans2._id, text: ans2.text });
+  });
+
+  it('should return bad request if the answer id is missing', async () => {
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return forbidden if the user did not ask the question', async () => {
+    jest
+      .spyOn(util, 'setAcceptedAnswer')
+      .mockResolvedValueOnce({ error: 'Only the asker can accept an answer' });
+
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', aid: ans2._id });
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Only the asker can accept an answer');
+  });
+
+  it('should return not found if the answer is not on the question', async () => {
+    jest.spyOn(util, 'setAcceptedAnswer').mockResolvedValueOnce({ error: 'Answer not found' });
+
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', aid: ans1._id });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return unauthorized if the bearer token is missing', async () => {
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .send({ qid: '65e9b5a995b6c7045a30d823', aid: ans2._id });
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('POST /unacceptAnswer', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should clear the accepted answer', async () => {
+    const setAcceptedAnswerSpy = jest
+      .spyOn(util, 'setAcceptedAnswer')
+      .mockResolvedValueOnce(MOCK_QUESTIONS[1] as unknown as Question);
+    jest
+      .spyOn(util, 'populateDocument')
+      .mockResolvedValueOnce(MOCK_QUESTIONS[1] as unknown as Question);
+
+    const response = await supertest(app)
+      .post('/question/unacceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.acceptedAnswer).toBeUndefined();
+    expect(setAcceptedAnswerSpy).toHaveBeenCalledWith('65e9b5a995b6c7045a30d823', null, 'new-user');
+  });
+
+  it('should return 500 if clearing the accepted answer fails', async () => {
+    jest
+      .spyOn(util, 'setAcceptedAnswer')
+      .mockResolvedValueOnce({ error: 'Error when accepting an answer' });
+
+    const response = await supertest(app)
+      .post('/question/unacceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+    expect(response.status).toBe(500);
+  });
+});
+
+const mockFeedback = {
+  qid: '65e9b5a995b6c7045a30d823',
+  aiAnswerFeedback: { helpful: ['new-user'], unhelpful: [], flags: [], hidden: false },
+};
+
+describe('POST /rateAIAnswer', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should rate the AI answer as the authenticated user', async () => {
+    const rateAIAnswerSpy = jest
+      .spyOn(aiAnswerOperations, 'rateAIAnswer')
+      .mockResolvedValueOnce(mockFeedback);
+
+    const response = await supertest(app)
+      .post('/question/rateAIAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', rating: 'helpful' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(mockFeedback);
+    expect(rateAIAnswerSpy).toHaveBeenCalledWith('65e9b5a995b6c7045a30d823', 'new-user', 'helpful');
+  });
+
+  it('should return bad request if the rating is unknown', async () => {
+    const response = await supertest(app)
+      .post('/question/rateAIAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', rating: 'great' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 if the question has no AI answer', async () => {
+    jest
+      .spyOn(aiAnswerOperations, 'rateAIAnswer')
+      .mockResolvedValueOnce({ error: 'AI answer not available' });
+
+    const response = await supertest(app)
+      .post('/question/rateAIAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', rating: 'unhelpful' });
+
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('AI answer not available');
+  });
+});
+
+describe('POST /flagAIAnswer', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should flag the AI answer with the given reason', async () => {
+    const flagAIAnswerSpy = jest
+      .spyOn(aiAnswerOperations, 'flagAIAnswer')
+      .mockResolvedValueOnce(mockFeedback);
+
+    const response = await supertest(app)
+      .post('/question/flagAIAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', reason: ' The command does not exist ' });
+
+    expect(response.status).toBe(200);
+    expect(flagAIAnswerSpy).toHaveBeenCalledWith(
+      '65e9b5a995b6c7045a30d823',
+      'new-user',
+      'The command does not exist',
+    );
+  });
+
+  it('should return bad request if the user already flagged the AI answer', async () => {
+    jest
+      .spyOn(aiAnswerOperations, 'flagAIAnswer')
+      .mockResolvedValueOnce({ error: 'AI answer already flagged' });
+
+    const response = await supertest(app)
+      .post('/question/flagAIAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('POST /hideAIAnswer', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should hide the AI answer', async () => {
+    const setAIAnswerHiddenSpy = jest
+      .spyOn(aiAnswerOperations, 'setAIAnswerHidden')
+      .mockResolvedValueOnce({
+        ...mockFeedback,
+        aiAnswerFeedback: { ...mockFeedback.aiAnswerFeedback, hidden: true },
+      });
+
+    const response = await supertest(app)
+      .post('/question/hideAIAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', hidden: true });
+
+    expect(response.status).toBe(200);
+    expect(response.body.aiAnswerFeedback.hidden).toBe(true);
+    expect(setAIAnswerHiddenSpy).toHaveBeenCalledWith('65e9b5a995b6c7045a30d823', 'new-user', true);
+  });
+
+  it('should return forbidden if the user is not the asker', async () => {
+    jest
+      .spyOn(aiAnswerOperations, 'setAIAnswerHidden')
+      .mockResolvedValueOnce({ error: 'Only the asker can hide the AI answer' });
+
+    const response = await supertest(app)
+      .post('/question/hideAIAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', hidden: true });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return bad request if hidden is not a boolean', async () => {
+    const response = await supertest(app)
+      .post('/question/hideAIAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', hidden: 'yes' });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('GET /aiAnswerReport', () => {
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should return the worst-rated AI answers to a moderator', async () => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 10000 }, 'findOne');
+    const report = [
+      {
+        qid: '65e9b5a995b6c7045a30d823',
+        title: 'Question 2',
+        text: 'Question 2 Text',
+        aiGeneratedAnswer: 'A wrong answer',
+        helpful: 0,
+        unhelpful: 2,
+        flags: [],
+        score: 2,
+      },
+    ];
+    const getAIAnswerReportSpy = jest
+      .spyOn(aiAnswerOperations, 'getAIAnswerReport')
+      .mockResolvedValueOnce(report);
+
+    const response = await supertest(app)
+      .get('/question/aiAnswerReport?limit=5')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(report);
+    expect(getAIAnswerReportSpy).toHaveBeenCalledWith(5);
+  });
+
+  it('should return forbidden to users without the moderation privilege', async () => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+
+    const response = await supertest(app)
+      .get('/question/aiAnswerReport')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Using the moderation tools requires at least 10000 reputation');
+  });
+});
+
+describe('GET /similar', () => {
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should return the questions similar to the one being asked', async () => {
+    const similar = [
+      {
+        qid: '65e9b5a995b6c7045a30d823',
+        title: 'Question 2',
+        tags: ['tag1'],
+        answerCount: 1,
+        hasAcceptedAnswer: false,
+        askDateTime: new Date('2024-06-04'),
+        score: 0.8,
+      },
+    ];
+    const findSimilarQuestionsSpy = jest
+      .spyOn(duplicateOperations, 'findSimilarQuestions')
+      .mockResolvedValueOnce(similar);
+
+    const response = await supertest(app).get('/question/similar').query({
+      title: 'Question 2',
+      text: 'Some details',
+      tags: 'tag1  tag2',
+      exclude: '65e9b58910afe6e94fc6e6dc',
+      limit: '3',
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([{ ...similar[0], askDateTime: '2024-06-04T00:00:00.000Z' }]);
+    expect(findSimilarQuestionsSpy).toHaveBeenCalledWith(
+      { title: 'Question 2', text: 'Some details', tags: ['tag1', 'tag2'] },
+      '65e9b58910afe6e94fc6e6dc',
+      3,
+    );
+  });
+
+  it('should return bad request if there is no title or text to compare', async () => {
+    const response = await supertest(app).get('/question/similar').query({ tags: 'tag1' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return bad request if the question to leave out is not a valid ID', async () => {
+    const response = await supertest(app)
+      .get('/question/similar')
+      .query({ title: 'Question', exclude: 'invalid' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return a database error if finding similar questions fails', async () => {
+    jest
+      .spyOn(duplicateOperations, 'findSimilarQuestions')
+      .mockResolvedValueOnce({ error: 'Error when finding similar questions' });
+
+    const response = await supertest(app).get('/question/similar').query({ title: 'Question' });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe(
+      'Error when finding similar questions: Error when finding similar questions',
+    );
+  });
+});
+
+describe('POST /voteToClose', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 500 }, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  const mockReqBody = {
+    qid: '65e9b58910afe6e94fc6e6dc',
+    reason: 'duplicate',
+    duplicateOf: '65e9b5a995b6c7045a30d823',
+  };
+
+  it('should record the vote and emit the question', async () => {
+    const closeVotes = [
+      { username: authUser.username, reason: 'offTopic' as const, createdAt: new Date() },
+    ];
+    const voteToCloseSpy = jest
+      .spyOn(closeOperations, 'voteToClose')
+      .mockResolvedValueOnce({ ...MOCK_QUESTIONS[0], closeVotes } as unknown as Question);
+    jest
+      .spyOn(util, 'populateDocument')
+      .mockResolvedValueOnce({ ...MOCK_QUESTIONS[0], closeVotes } as unknown as Question);
+
+    const response = await supertest(app)
+      .post('/question/voteToClose')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: mockReqBody.qid, reason: 'offTopic', duplicateOf: mockReqBody.duplicateOf });
+
+    expect(response.status).toBe(200);
+    expect(response.body.closeVotes).toHaveLength(1);
+    expect(voteToCloseSpy).toHaveBeenCalledWith(
+      mockReqBody.qid,
+      authUser.username,
+      'offTopic',
+      undefined,
+      3,
+    );
+  });
+
+  it('should make the vote of a moderator binding', async () => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 10000 }, 'findOne');
+    const closure = {
+      reason: 'duplicate' as const,
+      duplicateOf: new mongoose.Types.ObjectId(mockReqBody.duplicateOf),
+      closedBy: [authUser.username],
+      closedAt: new Date('2024-06-10'),
+    };
+    const voteToCloseSpy = jest
+      .spyOn(closeOperations, 'voteToClose')
+      .mockResolvedValueOnce({ ...MOCK_QUESTIONS[0], closure } as unknown as Question);
+    jest
+      .spyOn(util, 'populateDocument')
+      .mockResolvedValueOnce({ ...MOCK_QUESTIONS[0], closure } as unknown as Question);
+
+    const response = await supertest(app)
+      .post('/question/voteToClose')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(200);
+    expect(response.body.closure).toEqual({
+      reason: 'duplicate',
+      duplicateOf: mockReqBody.duplicateOf,
+      closedBy: [authUser.username],
+      closedAt: '2024-06-10T00:00:00.000Z',
+    });
+    expect(voteToCloseSpy).toHaveBeenCalledWith(
+      mockReqBody.qid,
+      authUser.username,
+      'duplicate',
+      mockReqBody.duplicateOf,
+      1,
+    );
+  });
+
+  it('should return bad request if the reason is unknown', async () => {
+    const response = await supertest(app)
+      .post('/question/voteToClose')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: mockReqBody.qid, reason: 'boring' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return bad request if a duplicate vote does not name the original', async () => {
+    const response = await supertest(app)
+      .post('/question/voteToClose')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: mockReqBody.qid, reason: 'duplicate' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return forbidden to users without the privilege to vote to close', async () => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+    const voteToCloseSpy = jest.spyOn(closeOperations, 'voteToClose');
+    voteToCloseSpy.mockClear();
+
+    const response = await supertest(app)
+      .post('/question/voteToClose')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe(
+      'Voting to close and reopen questions requires at least 500 reputation',
+    );
+    expect(voteToCloseSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return not found if the original question does not exist', async () => {
+    jest
+      .spyOn(closeOperations, 'voteToClose')
+      .mockResolvedValueOnce({ error: 'Original question not found' });
+
+    const response = await supertest(app)
+      .post('/question/voteToClose')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('Original question not found');
+  });
+
+  it('should return bad request if the user already voted', async () => {
+    jest
+      .spyOn(closeOperations, 'voteToClose')
+      .mockResolvedValueOnce({ error: 'Already voted to close this question' });
+
+    const response = await supertest(app)
+      .post('/question/voteToClose')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Already voted to close this question');
+  });
+});
+
+describe('POST /voteToReopen', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 500 }, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  const qid = '65e9b58910afe6e94fc6e6dc';
+
+  it('should record the vote and emit the question', async () => {
+    const voteToReopenSpy = jest
+      .spyOn(closeOperations, 'voteToReopen')
+      .mockResolvedValueOnce(MOCK_QUESTIONS[0] as unknown as Question);
+    jest
+      .spyOn(util, 'populateDocument')
+      .mockResolvedValueOnce(MOCK_QUESTIONS[0] as unknown as Question);
+
+    const response = await supertest(app)
+      .post('/question/voteToReopen')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(200);
+    expect(voteToReopenSpy).toHaveBeenCalledWith(qid, authUser.username, 3);
+  });
+
+  it('should return bad request if the question is not closed', async () => {
+    jest
+      .spyOn(closeOperations, 'voteToReopen')
+      .mockResolvedValueOnce({ error: 'Question is not closed' });
+
+    const response = await supertest(app)
+      .post('/question/voteToReopen')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Question is not closed');
+  });
+
+  it('should return bad request if the question ID is invalid', async () => {
+    const response = await supertest(app)
+      .post('/question/voteToReopen')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: 'invalid' });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('POST /lockQuestion', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 10000 }, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  const qid = '65e9b58910afe6e94fc6e6dc';
+
+  it('should lock the question and emit it when a moderator locks it', async () => {
+    const lock = { lockedBy: authUser.username, lockedAt: new Date(), reason: 'Edit war' };
+    const logModeratorActionSpy = jest
+      .spyOn(moderationOperations, 'logModeratorAction')
+      .mockResolvedValueOnce({ error: 'Not recorded in this test' });
+    const setQuestionLockSpy = jest
+      .spyOn(closeOperations, 'setQuestionLock')
+      .mockResolvedValueOnce({ ...MOCK_QUESTIONS[0], lock } as unknown as Question);
+    jest
+      .spyOn(util, 'populateDocument')
+      .mockResolvedValueOnce({ ...MOCK_QUESTIONS[0], lock } as unknown as Question);
+
+    const response = await supertest(app)
+      .post('/question/lockQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, locked: true, reason: ' Edit war ' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.lock.reason).toBe('Edit war');
+    expect(setQuestionLockSpy).toHaveBeenCalledWith(qid, authUser.username, true, 'Edit war');
+    expect(logModeratorActionSpy).toHaveBeenCalledWith({
+      moderator: authUser.username,
+      action: 'lockQuestion',
+      postType: 'question',
+      post: new mongoose.Types.ObjectId(qid),
+      question: new mongoose.Types.ObjectId(qid),
+      details: 'Edit war',
+    });
+  });
+
+  it('should return bad request if whether to lock is missing', async () => {
+    const response = await supertest(app)
+      .post('/question/lockQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return forbidden to users without the moderation privilege', async () => {
+    mockingoose(UserModel).toReturn({ ...authUser, reputation: 500 }, 'findOne');
+
+    const response = await supertest(app)
+      .post('/question/lockQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, locked: true });
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Using the moderation tools requires at least 10000 reputation');
+  });
+
+  it('should return not found if the question does not exist', async () => {
+    jest
+      .spyOn(closeOperations, 'setQuestionLock')
+      .mockResolvedValueOnce({ error: 'Question not found' });
+
+    const response = await supertest(app)
+      .post('/question/lockQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, locked: false });
+
+    expect(response.status).toBe(404);
+  });
+});
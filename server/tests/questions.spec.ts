@@ -4,8 +4,7 @@ import { app } from '../app';
 import * as util from '../models/application';
 import { Answer, Question, Tag } from '../types';
 
-const getQuestionsByOrderSpy: jest.SpyInstance = jest.spyOn(util, 'getQuestionsByOrder');
-const filterQuestionsBySearchSpy: jest.SpyInstance = jest.spyOn(util, 'filterQuestionsBySearch');
+const getQuestionPageSpy: jest.SpyInstance = jest.spyOn(util, 'getQuestionPage');
 
 const tag1: Tag = {
   _id: new mongoose.Types.ObjectId('507f191e810c19729de860ea'),
@@ -113,55 +112,79 @@ describe('GET /getQuestion', () => {
     await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
   });
 
-  it('should return the result of filterQuestionsBySearch as response even if request parameters of order and search are absent', async () => {
-    getQuestionsByOrderSpy.mockResolvedValueOnce(MOCK_QUESTIONS);
-    filterQuestionsBySearchSpy.mockReturnValueOnce(MOCK_QUESTIONS);
+  it('should return the page of questions even if request parameters of order and search are absent', async () => {
+    getQuestionPageSpy.mockResolvedValueOnce({ questions: MOCK_QUESTIONS, total: 3 });
     // Making the request
     const response = await supertest(app).get('/question/getQuestion');
 
     // Asserting the response
     expect(response.status).toBe(200);
-    expect(response.body).toEqual(EXPECTED_QUESTIONS);
+    expect(response.body).toEqual({ questions: EXPECTED_QUESTIONS, total: 3 });
   });
 
-  it('should return the result of filterQuestionsBySearch as response for an order and search criteria in the request parameters', async () => {
+  it('should return the page of questions for an order and search criteria in the request parameters', async () => {
     // Mock request query parameters
     const mockReqQuery = {
-      order: 'dummyOrder',
+      order: 'newest',
       search: 'dummySearch',
+      askedBy: 'question1_user',
+      limit: '2',
+      cursor: 'dummyCursor',
     };
-    getQuestionsByOrderSpy.mockResolvedValueOnce(MOCK_QUESTIONS);
-    filterQuestionsBySearchSpy.mockReturnValueOnce(MOCK_QUESTIONS);
+    getQuestionPageSpy.mockResolvedValueOnce({
+      questions: MOCK_QUESTIONS.slice(0, 2),
+      total: 3,
+      nextCursor: 'nextCursor',
+    });
     // Making the request
     const response = await supertest(app).get('/question/getQuestion').query(mockReqQuery);
 
     // Asserting the response
     expect(response.status).toBe(200);
-    expect(response.body).toEqual(EXPECTED_QUESTIONS);
+    expect(response.body).toEqual({
+      questions: EXPECTED_QUESTIONS.slice(0, 2),
+      total: 3,
+      nextCursor: 'nextCursor',
+    });
+    expect(getQuestionPageSpy).toHaveBeenLastCalledWith('newest', {
+      search: 'dummySearch',
+      askedBy: 'question1_user',
+      limit: 2,
+      cursor: 'dummyCursor',
+    });
   });
 
-  it('should return error if getQuestionsByOrder throws an error', async () => {
-    // Mock request query parameters
-    const mockReqQuery = {
-      order: 'dummyOrder',
-      search: 'dummySearch',
-    };
-    getQuestionsByOrderSpy.mockRejectedValueOnce(new Error('Error fetching questions'));
-    // Making the request
-    const response = await supertest(app).get('/question/getQuestion').query(mockReqQuery);
+  it('should return bad request if the limit is not a positive integer', async () => {
+    const response = await supertest(app).get('/question/getQuestion').query({ limit: 'ten' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return bad request if the cursor is invalid', async () => {
+    getQuestionPageSpy.mockResolvedValueOnce({ error: 'Invalid cursor' });
+
+    const response = await supertest(app).get('/question/getQuestion').query({ cursor: 'bad' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid cursor');
+  });
+
+  it('should return error if getQuestionPage returns an error', async () => {
+    getQuestionPageSpy.mockResolvedValueOnce({ error: 'Error when fetching questions' });
+
+    const response = await supertest(app).get('/question/getQuestion');
 
-    // Asserting the response
     expect(response.status).toBe(500);
   });
 
-  it('should return error if filterQuestionsBySearch throws an error', async () => {
+  it('should return error if getQuestionPage throws an error', async () => {
     // Mock request query parameters
     const mockReqQuery = {
       order: 'dummyOrder',
       search: 'dummySearch',
     };
-    getQuestionsByOrderSpy.mockResolvedValueOnce(MOCK_QUESTIONS);
-    filterQuestionsBySearchSpy.mockRejectedValueOnce(new Error('Error filtering questions'));
+    getQuestionPageSpy.mockRejectedValueOnce(new Error('Error fetching questions'));
     // Making the request
     const response = await supertest(app).get('/question/getQuestion').query(mockReqQuery);
 
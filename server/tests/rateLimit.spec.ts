@@ -0,0 +1,74 @@
+import express from 'express';
+import supertest from 'supertest';
+import rateLimit from '../middleware/rateLimit';
+import { AuthenticatedRequest, User } from '../types';
+
+/**
+ * Builds an app whose only route is limited, with the user taken from a header in place of
+ * `verifyToken`.
+ */
+const limitedApp = () => {
+  const app = express();
+  app.use((req: AuthenticatedRequest, res, next) => {
+    req.user = { username: req.header('X-User') } as User;
+    next();
+  });
+  app.get('/', rateLimit({ limit: 2, windowMs: 60000, message: 'Slow down' }), (req, res) => {
+    res.send('ok');
+  });
+  return app;
+};
+
+describe('rateLimit', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should reject requests over the limit with the time to wait', async () => {
+    const app = limitedApp();
+
+    await supertest(app).get('/').set('X-User', 'user1').expect(200);
+    await supertest(app).get('/').set('X-User', 'user1').expect(200);
+    const response = await supertest(app).get('/').set('X-User', 'user1');
+
+    expect(response.status).toBe(429);
+    expect(response.text).toBe('Slow down');
+    expect(Number(response.header['retry-after'])).toBeGreaterThan(0);
+  });
+
+  test('should count the requests of each user separately', async () => {
+    const app = limitedApp();
+
+    await supertest(app).get('/').set('X-User', 'user1').expect(200);
+    await supertest(app).get('/').set('X-User', 'user1').expect(200);
+
+    await supertest(app).get('/').set('X-User', 'user2').expect(200);
+  });
+
+  test('should allow requests again once the window has passed', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    const app = limitedApp();
+
+    await supertest(app).get('/').set('X-User', 'user1').expect(200);
+    await supertest(app).get('/').set('X-User', 'user1').expect(200);
+    jest.advanceTimersByTime(60000);
+
+    await supertest(app).get('/').set('X-User', 'user1').expect(200);
+  });
+
+  test('should forget the users whose requests have left the window', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    const deleteSpy = jest.spyOn(Map.prototype, 'delete');
+    const app = limitedApp();
+
+    await supertest(app).get('/').set('X-User', 'user1').expect(200);
+    jest.advanceTimersByTime(30000);
+    await supertest(app).get('/').set('X-User', 'user2').expect(200);
+    jest.advanceTimersByTime(30000);
+    await supertest(app).get('/').set('X-User', 'user3').expect(200);
+
+    expect(deleteSpy).toHaveBeenCalledWith('user1');
+    expect(deleteSpy).not.toHaveBeenCalledWith('user2');
+    deleteSpy.mockRestore();
+  });
+});
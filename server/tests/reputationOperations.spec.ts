@@ -0,0 +1,207 @@
+import mongoose from 'mongoose';
+import {
+  recordVoteReputation,
+  recordAcceptReputation,
+  getReputation,
+} from '../models/reputationOperations';
+import ReputationEventModel from '../models/reputationEvents';
+import UserModel from '../models/users';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const POST_ID = '65e9b58910afe6e94fc6e6dc';
+
+const mockEvent = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6ab'),
+  user: 'author',
+  amount: 10,
+  reason: 'upvote',
+  post: new mongoose.Types.ObjectId(POST_ID),
+  postType: 'answer',
+  actor: 'voter',
+  createdAt: new Date('2024-06-03'),
+};
+
+describe('Reputation model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('recordVoteReputation', () => {
+    test('recordVoteReputation should credit the author for an upvote', async () => {
+      mockingoose(ReputationEventModel).toReturn([], 'find');
+      const insertSpy = jest.spyOn(ReputationEventModel, 'insertMany');
+      const updateSpy = jest.spyOn(UserModel, 'updateOne');
+
+      await recordVoteReputation('answer', POST_ID, 'author', 'voter', {
+        upVotes: ['voter'],
+        downVotes: [],
+      });
+
+      expect(insertSpy).toHaveBeenCalledWith([
+        expect.objectContaining({
+          user: 'author',
+          reason: 'upvote',
+          amount: 10,
+          post: POST_ID,
+          postType: 'answer',
+          actor: 'voter',
+        }),
+      ]);
+      expect(updateSpy).toHaveBeenCalledWith({ username: 'author' }, { $inc: { reputation: 10 } });
+    });
+
+    test('recordVoteReputation should penalise the author and the voter for a downvote on an answer', async () => {
+      mockingoose(ReputationEventModel).toReturn([], 'find');
+      const updateSpy = jest.spyOn(UserModel, 'updateOne');
+
+      await recordVoteReputation('answer', POST_ID, 'author', 'voter', {
+        upVotes: [],
+        downVotes: ['voter'],
+      });
+
+      expect(updateSpy).toHaveBeenCalledWith({ username: 'author' }, { $inc: { reputation: -2 } });
+      expect(updateSpy).toHaveBeenCalledWith({ username: 'voter' }, { $inc: { reputation: -1 } });
+    });
+
+    test('recordVoteReputation should not penalise the voter for a downvote on a question', async () => {
+      mockingoose(ReputationEventModel).toReturn([], 'find');
+      const updateSpy = jest.spyOn(UserModel, 'updateOne');
+
+      await recordVoteReputation('question', POST_ID, 'author', 'voter', {
+        upVotes: [],
+        downVotes: ['voter'],
+      });
+
+      expect(updateSpy).toHaveBeenCalledTimes(1);
+      expect(updateSpy).toHaveBeenCalledWith({ username: 'author' }, { $inc: { reputation: -2 } });
+    });
+
+    test('recordVoteReputation should record reversing events when an upvote is changed to a downvote', async () => {
+      mockingoose(ReputationEventModel).toReturn([mockEvent], 'find');
+      const insertSpy = jest.spyOn(ReputationEventModel, 'insertMany');
+      const updateSpy = jest.spyOn(UserModel, 'updateOne');
+
+      await recordVoteReputation('answer', POST_ID, 'author', 'voter', {
+        upVotes: [],
+        downVotes: ['voter'],
+      });
+
+      expect(insertSpy).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({ user: 'author', reason: 'upvote', amount: -10 }),
+          expect.objectContaining({ user: 'author', reason: 'downvote', amount: -2 }),
+          expect.objectContaining({ user: 'voter', reason: 'downvoteCast', amount: -1 }),
+        ]),
+      );
+      expect(updateSpy).toHaveBeenCalledWith({ username: 'author' }, { $inc: { reputation: -12 } });
+    });
+
+    test('recordVoteReputation should reverse the reputation of a cancelled vote', async () => {
+      mockingoose(ReputationEventModel).toReturn([mockEvent], 'find');
+      const updateSpy = jest.spyOn(UserModel, 'updateOne');
+
+      await recordVoteReputation('answer', POST_ID, 'author', 'voter', {
+        upVotes: [],
+        downVotes: [],
+      });
+
+      expect(updateSpy).toHaveBeenCalledWith({ username: 'author' }, { $inc: { reputation: -10 } });
+    });
+
+    test('recordVoteReputation should not record anything if the vote is already reflected', async () => {
+      mockingoose(ReputationEventModel).toReturn([mockEvent], 'find');
+      const insertSpy = jest.spyOn(ReputationEventModel, 'insertMany');
+
+      await recordVoteReputation('answer', POST_ID, 'author', 'voter', {
+        upVotes: ['voter'],
+        downVotes: [],
+      });
+
+      expect(insertSpy).not.toHaveBeenCalled();
+    });
+
+    test('recordVoteReputation should not count votes on your own post', async () => {
+      mockingoose(ReputationEventModel).toReturn([], 'find');
+      const insertSpy = jest.spyOn(ReputationEventModel, 'insertMany');
+
+      await recordVoteReputation('answer', POST_ID, 'author', 'author', {
+        upVotes: ['author'],
+        downVotes: [],
+      });
+
+      expect(insertSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordAcceptReputation', () => {
+    test('recordAcceptReputation should credit the answer author and the asker', async () => {
+      mockingoose(ReputationEventModel).toReturn([], 'find');
+      const updateSpy = jest.spyOn(UserModel, 'updateOne');
+
+      await recordAcceptReputation(POST_ID, 'author', 'asker', true);
+
+      expect(updateSpy).toHaveBeenCalledWith({ username: 'author' }, { $inc: { reputation: 15 } });
+      expect(updateSpy).toHaveBeenCalledWith({ username: 'asker' }, { $inc: { reputation: 2 } });
+    });
+
+    test('recordAcceptReputation should reverse the reputation when the answer is unaccepted', async () => {
+      mockingoose(ReputationEventModel).toReturn(
+        [
+          { ...mockEvent, reason: 'answerAccepted', amount: 15, actor: 'asker' },
+          { ...mockEvent, user: 'asker', reason: 'acceptedAnswer', amount: 2, actor: 'asker' },
+        ],
+        'find',
+      );
+      const updateSpy = jest.spyOn(UserModel, 'updateOne');
+
+      await recordAcceptReputation(POST_ID, undefined, 'asker', false);
+
+      expect(updateSpy).toHaveBeenCalledWith({ username: 'author' }, { $inc: { reputation: -15 } });
+      expect(updateSpy).toHaveBeenCalledWith({ username: 'asker' }, { $inc: { reputation: -2 } });
+    });
+
+    test('recordAcceptReputation should not credit the asker for accepting their own answer', async () => {
+      mockingoose(ReputationEventModel).toReturn([], 'find');
+      const insertSpy = jest.spyOn(ReputationEventModel, 'insertMany');
+
+      await recordAcceptReputation(POST_ID, 'asker', 'asker', true);
+
+      expect(insertSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReputation', () => {
+    test('getReputation should return the reputation and events of the user', async () => {
+      mockingoose(UserModel).toReturn({ username: 'author', reputation: 11 }, 'findOne');
+      mockingoose(ReputationEventModel).toReturn([mockEvent], 'find');
+
+      const result = await getReputation('author');
+
+      if ('error' in result) {
+        throw new Error('Expected the reputation to be returned');
+      }
+      expect(result.reputation).toEqual(11);
+      expect(result.events).toHaveLength(1);
+      expect(result.events[0].reason).toEqual('upvote');
+    });
+
+    test('getReputation should return an error if the user does not exist', async () => {
+      mockingoose(UserModel).toReturn(null, 'findOne');
+
+      const result = await getReputation('nobody');
+      expect(result).toEqual({ error: 'User not found' });
+    });
+
+    test('getReputation should return an object with error if find throws an error', async () => {
+      mockingoose(UserModel).toReturn({ username: 'author', reputation: 11 }, 'findOne');
+      mockingoose(ReputationEventModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await getReputation('author');
+      expect(result).toEqual({ error: 'Error when fetching reputation' });
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import express from 'express';
+import supertest from 'supertest';
+import requireRole from '../middleware/requireRole';
+import { AuthenticatedRequest, User, UserRole } from '../types';
+
+/**
+ * Builds an app whose only route requires the moderator role, with the user's role taken from a
+ * header in place of `verifyToken`. Without the header, no user is authenticated.
+ */
+const moderatorApp = () => {
+  const app = express();
+  app.use((req: AuthenticatedRequest, res, next) => {
+    const role = req.header('X-Role');
+    if (role !== undefined) {
+      req.user = { username: 'user1', role: role || undefined } as User;
+    }
+    next();
+  });
+  app.get('/', requireRole('moderator'), (req, res) => {
+    res.send('ok');
+  });
+  return app;
+};
+
+describe('requireRole', () => {
+  test.each<UserRole>(['moderator', 'admin'])(
+    'should let a user with the %s role through',
+    async role => {
+      const response = await supertest(moderatorApp()).get('/').set('X-Role', role);
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('ok');
+    },
+  );
+
+  test('should reject a regular user', async () => {
+    const response = await supertest(moderatorApp()).get('/').set('X-Role', 'user');
+
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('This requires the moderator role');
+  });
+
+  test('should treat a user without a role as a regular user', async () => {
+    const response = await supertest(moderatorApp()).get('/').set('X-Role', '');
+
+    expect(response.status).toBe(403);
+  });
+
+  test('should reject a request without an authenticated user', async () => {
+    const response = await supertest(moderatorApp()).get('/');
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,148 @@
+import mongoose from 'mongoose';
+import { buildSearchFilter, findTextMatches } from '../models/searchOperations';
+import { parseSearchQuery } from '../utils/searchQuery';
+import QuestionModel from '../models/questions';
+import AnswerModel from '../models/answers';
+import TagModel from '../models/tags';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const QID1 = '65e9b58910afe6e94fc6e6dc';
+const QID2 = '65e9b5a995b6c7045a30d823';
+const AID = '65e9b58910afe6e94fc6e6dd';
+
+describe('Search model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+    jest.restoreAllMocks();
+  });
+
+  describe('findTextMatches', () => {
+    test('findTextMatches should return undefined if the search has no words or phrases', async () => {
+      const result = await findTextMatches(parseSearchQuery('[react] user:q_by1'));
+
+      expect(result).toBeUndefined();
+    });
+
+    test('findTextMatches should pass phrases and exclusions to the text search', async () => {
+      mockingoose(QuestionModel).toReturn([], 'find');
+      mockingoose(AnswerModel).toReturn([], 'find');
+      const findSpy = jest.spyOn(QuestionModel, 'find');
+
+      await findTextMatches(parseSearchQuery('react "state hook" -class'));
+
+      expect(findSpy).toHaveBeenCalledWith(
+        {
+          $text: { $search: 'react "state hook" -class' },
+          deletedAt: { $exists: false },
+          hiddenAt: { $exists: false },
+        },
+        { score: { $meta: 'textScore' } },
+      );
+    });
+
+    test('findTextMatches should leave hidden answers out of the matches', async () => {
+      mockingoose(QuestionModel).toReturn([], 'find');
+      mockingoose(AnswerModel).toReturn([], 'find');
+      const findSpy = jest.spyOn(AnswerModel, 'find');
+
+      await findTextMatches(parseSearchQuery('react'));
+
+      expect(findSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ hiddenAt: { $exists: false } }),
+        { score: { $meta: 'textScore' } },
+      );
+    });
+
+    test('findTextMatches should rank questions by their own and their answers relevance', async () => {
+      // The text scores are projected by MongoDB, so the queries are stubbed rather than mocked
+      const stubQuery = (result: unknown[]): never =>
+        ({
+          select: () => stubQuery(result),
+          sort: () => stubQuery(result),
+          limit: () => stubQuery(result),
+          lean: () => Promise.resolve(result),
+        }) as never;
+      jest
+        .spyOn(QuestionModel, 'find')
+        .mockReturnValueOnce(
+          stubQuery([
+            { _id: new mongoose.Types.ObjectId(QID1), score: 1 },
+            { _id: new mongoose.Types.ObjectId(QID2), score: 0.8 },
+          ]),
+        )
+        .mockReturnValueOnce(
+          stubQuery([
+            { _id: new mongoose.Types.ObjectId(QID2), answers: [new mongoose.Types.ObjectId(AID)] },
+          ]),
+        );
+      jest
+        .spyOn(AnswerModel, 'find')
+        .mockReturnValueOnce(
+          stubQuery([
+            { _id: new mongoose.Types.ObjectId(AID), text: 'Use local storage', score: 2 },
+          ]),
+        );
+
+      const result = await findTextMatches(parseSearchQuery('storage'));
+
+      expect(result?.ranked.map(id => id.toString())).toEqual([QID2, QID1]);
+      expect(result?.answerText.get(QID2)).toEqual('Use local storage');
+    });
+  });
+
+  describe('buildSearchFilter', () => {
+    test('buildSearchFilter should match everything for a search of only words', async () => {
+      const result = await buildSearchFilter(parseSearchQuery('react hooks'));
+
+      expect(result).toEqual({});
+    });
+
+    test('buildSearchFilter should require all of the tags', async () => {
+      const react = { _id: new mongoose.Types.ObjectId(QID1), name: 'react' };
+      const android = { _id: new mongoose.Types.ObjectId(QID2), name: 'android' };
+      mockingoose(TagModel).toReturn([react, android], 'find');
+
+      const result = await buildSearchFilter(parseSearchQuery('[react] [android]'));
+
+      expect(result).toEqual({ $and: [{ tags: { $all: [react._id, android._id] } }] });
+    });
+
+    test('buildSearchFilter should match nothing if a tag does not exist', async () => {
+      mockingoose(TagModel).toReturn([{ _id: new mongoose.Types.ObjectId(QID1) }], 'find');
+
+      const result = await buildSearchFilter(parseSearchQuery('[react] [missing]'));
+
+      expect(result).toEqual({ $and: [{ _id: { $in: [] } }] });
+    });
+
+    test('buildSearchFilter should filter by the operators and exclusions', async () => {
+      const result = await buildSearchFilter(
+        parseSearchQuery('-class user:q_by1 is:answered score:>5'),
+      );
+
+      expect(result).toEqual({
+        $and: [
+          { title: { $not: /\bclass\b/i } },
+          { text: { $not: /\bclass\b/i } },
+          { askedBy: 'q_by1' },
+          { 'answers.0': { $exists: true } },
+          {
+            $expr: {
+              $gt: [
+                {
+                  $subtract: [
+                    { $size: { $ifNull: ['$upVotes', []] } },
+                    { $size: { $ifNull: ['$downVotes', []] } },
+                  ],
+                },
+                5,
+              ],
+            },
+          },
+        ],
+      });
+    });
+  });
+});
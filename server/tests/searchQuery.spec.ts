@@ -0,0 +1,79 @@
+import { buildSnippet, parseSearchQuery } from '../utils/searchQuery';
+
+describe('Search query', () => {
+  describe('parseSearchQuery', () => {
+    test('parseSearchQuery should return an empty query for an empty search', () => {
+      expect(parseSearchQuery('')).toEqual({
+        terms: [],
+        phrases: [],
+        excluded: [],
+        tags: [],
+        is: [],
+      });
+    });
+
+    test('parseSearchQuery should split words, phrases and exclusions', () => {
+      const query = parseSearchQuery('react "state hook" -class -"legacy context" useEffect');
+
+      expect(query.terms).toEqual(['react', 'useEffect']);
+      expect(query.phrases).toEqual(['state hook']);
+      expect(query.excluded).toEqual(['class', 'legacy context']);
+    });
+
+    test('parseSearchQuery should collect tags', () => {
+      const query = parseSearchQuery('[react] storage [android]');
+
+      expect(query.tags).toEqual(['react', 'android']);
+      expect(query.terms).toEqual(['storage']);
+    });
+
+    test('parseSearchQuery should parse the user, is and score operators', () => {
+      const query = parseSearchQuery('user:q_by1 is:answered is:accepted is:unknown score:>5');
+
+      expect(query.user).toEqual('q_by1');
+      expect(query.is).toEqual(['answered', 'accepted']);
+      expect(query.score).toEqual({ op: '>', value: 5 });
+      expect(query.terms).toEqual([]);
+    });
+
+    test('parseSearchQuery should treat a score without a comparison as a minimum', () => {
+      expect(parseSearchQuery('score:-2').score).toEqual({ op: '>=', value: -2 });
+    });
+  });
+
+  describe('buildSnippet', () => {
+    test('buildSnippet should highlight every match, ignoring case', () => {
+      const snippet = buildSnippet('Storing data: the store stores it', ['store']);
+
+      expect(snippet).toEqual([
+        { text: 'Storing data: the ', match: false },
+        { text: 'store', match: true },
+        { text: ' ', match: false },
+        { text: 'stores', match: true },
+        { text: ' it', match: false },
+      ]);
+    });
+
+    test('buildSnippet should match phrases', () => {
+      const snippet = buildSnippet('Use a state hook here', ['state hook']);
+
+      expect(snippet).toContainEqual({ text: 'state hook', match: true });
+    });
+
+    test('buildSnippet should cut long text around the first match', () => {
+      const text = `${'lorem '.repeat(50)}needle${' ipsum'.repeat(50)}`;
+
+      const snippet = buildSnippet(text, ['needle']) ?? [];
+
+      expect(snippet[0]).toEqual({ text: '…', match: false });
+      expect(snippet[snippet.length - 1]).toEqual({ text: '…', match: false });
+      expect(snippet).toContainEqual({ text: 'needle', match: true });
+      expect(snippet.map(p => p.text).join('').length).toBeLessThanOrEqual(202);
+    });
+
+    test('buildSnippet should return undefined if nothing matches', () => {
+      expect(buildSnippet('Nothing to see', ['needle'])).toBeUndefined();
+      expect(buildSnippet('', ['needle'])).toBeUndefined();
+    });
+  });
+});
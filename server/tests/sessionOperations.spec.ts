@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import {
+  createSession,
+  rotateSession,
+  revokeSessionByRefreshToken,
+  revokeSession,
+  getActiveSessions,
+  isSessionActive,
+} from '../models/sessionOperations';
+import SessionModel from '../models/sessions';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const hash = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+
+const userId = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc');
+const sessionId = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6ab');
+
+const mockSession = {
+  _id: sessionId,
+  user: userId,
+  refreshTokenHash: hash('fakeSecret'),
+  device: 'fakeDevice',
+  createdAt: new Date('2024-06-03'),
+  lastUsedAt: new Date('2024-06-03'),
+  expiresAt: new Date('2999-01-01'),
+};
+
+const REFRESH_TOKEN = `${sessionId.toString()}.fakeSecret`;
+
+describe('Session model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+    jest.restoreAllMocks();
+  });
+
+  describe('createSession', () => {
+    test('createSession should return the session and a refresh token whose secret is stored hashed', async () => {
+      const result = await createSession(userId, 'fakeDevice');
+
+      if ('error' in result) {
+        throw new Error('Expected a session to be created');
+      }
+      const [id, secret] = result.refreshToken.split('.');
+      expect(id).toEqual(result.session._id?.toString());
+      expect(result.session.user).toEqual(userId);
+      expect(result.session.device).toEqual('fakeDevice');
+      expect(result.session.refreshTokenHash).toEqual(hash(secret));
+      expect(result.session.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    test('createSession should return an object with error if create throws an error', async () => {
+      jest.spyOn(SessionModel, 'create').mockImplementationOnce(() => {
+        throw new Error('Database error');
+      });
+
+      const result = await createSession(userId, 'fakeDevice');
+      expect(result).toEqual({ error: 'Error when creating a session' });
+    });
+  });
+
+  describe('rotateSession', () => {
+    test('rotateSession should issue a new refresh token for the session', async () => {
+      mockingoose(SessionModel).toReturn(mockSession, 'findOne');
+      mockingoose(SessionModel).toReturn(mockSession, 'findOneAndUpdate');
+      const updateSpy = jest.spyOn(SessionModel, 'findOneAndUpdate');
+
+      const result = await rotateSession(REFRESH_TOKEN);
+
+      if ('error' in result) {
+        throw new Error('Expected the session to be refreshed');
+      }
+      expect(result.refreshToken).not.toEqual(REFRESH_TOKEN);
+      expect(result.refreshToken.startsWith(`${sessionId.toString()}.`)).toBe(true);
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: sessionId.toString(), refreshTokenHash: hash('fakeSecret') },
+        expect.anything(),
+        { new: true },
+      );
+    });
+
+    test('rotateSession should return an error for a malformed refresh token', async () => {
+      const result = await rotateSession('not-a-refresh-token');
+      expect(result).toEqual({ error: 'Refresh token is invalid or has expired' });
+    });
+
+    test('rotateSession should return an error if the session does not exist', async () => {
+      mockingoose(SessionModel).toReturn(null, 'findOne');
+
+      const result = await rotateSession(REFRESH_TOKEN);
+      expect(result).toEqual({ error: 'Refresh token is invalid or has expired' });
+    });
+
+    test('rotateSession should return an error if the session was signed out', async () => {
+      mockingoose(SessionModel).toReturn({ ...mockSession, revokedAt: new Date() }, 'findOne');
+
+      const result = await rotateSession(REFRESH_TOKEN);
+      expect(result).toEqual({ error: 'Refresh token is invalid or has expired' });
+    });
+
+    test('rotateSession should return an error if the session has expired', async () => {
+      mockingoose(SessionModel).toReturn(
+        { ...mockSession, expiresAt: new Date('2024-01-01') },
+        'findOne',
+      );
+
+      const result = await rotateSession(REFRESH_TOKEN);
+      expect(result).toEqual({ error: 'Refresh token is invalid or has expired' });
+    });
+
+    test('rotateSession should sign out the session if an already used refresh token is presented', async () => {
+      mockingoose(SessionModel).toReturn(
+        { ...mockSession, refreshTokenHash: hash('newerSecret') },
+        'findOne',
+      );
+      const updateSpy = jest.spyOn(SessionModel, 'findOneAndUpdate');
+
+      const result = await rotateSession(REFRESH_TOKEN);
+      expect(result).toEqual({ error: 'Refresh token is invalid or has expired' });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: sessionId.toString() },
+        { $set: { revokedAt: expect.any(Date) } },
+      );
+    });
+
+    test('rotateSession should return an error if another refresh used the token first', async () => {
+      mockingoose(SessionModel).toReturn(mockSession, 'findOne');
+      mockingoose(SessionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await rotateSession(REFRESH_TOKEN);
+      expect(result).toEqual({ error: 'Refresh token is invalid or has expired' });
+    });
+
+    test('rotateSession should return an object with error if findOne throws an error', async () => {
+      mockingoose(SessionModel).toReturn(new Error('Database error'), 'findOne');
+
+      const result = await rotateSession(REFRESH_TOKEN);
+      expect(result).toEqual({ error: 'Error when refreshing a session' });
+    });
+  });
+
+  describe('revokeSessionByRefreshToken', () => {
+    test('revokeSessionByRefreshToken should return the signed out session', async () => {
+      const revoked = { ...mockSession, revokedAt: new Date('2024-06-05') };
+      mockingoose(SessionModel).toReturn(revoked, 'findOneAndUpdate');
+
+      const result = await revokeSessionByRefreshToken(REFRESH_TOKEN);
+      expect(result).toMatchObject({ _id: sessionId, revokedAt: revoked.revokedAt });
+    });
+
+    test('revokeSessionByRefreshToken should return an error if no active session matches', async () => {
+      mockingoose(SessionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await revokeSessionByRefreshToken(REFRESH_TOKEN);
+      expect(result).toEqual({ error: 'Refresh token is invalid or has expired' });
+    });
+
+    test('revokeSessionByRefreshToken should return an error for a malformed refresh token', async () => {
+      const result = await revokeSessionByRefreshToken('not-a-refresh-token');
+      expect(result).toEqual({ error: 'Refresh token is invalid or has expired' });
+    });
+  });
+
+  describe('revokeSession', () => {
+    test('revokeSession should return the signed out session', async () => {
+      const revoked = { ...mockSession, revokedAt: new Date('2024-06-05') };
+      mockingoose(SessionModel).toReturn(revoked, 'findOneAndUpdate');
+
+      const result = await revokeSession(userId, sessionId.toString());
+      expect(result).toMatchObject({ _id: sessionId, revokedAt: revoked.revokedAt });
+    });
+
+    test('revokeSession should return an error if the session does not belong to the user', async () => {
+      mockingoose(SessionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await revokeSession(userId, sessionId.toString());
+      expect(result).toEqual({ error: 'Session not found' });
+    });
+
+    test('revokeSession should return an error if the session id is not valid', async () => {
+      const result = await revokeSession(userId, 'invalid');
+      expect(result).toEqual({ error: 'Session not found' });
+    });
+
+    test('revokeSession should return an object with error if findOneAndUpdate throws an error', async () => {
+      mockingoose(SessionModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await revokeSession(userId, sessionId.toString());
+      expect(result).toEqual({ error: 'Error when signing out a session' });
+    });
+  });
+
+  describe('getActiveSessions', () => {
+    test('getActiveSessions should return the active sessions of the user', async () => {
+      mockingoose(SessionModel).toReturn([mockSession], 'find');
+
+      const result = await getActiveSessions(userId);
+      expect(result).toHaveLength(1);
+      expect((result as { device: string }[])[0].device).toEqual('fakeDevice');
+    });
+
+    test('getActiveSessions should return an object with error if find throws an error', async () => {
+      mockingoose(SessionModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await getActiveSessions(userId);
+      expect(result).toEqual({ error: 'Error when fetching sessions' });
+    });
+  });
+
+  describe('isSessionActive', () => {
+    test('isSessionActive should return true if the session is active', async () => {
+      mockingoose(SessionModel).toReturn(mockSession, 'findOne');
+
+      expect(await isSessionActive(sessionId.toString())).toBe(true);
+    });
+
+    test('isSessionActive should return false if the session was signed out', async () => {
+      mockingoose(SessionModel).toReturn(null, 'findOne');
+
+      expect(await isSessionActive(sessionId.toString())).toBe(false);
+    });
+
+    test('isSessionActive should return false for an invalid session id', async () => {
+      expect(await isSessionActive('invalid')).toBe(false);
+    });
+  });
+});
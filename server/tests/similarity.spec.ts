@@ -0,0 +1,60 @@
+import { keywords, overlap, scoreSimilarity } from '../utils/similarity';
+
+describe('Similarity', () => {
+  describe('keywords', () => {
+    test('keywords should leave out common words and fold plurals', () => {
+      expect([...keywords('How do I store the queries of my React apps?')]).toEqual([
+        'store',
+        'query',
+        'react',
+        'app',
+      ]);
+    });
+
+    test('keywords should return each word once', () => {
+      expect(keywords('Hooks hook HOOK').size).toBe(1);
+    });
+  });
+
+  describe('overlap', () => {
+    test('overlap should be 1 for equal sets and 0 for disjoint or empty sets', () => {
+      expect(overlap(new Set(['a', 'b']), new Set(['b', 'a']))).toBe(1);
+      expect(overlap(new Set(['a']), new Set(['b']))).toBe(0);
+      expect(overlap(new Set(), new Set(['b']))).toBe(0);
+    });
+
+    test('overlap should count the shared items against all items', () => {
+      expect(overlap(new Set(['a', 'b', 'c']), new Set(['c']))).toBe(0.5);
+    });
+  });
+
+  describe('scoreSimilarity', () => {
+    test('scoreSimilarity should be 1 for the same question', () => {
+      const question = { title: 'Storing state in React', text: 'How?', tags: ['react'] };
+
+      expect(scoreSimilarity(question, question)).toBeCloseTo(1);
+    });
+
+    test('scoreSimilarity should only compare the parts of the asked question that are filled in', () => {
+      const score = scoreSimilarity(
+        { title: 'Storing state in React' },
+        { title: 'Storing state in React', text: 'Something else entirely', tags: ['javascript'] },
+      );
+
+      expect(score).toBeCloseTo(1);
+    });
+
+    test('scoreSimilarity should weigh the title higher than the tags', () => {
+      const asked = { title: 'Android local storage', tags: ['react'] };
+
+      const sameTitle = scoreSimilarity(asked, { title: 'Android local storage', tags: ['java'] });
+      const sameTags = scoreSimilarity(asked, { title: 'Rendering lists', tags: ['react'] });
+
+      expect(sameTitle).toBeGreaterThan(sameTags);
+    });
+
+    test('scoreSimilarity should be 0 when there is nothing to compare', () => {
+      expect(scoreSimilarity({ title: 'How to?' }, { title: 'How to?' })).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { normalizeTagName, normalizeTags } from '../utils/tags';
+
+describe('Tag names', () => {
+  describe('normalizeTagName', () => {
+    test('normalizeTagName should lowercase the name and hyphenate spaces and underscores', () => {
+      expect(normalizeTagName('  Node JS ')).toBe('node-js');
+      expect(normalizeTagName('react_native')).toBe('react-native');
+    });
+
+    test('normalizeTagName should keep the characters used in language names', () => {
+      expect(normalizeTagName('C#')).toBe('c#');
+      expect(normalizeTagName('C++')).toBe('c++');
+      expect(normalizeTagName('ASP.NET')).toBe('asp.net');
+    });
+
+    test('normalizeTagName should remove other characters and stray hyphens', () => {
+      expect(normalizeTagName('-web -- dev!-')).toBe('web-dev');
+      expect(normalizeTagName('!!!')).toBe('');
+    });
+  });
+
+  describe('normalizeTags', () => {
+    test('normalizeTags should normalize the names and drop repeated and empty tags', () => {
+      const result = normalizeTags([
+        { name: 'Node JS', description: 'A runtime' },
+        { name: 'node_js', description: '' },
+        { name: '???', description: '' },
+      ]);
+
+      expect(result).toEqual([{ name: 'node-js', description: 'A runtime' }]);
+    });
+
+    test('normalizeTags should refuse a question without tags', () => {
+      expect(normalizeTags([{ name: ' ', description: '' }])).toEqual({
+        error: 'Questions must have at least 1 tag',
+      });
+    });
+
+    test('normalizeTags should refuse more than 5 tags', () => {
+      const tags = ['a', 'b', 'c', 'd', 'e', 'f'].map(name => ({ name, description: '' }));
+
+      expect(normalizeTags(tags)).toEqual({ error: 'Questions cannot have more than 5 tags' });
+    });
+
+    test('normalizeTags should refuse names longer than 20 characters', () => {
+      expect(normalizeTags([{ name: 'a'.repeat(21), description: '' }])).toEqual({
+        error: 'Tags cannot be longer than 20 characters',
+      });
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { ObjectId } from 'mongodb';
+import {
+  addTagSynonym,
+  editTag,
+  findNewTagNames,
+  mergeTags,
+  removeTagSynonym,
+  suggestTags,
+  tagNamed,
+} from '../models/tagOperations';
+import TagModel from '../models/tags';
+import QuestionModel from '../models/questions';
+import UserModel from '../models/users';
+import { Tag } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const javascript: Tag = {
+  _id: new ObjectId('65e9a5c2b26199dbcc3e6dc8'),
+  name: 'javascript',
+  description: 'A programming language',
+  synonyms: ['js'],
+};
+
+const ecmascript: Tag = {
+  _id: new ObjectId('65e9b4b1766fca9451cba653'),
+  name: 'ecmascript',
+  description: 'The standard JavaScript follows',
+  synonyms: ['es'],
+};
+
+describe('Tag model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+    jest.restoreAllMocks();
+  });
+
+  describe('tagNamed', () => {
+    test('tagNamed should match the tag by its name or a synonym', () => {
+      expect(tagNamed('js')).toEqual({ $or: [{ name: 'js' }, { synonyms: 'js' }] });
+    });
+  });
+
+  describe('findNewTagNames', () => {
+    test('findNewTagNames should return the names that are neither a tag nor a synonym', async () => {
+      mockingoose(TagModel).toReturn([javascript], 'find');
+
+      const result = await findNewTagNames(['javascript', 'js', 'cobol']);
+
+      expect(result).toEqual(['cobol']);
+    });
+
+    test('findNewTagNames should return an error if the database fails', async () => {
+      mockingoose(TagModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await findNewTagNames(['cobol']);
+
+      expect(result).toEqual({ error: 'Error when finding new tags' });
+    });
+  });
+
+  describe('suggestTags', () => {
+    test('suggestTags should match names and synonyms starting with the prefix', async () => {
+      const suggestions = [
+        { name: 'javascript', description: 'A programming language', synonyms: ['js'], qcnt: 3 },
+      ];
+      mockingoose(TagModel).toReturn(suggestions, 'aggregate');
+      const aggregateSpy = jest.spyOn(TagModel, 'aggregate');
+
+      const result = await suggestTags('j.', 5);
+
+      expect(result).toEqual(suggestions);
+      const pipeline = aggregateSpy.mock.calls[0][0];
+      expect(pipeline[0]).toEqual({
+        $match: { $or: [{ name: /^j\./ }, { synonyms: /^j\./ }] },
+      });
+      expect(pipeline).toContainEqual({ $sort: { qcnt: -1, name: 1 } });
+      expect(pipeline).toContainEqual({ $limit: 5 });
+    });
+
+    test('suggestTags should return an error if the database fails', async () => {
+      mockingoose(TagModel).toReturn(new Error('Database error'), 'aggregate');
+
+      const result = await suggestTags('j', 5);
+
+      expect(result).toEqual({ error: 'Error when suggesting tags' });
+    });
+  });
+
+  describe('editTag', () => {
+    test('editTag should record the changed fields as a revision', async () => {
+      mockingoose(TagModel).toReturn(javascript, 'findOne');
+      mockingoose(TagModel).toReturn(
+        { ...javascript, wiki: 'Runs in browsers' },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(TagModel, 'findOneAndUpdate');
+
+      const result = await editTag('javascript', 'user1', {
+        description: 'A programming language',
+        wiki: 'Runs in browsers',
+      });
+
+      expect(result).toMatchObject({ wiki: 'Runs in browsers' });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { name: 'javascript' },
+        {
+          $set: { wiki: 'Runs in browsers' },
+          $push: {
+            revisions: {
+              editedBy: 'user1',
+              editDateTime: expect.any(Date),
+              changes: [{ field: 'wiki', before: '', after: 'Runs in browsers' }],
+            },
+          },
+        },
+        { new: true },
+      );
+    });
+
+    test('editTag should not record a revision if nothing changed', async () => {
+      mockingoose(TagModel).toReturn(javascript, 'findOne');
+      const updateSpy = jest.spyOn(TagModel, 'findOneAndUpdate');
+
+      const result = await editTag('javascript', 'user1', {
+        description: 'A programming language',
+      });
+
+      expect(result).toMatchObject({ name: 'javascript' });
+      expect(updateSpy).not.toHaveBeenCalled();
+    });
+
+    test('editTag should return an error if the tag does not exist', async () => {
+      mockingoose(TagModel).toReturn(null, 'findOne');
+
+      const result = await editTag('cobol', 'user1', { wiki: 'Old' });
+
+      expect(result).toEqual({ error: 'Tag not found' });
+    });
+  });
+
+  describe('addTagSynonym', () => {
+    test('addTagSynonym should add the synonym and record it as a revision', async () => {
+      const findOneSpy = jest
+        .spyOn(TagModel, 'findOne')
+        .mockResolvedValueOnce(javascript)
+        .mockResolvedValueOnce(null);
+      mockingoose(TagModel).toReturn(
+        { ...javascript, synonyms: ['js', 'node-js'] },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(TagModel, 'findOneAndUpdate');
+
+      const result = await addTagSynonym('javascript', 'node-js', 'mod1');
+
+      expect(result).toMatchObject({ synonyms: ['js', 'node-js'] });
+      expect(findOneSpy).toHaveBeenLastCalledWith({
+        $or: [{ name: 'node-js' }, { synonyms: 'node-js' }],
+      });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: javascript._id },
+        {
+          $set: { synonyms: ['js', 'node-js'] },
+          $push: {
+            revisions: {
+              editedBy: 'mod1',
+              editDateTime: expect.any(Date),
+              changes: [{ field: 'synonyms', before: 'js', after: 'js node-js' }],
+            },
+          },
+        },
+        { new: true },
+      );
+    });
+
+    test('addTagSynonym should refuse the name of another tag', async () => {
+      jest
+        .spyOn(TagModel, 'findOne')
+        .mockResolvedValueOnce(javascript)
+        .mockResolvedValueOnce(ecmascript);
+
+      const result = await addTagSynonym('javascript', 'ecmascript', 'mod1');
+
+      expect(result).toEqual({ error: 'A tag with this name exists, merge it instead' });
+    });
+
+    test('addTagSynonym should refuse a synonym of another tag', async () => {
+      jest
+        .spyOn(TagModel, 'findOne')
+        .mockResolvedValueOnce(javascript)
+        .mockResolvedValueOnce(ecmascript);
+
+      const result = await addTagSynonym('javascript', 'es', 'mod1');
+
+      expect(result).toEqual({ error: 'This name is already a synonym' });
+    });
+  });
+
+  describe('removeTagSynonym', () => {
+    test('removeTagSynonym should remove the synonym', async () => {
+      mockingoose(TagModel).toReturn(javascript, 'findOne');
+      mockingoose(TagModel).toReturn({ ...javascript, synonyms: [] }, 'findOneAndUpdate');
+
+      const result = await removeTagSynonym('javascript', 'js', 'mod1');
+
+      expect(result).toMatchObject({ synonyms: [] });
+    });
+
+    test('removeTagSynonym should return an error if the tag has no such synonym', async () => {
+      mockingoose(TagModel).toReturn(javascript, 'findOne');
+
+      const result = await removeTagSynonym('javascript', 'es', 'mod1');
+
+      expect(result).toEqual({ error: 'Synonym not found' });
+    });
+  });
+
+  describe('mergeTags', () => {
+    test('mergeTags should move the questions and watchers and keep the source as a synonym', async () => {
+      jest
+        .spyOn(TagModel, 'findOne')
+        .mockResolvedValueOnce(ecmascript)
+        .mockResolvedValueOnce(javascript);
+      mockingoose(QuestionModel).toReturn({ modifiedCount: 2 }, 'updateMany');
+      mockingoose(UserModel).toReturn({ modifiedCount: 1 }, 'updateMany');
+      mockingoose(TagModel).toReturn(
+        { ...javascript, synonyms: ['js', 'ecmascript', 'es'] },
+        'findOneAndUpdate',
+      );
+      mockingoose(TagModel).toReturn({ deletedCount: 1 }, 'deleteOne');
+      const questionSpy = jest.spyOn(QuestionModel, 'updateMany');
+      const userSpy = jest.spyOn(UserModel, 'updateMany');
+      const updateSpy = jest.spyOn(TagModel, 'findOneAndUpdate');
+      const deleteSpy = jest.spyOn(TagModel, 'deleteOne');
+
+      const result = await mergeTags('ecmascript', 'javascript', 'mod1');
+
+      expect(result).toMatchObject({ name: 'javascript' });
+      expect(questionSpy).toHaveBeenNthCalledWith(
+        1,
+        { tags: ecmascript._id },
+        { $addToSet: { tags: javascript._id } },
+      );
+      expect(questionSpy).toHaveBeenNthCalledWith(
+        2,
+        { tags: ecmascript._id },
+        { $pull: { tags: ecmascript._id } },
+      );
+      expect(userSpy).toHaveBeenNthCalledWith(
+        2,
+        { 'emailPreferences.watchedTags': 'ecmascript' },
+        { $pull: { 'emailPreferences.watchedTags': 'ecmascript' } },
+      );
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: javascript._id },
+        expect.objectContaining({ $set: { synonyms: ['js', 'ecmascript', 'es'] } }),
+        { new: true },
+      );
+      expect(deleteSpy).toHaveBeenCalledWith({ _id: ecmascript._id });
+    });
+
+    test('mergeTags should refuse to merge a tag into itself', async () => {
+      const result = await mergeTags('javascript', 'javascript', 'mod1');
+
+      expect(result).toEqual({ error: 'Cannot merge a tag into itself' });
+    });
+
+    test('mergeTags should return an error if a tag does not exist', async () => {
+      mockingoose(TagModel).toReturn(null, 'findOne');
+
+      const result = await mergeTags('ecmascript', 'javascript', 'mod1');
+
+      expect(result).toEqual({ error: 'Tag not found' });
+    });
+
+    test('mergeTags should return an error if the database fails', async () => {
+      mockingoose(TagModel).toReturn(new Error('Database error'), 'findOne');
+
+      const result = await mergeTags('ecmascript', 'javascript', 'mod1');
+
+      expect(result).toEqual({ error: 'Error when merging tags' });
+    });
+  });
+});
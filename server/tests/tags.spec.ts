@@ -1,9 +1,38 @@
 import mongoose from 'mongoose';
 import supertest from 'supertest';
+import jwt from 'jsonwebtoken';
 import { app } from '../app';
 import * as util from '../models/application';
+import * as tagOperations from '../models/tagOperations';
+import UserModel from '../models/users';
+import { Tag } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
 
 const getTagCountMapSpy: jest.SpyInstance = jest.spyOn(util, 'getTagCountMap');
+const editTagSpy = jest.spyOn(tagOperations, 'editTag');
+const addTagSynonymSpy = jest.spyOn(tagOperations, 'addTagSynonym');
+const removeTagSynonymSpy = jest.spyOn(tagOperations, 'removeTagSynonym');
+const mergeTagsSpy = jest.spyOn(tagOperations, 'mergeTags');
+const suggestTagsSpy = jest.spyOn(tagOperations, 'suggestTags');
+
+const authUser = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6aa'),
+  username: 'user1',
+  email: 'user1@email.com',
+  password: 'dummypassword',
+  creationDateTime: new Date('2024-06-01'),
+  reputation: 10000,
+};
+const AUTH_TOKEN = jwt.sign({ userId: authUser._id }, process.env.JWT_SECRET as string);
+
+const mockTag: Tag = {
+  _id: new mongoose.Types.ObjectId('65e9a5c2b26199dbcc3e6dc8'),
+  name: 'javascript',
+  description: 'A programming language',
+  synonyms: ['js'],
+};
 
 describe('GET /getTagsWithQuestionNumber', () => {
   afterEach(async () => {
@@ -45,3 +74,253 @@ describe('GET /getTagsWithQuestionNumber', () => {
     expect(response.status).toBe(500);
   });
 });
+
+describe('GET /suggest', () => {
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should suggest tags for the normalized prefix', async () => {
+    const suggestions = [
+      { name: 'javascript', description: 'A programming language', synonyms: ['js'], qcnt: 3 },
+    ];
+    suggestTagsSpy.mockResolvedValueOnce(suggestions);
+
+    const response = await supertest(app).get('/tag/suggest').query({ prefix: ' Java' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(suggestions);
+    expect(suggestTagsSpy).toHaveBeenCalledWith('java', 8);
+  });
+
+  it('should use the limit in the query', async () => {
+    suggestTagsSpy.mockResolvedValueOnce([]);
+
+    const response = await supertest(app).get('/tag/suggest').query({ prefix: 'j', limit: '3' });
+
+    expect(response.status).toBe(200);
+    expect(suggestTagsSpy).toHaveBeenCalledWith('j', 3);
+  });
+
+  it('should return 400 if the limit is invalid', async () => {
+    suggestTagsSpy.mockClear();
+
+    const response = await supertest(app).get('/tag/suggest').query({ prefix: 'j', limit: '100' });
+
+    expect(response.status).toBe(400);
+    expect(suggestTagsSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 if the tags could not be suggested', async () => {
+    suggestTagsSpy.mockResolvedValueOnce({ error: 'Error when suggesting tags' });
+
+    const response = await supertest(app).get('/tag/suggest').query({ prefix: 'j' });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when suggesting tags: Error when suggesting tags');
+  });
+});
+
+describe('Tag editing routes', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+    editTagSpy.mockClear();
+    addTagSynonymSpy.mockClear();
+    removeTagSynonymSpy.mockClear();
+    mergeTagsSpy.mockClear();
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  describe('POST /editTag', () => {
+    it('should edit the description and sanitized wiki of the tag', async () => {
+      editTagSpy.mockResolvedValueOnce({ ...mockTag, wiki: 'Runs in **browsers**' });
+
+      const response = await supertest(app)
+        .post('/tag/editTag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({
+          name: 'javascript',
+          description: ' A programming language ',
+          wiki: 'Runs in **browsers**<script>alert(1)</script>',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.wiki).toBe('Runs in **browsers**');
+      expect(editTagSpy).toHaveBeenCalledWith('javascript', 'user1', {
+        description: 'A programming language',
+        wiki: 'Runs in **browsers**&lt;script>alert(1)&lt;/script>',
+      });
+    });
+
+    it('should return 403 if the user lacks the reputation to edit tag wikis', async () => {
+      mockingoose(UserModel).toReturn({ ...authUser, reputation: 10 }, 'findOne');
+
+      const response = await supertest(app)
+        .post('/tag/editTag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'javascript', wiki: 'Runs in browsers' });
+
+      expect(response.status).toBe(403);
+      expect(response.text).toBe('Editing tag wikis requires at least 1500 reputation');
+      expect(editTagSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the description is empty', async () => {
+      const response = await supertest(app)
+        .post('/tag/editTag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'javascript', description: '  ' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should return 400 if the wiki embeds an attachment', async () => {
+      const response = await supertest(app)
+        .post('/tag/editTag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'javascript', wiki: '![logo](attachment://65e9b58910afe6e94fc6e6df)' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Files cannot be attached to tag wikis');
+      expect(editTagSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the tag does not exist', async () => {
+      editTagSpy.mockResolvedValueOnce({ error: 'Tag not found' });
+
+      const response = await supertest(app)
+        .post('/tag/editTag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'cobol', wiki: 'Old' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /addSynonym', () => {
+    it('should add the synonym to the tag', async () => {
+      addTagSynonymSpy.mockResolvedValueOnce({ ...mockTag, synonyms: ['js', 'node-js'] });
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'javascript', synonym: 'node-js' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.synonyms).toEqual(['js', 'node-js']);
+      expect(addTagSynonymSpy).toHaveBeenCalledWith('javascript', 'node-js', 'user1');
+    });
+
+    it('should return 400 if the synonym is the name of another tag', async () => {
+      addTagSynonymSpy.mockResolvedValueOnce({
+        error: 'A tag with this name exists, merge it instead',
+      });
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'javascript', synonym: 'ecmascript' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('A tag with this name exists, merge it instead');
+    });
+
+    it('should normalize the synonym before adding it', async () => {
+      addTagSynonymSpy.mockResolvedValueOnce({ ...mockTag, synonyms: ['js', 'node-js'] });
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'javascript', synonym: 'Node JS' });
+
+      expect(response.status).toBe(200);
+      expect(addTagSynonymSpy).toHaveBeenCalledWith('javascript', 'node-js', 'user1');
+    });
+
+    it('should return 400 if nothing is left of the synonym once normalized', async () => {
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'javascript', synonym: '!!!' });
+
+      expect(response.status).toBe(400);
+      expect(addTagSynonymSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 if the user lacks the moderation privilege', async () => {
+      mockingoose(UserModel).toReturn({ ...authUser, reputation: 2000 }, 'findOne');
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'javascript', synonym: 'node-js' });
+
+      expect(response.status).toBe(403);
+      expect(addTagSynonymSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /removeSynonym', () => {
+    it('should return 404 if the tag has no such synonym', async () => {
+      removeTagSynonymSpy.mockResolvedValueOnce({ error: 'Synonym not found' });
+
+      const response = await supertest(app)
+        .post('/tag/removeSynonym')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'javascript', synonym: 'es' });
+
+      expect(response.status).toBe(404);
+      expect(removeTagSynonymSpy).toHaveBeenCalledWith('javascript', 'es', 'user1');
+    });
+  });
+
+  describe('POST /mergeTags', () => {
+    it('should merge the source tag into the target', async () => {
+      mergeTagsSpy.mockResolvedValueOnce({ ...mockTag, synonyms: ['js', 'ecmascript'] });
+
+      const response = await supertest(app)
+        .post('/tag/mergeTags')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ source: 'ecmascript', target: 'javascript' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.synonyms).toEqual(['js', 'ecmascript']);
+      expect(mergeTagsSpy).toHaveBeenCalledWith('ecmascript', 'javascript', 'user1');
+    });
+
+    it('should return 400 if a tag is merged into itself', async () => {
+      mergeTagsSpy.mockResolvedValueOnce({ error: 'Cannot merge a tag into itself' });
+
+      const response = await supertest(app)
+        .post('/tag/mergeTags')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ source: 'javascript', target: 'javascript' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 500 if the merge fails', async () => {
+      mergeTagsSpy.mockResolvedValueOnce({ error: 'Error when merging tags' });
+
+      const response = await supertest(app)
+        .post('/tag/mergeTags')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ source: 'ecmascript', target: 'javascript' });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when merging tags: Error when merging tags');
+    });
+  });
+});
@@ -3,7 +3,16 @@ import supertest from 'supertest';
 import jwt from 'jsonwebtoken';
 import { app } from '../app';
 import * as util from '../models/userOperations';
-import { User } from '../types';
+import * as sessionUtil from '../models/sessionOperations';
+import * as reputationUtil from '../models/reputationOperations';
+import * as applicationUtil from '../models/application';
+import * as emailUtil from '../models/emailOperations';
+import UserModel from '../models/users';
+import SessionModel from '../models/sessions';
+import { EmailPreferences, Session, User } from '../types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
 
 const sendEmailVerificationSpy = jest.spyOn(util, 'sendEmailVerification');
 const saveUserSpy = jest.spyOn(util, 'saveUser');
@@ -16,6 +25,17 @@ const changeFontSpy = jest.spyOn(util, 'changeFont');
 const changeTextSizeSpy = jest.spyOn(util, 'changeTextSize');
 const changeTextBoldnessSpy = jest.spyOn(util, 'changeTextBoldness');
 const changeLineSpacingSpy = jest.spyOn(util, 'changeTextBoldness');
+const createSessionSpy = jest.spyOn(sessionUtil, 'createSession');
+const rotateSessionSpy = jest.spyOn(sessionUtil, 'rotateSession');
+const revokeSessionByRefreshTokenSpy = jest.spyOn(sessionUtil, 'revokeSessionByRefreshToken');
+const revokeSessionSpy = jest.spyOn(sessionUtil, 'revokeSession');
+const getActiveSessionsSpy = jest.spyOn(sessionUtil, 'getActiveSessions');
+const getReputationSpy = jest.spyOn(reputationUtil, 'getReputation');
+const getUserProfileSpy = jest.spyOn(applicationUtil, 'getUserProfile');
+const getEmailPreferencesSpy = jest.spyOn(emailUtil, 'getEmailPreferences');
+const updateEmailPreferencesSpy = jest.spyOn(emailUtil, 'updateEmailPreferences');
+const unsubscribeSpy = jest.spyOn(emailUtil, 'unsubscribe');
+const changeUserRoleSpy = jest.spyOn(util, 'changeUserRole');
 
 const mockSettingsInfo = {
   theme: 'LightMode',
@@ -36,6 +56,30 @@ const mockUser: User = {
   settings: mockSettingsInfo,
 };
 
+const authUser = {
+  ...mockUser,
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6aa'),
+};
+const AUTH_TOKEN = jwt.sign({ userId: authUser._id }, process.env.JWT_SECRET as string);
+
+const mockSession: Session = {
+  _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6ab'),
+  user: authUser._id,
+  refreshTokenHash: 'fakeRefreshTokenHash',
+  device: 'fakeDevice',
+  createdAt: new Date('2024-06-03'),
+  lastUsedAt: new Date('2024-06-04'),
+  expiresAt: new Date('2999-01-01'),
+};
+const SESSION_TOKEN = jwt.sign(
+  { userId: authUser._id, sessionId: mockSession._id },
+  process.env.JWT_SECRET as string,
+);
+
+beforeEach(() => {
+  mockingoose(UserModel).toReturn(authUser, 'findOne');
+});
+
 describe('POST /emailVerification', () => {
   afterEach(async () => {
     await mongoose.connection.close(); // Ensure the connection is properly closed
@@ -197,12 +241,17 @@ describe('POST /addUser', () => {
 
   it('should add a new user', async () => {
     saveUserSpy.mockResolvedValueOnce(mockUser);
+    createSessionSpy.mockResolvedValueOnce({
+      session: mockSession,
+      refreshToken: 'fakeRefreshToken',
+    });
     (jwtSignSpy as jest.Mock).mockReturnValue('fakeJwtToken');
 
     const response = await supertest(app).post('/user/addUser').send({ token: 'fakeToken' });
     expect(response.status).toBe(200);
     expect(response.body.message).toBe('User created successfully');
     expect(response.body.token).toBe('fakeJwtToken');
+    expect(response.body.refreshToken).toBe('fakeRefreshToken');
     expect(response.body.user).toEqual({
       ...mockUser,
       creationDateTime: mockUser.creationDateTime.toISOString(),
@@ -249,6 +298,10 @@ describe('POST /addUser', () => {
 
   it('should return error in response if jwt.sign method throws an error', async () => {
     saveUserSpy.mockResolvedValueOnce(mockUser);
+    createSessionSpy.mockResolvedValueOnce({
+      session: mockSession,
+      refreshToken: 'fakeRefreshToken',
+    });
     (jwtSignSpy as jest.Mock).mockImplementationOnce(() => {
       throw new Error('Error signing token');
     });
@@ -281,12 +334,22 @@ describe('POST /loginUser', () => {
     };
 
     loginUserSpy.mockResolvedValueOnce(mockUser);
+    createSessionSpy.mockResolvedValueOnce({
+      session: mockSession,
+      refreshToken: 'fakeRefreshToken',
+    });
     (jwtSignSpy as jest.Mock).mockReturnValue('fakeToken');
 
     const response = await supertest(app).post('/user/loginUser').send(mockLoginRequest);
     expect(response.status).toBe(200);
     expect(response.body.message).toBe('Login successful');
     expect(response.body.token).toBe('fakeToken');
+    expect(jwtSignSpy).toHaveBeenLastCalledWith(
+      expect.objectContaining({ role: 'user', sessionId: mockSession._id }),
+      expect.any(String),
+      { expiresIn: '1h' },
+    );
+    expect(response.body.refreshToken).toBe('fakeRefreshToken');
     expect(response.body.user).toEqual({
       ...mockUser,
       creationDateTime: mockUser.creationDateTime.toISOString(),
@@ -388,6 +451,10 @@ describe('POST /loginUser', () => {
     };
 
     loginUserSpy.mockResolvedValueOnce(mockUser);
+    createSessionSpy.mockResolvedValueOnce({
+      session: mockSession,
+      refreshToken: 'fakeRefreshToken',
+    });
     (jwtSignSpy as jest.Mock).mockImplementationOnce(() => {
       throw new Error('Error signing token');
     });
@@ -396,6 +463,20 @@ describe('POST /loginUser', () => {
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when logging in: Error signing token');
   });
+
+  it('should return error in response if createSession method returns an error', async () => {
+    const mockLoginRequest = {
+      username: 'fakeUser',
+      password: 'fakepassword',
+    };
+
+    loginUserSpy.mockResolvedValueOnce(mockUser);
+    createSessionSpy.mockResolvedValueOnce({ error: 'Error when creating a session' });
+
+    const response = await supertest(app).post('/user/loginUser').send(mockLoginRequest);
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when logging in: Error when creating a session');
+  });
   it('should return a 500 error with a generic message if an unknown error occurs in the catch block', async () => {
     loginUserSpy.mockRejectedValueOnce({});
     const mockReqBody = {
@@ -409,6 +490,222 @@ describe('POST /loginUser', () => {
   });
 });
 
+describe('POST /refresh', () => {
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should rotate the refresh token and issue a new access token', async () => {
+    rotateSessionSpy.mockResolvedValueOnce({
+      session: mockSession,
+      refreshToken: 'newRefreshToken',
+    });
+    (jwtSignSpy as jest.Mock).mockReturnValueOnce('newAccessToken');
+
+    const response = await supertest(app)
+      .post('/user/refresh')
+      .send({ refreshToken: 'fakeRefreshToken' });
+    expect(response.status).toBe(200);
+    expect(response.body.token).toBe('newAccessToken');
+    expect(response.body.refreshToken).toBe('newRefreshToken');
+    expect(rotateSessionSpy).toHaveBeenLastCalledWith('fakeRefreshToken');
+  });
+
+  it('should issue the new access token with the current role of the user', async () => {
+    mockingoose(UserModel).toReturn({ ...authUser, role: 'moderator' }, 'findOne');
+    rotateSessionSpy.mockResolvedValueOnce({
+      session: mockSession,
+      refreshToken: 'newRefreshToken',
+    });
+    (jwtSignSpy as jest.Mock).mockReturnValueOnce('newAccessToken');
+
+    const response = await supertest(app)
+      .post('/user/refresh')
+      .send({ refreshToken: 'fakeRefreshToken' });
+    expect(response.status).toBe(200);
+    expect(jwtSignSpy).toHaveBeenLastCalledWith(
+      expect.objectContaining({ userId: authUser._id, role: 'moderator' }),
+      expect.any(String),
+      { expiresIn: '1h' },
+    );
+  });
+
+  it('should return a 404 error if the user of the session no longer exists', async () => {
+    mockingoose(UserModel).toReturn(null, 'findOne');
+    rotateSessionSpy.mockResolvedValueOnce({
+      session: mockSession,
+      refreshToken: 'newRefreshToken',
+    });
+
+    const response = await supertest(app)
+      .post('/user/refresh')
+      .send({ refreshToken: 'fakeRefreshToken' });
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('User not found');
+  });
+
+  it('should return a bad request error if the refresh token is missing', async () => {
+    const response = await supertest(app).post('/user/refresh').send({});
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return a 401 error if the refresh token is not accepted', async () => {
+    rotateSessionSpy.mockResolvedValueOnce({ error: 'Refresh token is invalid or has expired' });
+
+    const response = await supertest(app)
+      .post('/user/refresh')
+      .send({ refreshToken: 'fakeRefreshToken' });
+    expect(response.status).toBe(401);
+    expect(response.text).toBe('Refresh token is invalid or has expired');
+  });
+
+  it('should return a 500 error if rotateSession returns an unexpected error', async () => {
+    rotateSessionSpy.mockResolvedValueOnce({ error: 'Error when refreshing a session' });
+
+    const response = await supertest(app)
+      .post('/user/refresh')
+      .send({ refreshToken: 'fakeRefreshToken' });
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when refreshing session: Error when refreshing a session');
+  });
+});
+
+describe('POST /logout', () => {
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should sign out the session of the refresh token', async () => {
+    revokeSessionByRefreshTokenSpy.mockResolvedValueOnce({
+      ...mockSession,
+      revokedAt: new Date(),
+    });
+
+    const response = await supertest(app)
+      .post('/user/logout')
+      .send({ refreshToken: 'fakeRefreshToken' });
+    expect(response.status).toBe(200);
+    expect(response.body.message).toBe('Logout successful');
+    expect(revokeSessionByRefreshTokenSpy).toHaveBeenLastCalledWith('fakeRefreshToken');
+  });
+
+  it('should return a bad request error if the refresh token is missing', async () => {
+    const response = await supertest(app).post('/user/logout').send({});
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return a 401 error if the refresh token is not accepted', async () => {
+    revokeSessionByRefreshTokenSpy.mockResolvedValueOnce({
+      error: 'Refresh token is invalid or has expired',
+    });
+
+    const response = await supertest(app)
+      .post('/user/logout')
+      .send({ refreshToken: 'fakeRefreshToken' });
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('GET /sessions', () => {
+  beforeEach(() => {
+    mockingoose(SessionModel).toReturn(mockSession, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should list the active sessions and flag the current one', async () => {
+    const otherSession = { ...mockSession, _id: new mongoose.Types.ObjectId() };
+    getActiveSessionsSpy.mockResolvedValueOnce([mockSession, otherSession]);
+
+    const response = await supertest(app)
+      .get('/user/sessions')
+      .set('Authorization', `Bearer ${SESSION_TOKEN}`);
+    expect(response.status).toBe(200);
+    expect(response.body).toHaveLength(2);
+    expect(response.body[0]).toEqual({
+      _id: mockSession._id?.toString(),
+      device: 'fakeDevice',
+      createdAt: mockSession.createdAt.toISOString(),
+      lastUsedAt: mockSession.lastUsedAt.toISOString(),
+      current: true,
+    });
+    expect(response.body[1].current).toBe(false);
+    expect(response.body[0].refreshTokenHash).toBeUndefined();
+  });
+
+  it('should return a 401 error if the session of the access token was signed out', async () => {
+    mockingoose(SessionModel).toReturn(null, 'findOne');
+
+    const response = await supertest(app)
+      .get('/user/sessions')
+      .set('Authorization', `Bearer ${SESSION_TOKEN}`);
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Session has been signed out');
+  });
+
+  it('should return a 401 error if the bearer token is missing', async () => {
+    const response = await supertest(app).get('/user/sessions');
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('POST /revokeSession', () => {
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should sign out a session of the authenticated user', async () => {
+    revokeSessionSpy.mockResolvedValueOnce({ ...mockSession, revokedAt: new Date() });
+
+    const response = await supertest(app)
+      .post('/user/revokeSession')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ sessionId: mockSession._id?.toString() });
+    expect(response.status).toBe(200);
+    expect(revokeSessionSpy).toHaveBeenLastCalledWith(authUser._id, mockSession._id?.toString());
+  });
+
+  it('should return a bad request error if the session id is missing', async () => {
+    const response = await supertest(app)
+      .post('/user/revokeSession')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({});
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return a 404 error if the session does not belong to the user', async () => {
+    revokeSessionSpy.mockResolvedValueOnce({ error: 'Session not found' });
+
+    const response = await supertest(app)
+      .post('/user/revokeSession')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ sessionId: mockSession._id?.toString() });
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('Session not found');
+  });
+});
+
 describe('POST /sendPasswordReset', () => {
   afterEach(async () => {
     await mongoose.connection.close(); // Ensure the connection is properly closed
@@ -607,20 +904,48 @@ describe('POST /changeTheme', () => {
   afterAll(async () => {
     await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
   });
-  it('should return a 400 error if username or theme is missing', async () => {
+  it('should return a 400 error if theme is missing', async () => {
     // missing both username and theme
-    const response1 = await supertest(app).post('/user/changeTheme').send({});
+    const response1 = await supertest(app)
+      .post('/user/changeTheme')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({});
     expect(response1.status).toBe(400);
     expect(response1.text).toBe('Invalid request');
 
-    // missing just username
-    const response2 = await supertest(app).post('/user/changeTheme').send({ theme: 'darkMode' });
+    // missing just theme
+    const response2 = await supertest(app)
+      .post('/user/changeTheme')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ username: 'fakeUser' });
     expect(response2.status).toBe(400);
     expect(response2.text).toBe('Invalid request');
-    // missing just theme
-    const response3 = await supertest(app).post('/user/changeTheme').send({ username: 'fakeUser' });
-    expect(response3.status).toBe(400);
-    expect(response3.text).toBe('Invalid request');
+  });
+
+  it('should update the theme of the authenticated user if username is missing', async () => {
+    changeThemeSpy.mockResolvedValueOnce(mockUser);
+    const response = await supertest(app)
+      .post('/user/changeTheme')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ theme: 'DarkMode' });
+    expect(response.status).toBe(200);
+    expect(changeThemeSpy).toHaveBeenLastCalledWith('fakeUser', 'DarkMode');
+  });
+
+  it('should return a 403 error if username is not the authenticated user', async () => {
+    const response = await supertest(app)
+      .post('/user/changeTheme')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ username: 'otherUser', theme: 'DarkMode' });
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('Cannot change the settings of another user');
+  });
+
+  it('should return a 401 error if the bearer token is missing', async () => {
+    const response = await supertest(app)
+      .post('/user/changeTheme')
+      .send({ username: 'fakeUser', theme: 'DarkMode' });
+    expect(response.status).toBe(401);
   });
 
   it('should return a success message and updated user if theme update is successful', async () => {
@@ -638,7 +963,10 @@ describe('POST /changeTheme', () => {
     };
 
     changeThemeSpy.mockResolvedValueOnce(mockResponse);
-    const response = await supertest(app).post('/user/changeTheme').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeTheme')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(200);
     expect(response.body.message).toBe('Theme update successful');
     expect(response.body.user.theme).toBe('dark');
@@ -649,7 +977,10 @@ describe('POST /changeTheme', () => {
       theme: 'dark',
     };
     changeThemeSpy.mockResolvedValueOnce({ error: 'User not found' });
-    const response = await supertest(app).post('/user/changeTheme').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeTheme')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when updating theme: User not found');
   });
@@ -660,7 +991,10 @@ describe('POST /changeTheme', () => {
       username: 'fakeUser',
       theme: 'dark',
     };
-    const response = await supertest(app).post('/user/changeTheme').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeTheme')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when updating theme');
   });
@@ -688,31 +1022,43 @@ describe('POST /changeFont', () => {
       creationDateTime: new Date(),
     };
     changeFontSpy.mockResolvedValueOnce(mockResponse);
-    const response = await supertest(app).post('/user/changeFont').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeFont')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(200);
     expect(response.body.message).toBe('Font update successful');
     expect(response.body.user.font).toBe('Arial');
   });
   it('should return a 400 error if the request body is missing required fields', async () => {
-    const response = await supertest(app).post('/user/changeFont');
+    const response = await supertest(app)
+      .post('/user/changeFont')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
   });
-  it('should return a 400 error if the username field is missing', async () => {
+  it('should update the font of the authenticated user if the username field is missing', async () => {
     const mockReqBody = {
       font: 'Arial',
     };
 
-    const response = await supertest(app).post('/user/changeFont').send(mockReqBody);
-    expect(response.status).toBe(400);
-    expect(response.text).toBe('Invalid request');
+    changeFontSpy.mockResolvedValueOnce(mockUser);
+    const response = await supertest(app)
+      .post('/user/changeFont')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+    expect(response.status).toBe(200);
+    expect(changeFontSpy).toHaveBeenLastCalledWith('fakeUser', 'Arial');
   });
   it('should return a 400 error if the font field is missing', async () => {
     const mockReqBody = {
       username: 'fakeUser',
     };
 
-    const response = await supertest(app).post('/user/changeFont').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeFont')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
   });
@@ -723,7 +1069,10 @@ describe('POST /changeFont', () => {
       font: 'Arial',
     };
 
-    const response = await supertest(app).post('/user/changeFont').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeFont')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when updating font: Database connection failed');
   });
@@ -734,7 +1083,10 @@ describe('POST /changeFont', () => {
       username: 'fakeUser',
       font: 'Arial',
     };
-    const response = await supertest(app).post('/user/changeFont').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeFont')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when updating font');
   });
@@ -748,7 +1100,10 @@ describe('POST /changeFont', () => {
       username: 'fakeUser',
       font: 'Arial',
     };
-    const response = await supertest(app).post('/user/changeFont').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeFont')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when updating font: Font change failed due to some issue');
   });
@@ -762,17 +1117,14 @@ describe('POST /changeTextSize', () => {
   afterAll(async () => {
     await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
   });
-  it('should return a 400 error when the request body is missing username or textSize', async () => {
-    const mockReqBody1 = {
-      textSize: '16px',
-    };
-    const response1 = await supertest(app).post('/user/changeTextSize').send(mockReqBody1);
-    expect(response1.status).toBe(400);
-    expect(response1.text).toBe('Invalid request');
+  it('should return a 400 error when the request body is missing textSize', async () => {
     const mockReqBody2 = {
       username: 'fakeUser',
     };
-    const response2 = await supertest(app).post('/user/changeTextSize').send(mockReqBody2);
+    const response2 = await supertest(app)
+      .post('/user/changeTextSize')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody2);
     expect(response2.status).toBe(400);
     expect(response2.text).toBe('Invalid request');
   });
@@ -790,7 +1142,10 @@ describe('POST /changeTextSize', () => {
       creationDateTime: new Date(),
     };
     changeTextSizeSpy.mockResolvedValueOnce(mockResponse);
-    const response = await supertest(app).post('/user/changeTextSize').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeTextSize')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(200);
     expect(response.body.message).toBe('Text size update successful');
   });
@@ -803,7 +1158,10 @@ describe('POST /changeTextSize', () => {
     const mockErrorResponse = { error: 'Invalid text size' };
     changeTextSizeSpy.mockResolvedValueOnce(mockErrorResponse);
 
-    const response = await supertest(app).post('/user/changeTextSize').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeTextSize')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when updating text size: Invalid text size');
   });
@@ -815,7 +1173,10 @@ describe('POST /changeTextSize', () => {
     const mockError = new Error('Some unexpected error');
     changeTextSizeSpy.mockRejectedValueOnce(mockError);
 
-    const response = await supertest(app).post('/user/changeTextSize').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeTextSize')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when updating text size: Some unexpected error');
   });
@@ -827,7 +1188,10 @@ describe('POST /changeTextSize', () => {
     const mockNonError = {};
     changeTextSizeSpy.mockRejectedValueOnce(mockNonError);
 
-    const response = await supertest(app).post('/user/changeTextSize').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeTextSize')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when updating text size');
   });
@@ -840,12 +1204,15 @@ describe('POST /changeTextBoldness', () => {
   afterAll(async () => {
     await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
   });
-  it('should return a 400 error if username or textBoldness is missing', async () => {
+  it('should return a 400 error if textBoldness is missing', async () => {
     const mockReqBody = {
       username: 'fakeUser',
     };
 
-    const response = await supertest(app).post('/user/changeTextBoldness').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeTextBoldness')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
   });
@@ -860,7 +1227,10 @@ describe('POST /changeTextBoldness', () => {
     };
 
     changeTextBoldnessSpy.mockResolvedValueOnce(mockErrorResponse);
-    const response = await supertest(app).post('/user/changeTextBoldness').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeTextBoldness')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when updating text boldness: Database update failed');
   });
@@ -871,7 +1241,10 @@ describe('POST /changeTextBoldness', () => {
     };
     changeTextBoldnessSpy.mockRejectedValueOnce({});
 
-    const response = await supertest(app).post('/user/changeTextBoldness').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeTextBoldness')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when updating text boldness');
   });
@@ -885,12 +1258,15 @@ describe('POST /changeLineSpacing', () => {
   afterAll(async () => {
     await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
   });
-  it('should return a 400 error if username or line spacing is missing', async () => {
+  it('should return a 400 error if line spacing is missing', async () => {
     const mockReqBody = {
       username: 'fakeUser',
     };
 
-    const response = await supertest(app).post('/user/changeLineSpacing').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeLineSpacing')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
   });
@@ -905,7 +1281,10 @@ describe('POST /changeLineSpacing', () => {
     };
 
     changeLineSpacingSpy.mockResolvedValueOnce(mockErrorResponse);
-    const response = await supertest(app).post('/user/changeLineSpacing').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeLineSpacing')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe(
       'Error when updating line spacing: Error changing user line spacing',
@@ -918,10 +1297,401 @@ describe('POST /changeLineSpacing', () => {
     };
     changeLineSpacingSpy.mockRejectedValueOnce({});
 
-    const response = await supertest(app).post('/user/changeLineSpacing').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/user/changeLineSpacing')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
     expect(response.status).toBe(500);
     expect(response.text).toBe(
       'Error when updating line spacing: Error changing user line spacing',
     );
   });
 });
+
+describe('GET /getReputation/:username', () => {
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should return the reputation of the user and its events', async () => {
+    getReputationSpy.mockResolvedValueOnce({ reputation: 11, events: [] });
+
+    const response = await supertest(app).get('/user/getReputation/fakeUser');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ reputation: 11, events: [] });
+    expect(getReputationSpy).toHaveBeenLastCalledWith('fakeUser');
+  });
+
+  it('should return a 404 error if the user does not exist', async () => {
+    getReputationSpy.mockResolvedValueOnce({ error: 'User not found' });
+
+    const response = await supertest(app).get('/user/getReputation/nobody');
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('User not found');
+  });
+
+  it('should return a 500 error if the reputation could not be fetched', async () => {
+    getReputationSpy.mockResolvedValueOnce({ error: 'Error when fetching reputation' });
+
+    const response = await supertest(app).get('/user/getReputation/fakeUser');
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when fetching reputation: Error when fetching reputation');
+  });
+});
+
+describe('GET /profile/:username', () => {
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should return the profile of the user', async () => {
+    const profile = {
+      username: 'fakeUser',
+      creationDateTime: new Date('2024-06-01'),
+      reputation: 11,
+      role: 'user' as const,
+      questions: [],
+      answers: [],
+      comments: [],
+      votesReceived: { upVotes: 1, downVotes: 0 },
+      topTags: [{ name: 'react', count: 1 }],
+    };
+    getUserProfileSpy.mockResolvedValueOnce(profile);
+
+    const response = await supertest(app).get('/user/profile/fakeUser');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      ...profile,
+      creationDateTime: profile.creationDateTime.toISOString(),
+    });
+    expect(getUserProfileSpy).toHaveBeenLastCalledWith('fakeUser');
+  });
+
+  it('should return a 404 error if the user does not exist', async () => {
+    getUserProfileSpy.mockResolvedValueOnce({ error: 'User not found' });
+
+    const response = await supertest(app).get('/user/profile/nobody');
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('User not found');
+  });
+
+  it('should return a 500 error if the profile could not be fetched', async () => {
+    getUserProfileSpy.mockResolvedValueOnce({ error: 'Error when fetching the user profile' });
+
+    const response = await supertest(app).get('/user/profile/fakeUser');
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when fetching profile: Error when fetching the user profile');
+  });
+});
+
+describe('GET /emailPreferences', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should return the email preferences of the user', async () => {
+    const preferences: EmailPreferences = {
+      answers: true,
+      comments: false,
+      digest: 'daily',
+      watchedTags: ['react'],
+    };
+    getEmailPreferencesSpy.mockResolvedValueOnce(preferences);
+
+    const response = await supertest(app)
+      .get('/user/emailPreferences')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(preferences);
+    expect(getEmailPreferencesSpy).toHaveBeenLastCalledWith('fakeUser');
+  });
+
+  it('should return a 500 error if the preferences could not be fetched', async () => {
+    getEmailPreferencesSpy.mockResolvedValueOnce({
+      error: 'Error when fetching email preferences',
+    });
+
+    const response = await supertest(app)
+      .get('/user/emailPreferences')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+    expect(response.status).toBe(500);
+    expect(response.text).toBe(
+      'Error when fetching email preferences: Error when fetching email preferences',
+    );
+  });
+});
+
+describe('POST /updateEmailPreferences', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn(authUser, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should update the email preferences of the user', async () => {
+    updateEmailPreferencesSpy.mockResolvedValueOnce({
+      answers: true,
+      comments: false,
+      digest: 'weekly',
+      watchedTags: ['react'],
+    });
+
+    const response = await supertest(app)
+      .post('/user/updateEmailPreferences')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ answers: true, digest: 'weekly', watchedTags: ['react'] });
+    expect(response.status).toBe(200);
+    expect(response.body.digest).toBe('weekly');
+    expect(updateEmailPreferencesSpy).toHaveBeenLastCalledWith('fakeUser', {
+      answers: true,
+      comments: undefined,
+      digest: 'weekly',
+      watchedTags: ['react'],
+    });
+  });
+
+  it('should return a bad request error if the digest frequency is unknown', async () => {
+    const response = await supertest(app)
+      .post('/user/updateEmailPreferences')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ digest: 'hourly' });
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return a bad request error if the watched tags are not a list of names', async () => {
+    const response = await supertest(app)
+      .post('/user/updateEmailPreferences')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ watchedTags: 'react' });
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return a 500 error if the preferences could not be updated', async () => {
+    updateEmailPreferencesSpy.mockResolvedValueOnce({
+      error: 'Error when updating email preferences',
+    });
+
+    const response = await supertest(app)
+      .post('/user/updateEmailPreferences')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ comments: true });
+    expect(response.status).toBe(500);
+    expect(response.text).toBe(
+      'Error when updating email preferences: Error when updating email preferences',
+    );
+  });
+});
+
+describe('GET /unsubscribe', () => {
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should ask to confirm without unsubscribing the user', async () => {
+    unsubscribeSpy.mockClear();
+
+    const response = await supertest(app).get('/user/unsubscribe?token=abc&list=digest');
+    expect(response.status).toBe(200);
+    expect(response.text).toContain('Stop receiving digest emails from CodeFlow?');
+    expect(response.text).toContain(
+      '<form method="post" action="http://localhost:8000/user/unsubscribe?token=abc&amp;list=digest">',
+    );
+    expect(unsubscribeSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a bad request error if the list is unknown', async () => {
+    const response = await supertest(app).get('/user/unsubscribe?token=abc&list=everything');
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+});
+
+describe('POST /unsubscribe', () => {
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should unsubscribe the user identified by the token', async () => {
+    unsubscribeSpy.mockResolvedValueOnce({ username: 'fakeUser' });
+
+    const response = await supertest(app).post('/user/unsubscribe?token=abc&list=digest');
+    expect(response.status).toBe(200);
+    expect(response.text).toContain('You will no longer receive digest emails');
+    expect(unsubscribeSpy).toHaveBeenLastCalledWith('abc', 'digest');
+  });
+
+  it('should unsubscribe on a one-click request from a mail client', async () => {
+    unsubscribeSpy.mockResolvedValueOnce({ username: 'fakeUser' });
+
+    const response = await supertest(app)
+      .post('/user/unsubscribe?token=abc&list=answers')
+      .type('form')
+      .send('List-Unsubscribe=One-Click');
+    expect(response.status).toBe(200);
+    expect(unsubscribeSpy).toHaveBeenLastCalledWith('abc', 'answers');
+  });
+
+  it('should return a bad request error if the list is unknown', async () => {
+    const response = await supertest(app).post('/user/unsubscribe?token=abc&list=everything');
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return a bad request error if the token is not a string', async () => {
+    unsubscribeSpy.mockClear();
+
+    const response = await supertest(app).post('/user/unsubscribe?token[$ne]=x&list=all');
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+    expect(unsubscribeSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a 404 error if the token is unknown', async () => {
+    unsubscribeSpy.mockResolvedValueOnce({ error: 'Invalid unsubscribe link' });
+
+    const response = await supertest(app).post('/user/unsubscribe?token=abc&list=all');
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('Invalid unsubscribe link');
+  });
+});
+
+describe('POST /promote', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn({ ...authUser, role: 'admin' }, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should promote the user on behalf of an admin', async () => {
+    changeUserRoleSpy.mockResolvedValueOnce({
+      ...mockUser,
+      username: 'otherUser',
+      role: 'moderator',
+    });
+
+    const response = await supertest(app)
+      .post('/user/promote')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ username: 'otherUser' });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ username: 'otherUser', role: 'moderator' });
+    expect(changeUserRoleSpy).toHaveBeenLastCalledWith('otherUser', 'promote');
+  });
+
+  it('should return a 403 error if the user is not an admin', async () => {
+    mockingoose(UserModel).toReturn({ ...authUser, role: 'moderator' }, 'findOne');
+    changeUserRoleSpy.mockClear();
+
+    const response = await supertest(app)
+      .post('/user/promote')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ username: 'otherUser' });
+    expect(response.status).toBe(403);
+    expect(response.text).toBe('This requires the admin role');
+    expect(changeUserRoleSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a bad request error if the admin changes their own role', async () => {
+    const response = await supertest(app)
+      .post('/user/promote')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ username: 'fakeUser' });
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('You cannot change your own role');
+  });
+
+  it('should return a bad request error if the user already has the highest role', async () => {
+    changeUserRoleSpy.mockResolvedValueOnce({ error: 'User already has the highest role' });
+
+    const response = await supertest(app)
+      .post('/user/promote')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ username: 'otherUser' });
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('User already has the highest role');
+  });
+});
+
+describe('POST /demote', () => {
+  beforeEach(() => {
+    mockingoose(UserModel).toReturn({ ...authUser, role: 'admin' }, 'findOne');
+  });
+
+  afterEach(async () => {
+    await mongoose.connection.close(); // Ensure the connection is properly closed
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect(); // Ensure mongoose is disconnected after all tests
+  });
+
+  it('should demote the user on behalf of an admin', async () => {
+    changeUserRoleSpy.mockResolvedValueOnce({ ...mockUser, username: 'otherUser', role: 'user' });
+
+    const response = await supertest(app)
+      .post('/user/demote')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ username: 'otherUser' });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ username: 'otherUser', role: 'user' });
+    expect(changeUserRoleSpy).toHaveBeenLastCalledWith('otherUser', 'demote');
+  });
+
+  it('should return a 404 error if the user does not exist', async () => {
+    changeUserRoleSpy.mockResolvedValueOnce({ error: 'Username does not exist' });
+
+    const response = await supertest(app)
+      .post('/user/demote')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ username: 'ghost' });
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('Username does not exist');
+  });
+
+  it('should return a bad request error if the username is missing', async () => {
+    const response = await supertest(app)
+      .post('/user/demote')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({});
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+});
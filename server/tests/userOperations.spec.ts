@@ -13,6 +13,7 @@ import {
   changeTextBoldness,
   changeFont,
   changeLineSpacing,
+  changeUserRole,
   findOrSaveGoogleUser,
 } from '../models/userOperations';
 import UserModel from '../models/users';
@@ -383,6 +384,53 @@ describe('User model', () => {
     });
   });
 
+  describe('changeUserRole', () => {
+    test('changeUserRole should promote a regular user to moderator', async () => {
+      mockingoose(UserModel).toReturn(mockUser, 'findOne');
+      mockingoose(UserModel).toReturn({ ...mockUser, role: 'moderator' }, 'findOneAndUpdate');
+      const updateSpy = jest.spyOn(UserModel, 'findOneAndUpdate');
+
+      const result = await changeUserRole('fakeUser', 'promote');
+
+      expect(result).toMatchObject({ username: 'fakeUser', role: 'moderator' });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { username: 'fakeUser' },
+        { $set: { role: 'moderator' } },
+        { new: true },
+      );
+    });
+
+    test('changeUserRole should demote an admin to moderator', async () => {
+      mockingoose(UserModel).toReturn({ ...mockUser, role: 'admin' }, 'findOne');
+      mockingoose(UserModel).toReturn({ ...mockUser, role: 'moderator' }, 'findOneAndUpdate');
+
+      const result = await changeUserRole('fakeUser', 'demote');
+
+      expect(result).toMatchObject({ role: 'moderator' });
+    });
+
+    test('changeUserRole should not promote an admin', async () => {
+      mockingoose(UserModel).toReturn({ ...mockUser, role: 'admin' }, 'findOne');
+
+      const result = await changeUserRole('fakeUser', 'promote');
+      expect(result).toEqual({ error: 'User already has the highest role' });
+    });
+
+    test('changeUserRole should not demote a regular user', async () => {
+      mockingoose(UserModel).toReturn(mockUser, 'findOne');
+
+      const result = await changeUserRole('fakeUser', 'demote');
+      expect(result).toEqual({ error: 'User already has the lowest role' });
+    });
+
+    test('changeUserRole should return error if username does not exist', async () => {
+      mockingoose(UserModel).toReturn(null, 'findOne');
+
+      const result = await changeUserRole('nonexistentUser', 'promote');
+      expect(result).toEqual({ error: 'Username does not exist' });
+    });
+  });
+
   describe('findOrSaveGoogleUser', () => {
     test('should return the user if it already exists', async () => {
       mockingoose(UserModel).toReturn(mockGoogleUser, 'findOne');
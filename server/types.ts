@@ -2,12 +2,44 @@ import { Request } from 'express';
 import { ObjectId } from 'mongodb';
 import { Server } from 'socket.io';
 import { JwtPayload } from 'jsonwebtoken';
-export type FakeSOSocket = Server<ServerToClientEvents>;
+export type FakeSOSocket = Server<ClientToServerEvents, ServerToClientEvents>;
 
 /**
  * Type representing the possible ordering options for questions.
  */
-export type OrderType = 'newest' | 'unanswered' | 'active' | 'mostViewed';
+export type OrderType =
+  | 'newest'
+  | 'unanswered'
+  | 'unresolved'
+  | 'active'
+  | 'mostViewed'
+  | 'relevance';
+
+/**
+ * Interface representing a single field changed by an edit, which contains:
+ * - field - The name of the field that was changed.
+ * - before - The value of the field before the edit. Tags and synonyms are stored as space
+ *   separated names.
+ * - after - The value of the field after the edit. Tags and synonyms are stored as space
+ *   separated names.
+ */
+export interface RevisionChange {
+  field: 'title' | 'text' | 'tags' | 'description' | 'wiki' | 'synonyms';
+  before: string;
+  after: string;
+}
+
+/**
+ * Interface representing a revision of a question, answer, comment or tag, which contains:
+ * - editedBy - The username of the user who made the edit.
+ * - editDateTime - The date and time when the edit was made.
+ * - changes - The fields changed by the edit.
+ */
+export interface Revision {
+  editedBy: string;
+  editDateTime: Date;
+  changes: RevisionChange[];
+}
 
 /**
  * Interface representing an Answer document, which contains:
@@ -16,6 +48,11 @@ export type OrderType = 'newest' | 'unanswered' | 'active' | 'mostViewed';
  * - ansBy - The username of the user who wrote the answer
  * - ansDateTime - The date and time when the answer was created
  * - comments - Object IDs of comments that have been added to the answer by users, or comments themselves if populated
+ * - upVotes - An array of usernames that have upvoted the answer. Optional field.
+ * - downVotes - An array of usernames that have downvoted the answer. Optional field.
+ * - revisions - The edits made to the answer, oldest first. Optional field.
+ * - deletedAt - The date and time when the answer was deleted. Optional field.
+ * - hiddenAt - The date and time when the answer was hidden after being flagged. Optional field.
  */
 export interface Answer {
   _id?: ObjectId;
@@ -23,6 +60,11 @@ export interface Answer {
   ansBy: string;
   ansDateTime: Date;
   comments: Comment[] | ObjectId[];
+  upVotes?: string[];
+  downVotes?: string[];
+  revisions?: Revision[];
+  deletedAt?: Date;
+  hiddenAt?: Date;
 }
 
 /**
@@ -30,13 +72,39 @@ export interface Answer {
  * - qid - The unique identifier of the question being answered
  * - ans - The answer being added
  */
-export interface AnswerRequest extends Request {
+export interface AnswerRequest extends AuthenticatedRequest {
   body: {
     qid: string;
     ans: Answer;
   };
 }
 
+/**
+ * Interface extending the request body when editing an answer, which contains:
+ * - qid - The unique identifier of the question the answer belongs to.
+ * - aid - The unique identifier of the answer being edited.
+ * - text - The new content of the answer.
+ */
+export interface EditAnswerRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+    aid: string;
+    text: string;
+  };
+}
+
+/**
+ * Interface extending the request body when deleting an answer, which contains:
+ * - qid - The unique identifier of the question the answer belongs to.
+ * - aid - The unique identifier of the answer being deleted.
+ */
+export interface DeleteAnswerRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+    aid: string;
+  };
+}
+
 /**
  * Type representing the possible responses for an Answer-related operation.
  */
@@ -46,11 +114,92 @@ export type AnswerResponse = Answer | { error: string };
  * Interface representing a Tag document, which contains:
  * - _id - The unique identifier for the tag. Optional field.
  * - name - Name of the tag
+ * - description - A short summary of what the tag is for
+ * - wiki - A longer explanation of the tag, in Markdown. Optional field.
+ * - synonyms - Other names that resolve to this tag when questions are tagged. Optional field.
+ * - revisions - The edits made to the tag, oldest first. Optional field.
  */
 export interface Tag {
   _id?: ObjectId;
   name: string;
   description: string;
+  wiki?: string;
+  synonyms?: string[];
+  revisions?: Revision[];
+}
+
+/**
+ * Type representing the possible responses for a Tag-related operation.
+ */
+export type TagResponse = Tag | { error: string };
+
+/**
+ * Interface representing a tag suggested while tags are typed, which contains:
+ * - name - The name of the tag.
+ * - description - A short summary of what the tag is for.
+ * - synonyms - Other names that resolve to the tag.
+ * - qcnt - The number of questions tagged with the tag.
+ */
+export interface TagSuggestion {
+  name: string;
+  description: string;
+  synonyms: string[];
+  qcnt: number;
+}
+
+/**
+ * Type representing the possible responses for suggesting tags.
+ */
+export type TagSuggestionResponse = TagSuggestion[] | { error: string };
+
+/**
+ * Interface for the request query to suggest tags, which contains:
+ * - prefix - The start of the name of the tag, or of one of its synonyms. Optional field.
+ * - limit - The most tags to suggest, as a string. Optional field.
+ */
+export interface TagSuggestRequest extends Request {
+  query: {
+    prefix?: string;
+    limit?: string;
+  };
+}
+
+/**
+ * Interface for the request body when editing the description and wiki of a tag, which contains:
+ * - name - The name of the tag being edited.
+ * - description - The new description of the tag. Optional field.
+ * - wiki - The new wiki of the tag. Optional field.
+ */
+export interface EditTagRequest extends AuthenticatedRequest {
+  body: {
+    name: string;
+    description?: string;
+    wiki?: string;
+  };
+}
+
+/**
+ * Interface for the request body when adding or removing a synonym of a tag, which contains:
+ * - name - The name of the tag.
+ * - synonym - The other name that resolves to the tag.
+ */
+export interface TagSynonymRequest extends AuthenticatedRequest {
+  body: {
+    name: string;
+    synonym: string;
+  };
+}
+
+/**
+ * Interface for the request body when merging a tag into another, which contains:
+ * - source - The name of the tag merged away. It becomes a synonym of the target.
+ * - target - The name of the tag the questions of the source are moved to.
+ */
+export interface MergeTagsRequest extends AuthenticatedRequest {
+  body: {
+    source: string;
+    target: string;
+  };
 }
 
 /**
@@ -66,12 +215,29 @@ export interface Tag {
  * - upVotes - An array of usernames that have upvoted the question.
  * - downVotes - An array of usernames that have downvoted the question.
  * - comments - Object IDs of comments that have been added to the question by users, or comments themselves if populated.
+ * - acceptedAnswer - Object ID of the answer the asker marked as having solved the question. Optional field.
+ * - revisions - The edits made to the question, oldest first. Optional field.
+ * - deletedAt - The date and time when the question was deleted. Optional field.
+ * - hiddenAt - The date and time when the question was hidden after being flagged. Optional field.
+ * - aiGeneratedAnswer - The answer generated by the AI provider, once it is ready. Optional field.
+ * - aiAnswerStatus - Whether the AI answer is still being generated, ready or failed. Optional
+ *   field; questions asked before AI answers were generated in the background have none.
+ * - aiAnswerFeedback - The ratings and flags of the AI answer, and whether the asker hid it.
+ *   Optional field.
+ * - closeVotes - The votes to close the question cast since it was last opened. Optional field.
+ * - reopenVotes - The usernames of the users who voted to reopen the question since it was closed.
+ *   Optional field.
+ * - closure - Why, when and by whom the question was closed. Optional field, only set on closed
+ *   questions.
+ * - lock - When and by whom the question was locked. Optional field, only set on locked questions.
  */
 export interface Question {
   _id?: ObjectId;
   title: string;
   text: string;
   aiGeneratedAnswer?: string;
+  aiAnswerStatus?: AIAnswerStatus;
+  aiAnswerFeedback?: AIAnswerFeedback;
   tags: Tag[];
   askedBy: string;
   askDateTime: Date;
@@ -80,24 +246,256 @@ export interface Question {
   upVotes: string[];
   downVotes: string[];
   comments: Comment[] | ObjectId[];
+  acceptedAnswer?: ObjectId;
+  revisions?: Revision[];
+  deletedAt?: Date;
+  hiddenAt?: Date;
+  closeVotes?: CloseVote[];
+  reopenVotes?: string[];
+  closure?: QuestionClosure;
+  lock?: QuestionLock;
+}
+
+/**
+ * Type representing why a question was closed.
+ * - `duplicate`: The question was already asked and answered in another question.
+ * - `offTopic`: The question is not about the topics of the site.
+ * - `needsDetails`: The question lacks the details needed to answer it.
+ * - `opinionBased`: The question can only be answered with opinions.
+ */
+export type CloseReason = 'duplicate' | 'offTopic' | 'needsDetails' | 'opinionBased';
+
+/**
+ * Interface representing a vote to close a question, which contains:
+ * - username - The username of the user who voted.
+ * - reason - Why the user thinks the question should be closed.
+ * - duplicateOf - The question the user thinks this one duplicates, when voting to close it as a
+ *   duplicate. Optional field.
+ * - createdAt - The date and time when the user voted.
+ */
+export interface CloseVote {
+  username: string;
+  reason: CloseReason;
+  duplicateOf?: ObjectId;
+  createdAt: Date;
+}
+
+/**
+ * Interface representing the closure of a question, which contains:
+ * - reason - Why the question was closed.
+ * - duplicateOf - The question this one duplicates, when closed as a duplicate: its ID, or its ID
+ *   and title if populated. Optional field.
+ * - closedBy - The usernames of the users whose votes closed the question.
+ * - closedAt - The date and time when the question was closed.
+ */
+export interface QuestionClosure {
+  reason: CloseReason;
+  duplicateOf?: ObjectId | { _id: ObjectId; title: string };
+  closedBy: string[];
+  closedAt: Date;
+}
+
+/**
+ * Interface representing the lock of a question, which prevents new answers and comments, and
+ * contains:
+ * - lockedBy - The username of the moderator who locked the question.
+ * - lockedAt - The date and time when the question was locked.
+ * - reason - Why the question was locked. Optional field.
+ */
+export interface QuestionLock {
+  lockedBy: string;
+  lockedAt: Date;
+  reason?: string;
+}
+
+/**
+ * Interface representing an existing question that may be a duplicate of a question being asked,
+ * which contains:
+ * - qid - The unique identifier of the question.
+ * - title - The title of the question.
+ * - tags - The names of the tags of the question.
+ * - answerCount - The number of answers to the question.
+ * - hasAcceptedAnswer - Whether the asker accepted one of the answers.
+ * - askDateTime - The date and time when the question was asked.
+ * - score - How similar the question is to the one being asked, from 0 to 1.
+ */
+export interface SimilarQuestion {
+  qid: string;
+  title: string;
+  tags: string[];
+  answerCount: number;
+  hasAcceptedAnswer: boolean;
+  askDateTime: Date;
+  score: number;
+}
+
+/**
+ * Type representing the possible responses for an operation that finds questions similar to one
+ * being asked.
+ */
+export type SimilarQuestionsResponse = SimilarQuestion[] | { error: string };
+
+/**
+ * Type representing the status of the AI answer of a question.
+ * - `pending`: The answer is being generated.
+ * - `ready`: The answer was generated.
+ * - `failed`: No answer could be generated, even after retrying.
+ */
+export type AIAnswerStatus = 'pending' | 'ready' | 'failed';
+
+/**
+ * Type representing how a user rated an AI generated answer, either 'helpful' or 'unhelpful'.
+ */
+export type AIAnswerRating = 'helpful' | 'unhelpful';
+
+/**
+ * Interface representing a flag of an AI generated answer as incorrect, which contains:
+ * - username - The username of the user who flagged the answer.
+ * - reason - Why the user thinks the answer is incorrect. Optional field.
+ * - createdAt - The date and time when the answer was flagged.
+ */
+export interface AIAnswerFlag {
+  username: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+/**
+ * Interface representing the feedback on the AI generated answer of a question, which contains:
+ * - helpful - The usernames of the users who rated the answer helpful.
+ * - unhelpful - The usernames of the users who rated the answer unhelpful.
+ * - flags - The flags of the answer as incorrect.
+ * - hidden - Whether the asker hid the answer.
+ */
+export interface AIAnswerFeedback {
+  helpful: string[];
+  unhelpful: string[];
+  flags: AIAnswerFlag[];
+  hidden: boolean;
+}
+
+/**
+ * Interface representing the payload for an AI answer feedback update event, which contains:
+ * - qid - The unique identifier of the question.
+ * - aiAnswerFeedback - The updated feedback on the AI answer of the question.
+ */
+export interface AIAnswerFeedbackUpdatePayload {
+  qid: string;
+  aiAnswerFeedback: AIAnswerFeedback;
+}
+
+/**
+ * Type representing the possible responses for an operation that changes the feedback on an AI
+ * generated answer.
+ */
+export type AIAnswerFeedbackResponse = AIAnswerFeedbackUpdatePayload | { error: string };
+
+/**
+ * Interface representing an AI generated answer in the report of the worst-rated ones, which
+ * contains:
+ * - qid - The unique identifier of the question.
+ * - title - The title of the question.
+ * - text - The text of the question, which the answer was generated from.
+ * - aiGeneratedAnswer - The generated answer.
+ * - helpful - The number of users who rated the answer helpful.
+ * - unhelpful - The number of users who rated the answer unhelpful.
+ * - flags - The flags of the answer as incorrect.
+ * - score - How badly the answer was rated: its unhelpful ratings and flags minus its helpful
+ *   ratings.
+ */
+export interface AIAnswerReportEntry {
+  qid: string;
+  title: string;
+  text: string;
+  aiGeneratedAnswer: string;
+  helpful: number;
+  unhelpful: number;
+  flags: AIAnswerFlag[];
+  score: number;
 }
 
+/**
+ * Type representing the possible responses for an operation that builds the report of the
+ * worst-rated AI generated answers.
+ */
+export type AIAnswerReportResponse = AIAnswerReportEntry[] | { error: string };
+
 /**
  * Type representing the possible responses for a Question-related operation.
  */
 export type QuestionResponse = Question | { error: string };
 
+/**
+ * Interface representing a search string broken down into its parts, which contains:
+ * - terms - Words any of which should appear in the question or its answers
+ * - phrases - Quoted phrases that must all appear in the question or its answers
+ * - excluded - Words and phrases, prefixed with `-`, that must not appear in the question
+ * - tags - Tag names, in square brackets, that the question must all have
+ * - user - The username given with `user:`, who must have asked the question
+ * - is - The states given with `is:` that the question must be in
+ * - score - The comparison given with `score:` that the question's score must satisfy
+ */
+export interface SearchQuery {
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+  tags: string[];
+  user?: string;
+  is: ('answered' | 'unanswered' | 'accepted')[];
+  score?: { op: '>' | '>=' | '<' | '<=' | '='; value: number };
+}
+
+/**
+ * Interface representing a piece of a search result snippet, which contains:
+ * - text - The text of the piece
+ * - match - Whether the piece matches the search and should be highlighted
+ */
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Interface representing a question in a listing, which extends Question with:
+ * - snippet - An excerpt of the question, or of a matching answer, highlighting the search terms.
+ *             Only present when searching for words or phrases
+ */
+export interface ListedQuestion extends Question {
+  snippet?: SnippetPart[];
+}
+
+/**
+ * Interface representing one page of a question listing, which contains:
+ * - questions - The questions on the page, in order
+ * - total - The number of questions matching the listing across all pages
+ * - nextCursor - An opaque cursor for fetching the next page, absent on the last page
+ */
+export interface QuestionPage {
+  questions: ListedQuestion[];
+  total: number;
+  nextCursor?: string;
+}
+
+/**
+ * Type representing the possible responses for an operation that fetches a page of questions.
+ */
+export type QuestionPageResponse = QuestionPage | { error: string };
+
 /**
  * Interface for the request query to find questions using a search string, which contains:
  * - order - The order in which to sort the questions
  * - search - The search string used to find questions
  * - askedBy - The username of the user who asked the question
+ * - limit - The maximum number of questions to return
+ * - cursor - The cursor returned with the previous page, to continue the listing after it
  */
 export interface FindQuestionRequest extends Request {
   query: {
     order: OrderType;
     search: string;
     askedBy: string;
+    limit?: string;
+    cursor?: string;
   };
 }
 
@@ -105,7 +503,7 @@ export interface FindQuestionRequest extends Request {
  * Interface for the request parameters when finding a question by its ID.
  * - qid - The unique identifier of the question.
  */
-export interface FindQuestionByIdRequest extends Request {
+export interface FindQuestionByIdRequest extends AuthenticatedRequest {
   params: {
     qid: string;
   };
@@ -118,7 +516,7 @@ export interface FindQuestionByIdRequest extends Request {
  * Interface for the request body when adding a new question.
  * - body - The question being added.
  */
-export interface AddQuestionRequest extends Request {
+export interface AddQuestionRequest extends AuthenticatedRequest {
   body: Question;
 }
 
@@ -126,153 +524,428 @@ export interface AddQuestionRequest extends Request {
  * Interface for the request body when upvoting or downvoting a question.
  * - body - The question ID and the username of the user voting.
  *  - qid - The unique identifier of the question.
- *  - username - The username of the user voting.
+ *  - username - The username of the user voting. Optional, must match the authenticated user if set.
  */
-export interface VoteRequest extends Request {
+export interface VoteRequest extends AuthenticatedRequest {
   body: {
     qid: string;
-    username: string;
+    username?: string;
   };
 }
 
 /**
- * Interface representing a Comment, which contains:
- * - _id - The unique identifier for the comment. Optional field.
- * - text - The content of the comment.
- * - commentBy - The username of the user who commented.
- * - commentDateTime - The date and time when the comment was posted.
- *
+ * Interface for the request body when upvoting or downvoting an answer.
+ * - body - The answer ID and the username of the user voting.
+ *  - aid - The unique identifier of the answer.
+ *  - username - The username of the user voting. Optional, must match the authenticated user if set.
  */
-export interface Comment {
-  _id?: ObjectId;
-  text: string;
-  commentBy: string;
-  commentDateTime: Date;
+export interface AnswerVoteRequest extends AuthenticatedRequest {
+  body: {
+    aid: string;
+    username?: string;
+  };
 }
 
 /**
- * Interface extending the request body when adding a comment to a question or an answer, which contains:
- * - id - The unique identifier of the question or answer being commented on.
- * - type - The type of the comment, either 'question' or 'answer'.
- * - comment - The comment being added.
+ * Interface for the request body when upvoting or downvoting a comment.
+ * - body - The comment ID and the username of the user voting.
+ *  - cid - The unique identifier of the comment.
+ *  - username - The username of the user voting. Optional, must match the authenticated user if set.
  */
-export interface AddCommentRequest extends Request {
+export interface CommentVoteRequest extends AuthenticatedRequest {
   body: {
-    id: string;
-    type: 'question' | 'answer';
-    comment: Comment;
+    cid: string;
+    username?: string;
   };
 }
 
 /**
- * Type representing the possible responses for a Comment-related operation.
+ * Type representing the possible responses for a vote operation: a message describing the outcome
+ * along with the updated votes, or an error message.
  */
-export type CommentResponse = Comment | { error: string };
+export type VoteResponse =
+  { msg: string; upVotes: string[]; downVotes: string[] } | { error: string };
 
 /**
- * Interface representing the payload for a comment update event, which contains:
- * - result - The updated question or answer.
- * - type - The type of the updated item, either 'question' or 'answer'.
+ * Interface for the request body when editing a question, which contains:
+ * - qid - The unique identifier of the question being edited.
+ * - title - The new title of the question. Optional field.
+ * - text - The new content of the question. Optional field.
+ * - tags - The new tags of the question. Optional field.
  */
-export interface CommentUpdatePayload {
-  result: AnswerResponse | QuestionResponse | null;
-  type: 'question' | 'answer';
+export interface EditQuestionRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+    title?: string;
+    text?: string;
+    tags?: Tag[];
+  };
 }
 
 /**
- * Interface representing the payload for a vote update event, which contains:
- * - qid - The unique identifier of the question.
- * - upVotes - An array of usernames who upvoted the question.
- * - downVotes - An array of usernames who downvoted the question.
+ * Interface for the request body when deleting a question, which contains:
+ * - qid - The unique identifier of the question being deleted.
  */
-export interface VoteUpdatePayload {
-  qid: string;
-  upVotes: string[];
-  downVotes: string[];
+export interface DeleteQuestionRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+  };
 }
 
 /**
- * Interface representing the payload for an answer update event, which contains:
+ * Interface for the request body when accepting an answer to a question, which contains:
  * - qid - The unique identifier of the question.
- * - answer - The updated answer.
+ * - aid - The unique identifier of the answer being accepted.
  */
-export interface AnswerUpdatePayload {
-  qid: string;
-  answer: AnswerResponse;
+export interface AcceptAnswerRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+    aid: string;
+  };
 }
 
 /**
- * Interface representing the possible events that the server can emit to the client.
+ * Interface for the request body when rating the AI generated answer of a question, which contains:
+ * - qid - The unique identifier of the question.
+ * - rating - Whether the answer was helpful. Rating an answer the same way again clears the rating.
  */
-export interface ServerToClientEvents {
-  questionUpdate: (question: QuestionResponse) => void;
-  answerUpdate: (result: AnswerUpdatePayload) => void;
-  viewsUpdate: (question: QuestionResponse) => void;
-  voteUpdate: (vote: VoteUpdatePayload) => void;
-  commentUpdate: (comment: CommentUpdatePayload) => void;
+export interface RateAIAnswerRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+    rating: AIAnswerRating;
+  };
 }
 
 /**
- * Interface representing the SettingsInfo, which contains:
- * - theme - the currently selected color theme
- * - textSize - the currently selected size of the text
- * - textBoldness - the currently selcted text boldness
- * - font - the currently selcted font style for text
- * - lineSpacing - the currently selcted line spacing for all text
+ * Interface for the request body when flagging the AI generated answer of a question as incorrect,
+ * which contains:
+ * - qid - The unique identifier of the question.
+ * - reason - Why the answer is incorrect. Optional field.
  */
-export interface SettingsInfo {
-  theme: string;
-  textSize: string;
-  textBoldness: string;
-  font: string;
-  lineSpacing: string;
-  backgroundColor: string;
-  textColor: string;
-  buttonColor: string;
+export interface FlagAIAnswerRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+    reason?: string;
+  };
 }
 
 /**
- * Interface representing a User, which contains:
- * - _id - The unique identifier for the user. Optional field.
- * - username - The username of the user.
- * - email - The email address of the user.
- * - password - The password of the user.
- * - creationDateTime - The date and time when the user was created.
- * - settings - The settings information saved for the user. Optional field.
- * - resetPasswordToken - The token used to reset the user's password. Optional field.
- * - resetPasswordExpires - The expiration date for the reset password token. Optional field.
- * - googleId - The Google ID of the user. Optional field.
+ * Interface for the request body when the asker hides or shows the AI generated answer of their
+ * question, which contains:
+ * - qid - The unique identifier of the question.
+ * - hidden - Whether to hide the answer.
  */
-export interface User {
-  _id?: ObjectId;
-  username: string;
-  email: string;
-  password: string;
-  creationDateTime: Date;
-  settings?: SettingsInfo;
-  resetPasswordToken?: string;
-  resetPasswordExpires?: Date;
-  googleId?: string;
+export interface HideAIAnswerRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+    hidden: boolean;
+  };
 }
 
 /**
- * Type representing the possible responses for a User-related operation.
+ * Interface for the request query to get the report of the worst-rated AI generated answers, which
+ * contains:
+ * - limit - The most answers to include, as a string. Optional field.
  */
-export type UserResponse = User | { error: string };
-
-// Define a custom interface that includes the route parameter `username`
-interface UserRequest extends Request {
-  params: {
-    username: string;
+export interface AIAnswerReportRequest extends AuthenticatedRequest {
+  query: {
+    limit?: string;
   };
 }
 
 /**
- * Type representing the possible responses for operation that sends an email.
+ * Interface for the request query to find the questions similar to one being asked, which
+ * contains:
+ * - title - The title of the question being asked. Optional field.
+ * - text - The text of the question being asked. Optional field.
+ * - tags - The names of the tags of the question being asked, separated by whitespace. Optional
+ *   field.
+ * - exclude - The unique identifier of a question to leave out, e.g. the one being edited.
+ *   Optional field.
+ * - limit - The most questions to return, as a string. Optional field.
  */
-export type EmailResponse = { emailRecipient: string } | { error: string };
-
-/**
+export interface SimilarQuestionsRequest extends Request {
+  query: {
+    title?: string;
+    text?: string;
+    tags?: string;
+    exclude?: string;
+    limit?: string;
+  };
+}
+
+/**
+ * Interface for the request body when voting to close a question, which contains:
+ * - qid - The unique identifier of the question.
+ * - reason - Why the question should be closed.
+ * - duplicateOf - The unique identifier of the question it duplicates, when the reason is
+ *   `duplicate`. Optional field.
+ */
+export interface VoteToCloseRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+    reason: CloseReason;
+    duplicateOf?: string;
+  };
+}
+
+/**
+ * Interface for the request body when voting to reopen a closed question, which contains:
+ * - qid - The unique identifier of the question.
+ */
+export interface VoteToReopenRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+  };
+}
+
+/**
+ * Interface for the request body when a moderator locks or unlocks a question, which contains:
+ * - qid - The unique identifier of the question.
+ * - locked - Whether to lock the question.
+ * - reason - Why the question is locked. Optional field.
+ */
+export interface LockQuestionRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+    locked: boolean;
+    reason?: string;
+  };
+}
+
+/**
+ * Interface for the request body when unaccepting the accepted answer of a question, which contains:
+ * - qid - The unique identifier of the question.
+ */
+export interface UnacceptAnswerRequest extends AuthenticatedRequest {
+  body: {
+    qid: string;
+  };
+}
+
+/**
+ * Interface representing a Comment, which contains:
+ * - _id - The unique identifier for the comment. Optional field.
+ * - text - The content of the comment.
+ * - commentBy - The username of the user who commented.
+ * - commentDateTime - The date and time when the comment was posted.
+ * - upVotes - An array of usernames that have upvoted the comment. Optional field.
+ * - downVotes - An array of usernames that have downvoted the comment. Optional field.
+ * - revisions - The edits made to the comment, oldest first. Optional field.
+ * - deletedAt - The date and time when the comment was deleted. Optional field.
+ * - hiddenAt - The date and time when the comment was hidden after being flagged. Optional field.
+ *
+ */
+export interface Comment {
+  _id?: ObjectId;
+  text: string;
+  commentBy: string;
+  commentDateTime: Date;
+  upVotes?: string[];
+  downVotes?: string[];
+  revisions?: Revision[];
+  deletedAt?: Date;
+  hiddenAt?: Date;
+}
+
+/**
+ * Interface extending the request body when adding a comment to a question or an answer, which contains:
+ * - id - The unique identifier of the question or answer being commented on.
+ * - type - The type of the comment, either 'question' or 'answer'.
+ * - comment - The comment being added.
+ */
+export interface AddCommentRequest extends AuthenticatedRequest {
+  body: {
+    id: string;
+    type: 'question' | 'answer';
+    comment: Comment;
+  };
+}
+
+/**
+ * Interface extending the request body when editing a comment, which contains:
+ * - id - The unique identifier of the question or answer the comment belongs to.
+ * - type - The type of the parent, either 'question' or 'answer'.
+ * - cid - The unique identifier of the comment being edited.
+ * - text - The new content of the comment.
+ */
+export interface EditCommentRequest extends AuthenticatedRequest {
+  body: {
+    id: string;
+    type: 'question' | 'answer';
+    cid: string;
+    text: string;
+  };
+}
+
+/**
+ * Interface extending the request body when deleting a comment, which contains:
+ * - id - The unique identifier of the question or answer the comment belongs to.
+ * - type - The type of the parent, either 'question' or 'answer'.
+ * - cid - The unique identifier of the comment being deleted.
+ */
+export interface DeleteCommentRequest extends AuthenticatedRequest {
+  body: {
+    id: string;
+    type: 'question' | 'answer';
+    cid: string;
+  };
+}
+
+/**
+ * Type representing the possible responses for a Comment-related operation.
+ */
+export type CommentResponse = Comment | { error: string };
+
+/**
+ * Interface representing the payload for a comment update event, which contains:
+ * - result - The updated question or answer.
+ * - type - The type of the updated item, either 'question' or 'answer'.
+ */
+export interface CommentUpdatePayload {
+  result: AnswerResponse | QuestionResponse | null;
+  type: 'question' | 'answer';
+}
+
+/**
+ * Type representing the kinds of items that can be voted on.
+ */
+export type VoteTargetType = 'question' | 'answer' | 'comment';
+
+/**
+ * Interface representing the payload for a vote update event, which contains:
+ * - qid - The unique identifier of the question the voted item is shown on.
+ * - id - The unique identifier of the voted item. The same as `qid` for question votes.
+ * - type - The type of the voted item, either 'question', 'answer' or 'comment'.
+ * - upVotes - An array of usernames who upvoted the item.
+ * - downVotes - An array of usernames who downvoted the item.
+ */
+export interface VoteUpdatePayload {
+  qid: string;
+  id: string;
+  type: VoteTargetType;
+  upVotes: string[];
+  downVotes: string[];
+}
+
+/**
+ * Interface representing the payload for an answer update event, which contains:
+ * - qid - The unique identifier of the question.
+ * - answer - The updated answer.
+ */
+export interface AnswerUpdatePayload {
+  qid: string;
+  answer: AnswerResponse;
+}
+
+/**
+ * Interface representing the payload for an AI answer update event, which contains:
+ * - qid - The unique identifier of the question.
+ * - aiAnswerStatus - The status of the AI answer of the question.
+ * - aiGeneratedAnswer - The generated answer. Only present when the status is `ready`.
+ */
+export interface AIAnswerUpdatePayload {
+  qid: string;
+  aiAnswerStatus: AIAnswerStatus;
+  aiGeneratedAnswer?: string;
+}
+
+/**
+ * Interface representing the possible events that the server can emit to the client.
+ */
+export interface ServerToClientEvents {
+  questionUpdate: (question: QuestionResponse) => void;
+  newQuestion: (question: QuestionResponse) => void;
+  answerUpdate: (result: AnswerUpdatePayload) => void;
+  viewsUpdate: (question: QuestionResponse) => void;
+  voteUpdate: (vote: VoteUpdatePayload) => void;
+  commentUpdate: (comment: CommentUpdatePayload) => void;
+  notification: (notification: Notification) => void;
+  aiAnswerUpdate: (update: AIAnswerUpdatePayload) => void;
+  aiAnswerFeedbackUpdate: (update: AIAnswerFeedbackUpdatePayload) => void;
+  chatChunk: (chunk: ChatChunkPayload) => void;
+}
+
+/**
+ * Interface representing the possible events that the client can emit to the server.
+ * - authenticate - Identifies the user of the connection with their access token, so that their
+ *   notifications are delivered to it.
+ * - deauthenticate - Stops delivering notifications to the connection, e.g. on logout.
+ */
+export interface ClientToServerEvents {
+  authenticate: (token: string) => void;
+  deauthenticate: () => void;
+}
+
+/**
+ * Interface representing the SettingsInfo, which contains:
+ * - theme - the currently selected color theme
+ * - textSize - the currently selected size of the text
+ * - textBoldness - the currently selcted text boldness
+ * - font - the currently selcted font style for text
+ * - lineSpacing - the currently selcted line spacing for all text
+ */
+export interface SettingsInfo {
+  theme: string;
+  textSize: string;
+  textBoldness: string;
+  font: string;
+  lineSpacing: string;
+  backgroundColor: string;
+  textColor: string;
+  buttonColor: string;
+}
+
+/**
+ * Interface representing a User, which contains:
+ * - _id - The unique identifier for the user. Optional field.
+ * - username - The username of the user.
+ * - email - The email address of the user.
+ * - password - The password of the user.
+ * - creationDateTime - The date and time when the user was created.
+ * - settings - The settings information saved for the user. Optional field.
+ * - resetPasswordToken - The token used to reset the user's password. Optional field.
+ * - resetPasswordExpires - The expiration date for the reset password token. Optional field.
+ * - googleId - The Google ID of the user. Optional field.
+ * - reputation - The reputation the user has earned from votes and accepted answers. Optional field.
+ * - emailPreferences - The emails the user has opted into. Optional field.
+ * - unsubscribeToken - The token identifying the user in the unsubscribe links of emails. Optional field.
+ * - role - Whether the user is a regular user, a moderator or an admin. Optional field, defaults to 'user'.
+ */
+export interface User {
+  _id?: ObjectId;
+  username: string;
+  email: string;
+  password: string;
+  creationDateTime: Date;
+  settings?: SettingsInfo;
+  resetPasswordToken?: string;
+  resetPasswordExpires?: Date;
+  googleId?: string;
+  reputation?: number;
+  emailPreferences?: EmailPreferences;
+  unsubscribeToken?: string;
+  role?: UserRole;
+}
+
+/**
+ * Type representing the possible responses for a User-related operation.
+ */
+export type UserResponse = User | { error: string };
+
+// Define a custom interface that includes the route parameter `username`
+export interface UserRequest extends Request {
+  params: {
+    username: string;
+  };
+}
+
+/**
+ * Type representing the possible responses for operation that sends an email.
+ */
+export type EmailResponse = { emailRecipient: string } | { error: string };
+
+/**
  * Interface for the request body when verifying the email of a new user.
  * - body - The user being verified.
  */
@@ -324,30 +997,30 @@ export interface ResetPasswordRequest extends Request {
   };
 }
 
-export interface UpdateThemeRequest extends Request {
+export interface UpdateThemeRequest extends AuthenticatedRequest {
   body: {
-    username: string;
+    username?: string;
     theme: string;
   };
 }
 
-export interface UpdateBackgroundRequest extends Request {
+export interface UpdateBackgroundRequest extends AuthenticatedRequest {
   body: {
-    username: string;
+    username?: string;
     backgroundColor: string;
   };
 }
 
-export interface UpdateTextColorRequest extends Request {
+export interface UpdateTextColorRequest extends AuthenticatedRequest {
   body: {
-    username: string;
+    username?: string;
     textColor: string;
   };
 }
 
-export interface UpdateButtonRequest extends Request {
+export interface UpdateButtonRequest extends AuthenticatedRequest {
   body: {
-    username: string;
+    username?: string;
     buttonColor: string;
   };
 }
@@ -355,9 +1028,9 @@ export interface UpdateButtonRequest extends Request {
 /**
  * Interface for the request body when changing the text size of a user.
  */
-export interface UpdateTextSizeRequest extends Request {
+export interface UpdateTextSizeRequest extends AuthenticatedRequest {
   body: {
-    username: string;
+    username?: string;
     textSize: string;
   };
 }
@@ -365,9 +1038,9 @@ export interface UpdateTextSizeRequest extends Request {
 /**
  * Interface for the request body when changing the text boldness of a user.
  */
-export interface UpdateTextBoldnessRequest extends Request {
+export interface UpdateTextBoldnessRequest extends AuthenticatedRequest {
   body: {
-    username: string;
+    username?: string;
     textBoldness: string;
   };
 }
@@ -375,9 +1048,9 @@ export interface UpdateTextBoldnessRequest extends Request {
 /**
  * Interface for the request body when changing the font style of a user.
  */
-export interface UpdateFontRequest extends Request {
+export interface UpdateFontRequest extends AuthenticatedRequest {
   body: {
-    username: string;
+    username?: string;
     font: string;
   };
 }
@@ -385,9 +1058,9 @@ export interface UpdateFontRequest extends Request {
 /**
  * Interface for the request body when changing the line spacing of a user.
  */
-export interface UpdateLineSpacingRequest extends Request {
+export interface UpdateLineSpacingRequest extends AuthenticatedRequest {
   body: {
-    username: string;
+    username?: string;
     lineSpacing: string;
   };
 }
@@ -396,9 +1069,9 @@ export interface UpdateLineSpacingRequest extends Request {
 /**
  * Interface for the request body when updating multiple settings for a user.
  */
-export interface UpdateSettingsRequest extends Request {
+export interface UpdateSettingsRequest extends AuthenticatedRequest {
   body: {
-    username: string;
+    username?: string;
     settings: SettingsInfo
   };
 }
@@ -433,10 +1106,705 @@ export interface UnverifiedUser {
   emailVerificationExpires: Date;
 }
 
+/**
+ * Interface extending the request with the user resolved by the `verifyToken` middleware, which contains:
+ * - user - The authenticated user. Set on every route guarded by `verifyToken`.
+ */
 export interface AuthenticatedRequest extends Request {
   user?: User;
+  sessionId?: string;
 }
 
+/**
+ * Interface representing the payload of a JWT issued by the server, which contains:
+ * - userId - The unique identifier of the authenticated user.
+ * - role - The role of the user when the token was issued, for clients to tailor what they show. Optional field.
+ * - sessionId - The unique identifier of the session the token was issued for. Optional field.
+ */
 export interface DecodedToken extends JwtPayload {
   userId: string;
+  role?: UserRole;
+  sessionId?: string;
+}
+
+/**
+ * Interface representing a Session document, which is created each time a user signs in on a
+ * device and contains:
+ * - _id - The unique identifier for the session. Optional field.
+ * - user - The unique identifier of the user the session belongs to.
+ * - refreshTokenHash - The SHA-256 hash of the current refresh token for the session.
+ * - device - A description of the device the session was opened on.
+ * - createdAt - The date and time when the session was opened.
+ * - lastUsedAt - The date and time when the session was last refreshed.
+ * - expiresAt - The date and time after which the refresh token can no longer be used.
+ * - revokedAt - The date and time when the session was signed out. Optional field.
+ */
+export interface Session {
+  _id?: ObjectId;
+  user: ObjectId;
+  refreshTokenHash: string;
+  device: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * Type representing the possible responses for a Session-related operation.
+ */
+export type SessionResponse = Session | { error: string };
+
+/**
+ * Type representing the possible responses for an operation that issues a new refresh token.
+ */
+export type SessionTokenResponse = { session: Session; refreshToken: string } | { error: string };
+
+/**
+ * Interface extending the request body when refreshing or ending a session, which contains:
+ * - refreshToken - The refresh token issued for the session.
+ */
+export interface RefreshSessionRequest extends Request {
+  body: {
+    refreshToken: string;
+  };
+}
+
+/**
+ * Interface extending the request body when signing out one of the user's sessions, which contains:
+ * - sessionId - The unique identifier of the session to sign out.
+ */
+export interface RevokeSessionRequest extends AuthenticatedRequest {
+  body: {
+    sessionId: string;
+  };
+}
+
+/**
+ * Interface representing a question on a user's profile, which contains:
+ * - _id - The unique identifier of the question.
+ * - title - The title of the question.
+ * - askDateTime - The date and time when the question was asked.
+ * - score - The number of upvotes minus the number of downvotes.
+ * - answerCount - The number of answers to the question.
+ * - resolved - Whether the question has an accepted answer.
+ */
+export interface ProfileQuestion {
+  _id: ObjectId;
+  title: string;
+  askDateTime: Date;
+  score: number;
+  answerCount: number;
+  resolved: boolean;
+}
+
+/**
+ * Interface representing an answer on a user's profile, which contains:
+ * - _id - The unique identifier of the answer.
+ * - qid - The unique identifier of the question that was answered.
+ * - questionTitle - The title of the question that was answered.
+ * - ansDateTime - The date and time when the answer was given.
+ * - score - The number of upvotes minus the number of downvotes.
+ * - accepted - Whether the answer was accepted by the asker.
+ */
+export interface ProfileAnswer {
+  _id: ObjectId;
+  qid: ObjectId;
+  questionTitle: string;
+  ansDateTime: Date;
+  score: number;
+  accepted: boolean;
+}
+
+/**
+ * Interface representing a comment on a user's profile, which contains:
+ * - _id - The unique identifier of the comment.
+ * - text - The content of the comment.
+ * - commentDateTime - The date and time when the comment was posted.
+ * - score - The number of upvotes minus the number of downvotes.
+ */
+export interface ProfileComment {
+  _id: ObjectId;
+  text: string;
+  commentDateTime: Date;
+  score: number;
+}
+
+/**
+ * Interface representing the public profile and activity of a user, which contains:
+ * - username - The username of the user.
+ * - creationDateTime - The date and time when the user joined.
+ * - reputation - The reputation of the user.
+ * - role - Whether the user is a regular user, a moderator or an admin.
+ * - questions - The questions asked by the user, most recent first.
+ * - answers - The answers given by the user, most recent first.
+ * - comments - The comments posted by the user, most recent first.
+ * - votesReceived - The total upvotes and downvotes on the user's questions, answers and comments.
+ * - topTags - The tags the user has asked or answered the most questions in, with those counts.
+ */
+export interface UserProfile {
+  username: string;
+  creationDateTime: Date;
+  reputation: number;
+  role: UserRole;
+  questions: ProfileQuestion[];
+  answers: ProfileAnswer[];
+  comments: ProfileComment[];
+  votesReceived: { upVotes: number; downVotes: number };
+  topTags: { name: string; count: number }[];
+}
+
+/**
+ * Type representing the possible responses for an operation that fetches a user's profile.
+ */
+export type UserProfileResponse = UserProfile | { error: string };
+
+/**
+ * Type representing the reasons a user's reputation can change:
+ * - 'upvote' - A question or answer by the user was upvoted.
+ * - 'downvote' - A question or answer by the user was downvoted.
+ * - 'downvoteCast' - The user downvoted an answer.
+ * - 'answerAccepted' - An answer by the user was accepted.
+ * - 'acceptedAnswer' - The user accepted an answer to their question.
+ */
+export type ReputationReason =
+  | 'upvote'
+  | 'downvote'
+  | 'downvoteCast'
+  | 'answerAccepted'
+  | 'acceptedAnswer';
+
+/**
+ * Interface representing a ReputationEvent document, an entry in the ledger of reputation changes,
+ * which contains:
+ * - _id - The unique identifier for the event. Optional field.
+ * - user - The username of the user whose reputation changed.
+ * - amount - The change in reputation; negative when the reputation was lost.
+ * - reason - Why the reputation changed.
+ * - post - The unique identifier of the question or answer that caused the change.
+ * - postType - The type of the post, either 'question' or 'answer'.
+ * - actor - The username of the user whose action caused the change.
+ * - createdAt - The date and time when the change happened.
+ */
+export interface ReputationEvent {
+  _id?: ObjectId;
+  user: string;
+  amount: number;
+  reason: ReputationReason;
+  post: ObjectId;
+  postType: 'question' | 'answer';
+  actor: string;
+  createdAt: Date;
+}
+
+/**
+ * Type representing the possible responses for an operation that fetches a user's reputation.
+ */
+export type ReputationResponse =
+  | { reputation: number; events: ReputationEvent[] }
+  | { error: string };
+
+/**
+ * Type representing the actions that require a minimum reputation:
+ * - 'downvote' - Downvoting questions, answers and comments.
+ * - 'comment' - Commenting on questions and answers.
+ * - 'editOthers' - Editing questions, answers and comments written by other users.
+ * - 'editTagWiki' - Editing the description and wiki of tags.
+ * - 'createTag' - Creating tags that do not exist yet when asking or editing a question.
+ * - 'voteToClose' - Voting to close and reopen questions.
+ * - 'moderate' - Using the moderation tools, such as the report of the worst-rated AI answers.
+ */
+export type Privilege =
+  | 'downvote'
+  | 'comment'
+  | 'editOthers'
+  | 'editTagWiki'
+  | 'createTag'
+  | 'voteToClose'
+  | 'moderate';
+
+/**
+ * Type representing the roles of users, from the least to the most trusted:
+ * - 'user' - A regular user, whose privileges depend on their reputation.
+ * - 'moderator' - A user trusted with every privilege, whatever their reputation.
+ * - 'admin' - A moderator who may also promote and demote other users.
+ */
+export type UserRole = 'user' | 'moderator' | 'admin';
+
+/**
+ * Interface for the request body when an admin promotes or demotes a user.
+ * - username - The username of the user whose role changes.
+ */
+export interface ChangeRoleRequest extends AuthenticatedRequest {
+  body: {
+    username: string;
+  };
+}
+
+/**
+ * Type representing the events a user is notified of:
+ * - 'answer' - Someone answered the user's question.
+ * - 'comment' - Someone commented on the user's question or answer.
+ * - 'vote' - Someone upvoted or downvoted the user's question, answer or comment.
+ * - 'acceptedAnswer' - The user's answer was accepted.
+ * - 'mention' - Someone mentioned the user with `@username` in a question, answer or comment.
+ */
+export type NotificationType = 'answer' | 'comment' | 'vote' | 'acceptedAnswer' | 'mention';
+
+/**
+ * Interface representing a Notification document, which contains:
+ * - _id - The unique identifier for the notification. Optional field.
+ * - recipient - The username of the user being notified.
+ * - type - What happened.
+ * - actor - The username of the user whose action caused the notification.
+ * - post - The unique identifier of the post acted on, or that contains the mention.
+ * - postType - The type of the post, either 'question', 'answer' or 'comment'.
+ * - question - The unique identifier of the question the post is shown on.
+ * - questionTitle - The title of that question when the notification was created.
+ * - read - Whether the recipient has read the notification.
+ * - createdAt - The date and time when the notification was created.
+ */
+export interface Notification {
+  _id?: ObjectId;
+  recipient: string;
+  type: NotificationType;
+  actor: string;
+  post: ObjectId;
+  postType: 'question' | 'answer' | 'comment';
+  question: ObjectId;
+  questionTitle: string;
+  read: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Interface representing a notification that is yet to be saved, which contains:
+ * - recipient - The username of the user to notify. Defaults to the author of the post.
+ * - type - What happened.
+ * - actor - The username of the user whose action caused the notification.
+ * - post - The unique identifier of the post acted on, or that contains the mention.
+ * - postType - The type of the post, either 'question', 'answer' or 'comment'.
+ * - question - The unique identifier of the question the post is shown on. Defaults to the post
+ *   itself for questions, and is otherwise looked up from `answer`.
+ * - answer - The unique identifier of the answer the post is, or belongs to. Optional field.
+ */
+export interface NotificationDraft {
+  recipient?: string;
+  type: NotificationType;
+  actor: string;
+  post: string;
+  postType: 'question' | 'answer' | 'comment';
+  question?: string;
+  answer?: string;
+}
+
+/**
+ * Type representing the possible responses for an operation that fetches a user's notifications.
+ */
+export type NotificationsResponse =
+  | { notifications: Notification[]; unreadCount: number }
+  | { error: string };
+
+/**
+ * Type representing the possible responses for an operation that marks notifications as read.
+ */
+export type UnreadCountResponse = { unreadCount: number } | { error: string };
+
+/**
+ * Interface for the request body when marking notifications as read, which contains:
+ * - nids - The unique identifiers of the notifications to mark. All of the user's notifications
+ *   are marked when omitted.
+ */
+export interface MarkNotificationsReadRequest extends AuthenticatedRequest {
+  body: {
+    nids?: string[];
+  };
+}
+
+/**
+ * Type representing how often a user receives a digest of new questions in their watched tags.
+ */
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+/**
+ * Interface representing the emails a user has opted into, which contains:
+ * - answers - Whether to email the user when their question is answered.
+ * - comments - Whether to email the user when their question is commented on.
+ * - digest - How often to email the user a digest of new questions in their watched tags.
+ * - watchedTags - The names of the tags whose new questions are included in the digest.
+ * - digestSentAt - When the user was last sent a digest. Optional field.
+ */
+export interface EmailPreferences {
+  answers: boolean;
+  comments: boolean;
+  digest: DigestFrequency;
+  watchedTags: string[];
+  digestSentAt?: Date;
+}
+
+/**
+ * Type representing the possible responses for an operation on email preferences.
+ */
+export type EmailPreferencesResponse = EmailPreferences | { error: string };
+
+/**
+ * Type representing the emails that an unsubscribe link can stop.
+ */
+export type UnsubscribeList = 'answers' | 'comments' | 'digest' | 'all';
+
+/**
+ * Interface representing the content of an email, which contains:
+ * - subject - The subject line.
+ * - text - The plain text body.
+ * - html - The HTML body.
+ * - headers - The extra headers of the email, such as those that let mail clients unsubscribe.
+ */
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Interface for the request body when updating the email preferences of the user.
+ * - body - The preferences to change; the ones left out are kept.
+ */
+export interface UpdateEmailPreferencesRequest extends AuthenticatedRequest {
+  body: Partial<Omit<EmailPreferences, 'digestSentAt'>>;
+}
+
+/**
+ * Interface for the request query of an unsubscribe link, opened to confirm or posted to
+ * unsubscribe.
+ * - token - The unsubscribe token of the user.
+ * - list - The emails to stop.
+ */
+export interface UnsubscribeRequest extends Request {
+  query: {
+    token: string;
+    list: UnsubscribeList;
+  };
+}
+
+/**
+ * Interface representing a message of a conversation with the brainstorming chatbot, which
+ * contains:
+ * - _id - The unique identifier for the message. Optional field.
+ * - role - Who wrote the message, either the user or the chatbot ('assistant').
+ * - content - The text of the message.
+ * - createdAt - The date and time when the message was written.
+ */
+export interface ConversationMessage {
+  _id?: ObjectId;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: Date;
+}
+
+/**
+ * Interface representing a Conversation document of a user with the brainstorming chatbot, which
+ * contains:
+ * - _id - The unique identifier for the conversation. Optional field.
+ * - owner - The username of the user having the conversation.
+ * - title - The beginning of the first message, to tell the conversations apart.
+ * - messages - The messages of the conversation, oldest first.
+ * - createdAt - The date and time when the conversation was started.
+ * - updatedAt - The date and time of the latest message.
+ */
+export interface Conversation {
+  _id?: ObjectId;
+  owner: string;
+  title: string;
+  messages: ConversationMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Type representing the possible responses for an operation on one conversation.
+ */
+export type ConversationResponse = Conversation | { error: string };
+
+/**
+ * Type representing the possible responses for listing the conversations of a user, which are
+ * listed without their messages.
+ */
+export type ConversationsResponse = Omit<Conversation, 'messages'>[] | { error: string };
+
+/**
+ * Interface for the request parameters to get one of the conversations of the user.
+ * - cid - The unique identifier of the conversation.
+ */
+export interface GetConversationRequest extends AuthenticatedRequest {
+  params: {
+    cid: string;
+  };
+}
+
+/**
+ * Interface for the request body when sending a message to the brainstorming chatbot.
+ * - cid - The conversation to continue. Optional field; a new conversation is started without it.
+ * - text - The text of the message.
+ */
+export interface SendChatMessageRequest extends AuthenticatedRequest {
+  body: {
+    cid?: string;
+    text: string;
+  };
+}
+
+/**
+ * Interface representing the payload for a chat chunk event, which carries the next part of the
+ * chatbot's reply while it is being generated, and contains:
+ * - cid - The unique identifier of the conversation.
+ * - delta - The next part of the reply.
+ */
+export interface ChatChunkPayload {
+  cid: string;
+  delta: string;
+}
+
+/**
+ * Type representing why a user flagged a question, answer or comment:
+ * - 'spam' - The post advertises something or is unrelated to the site.
+ * - 'offensive' - The post is rude or abusive.
+ * - 'lowQuality' - The post is too poor to be salvaged by editing.
+ * - 'other' - Another reason, explained in the details of the flag.
+ */
+export type FlagReason = 'spam' | 'offensive' | 'lowQuality' | 'other';
+
+/**
+ * Type representing the state of a flag:
+ * - 'pending' - No moderator has reviewed the flag yet.
+ * - 'approved' - A moderator agreed with the flag, and hid or deleted the post.
+ * - 'dismissed' - A moderator found nothing wrong with the post.
+ */
+export type FlagStatus = 'pending' | 'approved' | 'dismissed';
+
+/**
+ * Interface representing a Flag document, a report of a question, answer or comment to the
+ * moderators, which contains:
+ * - _id - The unique identifier for the flag. Optional field.
+ * - postType - The type of the flagged post, either 'question', 'answer' or 'comment'.
+ * - post - The unique identifier of the flagged post.
+ * - question - The unique identifier of the question the post is shown on.
+ * - flaggedBy - The username of the user who flagged the post.
+ * - reason - Why the user flagged the post.
+ * - details - What the user added to explain the flag. Optional field.
+ * - status - Whether the flag is still pending, or was approved or dismissed by a moderator.
+ * - createdAt - The date and time when the post was flagged.
+ * - reviewedBy - The username of the moderator who reviewed the flag. Optional field.
+ * - reviewedAt - The date and time when the flag was reviewed. Optional field.
+ */
+export interface Flag {
+  _id?: ObjectId;
+  postType: VoteTargetType;
+  post: ObjectId;
+  question: ObjectId;
+  flaggedBy: string;
+  reason: FlagReason;
+  details?: string;
+  status: FlagStatus;
+  createdAt: Date;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+}
+
+/**
+ * Type representing the possible responses for flagging a post: the flag, and whether the post
+ * was hidden because of it.
+ */
+export type FlagResponse = { flag: Flag; hidden: boolean } | { error: string };
+
+/**
+ * Interface representing a post in the moderation queue, with its pending flags, which contains:
+ * - postType - The type of the flagged post, either 'question', 'answer' or 'comment'.
+ * - id - The unique identifier of the flagged post.
+ * - qid - The unique identifier of the question the post is shown on.
+ * - author - The username of the user who wrote the post.
+ * - text - The content of the post, with the title first for questions.
+ * - hidden - Whether the post is hidden.
+ * - flags - The pending flags of the post, oldest first.
+ */
+export interface FlaggedPost {
+  postType: VoteTargetType;
+  id: string;
+  qid: string;
+  author: string;
+  text: string;
+  hidden: boolean;
+  flags: Pick<Flag, 'flaggedBy' | 'reason' | 'details' | 'createdAt'>[];
+}
+
+/**
+ * Type representing the possible responses for fetching the moderation queue.
+ */
+export type ModerationQueueResponse = FlaggedPost[] | { error: string };
+
+/**
+ * Type representing what a moderator can do with the pending flags of a post:
+ * - 'approve' - Agree with the flags, and hide the post.
+ * - 'dismiss' - Reject the flags, and show the post again if it was hidden.
+ * - 'delete' - Agree with the flags, and delete the post.
+ */
+export type FlagReviewAction = 'approve' | 'dismiss' | 'delete';
+
+/**
+ * Type representing the actions of moderators recorded in the audit log:
+ * - 'approveFlags' - The moderator approved the flags of a post, hiding it.
+ * - 'dismissFlags' - The moderator dismissed the flags of a post.
+ * - 'deletePost' - The moderator deleted a flagged post.
+ * - 'lockQuestion' - The moderator locked a question.
+ * - 'unlockQuestion' - The moderator unlocked a question.
+ */
+export type ModerationAction =
+  | 'approveFlags'
+  | 'dismissFlags'
+  | 'deletePost'
+  | 'lockQuestion'
+  | 'unlockQuestion';
+
+/**
+ * Interface representing a ModerationLogEntry document, an entry in the audit log of the actions
+ * of moderators, which contains:
+ * - _id - The unique identifier for the entry. Optional field.
+ * - moderator - The username of the moderator who took the action.
+ * - action - What the moderator did.
+ * - postType - The type of the post acted on, either 'question', 'answer' or 'comment'.
+ * - post - The unique identifier of the post acted on.
+ * - question - The unique identifier of the question the post is shown on.
+ * - details - More about the action, such as the reason a question was locked. Optional field.
+ * - createdAt - The date and time when the action was taken.
+ */
+export interface ModerationLogEntry {
+  _id?: ObjectId;
+  moderator: string;
+  action: ModerationAction;
+  postType: VoteTargetType;
+  post: ObjectId;
+  question: ObjectId;
+  details?: string;
+  createdAt: Date;
+}
+
+/**
+ * Type representing the possible responses for an operation that records or reviews a
+ * moderator's action.
+ */
+export type ModerationLogEntryResponse = ModerationLogEntry | { error: string };
+
+/**
+ * Type representing the possible responses for fetching the audit log of moderators' actions.
+ */
+export type ModerationLogResponse = ModerationLogEntry[] | { error: string };
+
+/**
+ * Interface for the request body when flagging a post, which contains:
+ * - id - The unique identifier of the post.
+ * - type - The type of the post, either 'question', 'answer' or 'comment'.
+ * - reason - Why the post is flagged.
+ * - details - What the user adds to explain the flag. Optional field, required for 'other'.
+ */
+export interface FlagPostRequest extends AuthenticatedRequest {
+  body: {
+    id: string;
+    type: VoteTargetType;
+    reason: FlagReason;
+    details?: string;
+  };
+}
+
+/**
+ * Interface for the request body when a moderator reviews the pending flags of a post, which
+ * contains:
+ * - id - The unique identifier of the post.
+ * - type - The type of the post, either 'question', 'answer' or 'comment'.
+ * - action - What to do with the flags and the post.
+ */
+export interface ReviewFlagsRequest extends AuthenticatedRequest {
+  body: {
+    id: string;
+    type: VoteTargetType;
+    action: FlagReviewAction;
+  };
+}
+
+/**
+ * Interface for the request query to list the moderation queue or the audit log, which contains:
+ * - limit - The most entries to return, as a string. Optional field.
+ */
+export interface ModerationListRequest extends AuthenticatedRequest {
+  query: {
+    limit?: string;
+  };
+}
+
+/**
+ * Type representing the kinds of posts files can be attached to.
+ */
+export type AttachmentPostType = 'question' | 'answer';
+
+/**
+ * Interface representing an Attachment document, a file a user uploaded to embed in a question
+ * or answer, which contains:
+ * - _id - The unique identifier for the attachment. Optional field.
+ * - hash - The SHA-256 hash of the content, under which the content is stored. Uploads of the
+ *   same content share it.
+ * - filename - The name of the uploaded file.
+ * - contentType - The MIME type of the content, as detected from the content itself.
+ * - size - The size of the content, in bytes.
+ * - thumbnail - Whether a thumbnail was stored along with the content, for images.
+ * - uploadedBy - The username of the user who uploaded the file.
+ * - uploadedAt - The date and time when the file was uploaded.
+ * - postType - The type of the post the file is attached to. Optional field, unset until the
+ *   post is saved.
+ * - post - The unique identifier of the post the file is attached to. Optional field.
+ */
+export interface Attachment {
+  _id?: ObjectId;
+  hash: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  thumbnail: boolean;
+  uploadedBy: string;
+  uploadedAt: Date;
+  postType?: AttachmentPostType;
+  post?: ObjectId;
+}
+
+/**
+ * Interface representing a file being uploaded, which contains:
+ * - filename - The name of the file.
+ * - contentType - The MIME type of the content, as detected from the content itself.
+ * - data - The content of the file.
+ * - uploadedBy - The username of the user uploading the file.
+ */
+export interface AttachmentUpload {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+  uploadedBy: string;
+}
+
+/**
+ * Type representing the possible responses for an Attachment-related operation.
+ */
+export type AttachmentResponse = Attachment | { error: string };
+
+/**
+ * Type representing the possible responses for reading the content of an attachment, or of its
+ * thumbnail.
+ */
+export type AttachmentContentResponse = Buffer | { error: string };
+
+/**
+ * Interface for the request parameters to fetch an attachment, which contains:
+ * - id - The unique identifier of the attachment.
+ */
+export interface AttachmentRequest extends Request {
+  params: {
+    id: string;
+  };
 }
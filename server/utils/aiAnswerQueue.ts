@@ -0,0 +1,120 @@
+import { AIAnswerStatus, FakeSOSocket } from '../types';
+import { getPendingAIAnswers, saveAIAnswer } from '../models/aiAnswerOperations';
+import getAIProvider from './aiConfig';
+
+// How many times to ask the AI provider for an answer before giving up
+const AI_ANSWER_MAX_ATTEMPTS = 3;
+
+// How long to wait before the first retry, in milliseconds; each later retry waits twice as long
+const AI_ANSWER_RETRY_DELAY = 2000;
+
+const AI_ANSWER_INSTRUCTIONS =
+  'You are answering a question on a question and answer platform. Please provide brief answers in markdown.';
+
+// The end of the queue: every job starts once the one queued before it is done
+let queueTail: Promise<unknown> = Promise.resolve();
+
+/**
+ * Waits for some time.
+ *
+ * @param {number} ms - How long to wait, in milliseconds.
+ *
+ * @returns {Promise<void>} - Resolves once the time has passed.
+ */
+const wait = (ms: number): Promise<void> =>
+  new Promise(resolve => {
+    setTimeout(resolve, ms);
+  });
+
+/**
+ * Asks the AI provider for an answer to a question, retrying with a growing delay when it fails.
+ *
+ * @param {string} text - The text of the question.
+ *
+ * @returns {Promise<string | undefined>} - The answer, or undefined if every attempt failed.
+ */
+const requestAnswer = async (text: string): Promise<string | undefined> => {
+  for (let attempt = 1; attempt <= AI_ANSWER_MAX_ATTEMPTS; attempt += 1) {
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      return await getAIProvider().complete([
+        { role: 'system', content: AI_ANSWER_INSTRUCTIONS },
+        { role: 'user', content: text },
+      ]);
+    } catch (error) {
+      if (attempt < AI_ANSWER_MAX_ATTEMPTS) {
+        // eslint-disable-next-line no-await-in-loop
+        await wait(AI_ANSWER_RETRY_DELAY * 2 ** (attempt - 1));
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Generates the AI answer of a question, saves it with its status, and pushes it to the clients
+ * showing the question.
+ *
+ * @param {FakeSOSocket} socket - The socket server to push the answer with.
+ * @param {string} qid - The ID of the question.
+ * @param {string} text - The text of the question.
+ *
+ * @returns {Promise<AIAnswerStatus>} - The final status of the AI answer.
+ */
+const generateAIAnswer = async (
+  socket: FakeSOSocket,
+  qid: string,
+  text: string,
+): Promise<AIAnswerStatus> => {
+  const answer = await requestAnswer(text);
+  const status: AIAnswerStatus = answer !== undefined ? 'ready' : 'failed';
+
+  const result = await saveAIAnswer(qid, status, answer);
+  if ('error' in result) {
+    // eslint-disable-next-line no-console
+    console.error(result.error);
+  } else {
+    socket.emit('aiAnswerUpdate', result);
+  }
+  return status;
+};
+
+/**
+ * Queues the generation of the AI answer of a question, which was saved with the `pending` status.
+ * Answers are generated one at a time, in the order they were queued, so that a burst of new
+ * questions does not flood the AI provider.
+ *
+ * @param {FakeSOSocket} socket - The socket server to push the answer with.
+ * @param {string} qid - The ID of the question.
+ * @param {string} text - The text of the question.
+ *
+ * @returns {Promise<AIAnswerStatus>} - Resolves with the final status once the answer is done.
+ */
+export const enqueueAIAnswer = (
+  socket: FakeSOSocket,
+  qid: string,
+  text: string,
+): Promise<AIAnswerStatus> => {
+  const job = queueTail.then(() => generateAIAnswer(socket, qid, text));
+  queueTail = job;
+  return job;
+};
+
+/**
+ * Queues the AI answers that were still pending, so that questions asked shortly before the
+ * server stopped still get one.
+ *
+ * @param {FakeSOSocket} socket - The socket server to push the answers with.
+ *
+ * @returns {Promise<number>} - The number of answers queued.
+ */
+export const resumePendingAIAnswers = async (socket: FakeSOSocket): Promise<number> => {
+  const pending = await getPendingAIAnswers();
+  if ('error' in pending) {
+    // eslint-disable-next-line no-console
+    console.error(pending.error);
+    return 0;
+  }
+  pending.forEach(({ qid, text }) => enqueueAIAnswer(socket, qid, text));
+  return pending.length;
+};
@@ -0,0 +1,72 @@
+import dotenv from 'dotenv';
+import { AIProvider, createOpenAIProvider, createStubProvider } from './aiProviders';
+
+dotenv.config();
+
+// How long to wait for a reply from the AI provider by default, in milliseconds
+const DEFAULT_AI_TIMEOUT = 20000;
+
+let factoryProvider: AIProvider | null = null;
+
+/**
+ * Gets the name of the configured AI provider. `AI_PROVIDER` may be `openai`, `local` (any server
+ * with an OpenAI-compatible API, at `AI_BASE_URL`) or `stub`. When it is not set, OpenAI is used
+ * if an API key is configured, and otherwise the stub, so that the app works without any AI setup.
+ *
+ * @returns {string} - The name of the provider.
+ */
+const configuredProvider = (): string => {
+  const { env } = process;
+  if (env.AI_PROVIDER) {
+    return env.AI_PROVIDER;
+  }
+  return env.OPENAI_API_KEY ? 'openai' : 'stub';
+};
+
+/**
+ * Creates a new AI provider of the configured kind.
+ *
+ * @returns {AIProvider} - The created provider.
+ */
+const createProvider = (): AIProvider => {
+  const provider = configuredProvider();
+  const timeout = parseInt(process.env.AI_TIMEOUT_MS || `${DEFAULT_AI_TIMEOUT}`, 10);
+  switch (provider) {
+    case 'openai':
+      return createOpenAIProvider({
+        model: process.env.AI_MODEL || 'gpt-4o-mini',
+        apiKey: process.env.OPENAI_API_KEY,
+        organization: process.env.OPENAI_ORGANIZATION,
+        project: process.env.OPENAI_PROJECT,
+        timeout,
+      });
+    case 'local':
+      if (!process.env.AI_BASE_URL || !process.env.AI_MODEL) {
+        throw new Error('Missing required environment variable(s) for the local AI provider');
+      }
+      return createOpenAIProvider({
+        model: process.env.AI_MODEL,
+        apiKey: process.env.AI_API_KEY,
+        baseURL: process.env.AI_BASE_URL,
+        timeout,
+      });
+    case 'stub':
+      return createStubProvider();
+    default:
+      throw new Error(`Unknown AI provider: ${provider}`);
+  }
+};
+
+/**
+ * Returns the AI provider by creating a new one if it doesn't exist.
+ *
+ * @returns {AIProvider} - The created or existing provider.
+ */
+const getAIProvider = (): AIProvider => {
+  if (!factoryProvider) {
+    factoryProvider = createProvider();
+  }
+  return factoryProvider;
+};
+
+export default getAIProvider;
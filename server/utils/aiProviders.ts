@@ -0,0 +1,106 @@
+import OpenAI from 'openai';
+
+/**
+ * A message of a conversation with a language model, which contains:
+ * - role - Who the message is from: the instructions (`system`), the user or the model.
+ * - content - The text of the message.
+ */
+export type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+/**
+ * Something that can complete a conversation with a language model.
+ */
+export interface AIProvider {
+  /**
+   * Generates the model's reply to a conversation.
+   *
+   * @param messages - The conversation so far, starting with the instructions.
+   *
+   * @returns The text of the reply. Rejects if no reply could be generated.
+   */
+  complete(messages: ChatMessage[]): Promise<string>;
+
+  /**
+   * Generates the model's reply to a conversation, passing on each part of the reply as soon as
+   * it is generated.
+   *
+   * @param messages - The conversation so far, starting with the instructions.
+   * @param onDelta - Called with each new part of the reply, in order.
+   *
+   * @returns The full text of the reply. Rejects if no reply could be generated.
+   */
+  stream(messages: ChatMessage[], onDelta: (delta: string) => void): Promise<string>;
+}
+
+/**
+ * Creates a provider that uses the OpenAI API, or any server that implements the same chat
+ * completions API, such as a local model server.
+ *
+ * @param config - The model to use, the API key, the URL of the API if it is not OpenAI's, the
+ *        OpenAI organization and project to bill, and how long to wait for a reply.
+ *
+ * @returns {AIProvider} - The created provider.
+ */
+export const createOpenAIProvider = (config: {
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  organization?: string;
+  project?: string;
+  timeout: number;
+}): AIProvider => {
+  const client = new OpenAI({
+    // Local servers usually do not check the key, but the client requires one
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseURL,
+    organization: config.organization,
+    project: config.project,
+    timeout: config.timeout,
+    maxRetries: 1,
+  });
+
+  return {
+    complete: async messages => {
+      const completion = await client.chat.completions.create({ model: config.model, messages });
+      const content = completion?.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error('Invalid response structure from the AI provider');
+      }
+      return content;
+    },
+    stream: async (messages, onDelta) => {
+      const content = await client.beta.chat.completions
+        .stream({ model: config.model, messages })
+        .on('content', delta => onDelta(delta))
+        .finalContent();
+      if (!content) {
+        throw new Error('Invalid response structure from the AI provider');
+      }
+      return content;
+    },
+  };
+};
+
+/**
+ * Creates a provider that replies without calling any model, for tests and for running offline.
+ * The reply only depends on the last user message, so it is the same every time.
+ *
+ * @returns {AIProvider} - The created provider.
+ */
+export const createStubProvider = (): AIProvider => {
+  const reply = (messages: ChatMessage[]): string => {
+    const prompt = [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    const summary = prompt.length > 100 ? `${prompt.slice(0, 100)}…` : prompt;
+    return `This is a placeholder answer generated without an AI model, for: "${summary}"`;
+  };
+
+  return {
+    complete: async messages => reply(messages),
+    stream: async (messages, onDelta) => {
+      const text = reply(messages);
+      // Passes the reply on word by word, like a model would
+      text.split(/(?<= )/).forEach(onDelta);
+      return text;
+    },
+  };
+};
@@ -0,0 +1,28 @@
+import { removeUnattachedAttachments } from '../models/attachmentOperations';
+
+// How often to look for files that were uploaded but never attached to a post, in milliseconds
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+// How long an uploaded file may wait for the post it was uploaded for, in milliseconds
+const UNATTACHED_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * Starts the job that periodically removes the files that were uploaded but never attached to a
+ * post within a day. The job does not keep the process alive on its own.
+ *
+ * @returns {NodeJS.Timeout} - The timer of the job, to stop it with `clearInterval`.
+ */
+const startAttachmentCleanup = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    removeUnattachedAttachments(new Date(Date.now() - UNATTACHED_MAX_AGE)).then(result => {
+      if (typeof result === 'object') {
+        // eslint-disable-next-line no-console
+        console.error(result.error);
+      }
+    });
+  }, CLEANUP_INTERVAL);
+  timer.unref();
+  return timer;
+};
+
+export default startAttachmentCleanup;
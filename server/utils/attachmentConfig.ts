@@ -0,0 +1,38 @@
+import dotenv from 'dotenv';
+import { AttachmentStorage, createDiskStorage, createMemoryStorage } from './attachmentStorage';
+
+dotenv.config();
+
+let factoryStorage: AttachmentStorage | null = null;
+
+/**
+ * Creates a new attachment storage of the configured kind. `ATTACHMENT_STORAGE` may be `disk`,
+ * the default, which keeps attachments in `ATTACHMENT_DIR` (`uploads` by default), or `memory`.
+ *
+ * @returns {AttachmentStorage} - The created storage.
+ */
+const createStorage = (): AttachmentStorage => {
+  const storage = process.env.ATTACHMENT_STORAGE || 'disk';
+  switch (storage) {
+    case 'disk':
+      return createDiskStorage(process.env.ATTACHMENT_DIR || 'uploads');
+    case 'memory':
+      return createMemoryStorage();
+    default:
+      throw new Error(`Unknown attachment storage: ${storage}`);
+  }
+};
+
+/**
+ * Returns the attachment storage by creating a new one if it doesn't exist.
+ *
+ * @returns {AttachmentStorage} - The created or existing storage.
+ */
+const getAttachmentStorage = (): AttachmentStorage => {
+  if (!factoryStorage) {
+    factoryStorage = createStorage();
+  }
+  return factoryStorage;
+};
+
+export default getAttachmentStorage;
@@ -0,0 +1,88 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Somewhere the content of attachments is kept, under keys made of the hashes of the content.
+ */
+export interface AttachmentStorage {
+  /**
+   * Stores content under a key, replacing any content stored under it before.
+   *
+   * @param key - The key to store the content under.
+   * @param data - The content.
+   */
+  save(key: string, data: Buffer): Promise<void>;
+
+  /**
+   * Reads the content stored under a key.
+   *
+   * @param key - The key the content is stored under.
+   *
+   * @returns The content, or null if nothing is stored under the key.
+   */
+  read(key: string): Promise<Buffer | null>;
+
+  /**
+   * Removes the content stored under a key, if any.
+   *
+   * @param key - The key the content is stored under.
+   */
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Creates a storage that keeps each attachment in a file of a directory on the local disk.
+ *
+ * @param {string} dir - The directory to keep the files in, created if it does not exist.
+ *
+ * @returns {AttachmentStorage} - The created storage.
+ */
+export const createDiskStorage = (dir: string): AttachmentStorage => {
+  // Keys are hashes, but are checked anyway so that they can never point outside the directory
+  const fileOf = (key: string): string => {
+    if (!/^[\w.-]+$/.test(key)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return path.join(dir, key);
+  };
+
+  return {
+    save: async (key, data) => {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(fileOf(key), data);
+    },
+    read: async key => {
+      try {
+        return await fs.readFile(fileOf(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    remove: async key => {
+      await fs.rm(fileOf(key), { force: true });
+    },
+  };
+};
+
+/**
+ * Creates a storage that keeps attachments in memory, for tests. Everything stored is lost when
+ * the process exits.
+ *
+ * @returns {AttachmentStorage} - The created storage.
+ */
+export const createMemoryStorage = (): AttachmentStorage => {
+  const files = new Map<string, Buffer>();
+
+  return {
+    save: async (key, data) => {
+      files.set(key, data);
+    },
+    read: async key => files.get(key) ?? null,
+    remove: async key => {
+      files.delete(key);
+    },
+  };
+};
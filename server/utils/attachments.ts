@@ -0,0 +1,122 @@
+import sharp from 'sharp';
+
+// The MIME type of the thumbnails of images
+export const THUMBNAIL_CONTENT_TYPE = 'image/webp';
+
+// The largest width and height of thumbnails, in pixels
+const THUMBNAIL_SIZE = 320;
+
+// The MIME types of images, which get a thumbnail and are shown inline
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Posts embed attachments with URLs like `attachment://<id>`, which clients resolve to the server
+const attachmentUrlPattern = /attachment:\/\/([0-9a-f]{24})\b/g;
+
+/**
+ * Checks whether the content of a file starts with the given bytes.
+ *
+ * @param {Buffer} data - The content of the file.
+ * @param {number[] | string} signature - The bytes, or the ASCII text, the content should start with.
+ * @param {number} offset - Where in the content the bytes should be.
+ *
+ * @returns {boolean} - `true` if the content has the bytes at the offset, otherwise `false`.
+ */
+const hasSignature = (data: Buffer, signature: number[] | string, offset = 0): boolean => {
+  const bytes = typeof signature === 'string' ? Buffer.from(signature, 'ascii') : signature;
+  return bytes.every((byte, i) => data[offset + i] === byte);
+};
+
+/**
+ * Checks whether the content of a file is UTF-8 text, such as a log file, rather than binary.
+ *
+ * @param {Buffer} data - The content of the file.
+ *
+ * @returns {boolean} - `true` if the content is valid UTF-8 without NUL bytes, otherwise `false`.
+ */
+const isText = (data: Buffer): boolean => {
+  if (data.includes(0)) {
+    return false;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Detects the MIME type of an uploaded file from its content, rather than trusting the type or
+ * the file extension the client sent. Only the types files may be attached as are detected:
+ * PNG, JPEG, GIF and WebP images, PDF documents and plain text.
+ *
+ * @param {Buffer} data - The content of the file.
+ *
+ * @returns {string | undefined} - The MIME type, or undefined if files of this type cannot be
+ *          attached.
+ */
+export const detectContentType = (data: Buffer): string | undefined => {
+  if (hasSignature(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (hasSignature(data, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (hasSignature(data, 'GIF87a') || hasSignature(data, 'GIF89a')) {
+    return 'image/gif';
+  }
+  if (hasSignature(data, 'RIFF') && hasSignature(data, 'WEBP', 8)) {
+    return 'image/webp';
+  }
+  if (hasSignature(data, '%PDF-')) {
+    return 'application/pdf';
+  }
+  if (data.length > 0 && isText(data)) {
+    return 'text/plain';
+  }
+  return undefined;
+};
+
+/**
+ * Checks whether attachments of a MIME type are images.
+ *
+ * @param {string} contentType - The MIME type.
+ *
+ * @returns {boolean} - `true` if the type is one of the image types, otherwise `false`.
+ */
+export const isImage = (contentType: string): boolean => IMAGE_TYPES.includes(contentType);
+
+/**
+ * Creates the thumbnail of an image, scaled down to fit in a square of `THUMBNAIL_SIZE` pixels.
+ * Images smaller than that keep their size.
+ *
+ * @param {Buffer} data - The content of the image.
+ *
+ * @returns {Promise<Buffer>} - The thumbnail, as a WebP image. Rejects if the image is corrupt.
+ */
+export const createThumbnail = (data: Buffer): Promise<Buffer> =>
+  sharp(data)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp()
+    .toBuffer();
+
+/**
+ * Checks whether a URL embeds an attachment, e.g. `attachment://<id>`.
+ *
+ * @param {string} url - The URL to check.
+ *
+ * @returns {boolean} - `true` if the URL is the URL of an attachment, otherwise `false`.
+ */
+export const isAttachmentUrl = (url: string): boolean => /^attachment:\/\/[0-9a-f]{24}$/.test(url);
+
+/**
+ * Lists the attachments the Markdown text of a post embeds.
+ *
+ * @param {string} text - The Markdown text.
+ *
+ * @returns {string[]} - The IDs of the attachments, without duplicates.
+ */
+export const attachmentIdsOf = (text: string): string[] => [
+  ...new Set([...text.matchAll(attachmentUrlPattern)].map(match => match[1])),
+];
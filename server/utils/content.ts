@@ -0,0 +1,121 @@
+import { isAttachmentUrl } from './attachments';
+
+// The longest Markdown text a question, answer or comment may have
+export const CONTENT_MAX_LENGTH = 30000;
+
+// Fenced code blocks and inline code spans, which are shown as written rather than rendered
+const codePattern = /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[ \t]*$|`[^`\n]+`/gm;
+
+// Inline links and images, with an optional title after the URL
+const inlineLinkPattern = /(!?)\[([^\]]*)\]\(\s*<?([^\s)>]*)>?(?:\s+("[^"]*"|'[^']*'))?\s*\)/g;
+
+// Definitions of reference-style links, e.g. `[docs]: https://example.com`
+const linkDefinitionPattern = /^ {0,3}\[[^\]]+\]:\s*<?([^\s>]+)>?/gm;
+
+// Autolinks, e.g. `<https://example.com>`
+const autolinkPattern = /<([a-z][a-z0-9+.-]*:[^\s<>]*)>/gi;
+
+// A `<` that could open raw HTML, i.e. any `<` that does not open an autolink
+const rawHtmlPattern = /<(?![a-z][a-z0-9+.-]*:[^\s<>]*>)/gi;
+
+// Control characters other than tabs and line breaks
+// eslint-disable-next-line no-control-regex
+const controlCharacterPattern = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g;
+
+/**
+ * Applies a transformation to the parts of a Markdown text outside code, leaving fenced code
+ * blocks and inline code spans as written.
+ *
+ * @param {string} text - The Markdown text.
+ * @param {(prose: string) => string} transform - The transformation to apply to each part.
+ *
+ * @returns {string} - The text with its parts outside code transformed.
+ */
+const mapProse = (text: string, transform: (prose: string) => string): string => {
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(codePattern)) {
+    result += transform(text.slice(last, match.index)) + match[0];
+    last = (match.index as number) + match[0].length;
+  }
+  return result + transform(text.slice(last));
+};
+
+/**
+ * Lists the parts of a Markdown text outside code, where links are rendered.
+ *
+ * @param {string} text - The Markdown text.
+ *
+ * @returns {string} - The parts of the text outside code, each on its own lines.
+ */
+const proseOf = (text: string): string => {
+  const parts: string[] = [];
+  mapProse(text, prose => {
+    parts.push(prose);
+    return prose;
+  });
+  return parts.join('\n');
+};
+
+/**
+ * Checks that a URL is an https:// URL with something after the scheme, or the URL of an
+ * attachment uploaded to the server.
+ *
+ * @param {string} url - The URL to check.
+ *
+ * @returns {boolean} - `true` if the URL may be linked to, otherwise `false`.
+ */
+const isAllowedUrl = (url: string): boolean =>
+  (url.startsWith('https://') && url.length > 'https://'.length) || isAttachmentUrl(url);
+
+/**
+ * Sanitizes the Markdown text of a question, answer or comment before it is saved. Line endings
+ * are normalized and control characters removed. Outside code, raw HTML is escaped rather than
+ * filtered, so that it shows as text: no tag, however it is split, nested or encoded, is left to
+ * be rendered. Code is kept as written, since it is shown rather than rendered.
+ *
+ * @param {string} text - The Markdown text.
+ *
+ * @returns {string} - The sanitized text.
+ */
+export const sanitizeContent = (text: string): string =>
+  mapProse(text.replace(/\r\n?/g, '\n').replace(controlCharacterPattern, ''), prose =>
+    prose.replace(rawHtmlPattern, '&lt;'),
+  );
+
+/**
+ * Validates the Markdown text of a question, answer or comment. It checks that:
+ * - The text is not blank, nor longer than `CONTENT_MAX_LENGTH`.
+ * - Each link has text, and each link, image, link definition and autolink outside code points to
+ *   an https:// URL or an attachment.
+ *
+ * @param {string} text - The Markdown text, usually already sanitized.
+ *
+ * @returns {string | undefined} - What is wrong with the text, or undefined if it is valid.
+ */
+export const validateContent = (text: string): string | undefined => {
+  if (!text.trim()) {
+    return 'Content cannot be empty';
+  }
+  if (text.length > CONTENT_MAX_LENGTH) {
+    return `Content cannot be longer than ${CONTENT_MAX_LENGTH} characters`;
+  }
+
+  const prose = proseOf(text);
+  for (const [, image, linkText, url] of prose.matchAll(inlineLinkPattern)) {
+    if (!image && !linkText.trim()) {
+      return 'Links must have text';
+    }
+    if (!isAllowedUrl(url)) {
+      return 'Links and images must use https:// URLs';
+    }
+  }
+  const urls = [
+    ...[...prose.matchAll(linkDefinitionPattern)].map(match => match[1]),
+    ...[...prose.matchAll(autolinkPattern)].map(match => match[1]),
+  ];
+  if (urls.some(url => !isAllowedUrl(url))) {
+    return 'Links and images must use https:// URLs';
+  }
+  return undefined;
+};
@@ -0,0 +1,25 @@
+import { sendDueDigests } from '../models/emailOperations';
+
+// How often to check for digests that are due, in milliseconds
+const DIGEST_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Starts the job that periodically sends the email digests that are due. The job does not keep
+ * the process alive on its own.
+ *
+ * @returns {NodeJS.Timeout} - The timer of the job, to stop it with `clearInterval`.
+ */
+const startDigestScheduler = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    sendDueDigests().then(result => {
+      if (typeof result === 'object') {
+        // eslint-disable-next-line no-console
+        console.error(result.error);
+      }
+    });
+  }, DIGEST_CHECK_INTERVAL);
+  timer.unref();
+  return timer;
+};
+
+export default startDigestScheduler;
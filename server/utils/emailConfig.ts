@@ -1,71 +1,109 @@
 import nodemailer from 'nodemailer';
-import { google } from 'googleapis';
 import dotenv from 'dotenv';
+import {
+  MailTransport,
+  createConsoleTransport,
+  createFileTransport,
+  createGmailTransport,
+  createMemoryTransport,
+  createSmtpTransport,
+} from './mailTransports';
 
 dotenv.config();
 
-const { GMAIL_USER, GMAIL_CLIENT_ID, GMAIL_CLIENT_SECRET, GMAIL_REFRESH_TOKEN } = process.env;
-
-let factoryTransporter: nodemailer.Transporter | null = null;
+let factoryTransporter: MailTransport | null = null;
 
 /**
- * Creates a new transporter instance for sending emails.
+ * Gets the name of the configured mail transport. `MAIL_TRANSPORT` may be `gmail`, `smtp`, `file`,
+ * `console` or `memory`. When it is not set, Gmail is used if it is configured. Otherwise emails
+ * are printed to the console only when `NODE_ENV` names an environment other than production, so
+ * that a deployment missing its mail setup fails instead of silently dropping every email.
+ *
+ * @returns {string} - The name of the transport.
  *
- * @returns {Promise<nodemailer.Transporter>} - The created transporter instance.
+ * @throws {Error} - If no transport is configured outside development.
  */
-const createTransporter = async (): Promise<nodemailer.Transporter> => {
-  if (!GMAIL_USER || !GMAIL_CLIENT_ID || !GMAIL_CLIENT_SECRET || !GMAIL_REFRESH_TOKEN) {
-    throw new Error('Missing required environment variable(s) for email configuration');
+const configuredTransport = (): string => {
+  const { env } = process;
+  if (env.MAIL_TRANSPORT) {
+    return env.MAIL_TRANSPORT;
   }
-
-  const oAuth2Client = new google.auth.OAuth2(
-    GMAIL_CLIENT_ID,
-    GMAIL_CLIENT_SECRET,
-    'https://developers.google.com/oauthplayground',
-  );
-
-  oAuth2Client.setCredentials({
-    refresh_token: GMAIL_REFRESH_TOKEN,
-  });
-
-  const accessToken = await oAuth2Client.getAccessToken();
-  if (!accessToken.token) {
-    throw new Error('Failed to obtain access token');
+  if (env.GMAIL_USER && env.GMAIL_CLIENT_ID && env.GMAIL_CLIENT_SECRET && env.GMAIL_REFRESH_TOKEN) {
+    return 'gmail';
   }
+  if (env.NODE_ENV && env.NODE_ENV !== 'production') {
+    return 'console';
+  }
+  throw new Error('No mail transport is configured: set MAIL_TRANSPORT or the GMAIL_* variables');
+};
 
-  const transporter = nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-      type: 'OAuth2',
-      user: GMAIL_USER,
-      clientId: GMAIL_CLIENT_ID,
-      clientSecret: GMAIL_CLIENT_SECRET,
-      refreshToken: GMAIL_REFRESH_TOKEN,
-      accessToken: accessToken.token,
-    },
-  });
-
-  return transporter;
+/**
+ * Creates a new transporter instance for sending emails, of the configured kind.
+ *
+ * @returns {Promise<MailTransport>} - The created transporter instance.
+ */
+const createTransporter = async (): Promise<MailTransport> => {
+  const transport = configuredTransport();
+  switch (transport) {
+    case 'gmail':
+      return createGmailTransport({
+        user: process.env.GMAIL_USER,
+        clientId: process.env.GMAIL_CLIENT_ID,
+        clientSecret: process.env.GMAIL_CLIENT_SECRET,
+        refreshToken: process.env.GMAIL_REFRESH_TOKEN,
+      });
+    case 'smtp':
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      });
+    case 'file':
+      return createFileTransport(process.env.MAIL_DIR || 'mail');
+    case 'console':
+      return createConsoleTransport();
+    case 'memory':
+      return createMemoryTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${transport}`);
+  }
 };
 
 /**
  * Returns the transporter instance for sending emails by creating a new one if it doesn't exist.
  *
- * @returns {Promise<nodemailer.Transporter>} - The created or existing transporter instance.
+ * @returns {Promise<MailTransport>} - The created or existing transporter instance.
  */
-const getTransporter = async (): Promise<nodemailer.Transporter> => {
+const getTransporter = async (): Promise<MailTransport> => {
   if (!factoryTransporter) {
     factoryTransporter = await createTransporter();
   }
   return factoryTransporter;
 };
 
+/**
+ * Gets the sender address of emails: `MAIL_FROM` if set, otherwise the account emails are sent
+ * from.
+ *
+ * @returns {string} - The sender address.
+ */
+const senderAddress = (): string =>
+  process.env.MAIL_FROM ||
+  process.env.GMAIL_USER ||
+  process.env.SMTP_USER ||
+  'CodeFlow <no-reply@codeflow.local>';
+
 /**
  * Sends an email to the specified recipient.
  *
  * @param {string} to - The email address of the recipient.
  * @param {string} subject - The subject of the email.
  * @param {string} text - The text content of the email.
+ * @param {string} [html] - The HTML content of the email, shown instead of the text by clients
+ *        that support it.
+ * @param {Record<string, string>} [headers] - Extra headers of the email.
  *
  * @returns {Promise<nodemailer.SentMessageInfo>} - The result of the email sending operation.
  */
@@ -73,14 +111,18 @@ const sendMail = async (
   to: string,
   subject: string,
   text: string,
+  html?: string,
+  headers?: Record<string, string>,
 ): Promise<nodemailer.SentMessageInfo> => {
   try {
     const transporter = await getTransporter();
     const sentEmailInfo = await transporter.sendMail({
-      from: GMAIL_USER,
+      from: senderAddress(),
       to,
       subject,
       text,
+      html,
+      headers,
     });
     return sentEmailInfo;
   } catch (error) {
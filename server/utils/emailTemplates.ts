@@ -0,0 +1,209 @@
+import dotenv from 'dotenv';
+import { DigestFrequency, EmailContent, Notification, UnsubscribeList } from '../types';
+
+dotenv.config();
+
+const SERVER_URL = process.env.SERVER_URL || 'http://localhost:8000';
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:3000';
+
+/**
+ * A question listed in a digest email, which contains:
+ * - qid - The ID of the question.
+ * - title - The title of the question.
+ * - askedBy - The username of the asker.
+ * - tags - The names of the tags of the question.
+ */
+export type DigestQuestion = { qid: string; title: string; askedBy: string; tags: string[] };
+
+/**
+ * Escapes the characters of a string that have a special meaning in HTML.
+ *
+ * @param {string} value - The string to escape.
+ *
+ * @returns {string} - The string, shown as-is when placed in HTML.
+ */
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Builds the link to a question on the client.
+ *
+ * @param {string} qid - The ID of the question.
+ *
+ * @returns {string} - The URL of the question's page.
+ */
+const questionUrl = (qid: string): string => `${CLIENT_URL}/question/${qid}`;
+
+/**
+ * Builds the link that stops a user from receiving some emails, without having to sign in.
+ *
+ * @param {string} token - The unsubscribe token of the user.
+ * @param {UnsubscribeList} list - The emails the link stops.
+ *
+ * @returns {string} - The URL of the unsubscribe link.
+ */
+export const unsubscribeUrl = (token: string, list: UnsubscribeList): string =>
+  `${SERVER_URL}/user/unsubscribe?token=${encodeURIComponent(token)}&list=${list}`;
+
+/**
+ * Builds the headers that let mail clients offer their own unsubscribe button, which stops the
+ * emails with a single POST to the unsubscribe link as described in RFC 8058.
+ *
+ * @param {string} unsubscribe - The unsubscribe link for this kind of email.
+ *
+ * @returns {Record<string, string>} - The `List-Unsubscribe` and `List-Unsubscribe-Post` headers.
+ */
+const unsubscribeHeaders = (unsubscribe: string): Record<string, string> => ({
+  'List-Unsubscribe': `<${unsubscribe}>`,
+  'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+});
+
+// What each unsubscribe link stops, as told to the user
+const unsubscribeDescriptions: Record<UnsubscribeList, string> = {
+  answers: 'emails about answers to your questions',
+  comments: 'emails about comments on your questions',
+  digest: 'digest emails',
+  all: 'any emails',
+};
+
+/**
+ * Builds the page shown when an unsubscribe link is opened, which asks the user to confirm. Only
+ * the form on the page unsubscribes them, so that link scanners and prefetching, which open the
+ * links of emails, do not.
+ *
+ * @param {string} token - The unsubscribe token from the link.
+ * @param {UnsubscribeList} list - The emails the link stops.
+ *
+ * @returns {string} - The HTML of the page.
+ */
+export const unsubscribeConfirmationPage = (token: string, list: UnsubscribeList): string =>
+  [
+    '<!DOCTYPE html>',
+    '<html><body style="font-family: Arial, sans-serif; color: #3a3e45;">',
+    `<p>Stop receiving ${unsubscribeDescriptions[list]} from CodeFlow?</p>`,
+    `<form method="post" action="${escapeHtml(unsubscribeUrl(token, list))}">`,
+    '<button type="submit">Unsubscribe</button>',
+    '</form>',
+    '</body></html>',
+  ].join('\n');
+
+/**
+ * Builds the page shown once a user is unsubscribed.
+ *
+ * @param {UnsubscribeList} list - The emails that were stopped.
+ *
+ * @returns {string} - The HTML of the page.
+ */
+export const unsubscribedPage = (list: UnsubscribeList): string =>
+  `<p>You will no longer receive ${unsubscribeDescriptions[list]} from CodeFlow. ` +
+  'You can opt back in from your settings at any time.</p>';
+
+/**
+ * Wraps the content of an email in the shared layout, with a footer explaining why it was sent
+ * and how to stop it.
+ *
+ * @param {string} heading - The heading of the email, as plain text.
+ * @param {string} body - The content of the email, as HTML.
+ * @param {string} reason - Why the user received the email, as plain text.
+ * @param {string} unsubscribe - The unsubscribe link for this kind of email.
+ *
+ * @returns {string} - The HTML body of the email.
+ */
+const renderLayout = (heading: string, body: string, reason: string, unsubscribe: string): string =>
+  [
+    '<!DOCTYPE html>',
+    '<html><body style="font-family: Arial, sans-serif; color: #3a3e45;">',
+    `<h2>${escapeHtml(heading)}</h2>`,
+    body,
+    '<hr />',
+    `<p style="font-size: 12px; color: #777777;">${escapeHtml(reason)} ` +
+      `<a href="${escapeHtml(unsubscribe)}">Unsubscribe</a></p>`,
+    '</body></html>',
+  ].join('\n');
+
+/**
+ * Builds the email telling a user that their question was answered or commented on.
+ *
+ * @param {Notification} notification - The notification of the answer or comment.
+ * @param {string} token - The unsubscribe token of the recipient.
+ *
+ * @returns {EmailContent} - The subject, the text and HTML bodies and the headers of the email.
+ */
+export const notificationEmail = (notification: Notification, token: string): EmailContent => {
+  const list = notification.type === 'answer' ? 'answers' : 'comments';
+  const action = notification.type === 'answer' ? 'answered' : 'commented on';
+  const heading = `${notification.actor} ${action} your question`;
+  const link = questionUrl(notification.question.toString());
+  const unsubscribe = unsubscribeUrl(token, list);
+  const reason = `You are receiving this email because you opted into emails about ${list} on your questions.`;
+
+  return {
+    subject: `${heading}: ${notification.questionTitle}`,
+    text: [
+      `${heading} "${notification.questionTitle}".`,
+      `View it on CodeFlow: ${link}`,
+      '',
+      `${reason} To unsubscribe, visit ${unsubscribe}`,
+    ].join('\n'),
+    html: renderLayout(
+      heading,
+      `<p><a href="${escapeHtml(link)}">${escapeHtml(notification.questionTitle)}</a></p>`,
+      reason,
+      unsubscribe,
+    ),
+    headers: unsubscribeHeaders(unsubscribe),
+  };
+};
+
+/**
+ * Builds the digest email listing the new questions in a user's watched tags.
+ *
+ * @param {DigestFrequency} frequency - How often the user receives the digest.
+ * @param {DigestQuestion[]} questions - The new questions, most recent first.
+ * @param {string} token - The unsubscribe token of the recipient.
+ *
+ * @returns {EmailContent} - The subject, the text and HTML bodies and the headers of the email.
+ */
+export const digestEmail = (
+  frequency: Exclude<DigestFrequency, 'off'>,
+  questions: DigestQuestion[],
+  token: string,
+): EmailContent => {
+  const heading = `Your ${frequency} CodeFlow digest`;
+  const summary = `${questions.length} new question${questions.length === 1 ? '' : 's'} in the tags you watch`;
+  const unsubscribe = unsubscribeUrl(token, 'digest');
+  const reason = `You are receiving this email because you opted into a ${frequency} digest.`;
+
+  const items = questions.map(q => {
+    const tags = q.tags.map(t => `[${t}]`).join(' ');
+    return {
+      text: `- ${q.title} (asked by ${q.askedBy}) ${tags}\n  ${questionUrl(q.qid)}`,
+      html:
+        `<li><a href="${escapeHtml(questionUrl(q.qid))}">${escapeHtml(q.title)}</a> ` +
+        `<span style="color: #777777;">asked by ${escapeHtml(q.askedBy)} ${escapeHtml(tags)}</span></li>`,
+    };
+  });
+
+  return {
+    subject: `${heading}: ${summary}`,
+    text: [
+      `${summary}:`,
+      '',
+      ...items.map(i => i.text),
+      '',
+      `${reason} To unsubscribe, visit ${unsubscribe}`,
+    ].join('\n'),
+    html: renderLayout(
+      heading,
+      `<p>${escapeHtml(summary)}:</p>\n<ul>\n${items.map(i => i.html).join('\n')}\n</ul>`,
+      reason,
+      unsubscribe,
+    ),
+    headers: unsubscribeHeaders(unsubscribe),
+  };
+};
@@ -0,0 +1,97 @@
+import { Document, Types } from 'mongoose';
+import { Answer, Comment, Question, User } from '../types';
+import { hasPrivilege } from './privileges';
+
+// What the title of a hidden question is replaced with for users who may not read it
+export const HIDDEN_QUESTION_TITLE = 'Hidden question';
+
+/**
+ * The parts of a question, answer or comment that are redacted while it is hidden.
+ */
+type RedactablePost = Pick<Comment, 'text' | 'revisions' | 'hiddenAt'>;
+
+/**
+ * Checks whether a user may read a hidden post: its author and the users who may moderate can.
+ *
+ * @param {string} author - The username of the author of the post.
+ * @param {User | undefined} viewer - The user reading the post, undefined for everyone.
+ *
+ * @returns {boolean} - `true` if the user may read the post.
+ */
+const canReadHidden = (author: string, viewer: User | undefined): boolean =>
+  viewer !== undefined && (viewer.username === author || hasPrivilege(viewer, 'moderate'));
+
+/**
+ * Removes the text, and the revisions that would give it away, of a post that is hidden, unless
+ * the user may read it.
+ *
+ * @param {T} post - The post.
+ * @param {string} author - The username of the author of the post.
+ * @param {User | undefined} viewer - The user reading the post, undefined for everyone.
+ *
+ * @returns {T} - The post, or a redacted copy of it.
+ */
+const redactPost = <T extends RedactablePost>(
+  post: T,
+  author: string,
+  viewer: User | undefined,
+): T =>
+  post.hiddenAt && !canReadHidden(author, viewer) ? { ...post, text: '', revisions: [] } : post;
+
+/**
+ * Redacts the hidden comments in a list of comments, leaving unpopulated IDs as they are.
+ *
+ * @param {Comment[] | Types.ObjectId[]} comments - The comments.
+ * @param {User | undefined} viewer - The user reading the comments, undefined for everyone.
+ *
+ * @returns {Comment[] | Types.ObjectId[]} - The comments, hidden ones redacted.
+ */
+const redactComments = (
+  comments: Comment[] | Types.ObjectId[],
+  viewer: User | undefined,
+): Comment[] | Types.ObjectId[] =>
+  (comments as (Comment | Types.ObjectId)[]).map(comment =>
+    'commentBy' in comment ? redactPost(comment, comment.commentBy, viewer) : comment,
+  ) as Comment[] | Types.ObjectId[];
+
+/**
+ * Redacts a hidden answer and its hidden comments.
+ *
+ * @param {Answer} answer - The answer, with its comments populated or not.
+ * @param {User | undefined} viewer - The user reading the answer, undefined for everyone.
+ *
+ * @returns {Answer} - A copy of the answer, hidden posts redacted.
+ */
+const redactAnswer = (answer: Answer, viewer: User | undefined): Answer => ({
+  ...redactPost(answer, answer.ansBy, viewer),
+  comments: redactComments(answer.comments, viewer),
+});
+
+/**
+ * Redacts the hidden posts of a question or answer, along with its answers and comments when
+ * they are populated, so that flagged spam or abuse is not sent to users who may not read it.
+ * Hidden posts keep their `hiddenAt` date, and lose their text and revisions; a hidden question
+ * also loses its title. The author of a hidden post and moderators still read it in full.
+ *
+ * @param {T} doc - The question or answer, as a document or a plain object.
+ * @param {User} [viewer] - The user the post is sent to. Left out when it is sent to all clients.
+ *
+ * @returns {T} - A plain copy of the post, hidden posts redacted.
+ */
+export const redactHiddenPosts = <T extends Question | Answer>(doc: T, viewer?: User): T => {
+  const plain: T = doc instanceof Document ? doc.toObject() : { ...doc };
+
+  if ('askedBy' in plain) {
+    const question = plain as Question;
+    const redacted = redactPost(question, question.askedBy, viewer);
+    return {
+      ...redacted,
+      title: redacted === question ? question.title : HIDDEN_QUESTION_TITLE,
+      answers: (question.answers as (Answer | Types.ObjectId)[]).map(answer =>
+        'ansBy' in answer ? redactAnswer(answer, viewer) : answer,
+      ) as Answer[] | Types.ObjectId[],
+      comments: redactComments(question.comments, viewer),
+    } as T;
+  }
+  return redactAnswer(plain as Answer, viewer) as T;
+};
@@ -0,0 +1,177 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import { google } from 'googleapis';
+
+/**
+ * An email to send, which contains:
+ * - from - The sender address.
+ * - to - The email address of the recipient.
+ * - subject - The subject of the email.
+ * - text - The text content of the email.
+ * - html - The HTML content of the email. Optional field.
+ * - headers - Extra headers of the email. Optional field.
+ */
+export type MailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Something that can deliver emails: a nodemailer transporter, or one of the local sinks below.
+ */
+export interface MailTransport {
+  sendMail(message: MailMessage): Promise<nodemailer.SentMessageInfo>;
+}
+
+/**
+ * An email kept by the in-memory sink, which contains the message and when it was sent.
+ */
+export type SentMail = MailMessage & { sentAt: Date };
+
+const SENT_MAILS: SentMail[] = [];
+
+/**
+ * Creates a transport that sends emails through Gmail, authenticated with OAuth2.
+ *
+ * @param config - The Gmail address and the OAuth2 credentials of the Google application.
+ *
+ * @returns {Promise<MailTransport>} - The created transport.
+ */
+export const createGmailTransport = async (config: {
+  user?: string;
+  clientId?: string;
+  clientSecret?: string;
+  refreshToken?: string;
+}): Promise<MailTransport> => {
+  const { user, clientId, clientSecret, refreshToken } = config;
+  if (!user || !clientId || !clientSecret || !refreshToken) {
+    throw new Error('Missing required environment variable(s) for email configuration');
+  }
+
+  const oAuth2Client = new google.auth.OAuth2(
+    clientId,
+    clientSecret,
+    'https://developers.google.com/oauthplayground',
+  );
+
+  oAuth2Client.setCredentials({
+    refresh_token: refreshToken,
+  });
+
+  const accessToken = await oAuth2Client.getAccessToken();
+  if (!accessToken.token) {
+    throw new Error('Failed to obtain access token');
+  }
+
+  return nodemailer.createTransport({
+    service: 'gmail',
+    auth: {
+      type: 'OAuth2',
+      user,
+      clientId,
+      clientSecret,
+      refreshToken,
+      accessToken: accessToken.token,
+    },
+  });
+};
+
+/**
+ * Creates a transport that sends emails through any SMTP server.
+ *
+ * @param config - The host and port of the server, whether to use TLS from the start, and the
+ *        credentials, if the server requires them.
+ *
+ * @returns {MailTransport} - The created transport.
+ */
+export const createSmtpTransport = (config: {
+  host?: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}): MailTransport => {
+  if (!config.host) {
+    throw new Error('Missing required environment variable(s) for email configuration');
+  }
+
+  return nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+};
+
+/**
+ * Creates a sink that writes every email to a `.eml` file in a directory instead of sending it,
+ * so that emails can be opened with a mail client during local development.
+ *
+ * @param {string} dir - The directory to write the emails to, created if it does not exist.
+ *
+ * @returns {MailTransport} - The created sink.
+ */
+export const createFileTransport = (dir: string): MailTransport => {
+  const streamer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    sendMail: async message => {
+      const info = await streamer.sendMail(message);
+      const file = path.join(dir, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(file, info.message as Buffer);
+      return { ...info, file };
+    },
+  };
+};
+
+/**
+ * Creates a sink that prints every email to the console instead of sending it.
+ *
+ * @returns {MailTransport} - The created sink.
+ */
+export const createConsoleTransport = (): MailTransport => ({
+  sendMail: async message => {
+    // eslint-disable-next-line no-console
+    console.log(
+      `Email to ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n--- end of email ---`,
+    );
+    return { envelope: { from: message.from, to: [message.to] }, messageId: crypto.randomUUID() };
+  },
+});
+
+/**
+ * Creates a sink that keeps every email in memory instead of sending it, for tests. The kept
+ * emails are read with `getSentMails` and cleared with `clearSentMails`.
+ *
+ * @returns {MailTransport} - The created sink.
+ */
+export const createMemoryTransport = (): MailTransport => ({
+  sendMail: async message => {
+    SENT_MAILS.push({ ...message, sentAt: new Date() });
+    return { envelope: { from: message.from, to: [message.to] }, messageId: crypto.randomUUID() };
+  },
+});
+
+/**
+ * Gets the emails kept by the in-memory sink.
+ *
+ * @param {string} [to] - Only get the emails sent to this address.
+ *
+ * @returns {SentMail[]} - The emails, oldest first.
+ */
+export const getSentMails = (to?: string): SentMail[] =>
+  SENT_MAILS.filter(mail => to === undefined || mail.to === to);
+
+/**
+ * Forgets the emails kept by the in-memory sink.
+ */
+export const clearSentMails = (): void => {
+  SENT_MAILS.length = 0;
+};
@@ -0,0 +1,109 @@
+import { Socket } from 'socket.io';
+import jwt from 'jsonwebtoken';
+import UserModel from '../models/users';
+import { isSessionActive } from '../models/sessionOperations';
+import { saveNotifications } from '../models/notificationOperations';
+import { sendNotificationEmails } from '../models/emailOperations';
+import {
+  ClientToServerEvents,
+  DecodedToken,
+  FakeSOSocket,
+  NotificationDraft,
+  ServerToClientEvents,
+} from '../types';
+
+// Matches `@username` at the start of the text or after whitespace; a trailing dot ends a sentence
+const mentionPattern = /(?:^|\s)@([\w-]+(?:\.[\w-]+)*)/g;
+
+/**
+ * Gets the name of the socket room that the connections of a user join, so that notifications
+ * are only pushed to them.
+ *
+ * @param {string} username - The username of the user.
+ *
+ * @returns {string} - The name of the room.
+ */
+export const userRoom = (username: string): string => `user:${username}`;
+
+/**
+ * Builds the notifications for the users mentioned in a post with `@username`.
+ *
+ * @param {string} text - The text of the question, answer or comment.
+ * @param draft - The actor, the post and where it is shown, shared by the notifications.
+ *
+ * @returns {NotificationDraft[]} - A mention notification for each mentioned user.
+ */
+export const mentionNotifications = (
+  text: string,
+  draft: Omit<NotificationDraft, 'recipient' | 'type'>,
+): NotificationDraft[] =>
+  [...new Set([...text.matchAll(mentionPattern)].map(m => m[1]))].map(recipient => ({
+    ...draft,
+    recipient,
+    type: 'mention',
+  }));
+
+/**
+ * Saves notifications and pushes each one to the connections of its recipient, and emails the
+ * recipients who opted into it. Failing to notify must not fail the action that caused the
+ * notifications, so errors are ignored.
+ *
+ * @param {FakeSOSocket} socket - The socket server.
+ * @param {NotificationDraft[]} drafts - The notifications to send, the most important first.
+ *
+ * @returns {Promise<void>} - Resolves once the notifications have been saved and pushed.
+ */
+export const notifyUsers = async (
+  socket: FakeSOSocket,
+  drafts: NotificationDraft[],
+): Promise<void> => {
+  const saved = await saveNotifications(drafts);
+  if ('error' in saved) {
+    return;
+  }
+
+  saved.forEach(n => socket.to(userRoom(n.recipient)).emit('notification', n));
+  // Not awaited, so that slow mail delivery does not hold up the action
+  sendNotificationEmails(saved);
+};
+
+/**
+ * Makes a connection stop receiving the notifications of any user.
+ *
+ * @param client - The connection.
+ */
+export const leaveUserRooms = (client: Socket<ClientToServerEvents, ServerToClientEvents>) => {
+  [...client.rooms].filter(room => room.startsWith('user:')).forEach(room => client.leave(room));
+};
+
+/**
+ * Identifies the user of a connection from an access token, the same way `verifyToken` does for
+ * requests, and makes the connection receive that user's notifications. Connections with an
+ * invalid token are left out of every user's room.
+ *
+ * @param client - The connection.
+ * @param {string} token - The access token sent by the client.
+ * @param {string} JWT_SECRET - The secret used to sign access tokens.
+ *
+ * @returns {Promise<void>} - Resolves once the connection has joined the room of its user.
+ */
+export const joinUserRoom = async (
+  client: Socket<ClientToServerEvents, ServerToClientEvents>,
+  token: string,
+  JWT_SECRET: string,
+): Promise<void> => {
+  leaveUserRooms(client);
+
+  try {
+    const decodedToken = jwt.verify(token, JWT_SECRET) as DecodedToken;
+    if (decodedToken.sessionId && !(await isSessionActive(decodedToken.sessionId))) {
+      return;
+    }
+    const user = await UserModel.findOne({ _id: decodedToken.userId });
+    if (user) {
+      client.join(userRoom(user.username));
+    }
+  } catch (error) {
+    // An invalid or expired token leaves the connection without notifications
+  }
+};
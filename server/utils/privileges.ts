@@ -0,0 +1,81 @@
+import dotenv from 'dotenv';
+import { Privilege, User, UserRole } from '../types';
+
+dotenv.config();
+
+/**
+ * Reads a reputation threshold from an environment variable, falling back to a default when the
+ * variable is not set or is not a number.
+ *
+ * @param {string | undefined} value - The value of the environment variable.
+ * @param {number} fallback - The threshold to use when no valid value is configured.
+ *
+ * @returns {number} - The configured threshold.
+ */
+const readThreshold = (value: string | undefined, fallback: number): number => {
+  const threshold = Number(value);
+  return value && Number.isFinite(threshold) ? threshold : fallback;
+};
+
+/**
+ * The minimum reputation needed for each privilege, configurable through environment variables.
+ */
+export const privilegeThresholds: Record<Privilege, number> = {
+  downvote: readThreshold(process.env.REPUTATION_TO_DOWNVOTE, 125),
+  comment: readThreshold(process.env.REPUTATION_TO_COMMENT, 50),
+  editOthers: readThreshold(process.env.REPUTATION_TO_EDIT_OTHERS, 2000),
+  editTagWiki: readThreshold(process.env.REPUTATION_TO_EDIT_TAG_WIKI, 1500),
+  createTag: readThreshold(process.env.REPUTATION_TO_CREATE_TAG, 300),
+  voteToClose: readThreshold(process.env.REPUTATION_TO_VOTE_TO_CLOSE, 500),
+  moderate: readThreshold(process.env.REPUTATION_TO_MODERATE, 10000),
+};
+
+const privilegeDescriptions: Record<Privilege, string> = {
+  downvote: 'Downvoting',
+  comment: 'Commenting',
+  editOthers: "Editing other users' posts",
+  editTagWiki: 'Editing tag wikis',
+  createTag: 'Creating new tags',
+  voteToClose: 'Voting to close and reopen questions',
+  moderate: 'Using the moderation tools',
+};
+
+/**
+ * The roles of users, from the least to the most trusted.
+ */
+export const USER_ROLES: UserRole[] = ['user', 'moderator', 'admin'];
+
+/**
+ * Checks whether a user has a role, or a more trusted one.
+ *
+ * @param {User | undefined} user - The user, usually the one authenticated by `verifyToken`.
+ * @param {UserRole} role - The least trusted role allowed.
+ *
+ * @returns {boolean} - `true` if the user's role is at least as trusted, otherwise `false`.
+ */
+export const hasRole = (user: User | undefined, role: UserRole): boolean =>
+  user !== undefined && USER_ROLES.indexOf(user.role ?? 'user') >= USER_ROLES.indexOf(role);
+
+/**
+ * Checks whether a user has a privilege: moderators and admins have every privilege, and other
+ * users need enough reputation.
+ *
+ * @param {User | undefined} user - The user, usually the one authenticated by `verifyToken`.
+ * @param {Privilege} privilege - The privilege to check.
+ *
+ * @returns {boolean} - `true` if the user is a moderator or their reputation meets the
+ *          threshold, otherwise `false`.
+ */
+export const hasPrivilege = (user: User | undefined, privilege: Privilege): boolean =>
+  hasRole(user, 'moderator') ||
+  (user !== undefined && (user.reputation ?? 1) >= privilegeThresholds[privilege]);
+
+/**
+ * Builds the message sent back when a user lacks the reputation for a privilege.
+ *
+ * @param {Privilege} privilege - The missing privilege.
+ *
+ * @returns {string} - A message naming the reputation required.
+ */
+export const privilegeError = (privilege: Privilege): string =>
+  `${privilegeDescriptions[privilege]} requires at least ${privilegeThresholds[privilege]} reputation`;
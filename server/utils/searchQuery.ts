@@ -0,0 +1,128 @@
+import { SearchQuery, SnippetPart } from '../types';
+
+// Matches one token of a search string: an optionally excluded quoted phrase, a tag in square
+// brackets, or a run of non-space characters
+const tokenPattern = /(-?)"([^"]*)"|\[([^\]]+)\]|(\S+)/g;
+const scorePattern = /^score:(>=|<=|>|<|=)?(-?\d+)$/;
+const IS_OPERATOR_VALUES: SearchQuery['is'] = ['answered', 'unanswered', 'accepted'];
+
+// The number of characters of text shown in a snippet, and shown before the first match
+const SNIPPET_LENGTH = 200;
+const SNIPPET_LEAD = 60;
+
+/**
+ * Escapes the characters of a string that have a special meaning in regular expressions.
+ *
+ * @param {string} value - The string to escape.
+ *
+ * @returns {string} - The string, matching itself when used as a pattern.
+ */
+export const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Parses a search string into its parts. Besides words, the string may contain quoted phrases,
+ * `-` exclusions, tags in square brackets, and the operators `user:name`, `is:answered`,
+ * `is:unanswered`, `is:accepted` and `score:>5`.
+ *
+ * @param {string} search - The search string.
+ *
+ * @returns {SearchQuery} - The parts of the search.
+ */
+export const parseSearchQuery = (search: string): SearchQuery => {
+  const query: SearchQuery = { terms: [], phrases: [], excluded: [], tags: [], is: [] };
+
+  [...search.matchAll(tokenPattern)].forEach(([, negated, phrase, tag, word]) => {
+    if (phrase !== undefined) {
+      const text = phrase.trim();
+      if (text) {
+        (negated ? query.excluded : query.phrases).push(text);
+      }
+      return;
+    }
+    if (tag !== undefined) {
+      query.tags.push(tag.trim());
+      return;
+    }
+
+    const score = word.match(scorePattern);
+    if (score) {
+      const op = (score[1] || '>=') as NonNullable<SearchQuery['score']>['op'];
+      query.score = { op, value: Number(score[2]) };
+      return;
+    }
+    if (word.startsWith('user:') && word.length > 5) {
+      query.user = word.slice(5);
+      return;
+    }
+    if (word.startsWith('is:')) {
+      const value = word.slice(3) as SearchQuery['is'][number];
+      if (IS_OPERATOR_VALUES.includes(value) && !query.is.includes(value)) {
+        query.is.push(value);
+      }
+      return;
+    }
+
+    const words = word.match(/\w+/g) || [];
+    if (word.startsWith('-')) {
+      query.excluded.push(...words);
+    } else {
+      query.terms.push(...words);
+    }
+  });
+
+  return query;
+};
+
+/**
+ * Builds a snippet of a text around the first match of any of the search words or phrases, split
+ * into pieces so that every match in the snippet can be highlighted. Words also match longer
+ * words they are the start of, e.g. `store` matches `stored`.
+ *
+ * @param {string} text - The text to take the snippet from.
+ * @param {string[]} words - The words and phrases searched for.
+ *
+ * @returns {SnippetPart[] | undefined} - The pieces of the snippet, or `undefined` if nothing in
+ *          the text matches.
+ */
+export const buildSnippet = (text: string, words: string[]): SnippetPart[] | undefined => {
+  if (!text || words.length === 0) {
+    return undefined;
+  }
+
+  const pattern = new RegExp(`\\b(?:${words.map(escapeRegExp).join('|')})\\w*`, 'gi');
+  const first = text.search(pattern);
+  if (first === -1) {
+    return undefined;
+  }
+
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  if (start > 0) {
+    // Start the snippet at a word rather than in the middle of one
+    const space = text.indexOf(' ', start);
+    start = space === -1 || space > first ? start : space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const excerpt = text.slice(start, end);
+
+  const parts: SnippetPart[] = [];
+  let last = 0;
+  [...excerpt.matchAll(pattern)].forEach(m => {
+    const index = m.index ?? 0;
+    if (index > last) {
+      parts.push({ text: excerpt.slice(last, index), match: false });
+    }
+    parts.push({ text: m[0], match: true });
+    last = index + m[0].length;
+  });
+  if (last < excerpt.length) {
+    parts.push({ text: excerpt.slice(last), match: false });
+  }
+
+  if (start > 0) {
+    parts.unshift({ text: '…', match: false });
+  }
+  if (end < text.length) {
+    parts.push({ text: '…', match: false });
+  }
+  return parts;
+};
@@ -0,0 +1,148 @@
+// Words too common to tell two questions apart
+const STOP_WORDS = [
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'but',
+  'by',
+  'can',
+  'do',
+  'does',
+  'for',
+  'from',
+  'get',
+  'has',
+  'have',
+  'how',
+  'i',
+  'if',
+  'in',
+  'is',
+  'it',
+  'my',
+  'no',
+  'not',
+  'of',
+  'on',
+  'or',
+  'so',
+  'that',
+  'the',
+  'this',
+  'to',
+  'using',
+  'was',
+  'what',
+  'when',
+  'where',
+  'which',
+  'why',
+  'with',
+  'you',
+];
+
+// How much the title, text and tags of two questions count towards how similar they are. Titles
+// count the most, as they are written to sum up the question
+const similarityWeights = { title: 0.6, text: 0.15, tags: 0.25 };
+
+/**
+ * The parts of a question compared to find duplicates, which contains:
+ * - title - The title of the question
+ * - text - The text of the question. Optional field
+ * - tags - The names of the tags of the question. Optional field
+ */
+export type ComparedQuestion = { title: string; text?: string; tags?: string[] };
+
+/**
+ * Reduces a word to a simple stem, so that the singular and plural of a word match.
+ *
+ * @param {string} word - The word, in lower case.
+ *
+ * @returns {string} - The stem of the word.
+ */
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+};
+
+/**
+ * Splits a text into the distinct words that carry its meaning, leaving out common words.
+ *
+ * @param {string} text - The text to split.
+ *
+ * @returns {Set<string>} - The stems of the words, in lower case.
+ */
+export const keywords = (text: string): Set<string> =>
+  new Set(
+    (text.toLowerCase().match(/\w+/g) || [])
+      .filter(word => word.length > 1 && !STOP_WORDS.includes(word))
+      .map(stem),
+  );
+
+/**
+ * Measures how much two sets overlap, with the Dice coefficient: twice the number of shared
+ * items over the total number of items.
+ *
+ * @param {Set<string>} a - The first set.
+ * @param {Set<string>} b - The second set.
+ *
+ * @returns {number} - The overlap, from 0 when nothing is shared to 1 when the sets are equal.
+ */
+export const overlap = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  const shared = [...a].filter(item => b.has(item)).length;
+  return (2 * shared) / (a.size + b.size);
+};
+
+/**
+ * Scores how similar an existing question is to one being asked, by how many keywords their
+ * titles and texts share and how many tags they share. Parts of the question being asked that
+ * are still empty are left out, so that a title alone can already match.
+ *
+ * @param {ComparedQuestion} asked - The question being asked.
+ * @param {ComparedQuestion} existing - The existing question.
+ *
+ * @returns {number} - The similarity, from 0 to 1.
+ */
+export const scoreSimilarity = (asked: ComparedQuestion, existing: ComparedQuestion): number => {
+  const parts: { weight: number; score: number }[] = [];
+
+  const askedTitle = keywords(asked.title);
+  if (askedTitle.size > 0) {
+    parts.push({
+      weight: similarityWeights.title,
+      score: overlap(askedTitle, keywords(existing.title)),
+    });
+  }
+  const askedText = keywords(asked.text ?? '');
+  if (askedText.size > 0) {
+    parts.push({
+      weight: similarityWeights.text,
+      score: overlap(askedText, keywords(existing.text ?? '')),
+    });
+  }
+  const askedTags = new Set((asked.tags ?? []).map(t => t.toLowerCase()));
+  if (askedTags.size > 0) {
+    parts.push({
+      weight: similarityWeights.tags,
+      score: overlap(askedTags, new Set((existing.tags ?? []).map(t => t.toLowerCase()))),
+    });
+  }
+
+  const totalWeight = parts.reduce((sum, p) => sum + p.weight, 0);
+  if (totalWeight === 0) {
+    return 0;
+  }
+  return parts.reduce((sum, p) => sum + p.weight * p.score, 0) / totalWeight;
+};
@@ -0,0 +1,55 @@
+import { Tag } from '../types';
+
+// The longest a tag name may be, once normalized
+export const TAG_NAME_MAX_LENGTH = 20;
+
+// The most tags a question may have
+export const QUESTION_TAGS_MAX = 5;
+
+/**
+ * Normalizes the name of a tag: it is lowercased, runs of spaces and underscores become single
+ * hyphens, and characters other than letters, digits and `.`, `#`, `+` and `-` are removed, so
+ * that `Node JS` and `node_js` both become `node-js`.
+ *
+ * @param {string} name - The name as typed.
+ *
+ * @returns {string} - The normalized name, empty if nothing is left of it.
+ */
+export const normalizeTagName = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9.#+-]/g, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '');
+
+/**
+ * Normalizes the tags of a question being asked or edited, dropping those whose names are empty
+ * once normalized and those that repeat an earlier one. It checks that:
+ * - The question keeps at least one tag, and no more than `QUESTION_TAGS_MAX`.
+ * - No name is longer than `TAG_NAME_MAX_LENGTH`.
+ *
+ * @param {Tag[]} tags - The tags as sent by the client.
+ *
+ * @returns {Tag[] | { error: string }} - The tags with normalized names, or what is wrong with
+ *          them.
+ */
+export const normalizeTags = (tags: Tag[]): Tag[] | { error: string } => {
+  const normalized = tags
+    .map(tag => ({ ...tag, name: normalizeTagName(typeof tag?.name === 'string' ? tag.name : '') }))
+    .filter(
+      (tag, index, all) => tag.name !== '' && all.findIndex(t => t.name === tag.name) === index,
+    );
+
+  if (normalized.length === 0) {
+    return { error: 'Questions must have at least 1 tag' };
+  }
+  if (normalized.length > QUESTION_TAGS_MAX) {
+    return { error: `Questions cannot have more than ${QUESTION_TAGS_MAX} tags` };
+  }
+  if (normalized.some(tag => tag.name.length > TAG_NAME_MAX_LENGTH)) {
+    return { error: `Tags cannot be longer than ${TAG_NAME_MAX_LENGTH} characters` };
+  }
+  return normalized;
+};